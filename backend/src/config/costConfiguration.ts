@@ -1,4 +1,12 @@
-import { RoomCostFactors, CostEstimationSettings } from '../../../shared/types';
+import {
+  RoomCostFactors,
+  CostEstimationSettings,
+  CleanroomOperatingFactors,
+  LifecycleCostSettings,
+  CostBreakdown,
+  CostRateTableReference,
+  ProjectCostEstimate
+} from '../../../shared/types';
 
 // Default cost factors by cleanroom class (USD per square meter)
 export const CLEANROOM_COST_FACTORS: Record<string, RoomCostFactors> = {
@@ -340,6 +348,37 @@ export const DEFAULT_COST_SETTINGS: CostEstimationSettings = {
   contingencyPercentage: 10
 };
 
+// Running costs by cleanroom class: typical supply air change rates, gowning per entry (USD)
+// and requalification intervals (EU GMP Annex 1: every 6 months for grades A/B, yearly for C/D)
+export const CLEANROOM_OPERATING_FACTORS: Record<string, CleanroomOperatingFactors> = {
+  'A': { airChangesPerHour: 400, gowningCostPerEntry: 45, requalificationIntervalMonths: 6 }, // Unidirectional airflow
+  'B': { airChangesPerHour: 50, gowningCostPerEntry: 35, requalificationIntervalMonths: 6 },
+  'C': { airChangesPerHour: 30, gowningCostPerEntry: 12, requalificationIntervalMonths: 12 },
+  'D': { airChangesPerHour: 15, gowningCostPerEntry: 5, requalificationIntervalMonths: 12 },
+  'CNC': { airChangesPerHour: 6, gowningCostPerEntry: 1, requalificationIntervalMonths: 0 }
+};
+
+// Default lifecycle (CAPEX + OPEX) settings
+export const DEFAULT_LIFECYCLE_SETTINGS: LifecycleCostSettings = {
+  horizonYears: 20,
+  discountRate: 8,
+  opexEscalationRate: 2.5,
+  energyPricePerKwh: 0.15, // USD, converted to the estimate currency
+  energyEscalationRate: 3,
+  hvacOperatingHoursPerYear: 8760,
+  hvacEnergyKwhPerM3: 0.0012,
+  defaultCeilingHeight: 3,
+  operatingDaysPerYear: 250,
+  gowningEntriesPerPersonPerDay: 2,
+  sqmPerOccupant: 25,
+  requalificationCostFraction: 0.25,
+  includeEquipmentReplacement: true
+};
+
+// Seed of the rate table store (backend/data/cost-rate-tables.json), effective from RATE_TABLE_SEED_DATE;
+// estimates use the dated values of the store, not these constants
+export const RATE_TABLE_SEED_DATE = '2021-01-01';
+
 // Regional cost factors (examples)
 export const REGIONAL_FACTORS: Record<string, number> = {
   'North America': 1.0,
@@ -351,7 +390,7 @@ export const REGIONAL_FACTORS: Record<string, number> = {
   'Africa': 0.55
 };
 
-// Currency conversion rates (example - should be updated regularly)
+// Currency conversion rates (example - update them in the rate table store)
 export const CURRENCY_RATES: Record<string, number> = {
   'USD': 1.0,
   'EUR': 0.85,
@@ -361,6 +400,16 @@ export const CURRENCY_RATES: Record<string, number> = {
   'INR': 75
 };
 
+// Cost index series escalation factors are measured with; 100 on RATE_TABLE_SEED_DATE
+export const ESCALATION_INDICES: Record<string, number> = {
+  'construction': 100,
+  'equipment': 100
+};
+
+// Multiplier from cost base prices to the estimate: region, escalation and currency
+export const getPriceFactor = (settings: CostEstimationSettings): number =>
+  settings.regionalFactor * settings.escalationFactor * (settings.exchangeRate ?? 1);
+
 // Helper function to calculate room cost
 export function calculateRoomCost(
   area: number,
@@ -380,9 +429,11 @@ export function calculateRoomCost(
   const unitType = (baseCostFactors.unitType || 'sqm').toLowerCase();
   const quantity = unitType === 'sqm' ? area : 1;
 
-  const constructionCost = quantity * baseCostFactors.baseConstructionCostPerSqm * roomTypeAdjustment * settings.regionalFactor * settings.escalationFactor;
-  const hvacCost = quantity * baseCostFactors.hvacCostPerSqm * roomTypeAdjustment * settings.regionalFactor * settings.escalationFactor;
-  const validationCost = quantity * baseCostFactors.validationCostPerSqm * settings.regionalFactor * settings.escalationFactor;
+  const priceFactor = getPriceFactor(settings);
+
+  const constructionCost = quantity * baseCostFactors.baseConstructionCostPerSqm * roomTypeAdjustment * priceFactor;
+  const hvacCost = quantity * baseCostFactors.hvacCostPerSqm * roomTypeAdjustment * priceFactor;
+  const validationCost = quantity * baseCostFactors.validationCostPerSqm * priceFactor;
 
   return {
     constructionCost,
@@ -399,9 +450,28 @@ export function getEquipmentForRoomType(roomType: string): EquipmentCatalogItem[
   );
 }
 
+// Room of a layout as sent for cost estimation
+export interface CostRoomInput {
+  id?: string;
+  name?: string;
+  area: number;
+  cleanroomClass: string;
+  roomType: string;
+  equipment?: string[];
+}
+
+// Cost factors a room of this class is priced with: its cost database profile, then the defaults
+export function getRoomCostFactors(
+  cleanroomClass: string,
+  cleanroomOverrides?: Record<string, RoomCostFactors | undefined>
+): RoomCostFactors {
+  const normalizedClass = cleanroomClass?.toUpperCase?.() || cleanroomClass;
+  return cleanroomOverrides?.[normalizedClass] || CLEANROOM_COST_FACTORS[cleanroomClass] || CLEANROOM_COST_FACTORS['CNC'];
+}
+
 // Helper function to calculate total project cost
 export function calculateProjectCost(
-  rooms: { area: number; cleanroomClass: string; roomType: string; equipment?: string[] }[],
+  rooms: CostRoomInput[],
   settings: CostEstimationSettings = DEFAULT_COST_SETTINGS,
   cleanroomOverrides?: Record<string, RoomCostFactors | undefined>
 ): {
@@ -424,7 +494,7 @@ export function calculateProjectCost(
       room.equipment.forEach(equipmentId => {
         const equipment = EQUIPMENT_CATALOG.find(e => e.id === equipmentId);
         if (equipment) {
-          equipmentCost += (equipment.purchaseCost + equipment.installationCost + equipment.validationCost) * settings.regionalFactor * settings.escalationFactor;
+          equipmentCost += (equipment.purchaseCost + equipment.installationCost + equipment.validationCost) * getPriceFactor(settings);
         }
       });
     }
@@ -440,4 +510,99 @@ export function calculateProjectCost(
     contingency,
     total: subtotal + contingency
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Itemized project estimate: cost breakdown per room and the equipment list; rooms without
+ * area, cleanroom class or room type are skipped
+ */
+export function buildProjectCostEstimate(
+  rooms: CostRoomInput[],
+  settings: CostEstimationSettings = DEFAULT_COST_SETTINGS,
+  cleanroomOverrides?: Record<string, RoomCostFactors | undefined>,
+  rateTable?: CostRateTableReference
+): ProjectCostEstimate {
+  const projectCostEstimate: ProjectCostEstimate = {
+    rooms: [],
+    equipment: [],
+    settings,
+    subtotal: 0,
+    contingency: 0,
+    grandTotal: 0,
+    currency: settings.currency,
+    estimatedDate: new Date(),
+    rateTable
+  };
+
+  // Calculate costs for each room
+  for (const room of rooms) {
+    const { area, cleanroomClass, roomType, equipment = [] } = room;
+
+    if (!area || !cleanroomClass || !roomType) {
+      continue; // Skip incomplete room data
+    }
+
+    const normalizedClass = cleanroomClass?.toUpperCase?.() || cleanroomClass;
+    const customFactors = normalizedClass ? cleanroomOverrides?.[normalizedClass] : undefined;
+    const roomCostData = calculateRoomCost(area, cleanroomClass, roomType, settings, customFactors);
+
+    // Calculate equipment costs for this room
+    let equipmentPurchaseCost = 0;
+    let equipmentInstallationCost = 0;
+    let equipmentValidationCost = 0;
+
+    for (const equipmentId of equipment) {
+      const equipmentItem = EQUIPMENT_CATALOG.find(e => e.id === equipmentId);
+      if (equipmentItem) {
+        equipmentPurchaseCost += equipmentItem.purchaseCost * getPriceFactor(settings);
+        equipmentInstallationCost += equipmentItem.installationCost * getPriceFactor(settings);
+        equipmentValidationCost += equipmentItem.validationCost * getPriceFactor(settings);
+
+        // Add to equipment list (catalog prices, in the estimate currency)
+        const exchangeRate = settings.exchangeRate ?? 1;
+        const existingEquipment = projectCostEstimate.equipment.find(e => e.equipmentId === equipmentId);
+        if (existingEquipment) {
+          existingEquipment.quantity += 1;
+          existingEquipment.totalCost += (equipmentItem.purchaseCost + equipmentItem.installationCost + equipmentItem.validationCost) * exchangeRate;
+        } else {
+          projectCostEstimate.equipment.push({
+            equipmentId: equipmentItem.id,
+            equipmentName: equipmentItem.name,
+            quantity: 1,
+            unitCost: equipmentItem.purchaseCost * exchangeRate,
+            totalCost: (equipmentItem.purchaseCost + equipmentItem.installationCost + equipmentItem.validationCost) * exchangeRate
+          });
+        }
+      }
+    }
+
+    const costBreakdown: CostBreakdown = {
+      constructionCost: roomCostData.constructionCost,
+      hvacCost: roomCostData.hvacCost,
+      equipmentPurchaseCost,
+      equipmentInstallationCost,
+      validationCost: roomCostData.validationCost + equipmentValidationCost,
+      equipmentValidationCost,
+      otherCosts: 0,
+      totalCost: roomCostData.totalCost + equipmentPurchaseCost + equipmentInstallationCost + equipmentValidationCost
+    };
+
+    projectCostEstimate.rooms.push({
+      roomId: room.id || room.roomType,
+      roomName: room.name || room.roomType,
+      area,
+      cleanroomClass,
+      roomType,
+      equipment,
+      costBreakdown
+    });
+
+    projectCostEstimate.subtotal += costBreakdown.totalCost;
+  }
+
+  // Calculate contingency and grand total
+  projectCostEstimate.contingency = projectCostEstimate.subtotal * (settings.contingencyPercentage / 100);
+  projectCostEstimate.grandTotal = projectCostEstimate.subtotal + projectCostEstimate.contingency;
+
+  return projectCostEstimate;
+}
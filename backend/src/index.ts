@@ -17,8 +17,23 @@ import chatRoutes from './routes/chat';
 import generativeRoutes from './routes/generative';
 import layoutRoutes from './routes/layouts';
 import costRoutes from './routes/costs';
+import authRoutes from './routes/auth';
+import userRoutes from './routes/users';
+import projectRoutes from './routes/projects';
+import auditRoutes from './routes/audit';
+import ruleSetRoutes from './routes/ruleSets';
+import { authenticate } from './middleware/auth';
 import costDatabaseService from './services/costDatabaseService';
-import { CLEANROOM_COST_FACTORS } from './config/costConfiguration';
+import costRateTableService from './services/costRateTableService';
+import CollaborationService from './services/collaborationService';
+import { NodeGroupModel } from './models/NodeGroup';
+import {
+  CLEANROOM_COST_FACTORS,
+  CURRENCY_RATES,
+  ESCALATION_INDICES,
+  RATE_TABLE_SEED_DATE,
+  REGIONAL_FACTORS
+} from './config/costConfiguration';
 import logger from './utils/logger';
 
 // Load environment variables
@@ -32,8 +47,8 @@ const corsOptions = {
   origin: ['http://localhost:3000', 'http://127.0.0.1:3000'],
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS', 'PATCH'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
-  exposedHeaders: ['Content-Range', 'X-Content-Range'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'If-Match', 'X-Change-Reason'],
+  exposedHeaders: ['Content-Range', 'X-Content-Range', 'ETag'],
   maxAge: 86400 // 24 hours
 };
 
@@ -73,6 +88,12 @@ app.get('/health', async (req, res) => {
   }
 });
 
+// Sign-in is public; every other API route requires a signed-in user
+app.use('/api/auth', authRoutes);
+app.use('/api', authenticate);
+
+app.use('/api/users', userRoutes);
+app.use('/api/projects', projectRoutes);
 app.use('/api/diagrams', diagramRoutes);
 app.use('/api/nodes', nodeRoutes);
 app.use('/api/validation', validationRoutes);
@@ -85,15 +106,18 @@ app.use('/api/chat', chatRoutes);
 app.use('/api/generative', generativeRoutes);
 app.use('/api/layouts', layoutRoutes);
 app.use('/api/costs', costRoutes);
+app.use('/api/audit', auditRoutes);
+app.use('/api/rule-sets', ruleSetRoutes);
 
 process.on('SIGINT', async () => {
   logger.info('Shutting down gracefully...');
   const neo4jService = Neo4jService.getInstance();
+  CollaborationService.getInstance().close();
   await neo4jService.close();
   process.exit(0);
 });
 
-app.listen(PORT, async () => {
+const server = app.listen(PORT, async () => {
   logger.info(`Server running on port ${PORT}`);
   logger.info(`Environment: ${process.env.NODE_ENV}`);
 
@@ -114,6 +138,20 @@ app.listen(PORT, async () => {
     logger.error('❌ Cost database initialization error:', error);
   }
 
+  // Initialize dated currency, regional and escalation rate tables
+  try {
+    await costRateTableService.initialize({
+      baseCurrency: 'USD',
+      effectiveDate: RATE_TABLE_SEED_DATE,
+      currencyRates: CURRENCY_RATES,
+      regionalFactors: REGIONAL_FACTORS,
+      escalationIndices: ESCALATION_INDICES
+    });
+    logger.emoji('💱', 'Cost rate tables initialized');
+  } catch (error) {
+    logger.error('❌ Cost rate tables initialization error:', error);
+  }
+
   // Test database connection on startup
   try {
     const neo4jService = Neo4jService.getInstance();
@@ -121,10 +159,14 @@ app.listen(PORT, async () => {
 
     if (isConnected) {
       logger.emoji('🎉', 'Neo4j Aura database connection established successfully');
+      await new NodeGroupModel().ensureUniqueConstraint();
     } else {
       logger.warn('⚠️  Neo4j Aura database connection failed - running in offline mode');
     }
   } catch (error) {
     logger.error('❌ Database initialization error:', error);
   }
-});
\ No newline at end of file
+});
+
+// Real-time collaborative editing shares the HTTP server
+CollaborationService.getInstance().attach(server);
@@ -0,0 +1,69 @@
+import { Request, Response, NextFunction } from 'express';
+import { Transaction } from 'neo4j-driver';
+import Neo4jService from '../config/database';
+import { AuditChange, AuditLogModel } from '../models/AuditLog';
+import { AuditEntry } from '../types';
+
+// Reason-for-change: `changeReason` in the body, or this header for requests without one (DELETE)
+export const CHANGE_REASON_HEADER = 'X-Change-Reason';
+
+const MAX_REASON_LENGTH = 1000;
+
+const auditLogModel = new AuditLogModel();
+
+// Read lazily: environment variables are loaded after the modules are imported
+const isReasonRequired = (): boolean => process.env.AUDIT_REQUIRE_REASON === 'true';
+
+export const changeReason = (req: Request): string | null => {
+  const reason = typeof req.body?.changeReason === 'string' ? req.body.changeReason : req.get(CHANGE_REASON_HEADER);
+  return reason?.trim() ? reason.trim() : null;
+};
+
+/**
+ * Guard for audited mutations: rejects over-long reasons and, with AUDIT_REQUIRE_REASON=true,
+ * mutations that give no reason for the change
+ */
+export const requireChangeReason = (req: Request, res: Response, next: NextFunction) => {
+  const reason = changeReason(req);
+  if (!reason && isReasonRequired()) {
+    return res.status(400).json({ error: `A reason for the change is required (changeReason or ${CHANGE_REASON_HEADER})` });
+  }
+  if (reason && reason.length > MAX_REASON_LENGTH) {
+    return res.status(400).json({ error: `The reason for the change must be at most ${MAX_REASON_LENGTH} characters` });
+  }
+  next();
+};
+
+/**
+ * Append the changes a request made to the audit trail, attributed to the signed-in user.
+ * Pass the transaction that makes the changes, so they are never committed without their entries.
+ */
+export const recordChanges = (req: Request, changes: AuditChange[], tx?: Transaction): Promise<AuditEntry[]> =>
+  auditLogModel.append(
+    { actor: req.user?.name || 'unknown', actorId: req.user?.id || null, reason: changeReason(req) },
+    changes,
+    tx
+  );
+
+/**
+ * Run a Neo4j mutation and append the changes it reports in the same transaction
+ */
+export const auditedTransaction = async <T>(
+  req: Request,
+  work: (tx: Transaction) => Promise<{ result: T; changes: AuditChange[] }>
+): Promise<T> => {
+  const session = Neo4jService.getInstance().getDriver().session();
+  const tx = session.beginTransaction();
+
+  try {
+    const { result, changes } = await work(tx);
+    await recordChanges(req, changes, tx);
+    await tx.commit();
+    return result;
+  } catch (error) {
+    await tx.rollback();
+    throw error;
+  } finally {
+    await session.close();
+  }
+};
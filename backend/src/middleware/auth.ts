@@ -0,0 +1,117 @@
+import { Request, Response, NextFunction } from 'express';
+import { isAuthDisabled, verifyToken } from '../services/authService';
+import { ProjectModel, ProjectResourceLabel } from '../models/Project';
+import { UserModel, hasRole } from '../models/User';
+import { LayoutLockHolder } from '../models/LayoutLock';
+import { User, UserRole } from '../types';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: User;
+      // Role in the project owning the requested diagram or layout; overrides user.role
+      projectRole?: UserRole;
+    }
+  }
+}
+
+// Acts as the user when AUTH_DISABLED=true
+export const LOCAL_ADMIN: User = { id: 'local-admin', email: 'local@localhost', name: 'Local User', role: 'admin', createdAt: null };
+
+const userModel = new UserModel();
+const projectModel = new ProjectModel();
+
+export const bearerToken = (header: string | undefined): string | undefined =>
+  header?.startsWith('Bearer ') ? header.slice(7).trim() : undefined;
+
+/**
+ * Resolve the signed-in user of a bearer token; null when the token is invalid or the user is gone
+ */
+export async function authenticateToken(token: string | undefined): Promise<User | null> {
+  if (isAuthDisabled()) return LOCAL_ADMIN;
+
+  const userId = verifyToken(token);
+  return userId ? userModel.getUserById(userId) : null;
+}
+
+/**
+ * Require a valid `Authorization: Bearer <token>` header and attach the user to the request
+ */
+export const authenticate = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = await authenticateToken(bearerToken(req.get('Authorization')));
+    if (!user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    req.user = user;
+    next();
+  } catch (error) {
+    console.error('Error authenticating request:', error);
+    res.status(500).json({ error: 'Failed to authenticate request' });
+  }
+};
+
+/**
+ * Require at least `role`: the project role for project-owned diagrams and layouts, the user's role otherwise
+ */
+export const requireRole = (role: UserRole) => (req: Request, res: Response, next: NextFunction) => {
+  const effectiveRole = req.user?.role === 'admin' ? 'admin' : req.projectRole || req.user?.role;
+  if (!hasRole(effectiveRole, role)) {
+    return res.status(403).json({ error: `Requires the ${role} role`, role: effectiveRole });
+  }
+  next();
+};
+
+/**
+ * `router.param` handler for diagram and layout IDs: refuses non-members of the owning project
+ * and records their project role for `requireRole`. Unknown IDs are left to the route's 404.
+ */
+export const loadResourceProjectRole = (label: ProjectResourceLabel) =>
+  async (req: Request, res: Response, next: NextFunction, id: string) => {
+    try {
+      const access = await projectModel.getResourceAccess(label, id, req.user!);
+      if (access && !access.role) {
+        return res.status(403).json({ error: `Not a member of the project owning this ${label.toLowerCase()}` });
+      }
+
+      req.projectRole = access?.role || undefined;
+      next();
+    } catch (error) {
+      console.error(`Error checking ${label.toLowerCase()} project access:`, error);
+      res.status(500).json({ error: 'Failed to check project access' });
+    }
+  };
+
+/**
+ * For creating a diagram or layout in the project given by `projectId` in the body
+ */
+export const loadBodyProjectRole = async (req: Request, res: Response, next: NextFunction) => {
+  const projectId = req.body?.projectId;
+  if (!projectId) return next();
+
+  try {
+    const role = await projectModel.getRoleInProject(projectId, req.user!);
+    if (role === undefined) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    if (!role) {
+      return res.status(403).json({ error: 'Not a member of this project' });
+    }
+
+    req.projectRole = role;
+    next();
+  } catch (error) {
+    console.error('Error checking project access:', error);
+    res.status(500).json({ error: 'Failed to check project access' });
+  }
+};
+
+// Layout locks belong to the signed-in user; without accounts the client-supplied name identifies the holder
+export const lockHolder = (req: Request, clientName: unknown): LayoutLockHolder => {
+  const user = req.user!;
+  if (isAuthDisabled() && typeof clientName === 'string' && clientName.trim()) {
+    return { id: clientName.trim(), name: clientName.trim() };
+  }
+  return { id: user.id, name: user.name };
+};
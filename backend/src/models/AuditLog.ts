@@ -0,0 +1,310 @@
+import { createHash } from 'crypto';
+import neo4j, { Transaction } from 'neo4j-driver';
+import Neo4jService from '../config/database';
+import { AuditAction, AuditChainVerification, AuditEntityType, AuditEntry } from '../types';
+
+// previousHash of the first entry
+export const GENESIS_HASH = '0'.repeat(64);
+
+const VERIFY_BATCH_SIZE = 500;
+
+export const AUDIT_ENTITY_TYPES: AuditEntityType[] = [
+  'relationship',
+  'functionalArea',
+  'knowledgeGraph',
+  'templateRelationships',
+  'cleanroomCostProfile',
+  'costSettings',
+  'costRateTable',
+  'ruleSet'
+];
+
+export const AUDIT_ACTIONS: AuditAction[] = ['create', 'update', 'delete'];
+
+export interface AuditChange {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditActor {
+  actor: string;
+  actorId: string | null;
+  reason: string | null;
+}
+
+export interface AuditQuery {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  action?: AuditAction;
+  actorId?: string;
+  from?: string; // ISO timestamps, inclusive
+  to?: string;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Plain JSON for a value read from Neo4j or a request: driver integers become numbers,
+ * temporal values ISO strings and undefined properties are dropped
+ */
+export function toAuditValue(value: any): unknown {
+  if (value === undefined || value === null) return null;
+  if (neo4j.isInt(value)) return value.toNumber();
+  if (neo4j.isDateTime(value) || neo4j.isDate(value) || neo4j.isLocalDateTime(value) ||
+      neo4j.isTime(value) || neo4j.isLocalTime(value) || neo4j.isDuration(value)) {
+    return value.toString();
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (Array.isArray(value)) return value.map(toAuditValue);
+  if (typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, item]) => item !== undefined)
+        .map(([key, item]) => [key, toAuditValue(item)])
+    );
+  }
+  return value;
+}
+
+// JSON with object keys sorted, so the same entry always hashes the same
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+export const hashAuditEntry = (entry: Omit<AuditEntry, 'hash'>): string =>
+  createHash('sha256').update(canonicalJson(entry)).digest('hex');
+
+let constraintEnsured = false;
+
+/**
+ * Append-only, hash-chained record of changes to the rule base and cost bases.
+ * Every entry stores the SHA-256 of its predecessor, so editing or removing an entry
+ * breaks the chain from that point on; `verifyChain` finds the first broken link.
+ *
+ * Appends are chained on the previous head, so they must not interleave: each append
+ * write-locks the single AuditChainHead node until its transaction ends.
+ */
+export class AuditLogModel {
+  private driver = Neo4jService.getInstance().getDriver();
+
+  private mapEntry(properties: any): AuditEntry {
+    return {
+      sequence: Number(properties.sequence),
+      timestamp: properties.timestamp,
+      actor: properties.actor,
+      actorId: properties.actorId ?? null,
+      action: properties.action,
+      entityType: properties.entityType,
+      entityId: properties.entityId,
+      before: JSON.parse(properties.before),
+      after: JSON.parse(properties.after),
+      reason: properties.reason ?? null,
+      previousHash: properties.previousHash,
+      hash: properties.hash
+    };
+  }
+
+  private async ensureConstraint(): Promise<void> {
+    if (constraintEnsured) return;
+
+    const session = this.driver.session();
+    try {
+      await session.run(
+        'CREATE CONSTRAINT unique_audit_entry_sequence IF NOT EXISTS FOR (e:AuditEntry) REQUIRE e.sequence IS UNIQUE'
+      );
+      await session.run(
+        'CREATE CONSTRAINT unique_audit_chain_head IF NOT EXISTS FOR (h:AuditChainHead) REQUIRE h.id IS UNIQUE'
+      );
+      constraintEnsured = true;
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Record changes made in one request, in order, with the same actor, time and reason.
+   * Pass the transaction that makes the changes, so they commit together with their entries.
+   */
+  async append(actor: AuditActor, changes: AuditChange[], tx?: Transaction): Promise<AuditEntry[]> {
+    if (changes.length === 0) return [];
+
+    await this.ensureConstraint();
+    if (tx) return this.writeEntries(tx, actor, changes);
+
+    const session = this.driver.session();
+    const ownTx = session.beginTransaction();
+
+    try {
+      const entries = await this.writeEntries(ownTx, actor, changes);
+      await ownTx.commit();
+      return entries;
+    } catch (error) {
+      await ownTx.rollback();
+      throw error;
+    } finally {
+      await session.close();
+    }
+  }
+
+  private async writeEntries(tx: Transaction, actor: AuditActor, changes: AuditChange[]): Promise<AuditEntry[]> {
+    await tx.run(
+      `MERGE (h:AuditChainHead {id: 'audit'})
+       SET h.locked = true
+       REMOVE h.locked`
+    );
+
+    const head = await tx.run(
+      `MATCH (e:AuditEntry)
+       RETURN e.sequence as sequence, e.hash as hash
+       ORDER BY e.sequence DESC
+       LIMIT 1`
+    );
+
+    let sequence = head.records.length > 0 ? Number(head.records[0].get('sequence')) : 0;
+    let previousHash: string = head.records.length > 0 ? head.records[0].get('hash') : GENESIS_HASH;
+    const timestamp = new Date().toISOString();
+
+    const entries = changes.map(change => {
+      sequence += 1;
+      const unsigned: Omit<AuditEntry, 'hash'> = {
+        sequence,
+        timestamp,
+        actor: actor.actor,
+        actorId: actor.actorId,
+        action: change.action,
+        entityType: change.entityType,
+        entityId: change.entityId,
+        before: toAuditValue(change.before),
+        after: toAuditValue(change.after),
+        reason: actor.reason,
+        previousHash
+      };
+      const entry = { ...unsigned, hash: hashAuditEntry(unsigned) };
+      previousHash = entry.hash;
+      return entry;
+    });
+
+    await tx.run(
+      `UNWIND $entries as entry
+       CREATE (:AuditEntry {
+         sequence: entry.sequence,
+         timestamp: entry.timestamp,
+         actor: entry.actor,
+         actorId: entry.actorId,
+         action: entry.action,
+         entityType: entry.entityType,
+         entityId: entry.entityId,
+         before: entry.before,
+         after: entry.after,
+         reason: entry.reason,
+         previousHash: entry.previousHash,
+         hash: entry.hash
+       })`,
+      {
+        entries: entries.map(entry => ({
+          ...entry,
+          before: JSON.stringify(entry.before),
+          after: JSON.stringify(entry.after)
+        }))
+      }
+    );
+
+    return entries;
+  }
+
+  /**
+   * Entries matching the filters, newest first, with the total number of matches
+   */
+  async query(filters: AuditQuery): Promise<{ entries: AuditEntry[]; total: number }> {
+    const session = this.driver.session();
+
+    try {
+      const where = `WHERE ($entityType IS NULL OR e.entityType = $entityType)
+           AND ($entityId IS NULL OR e.entityId = $entityId)
+           AND ($action IS NULL OR e.action = $action)
+           AND ($actorId IS NULL OR e.actorId = $actorId)
+           AND ($from IS NULL OR e.timestamp >= $from)
+           AND ($to IS NULL OR e.timestamp <= $to)`;
+      const params = {
+        entityType: filters.entityType || null,
+        entityId: filters.entityId || null,
+        action: filters.action || null,
+        actorId: filters.actorId || null,
+        from: filters.from || null,
+        to: filters.to || null
+      };
+
+      const countResult = await session.run(`MATCH (e:AuditEntry) ${where} RETURN count(e) as total`, params);
+      const result = await session.run(
+        `MATCH (e:AuditEntry) ${where}
+         RETURN e
+         ORDER BY e.sequence DESC
+         SKIP $offset LIMIT $limit`,
+        { ...params, offset: neo4j.int(filters.offset), limit: neo4j.int(filters.limit) }
+      );
+
+      return {
+        entries: result.records.map(record => this.mapEntry(record.get('e').properties)),
+        total: Number(countResult.records[0].get('total'))
+      };
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Walk the whole log in order, recomputing every hash and checking every link
+   */
+  async verifyChain(): Promise<AuditChainVerification> {
+    const session = this.driver.session();
+
+    try {
+      let expectedSequence = 1;
+      let previousHash = GENESIS_HASH;
+      let entries = 0;
+
+      for (;;) {
+        const result = await session.run(
+          `MATCH (e:AuditEntry) WHERE e.sequence >= $from
+           RETURN e ORDER BY e.sequence LIMIT $limit`,
+          { from: expectedSequence, limit: neo4j.int(VERIFY_BATCH_SIZE) }
+        );
+        if (result.records.length === 0) break;
+
+        for (const record of result.records) {
+          const { hash, ...unsigned } = this.mapEntry(record.get('e').properties);
+          const brokenAt = (problem: string): AuditChainVerification =>
+            ({ valid: false, entries, headHash: previousHash, brokenAt: { sequence: unsigned.sequence, problem } });
+
+          if (unsigned.sequence !== expectedSequence) {
+            return brokenAt(`expected entry ${expectedSequence}; entries are missing`);
+          }
+          if (unsigned.previousHash !== previousHash) {
+            return brokenAt('previousHash does not match the hash of the preceding entry');
+          }
+          if (hashAuditEntry(unsigned) !== hash) {
+            return brokenAt('entry content does not match its hash');
+          }
+
+          previousHash = hash;
+          expectedSequence += 1;
+          entries += 1;
+        }
+      }
+
+      return { valid: true, entries, headHash: entries > 0 ? previousHash : null };
+    } finally {
+      await session.close();
+    }
+  }
+}
@@ -1,6 +1,6 @@
 
 
-import { Session } from 'neo4j-driver';
+import { Session, Transaction } from 'neo4j-driver';
 import Neo4jService from '../config/database';
 import { FunctionalArea, NodeTemplate, NodeCategory, Equipment } from '../types';
 import { StaticNodeTemplatesService } from '../services/staticNodeTemplatesService';
@@ -30,50 +30,44 @@ export class FunctionalAreaModel {
     }
   }
 
-  async createFunctionalArea(area: Omit<FunctionalArea, 'id'>): Promise<FunctionalArea> {
-    const session = this.driver.session();
+  async createFunctionalArea(tx: Transaction, area: Omit<FunctionalArea, 'id'>): Promise<FunctionalArea> {
+    const id = `fa-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+    const result = await tx.run(
+      `MERGE (fa:FunctionalArea {id: $id})
+       ON CREATE SET
+         fa.name = $name,
+         fa.category = $category,
+         fa.cleanroomClass = $cleanroomClass,
+         fa.minSizeSqm = $minSizeSqm,
+         fa.maxSizeSqm = $maxSizeSqm,
+         fa.requiredUtilities = $requiredUtilities,
+         fa.description = $description,
+         fa.x = $x,
+         fa.y = $y,
+         fa.width = $width,
+         fa.height = $height,
+         fa.equipment = $equipment,
+         fa.createdAt = datetime(),
+         fa.updatedAt = datetime()
+       ON MATCH SET
+         fa.name = $name,
+         fa.category = $category,
+         fa.cleanroomClass = $cleanroomClass,
+         fa.minSizeSqm = $minSizeSqm,
+         fa.maxSizeSqm = $maxSizeSqm,
+         fa.requiredUtilities = $requiredUtilities,
+         fa.description = $description,
+         fa.x = $x,
+         fa.y = $y,
+         fa.width = $width,
+         fa.height = $height,
+         fa.equipment = $equipment,
+         fa.updatedAt = datetime()
+       RETURN fa`,
+      { id, ...area, equipment: area.equipment || [] }
+    );
     
-    try {
-      const id = `fa-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
-      const result = await session.run(
-        `MERGE (fa:FunctionalArea {id: $id})
-         ON CREATE SET
-           fa.name = $name,
-           fa.category = $category,
-           fa.cleanroomClass = $cleanroomClass,
-           fa.minSizeSqm = $minSizeSqm,
-           fa.maxSizeSqm = $maxSizeSqm,
-           fa.requiredUtilities = $requiredUtilities,
-           fa.description = $description,
-           fa.x = $x,
-           fa.y = $y,
-           fa.width = $width,
-           fa.height = $height,
-           fa.equipment = $equipment,
-           fa.createdAt = datetime(),
-           fa.updatedAt = datetime()
-         ON MATCH SET
-           fa.name = $name,
-           fa.category = $category,
-           fa.cleanroomClass = $cleanroomClass,
-           fa.minSizeSqm = $minSizeSqm,
-           fa.maxSizeSqm = $maxSizeSqm,
-           fa.requiredUtilities = $requiredUtilities,
-           fa.description = $description,
-           fa.x = $x,
-           fa.y = $y,
-           fa.width = $width,
-           fa.height = $height,
-           fa.equipment = $equipment,
-           fa.updatedAt = datetime()
-         RETURN fa`,
-        { id, ...area, equipment: area.equipment || [] }
-      );
-      
-      return result.records[0].get('fa').properties;
-    } finally {
-      await session.close();
-    }
+    return result.records[0].get('fa').properties;
   }
 
   async getAllFunctionalAreas(): Promise<FunctionalArea[]> {
@@ -105,11 +99,11 @@ export class FunctionalAreaModel {
     }
   }
 
-  async getFunctionalAreaById(id: string): Promise<FunctionalArea | null> {
-    const session = this.driver.session();
+  async getFunctionalAreaById(id: string, tx?: Transaction): Promise<FunctionalArea | null> {
+    const session = tx ? null : this.driver.session();
     
     try {
-      const result = await session.run(
+      const result = await (tx || session!).run(
         'MATCH (fa:FunctionalArea {id: $id}) RETURN fa',
         { id }
       );
@@ -120,49 +114,37 @@ export class FunctionalAreaModel {
       
       return result.records[0].get('fa').properties;
     } finally {
-      await session.close();
+      await session?.close();
     }
   }
 
-  async updateFunctionalArea(id: string, updates: Partial<FunctionalArea>): Promise<FunctionalArea | null> {
-    const session = this.driver.session();
+  async updateFunctionalArea(tx: Transaction, id: string, updates: Partial<FunctionalArea>): Promise<FunctionalArea | null> {
+    const setClause = Object.keys(updates)
+      .map(key => `fa.${key} = $${key}`)
+      .join(', ');
     
-    try {
-      const setClause = Object.keys(updates)
-        .map(key => `fa.${key} = $${key}`)
-        .join(', ');
-      
-      const result = await session.run(
-        `MATCH (fa:FunctionalArea {id: $id})
-         SET ${setClause}, fa.updatedAt = datetime()
-         RETURN fa`,
-        { id, ...updates }
-      );
-      
-      if (result.records.length === 0) {
-        return null;
-      }
-      
-      return result.records[0].get('fa').properties;
-    } finally {
-      await session.close();
+    const result = await tx.run(
+      `MATCH (fa:FunctionalArea {id: $id})
+       SET ${setClause}, fa.updatedAt = datetime()
+       RETURN fa`,
+      { id, ...updates }
+    );
+    
+    if (result.records.length === 0) {
+      return null;
     }
+    
+    return result.records[0].get('fa').properties;
   }
 
-  async deleteFunctionalArea(id: string): Promise<boolean> {
-    const session = this.driver.session();
+  async deleteFunctionalArea(tx: Transaction, id: string): Promise<boolean> {
+    const result = await tx.run(
+      'MATCH (fa:FunctionalArea {id: $id}) DELETE fa RETURN COUNT(fa) as deleted',
+      { id }
+    );
     
-    try {
-      const result = await session.run(
-        'MATCH (fa:FunctionalArea {id: $id}) DELETE fa RETURN COUNT(fa) as deleted',
-        { id }
-      );
-      
-      const deleted = result.records[0].get('deleted');
-      return (typeof deleted === 'number' ? deleted : (deleted && typeof deleted.toNumber === 'function' ? deleted.toNumber() : parseInt(deleted, 10) || 0)) > 0;
-    } finally {
-      await session.close();
-    }
+    const deleted = result.records[0].get('deleted');
+    return (typeof deleted === 'number' ? deleted : (deleted && typeof deleted.toNumber === 'function' ? deleted.toNumber() : parseInt(deleted, 10) || 0)) > 0;
   }
 
   async initializeNodeTemplates(): Promise<void> {
@@ -306,176 +288,186 @@ export class FunctionalAreaModel {
   }
 
   // Persist diagram data to knowledge graph (for creation mode)
-  async persistToKnowledgeGraph(diagramData: any): Promise<{
+  async persistToKnowledgeGraph(tx: Transaction, diagramData: any): Promise<{
     nodesCreated: number;
     nodesUpdated: number;
     relationshipsCreated: number;
     relationshipsUpdated: number;
   }> {
-    const session = this.driver.session();
-    
     let nodesCreated = 0;
     let nodesUpdated = 0;
     let relationshipsCreated = 0;
     let relationshipsUpdated = 0;
     
     try {
-      const tx = session.beginTransaction();
+      console.log('🔄 Merging diagram data with existing knowledge graph...');
+      console.log(`📊 Input: ${diagramData.nodes.length} nodes, ${diagramData.relationships.length} relationships`);
       
-      try {
-        console.log('🔄 Merging diagram data with existing knowledge graph...');
-        console.log(`📊 Input: ${diagramData.nodes.length} nodes, ${diagramData.relationships.length} relationships`);
-        
-        // MERGE functional areas and track create vs update
-        for (const node of diagramData.nodes) {
-          // Serialize equipment array to JSON strings for Neo4j compatibility
-          // Neo4j can only store primitive types or arrays of primitives
-          const equipmentSerialized = Array.isArray(node.equipment)
-            ? node.equipment.map((item: any) =>
-                typeof item === 'object' ? JSON.stringify(item) : String(item)
-              )
-            : [];
+      // MERGE functional areas and track create vs update
+      for (const node of diagramData.nodes) {
+        // Serialize equipment array to JSON strings for Neo4j compatibility
+        // Neo4j can only store primitive types or arrays of primitives
+        const equipmentSerialized = Array.isArray(node.equipment)
+          ? node.equipment.map((item: any) =>
+              typeof item === 'object' ? JSON.stringify(item) : String(item)
+            )
+          : [];
 
-          console.log(`📦 Node ${node.id} equipment:`, {
-            original: node.equipment,
-            serialized: equipmentSerialized,
-            types: equipmentSerialized.map((e: any) => typeof e)
-          });
+        console.log(`📦 Node ${node.id} equipment:`, {
+          original: node.equipment,
+          serialized: equipmentSerialized,
+          types: equipmentSerialized.map((e: any) => typeof e)
+        });
 
-          const result = await tx.run(
-            `MERGE (fa:FunctionalArea {id: $id})
-             ON CREATE SET
-               fa.name = $name,
-               fa.category = $category,
-               fa.cleanroomClass = $cleanroomClass,
-               fa.x = $x,
-               fa.y = $y,
-               fa.width = $width,
-               fa.height = $height,
-               fa.equipment = $equipment,
-               fa.createdAt = datetime(),
-               fa.updatedAt = datetime(),
-               fa._wasCreated = true
-             ON MATCH SET
-               fa.name = $name,
-               fa.category = $category,
-               fa.cleanroomClass = $cleanroomClass,
-               fa.x = $x,
-               fa.y = $y,
-               fa.width = $width,
-               fa.height = $height,
-               fa.equipment = $equipment,
-               fa.updatedAt = datetime(),
-               fa._wasCreated = false
-             RETURN fa._wasCreated as wasCreated`,
-            {
-              id: node.id,
-              name: node.name,
-              category: node.category,
-              cleanroomClass: node.cleanroomClass,
-              x: node.x,
-              y: node.y,
-              width: node.width,
-              height: node.height,
-              equipment: equipmentSerialized
-            }
-          );
-          
-          const wasCreated = result.records[0]?.get('wasCreated');
-          if (wasCreated) {
-            nodesCreated++;
-          } else {
-            nodesUpdated++;
+        const result = await tx.run(
+          `MERGE (fa:FunctionalArea {id: $id})
+           ON CREATE SET
+             fa.name = $name,
+             fa.category = $category,
+             fa.cleanroomClass = $cleanroomClass,
+             fa.x = $x,
+             fa.y = $y,
+             fa.width = $width,
+             fa.height = $height,
+             fa.equipment = $equipment,
+             fa.createdAt = datetime(),
+             fa.updatedAt = datetime(),
+             fa._wasCreated = true
+           ON MATCH SET
+             fa.name = $name,
+             fa.category = $category,
+             fa.cleanroomClass = $cleanroomClass,
+             fa.x = $x,
+             fa.y = $y,
+             fa.width = $width,
+             fa.height = $height,
+             fa.equipment = $equipment,
+             fa.updatedAt = datetime(),
+             fa._wasCreated = false
+           RETURN fa._wasCreated as wasCreated`,
+          {
+            id: node.id,
+            name: node.name,
+            category: node.category,
+            cleanroomClass: node.cleanroomClass,
+            x: node.x,
+            y: node.y,
+            width: node.width,
+            height: node.height,
+            equipment: equipmentSerialized
           }
-        }
-        
-        // Clean up temporary _wasCreated flag from all nodes
-        await tx.run(`MATCH (fa:FunctionalArea) REMOVE fa._wasCreated`);
-        
-        console.log(`📦 Nodes: ${nodesCreated} created, ${nodesUpdated} updated`);
+        );
         
-        // MERGE relationships and track create vs update
-        for (const rel of diagramData.relationships) {
-          // Sanitize relationship type (Neo4j relationship types cannot have spaces or special chars)
-          const sanitizedType = (rel.type || 'ADJACENT_TO').replace(/[^A-Z_]/g, '_');
+        const wasCreated = result.records[0]?.get('wasCreated');
+        if (wasCreated) {
+          nodesCreated++;
+        } else {
+          nodesUpdated++;
+        }
+      }
+      
+      // Clean up temporary _wasCreated flag from all nodes
+      await tx.run(`MATCH (fa:FunctionalArea) REMOVE fa._wasCreated`);
+      
+      console.log(`📦 Nodes: ${nodesCreated} created, ${nodesUpdated} updated`);
+      
+      // MERGE relationships and track create vs update
+      for (const rel of diagramData.relationships) {
+        // Sanitize relationship type (Neo4j relationship types cannot have spaces or special chars)
+        const sanitizedType = (rel.type || 'ADJACENT_TO').replace(/[^A-Z_]/g, '_');
 
-          const result = await tx.run(
-            `MATCH (from:FunctionalArea {id: $fromId})
-             MATCH (to:FunctionalArea {id: $toId})
-             MERGE (from)-[r:${sanitizedType}]->(to)
-             ON CREATE SET
-               r.id = $relId,
-               r.priority = $priority,
-               r.reason = $reason,
-               r.doorType = $doorType,
-               r.flowDirection = $flowDirection,
-               r.flowType = $flowType,
-               r.minDistance = $minDistance,
-               r.maxDistance = $maxDistance,
-               r.createdAt = datetime(),
-               r.updatedAt = datetime(),
-               r._wasCreated = true
-             ON MATCH SET
-               r.id = $relId,
-               r.priority = $priority,
-               r.reason = $reason,
-               r.doorType = $doorType,
-               r.flowDirection = $flowDirection,
-               r.flowType = $flowType,
-               r.minDistance = $minDistance,
-               r.maxDistance = $maxDistance,
-               r.updatedAt = datetime(),
-               r._wasCreated = false
-             RETURN r._wasCreated as wasCreated`,
-            {
-              fromId: rel.fromId,
-              toId: rel.toId,
-              relId: rel.id,
-              priority: rel.priority || 5,
-              reason: rel.reason || 'User-defined relationship',
-              doorType: rel.doorType || null,
-              flowDirection: rel.flowDirection || null,
-              flowType: rel.flowType || null,
-              minDistance: rel.minDistance || null,
-              maxDistance: rel.maxDistance || null
-            }
-          );
-          
-          const wasCreated = result.records[0]?.get('wasCreated');
-          if (wasCreated) {
-            relationshipsCreated++;
-          } else {
-            relationshipsUpdated++;
+        const result = await tx.run(
+          `MATCH (from:FunctionalArea {id: $fromId})
+           MATCH (to:FunctionalArea {id: $toId})
+           MERGE (from)-[r:${sanitizedType}]->(to)
+           ON CREATE SET
+             r.id = $relId,
+             r.priority = $priority,
+             r.reason = $reason,
+             r.doorType = $doorType,
+             r.flowDirection = $flowDirection,
+             r.flowType = $flowType,
+             r.minDistance = $minDistance,
+             r.maxDistance = $maxDistance,
+             r.createdAt = datetime(),
+             r.updatedAt = datetime(),
+             r._wasCreated = true
+           ON MATCH SET
+             r.id = $relId,
+             r.priority = $priority,
+             r.reason = $reason,
+             r.doorType = $doorType,
+             r.flowDirection = $flowDirection,
+             r.flowType = $flowType,
+             r.minDistance = $minDistance,
+             r.maxDistance = $maxDistance,
+             r.updatedAt = datetime(),
+             r._wasCreated = false
+           RETURN r._wasCreated as wasCreated`,
+          {
+            fromId: rel.fromId,
+            toId: rel.toId,
+            relId: rel.id,
+            priority: rel.priority || 5,
+            reason: rel.reason || 'User-defined relationship',
+            doorType: rel.doorType || null,
+            flowDirection: rel.flowDirection || null,
+            flowType: rel.flowType || null,
+            minDistance: rel.minDistance || null,
+            maxDistance: rel.maxDistance || null
           }
-        }
-        
-        // Clean up temporary _wasCreated flag from all relationships
-        await tx.run(`MATCH ()-[r]-() WHERE r._wasCreated IS NOT NULL REMOVE r._wasCreated`);
-        
-        console.log(`🔗 Relationships: ${relationshipsCreated} created, ${relationshipsUpdated} updated`);
-        
-        await tx.commit();
-        console.log(`✅ Knowledge graph merge completed successfully`);
+        );
         
-        return {
-          nodesCreated,
-          nodesUpdated,
-          relationshipsCreated,
-          relationshipsUpdated
-        };
-      } catch (error) {
-        await tx.rollback();
-        throw error;
+        const wasCreated = result.records[0]?.get('wasCreated');
+        if (wasCreated) {
+          relationshipsCreated++;
+        } else {
+          relationshipsUpdated++;
+        }
       }
+      
+      // Clean up temporary _wasCreated flag from all relationships
+      await tx.run(`MATCH ()-[r]-() WHERE r._wasCreated IS NOT NULL REMOVE r._wasCreated`);
+      
+      console.log(`🔗 Relationships: ${relationshipsCreated} created, ${relationshipsUpdated} updated`);
+      
+      return {
+        nodesCreated,
+        nodesUpdated,
+        relationshipsCreated,
+        relationshipsUpdated
+      };
     } catch (error) {
       console.error('Error persisting to knowledge graph:', error);
       throw error;
-    } finally {
-      await session.close();
     }
   }
 
   // Query graph data with filters (for exploration mode)
+  /**
+   * Rule-relevant state of the given functional areas and the relationships between them,
+   * without timestamps; compared before and after a knowledge graph merge
+   */
+  async getGraphSnapshot(tx: Transaction, nodeIds: string[]): Promise<{ nodes: any[]; relationships: any[] }> {
+    const nodeResult = await tx.run(
+      `MATCH (fa:FunctionalArea) WHERE fa.id IN $nodeIds
+       RETURN fa {.id, .name, .category, .cleanroomClass, .x, .y, .width, .height, .equipment} as node`,
+      { nodeIds }
+    );
+    const relationshipResult = await tx.run(
+      `MATCH (from:FunctionalArea)-[r]->(to:FunctionalArea)
+       WHERE from.id IN $nodeIds AND to.id IN $nodeIds
+       RETURN r {.id, .priority, .reason, .doorType, .flowDirection, .flowType, .minDistance, .maxDistance,
+                 type: type(r), fromId: from.id, toId: to.id} as relationship`,
+      { nodeIds }
+    );
+
+    return {
+      nodes: nodeResult.records.map(record => record.get('node')),
+      relationships: relationshipResult.records.map(record => record.get('relationship'))
+    };
+  }
+
   async queryGraphData(filters: any): Promise<{ nodes: any[]; relationships: any[] }> {
     const session = this.driver.session();
     
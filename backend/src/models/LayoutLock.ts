@@ -0,0 +1,131 @@
+import Neo4jService from '../config/database';
+import { LayoutLock } from '../types';
+
+// Who takes a lock: `id` decides who holds it, `name` is what others are shown
+export interface LayoutLockHolder {
+  id: string;
+  name: string;
+}
+
+export const DEFAULT_LOCK_MINUTES = 30;
+export const MAX_LOCK_MINUTES = 8 * 60;
+
+/**
+ * Lock stored on a Layout node, or null when there is none or it has expired.
+ * Lock timestamps are ISO strings, so they compare correctly as text in Cypher.
+ * Locks taken before owners had IDs are keyed on the owner name.
+ */
+export function mapLayoutLock(properties: any, now: Date = new Date()): LayoutLock | null {
+  if (!properties?.lockOwner || !properties.lockExpiresAt) return null;
+  if (new Date(properties.lockExpiresAt) <= now) return null;
+
+  return {
+    layoutId: properties.id,
+    owner: properties.lockOwner,
+    ownerId: properties.lockOwnerId || properties.lockOwner,
+    note: properties.lockNote || undefined,
+    acquiredAt: properties.lockAcquiredAt,
+    expiresAt: properties.lockExpiresAt
+  };
+}
+
+export const isLockedByOther = (lock: LayoutLock | null, ownerId: string): lock is LayoutLock =>
+  !!lock && lock.ownerId !== ownerId;
+
+export type AcquireLockResult =
+  | { status: 'acquired'; lock: LayoutLock }
+  | { status: 'held'; lock: LayoutLock } // Someone else holds an unexpired lock
+  | { status: 'not-found' };
+
+/**
+ * Advisory edit locks on layouts. They never block reads; saves by someone else are refused
+ * unless the save explicitly overrides the lock.
+ */
+export class LayoutLockModel {
+  private driver = Neo4jService.getInstance().getDriver();
+
+  /**
+   * Current lock; undefined when the layout does not exist
+   */
+  async getLock(layoutId: string): Promise<LayoutLock | null | undefined> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run('MATCH (l:Layout {id: $layoutId}) RETURN l', { layoutId });
+      if (result.records.length === 0) return undefined;
+      return mapLayoutLock(result.records[0].get('l').properties);
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Take or renew the lock. A lock held by someone else is only replaced with `force`.
+   */
+  async acquireLock(
+    layoutId: string,
+    owner: LayoutLockHolder,
+    options: { minutes?: number; note?: string; force?: boolean } = {}
+  ): Promise<AcquireLockResult> {
+    const session = this.driver.session();
+    const now = new Date();
+    const minutes = Math.min(Math.max(options.minutes || DEFAULT_LOCK_MINUTES, 1), MAX_LOCK_MINUTES);
+
+    try {
+      const result = await session.run(
+        `MATCH (l:Layout {id: $layoutId})
+         WITH l, coalesce(l.lockOwnerId, l.lockOwner) AS currentOwnerId
+         WITH l, currentOwnerId, (currentOwnerId IS NOT NULL AND currentOwnerId <> $ownerId AND l.lockExpiresAt > $now) AS heldByOther
+         FOREACH (_ IN CASE WHEN heldByOther AND NOT $force THEN [] ELSE [1] END |
+           SET l.lockAcquiredAt = CASE WHEN currentOwnerId = $ownerId AND l.lockExpiresAt > $now THEN l.lockAcquiredAt ELSE $now END,
+               l.lockOwnerId = $ownerId,
+               l.lockOwner = $ownerName,
+               l.lockNote = $note,
+               l.lockExpiresAt = $expiresAt)
+         RETURN l, heldByOther`,
+        {
+          layoutId,
+          ownerId: owner.id,
+          ownerName: owner.name,
+          note: options.note?.trim() || null,
+          force: !!options.force,
+          now: now.toISOString(),
+          expiresAt: new Date(now.getTime() + minutes * 60000).toISOString()
+        }
+      );
+
+      if (result.records.length === 0) return { status: 'not-found' };
+
+      const lock = mapLayoutLock(result.records[0].get('l').properties, now) as LayoutLock;
+      const held = result.records[0].get('heldByOther') && !options.force;
+      return { status: held ? 'held' : 'acquired', lock };
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Release the lock; only its owner may release an unexpired lock unless `force` is set.
+   * Returns the lock that is still in place when the release was refused, undefined when the layout does not exist.
+   */
+  async releaseLock(layoutId: string, ownerId: string, force = false): Promise<LayoutLock | null | undefined> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run(
+        `MATCH (l:Layout {id: $layoutId})
+         WITH l, coalesce(l.lockOwnerId, l.lockOwner) AS currentOwnerId
+         WITH l, (currentOwnerId IS NOT NULL AND currentOwnerId <> $ownerId AND l.lockExpiresAt > $now) AS heldByOther
+         FOREACH (_ IN CASE WHEN heldByOther AND NOT $force THEN [] ELSE [1] END |
+           REMOVE l.lockOwnerId, l.lockOwner, l.lockNote, l.lockAcquiredAt, l.lockExpiresAt)
+         RETURN l`,
+        { layoutId, ownerId, force, now: new Date().toISOString() }
+      );
+
+      if (result.records.length === 0) return undefined;
+      return mapLayoutLock(result.records[0].get('l').properties);
+    } finally {
+      await session.close();
+    }
+  }
+}
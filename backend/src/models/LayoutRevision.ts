@@ -0,0 +1,316 @@
+import { Transaction } from 'neo4j-driver';
+import { v4 as uuidv4 } from 'uuid';
+import Neo4jService from '../config/database';
+import {
+  DoorConnection,
+  DoorDiffEntry,
+  DoorPlacement,
+  LayoutData,
+  LayoutDiff,
+  LayoutRevision,
+  LayoutRevisionInfo,
+  RevisionApproval,
+  RevisionApprovalStatus,
+  ShapeProperties
+} from '../types';
+
+// Position/size changes below this many pixels are treated as rounding noise
+const GEOMETRY_TOLERANCE_PX = 0.5;
+
+const toIsoString = (value: any): string | null =>
+  value ? new Date(value.toString()).toISOString() : null;
+
+/**
+ * Next semantic version after a save: the patch number increments on every revision
+ */
+export function nextLayoutVersion(previousVersion: string | undefined, revision: number): string {
+  const match = previousVersion?.match(/^(\d+)\.(\d+)\.(\d+)$/);
+  if (!match) return `1.0.${revision - 1}`;
+  return `${match[1]}.${match[2]}.${Number(match[3]) + 1}`;
+}
+
+const shapeEntry = (shape: ShapeProperties) => ({ id: shape.id, name: shape.name });
+
+const moved = (a: number, b: number) => Math.abs(a - b) > GEOMETRY_TOLERANCE_PX;
+
+/**
+ * Normalize both door systems to one comparable record per door
+ */
+const collectDoors = (data: LayoutData) => {
+  const shapeName = (id: string) => data.shapes.find(s => s.id === id)?.name || id;
+  const doors = new Map<string, DoorDiffEntry & { attributes: Record<string, unknown> }>();
+
+  (data.doorConnections || []).forEach((door: DoorConnection) => doors.set(door.id, {
+    id: door.id,
+    kind: 'connection',
+    between: [shapeName(door.fromShape.shapeId), shapeName(door.toShape.shapeId)],
+    flowType: door.flowType,
+    attributes: {
+      rooms: `${door.fromShape.shapeId}|${door.toShape.shapeId}`,
+      flowType: door.flowType,
+      flowDirection: door.flowDirection,
+      position: `${Math.round(door.fromShape.x)},${Math.round(door.fromShape.y)}`
+    }
+  }));
+
+  (data.doorPlacements || []).forEach((door: DoorPlacement) => doors.set(door.id, {
+    id: door.id,
+    kind: 'placement',
+    between: [shapeName(door.shape1Id), shapeName(door.shape2Id)],
+    flowType: door.flowType,
+    attributes: {
+      rooms: `${door.shape1Id}|${door.shape2Id}`,
+      flowType: door.flowType,
+      flowDirection: door.flowDirection,
+      unidirectionalDirection: door.unidirectionalDirection,
+      position: `${Math.round(door.position.x)},${Math.round(door.position.y)}`,
+      width: door.width
+    }
+  }));
+
+  return doors;
+};
+
+/**
+ * Compare two layout snapshots: shapes added/removed/moved/resized, cleanroom class
+ * changes and door changes
+ */
+export function diffLayoutData(
+  from: LayoutData,
+  to: LayoutData,
+  revisions: { layoutId: string; fromRevision: number; toRevision: number }
+): LayoutDiff {
+  const fromShapes = new Map(from.shapes.map(shape => [shape.id, shape]));
+  const toShapes = new Map(to.shapes.map(shape => [shape.id, shape]));
+  const shapes: LayoutDiff['shapes'] = { added: [], removed: [], moved: [], resized: [], cleanroomClassChanged: [] };
+
+  to.shapes.filter(shape => !fromShapes.has(shape.id)).forEach(shape => shapes.added.push(shapeEntry(shape)));
+  from.shapes.filter(shape => !toShapes.has(shape.id)).forEach(shape => shapes.removed.push(shapeEntry(shape)));
+
+  toShapes.forEach((after, id) => {
+    const before = fromShapes.get(id);
+    if (!before) return;
+
+    if (moved(before.x, after.x) || moved(before.y, after.y)) {
+      shapes.moved.push({ ...shapeEntry(after), from: { x: before.x, y: before.y }, to: { x: after.x, y: after.y } });
+    }
+    if (moved(before.width, after.width) || moved(before.height, after.height)) {
+      shapes.resized.push({
+        ...shapeEntry(after),
+        from: { width: before.width, height: before.height },
+        to: { width: after.width, height: after.height }
+      });
+    }
+    if ((before.cleanroomClass || undefined) !== (after.cleanroomClass || undefined)) {
+      shapes.cleanroomClassChanged.push({ ...shapeEntry(after), from: before.cleanroomClass, to: after.cleanroomClass });
+    }
+  });
+
+  const fromDoors = collectDoors(from);
+  const toDoors = collectDoors(to);
+  const doors: LayoutDiff['doors'] = { added: [], removed: [], changed: [] };
+  const stripAttributes = ({ attributes, ...entry }: DoorDiffEntry & { attributes: Record<string, unknown> }) => entry;
+
+  toDoors.forEach((after, id) => {
+    const before = fromDoors.get(id);
+    if (!before) {
+      doors.added.push(stripAttributes(after));
+      return;
+    }
+
+    const changes = Object.keys(after.attributes).filter(key => before.attributes[key] !== after.attributes[key]);
+    if (changes.length > 0) {
+      doors.changed.push({ ...stripAttributes(after), changes });
+    }
+  });
+  fromDoors.forEach((before, id) => {
+    if (!toDoors.has(id)) doors.removed.push(stripAttributes(before));
+  });
+
+  const totalChanges =
+    Object.values(shapes).reduce((sum, list) => sum + list.length, 0) +
+    Object.values(doors).reduce((sum, list) => sum + list.length, 0);
+
+  return { ...revisions, shapes, doors, totalChanges };
+}
+
+export class LayoutRevisionModel {
+  private driver = Neo4jService.getInstance().getDriver();
+
+  private mapRevision(properties: any, includeData: boolean): LayoutRevision {
+    return {
+      id: properties.id,
+      layoutId: properties.layoutId,
+      revision: Number(properties.revision),
+      version: properties.version,
+      author: properties.author,
+      comment: properties.comment || '',
+      shapeCount: Number(properties.shapeCount || 0),
+      createdAt: toIsoString(properties.createdAt),
+      approval: {
+        status: properties.approvalStatus || 'pending',
+        reviewer: properties.approvalReviewer || undefined,
+        note: properties.approvalNote || undefined,
+        decidedAt: toIsoString(properties.approvalDecidedAt)
+      },
+      ...(includeData ? { data: JSON.parse(properties.data) } : {})
+    };
+  }
+
+  /**
+   * Write an immutable snapshot of the layout inside the save transaction.
+   * Sets `data.metadata.version` to the new version before the snapshot is taken.
+   * Returns null when the layout does not exist.
+   */
+  async recordRevision(
+    tx: Transaction,
+    layoutId: string,
+    data: LayoutData,
+    info: LayoutRevisionInfo = {}
+  ): Promise<LayoutRevision | null> {
+    const latestResult = await tx.run(
+      `MATCH (l:Layout {id: $layoutId})
+       OPTIONAL MATCH (l)-[:HAS_REVISION]->(r:LayoutRevision)
+       WITH l, r ORDER BY r.revision DESC
+       RETURN l.id as id, collect(r)[0] as latest`,
+      { layoutId }
+    );
+
+    if (latestResult.records.length === 0) return null;
+
+    const latest = latestResult.records[0].get('latest');
+    const revision = latest ? Number(latest.properties.revision) + 1 : 1;
+    const version = latest ? nextLayoutVersion(latest.properties.version, revision) : '1.0.0';
+    data.metadata = { ...data.metadata, version };
+
+    const result = await tx.run(
+      `MATCH (l:Layout {id: $layoutId})
+       CREATE (r:LayoutRevision {
+         id: $id,
+         layoutId: $layoutId,
+         revision: $revision,
+         version: $version,
+         author: $author,
+         comment: $comment,
+         shapeCount: $shapeCount,
+         data: $data,
+         createdAt: datetime()
+       })
+       CREATE (l)-[:HAS_REVISION]->(r)
+       RETURN r`,
+      {
+        id: uuidv4(),
+        layoutId,
+        revision,
+        version,
+        author: info.author?.trim() || 'Unknown',
+        comment: info.comment?.trim() || '',
+        shapeCount: data.shapes.length,
+        data: JSON.stringify(data)
+      }
+    );
+
+    return this.mapRevision(result.records[0].get('r').properties, false);
+  }
+
+  /**
+   * Write-lock the layout node for the rest of the transaction and read its latest revision,
+   * so two concurrent saves cannot both pass the If-Match check. Returns null when the layout
+   * does not exist; `latest` is null for layouts saved before revisions were recorded.
+   */
+  async lockForUpdate(
+    tx: Transaction,
+    layoutId: string
+  ): Promise<{ layout: Record<string, any>; latest: LayoutRevision | null } | null> {
+    const result = await tx.run(
+      `MATCH (l:Layout {id: $layoutId})
+       SET l.saveLock = true
+       REMOVE l.saveLock
+       WITH l
+       OPTIONAL MATCH (l)-[:HAS_REVISION]->(r:LayoutRevision)
+       WITH l, r ORDER BY r.revision DESC
+       RETURN l, collect(r)[0] as latest`,
+      { layoutId }
+    );
+
+    if (result.records.length === 0) return null;
+
+    const latest = result.records[0].get('latest');
+    return {
+      layout: result.records[0].get('l').properties,
+      latest: latest ? this.mapRevision(latest.properties, false) : null
+    };
+  }
+
+  /**
+   * Record a reviewer's decision on a revision; 'pending' clears it. Null when the revision does not exist.
+   */
+  async setApproval(
+    layoutId: string,
+    revision: number,
+    approval: { status: RevisionApprovalStatus; reviewer: string; note?: string }
+  ): Promise<RevisionApproval | null> {
+    const session = this.driver.session();
+    const pending = approval.status === 'pending';
+
+    try {
+      const result = await session.run(
+        `MATCH (:Layout {id: $layoutId})-[:HAS_REVISION]->(r:LayoutRevision {revision: $revision})
+         SET r.approvalStatus = $status,
+             r.approvalReviewer = $reviewer,
+             r.approvalNote = $note,
+             r.approvalDecidedAt = CASE WHEN $pending THEN null ELSE datetime() END
+         RETURN r`,
+        {
+          layoutId,
+          revision,
+          status: approval.status,
+          reviewer: pending ? null : approval.reviewer,
+          note: pending ? null : approval.note?.trim() || null,
+          pending
+        }
+      );
+
+      return result.records.length > 0 ? this.mapRevision(result.records[0].get('r').properties, false).approval : null;
+    } finally {
+      await session.close();
+    }
+  }
+
+  async getRevisions(layoutId: string): Promise<LayoutRevision[]> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run(
+        `MATCH (:Layout {id: $layoutId})-[:HAS_REVISION]->(r:LayoutRevision)
+         RETURN r
+         ORDER BY r.revision DESC`,
+        { layoutId }
+      );
+      return result.records.map(record => this.mapRevision(record.get('r').properties, false));
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Get one revision with its full layout data; the latest revision when none is given
+   */
+  async getRevision(layoutId: string, revision?: number): Promise<LayoutRevision | null> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run(
+        `MATCH (:Layout {id: $layoutId})-[:HAS_REVISION]->(r:LayoutRevision)
+         WHERE $revision IS NULL OR r.revision = $revision
+         RETURN r
+         ORDER BY r.revision DESC
+         LIMIT 1`,
+        { layoutId, revision: revision ?? null }
+      );
+      return result.records.length > 0 ? this.mapRevision(result.records[0].get('r').properties, true) : null;
+    } finally {
+      await session.close();
+    }
+  }
+}
@@ -0,0 +1,384 @@
+import { Transaction } from 'neo4j-driver';
+import { v4 as uuidv4 } from 'uuid';
+import Neo4jService from '../config/database';
+import { NodeGroup, NodeGroupLevel, NodeGroupOwnerType } from '../types';
+import { ProjectResourceLabel } from './Project';
+
+// Neo4j label of the node that owns each kind of group
+export const OWNER_LABELS: Record<NodeGroupOwnerType, ProjectResourceLabel> = {
+  diagram: 'Diagram',
+  layout: 'Layout'
+};
+
+const NODE_GROUP_LEVELS: NodeGroupLevel[] = ['zone', 'suite', 'room'];
+
+export interface NodeGroupScope {
+  ownerType: NodeGroupOwnerType;
+  ownerId: string;
+}
+
+export type NodeGroupInput = Partial<Omit<NodeGroup, 'createdAt' | 'updatedAt'>> & { name: string };
+
+const toIsoString = (value: any): string | undefined =>
+  value ? new Date(value.toString()).toISOString() : undefined;
+
+const randomGroupColor = (): string =>
+  `#${Math.floor(Math.random() * 16777215).toString(16).padStart(6, '0')}`;
+
+/**
+ * Check that parent references stay inside the given set of groups and form no cycles.
+ * Returns an error message, or null when the hierarchy is valid.
+ */
+export function validateGroupHierarchy(groups: Array<Pick<NodeGroup, 'id' | 'parentGroupId' | 'level'>>): string | null {
+  const byId = new Map(groups.map(group => [group.id, group]));
+
+  for (const group of groups) {
+    if (group.level && !NODE_GROUP_LEVELS.includes(group.level)) {
+      return `Group "${group.id}" has invalid level "${group.level}" (expected ${NODE_GROUP_LEVELS.join(', ')})`;
+    }
+
+    if (!group.parentGroupId) continue;
+    if (!byId.has(group.parentGroupId)) {
+      return `Group "${group.id}" references unknown parent group "${group.parentGroupId}"`;
+    }
+
+    // Walk up the parent chain; revisiting a group means a cycle
+    const visited = new Set<string>([group.id]);
+    let current = byId.get(group.parentGroupId);
+    while (current) {
+      if (visited.has(current.id)) {
+        return `Group "${group.id}" is part of a nesting cycle`;
+      }
+      visited.add(current.id);
+      current = current.parentGroupId ? byId.get(current.parentGroupId) : undefined;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate the `groups` array sent along with a diagram or layout save
+ */
+export function validateGroupPayload(groups: unknown): string | null {
+  if (groups === undefined) return null;
+  if (!Array.isArray(groups)) return 'groups must be an array';
+
+  for (const group of groups) {
+    if (!group || typeof group.name !== 'string' || !group.name.trim()) {
+      return 'Every group requires a name';
+    }
+    if (group.nodeIds !== undefined && !Array.isArray(group.nodeIds)) {
+      return `Group "${group.name}" nodeIds must be an array`;
+    }
+  }
+
+  return validateGroupHierarchy(
+    groups.map((group, index) => ({
+      id: group.id || `__unsaved-group-${index}`,
+      parentGroupId: group.parentGroupId,
+      level: group.level
+    }))
+  );
+}
+
+/**
+ * Normalize incoming group payloads (ids, colors, parent references) before persisting.
+ * Group IDs are unique across owners: IDs in `takenIds` (used by another diagram or layout,
+ * e.g. when saving a copy) and repeated IDs get new ones, and parent references follow.
+ */
+export function normalizeGroups(groups: NodeGroupInput[], scope: NodeGroupScope, takenIds: Set<string> = new Set()): NodeGroup[] {
+  const now = new Date().toISOString();
+  const newIds = new Map<string, string>();
+  const seenIds = new Set<string>();
+  const ids = groups.map(group => {
+    let id = group.id;
+    if (!id || seenIds.has(id)) {
+      id = `group-${uuidv4()}`;
+    } else if (takenIds.has(id)) {
+      id = `group-${uuidv4()}`;
+      newIds.set(group.id!, id);
+    }
+    seenIds.add(group.id || id);
+    return id;
+  });
+
+  return groups.map((group, index) => ({
+    id: ids[index],
+    name: group.name.trim(),
+    color: group.color || randomGroupColor(),
+    nodeIds: Array.isArray(group.nodeIds) ? [...new Set(group.nodeIds)] : [],
+    description: group.description || undefined,
+    level: group.level,
+    parentGroupId: group.parentGroupId ? newIds.get(group.parentGroupId) ?? group.parentGroupId : null,
+    ownerType: scope.ownerType,
+    ownerId: scope.ownerId,
+    createdAt: now,
+    updatedAt: now
+  }));
+}
+
+export class NodeGroupModel {
+  private driver = Neo4jService.getInstance().getDriver();
+
+  private mapGroup(properties: any): NodeGroup {
+    return {
+      id: properties.id,
+      name: properties.name,
+      color: properties.color,
+      nodeIds: properties.nodeIds || [],
+      description: properties.description || undefined,
+      level: properties.level || undefined,
+      parentGroupId: properties.parentGroupId || null,
+      ownerType: properties.ownerType,
+      ownerId: properties.ownerId,
+      createdAt: toIsoString(properties.createdAt) || new Date().toISOString(),
+      updatedAt: toIsoString(properties.updatedAt) || new Date().toISOString()
+    };
+  }
+
+  /**
+   * Make NodeGroup IDs unique. Groups saved before IDs were checked across owners may share an
+   * ID (a layout saved as a copy kept its groups' IDs); all but one of them get a new ID first.
+   */
+  async ensureUniqueConstraint(): Promise<void> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run(
+        `MATCH (g:NodeGroup)
+         WITH g.id as id, collect(g) as groups
+         WHERE size(groups) > 1
+         UNWIND groups[1..] as duplicate
+         SET duplicate.id = 'group-' + randomUUID()
+         WITH duplicate, id
+         OPTIONAL MATCH (child:NodeGroup {ownerType: duplicate.ownerType, ownerId: duplicate.ownerId, parentGroupId: id})
+         SET child.parentGroupId = duplicate.id
+         RETURN count(DISTINCT duplicate) as renamed`
+      );
+      const renamed = Number(result.records[0]?.get('renamed') ?? 0);
+      if (renamed > 0) {
+        console.log(`🔧 Gave ${renamed} node groups with duplicate IDs new IDs`);
+      }
+
+      await session.run('CREATE CONSTRAINT unique_node_group_id IF NOT EXISTS FOR (g:NodeGroup) REQUIRE g.id IS UNIQUE');
+    } finally {
+      await session.close();
+    }
+  }
+
+  async getGroups(scope: NodeGroupScope): Promise<NodeGroup[]> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run(
+        `MATCH (g:NodeGroup {ownerType: $ownerType, ownerId: $ownerId})
+         RETURN g
+         ORDER BY g.createdAt`,
+        scope
+      );
+      return result.records.map(record => this.mapGroup(record.get('g').properties));
+    } finally {
+      await session.close();
+    }
+  }
+
+  async getGroupById(id: string): Promise<NodeGroup | null> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run('MATCH (g:NodeGroup {id: $id}) RETURN g', { id });
+      return result.records.length > 0 ? this.mapGroup(result.records[0].get('g').properties) : null;
+    } finally {
+      await session.close();
+    }
+  }
+
+  async createGroup(input: NodeGroupInput, scope: NodeGroupScope): Promise<NodeGroup> {
+    const [group] = normalizeGroups([input], scope);
+    const session = this.driver.session();
+
+    try {
+      await session.run(
+        `MATCH (o:${OWNER_LABELS[scope.ownerType]} {id: $ownerId})
+         CREATE (g:NodeGroup {
+           id: $id,
+           name: $name,
+           color: $color,
+           nodeIds: $nodeIds,
+           description: $description,
+           level: $level,
+           parentGroupId: $parentGroupId,
+           ownerType: $ownerType,
+           ownerId: $ownerId,
+           createdAt: datetime(),
+           updatedAt: datetime()
+         })
+         MERGE (o)-[:HAS_GROUP]->(g)
+         WITH g
+         OPTIONAL MATCH (parent:NodeGroup {id: $parentGroupId, ownerType: $ownerType, ownerId: $ownerId})
+         FOREACH (_ IN CASE WHEN parent IS NULL THEN [] ELSE [1] END | MERGE (parent)-[:CONTAINS_GROUP]->(g))`,
+        {
+          ...group,
+          description: group.description || null,
+          level: group.level || null
+        }
+      );
+      return group;
+    } finally {
+      await session.close();
+    }
+  }
+
+  async updateGroup(id: string, updates: Partial<NodeGroupInput>): Promise<NodeGroup | null> {
+    const existing = await this.getGroupById(id);
+    if (!existing) return null;
+
+    const merged: NodeGroup = {
+      ...existing,
+      name: updates.name?.trim() || existing.name,
+      nodeIds: updates.nodeIds ? [...new Set(updates.nodeIds)] : existing.nodeIds,
+      description: updates.description !== undefined ? updates.description : existing.description,
+      color: updates.color || existing.color,
+      level: updates.level !== undefined ? updates.level : existing.level,
+      parentGroupId: updates.parentGroupId !== undefined ? (updates.parentGroupId || null) : existing.parentGroupId
+    };
+
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run(
+        `MATCH (g:NodeGroup {id: $id})
+         SET g.name = $name,
+             g.nodeIds = $nodeIds,
+             g.description = $description,
+             g.color = $color,
+             g.level = $level,
+             g.parentGroupId = $parentGroupId,
+             g.updatedAt = datetime()
+         WITH g
+         OPTIONAL MATCH (:NodeGroup)-[old:CONTAINS_GROUP]->(g)
+         DELETE old
+         WITH DISTINCT g
+         OPTIONAL MATCH (parent:NodeGroup {id: $parentGroupId, ownerType: g.ownerType, ownerId: g.ownerId})
+         FOREACH (_ IN CASE WHEN parent IS NULL THEN [] ELSE [1] END | MERGE (parent)-[:CONTAINS_GROUP]->(g))
+         RETURN g`,
+        {
+          id,
+          name: merged.name,
+          nodeIds: merged.nodeIds,
+          description: merged.description || null,
+          color: merged.color,
+          level: merged.level || null,
+          parentGroupId: merged.parentGroupId || null
+        }
+      );
+      return this.mapGroup(result.records[0].get('g').properties);
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Delete a group; its child groups move up to the deleted group's parent
+   */
+  async deleteGroup(id: string): Promise<NodeGroup | null> {
+    const existing = await this.getGroupById(id);
+    if (!existing) return null;
+
+    const session = this.driver.session();
+
+    try {
+      await session.run(
+        `MATCH (g:NodeGroup {id: $id})
+         OPTIONAL MATCH (child:NodeGroup {ownerType: g.ownerType, ownerId: g.ownerId, parentGroupId: g.id})
+         SET child.parentGroupId = g.parentGroupId, child.updatedAt = datetime()
+         WITH g, collect(child) as children
+         OPTIONAL MATCH (parent:NodeGroup {id: g.parentGroupId, ownerType: g.ownerType, ownerId: g.ownerId})
+         FOREACH (c IN CASE WHEN parent IS NULL THEN [] ELSE children END | MERGE (parent)-[:CONTAINS_GROUP]->(c))
+         DETACH DELETE g`,
+        { id }
+      );
+      return existing;
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Replace every group owned by a diagram/layout inside an existing transaction,
+   * so groups are saved atomically with the diagram or layout itself
+   */
+  async replaceGroups(tx: Transaction, scope: NodeGroupScope, groups: NodeGroupInput[]): Promise<NodeGroup[]> {
+    // IDs of another diagram's or layout's groups cannot be reused
+    const taken = await tx.run(
+      `MATCH (g:NodeGroup)
+       WHERE g.id IN $ids AND NOT (g.ownerType = $ownerType AND g.ownerId = $ownerId)
+       RETURN g.id as id`,
+      { ...scope, ids: groups.map(group => group.id).filter(Boolean) }
+    );
+    const takenIds = new Set<string>(taken.records.map(record => record.get('id')));
+
+    // Groups that already exist keep their creation time across saves
+    const existing = await tx.run(
+      `MATCH (g:NodeGroup {ownerType: $ownerType, ownerId: $ownerId})
+       RETURN g.id as id, g.createdAt as createdAt`,
+      scope
+    );
+    const createdAtById = new Map<string, any>(
+      existing.records
+        .filter(record => record.get('createdAt'))
+        .map(record => [record.get('id'), record.get('createdAt')])
+    );
+    const normalized = normalizeGroups(groups, scope, takenIds).map(group => ({
+      ...group,
+      createdAt: toIsoString(createdAtById.get(group.id)) || group.createdAt
+    }));
+
+    await tx.run(
+      `MATCH (g:NodeGroup {ownerType: $ownerType, ownerId: $ownerId})
+       DETACH DELETE g`,
+      scope
+    );
+
+    if (normalized.length === 0) return normalized;
+
+    await tx.run(
+      `MATCH (o:${OWNER_LABELS[scope.ownerType]} {id: $ownerId})
+       UNWIND $groups AS group
+       CREATE (g:NodeGroup {
+         id: group.id,
+         name: group.name,
+         color: group.color,
+         nodeIds: group.nodeIds,
+         description: group.description,
+         level: group.level,
+         parentGroupId: group.parentGroupId,
+         ownerType: $ownerType,
+         ownerId: $ownerId,
+         createdAt: coalesce(datetime(group.createdAt), datetime()),
+         updatedAt: datetime()
+       })
+       MERGE (o)-[:HAS_GROUP]->(g)`,
+      {
+        ...scope,
+        groups: normalized.map(group => ({
+          ...group,
+          description: group.description || null,
+          level: group.level || null,
+          createdAt: createdAtById.get(group.id) || null
+        }))
+      }
+    );
+
+    await tx.run(
+      `MATCH (child:NodeGroup {ownerType: $ownerType, ownerId: $ownerId})
+       WHERE child.parentGroupId IS NOT NULL
+       MATCH (parent:NodeGroup {id: child.parentGroupId, ownerType: $ownerType, ownerId: $ownerId})
+       MERGE (parent)-[:CONTAINS_GROUP]->(child)`,
+      scope
+    );
+
+    return normalized;
+  }
+}
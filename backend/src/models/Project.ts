@@ -0,0 +1,241 @@
+import { Transaction } from 'neo4j-driver';
+import { v4 as uuidv4 } from 'uuid';
+import Neo4jService from '../config/database';
+import { Project, ProjectMember, User, UserRole } from '../types';
+
+// Neo4j labels of what a project can own
+export type ProjectResourceLabel = 'Diagram' | 'Layout';
+
+const toIsoString = (value: any): string | null =>
+  value ? new Date(value.toString()).toISOString() : null;
+
+/**
+ * Projects own diagrams and layouts: (Project)-[:OWNS]->(Diagram|Layout).
+ * Members hold a role per project: (User)-[:MEMBER_OF {role}]->(Project).
+ * Diagrams and layouts that no project owns fall back to the user's own role.
+ *
+ * Cost estimates saved to the knowledge graph are also Project nodes, but without an `id`;
+ * queries that do not look a project up by ID skip them with `p.id IS NOT NULL`.
+ */
+export class ProjectModel {
+  private driver = Neo4jService.getInstance().getDriver();
+
+  private mapProject(properties: any, extra: Partial<Project> = {}): Project {
+    return {
+      id: properties.id,
+      name: properties.name,
+      description: properties.description || undefined,
+      createdAt: toIsoString(properties.createdAt),
+      ...extra
+    };
+  }
+
+  /**
+   * Projects the user can see; admins see every project
+   */
+  async getProjects(user: User): Promise<Project[]> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run(
+        `MATCH (p:Project)
+         WHERE p.id IS NOT NULL
+         OPTIONAL MATCH (:User {id: $userId})-[m:MEMBER_OF]->(p)
+         WITH p, m
+         WHERE m IS NOT NULL OR $isAdmin
+         RETURN p, CASE WHEN $isAdmin THEN 'admin' ELSE m.role END as role,
+                size([(p)-[:OWNS]->(d:Diagram) | d]) as diagramCount,
+                size([(p)-[:OWNS]->(l:Layout) | l]) as layoutCount
+         ORDER BY p.name`,
+        { userId: user.id, isAdmin: user.role === 'admin' }
+      );
+
+      return result.records.map(record => this.mapProject(record.get('p').properties, {
+        role: record.get('role'),
+        diagramCount: Number(record.get('diagramCount')),
+        layoutCount: Number(record.get('layoutCount'))
+      }));
+    } finally {
+      await session.close();
+    }
+  }
+
+  async getProject(id: string): Promise<Project | null> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run('MATCH (p:Project {id: $id}) RETURN p', { id });
+      return result.records.length > 0 ? this.mapProject(result.records[0].get('p').properties) : null;
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Create a project; its creator becomes the project admin
+   */
+  async createProject(input: { name: string; description?: string }, creatorId: string): Promise<Project> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run(
+        `MATCH (u:User {id: $creatorId})
+         CREATE (p:Project {id: $id, name: $name, description: $description, createdAt: datetime(), updatedAt: datetime()})
+         CREATE (u)-[:MEMBER_OF {role: 'admin', since: datetime()}]->(p)
+         RETURN p`,
+        {
+          id: `project-${uuidv4()}`,
+          name: input.name.trim(),
+          description: input.description?.trim() || null,
+          creatorId
+        }
+      );
+
+      return this.mapProject(result.records[0].get('p').properties, { role: 'admin', diagramCount: 0, layoutCount: 0 });
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Delete a project; its diagrams and layouts are kept and become unassigned
+   */
+  async deleteProject(id: string): Promise<boolean> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run(
+        'MATCH (p:Project {id: $id}) DETACH DELETE p RETURN count(*) as deleted',
+        { id }
+      );
+      return Number(result.records[0]?.get('deleted') || 0) > 0;
+    } finally {
+      await session.close();
+    }
+  }
+
+  async getMembers(projectId: string): Promise<ProjectMember[]> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run(
+        `MATCH (u:User)-[m:MEMBER_OF]->(:Project {id: $projectId})
+         RETURN u.id as userId, u.email as email, u.name as name, m.role as role
+         ORDER BY u.name`,
+        { projectId }
+      );
+
+      return result.records.map(record => ({
+        userId: record.get('userId'),
+        email: record.get('email'),
+        name: record.get('name'),
+        role: record.get('role')
+      }));
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Add a member or change their role; null when the project or user does not exist
+   */
+  async setMember(projectId: string, userId: string, role: UserRole): Promise<ProjectMember | null> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run(
+        `MATCH (p:Project {id: $projectId}), (u:User {id: $userId})
+         MERGE (u)-[m:MEMBER_OF]->(p)
+         ON CREATE SET m.since = datetime()
+         SET m.role = $role
+         RETURN u.id as userId, u.email as email, u.name as name, m.role as role`,
+        { projectId, userId, role }
+      );
+
+      if (result.records.length === 0) return null;
+      const record = result.records[0];
+      return { userId: record.get('userId'), email: record.get('email'), name: record.get('name'), role: record.get('role') };
+    } finally {
+      await session.close();
+    }
+  }
+
+  async removeMember(projectId: string, userId: string): Promise<boolean> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run(
+        `MATCH (:User {id: $userId})-[m:MEMBER_OF]->(:Project {id: $projectId})
+         DELETE m
+         RETURN count(*) as removed`,
+        { projectId, userId }
+      );
+      return Number(result.records[0]?.get('removed') || 0) > 0;
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Role of a user in a project: 'admin' for admins, the member role, or null for non-members.
+   * Undefined when the project does not exist.
+   */
+  async getRoleInProject(projectId: string, user: User): Promise<UserRole | null | undefined> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run(
+        `MATCH (p:Project {id: $projectId})
+         OPTIONAL MATCH (:User {id: $userId})-[m:MEMBER_OF]->(p)
+         RETURN m.role as role`,
+        { projectId, userId: user.id }
+      );
+
+      if (result.records.length === 0) return undefined;
+      return user.role === 'admin' ? 'admin' : result.records[0].get('role');
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Project owning a diagram or layout and the user's role in it.
+   * Null when no project owns it, undefined when the diagram or layout does not exist.
+   */
+  async getResourceAccess(
+    label: ProjectResourceLabel,
+    resourceId: string,
+    user: User
+  ): Promise<{ projectId: string; role: UserRole | null } | null | undefined> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run(
+        `MATCH (r:${label} {id: $resourceId})
+         OPTIONAL MATCH (p:Project)-[:OWNS]->(r)
+         OPTIONAL MATCH (:User {id: $userId})-[m:MEMBER_OF]->(p)
+         RETURN p.id as projectId, m.role as role`,
+        { resourceId, userId: user.id }
+      );
+
+      if (result.records.length === 0) return undefined;
+
+      const projectId = result.records[0].get('projectId');
+      if (!projectId) return null;
+      return { projectId, role: user.role === 'admin' ? 'admin' : result.records[0].get('role') };
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Link a newly created diagram or layout to its project inside the save transaction
+   */
+  async assignResource(tx: Transaction, label: ProjectResourceLabel, resourceId: string, projectId: string): Promise<void> {
+    await tx.run(
+      `MATCH (p:Project {id: $projectId}), (r:${label} {id: $resourceId})
+       MERGE (p)-[:OWNS]->(r)`,
+      { projectId, resourceId }
+    );
+  }
+}
@@ -0,0 +1,243 @@
+import { v4 as uuidv4 } from 'uuid';
+import Neo4jService from '../config/database';
+import { ReviewAnchor, ReviewAnchorKind, ReviewComment, ReviewThread, ReviewThreadStatus } from '../types';
+
+export const MAX_REVIEW_COMMENT_LENGTH = 4000;
+
+const ANCHOR_KINDS: ReviewAnchorKind[] = ['shape', 'door', 'wall', 'canvas'];
+
+const toIsoString = (value: any): string | null =>
+  value ? new Date(value.toString()).toISOString() : null;
+
+/**
+ * @handles mentioned in a comment, lower-cased and without duplicates.
+ * A handle is a user name without spaces or the part of an email before the @.
+ */
+export function extractMentions(body: string): string[] {
+  const handles = Array.from(body.matchAll(/(^|[^\w@])@([\w][\w.-]*)/g), match => match[2].replace(/[.-]+$/, '').toLowerCase());
+  return Array.from(new Set(handles.filter(Boolean)));
+}
+
+/**
+ * Validate an anchor from a request body; returns an error message or null
+ */
+export function validateReviewAnchor(anchor: any): string | null {
+  if (!anchor || typeof anchor !== 'object') return 'anchor is required';
+  if (!ANCHOR_KINDS.includes(anchor.kind)) return `anchor.kind must be one of ${ANCHOR_KINDS.join(', ')}`;
+  if (!Number.isFinite(anchor.x) || !Number.isFinite(anchor.y)) return 'anchor.x and anchor.y must be numbers';
+  if (anchor.kind !== 'canvas' && (typeof anchor.targetId !== 'string' || !anchor.targetId)) {
+    return `anchor.targetId is required for ${anchor.kind} pins`;
+  }
+  return null;
+}
+
+export function validateCommentBody(body: unknown): string | null {
+  if (typeof body !== 'string' || !body.trim()) return 'body is required';
+  if (body.length > MAX_REVIEW_COMMENT_LENGTH) return `body must be at most ${MAX_REVIEW_COMMENT_LENGTH} characters`;
+  return null;
+}
+
+const normalizeAnchor = (anchor: ReviewAnchor): ReviewAnchor => ({
+  kind: anchor.kind,
+  ...(anchor.kind !== 'canvas' ? { targetId: anchor.targetId } : {}),
+  x: anchor.x,
+  y: anchor.y,
+  ...(anchor.levelId ? { levelId: anchor.levelId } : {})
+});
+
+export interface ReviewAuthor {
+  name: string;
+  userId?: string;
+}
+
+/**
+ * Review threads live next to the layout:
+ * (Layout)-[:HAS_REVIEW_THREAD]->(ReviewThread)-[:HAS_COMMENT]->(ReviewComment)
+ */
+export class ReviewThreadModel {
+  private driver = Neo4jService.getInstance().getDriver();
+
+  private mapComment(properties: any): ReviewComment {
+    return {
+      id: properties.id,
+      threadId: properties.threadId,
+      author: properties.author,
+      authorId: properties.authorId || undefined,
+      body: properties.body,
+      mentions: properties.mentions || [],
+      createdAt: toIsoString(properties.createdAt)
+    };
+  }
+
+  private mapThread(properties: any, comments: any[]): ReviewThread {
+    return {
+      id: properties.id,
+      layoutId: properties.layoutId,
+      anchor: JSON.parse(properties.anchor),
+      status: properties.status,
+      revision: properties.revision !== null && properties.revision !== undefined ? Number(properties.revision) : null,
+      author: properties.author,
+      createdAt: toIsoString(properties.createdAt),
+      resolvedBy: properties.resolvedBy || undefined,
+      resolvedAt: toIsoString(properties.resolvedAt),
+      comments: comments
+        .filter(Boolean)
+        .map(comment => this.mapComment(comment.properties))
+        .sort((a, b) => (a.createdAt || '').localeCompare(b.createdAt || ''))
+    };
+  }
+
+  // Shared tail of every query that returns threads
+  private static readonly RETURN_THREAD = `
+    OPTIONAL MATCH (t)-[:HAS_COMMENT]->(c:ReviewComment)
+    RETURN t, collect(c) as comments`;
+
+  /**
+   * Threads of a layout, oldest first; optionally only open or resolved ones
+   */
+  async getThreads(layoutId: string, status?: ReviewThreadStatus): Promise<ReviewThread[]> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run(
+        `MATCH (:Layout {id: $layoutId})-[:HAS_REVIEW_THREAD]->(t:ReviewThread)
+         WHERE $status IS NULL OR t.status = $status
+         ${ReviewThreadModel.RETURN_THREAD}
+         ORDER BY t.createdAt`,
+        { layoutId, status: status || null }
+      );
+      return result.records.map(record => this.mapThread(record.get('t').properties, record.get('comments')));
+    } finally {
+      await session.close();
+    }
+  }
+
+  async countOpenThreads(layoutId: string): Promise<number> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run(
+        `MATCH (:Layout {id: $layoutId})-[:HAS_REVIEW_THREAD]->(t:ReviewThread {status: 'open'})
+         RETURN count(t) as count`,
+        { layoutId }
+      );
+      return Number(result.records[0].get('count'));
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Open a thread with its first comment on the layout's latest revision; null when the layout does not exist
+   */
+  async createThread(layoutId: string, anchor: ReviewAnchor, body: string, author: ReviewAuthor): Promise<ReviewThread | null> {
+    const session = this.driver.session();
+    const threadId = `review-${uuidv4()}`;
+
+    try {
+      const result = await session.run(
+        `MATCH (l:Layout {id: $layoutId})
+         OPTIONAL MATCH (l)-[:HAS_REVISION]->(r:LayoutRevision)
+         WITH l, max(r.revision) as revision
+         CREATE (l)-[:HAS_REVIEW_THREAD]->(t:ReviewThread {
+           id: $threadId,
+           layoutId: $layoutId,
+           anchor: $anchor,
+           status: 'open',
+           revision: revision,
+           author: $author,
+           authorId: $authorId,
+           createdAt: datetime()
+         })
+         CREATE (t)-[:HAS_COMMENT]->(:ReviewComment {
+           id: $commentId,
+           threadId: $threadId,
+           author: $author,
+           authorId: $authorId,
+           body: $body,
+           mentions: $mentions,
+           createdAt: datetime()
+         })
+         WITH t
+         ${ReviewThreadModel.RETURN_THREAD}`,
+        {
+          layoutId,
+          threadId,
+          commentId: uuidv4(),
+          anchor: JSON.stringify(normalizeAnchor(anchor)),
+          author: author.name,
+          authorId: author.userId || null,
+          body: body.trim(),
+          mentions: extractMentions(body)
+        }
+      );
+
+      if (result.records.length === 0) return null;
+      return this.mapThread(result.records[0].get('t').properties, result.records[0].get('comments'));
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Reply to a thread; null when the thread does not belong to the layout
+   */
+  async addComment(layoutId: string, threadId: string, body: string, author: ReviewAuthor): Promise<ReviewThread | null> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run(
+        `MATCH (:Layout {id: $layoutId})-[:HAS_REVIEW_THREAD]->(t:ReviewThread {id: $threadId})
+         CREATE (t)-[:HAS_COMMENT]->(:ReviewComment {
+           id: $commentId,
+           threadId: $threadId,
+           author: $author,
+           authorId: $authorId,
+           body: $body,
+           mentions: $mentions,
+           createdAt: datetime()
+         })
+         WITH t
+         ${ReviewThreadModel.RETURN_THREAD}`,
+        {
+          layoutId,
+          threadId,
+          commentId: uuidv4(),
+          author: author.name,
+          authorId: author.userId || null,
+          body: body.trim(),
+          mentions: extractMentions(body)
+        }
+      );
+
+      if (result.records.length === 0) return null;
+      return this.mapThread(result.records[0].get('t').properties, result.records[0].get('comments'));
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Resolve or reopen a thread; null when the thread does not belong to the layout
+   */
+  async setStatus(layoutId: string, threadId: string, status: ReviewThreadStatus, by: string): Promise<ReviewThread | null> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run(
+        `MATCH (:Layout {id: $layoutId})-[:HAS_REVIEW_THREAD]->(t:ReviewThread {id: $threadId})
+         SET t.status = $status,
+             t.resolvedBy = CASE WHEN $status = 'resolved' THEN $by ELSE null END,
+             t.resolvedAt = CASE WHEN $status = 'resolved' THEN datetime() ELSE null END
+         WITH t
+         ${ReviewThreadModel.RETURN_THREAD}`,
+        { layoutId, threadId, status, by }
+      );
+
+      if (result.records.length === 0) return null;
+      return this.mapThread(result.records[0].get('t').properties, result.records[0].get('comments'));
+    } finally {
+      await session.close();
+    }
+  }
+}
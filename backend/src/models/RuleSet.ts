@@ -0,0 +1,223 @@
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { Transaction } from 'neo4j-driver';
+import Neo4jService from '../config/database';
+import { RuleSet, RuleSetContent, User } from '../types';
+
+export type RuleSetPinLabel = 'Diagram' | 'Layout';
+
+const toIsoString = (value: any): string | null =>
+  value ? new Date(value.toString()).toISOString() : null;
+
+export const hashRuleSetContent = (content: RuleSetContent): string =>
+  createHash('sha256').update(JSON.stringify(content)).digest('hex');
+
+let constraintEnsured = false;
+
+/**
+ * Named, numbered snapshots of the rule base. The content of a rule set never changes;
+ * releasing only moves it from draft to released.
+ */
+export class RuleSetModel {
+  private driver = Neo4jService.getInstance().getDriver();
+
+  private mapRuleSet(properties: any, withContent = false): RuleSet {
+    return {
+      id: properties.id,
+      version: Number(properties.version),
+      name: properties.name,
+      description: properties.description || undefined,
+      status: properties.status,
+      contentHash: properties.contentHash,
+      counts: {
+        templates: Number(properties.templateCount),
+        templateRelationships: Number(properties.templateRelationshipCount),
+        relationships: Number(properties.relationshipCount),
+        regulatoryRules: Number(properties.regulatoryRuleCount)
+      },
+      createdBy: properties.createdBy,
+      createdAt: toIsoString(properties.createdAt),
+      releasedBy: properties.releasedBy || undefined,
+      releasedAt: toIsoString(properties.releasedAt),
+      ...(withContent ? { content: JSON.parse(properties.content) } : {})
+    };
+  }
+
+  /**
+   * All rule sets without their content, newest first
+   */
+  async getRuleSets(): Promise<RuleSet[]> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run('MATCH (rs:RuleSet) RETURN rs ORDER BY rs.version DESC');
+      return result.records.map(record => this.mapRuleSet(record.get('rs').properties));
+    } finally {
+      await session.close();
+    }
+  }
+
+  async getRuleSet(version: number): Promise<RuleSet | null> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run('MATCH (rs:RuleSet {version: $version}) RETURN rs', { version });
+      return result.records.length > 0 ? this.mapRuleSet(result.records[0].get('rs').properties, true) : null;
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Latest released rule set, optionally the latest one before `beforeVersion`
+   */
+  async getLatestReleased(beforeVersion?: number): Promise<RuleSet | null> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run(
+        `MATCH (rs:RuleSet {status: 'released'})
+         WHERE $beforeVersion IS NULL OR rs.version < $beforeVersion
+         RETURN rs ORDER BY rs.version DESC LIMIT 1`,
+        { beforeVersion: beforeVersion ?? null }
+      );
+      return result.records.length > 0 ? this.mapRuleSet(result.records[0].get('rs').properties, true) : null;
+    } finally {
+      await session.close();
+    }
+  }
+
+  private async ensureConstraint(): Promise<void> {
+    if (constraintEnsured) return;
+
+    const session = this.driver.session();
+    try {
+      await session.run('CREATE CONSTRAINT unique_rule_set_version IF NOT EXISTS FOR (rs:RuleSet) REQUIRE rs.version IS UNIQUE');
+      constraintEnsured = true;
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Store a snapshot as a new draft with the next version number
+   */
+  async createRuleSet(tx: Transaction, input: { name: string; description?: string; content: RuleSetContent; createdBy: string }): Promise<RuleSet> {
+    await this.ensureConstraint();
+
+    const result = await tx.run(
+      `OPTIONAL MATCH (existing:RuleSet)
+       WITH coalesce(max(existing.version), 0) + 1 as version
+       CREATE (rs:RuleSet {
+         id: $id,
+         version: version,
+         name: $name,
+         description: $description,
+         status: 'draft',
+         content: $content,
+         contentHash: $contentHash,
+         templateCount: $templateCount,
+         templateRelationshipCount: $templateRelationshipCount,
+         relationshipCount: $relationshipCount,
+         regulatoryRuleCount: $regulatoryRuleCount,
+         createdBy: $createdBy,
+         createdAt: datetime()
+       })
+       RETURN rs`,
+      {
+        id: uuidv4(),
+        name: input.name,
+        description: input.description || null,
+        content: JSON.stringify(input.content),
+        contentHash: hashRuleSetContent(input.content),
+        templateCount: input.content.templates.length,
+        templateRelationshipCount: input.content.templateRelationships.length,
+        relationshipCount: input.content.relationships.length,
+        regulatoryRuleCount: input.content.regulatoryRules.length,
+        createdBy: input.createdBy
+      }
+    );
+
+    return this.mapRuleSet(result.records[0].get('rs').properties, true);
+  }
+
+  /**
+   * Release a draft; null when the version does not exist or was already released
+   */
+  async release(tx: Transaction, version: number, releasedBy: string): Promise<RuleSet | null> {
+    const result = await tx.run(
+      `MATCH (rs:RuleSet {version: $version, status: 'draft'})
+       SET rs.status = 'released', rs.releasedBy = $releasedBy, rs.releasedAt = datetime()
+       RETURN rs`,
+      { version, releasedBy }
+    );
+    return result.records.length > 0 ? this.mapRuleSet(result.records[0].get('rs').properties, true) : null;
+  }
+
+  /**
+   * Rule set version a diagram or layout is pinned to: null when unpinned, undefined when it does not exist
+   */
+  async getPinnedVersion(label: RuleSetPinLabel, id: string): Promise<number | null | undefined> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run(`MATCH (n:${label} {id: $id}) RETURN n.ruleSetVersion as version`, { id });
+      if (result.records.length === 0) return undefined;
+
+      const version = result.records[0].get('version');
+      return version === null || version === undefined ? null : Number(version);
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Pin a diagram or layout to a rule set version, or unpin it with null; false when it does not exist
+   */
+  async pin(label: RuleSetPinLabel, id: string, version: number | null): Promise<boolean> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run(
+        `MATCH (n:${label} {id: $id}) SET n.ruleSetVersion = $version RETURN n.id as id`,
+        { id, version }
+      );
+      return result.records.length > 0;
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Saved layouts the user may open, with their data and pinned version, for verdict reports:
+   * admins get every layout, others those outside any project or in a project they belong to
+   */
+  async getLayoutsForVerdicts(user: User): Promise<Array<{ id: string; name: string; projectId: string | null; pinnedVersion: number | null; data: string }>> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run(
+        `MATCH (l:Layout)
+         OPTIONAL MATCH (p:Project)-[:OWNS]->(l)
+         WITH l, p
+         WHERE $isAdmin OR p IS NULL OR EXISTS { MATCH (:User {id: $userId})-[:MEMBER_OF]->(p) }
+         RETURN l.id as id, l.name as name, l.data as data, l.ruleSetVersion as pinnedVersion, p.id as projectId
+         ORDER BY l.name`,
+        { userId: user.id, isAdmin: user.role === 'admin' }
+      );
+
+      return result.records.map(record => {
+        const pinnedVersion = record.get('pinnedVersion');
+        return {
+          id: record.get('id'),
+          name: record.get('name'),
+          projectId: record.get('projectId') ?? null,
+          pinnedVersion: pinnedVersion === null || pinnedVersion === undefined ? null : Number(pinnedVersion),
+          data: record.get('data')
+        };
+      });
+    } finally {
+      await session.close();
+    }
+  }
+}
@@ -1,40 +1,34 @@
-import { Session } from 'neo4j-driver';
+import { Session, Transaction } from 'neo4j-driver';
 import Neo4jService from '../config/database';
 import { SpatialRelationship, Suggestion } from '../types';
 
 export class SpatialRelationshipModel {
   private driver = Neo4jService.getInstance().getDriver();
 
-  async createRelationship(relationship: Omit<SpatialRelationship, 'id'>): Promise<SpatialRelationship> {
-    const session = this.driver.session();
+  async createRelationship(tx: Transaction, relationship: Omit<SpatialRelationship, 'id'>): Promise<SpatialRelationship> {
+    const result = await tx.run(
+      `MATCH (from:FunctionalArea {id: $fromId})
+       MATCH (to:FunctionalArea {id: $toId})
+       CREATE (from)-[r:${relationship.type} {
+         id: randomUUID(),
+         priority: $priority,
+         reason: $reason,
+         doorType: $doorType,
+         minDistance: $minDistance,
+         maxDistance: $maxDistance,
+         flowDirection: $flowDirection,
+         flowType: $flowType,
+         createdAt: datetime(),
+         updatedAt: datetime()
+       }]->(to)
+       RETURN r`,
+      relationship
+    );
     
-    try {
-      const result = await session.run(
-        `MATCH (from:FunctionalArea {id: $fromId})
-         MATCH (to:FunctionalArea {id: $toId})
-         CREATE (from)-[r:${relationship.type} {
-           id: randomUUID(),
-           priority: $priority,
-           reason: $reason,
-           doorType: $doorType,
-           minDistance: $minDistance,
-           maxDistance: $maxDistance,
-           flowDirection: $flowDirection,
-           flowType: $flowType,
-           createdAt: datetime(),
-           updatedAt: datetime()
-         }]->(to)
-         RETURN r`,
-        relationship
-      );
-      
-      return {
-        id: result.records[0].get('r').properties.id,
-        ...relationship
-      };
-    } finally {
-      await session.close();
-    }
+    return {
+      id: result.records[0].get('r').properties.id,
+      ...relationship
+    };
   }
 
   async getRelationshipsForNode(nodeId: string): Promise<SpatialRelationship[]> {
@@ -132,11 +126,11 @@ export class SpatialRelationshipModel {
     }
   }
 
-  async getRelationshipById(id: string): Promise<SpatialRelationship | null> {
-    const session = this.driver.session();
+  async getRelationshipById(id: string, tx?: Transaction): Promise<SpatialRelationship | null> {
+    const session = tx ? null : this.driver.session();
     
     try {
-      const result = await session.run(
+      const result = await (tx || session!).run(
         `MATCH (from:FunctionalArea)-[r]->(to:FunctionalArea)
          WHERE r.id = $id
          RETURN r, from.id as fromId, to.id as toId, type(r) as relType`,
@@ -162,44 +156,22 @@ export class SpatialRelationshipModel {
         flowType: record.get('r').properties.flowType
       };
     } finally {
-      await session.close();
+      await session?.close();
     }
   }
 
-  async updateRelationship(id: string, updates: Partial<SpatialRelationship>): Promise<SpatialRelationship | null> {
-    const session = this.driver.session();
+  async getRelationshipsByIds(ids: string[], tx?: Transaction): Promise<SpatialRelationship[]> {
+    const session = tx ? null : this.driver.session();
     
     try {
-      const result = await session.run(
+      const result = await (tx || session!).run(
         `MATCH (from:FunctionalArea)-[r]->(to:FunctionalArea)
-         WHERE r.id = $id
-         SET r.priority = COALESCE($priority, r.priority),
-             r.reason = COALESCE($reason, r.reason),
-             r.doorType = COALESCE($doorType, r.doorType),
-             r.minDistance = COALESCE($minDistance, r.minDistance),
-             r.maxDistance = COALESCE($maxDistance, r.maxDistance),
-             r.flowDirection = COALESCE($flowDirection, r.flowDirection),
-             r.flowType = COALESCE($flowType, r.flowType),
-             r.updatedAt = datetime()
+         WHERE r.id IN $ids
          RETURN r, from.id as fromId, to.id as toId, type(r) as relType`,
-        {
-          id,
-          priority: updates.priority,
-          reason: updates.reason,
-          doorType: updates.doorType,
-          minDistance: updates.minDistance,
-          maxDistance: updates.maxDistance,
-          flowDirection: updates.flowDirection,
-          flowType: updates.flowType
-        }
+        { ids }
       );
       
-      if (result.records.length === 0) {
-        return null;
-      }
-      
-      const record = result.records[0];
-      return {
+      return result.records.map(record => ({
         id: record.get('r').properties.id,
         type: record.get('relType') as any,
         fromId: record.get('fromId'),
@@ -211,28 +183,67 @@ export class SpatialRelationshipModel {
         maxDistance: record.get('r').properties.maxDistance,
         flowDirection: record.get('r').properties.flowDirection,
         flowType: record.get('r').properties.flowType
-      };
+      }));
     } finally {
-      await session.close();
+      await session?.close();
     }
   }
 
-  async deleteRelationship(id: string): Promise<boolean> {
-    const session = this.driver.session();
+  async updateRelationship(tx: Transaction, id: string, updates: Partial<SpatialRelationship>): Promise<SpatialRelationship | null> {
+    const result = await tx.run(
+      `MATCH (from:FunctionalArea)-[r]->(to:FunctionalArea)
+       WHERE r.id = $id
+       SET r.priority = COALESCE($priority, r.priority),
+           r.reason = COALESCE($reason, r.reason),
+           r.doorType = COALESCE($doorType, r.doorType),
+           r.minDistance = COALESCE($minDistance, r.minDistance),
+           r.maxDistance = COALESCE($maxDistance, r.maxDistance),
+           r.flowDirection = COALESCE($flowDirection, r.flowDirection),
+           r.flowType = COALESCE($flowType, r.flowType),
+           r.updatedAt = datetime()
+       RETURN r, from.id as fromId, to.id as toId, type(r) as relType`,
+      {
+        id,
+        priority: updates.priority,
+        reason: updates.reason,
+        doorType: updates.doorType,
+        minDistance: updates.minDistance,
+        maxDistance: updates.maxDistance,
+        flowDirection: updates.flowDirection,
+        flowType: updates.flowType
+      }
+    );
     
-    try {
-      const result = await session.run(
-        `MATCH (from:FunctionalArea)-[r]->(to:FunctionalArea)
-         WHERE r.id = $id
-         DELETE r
-         RETURN count(r) as deletedCount`,
-        { id }
-      );
-      
-      return result.records[0].get('deletedCount') > 0;
-    } finally {
-      await session.close();
+    if (result.records.length === 0) {
+      return null;
     }
+    
+    const record = result.records[0];
+    return {
+      id: record.get('r').properties.id,
+      type: record.get('relType') as any,
+      fromId: record.get('fromId'),
+      toId: record.get('toId'),
+      priority: record.get('r').properties.priority,
+      reason: record.get('r').properties.reason,
+      doorType: record.get('r').properties.doorType,
+      minDistance: record.get('r').properties.minDistance,
+      maxDistance: record.get('r').properties.maxDistance,
+      flowDirection: record.get('r').properties.flowDirection,
+      flowType: record.get('r').properties.flowType
+    };
+  }
+
+  async deleteRelationship(tx: Transaction, id: string): Promise<boolean> {
+    const result = await tx.run(
+      `MATCH (from:FunctionalArea)-[r]->(to:FunctionalArea)
+       WHERE r.id = $id
+       DELETE r
+       RETURN count(r) as deletedCount`,
+      { id }
+    );
+    
+    return result.records[0].get('deletedCount') > 0;
   }
 
   async getRelationshipsBetweenNodes(sourceId: string, targetId: string): Promise<SpatialRelationship[]> {
@@ -295,106 +306,88 @@ export class SpatialRelationshipModel {
     }
   }
 
-  async batchCreateRelationships(relationships: Omit<SpatialRelationship, 'id'>[]): Promise<SpatialRelationship[]> {
-    const session = this.driver.session();
+  async batchCreateRelationships(tx: Transaction, relationships: Omit<SpatialRelationship, 'id'>[]): Promise<SpatialRelationship[]> {
+    const createdRelationships: SpatialRelationship[] = [];
     
-    try {
-      const createdRelationships: SpatialRelationship[] = [];
-      
-      for (const relationship of relationships) {
-        const result = await session.run(
-          `MATCH (from:FunctionalArea {id: $fromId})
-           MATCH (to:FunctionalArea {id: $toId})
-           CREATE (from)-[r:${relationship.type} {
-             id: randomUUID(),
-             priority: $priority,
-             reason: $reason,
-             doorType: $doorType,
-             minDistance: $minDistance,
-             maxDistance: $maxDistance,
-             flowDirection: $flowDirection,
-             flowType: $flowType,
-             createdAt: datetime(),
-             updatedAt: datetime()
-           }]->(to)
-           RETURN r`,
-          relationship
-        );
-        
-        createdRelationships.push({
-          id: result.records[0].get('r').properties.id,
-          ...relationship
-        });
-      }
+    for (const relationship of relationships) {
+      const result = await tx.run(
+        `MATCH (from:FunctionalArea {id: $fromId})
+         MATCH (to:FunctionalArea {id: $toId})
+         CREATE (from)-[r:${relationship.type} {
+           id: randomUUID(),
+           priority: $priority,
+           reason: $reason,
+           doorType: $doorType,
+           minDistance: $minDistance,
+           maxDistance: $maxDistance,
+           flowDirection: $flowDirection,
+           flowType: $flowType,
+           createdAt: datetime(),
+           updatedAt: datetime()
+         }]->(to)
+         RETURN r`,
+        relationship
+      );
       
-      return createdRelationships;
-    } finally {
-      await session.close();
+      createdRelationships.push({
+        id: result.records[0].get('r').properties.id,
+        ...relationship
+      });
     }
+    
+    return createdRelationships;
   }
 
-  async batchUpdateRelationships(relationships: SpatialRelationship[]): Promise<SpatialRelationship[]> {
-    const session = this.driver.session();
+  async batchUpdateRelationships(tx: Transaction, relationships: SpatialRelationship[]): Promise<SpatialRelationship[]> {
+    const updatedRelationships: SpatialRelationship[] = [];
     
-    try {
-      const updatedRelationships: SpatialRelationship[] = [];
+    for (const relationship of relationships) {
+      const result = await tx.run(
+        `MATCH (from:FunctionalArea)-[r]->(to:FunctionalArea)
+         WHERE r.id = $id
+         SET r.priority = $priority,
+             r.reason = $reason,
+             r.doorType = $doorType,
+             r.minDistance = $minDistance,
+             r.maxDistance = $maxDistance,
+             r.flowDirection = $flowDirection,
+             r.flowType = $flowType,
+             r.updatedAt = datetime()
+         RETURN r, from.id as fromId, to.id as toId, type(r) as relType`,
+        relationship
+      );
       
-      for (const relationship of relationships) {
-        const result = await session.run(
-          `MATCH (from:FunctionalArea)-[r]->(to:FunctionalArea)
-           WHERE r.id = $id
-           SET r.priority = $priority,
-               r.reason = $reason,
-               r.doorType = $doorType,
-               r.minDistance = $minDistance,
-               r.maxDistance = $maxDistance,
-               r.flowDirection = $flowDirection,
-               r.flowType = $flowType,
-               r.updatedAt = datetime()
-           RETURN r, from.id as fromId, to.id as toId, type(r) as relType`,
-          relationship
-        );
-        
-        if (result.records.length > 0) {
-          const record = result.records[0];
-          updatedRelationships.push({
-            id: record.get('r').properties.id,
-            type: record.get('relType') as any,
-            fromId: record.get('fromId'),
-            toId: record.get('toId'),
-            priority: record.get('r').properties.priority,
-            reason: record.get('r').properties.reason,
-            doorType: record.get('r').properties.doorType,
-            minDistance: record.get('r').properties.minDistance,
-            maxDistance: record.get('r').properties.maxDistance,
-            flowDirection: record.get('r').properties.flowDirection,
-            flowType: record.get('r').properties.flowType
-          });
-        }
+      if (result.records.length > 0) {
+        const record = result.records[0];
+        updatedRelationships.push({
+          id: record.get('r').properties.id,
+          type: record.get('relType') as any,
+          fromId: record.get('fromId'),
+          toId: record.get('toId'),
+          priority: record.get('r').properties.priority,
+          reason: record.get('r').properties.reason,
+          doorType: record.get('r').properties.doorType,
+          minDistance: record.get('r').properties.minDistance,
+          maxDistance: record.get('r').properties.maxDistance,
+          flowDirection: record.get('r').properties.flowDirection,
+          flowType: record.get('r').properties.flowType
+        });
       }
-      
-      return updatedRelationships;
-    } finally {
-      await session.close();
     }
+    
+    return updatedRelationships;
   }
 
-  async batchDeleteRelationships(relationshipIds: string[]): Promise<number> {
-    const session = this.driver.session();
+  async batchDeleteRelationships(tx: Transaction, relationshipIds: string[]): Promise<number> {
+    const result = await tx.run(
+      `MATCH (from:FunctionalArea)-[r]->(to:FunctionalArea)
+       WHERE r.id IN $relationshipIds
+       DELETE r
+       RETURN count(r) as deletedCount`,
+      { relationshipIds }
+    );
     
-    try {
-      const result = await session.run(
-        `MATCH (from:FunctionalArea)-[r]->(to:FunctionalArea)
-         WHERE r.id IN $relationshipIds
-         DELETE r
-         RETURN count(r) as deletedCount`,
-        { relationshipIds }
-      );
-      
-      return result.records[0].get('deletedCount');
-    } finally {
-      await session.close();
-    }
+    return result.records[0].get('deletedCount');
   }
 
   async initializeSpatialRelationships(): Promise<void> {
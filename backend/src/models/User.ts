@@ -0,0 +1,150 @@
+import { v4 as uuidv4 } from 'uuid';
+import Neo4jService from '../config/database';
+import { hashPassword } from '../services/authService';
+import { User, UserRole } from '../types';
+
+export const USER_ROLES: UserRole[] = ['viewer', 'designer', 'reviewer', 'admin'];
+
+export const isUserRole = (value: unknown): value is UserRole => USER_ROLES.includes(value as UserRole);
+
+/**
+ * Whether `role` grants at least the rights of `required`
+ */
+export const hasRole = (role: UserRole | undefined, required: UserRole): boolean =>
+  !!role && USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+
+const toIsoString = (value: any): string | null =>
+  value ? new Date(value.toString()).toISOString() : null;
+
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+export class UserModel {
+  private driver = Neo4jService.getInstance().getDriver();
+
+  // The password hash never leaves the model
+  private mapUser(properties: any): User {
+    return {
+      id: properties.id,
+      email: properties.email,
+      name: properties.name,
+      role: properties.role,
+      createdAt: toIsoString(properties.createdAt)
+    };
+  }
+
+  async countUsers(): Promise<number> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run('MATCH (u:User) RETURN count(u) as count');
+      return Number(result.records[0].get('count'));
+    } finally {
+      await session.close();
+    }
+  }
+
+  async getUsers(): Promise<User[]> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run('MATCH (u:User) RETURN u ORDER BY u.name');
+      return result.records.map(record => this.mapUser(record.get('u').properties));
+    } finally {
+      await session.close();
+    }
+  }
+
+  async getUserById(id: string): Promise<User | null> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run('MATCH (u:User {id: $id}) RETURN u', { id });
+      return result.records.length > 0 ? this.mapUser(result.records[0].get('u').properties) : null;
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * User with the stored password hash, for sign-in
+   */
+  async getCredentials(email: string): Promise<{ user: User; passwordHash: string } | null> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run('MATCH (u:User {email: $email}) RETURN u', { email: normalizeEmail(email) });
+      if (result.records.length === 0) return null;
+
+      const properties = result.records[0].get('u').properties;
+      return { user: this.mapUser(properties), passwordHash: properties.passwordHash };
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Create a user; null when the email is already registered.
+   * With `onlyIfFirst` the user is only created while no user exists (bootstrapping the first admin).
+   */
+  async createUser(
+    input: { email: string; name: string; password: string; role: UserRole },
+    onlyIfFirst = false
+  ): Promise<User | null> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run(
+        `OPTIONAL MATCH (existing:User)
+         WITH count(existing) as userCount, sum(CASE WHEN existing.email = $email THEN 1 ELSE 0 END) as taken
+         WHERE taken = 0 AND (NOT $onlyIfFirst OR userCount = 0)
+         CREATE (u:User {
+           id: $id,
+           email: $email,
+           name: $name,
+           role: $role,
+           passwordHash: $passwordHash,
+           createdAt: datetime(),
+           updatedAt: datetime()
+         })
+         RETURN u`,
+        {
+          id: `user-${uuidv4()}`,
+          email: normalizeEmail(input.email),
+          name: input.name.trim(),
+          role: input.role,
+          passwordHash: hashPassword(input.password),
+          onlyIfFirst
+        }
+      );
+
+      return result.records.length > 0 ? this.mapUser(result.records[0].get('u').properties) : null;
+    } finally {
+      await session.close();
+    }
+  }
+
+  async updateUser(id: string, updates: { name?: string; role?: UserRole; password?: string }): Promise<User | null> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run(
+        `MATCH (u:User {id: $id})
+         SET u.name = coalesce($name, u.name),
+             u.role = coalesce($role, u.role),
+             u.passwordHash = coalesce($passwordHash, u.passwordHash),
+             u.updatedAt = datetime()
+         RETURN u`,
+        {
+          id,
+          name: updates.name?.trim() || null,
+          role: updates.role || null,
+          passwordHash: updates.password ? hashPassword(updates.password) : null
+        }
+      );
+
+      return result.records.length > 0 ? this.mapUser(result.records[0].get('u').properties) : null;
+    } finally {
+      await session.close();
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { Router } from 'express';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES, AuditLogModel } from '../models/AuditLog';
+import { requireRole } from '../middleware/auth';
+import { AuditAction, AuditEntityType } from '../types';
+
+// Read access to the audit trail for QA; entries are only ever written by the audited routes
+const router = Router();
+const auditLogModel = new AuditLogModel();
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+router.use(requireRole('reviewer'));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A plain date as `to` covers that whole day (UTC)
+const parseTimestamp = (value: unknown, endOfDay = false): string | null | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) return null;
+  const isPlainDate = /^\d{4}-\d{2}-\d{2}$/.test(String(value));
+  return new Date(date.getTime() + (endOfDay && isPlainDate ? DAY_MS - 1 : 0)).toISOString();
+};
+
+// Query the trail: ?entityType=&entityId=&action=&actorId=&from=&to=&limit=&offset=
+router.get('/', async (req, res) => {
+  try {
+    const { entityType, entityId, action, actorId } = req.query as Record<string, string | undefined>;
+
+    if (entityType && !AUDIT_ENTITY_TYPES.includes(entityType as AuditEntityType)) {
+      return res.status(400).json({ error: `entityType must be one of ${AUDIT_ENTITY_TYPES.join(', ')}` });
+    }
+    if (action && !AUDIT_ACTIONS.includes(action as AuditAction)) {
+      return res.status(400).json({ error: `action must be one of ${AUDIT_ACTIONS.join(', ')}` });
+    }
+
+    const from = parseTimestamp(req.query.from);
+    const to = parseTimestamp(req.query.to, true);
+    if (from === null || to === null) {
+      return res.status(400).json({ error: 'from and to must be dates or ISO timestamps' });
+    }
+
+    const limit = req.query.limit !== undefined ? Number(req.query.limit) : DEFAULT_LIMIT;
+    const offset = req.query.offset !== undefined ? Number(req.query.offset) : 0;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT || !Number.isInteger(offset) || offset < 0) {
+      return res.status(400).json({ error: `limit must be between 1 and ${MAX_LIMIT} and offset a non-negative integer` });
+    }
+
+    const result = await auditLogModel.query({
+      entityType: entityType as AuditEntityType | undefined,
+      entityId,
+      action: action as AuditAction | undefined,
+      actorId,
+      from,
+      to,
+      limit,
+      offset
+    });
+    res.json({ ...result, limit, offset });
+  } catch (error) {
+    console.error('Error querying audit trail:', error);
+    res.status(500).json({ error: 'Failed to query audit trail' });
+  }
+});
+
+// Recompute the hash chain from the first entry
+router.get('/verify', async (req, res) => {
+  try {
+    const verification = await auditLogModel.verifyChain();
+    if (!verification.valid) {
+      console.warn('⚠️  Audit trail hash chain is broken:', verification.brokenAt);
+    }
+    res.json(verification);
+  } catch (error) {
+    console.error('Error verifying audit trail:', error);
+    res.status(500).json({ error: 'Failed to verify audit trail' });
+  }
+});
+
+export default router;
@@ -0,0 +1,84 @@
+import { Router } from 'express';
+import { UserModel } from '../models/User';
+import { authenticate } from '../middleware/auth';
+import { isAuthDisabled, issueToken, verifyPassword } from '../services/authService';
+
+const router = Router();
+const userModel = new UserModel();
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Error message for an invalid sign-up payload, or null
+ */
+export function validateUserPayload(body: any): string | null {
+  if (typeof body?.email !== 'string' || !/^[^@\s]+@[^@\s]+$/.test(body.email.trim())) {
+    return 'A valid email is required';
+  }
+  if (typeof body.name !== 'string' || !body.name.trim()) {
+    return 'name is required';
+  }
+  if (typeof body.password !== 'string' || body.password.length < MIN_PASSWORD_LENGTH) {
+    return `password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
+
+// Whether sign-in is needed, and whether the first admin still has to be created
+router.get('/status', async (req, res) => {
+  try {
+    const authEnabled = !isAuthDisabled();
+    res.json({ authEnabled, setupRequired: authEnabled && (await userModel.countUsers()) === 0 });
+  } catch (error) {
+    console.error('Error fetching auth status:', error);
+    res.status(500).json({ error: 'Failed to fetch auth status' });
+  }
+});
+
+// Create the first user, who becomes admin; later users are added by admins via /api/users
+router.post('/register', async (req, res) => {
+  try {
+    const validationError = validateUserPayload(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const { email, name, password } = req.body;
+    const user = await userModel.createUser({ email, name, password, role: 'admin' }, true);
+    if (!user) {
+      return res.status(403).json({ error: 'Registration is closed - ask an admin for an account' });
+    }
+
+    console.log('👤 First admin registered:', user.email);
+    res.status(201).json({ user, ...issueToken(user.id) });
+  } catch (error) {
+    console.error('Error registering user:', error);
+    res.status(500).json({ error: 'Failed to register user' });
+  }
+});
+
+router.post('/login', async (req, res) => {
+  try {
+    const { email, password } = req.body || {};
+    if (typeof email !== 'string' || typeof password !== 'string') {
+      return res.status(400).json({ error: 'email and password are required' });
+    }
+
+    const credentials = await userModel.getCredentials(email);
+    if (!credentials || !verifyPassword(password, credentials.passwordHash)) {
+      return res.status(401).json({ error: 'Invalid email or password' });
+    }
+
+    console.log('👤 User signed in:', credentials.user.email);
+    res.json({ user: credentials.user, ...issueToken(credentials.user.id) });
+  } catch (error) {
+    console.error('Error signing in:', error);
+    res.status(500).json({ error: 'Failed to sign in' });
+  }
+});
+
+router.get('/me', authenticate, (req, res) => {
+  res.json({ user: req.user });
+});
+
+export default router;
@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import AIChatService from '../services/aiChatService';
 import { ChatRequest } from '../types';
+import { requireRole } from '../middleware/auth';
 
 const router = Router();
 
@@ -17,7 +18,7 @@ const getChatService = (): AIChatService => {
  * POST /api/chat
  * Process a chat message and return AI response with actions
  */
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', requireRole('designer'), async (req: Request, res: Response) => {
   try {
     const chatRequest: ChatRequest = req.body;
 
@@ -84,7 +85,7 @@ router.get('/history/:diagramId', async (req: Request, res: Response) => {
  * DELETE /api/chat/history/:diagramId
  * Clear chat history for a specific diagram
  */
-router.delete('/history/:diagramId', async (req: Request, res: Response) => {
+router.delete('/history/:diagramId', requireRole('designer'), async (req: Request, res: Response) => {
   try {
     const { diagramId } = req.params;
 
@@ -3,17 +3,136 @@ import Neo4jService from '../config/database';
 import {
   EQUIPMENT_CATALOG,
   DEFAULT_COST_SETTINGS,
-  REGIONAL_FACTORS,
-  CURRENCY_RATES,
-  calculateRoomCost,
+  buildProjectCostEstimate,
   getEquipmentForRoomType
 } from '../config/costConfiguration';
-import { CostEstimationSettings, ProjectCostEstimate, CostBreakdown } from '../../../shared/types';
+import {
+  CostEstimationSettings,
+  ProjectCostEstimate,
+  CleanroomCostProfile,
+  CostRateKind,
+  CostRateTableReference,
+  EffectiveCostRates
+} from '../../../shared/types';
 import { asyncHandler } from '../middleware/errorHandler';
 import costDatabaseService, { CleanroomCostProfileInput } from '../services/costDatabaseService';
+import { calculateLifecycleCost, compareLifecycleCosts, lifecycleRoomsError, resolveLifecycleSettings } from '../services/lifecycleCost';
+import { CostComparisonAlternative, comparableEstimateError, compareCostEstimates } from '../services/costComparison';
+import { renderCostEstimateCsv, renderCostEstimateXlsx } from '../services/costExport';
+import { resolveSimulationSettings, simulateProjectCost } from '../services/costSimulation';
+import { requireRole } from '../middleware/auth';
+import { auditedTransaction, changeReason, recordChanges, requireChangeReason } from '../middleware/audit';
+import costRateTableService, { COST_RATE_KINDS, isValidRateDate } from '../services/costRateTableService';
 
 const router = Router();
 
+// `rateTable: { version?, asOf? }` picks the rate table version and date; defaults are the latest version and today
+const parseRateTableReference = (value: unknown): Partial<CostRateTableReference> | string => {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) return 'rateTable must be an object';
+
+  const { version, asOf } = value as Record<string, unknown>;
+  if (version !== undefined && (!Number.isInteger(version) || (version as number) < 1)) {
+    return 'rateTable.version must be a positive integer';
+  }
+  if (asOf !== undefined && !isValidRateDate(asOf)) {
+    return 'rateTable.asOf must be a date (YYYY-MM-DD)';
+  }
+  return { version: version as number | undefined, asOf: asOf as string | undefined };
+};
+
+// Estimate settings with the exchange rate and the named region and escalation index resolved from the rate tables
+const applyRateTable = async (
+  body: { settings?: CostEstimationSettings; rateTable?: unknown }
+): Promise<{ settings: CostEstimationSettings; rateTable: CostRateTableReference } | { error: string }> => {
+  const reference = parseRateTableReference(body.rateTable);
+  if (typeof reference === 'string') return { error: reference };
+  return costRateTableService.applyToSettings(body.settings || DEFAULT_COST_SETTINGS, reference);
+};
+
+// Effective rates for ?version=&asOf=; answers 400/404 itself and returns undefined when they cannot be resolved
+const effectiveRatesFor = async (req: Request, res: Response): Promise<EffectiveCostRates | undefined> => {
+  const reference = parseRateTableReference({
+    version: req.query.version !== undefined ? Number(req.query.version) : undefined,
+    asOf: req.query.asOf
+  });
+  if (typeof reference === 'string') {
+    res.status(400).json({ success: false, error: reference.replace('rateTable.', '') });
+    return undefined;
+  }
+
+  const rates = await costRateTableService.getEffectiveRates(reference);
+  if (!rates) {
+    res.status(404).json({ success: false, error: 'Rate table version not found' });
+  }
+  return rates;
+};
+
+// Neo4j integers and floats as numbers
+const toNumber = (value: any): number => (value && typeof value.toNumber === 'function' ? value.toNumber() : Number(value) || 0);
+
+// Estimate saved with /save-to-kg by the project ID it returned; null when there is none
+const loadSavedEstimate = async (projectId: string): Promise<{ name: string; estimate: ProjectCostEstimate } | null> => {
+  const session = Neo4jService.getInstance().getSession();
+
+  try {
+    const result = await session.run(
+      `MATCH (p:Project) WHERE id(p) = toInteger($projectId) AND p.grandTotal IS NOT NULL
+       OPTIONAL MATCH (p)-[:HAS_ROOM_ESTIMATE]->(r:RoomEstimate)
+       WITH p, collect(r) as rooms
+       OPTIONAL MATCH (p)-[:HAS_EQUIPMENT_ESTIMATE]->(e:EquipmentEstimate)
+       RETURN p, rooms, collect(e) as equipment`,
+      { projectId }
+    );
+    if (result.records.length === 0) return null;
+
+    const project = result.records[0].get('p').properties;
+    const estimate: ProjectCostEstimate = {
+      rooms: result.records[0].get('rooms').map((node: any) => {
+        const room = node.properties;
+        return {
+          roomId: room.roomId,
+          roomName: room.roomName,
+          area: toNumber(room.area),
+          cleanroomClass: room.cleanroomClass || undefined,
+          roomType: room.roomType || undefined,
+          equipment: room.equipment || undefined,
+          costBreakdown: {
+            constructionCost: toNumber(room.constructionCost),
+            hvacCost: toNumber(room.hvacCost),
+            equipmentPurchaseCost: toNumber(room.equipmentPurchaseCost),
+            equipmentInstallationCost: toNumber(room.equipmentInstallationCost),
+            validationCost: toNumber(room.validationCost),
+            equipmentValidationCost: room.equipmentValidationCost === undefined ? undefined : toNumber(room.equipmentValidationCost),
+            otherCosts: 0,
+            totalCost: toNumber(room.totalCost)
+          }
+        };
+      }),
+      equipment: result.records[0].get('equipment').map((node: any) => ({
+        equipmentId: node.properties.equipmentId,
+        equipmentName: node.properties.equipmentName,
+        quantity: toNumber(node.properties.quantity),
+        unitCost: toNumber(node.properties.unitCost),
+        totalCost: toNumber(node.properties.totalCost)
+      })),
+      settings: project.settings ? JSON.parse(project.settings) : { ...DEFAULT_COST_SETTINGS, currency: project.currency },
+      subtotal: toNumber(project.subtotal),
+      contingency: toNumber(project.contingency),
+      grandTotal: toNumber(project.grandTotal),
+      currency: project.currency,
+      estimatedDate: new Date(project.estimatedDate.toString()),
+      rateTable: project.rateTableVersion !== undefined && project.rateTableVersion !== null
+        ? { version: toNumber(project.rateTableVersion), asOf: project.rateTableAsOf }
+        : undefined
+    };
+
+    return { name: project.name, estimate };
+  } finally {
+    await session.close();
+  }
+};
+
 /**
  * GET /api/costs/settings
  * Get current cost estimation settings
@@ -60,16 +179,16 @@ router.get('/settings', asyncHandler(async (req: Request, res: Response) => {
  * POST /api/costs/settings
  * Update cost estimation settings
  */
-router.post('/settings', asyncHandler(async (req: Request, res: Response) => {
+router.post('/settings', requireRole('designer'), requireChangeReason, asyncHandler(async (req: Request, res: Response) => {
   const settings: CostEstimationSettings = req.body;
 
   try {
-    const neo4jService = Neo4jService.getInstance();
-    const session = neo4jService.getSession();
+    await auditedTransaction(req, async tx => {
+      const existing = await tx.run(`MATCH (s:CostSettings {type: 'default'}) RETURN s`);
+      const before = existing.records.length > 0 ? existing.records[0].get('s').properties : null;
 
-    try {
       // Save settings to Neo4j
-      await session.run(
+      const saved = await tx.run(
         `MERGE (s:CostSettings {type: 'default'})
          SET s.currency = $currency,
              s.regionalFactor = $regionalFactor,
@@ -85,14 +204,23 @@ router.post('/settings', asyncHandler(async (req: Request, res: Response) => {
         }
       );
 
-      res.json({
-        success: true,
-        message: 'Settings updated successfully',
-        settings
-      });
-    } finally {
-      await session.close();
-    }
+      return {
+        result: undefined,
+        changes: [{
+          action: before ? 'update' : 'create',
+          entityType: 'costSettings',
+          entityId: 'default',
+          before,
+          after: saved.records[0].get('s').properties
+        }]
+      };
+    });
+
+    res.json({
+      success: true,
+      message: 'Settings updated successfully',
+      settings
+    });
   } catch (error) {
     res.status(500).json({
       success: false,
@@ -145,11 +273,21 @@ router.get('/database/cleanroom-costs', asyncHandler(async (_req: Request, res:
   }
 }));
 
+// Profiles are upserted by ID or cleanroom class; `before` is the profile that was replaced, if any
+const recordCostProfileChange = (req: Request) => (before: CleanroomCostProfile | undefined, profile: CleanroomCostProfile) =>
+  recordChanges(req, [{
+    action: before ? 'update' : 'create',
+    entityType: 'cleanroomCostProfile',
+    entityId: profile.id,
+    before: before ? { ...before } : null,
+    after: profile
+  }]);
+
 /**
  * POST /api/costs/database/cleanroom-costs
  * Create a new cleanroom cost profile
  */
-router.post('/database/cleanroom-costs', asyncHandler(async (req: Request, res: Response) => {
+router.post('/database/cleanroom-costs', requireRole('designer'), requireChangeReason, asyncHandler(async (req: Request, res: Response) => {
   const payload = req.body as CleanroomCostProfileInput;
 
   if (!payload.cleanroomClass) {
@@ -160,7 +298,7 @@ router.post('/database/cleanroom-costs', asyncHandler(async (req: Request, res:
   }
 
   try {
-    const profile = await costDatabaseService.upsertCleanroomCostProfile(payload);
+    const profile = await costDatabaseService.upsertCleanroomCostProfile(payload, recordCostProfileChange(req));
     res.json({
       success: true,
       profile
@@ -178,12 +316,12 @@ router.post('/database/cleanroom-costs', asyncHandler(async (req: Request, res:
  * PUT /api/costs/database/cleanroom-costs/:id
  * Update an existing cleanroom cost profile
  */
-router.put('/database/cleanroom-costs/:id', asyncHandler(async (req: Request, res: Response) => {
+router.put('/database/cleanroom-costs/:id', requireRole('designer'), requireChangeReason, asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   const payload = { ...req.body, id } as CleanroomCostProfileInput;
 
   try {
-    const profile = await costDatabaseService.upsertCleanroomCostProfile(payload);
+    const profile = await costDatabaseService.upsertCleanroomCostProfile(payload, recordCostProfileChange(req));
     res.json({
       success: true,
       profile
@@ -201,10 +339,12 @@ router.put('/database/cleanroom-costs/:id', asyncHandler(async (req: Request, re
  * DELETE /api/costs/database/cleanroom-costs/:id
  * Remove a cleanroom cost profile
  */
-router.delete('/database/cleanroom-costs/:id', asyncHandler(async (req: Request, res: Response) => {
+router.delete('/database/cleanroom-costs/:id', requireRole('designer'), requireChangeReason, asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   try {
-    await costDatabaseService.deleteCleanroomCostProfile(id);
+    await costDatabaseService.deleteCleanroomCostProfile(id, before => recordChanges(req, [
+      { action: 'delete', entityType: 'cleanroomCostProfile', entityId: id, before: { ...before }, after: null }
+    ]));
     res.json({
       success: true,
       message: 'Profile deleted'
@@ -220,10 +360,11 @@ router.delete('/database/cleanroom-costs/:id', asyncHandler(async (req: Request,
 
 /**
  * POST /api/costs/calculate
- * Calculate costs for a given layout
+ * Calculate costs for a given layout. With `simulation`, also a Monte Carlo simulation of the
+ * subtotal over cost factor ranges: P10/P50/P90 and the rooms and factors driving the spread.
  */
 router.post('/calculate', asyncHandler(async (req: Request, res: Response) => {
-  const { rooms, settings = DEFAULT_COST_SETTINGS } = req.body;
+  const { rooms } = req.body;
 
   if (!rooms || !Array.isArray(rooms)) {
     return res.status(400).json({
@@ -232,87 +373,249 @@ router.post('/calculate', asyncHandler(async (req: Request, res: Response) => {
     });
   }
 
-  const projectCostEstimate: ProjectCostEstimate = {
-    rooms: [],
-    equipment: [],
-    settings,
-    subtotal: 0,
-    contingency: 0,
-    grandTotal: 0,
-    currency: settings.currency,
-    estimatedDate: new Date()
-  };
+  const simulation = req.body.simulation === undefined ? null : resolveSimulationSettings(req.body.simulation);
+  if (simulation && 'error' in simulation) {
+    return res.status(400).json({ success: false, error: simulation.error });
+  }
+
+  const rates = await applyRateTable(req.body);
+  if ('error' in rates) {
+    return res.status(400).json({ success: false, error: rates.error });
+  }
+  const { settings, rateTable } = rates;
 
   const cleanroomOverrides = await costDatabaseService.getCleanroomCostFactorsMap();
+  const projectCostEstimate = buildProjectCostEstimate(rooms, settings, cleanroomOverrides, rateTable);
 
-  // Calculate costs for each room
-  for (const room of rooms) {
-    const { area, cleanroomClass, roomType, equipment = [] } = room;
+  res.json({
+    success: true,
+    estimate: projectCostEstimate,
+    ...(simulation ? { simulation: simulateProjectCost(rooms, settings, simulation.settings, cleanroomOverrides) } : {})
+  });
+}));
 
-    if (!area || !cleanroomClass || !roomType) {
-      continue; // Skip incomplete room data
-    }
+const EXPORT_FORMATS = ['xlsx', 'csv'];
 
-    const normalizedClass = cleanroomClass?.toUpperCase?.() || cleanroomClass;
-    const customFactors = normalizedClass ? cleanroomOverrides[normalizedClass] : undefined;
-    const roomCostData = calculateRoomCost(area, cleanroomClass, roomType, settings, customFactors);
-
-    // Calculate equipment costs for this room
-    let equipmentPurchaseCost = 0;
-    let equipmentInstallationCost = 0;
-    let equipmentValidationCost = 0;
-
-    for (const equipmentId of equipment) {
-      const equipmentItem = EQUIPMENT_CATALOG.find(e => e.id === equipmentId);
-      if (equipmentItem) {
-        equipmentPurchaseCost += equipmentItem.purchaseCost * settings.regionalFactor * settings.escalationFactor;
-        equipmentInstallationCost += equipmentItem.installationCost * settings.regionalFactor * settings.escalationFactor;
-        equipmentValidationCost += equipmentItem.validationCost * settings.regionalFactor * settings.escalationFactor;
-
-        // Add to equipment list
-        const existingEquipment = projectCostEstimate.equipment.find(e => e.equipmentId === equipmentId);
-        if (existingEquipment) {
-          existingEquipment.quantity += 1;
-          existingEquipment.totalCost += equipmentItem.purchaseCost + equipmentItem.installationCost + equipmentItem.validationCost;
-        } else {
-          projectCostEstimate.equipment.push({
-            equipmentId: equipmentItem.id,
-            equipmentName: equipmentItem.name,
-            quantity: 1,
-            unitCost: equipmentItem.purchaseCost,
-            totalCost: equipmentItem.purchaseCost + equipmentItem.installationCost + equipmentItem.validationCost
-          });
-        }
-      }
-    }
+/**
+ * POST /api/costs/export
+ * Estimate of a layout as an .xlsx workbook with live formulas (format=xlsx, the default)
+ * or as a flat CSV (format=csv). Body as for /calculate, plus format and projectName.
+ */
+router.post('/export', asyncHandler(async (req: Request, res: Response) => {
+  const { rooms, format = 'xlsx', projectName } = req.body;
 
-    const costBreakdown: CostBreakdown = {
-      constructionCost: roomCostData.constructionCost,
-      hvacCost: roomCostData.hvacCost,
-      equipmentPurchaseCost,
-      equipmentInstallationCost,
-      validationCost: roomCostData.validationCost + equipmentValidationCost,
-      otherCosts: 0,
-      totalCost: roomCostData.totalCost + equipmentPurchaseCost + equipmentInstallationCost + equipmentValidationCost
-    };
+  if (!rooms || !Array.isArray(rooms)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid request: rooms array is required'
+    });
+  }
+  if (!EXPORT_FORMATS.includes(format)) {
+    return res.status(400).json({ success: false, error: `format must be one of ${EXPORT_FORMATS.join(', ')}` });
+  }
+  if (projectName !== undefined && typeof projectName !== 'string') {
+    return res.status(400).json({ success: false, error: 'projectName must be a string' });
+  }
 
-    projectCostEstimate.rooms.push({
-      roomId: room.id || room.roomType,
-      roomName: room.name || room.roomType,
-      area,
-      costBreakdown
+  const rates = await applyRateTable(req.body);
+  if ('error' in rates) {
+    return res.status(400).json({ success: false, error: rates.error });
+  }
+
+  const cleanroomOverrides = await costDatabaseService.getCleanroomCostFactorsMap();
+  const estimate = buildProjectCostEstimate(rooms, rates.settings, cleanroomOverrides, rates.rateTable);
+  if (estimate.rooms.length === 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid request: no room has an area, cleanroom class and room type'
     });
+  }
+
+  const rateTable = await costRateTableService.getTable(rates.rateTable.version);
+  const input = { projectName, estimate, cleanroomOverrides, baseCurrency: rateTable!.baseCurrency };
+  const baseName = (projectName || 'cost-estimate').replace(/[^A-Za-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'cost-estimate';
+  const fileName = `${baseName}-${new Date().toISOString().slice(0, 10)}.${format}`;
 
-    projectCostEstimate.subtotal += costBreakdown.totalCost;
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  if (format === 'csv') {
+    res.type('text/csv; charset=utf-8').send(renderCostEstimateCsv(input));
+  } else {
+    res.type('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet').send(renderCostEstimateXlsx(input));
   }
+}));
 
-  // Calculate contingency and grand total
-  projectCostEstimate.contingency = projectCostEstimate.subtotal * (settings.contingencyPercentage / 100);
-  projectCostEstimate.grandTotal = projectCostEstimate.subtotal + projectCostEstimate.contingency;
+const MAX_LIFECYCLE_OPTIONS = 10;
+
+/**
+ * POST /api/costs/lifecycle
+ * Lifecycle cost (CAPEX + OPEX) of a layout over a horizon, with yearly cash flows and NPV
+ */
+router.post('/lifecycle', asyncHandler(async (req: Request, res: Response) => {
+  const { rooms, lifecycle } = req.body;
+
+  if (!rooms || !Array.isArray(rooms)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid request: rooms array is required'
+    });
+  }
+
+  const roomsError = lifecycleRoomsError(rooms);
+  if (roomsError) {
+    return res.status(400).json({ success: false, error: roomsError });
+  }
+
+  const resolved = resolveLifecycleSettings(lifecycle);
+  if ('error' in resolved) {
+    return res.status(400).json({ success: false, error: resolved.error });
+  }
+  const rates = await applyRateTable(req.body);
+  if ('error' in rates) {
+    return res.status(400).json({ success: false, error: rates.error });
+  }
+
+  const cleanroomOverrides = await costDatabaseService.getCleanroomCostFactorsMap();
 
   res.json({
     success: true,
-    estimate: projectCostEstimate
+    lifecycle: calculateLifecycleCost(rooms, rates.settings, resolved.settings, cleanroomOverrides),
+    rateTable: rates.rateTable
+  });
+}));
+
+/**
+ * POST /api/costs/lifecycle/compare
+ * Lifecycle costs of several design options under the same assumptions, ranked by NPV
+ */
+router.post('/lifecycle/compare', asyncHandler(async (req: Request, res: Response) => {
+  const { options, lifecycle } = req.body;
+
+  if (!Array.isArray(options) || options.length === 0 || options.length > MAX_LIFECYCLE_OPTIONS) {
+    return res.status(400).json({
+      success: false,
+      error: `Invalid request: options must hold 1 to ${MAX_LIFECYCLE_OPTIONS} design options`
+    });
+  }
+  if (options.some((option: any) => !option || !Array.isArray(option.rooms))) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid request: every option requires a rooms array'
+    });
+  }
+
+  const roomsError = options.map((option: any, index: number) => lifecycleRoomsError(option.rooms, `options[${index}].rooms`)).find(Boolean);
+  if (roomsError) {
+    return res.status(400).json({ success: false, error: roomsError });
+  }
+
+  const resolved = resolveLifecycleSettings(lifecycle);
+  if ('error' in resolved) {
+    return res.status(400).json({ success: false, error: resolved.error });
+  }
+  const rates = await applyRateTable(req.body);
+  if ('error' in rates) {
+    return res.status(400).json({ success: false, error: rates.error });
+  }
+
+  const cleanroomOverrides = await costDatabaseService.getCleanroomCostFactorsMap();
+
+  res.json({
+    success: true,
+    comparison: compareLifecycleCosts(options, rates.settings, resolved.settings, cleanroomOverrides),
+    rateTable: rates.rateTable
+  });
+}));
+
+const MAX_COMPARISON_ALTERNATIVES = 10;
+
+/**
+ * POST /api/costs/compare
+ * Compare layouts or saved estimates side by side, with deltas per room, cost category and
+ * cleanroom class, and an explanation of each difference. Every alternative gives either
+ * `rooms` (calculated with the request's settings and rate table), `estimateId` (saved with
+ * /save-to-kg) or an `estimate` returned by /calculate.
+ */
+router.post('/compare', asyncHandler(async (req: Request, res: Response) => {
+  const { alternatives, baselineId } = req.body;
+
+  if (!Array.isArray(alternatives) || alternatives.length < 2 || alternatives.length > MAX_COMPARISON_ALTERNATIVES) {
+    return res.status(400).json({
+      success: false,
+      error: `Invalid request: alternatives must hold 2 to ${MAX_COMPARISON_ALTERNATIVES} layouts or estimates`
+    });
+  }
+  if (alternatives.some((alternative: any) =>
+    !alternative || [alternative.rooms, alternative.estimateId, alternative.estimate].filter(value => value !== undefined).length !== 1
+    || (alternative.rooms !== undefined && !Array.isArray(alternative.rooms))
+    || (alternative.estimate !== undefined && !Array.isArray(alternative.estimate?.rooms)))) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid request: every alternative requires exactly one of a rooms array, an estimateId or an estimate'
+    });
+  }
+
+  const rates = await applyRateTable(req.body);
+  if ('error' in rates) {
+    return res.status(400).json({ success: false, error: rates.error });
+  }
+
+  const cleanroomOverrides = await costDatabaseService.getCleanroomCostFactorsMap();
+  const resolved: CostComparisonAlternative[] = [];
+
+  for (const [index, alternative] of alternatives.entries()) {
+    const id = alternative.id || `alternative-${index + 1}`;
+
+    if (alternative.rooms) {
+      resolved.push({
+        id,
+        name: alternative.name || `Alternative ${index + 1}`,
+        source: 'rooms',
+        estimate: buildProjectCostEstimate(alternative.rooms, rates.settings, cleanroomOverrides, rates.rateTable)
+      });
+    } else if (alternative.estimateId !== undefined) {
+      let saved: Awaited<ReturnType<typeof loadSavedEstimate>>;
+      try {
+        saved = await loadSavedEstimate(String(alternative.estimateId));
+      } catch (error) {
+        return res.status(503).json({
+          success: false,
+          error: 'Saved estimates are not available (database not connected)',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+      if (!saved) {
+        return res.status(404).json({ success: false, error: `Saved estimate ${alternative.estimateId} not found` });
+      }
+      resolved.push({ id, name: alternative.name || saved.name, source: 'saved', estimate: saved.estimate });
+    } else {
+      resolved.push({ id, name: alternative.name || `Alternative ${index + 1}`, source: 'estimate', estimate: alternative.estimate });
+    }
+  }
+
+  for (const alternative of resolved) {
+    const estimateError = comparableEstimateError(alternative.estimate);
+    if (estimateError) {
+      return res.status(400).json({ success: false, error: `Invalid request: estimate of ${alternative.name}: ${estimateError}` });
+    }
+  }
+
+  const currencies = [...new Set(resolved.map(alternative => alternative.estimate.currency))];
+  if (currencies.length > 1) {
+    return res.status(400).json({
+      success: false,
+      error: `Estimates in different currencies (${currencies.join(', ')}) cannot be compared; recalculate them in one currency`
+    });
+  }
+  if (new Set(resolved.map(alternative => alternative.id)).size !== resolved.length) {
+    return res.status(400).json({ success: false, error: 'Invalid request: alternative ids must be unique' });
+  }
+  if (baselineId !== undefined && !resolved.some(alternative => alternative.id === baselineId)) {
+    return res.status(400).json({ success: false, error: `baselineId ${baselineId} is not one of the alternatives` });
+  }
+
+  res.json({
+    success: true,
+    comparison: compareCostEstimates(resolved, baselineId)
   });
 }));
 
@@ -320,7 +623,7 @@ router.post('/calculate', asyncHandler(async (req: Request, res: Response) => {
  * POST /api/costs/save-to-kg
  * Save cost estimate to Neo4j knowledge graph
  */
-router.post('/save-to-kg', asyncHandler(async (req: Request, res: Response) => {
+router.post('/save-to-kg', requireRole('designer'), asyncHandler(async (req: Request, res: Response) => {
   const { projectName, estimate }: { projectName: string; estimate: ProjectCostEstimate } = req.body;
 
   if (!projectName || !estimate) {
@@ -341,6 +644,9 @@ router.post('/save-to-kg', asyncHandler(async (req: Request, res: Response) => {
            name: $projectName,
            estimatedDate: datetime($estimatedDate),
            currency: $currency,
+           settings: $settings,
+           rateTableVersion: $rateTableVersion,
+           rateTableAsOf: $rateTableAsOf,
            subtotal: $subtotal,
            contingency: $contingency,
            grandTotal: $grandTotal,
@@ -352,11 +658,15 @@ router.post('/save-to-kg', asyncHandler(async (req: Request, res: Response) => {
            roomId: room.roomId,
            roomName: room.roomName,
            area: room.area,
+           cleanroomClass: room.cleanroomClass,
+           roomType: room.roomType,
+           equipment: room.equipment,
            constructionCost: room.costBreakdown.constructionCost,
            hvacCost: room.costBreakdown.hvacCost,
            equipmentPurchaseCost: room.costBreakdown.equipmentPurchaseCost,
            equipmentInstallationCost: room.costBreakdown.equipmentInstallationCost,
            validationCost: room.costBreakdown.validationCost,
+           equipmentValidationCost: room.costBreakdown.equipmentValidationCost,
            totalCost: room.costBreakdown.totalCost
          })
          CREATE (p)-[:HAS_ROOM_ESTIMATE]->(r)
@@ -373,8 +683,11 @@ router.post('/save-to-kg', asyncHandler(async (req: Request, res: Response) => {
          RETURN p`,
         {
           projectName,
-          estimatedDate: estimate.estimatedDate.toISOString(),
+          estimatedDate: new Date(estimate.estimatedDate).toISOString(),
           currency: estimate.currency,
+          settings: JSON.stringify(estimate.settings),
+          rateTableVersion: estimate.rateTable?.version ?? null,
+          rateTableAsOf: estimate.rateTable?.asOf ?? null,
           subtotal: estimate.subtotal,
           contingency: estimate.contingency,
           grandTotal: estimate.grandTotal,
@@ -442,6 +755,7 @@ router.get('/historical', asyncHandler(async (req: Request, res: Response) => {
       const result = await session.run(query, params);
 
       const historicalData = result.records.map(record => ({
+        projectId: record.get('p').identity.toString(), // estimateId for /compare
         project: record.get('p').properties,
         room: record.get('r').properties
       }));
@@ -462,14 +776,140 @@ router.get('/historical', asyncHandler(async (req: Request, res: Response) => {
   }
 }));
 
+/**
+ * GET /api/costs/rate-tables
+ * Rate table versions (without their rates), oldest first, and the latest version in full
+ */
+router.get('/rate-tables', asyncHandler(async (_req: Request, res: Response) => {
+  const versions = await costRateTableService.getVersions();
+  res.json({
+    success: true,
+    versions: versions.map(({ version, createdAt, createdBy, note }) => ({ version, createdAt, createdBy, note })),
+    latest: versions[versions.length - 1],
+    metadata: {
+      updatedAt: costRateTableService.getLastUpdated()
+    }
+  });
+}));
+
+/**
+ * GET /api/costs/rate-tables/effective
+ * Rates in effect on ?asOf= (default today) in ?version= (default the latest)
+ */
+router.get('/rate-tables/effective', asyncHandler(async (req: Request, res: Response) => {
+  const rates = await effectiveRatesFor(req, res);
+  if (!rates) return;
+
+  res.json({
+    success: true,
+    rates
+  });
+}));
+
+/**
+ * GET /api/costs/rate-tables/:version
+ * One rate table version with all its dated entries
+ */
+router.get('/rate-tables/:version', asyncHandler(async (req: Request, res: Response) => {
+  const table = await costRateTableService.getTable(Number(req.params.version));
+
+  if (!table) {
+    return res.status(404).json({ success: false, error: 'Rate table version not found' });
+  }
+
+  res.json({
+    success: true,
+    table
+  });
+}));
+
+// Kind and key of a rate from the URL; key is a currency code, region or escalation index name
+const parseRateTarget = (req: Request): { kind: CostRateKind; key: string } | string => {
+  const kind = req.params.kind as CostRateKind;
+  if (!COST_RATE_KINDS.includes(kind)) {
+    return `kind must be one of ${COST_RATE_KINDS.join(', ')}`;
+  }
+  const key = kind === 'currencyRates' ? req.params.key.trim().toUpperCase() : req.params.key.trim();
+  return key ? { kind, key } : 'A rate key is required';
+};
+
+/**
+ * PUT /api/costs/rate-tables/:kind/:key
+ * Add or replace the value of a rate from an effective date: { effectiveDate, value }
+ */
+router.put('/rate-tables/:kind/:key', requireRole('designer'), requireChangeReason, asyncHandler(async (req: Request, res: Response) => {
+  const target = parseRateTarget(req);
+  const { effectiveDate, value } = req.body;
+
+  if (typeof target === 'string') {
+    return res.status(400).json({ success: false, error: target });
+  }
+  if (!isValidRateDate(effectiveDate)) {
+    return res.status(400).json({ success: false, error: 'effectiveDate must be a date (YYYY-MM-DD)' });
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    return res.status(400).json({ success: false, error: 'value must be a positive number' });
+  }
+
+  const { table } = await costRateTableService.upsertEntry(target.kind, target.key, { effectiveDate, value }, {
+    createdBy: req.user?.name,
+    note: changeReason(req) || undefined
+  }, (before, after) => recordChanges(req, [{
+    action: before ? 'update' : 'create',
+    entityType: 'costRateTable',
+    entityId: `${target.kind}:${target.key}`,
+    before,
+    after
+  }]));
+
+  res.json({
+    success: true,
+    table
+  });
+}));
+
+/**
+ * DELETE /api/costs/rate-tables/:kind/:key/:effectiveDate
+ * Remove the value of a rate from one effective date
+ */
+router.delete('/rate-tables/:kind/:key/:effectiveDate', requireRole('designer'), requireChangeReason, asyncHandler(async (req: Request, res: Response) => {
+  const target = parseRateTarget(req);
+  if (typeof target === 'string') {
+    return res.status(400).json({ success: false, error: target });
+  }
+
+  const result = await costRateTableService.deleteEntry(target.kind, target.key, req.params.effectiveDate, {
+    createdBy: req.user?.name,
+    note: changeReason(req) || undefined
+  }, (before, after) => recordChanges(req, [{
+    action: after ? 'update' : 'delete',
+    entityType: 'costRateTable',
+    entityId: `${target.kind}:${target.key}`,
+    before,
+    after
+  }]));
+  if (!result) {
+    return res.status(404).json({ success: false, error: 'Rate entry not found' });
+  }
+
+  res.json({
+    success: true,
+    table: result.table
+  });
+}));
+
 /**
  * GET /api/costs/regional-factors
  * Get regional cost adjustment factors
  */
 router.get('/regional-factors', asyncHandler(async (req: Request, res: Response) => {
+  const rates = await effectiveRatesFor(req, res);
+  if (!rates) return;
+
   res.json({
     success: true,
-    factors: REGIONAL_FACTORS
+    factors: rates.regionalFactors,
+    rateTable: { version: rates.version, asOf: rates.asOf }
   });
 }));
 
@@ -478,9 +918,14 @@ router.get('/regional-factors', asyncHandler(async (req: Request, res: Response)
  * Get currency conversion rates
  */
 router.get('/currency-rates', asyncHandler(async (req: Request, res: Response) => {
+  const rates = await effectiveRatesFor(req, res);
+  if (!rates) return;
+
   res.json({
     success: true,
-    rates: CURRENCY_RATES
+    rates: rates.currencyRates,
+    baseCurrency: rates.baseCurrency,
+    rateTable: { version: rates.version, asOf: rates.asOf }
   });
 }));
 
@@ -1,27 +1,89 @@
 import { Router } from 'express';
-import { Session } from 'neo4j-driver';
+import { Session, Transaction } from 'neo4j-driver';
 import Neo4jService from '../config/database';
-import { Diagram } from '../types';
+import { NodeGroupModel, validateGroupPayload } from '../models/NodeGroup';
+import { diffDiagramContent } from '../services/diagramDiff';
+import { checkIfMatch, toETag } from '../utils/concurrency';
+import { Diagram, DiagramSaveConflict, FunctionalArea, NodeGroup, SpatialRelationship } from '../types';
+import { ProjectModel } from '../models/Project';
+import { RuleSetModel } from '../models/RuleSet';
+import { loadBodyProjectRole, loadResourceProjectRole, requireRole } from '../middleware/auth';
 
 const router = Router();
+const nodeGroupModel = new NodeGroupModel();
+const projectModel = new ProjectModel();
+const ruleSetModel = new RuleSetModel();
+
+// Diagrams owned by a project are only open to its members, with their project role
+router.param('id', loadResourceProjectRole('Diagram'));
+
+// Areas and relationships of a saved diagram
+const loadDiagramContent = async (
+  runner: Session | Transaction,
+  id: string
+): Promise<{ nodes: FunctionalArea[]; relationships: SpatialRelationship[] }> => {
+  const nodesResult = await runner.run(
+    `MATCH (d:Diagram {id: $id})-[:CONTAINS]->(fa:FunctionalArea)
+     RETURN fa`,
+    { id }
+  );
+
+  const nodes = nodesResult.records.map(record => record.get('fa').properties);
+
+  const relationshipsResult = await runner.run(
+    `MATCH (d:Diagram {id: $id})-[:CONTAINS]->(fa1:FunctionalArea)
+     MATCH (d)-[:CONTAINS]->(fa2:FunctionalArea)
+     MATCH (fa1)-[r]->(fa2)
+     RETURN r, fa1.id as fromId, fa2.id as toId, type(r) as relType`,
+    { id }
+  );
+
+  console.log('🔍 Found relationships:', relationshipsResult.records.length);
+
+  const relationships = relationshipsResult.records.map(record => ({
+    id: record.get('r').properties.id,
+    type: record.get('relType'),
+    fromId: record.get('fromId'),
+    toId: record.get('toId'),
+    priority: record.get('r').properties.priority,
+    reason: record.get('r').properties.reason,
+    doorType: record.get('r').properties.doorType,
+    minDistance: record.get('r').properties.minDistance,
+    maxDistance: record.get('r').properties.maxDistance,
+    flowDirection: record.get('r').properties.flowDirection,
+    flowType: record.get('r').properties.flowType
+  }));
+
+  return { nodes, relationships };
+};
 
 // Get all diagrams
 router.get('/', async (req, res) => {
   const session = Neo4jService.getInstance().getDriver().session();
   
   try {
+    // Only diagrams the user may open; ?projectId= narrows the list to one project
     const result = await session.run(
       `MATCH (d:Diagram)
+       OPTIONAL MATCH (p:Project)-[:OWNS]->(d)
+       WITH d, p
+       WHERE ($projectId IS NULL OR p.id = $projectId)
+         AND ($isAdmin OR p IS NULL OR EXISTS { MATCH (:User {id: $userId})-[:MEMBER_OF]->(p) })
        OPTIONAL MATCH (d)-[:CONTAINS]->(fa:FunctionalArea)
-       WITH d, collect(fa) as nodes
+       WITH d, p.id as projectId, collect(fa) as nodes
        UNWIND CASE WHEN nodes = [] THEN [null] ELSE nodes END as node
        OPTIONAL MATCH (node)-[r]-(other:FunctionalArea)
        WHERE other IN nodes
-       WITH d, nodes, collect(DISTINCT r) as relationships
-       RETURN d.id as id, d.name as name, d.createdAt as createdAt, d.updatedAt as updatedAt,
+       WITH d, projectId, nodes, collect(DISTINCT r) as relationships
+       RETURN d.id as id, d.name as name, d.createdAt as createdAt, d.updatedAt as updatedAt, projectId,
               size(nodes) as nodeCount, size(relationships)/2 as relationshipCount,
               [n IN nodes | {id: n.id, name: n.name, category: n.category, cleanroomClass: n.cleanroomClass, x: n.x, y: n.y, width: n.width, height: n.height}] as nodeList
-       ORDER BY d.updatedAt DESC`
+       ORDER BY d.updatedAt DESC`,
+      {
+        projectId: typeof req.query.projectId === 'string' ? req.query.projectId : null,
+        userId: req.user!.id,
+        isAdmin: req.user!.role === 'admin'
+      }
     );
     
     const diagrams = result.records.map(record => {
@@ -31,6 +93,7 @@ router.get('/', async (req, res) => {
       return {
         id: record.get('id'),
         name: record.get('name'),
+        projectId: record.get('projectId'),
         createdAt: createdAt ? new Date(createdAt.toString()).toISOString() : null,
         updatedAt: updatedAt ? new Date(updatedAt.toString()).toISOString() : null,
         nodes: record.get('nodeList') || [],
@@ -145,7 +208,9 @@ router.get('/:id', async (req, res) => {
     
     // Get diagram metadata
     const diagramResult = await session.run(
-      'MATCH (d:Diagram {id: $id}) RETURN d',
+      `MATCH (d:Diagram {id: $id})
+       OPTIONAL MATCH (p:Project)-[:OWNS]->(d)
+       RETURN d, p.id as projectId`,
       { id }
     );
     
@@ -154,53 +219,29 @@ router.get('/:id', async (req, res) => {
     }
     
     const diagram = diagramResult.records[0].get('d').properties;
-    
-    // Get diagram nodes
-    const nodesResult = await session.run(
-      `MATCH (d:Diagram {id: $id})-[:CONTAINS]->(fa:FunctionalArea)
-       RETURN fa`,
-      { id }
-    );
-    
-    const nodes = nodesResult.records.map(record => record.get('fa').properties);
-    
-    // Get diagram relationships
-    const relationshipsResult = await session.run(
-      `MATCH (d:Diagram {id: $id})-[:CONTAINS]->(fa1:FunctionalArea)
-       MATCH (d)-[:CONTAINS]->(fa2:FunctionalArea)
-       MATCH (fa1)-[r]->(fa2)
-       RETURN r, fa1.id as fromId, fa2.id as toId, type(r) as relType`,
-      { id }
-    );
+    const projectId = diagramResult.records[0].get('projectId');
+    const revision = Number(diagram.revision ?? 0);
 
-    console.log('🔍 Found relationships:', relationshipsResult.records.length);
+    const { nodes, relationships } = await loadDiagramContent(session, id);
 
-    const relationships = relationshipsResult.records.map(record => ({
-      id: record.get('r').properties.id,
-      type: record.get('relType'),
-      fromId: record.get('fromId'),
-      toId: record.get('toId'),
-      priority: record.get('r').properties.priority,
-      reason: record.get('r').properties.reason,
-      doorType: record.get('r').properties.doorType,
-      minDistance: record.get('r').properties.minDistance,
-      maxDistance: record.get('r').properties.maxDistance,
-      flowDirection: record.get('r').properties.flowDirection,
-      flowType: record.get('r').properties.flowType
-    }));
+    const groups = await nodeGroupModel.getGroups({ ownerType: 'diagram', ownerId: id });
 
-    console.log('🔍 Returning diagram with:', { nodeCount: nodes.length, relationshipCount: relationships.length });
+    console.log('🔍 Returning diagram with:', { nodeCount: nodes.length, relationshipCount: relationships.length, groupCount: groups.length });
     
     const fullDiagram: Diagram = {
       id: diagram.id,
       name: diagram.name,
       nodes,
       relationships,
+      groups,
+      revision,
+      projectId,
+      ruleSetVersion: diagram.ruleSetVersion ?? null,
       createdAt: diagram.createdAt ? new Date(diagram.createdAt.toString()).toISOString() : null,
       updatedAt: diagram.updatedAt ? new Date(diagram.updatedAt.toString()).toISOString() : null
     };
     
-    res.json(fullDiagram);
+    res.set('ETag', toETag(revision)).json(fullDiagram);
   } catch (error) {
     console.error('Error fetching diagram:', error);
     res.status(500).json({ error: 'Failed to fetch diagram' });
@@ -210,11 +251,16 @@ router.get('/:id', async (req, res) => {
 });
 
 // Create new diagram
-router.post('/', async (req, res) => {
+router.post('/', loadBodyProjectRole, requireRole('designer'), async (req, res) => {
   const session = Neo4jService.getInstance().getDriver().session();
   
   try {
-    const { name, nodes, relationships } = req.body;
+    const { name, nodes, relationships, groups, projectId } = req.body;
+
+    const groupError = validateGroupPayload(groups);
+    if (groupError) {
+      return res.status(400).json({ error: groupError });
+    }
     
     // Debug: Log what we're actually saving
     console.log('🔍 Saving diagram:', { name, nodeCount: nodes.length, relationshipCount: relationships.length });
@@ -229,6 +275,7 @@ router.post('/', async (req, res) => {
         `CREATE (d:Diagram {
           id: randomUUID(),
           name: $name,
+          revision: 1,
           createdAt: datetime(),
           updatedAt: datetime()
         })
@@ -239,6 +286,10 @@ router.post('/', async (req, res) => {
       const diagramId = diagramResult.records[0].get('id');
       console.log('🔍 Created diagram with ID:', diagramId);
 
+      if (projectId) {
+        await projectModel.assignResource(tx, 'Diagram', diagramId, projectId);
+      }
+
       // Create functional area nodes and link them to the diagram (BATCH OPERATION)
       if (nodes.length > 0) {
         await tx.run(
@@ -341,15 +392,26 @@ router.post('/', async (req, res) => {
         }
         console.log(`🚀 Batch created ${relationships.length} relationships in ${Object.keys(relsByType).length} queries`);
       }
+
+      // Groups copied from another diagram get new IDs, so send the saved groups back
+      let savedGroups: NodeGroup[] | undefined;
+      if (groups) {
+        savedGroups = await nodeGroupModel.replaceGroups(tx, { ownerType: 'diagram', ownerId: diagramId }, groups);
+        console.log(`🚀 Saved ${groups.length} node groups`);
+      }
       
       await tx.commit();
       
       console.log('🔍 Diagram saved successfully with ID:', diagramId);
-      res.status(201).json({ 
+      res.status(201).set('ETag', toETag(1)).json({ 
         id: diagramId, 
         message: 'Diagram saved successfully', 
+        revision: 1,
+        projectId: projectId || null,
         nodeCount: nodes.length, 
-        relationshipCount: relationships.length 
+        relationshipCount: relationships.length,
+        groupCount: groups?.length || 0,
+        groups: savedGroups
       });
     } catch (error) {
       await tx.rollback();
@@ -364,16 +426,56 @@ router.post('/', async (req, res) => {
 });
 
 // Update diagram
-router.put('/:id', async (req, res) => {
+router.put('/:id', requireRole('designer'), async (req, res) => {
   const session = Neo4jService.getInstance().getDriver().session();
   
   try {
     const { id } = req.params;
-    const { name, nodes, relationships } = req.body;
+    const { name, nodes, relationships, groups } = req.body;
+
+    const groupError = validateGroupPayload(groups);
+    if (groupError) {
+      return res.status(400).json({ error: groupError });
+    }
     
     const tx = session.beginTransaction();
     
     try {
+      // Bumping the revision first write-locks the diagram until commit, so concurrent updates queue here
+      const revisionResult = await tx.run(
+        `MATCH (d:Diagram {id: $id})
+         WITH d, coalesce(d.revision, 0) as previous, d.updatedAt as previousUpdatedAt
+         SET d.revision = previous + 1, d.updatedAt = datetime()
+         RETURN previous, previousUpdatedAt`,
+        { id }
+      );
+      const ifMatch = req.get('If-Match');
+      if (revisionResult.records.length === 0 && ifMatch) {
+        await tx.rollback();
+        return res.status(404).json({ error: 'Diagram not found' });
+      }
+
+      const previous = revisionResult.records.length > 0 ? Number(revisionResult.records[0].get('previous')) : 0;
+      const precondition = checkIfMatch(ifMatch, previous);
+      if (!precondition.ok) {
+        const current = await loadDiagramContent(tx, id);
+        const previousUpdatedAt = revisionResult.records[0].get('previousUpdatedAt');
+        await tx.rollback();
+
+        const conflict: DiagramSaveConflict = {
+          error: `Diagram was updated by someone else (revision ${previous}) after the copy being saved was loaded`,
+          diagramId: id,
+          expectedRevision: precondition.expectedRevision,
+          currentRevision: previous,
+          lastModifiedAt: previousUpdatedAt ? new Date(previousUpdatedAt.toString()).toISOString() : null,
+          changes: diffDiagramContent({ nodes, relationships }, current)
+        };
+        console.log('🔍 Diagram save conflict:', { id, expected: precondition.expectedRevision, current: previous });
+        return res.status(409).json(conflict);
+      }
+      // Updates of an unknown diagram without If-Match are still accepted as before, just not revisioned
+      const revision = revisionResult.records.length > 0 ? previous + 1 : undefined;
+
       // Use MERGE to update existing nodes instead of clearing all (BATCH OPERATION)
       if (nodes.length > 0) {
         await tx.run(
@@ -472,10 +574,20 @@ router.put('/:id', async (req, res) => {
         }
         console.log(`🚀 Batch updated ${relationships.length} relationships in ${Object.keys(relsByType).length} queries`);
       }
+
+      // Groups are replaced wholesale; omitting them leaves the saved groups untouched
+      let savedGroups: NodeGroup[] | undefined;
+      if (groups) {
+        savedGroups = await nodeGroupModel.replaceGroups(tx, { ownerType: 'diagram', ownerId: id }, groups);
+        console.log(`🚀 Saved ${groups.length} node groups`);
+      }
       
       await tx.commit();
       
-      res.json({ message: 'Diagram updated successfully' });
+      if (revision) {
+        res.set('ETag', toETag(revision));
+      }
+      res.json({ message: 'Diagram updated successfully', revision, groups: savedGroups });
     } catch (error) {
       await tx.rollback();
       throw error;
@@ -488,8 +600,35 @@ router.put('/:id', async (req, res) => {
   }
 });
 
+// Pin the diagram to a released rule set ({ version }), or follow the latest release ({ version: null })
+router.put('/:id/rule-set', requireRole('designer'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { version } = req.body;
+
+    if (version !== null && !Number.isInteger(version)) {
+      return res.status(400).json({ error: 'version must be a rule set version or null' });
+    }
+    if (version !== null) {
+      const ruleSet = await ruleSetModel.getRuleSet(version);
+      if (!ruleSet || ruleSet.status !== 'released') {
+        return res.status(400).json({ error: `Rule set v${version} does not exist or is not released` });
+      }
+    }
+
+    if (!await ruleSetModel.pin('Diagram', id, version)) {
+      return res.status(404).json({ error: 'Diagram not found' });
+    }
+
+    res.json({ diagramId: id, ruleSetVersion: version });
+  } catch (error) {
+    console.error('Error pinning diagram rule set:', error);
+    res.status(500).json({ error: 'Failed to pin diagram rule set' });
+  }
+});
+
 // Delete diagram
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', requireRole('designer'), async (req, res) => {
   const session = Neo4jService.getInstance().getDriver().session();
   
   try {
@@ -498,8 +637,9 @@ router.delete('/:id', async (req, res) => {
     const result = await session.run(
       `MATCH (d:Diagram {id: $id})
        OPTIONAL MATCH (d)-[:CONTAINS]->(fa:FunctionalArea)
-       DETACH DELETE d, fa
-       RETURN COUNT(d) as deletedCount`,
+       OPTIONAL MATCH (d)-[:HAS_GROUP]->(g:NodeGroup)
+       DETACH DELETE d, fa, g
+       RETURN COUNT(DISTINCT d) as deletedCount`,
       { id }
     );
     
@@ -520,7 +660,7 @@ router.delete('/:id', async (req, res) => {
 });
 
 // Save exploration view (read-only view of existing graph data)
-router.post('/view', async (req, res) => {
+router.post('/view', requireRole('designer'), async (req, res) => {
   const session = Neo4jService.getInstance().getDriver().session();
   
   try {
@@ -582,7 +722,7 @@ router.post('/view', async (req, res) => {
 });
 
 // Cleanup route to remove standalone functional area nodes (leftovers from old saves)
-router.post('/cleanup', async (req, res) => {
+router.post('/cleanup', requireRole('admin'), async (req, res) => {
   const session = Neo4jService.getInstance().getDriver().session();
   
   try {
@@ -606,7 +746,7 @@ router.post('/cleanup', async (req, res) => {
 });
 
 // Cleanup route to remove diagram metadata (if you want functional areas only)
-router.post('/cleanup-diagrams', async (req, res) => {
+router.post('/cleanup-diagrams', requireRole('admin'), async (req, res) => {
   const session = Neo4jService.getInstance().getDriver().session();
   
   try {
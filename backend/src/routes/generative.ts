@@ -6,8 +6,12 @@ import SpatialReasoningService from '../services/spatialReasoningService';
 import {
   LayoutGenerationRequest,
   TemplateInstantiationRequest,
+  LayoutModification,
   Diagram
 } from '../types';
+import { isValidSeed } from '../utils/seededRandom';
+import { requireRole } from '../middleware/auth';
+import { resolveRuleBase } from '../services/ruleBase';
 
 const router = express.Router();
 
@@ -25,7 +29,7 @@ const spatialService = SpatialReasoningService.getInstance();
  * POST /api/generative/generate-layout
  * Generate a complete facility layout from natural language description
  */
-router.post('/generate-layout', async (req, res) => {
+router.post('/generate-layout', requireRole('designer'), async (req, res) => {
   try {
     console.log('🚀 Received layout generation request');
 
@@ -38,6 +42,19 @@ router.post('/generate-layout', async (req, res) => {
       });
     }
 
+    if (request.seed !== undefined && !isValidSeed(request.seed)) {
+      return res.status(400).json({
+        error: 'Seed must be an integer between 0 and 4294967295'
+      });
+    }
+
+    const footprint = request.constraints?.buildingFootprint;
+    if (footprint && !(footprint.width > 0 && footprint.depth > 0)) {
+      return res.status(400).json({
+        error: 'Building footprint width and depth must be positive numbers (meters)'
+      });
+    }
+
     // Generate layout
     const generatedLayout = await generativeService.generateLayout(request);
 
@@ -111,7 +128,7 @@ router.get('/templates/:templateId', async (req, res) => {
  * POST /api/generative/templates/instantiate
  * Instantiate a facility template with parameters
  */
-router.post('/templates/instantiate', async (req, res) => {
+router.post('/templates/instantiate', requireRole('designer'), async (req, res) => {
   try {
     console.log('🏗️  Instantiating facility template');
 
@@ -130,6 +147,12 @@ router.post('/templates/instantiate', async (req, res) => {
       });
     }
 
+    if (request.seed !== undefined && !isValidSeed(request.seed)) {
+      return res.status(400).json({
+        error: 'Seed must be an integer between 0 and 4294967295'
+      });
+    }
+
     // Instantiate template
     const diagram = await templatesService.instantiateTemplate(request);
 
@@ -157,7 +180,7 @@ router.post('/check-compliance', async (req, res) => {
   try {
     console.log('🔍 Checking layout compliance');
 
-    const { diagram, regulatoryZone } = req.body;
+    const { diagram, regulatoryZone, ruleSetVersion } = req.body;
 
     if (!diagram) {
       return res.status(400).json({
@@ -165,17 +188,29 @@ router.post('/check-compliance', async (req, res) => {
       });
     }
 
+    // Regulations come from the requested rule set, the diagram's pinned one or the latest release
+    const resolved = await resolveRuleBase({
+      version: ruleSetVersion,
+      pinnedTo: diagram.id ? { label: 'Diagram', id: diagram.id } : undefined
+    });
+    if (!resolved) {
+      return res.status(404).json({
+        error: 'Rule set version not found'
+      });
+    }
+
     // Check compliance
     const complianceReport = await gmpService.checkCompliance(
       diagram,
-      regulatoryZone || 'FDA'
+      regulatoryZone || 'FDA',
+      resolved.ruleBase.regulatoryRules
     );
 
     console.log(`✅ Compliance check complete: ${complianceReport.overallScore}/100`);
     console.log(`   Passed: ${complianceReport.passed}/${complianceReport.totalChecks}`);
     console.log(`   Failed: ${complianceReport.failed}`);
 
-    res.json(complianceReport);
+    res.json({ ...complianceReport, ruleSet: resolved.ruleSet });
   } catch (error: any) {
     console.error('Error checking compliance:', error);
     res.status(500).json({
@@ -185,6 +220,55 @@ router.post('/check-compliance', async (req, res) => {
   }
 });
 
+/**
+ * POST /api/generative/apply-fixes
+ * Apply selected compliance auto-fixes to a diagram and re-check compliance
+ *
+ * Body: { diagram, fixes?: LayoutModification[], ruleIds?: string[], regulatoryZone? }
+ * When only ruleIds are given, the auto-fixes of those rules are taken from a fresh compliance check.
+ */
+router.post('/apply-fixes', requireRole('designer'), async (req, res) => {
+  try {
+    console.log('🔧 Applying compliance auto-fixes');
+
+    const { diagram, fixes, ruleIds, regulatoryZone } = req.body;
+    const zone = regulatoryZone || 'FDA';
+
+    if (!diagram || !Array.isArray(diagram.nodes) || !Array.isArray(diagram.relationships)) {
+      return res.status(400).json({
+        error: 'Diagram with nodes and relationships is required'
+      });
+    }
+
+    if (!Array.isArray(fixes) && !Array.isArray(ruleIds)) {
+      return res.status(400).json({
+        error: 'Either fixes or ruleIds array is required'
+      });
+    }
+
+    let selectedFixes: LayoutModification[] = fixes;
+    if (!Array.isArray(fixes)) {
+      const report = await gmpService.checkCompliance(diagram, zone);
+      selectedFixes = report.results
+        .filter(result => ruleIds.includes(result.ruleId))
+        .flatMap(result => result.autoFixes || []);
+    }
+
+    const result = await gmpService.applyFixes(diagram, selectedFixes, zone);
+
+    console.log(`✅ Applied ${result.applied.length} fix(es), skipped ${result.skipped.length}`);
+    console.log(`   Score: ${result.previousScore} → ${result.complianceReport.overallScore}/100`);
+
+    res.json(result);
+  } catch (error: any) {
+    console.error('Error applying compliance fixes:', error);
+    res.status(500).json({
+      error: 'Failed to apply compliance fixes',
+      message: error.message
+    });
+  }
+});
+
 /**
  * GET /api/generative/regulatory-rules
  * Get all GMP regulatory rules
@@ -258,7 +342,7 @@ router.post('/calculate-position', async (req, res) => {
  * POST /api/generative/optimize-layout
  * Optimize entire layout positions
  */
-router.post('/optimize-layout', async (req, res) => {
+router.post('/optimize-layout', requireRole('designer'), async (req, res) => {
   try {
     console.log('⚡ Optimizing layout positions');
 
@@ -302,7 +386,7 @@ router.post('/optimize-layout', async (req, res) => {
  * POST /api/generative/enhance-ghost-suggestion
  * Enhance ghost suggestion with spatial intelligence
  */
-router.post('/enhance-ghost-suggestion', async (req, res) => {
+router.post('/enhance-ghost-suggestion', requireRole('designer'), async (req, res) => {
   try {
     const { ghostSuggestion, existingNodes, relationships } = req.body;
 
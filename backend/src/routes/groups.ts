@@ -1,38 +1,146 @@
-import express from 'express';
+import express, { NextFunction, Request, Response } from 'express';
+import { NodeGroupModel, NodeGroupScope, OWNER_LABELS, validateGroupHierarchy } from '../models/NodeGroup';
+import { LayoutLockModel, isLockedByOther } from '../models/LayoutLock';
+import { ProjectModel } from '../models/Project';
 import { NodeGroup } from '../types';
+import { lockHolder, requireRole } from '../middleware/auth';
 
 const router = express.Router();
+const nodeGroupModel = new NodeGroupModel();
+const layoutLockModel = new LayoutLockModel();
+const projectModel = new ProjectModel();
+
+// Resolve the diagram/layout a request is scoped to (query string or body)
+const getScope = (source: any): NodeGroupScope | null => {
+  if (source?.diagramId) {
+    return { ownerType: 'diagram', ownerId: String(source.diagramId) };
+  }
+  if (source?.layoutId) {
+    return { ownerType: 'layout', ownerId: String(source.layoutId) };
+  }
+  return null;
+};
+
+/**
+ * Refuses non-members of the project owning the group's diagram or layout and records their
+ * project role for `requireRole`. Sends the error response and returns false when access is denied.
+ */
+const checkOwnerAccess = async (req: Request, res: Response, scope: NodeGroupScope): Promise<boolean> => {
+  const label = OWNER_LABELS[scope.ownerType];
+  const access = await projectModel.getResourceAccess(label, scope.ownerId, req.user!);
+  if (access === undefined) {
+    res.status(404).json({ error: `${label} not found` });
+    return false;
+  }
+  if (access && !access.role) {
+    res.status(403).json({ error: `Not a member of the project owning this ${label.toLowerCase()}` });
+    return false;
+  }
 
-// In-memory storage for groups (in a real app, this would be in a database)
-let groups: NodeGroup[] = [];
+  req.projectRole = access?.role || undefined;
+  return true;
+};
+
+// Scope of list/create requests, from the query string (GET) or the body (POST)
+const loadScope = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const scope = getScope(req.method === 'GET' ? req.query : req.body);
+    if (!scope) {
+      return res.status(400).json({ error: 'diagramId or layoutId is required' });
+    }
+
+    if (await checkOwnerAccess(req, res, scope)) {
+      res.locals.scope = scope;
+      next();
+    }
+  } catch (error) {
+    console.error('Error checking group access:', error);
+    res.status(500).json({ error: 'Failed to check project access' });
+  }
+};
+
+// Groups are only open to members of the project owning their diagram or layout
+router.param('id', async (req, res, next, id: string) => {
+  try {
+    const group = await nodeGroupModel.getGroupById(id);
+    if (!group || !group.ownerType || !group.ownerId) {
+      return res.status(404).json({ error: 'Group not found' });
+    }
 
-// GET /api/groups - Get all groups
-router.get('/', (req, res) => {
-  res.json(groups);
+    const scope: NodeGroupScope = { ownerType: group.ownerType, ownerId: group.ownerId };
+    if (await checkOwnerAccess(req, res, scope)) {
+      res.locals.group = group;
+      res.locals.scope = scope;
+      next();
+    }
+  } catch (error) {
+    console.error('Error checking group access:', error);
+    res.status(500).json({ error: 'Failed to check project access' });
+  }
+});
+
+/**
+ * Group edits outside a layout save honour the layout's advisory lock like PUT /api/layouts/:id:
+ * 423 while someone else holds it, unless the body sets `overrideLock`. Without accounts the
+ * client names itself with `owner` (body, or query string on DELETE).
+ */
+const checkLayoutLock = async (req: Request, res: Response, next: NextFunction) => {
+  const scope: NodeGroupScope = res.locals.scope;
+  if (scope.ownerType !== 'layout' || req.body?.overrideLock === true) return next();
+
+  try {
+    const lock = await layoutLockModel.getLock(scope.ownerId);
+    if (lock && isLockedByOther(lock, lockHolder(req, req.body?.owner ?? req.query.owner).id)) {
+      return res.status(423).json({ error: `Layout is locked by ${lock.owner} until ${lock.expiresAt}`, lock });
+    }
+    next();
+  } catch (error) {
+    console.error('Error checking layout lock:', error);
+    res.status(500).json({ error: 'Failed to check layout lock' });
+  }
+};
+
+// Validate a proposed change against the rest of the groups in the same scope
+const checkHierarchy = async (scope: NodeGroupScope, candidate: Pick<NodeGroup, 'id' | 'parentGroupId' | 'level'>) => {
+  const siblings = await nodeGroupModel.getGroups(scope);
+  return validateGroupHierarchy([
+    ...siblings.filter(g => g.id !== candidate.id),
+    candidate
+  ]);
+};
+
+// GET /api/groups?diagramId=...|layoutId=... - Get all groups of a diagram or layout
+router.get('/', loadScope, async (req, res) => {
+  try {
+    const groups = await nodeGroupModel.getGroups(res.locals.scope);
+    res.json(groups);
+  } catch (error) {
+    console.error('Error fetching groups:', error);
+    res.status(500).json({ error: 'Failed to fetch groups' });
+  }
 });
 
 // POST /api/groups - Create a new group
-router.post('/', (req, res) => {
+router.post('/', loadScope, requireRole('designer'), checkLayoutLock, async (req, res) => {
   try {
-    const { name, nodeIds, description } = req.body;
-    
-    if (!name || !nodeIds || !Array.isArray(nodeIds) || nodeIds.length === 0) {
-      return res.status(400).json({ 
-        error: 'Name and nodeIds array are required' 
+    const { name, nodeIds, description, color, level, parentGroupId } = req.body;
+    const scope: NodeGroupScope = res.locals.scope;
+
+    if (!name || !Array.isArray(nodeIds)) {
+      return res.status(400).json({
+        error: 'Name and nodeIds array are required'
       });
     }
 
-    const newGroup: NodeGroup = {
-      id: `group-${Date.now()}`,
-      name: name.trim(),
-      color: `#${Math.floor(Math.random()*16777215).toString(16)}`,
-      nodeIds: [...nodeIds],
-      description: description || undefined,
-      createdAt: new Date(),
-      updatedAt: new Date()
-    };
-
-    groups.push(newGroup);
+    const hierarchyError = await checkHierarchy(scope, { id: '__new__', parentGroupId, level });
+    if (hierarchyError) {
+      return res.status(400).json({ error: hierarchyError });
+    }
+
+    const newGroup = await nodeGroupModel.createGroup(
+      { name, nodeIds, description, color, level, parentGroupId },
+      scope
+    );
     res.status(201).json(newGroup);
   } catch (error) {
     console.error('Error creating group:', error);
@@ -41,26 +149,36 @@ router.post('/', (req, res) => {
 });
 
 // PUT /api/groups/:id - Update a group
-router.put('/:id', (req, res) => {
+router.put('/:id', requireRole('designer'), checkLayoutLock, async (req, res) => {
   try {
     const { id } = req.params;
-    const { name, nodeIds, description, color } = req.body;
-    
-    const groupIndex = groups.findIndex(g => g.id === id);
-    if (groupIndex === -1) {
-      return res.status(404).json({ error: 'Group not found' });
+    const { name, nodeIds, description, color, level, parentGroupId } = req.body;
+    const existing: NodeGroup = res.locals.group;
+
+    if (nodeIds !== undefined && !Array.isArray(nodeIds)) {
+      return res.status(400).json({ error: 'nodeIds must be an array' });
     }
 
-    const updatedGroup: NodeGroup = {
-      ...groups[groupIndex],
-      name: name?.trim() || groups[groupIndex].name,
-      nodeIds: nodeIds || groups[groupIndex].nodeIds,
-      description: description !== undefined ? description : groups[groupIndex].description,
-      color: color || groups[groupIndex].color,
-      updatedAt: new Date()
-    };
+    const hierarchyError = await checkHierarchy(
+      res.locals.scope,
+      {
+        id,
+        parentGroupId: parentGroupId !== undefined ? parentGroupId : existing.parentGroupId,
+        level: level !== undefined ? level : existing.level
+      }
+    );
+    if (hierarchyError) {
+      return res.status(400).json({ error: hierarchyError });
+    }
 
-    groups[groupIndex] = updatedGroup;
+    const updatedGroup = await nodeGroupModel.updateGroup(id, {
+      name,
+      nodeIds,
+      description,
+      color,
+      level,
+      parentGroupId
+    });
     res.json(updatedGroup);
   } catch (error) {
     console.error('Error updating group:', error);
@@ -68,17 +186,16 @@ router.put('/:id', (req, res) => {
   }
 });
 
-// DELETE /api/groups/:id - Delete a group
-router.delete('/:id', (req, res) => {
+// DELETE /api/groups/:id - Delete a group (child groups move up one level)
+router.delete('/:id', requireRole('designer'), checkLayoutLock, async (req, res) => {
   try {
     const { id } = req.params;
-    
-    const groupIndex = groups.findIndex(g => g.id === id);
-    if (groupIndex === -1) {
+
+    const deletedGroup = await nodeGroupModel.deleteGroup(id);
+    if (!deletedGroup) {
       return res.status(404).json({ error: 'Group not found' });
     }
 
-    const deletedGroup = groups.splice(groupIndex, 1)[0];
     res.json({ message: 'Group deleted successfully', group: deletedGroup });
   } catch (error) {
     console.error('Error deleting group:', error);
@@ -88,42 +205,26 @@ router.delete('/:id', (req, res) => {
 
 // GET /api/groups/:id - Get a specific group
 router.get('/:id', (req, res) => {
-  try {
-    const { id } = req.params;
-    const group = groups.find(g => g.id === id);
-    
-    if (!group) {
-      return res.status(404).json({ error: 'Group not found' });
-    }
-
-    res.json(group);
-  } catch (error) {
-    console.error('Error fetching group:', error);
-    res.status(500).json({ error: 'Failed to fetch group' });
-  }
+  res.json(res.locals.group);
 });
 
 // POST /api/groups/:id/add-node - Add a node to a group
-router.post('/:id/add-node', (req, res) => {
+router.post('/:id/add-node', requireRole('designer'), checkLayoutLock, async (req, res) => {
   try {
     const { id } = req.params;
     const { nodeId } = req.body;
-    
+    const group: NodeGroup = res.locals.group;
+
     if (!nodeId) {
       return res.status(400).json({ error: 'nodeId is required' });
     }
 
-    const groupIndex = groups.findIndex(g => g.id === id);
-    if (groupIndex === -1) {
-      return res.status(404).json({ error: 'Group not found' });
-    }
-
-    if (!groups[groupIndex].nodeIds.includes(nodeId)) {
-      groups[groupIndex].nodeIds.push(nodeId);
-      groups[groupIndex].updatedAt = new Date();
+    if (group.nodeIds.includes(nodeId)) {
+      return res.json(group);
     }
 
-    res.json(groups[groupIndex]);
+    const updatedGroup = await nodeGroupModel.updateGroup(id, { nodeIds: [...group.nodeIds, nodeId] });
+    res.json(updatedGroup);
   } catch (error) {
     console.error('Error adding node to group:', error);
     res.status(500).json({ error: 'Failed to add node to group' });
@@ -131,23 +232,19 @@ router.post('/:id/add-node', (req, res) => {
 });
 
 // DELETE /api/groups/:id/remove-node/:nodeId - Remove a node from a group
-router.delete('/:id/remove-node/:nodeId', (req, res) => {
+router.delete('/:id/remove-node/:nodeId', requireRole('designer'), checkLayoutLock, async (req, res) => {
   try {
     const { id, nodeId } = req.params;
-    
-    const groupIndex = groups.findIndex(g => g.id === id);
-    if (groupIndex === -1) {
-      return res.status(404).json({ error: 'Group not found' });
-    }
-
-    groups[groupIndex].nodeIds = groups[groupIndex].nodeIds.filter(nId => nId !== nodeId);
-    groups[groupIndex].updatedAt = new Date();
+    const group: NodeGroup = res.locals.group;
 
-    res.json(groups[groupIndex]);
+    const updatedGroup = await nodeGroupModel.updateGroup(id, {
+      nodeIds: group.nodeIds.filter(nId => nId !== nodeId)
+    });
+    res.json(updatedGroup);
   } catch (error) {
     console.error('Error removing node from group:', error);
     res.status(500).json({ error: 'Failed to remove node from group' });
   }
 });
 
-export default router;
\ No newline at end of file
+export default router;
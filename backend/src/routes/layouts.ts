@@ -1,19 +1,103 @@
-import { Router } from 'express';
+import { Router, Request, Response } from 'express';
 import Neo4jService from '../config/database';
-import { Layout, LayoutData } from '../types';
+import { NodeGroupModel, validateGroupPayload } from '../models/NodeGroup';
+import { LayoutRevisionModel, diffLayoutData } from '../models/LayoutRevision';
+import { LayoutLockModel, isLockedByOther, mapLayoutLock } from '../models/LayoutLock';
+import { ReviewAuthor, ReviewThreadModel, validateCommentBody, validateReviewAnchor } from '../models/ReviewThread';
+import { buildRoomDataSheets, renderRoomDataSheetsHtml } from '../services/roomDataSheets';
+import { resolveRuleBase } from '../services/ruleBase';
+import { evaluateLayoutVerdict } from '../services/ruleSetImpact';
+import { checkIfMatch, toETag } from '../utils/concurrency';
+import {
+  Layout,
+  LayoutData,
+  LayoutRevision,
+  LayoutRevisionInfo,
+  LayoutSaveConflict,
+  RevisionApprovalStatus,
+  RoomDataSheetReport
+} from '../types';
+import { ProjectModel } from '../models/Project';
+import { RuleSetModel } from '../models/RuleSet';
+import { loadBodyProjectRole, loadResourceProjectRole, lockHolder, requireRole } from '../middleware/auth';
+import { isAuthDisabled } from '../services/authService';
 
 const router = Router();
+const nodeGroupModel = new NodeGroupModel();
+const layoutRevisionModel = new LayoutRevisionModel();
+const layoutLockModel = new LayoutLockModel();
+const projectModel = new ProjectModel();
+const reviewThreadModel = new ReviewThreadModel();
+const ruleSetModel = new RuleSetModel();
+
+const APPROVAL_STATUSES: RevisionApprovalStatus[] = ['pending', 'approved', 'changes_requested'];
+
+// Revisions and comments are signed by the signed-in user; without accounts the client may name the author
+const reviewAuthor = (req: Request, clientName: unknown = req.body?.author): ReviewAuthor => {
+  const user = req.user!;
+  if (isAuthDisabled() && typeof clientName === 'string' && clientName.trim()) {
+    return { name: clientName.trim() };
+  }
+  return { name: user.name, userId: user.id };
+};
+
+// overrideLock saves over someone else's advisory lock; projectId places a new layout in a project
+type LayoutSaveRequest = LayoutData & { revision?: LayoutRevisionInfo; overrideLock?: boolean; projectId?: string };
+
+// Layouts owned by a project are only open to its members, with their project role
+router.param('id', loadResourceProjectRole('Layout'));
+
+/**
+ * 409 body for a save made from an outdated revision: what others saved since then, and what
+ * the rejected save would have changed on the current layout
+ */
+const buildSaveConflict = async (
+  layoutId: string,
+  current: { layout: Record<string, any>; latest: LayoutRevision | null },
+  expectedRevision: number | null,
+  submitted: LayoutData
+): Promise<LayoutSaveConflict> => {
+  const currentData: LayoutData = JSON.parse(current.layout.data);
+  const currentRevision = current.latest?.revision ?? 0;
+  const base = expectedRevision ? await layoutRevisionModel.getRevision(layoutId, expectedRevision) : null;
+  const lastModifiedBy = current.latest?.author || 'Unknown';
+
+  return {
+    error: `Layout was changed by ${lastModifiedBy} (revision ${currentRevision}) after the copy being saved was loaded`,
+    layoutId,
+    expectedRevision,
+    currentRevision,
+    currentVersion: currentData.metadata?.version,
+    lastModifiedBy,
+    lastModifiedAt: current.latest?.createdAt ?? null,
+    serverChanges: base?.data && expectedRevision
+      ? diffLayoutData(base.data, currentData, { layoutId, fromRevision: expectedRevision, toRevision: currentRevision })
+      : null,
+    localChanges: diffLayoutData(currentData, submitted, { layoutId, fromRevision: currentRevision, toRevision: currentRevision + 1 })
+  };
+};
 
 // Get all layouts
 router.get('/', async (req, res) => {
   const session = Neo4jService.getInstance().getDriver().session();
 
   try {
+    // Only layouts the user may open; ?projectId= narrows the list to one project
     const result = await session.run(
       `MATCH (l:Layout)
+       OPTIONAL MATCH (p:Project)-[:OWNS]->(l)
+       WITH l, p
+       WHERE ($projectId IS NULL OR p.id = $projectId)
+         AND ($isAdmin OR p IS NULL OR EXISTS { MATCH (:User {id: $userId})-[:MEMBER_OF]->(p) })
        RETURN l.id as id, l.name as name, l.createdAt as createdAt, l.updatedAt as updatedAt,
-              l.shapeCount as shapeCount
-       ORDER BY l.updatedAt DESC`
+              l.shapeCount as shapeCount, l.lockOwner as lockOwner, l.lockNote as lockNote,
+              l.lockAcquiredAt as lockAcquiredAt, l.lockExpiresAt as lockExpiresAt, p.id as projectId
+       ORDER BY l.updatedAt DESC`,
+      {
+        projectId: typeof req.query.projectId === 'string' ? req.query.projectId : null,
+        userId: req.user!.id,
+        isAdmin: req.user!.role === 'admin'
+      }
     );
 
     const layouts = result.records.map(record => {
@@ -25,7 +109,15 @@ router.get('/', async (req, res) => {
         name: record.get('name'),
         createdAt: createdAt ? new Date(createdAt.toString()).toISOString() : null,
         updatedAt: updatedAt ? new Date(updatedAt.toString()).toISOString() : null,
-        shapeCount: record.get('shapeCount') || 0
+        shapeCount: record.get('shapeCount') || 0,
+        projectId: record.get('projectId'),
+        lock: mapLayoutLock({
+          id: record.get('id'),
+          lockOwner: record.get('lockOwner'),
+          lockNote: record.get('lockNote'),
+          lockAcquiredAt: record.get('lockAcquiredAt'),
+          lockExpiresAt: record.get('lockExpiresAt')
+        })
       };
     });
 
@@ -47,9 +139,12 @@ router.get('/:id', async (req, res) => {
   try {
     const { id } = req.params;
 
-    // Get layout
+    // Get layout with its latest revision number (the ETag)
     const layoutResult = await session.run(
-      'MATCH (l:Layout {id: $id}) RETURN l',
+      `MATCH (l:Layout {id: $id})
+       OPTIONAL MATCH (l)-[:HAS_REVISION]->(r:LayoutRevision)
+       OPTIONAL MATCH (p:Project)-[:OWNS]->(l)
+       RETURN l, max(r.revision) as revision, p.id as projectId`,
       { id }
     );
 
@@ -58,9 +153,11 @@ router.get('/:id', async (req, res) => {
     }
 
     const layout = layoutResult.records[0].get('l').properties;
+    const revision = Number(layoutResult.records[0].get('revision') ?? 0);
 
     // Parse the data field which contains the full LayoutData
     const layoutData: LayoutData = JSON.parse(layout.data);
+    layoutData.groups = await nodeGroupModel.getGroups({ ownerType: 'layout', ownerId: layout.id });
 
     console.log('🔍 Retrieved layout:', { id: layout.id, name: layout.name, shapeCount: layoutData.shapes.length });
 
@@ -68,11 +165,15 @@ router.get('/:id', async (req, res) => {
       id: layout.id,
       name: layout.name,
       data: layoutData,
+      revision,
+      lock: mapLayoutLock(layout),
+      projectId: layoutResult.records[0].get('projectId'),
+      ruleSetVersion: layout.ruleSetVersion ?? null,
       createdAt: layout.createdAt ? new Date(layout.createdAt.toString()).toISOString() : null,
       updatedAt: layout.updatedAt ? new Date(layout.updatedAt.toString()).toISOString() : null
     };
 
-    res.json(fullLayout);
+    res.set('ETag', toETag(revision)).json(fullLayout);
   } catch (error) {
     console.error('Error fetching layout:', error);
     res.status(500).json({ error: 'Failed to fetch layout' });
@@ -82,17 +183,23 @@ router.get('/:id', async (req, res) => {
 });
 
 // Create new layout
-router.post('/', async (req, res) => {
+router.post('/', loadBodyProjectRole, requireRole('designer'), async (req, res) => {
   const session = Neo4jService.getInstance().getDriver().session();
 
   try {
-    const layoutData: LayoutData = req.body;
+    // Author and comment of the save travel alongside the layout data
+    const { revision: revisionInfo, overrideLock, projectId, ...layoutData }: LayoutSaveRequest = req.body;
 
     // Validate required fields
     if (!layoutData.name || !layoutData.shapes) {
       return res.status(400).json({ error: 'Layout name and shapes are required' });
     }
 
+    const groupError = validateGroupPayload(layoutData.groups);
+    if (groupError) {
+      return res.status(400).json({ error: groupError });
+    }
+
     // Debug: Log what we're saving
     console.log('🔍 Saving layout:', {
       name: layoutData.name,
@@ -125,31 +232,65 @@ router.post('/', async (req, res) => {
       layoutData.id = `layout-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     }
 
-    const result = await session.run(
-      `CREATE (l:Layout {
-        id: $id,
-        name: $name,
-        data: $data,
-        shapeCount: $shapeCount,
-        createdAt: datetime(),
-        updatedAt: datetime()
-      })
-      RETURN l.id as id`,
-      {
-        id: layoutData.id,
-        name: layoutData.name,
-        data: JSON.stringify(layoutData),
-        shapeCount: layoutData.shapes.length
+    const tx = session.beginTransaction();
+    let layoutId: string;
+    let revision;
+
+    try {
+      const result = await tx.run(
+        `CREATE (l:Layout {
+          id: $id,
+          name: $name,
+          shapeCount: $shapeCount,
+          createdAt: datetime(),
+          updatedAt: datetime()
+        })
+        RETURN l.id as id`,
+        {
+          id: layoutData.id,
+          name: layoutData.name,
+          shapeCount: layoutData.shapes.length
+        }
+      );
+
+      layoutId = result.records[0].get('id');
+
+      if (projectId) {
+        await projectModel.assignResource(tx, 'Layout', layoutId, projectId);
       }
-    );
 
-    const layoutId = result.records[0].get('id');
+      if (layoutData.groups) {
+        layoutData.groups = await nodeGroupModel.replaceGroups(tx, { ownerType: 'layout', ownerId: layoutId }, layoutData.groups);
+      }
+
+      revision = await layoutRevisionModel.recordRevision(tx, layoutId, layoutData, {
+        ...revisionInfo,
+        author: reviewAuthor(req, revisionInfo?.author).name
+      });
+
+      // Groups live in their own NodeGroup nodes, so keep them out of the JSON blob
+      const { groups, ...layoutBlob } = layoutData;
+      await tx.run('MATCH (l:Layout {id: $id}) SET l.data = $data', { id: layoutId, data: JSON.stringify(layoutBlob) });
+
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    }
+
     console.log('🔍 Layout saved successfully with ID:', layoutId);
 
+    if (revision) {
+      res.set('ETag', toETag(revision.revision));
+    }
     res.status(201).json({
       id: layoutId,
       message: 'Layout saved successfully',
-      shapeCount: layoutData.shapes.length
+      shapeCount: layoutData.shapes.length,
+      revision: revision?.revision,
+      version: layoutData.metadata.version,
+      projectId: projectId || null,
+      groups: layoutData.groups
     });
   } catch (error) {
     console.error('Error creating layout:', error);
@@ -160,18 +301,23 @@ router.post('/', async (req, res) => {
 });
 
 // Update layout
-router.put('/:id', async (req, res) => {
+router.put('/:id', requireRole('designer'), async (req, res) => {
   const session = Neo4jService.getInstance().getDriver().session();
 
   try {
     const { id } = req.params;
-    const layoutData: LayoutData = req.body;
+    const { revision: revisionInfo, overrideLock, projectId, ...layoutData }: LayoutSaveRequest = req.body;
 
     // Validate required fields
     if (!layoutData.name || !layoutData.shapes) {
       return res.status(400).json({ error: 'Layout name and shapes are required' });
     }
 
+    const groupError = validateGroupPayload(layoutData.groups);
+    if (groupError) {
+      return res.status(400).json({ error: groupError });
+    }
+
     // Update metadata
     const now = new Date();
     if (!layoutData.metadata) {
@@ -190,31 +336,76 @@ router.put('/:id', async (req, res) => {
       shapeCount: layoutData.shapes.length
     });
 
-    const result = await session.run(
-      `MATCH (l:Layout {id: $id})
-       SET l.name = $name,
-           l.data = $data,
-           l.shapeCount = $shapeCount,
-           l.updatedAt = datetime()
-       RETURN l.id as id`,
-      {
-        id,
-        name: layoutData.name,
-        data: JSON.stringify(layoutData),
-        shapeCount: layoutData.shapes.length
+    const tx = session.beginTransaction();
+    let revision;
+
+    try {
+      const current = await layoutRevisionModel.lockForUpdate(tx, id);
+      if (!current) {
+        await tx.rollback();
+        return res.status(404).json({ error: 'Layout not found' });
       }
-    );
 
-    if (result.records.length === 0) {
-      return res.status(404).json({ error: 'Layout not found' });
+      // Optimistic concurrency: the client sends back the ETag of the revision it loaded
+      const precondition = checkIfMatch(req.get('If-Match'), current.latest?.revision ?? 0);
+      if (!precondition.ok) {
+        await tx.rollback();
+        console.log('🔍 Layout save conflict:', { id, expected: precondition.expectedRevision, current: current.latest?.revision });
+        return res.status(409).json(await buildSaveConflict(id, current, precondition.expectedRevision, layoutData));
+      }
+
+      const lock = mapLayoutLock(current.layout);
+      if (!overrideLock && isLockedByOther(lock, lockHolder(req, revisionInfo?.author).id)) {
+        await tx.rollback();
+        return res.status(423).json({ error: `Layout is locked by ${lock.owner} until ${lock.expiresAt}`, lock });
+      }
+
+      // Groups are replaced wholesale; omitting them keeps the saved groups (and snapshots them)
+      if (!layoutData.groups) {
+        layoutData.groups = await nodeGroupModel.getGroups({ ownerType: 'layout', ownerId: id });
+      } else {
+        layoutData.groups = await nodeGroupModel.replaceGroups(tx, { ownerType: 'layout', ownerId: id }, layoutData.groups);
+      }
+
+      revision = await layoutRevisionModel.recordRevision(tx, id, layoutData, {
+        ...revisionInfo,
+        author: reviewAuthor(req, revisionInfo?.author).name
+      });
+      if (!revision) {
+        await tx.rollback();
+        return res.status(404).json({ error: 'Layout not found' });
+      }
+
+      const { groups, ...layoutBlob } = layoutData;
+      await tx.run(
+        `MATCH (l:Layout {id: $id})
+         SET l.name = $name,
+             l.data = $data,
+             l.shapeCount = $shapeCount,
+             l.updatedAt = datetime()`,
+        {
+          id,
+          name: layoutData.name,
+          data: JSON.stringify(layoutBlob),
+          shapeCount: layoutData.shapes.length
+        }
+      );
+
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      throw error;
     }
 
-    console.log('🔍 Layout updated successfully');
+    console.log('🔍 Layout updated successfully:', { id, revision: revision.revision, version: revision.version });
 
-    res.json({
+    res.set('ETag', toETag(revision.revision)).json({
       id,
       message: 'Layout updated successfully',
-      shapeCount: layoutData.shapes.length
+      shapeCount: layoutData.shapes.length,
+      revision: revision.revision,
+      version: revision.version,
+      groups: layoutData.groups
     });
   } catch (error) {
     console.error('Error updating layout:', error);
@@ -224,8 +415,458 @@ router.put('/:id', async (req, res) => {
   }
 });
 
-// Delete layout
-router.delete('/:id', async (req, res) => {
+// Get the revision history of a layout (newest first)
+router.get('/:id/revisions', async (req, res) => {
+  try {
+    const revisions = await layoutRevisionModel.getRevisions(req.params.id);
+    res.json(revisions);
+  } catch (error) {
+    console.error('Error fetching layout revisions:', error);
+    res.status(500).json({ error: 'Failed to fetch layout revisions' });
+  }
+});
+
+// Diff two revisions: ?from=<revision>&to=<revision> (defaults: to = latest, from = to - 1)
+router.get('/:id/revisions/diff', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const toParam = req.query.to !== undefined ? Number(req.query.to) : undefined;
+    const fromParam = req.query.from !== undefined ? Number(req.query.from) : undefined;
+
+    if ((toParam !== undefined && !Number.isInteger(toParam)) || (fromParam !== undefined && !Number.isInteger(fromParam))) {
+      return res.status(400).json({ error: 'from and to must be revision numbers' });
+    }
+
+    const to = await layoutRevisionModel.getRevision(id, toParam);
+    if (!to) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    const fromRevision = fromParam ?? to.revision - 1;
+    const from = fromRevision >= 1 ? await layoutRevisionModel.getRevision(id, fromRevision) : null;
+    if (!from) {
+      return res.status(404).json({ error: `Revision ${fromRevision} not found` });
+    }
+
+    res.json(diffLayoutData(from.data!, to.data!, {
+      layoutId: id,
+      fromRevision: from.revision,
+      toRevision: to.revision
+    }));
+  } catch (error) {
+    console.error('Error diffing layout revisions:', error);
+    res.status(500).json({ error: 'Failed to diff layout revisions' });
+  }
+});
+
+// Get a single revision with its full layout data
+router.get('/:id/revisions/:revision', async (req, res) => {
+  try {
+    const revision = await layoutRevisionModel.getRevision(req.params.id, Number(req.params.revision));
+    if (!revision) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    res.json(revision);
+  } catch (error) {
+    console.error('Error fetching layout revision:', error);
+    res.status(500).json({ error: 'Failed to fetch layout revision' });
+  }
+});
+
+// Restore a layout to an earlier revision; the restore itself is recorded as a new revision
+router.post('/:id/revisions/:revision/restore', requireRole('designer'), async (req, res) => {
+  const session = Neo4jService.getInstance().getDriver().session();
+
+  try {
+    const { id } = req.params;
+    const target = await layoutRevisionModel.getRevision(id, Number(req.params.revision));
+    if (!target?.data) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    const { author, comment, overrideLock }: LayoutRevisionInfo & { overrideLock?: boolean } = req.body || {};
+    const layoutData: LayoutData = {
+      ...target.data,
+      id,
+      metadata: { ...target.data.metadata, modifiedAt: new Date() }
+    };
+
+    const tx = session.beginTransaction();
+    let revision;
+
+    try {
+      // Same guards as a save: the restore replaces the current layout
+      const current = await layoutRevisionModel.lockForUpdate(tx, id);
+      if (!current) {
+        await tx.rollback();
+        return res.status(404).json({ error: 'Layout not found' });
+      }
+
+      const precondition = checkIfMatch(req.get('If-Match'), current.latest?.revision ?? 0);
+      if (!precondition.ok) {
+        await tx.rollback();
+        return res.status(409).json(await buildSaveConflict(id, current, precondition.expectedRevision, layoutData));
+      }
+
+      const lock = mapLayoutLock(current.layout);
+      if (!overrideLock && isLockedByOther(lock, lockHolder(req, author).id)) {
+        await tx.rollback();
+        return res.status(423).json({ error: `Layout is locked by ${lock.owner} until ${lock.expiresAt}`, lock });
+      }
+
+      revision = await layoutRevisionModel.recordRevision(tx, id, layoutData, {
+        author: reviewAuthor(req, author).name,
+        comment: comment || `Restored revision ${target.revision} (v${target.version})`
+      });
+
+      const { groups, ...layoutBlob } = layoutData;
+      await tx.run(
+        `MATCH (l:Layout {id: $id})
+         SET l.name = $name,
+             l.data = $data,
+             l.shapeCount = $shapeCount,
+             l.updatedAt = datetime()`,
+        {
+          id,
+          name: layoutData.name,
+          data: JSON.stringify(layoutBlob),
+          shapeCount: layoutData.shapes.length
+        }
+      );
+      await nodeGroupModel.replaceGroups(tx, { ownerType: 'layout', ownerId: id }, groups || []);
+
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    }
+
+    console.log('🔍 Layout restored:', { id, from: target.revision, revision: revision?.revision });
+
+    if (revision) {
+      res.set('ETag', toETag(revision.revision));
+    }
+    res.json({
+      id,
+      message: `Layout restored to revision ${target.revision}`,
+      revision: revision?.revision,
+      version: revision?.version
+    });
+  } catch (error) {
+    console.error('Error restoring layout revision:', error);
+    res.status(500).json({ error: 'Failed to restore layout revision' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Current advisory edit lock of a layout (null when unlocked or expired)
+router.get('/:id/lock', async (req, res) => {
+  try {
+    const lock = await layoutLockModel.getLock(req.params.id);
+    if (lock === undefined) {
+      return res.status(404).json({ error: 'Layout not found' });
+    }
+    res.json({ lock });
+  } catch (error) {
+    console.error('Error fetching layout lock:', error);
+    res.status(500).json({ error: 'Failed to fetch layout lock' });
+  }
+});
+
+// Take or renew the lock for the signed-in user. Body: { minutes?, note?, force? } (plus `owner`
+// when accounts are disabled); 409 when someone else holds it
+router.put('/:id/lock', requireRole('designer'), async (req, res) => {
+  try {
+    const { owner, minutes, note, force } = req.body || {};
+    if (isAuthDisabled() && (typeof owner !== 'string' || !owner.trim())) {
+      return res.status(400).json({ error: 'owner is required' });
+    }
+
+    const result = await layoutLockModel.acquireLock(req.params.id, lockHolder(req, owner), {
+      minutes: Number(minutes) || undefined,
+      note: typeof note === 'string' ? note : undefined,
+      force: force === true
+    });
+
+    if (result.status === 'not-found') {
+      return res.status(404).json({ error: 'Layout not found' });
+    }
+    if (result.status === 'held') {
+      return res.status(409).json({ error: `Layout is locked by ${result.lock.owner} until ${result.lock.expiresAt}`, lock: result.lock });
+    }
+
+    console.log('🔒 Layout locked:', result.lock);
+    res.json({ lock: result.lock });
+  } catch (error) {
+    console.error('Error locking layout:', error);
+    res.status(500).json({ error: 'Failed to lock layout' });
+  }
+});
+
+// Release the signed-in user's lock (?owner=<name> when accounts are disabled); force=true releases someone else's lock
+router.delete('/:id/lock', requireRole('designer'), async (req, res) => {
+  try {
+    const remaining = await layoutLockModel.releaseLock(req.params.id, lockHolder(req, req.query.owner).id, req.query.force === 'true');
+
+    if (remaining === undefined) {
+      return res.status(404).json({ error: 'Layout not found' });
+    }
+    if (remaining) {
+      return res.status(409).json({ error: `Layout is locked by ${remaining.owner}`, lock: remaining });
+    }
+
+    console.log('🔓 Layout unlocked:', req.params.id);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error unlocking layout:', error);
+    res.status(500).json({ error: 'Failed to unlock layout' });
+  }
+});
+
+// Review threads pinned to the layout: ?status=open|resolved
+router.get('/:id/review-threads', async (req, res) => {
+  try {
+    const status = req.query.status === 'open' || req.query.status === 'resolved' ? req.query.status : undefined;
+    res.json(await reviewThreadModel.getThreads(req.params.id, status));
+  } catch (error) {
+    console.error('Error fetching review threads:', error);
+    res.status(500).json({ error: 'Failed to fetch review threads' });
+  }
+});
+
+// Open a review thread. Body: { anchor: { kind, targetId?, x, y, levelId? }, body }
+router.post('/:id/review-threads', requireRole('designer'), async (req, res) => {
+  try {
+    const { anchor, body } = req.body || {};
+    const validationError = validateReviewAnchor(anchor) || validateCommentBody(body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const thread = await reviewThreadModel.createThread(req.params.id, anchor, body, reviewAuthor(req));
+    if (!thread) {
+      return res.status(404).json({ error: 'Layout not found' });
+    }
+
+    console.log('💬 Review thread opened:', { layoutId: req.params.id, threadId: thread.id, anchor: thread.anchor.kind });
+    res.status(201).json(thread);
+  } catch (error) {
+    console.error('Error creating review thread:', error);
+    res.status(500).json({ error: 'Failed to create review thread' });
+  }
+});
+
+// Reply to a review thread. Body: { body }
+router.post('/:id/review-threads/:threadId/comments', requireRole('designer'), async (req, res) => {
+  try {
+    const validationError = validateCommentBody(req.body?.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const thread = await reviewThreadModel.addComment(req.params.id, req.params.threadId, req.body.body, reviewAuthor(req));
+    if (!thread) {
+      return res.status(404).json({ error: 'Review thread not found' });
+    }
+
+    res.status(201).json(thread);
+  } catch (error) {
+    console.error('Error adding review comment:', error);
+    res.status(500).json({ error: 'Failed to add review comment' });
+  }
+});
+
+// Resolve or reopen a review thread. Body: { status: 'open' | 'resolved' }
+router.put('/:id/review-threads/:threadId', requireRole('designer'), async (req, res) => {
+  try {
+    const { status } = req.body || {};
+    if (status !== 'open' && status !== 'resolved') {
+      return res.status(400).json({ error: "status must be 'open' or 'resolved'" });
+    }
+
+    const thread = await reviewThreadModel.setStatus(req.params.id, req.params.threadId, status, reviewAuthor(req).name);
+    if (!thread) {
+      return res.status(404).json({ error: 'Review thread not found' });
+    }
+
+    console.log(`💬 Review thread ${status}:`, { layoutId: req.params.id, threadId: thread.id });
+    res.json(thread);
+  } catch (error) {
+    console.error('Error updating review thread:', error);
+    res.status(500).json({ error: 'Failed to update review thread' });
+  }
+});
+
+// Approve a revision or request changes. Body: { status, note? }; approving is refused while threads are open
+router.put('/:id/revisions/:revision/approval', requireRole('reviewer'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const revision = Number(req.params.revision);
+    const { status, note } = req.body || {};
+
+    if (!Number.isInteger(revision)) {
+      return res.status(400).json({ error: 'revision must be a revision number' });
+    }
+    if (!APPROVAL_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `status must be one of ${APPROVAL_STATUSES.join(', ')}` });
+    }
+
+    if (status === 'approved') {
+      const openThreads = await reviewThreadModel.countOpenThreads(id);
+      if (openThreads > 0) {
+        return res.status(409).json({ error: `Resolve the ${openThreads} open review comment(s) before approving`, openThreads });
+      }
+    }
+
+    const approval = await layoutRevisionModel.setApproval(id, revision, {
+      status,
+      reviewer: reviewAuthor(req).name,
+      note: typeof note === 'string' ? note : undefined
+    });
+    if (!approval) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    console.log('✅ Layout revision review:', { id, revision, status });
+    res.json({ layoutId: id, revision, approval });
+  } catch (error) {
+    console.error('Error updating revision approval:', error);
+    res.status(500).json({ error: 'Failed to update revision approval' });
+  }
+});
+
+// Send room data sheets as JSON, or as printable HTML with format=html
+const sendRoomDataSheets = (res: Response, report: RoomDataSheetReport, format: unknown) => {
+  if (format === 'html') {
+    res.type('html').send(renderRoomDataSheetsHtml(report));
+  } else {
+    res.json(report);
+  }
+};
+
+// Room data sheets (URS) for a layout that may not be saved yet
+// Body: { layout: { name, shapes, doorConnections, doorPlacements }, shapeIds?, pixelsPerMeter?, format? }
+router.post('/room-data-sheets', async (req, res) => {
+  try {
+    const { layout, shapeIds, pixelsPerMeter, format } = req.body || {};
+
+    if (!layout || !Array.isArray(layout.shapes)) {
+      return res.status(400).json({ error: 'layout with shapes is required' });
+    }
+
+    const report = buildRoomDataSheets(layout, {
+      layoutId: layout.id,
+      shapeIds: Array.isArray(shapeIds) ? shapeIds : undefined,
+      pixelsPerMeter: Number(pixelsPerMeter) || undefined
+    });
+    if (report.sheets.length === 0) {
+      return res.status(404).json({ error: 'No matching rooms in layout' });
+    }
+
+    sendRoomDataSheets(res, report, format);
+  } catch (error) {
+    console.error('Error generating room data sheets:', error);
+    res.status(500).json({ error: 'Failed to generate room data sheets' });
+  }
+});
+
+// Room data sheets of a saved layout: ?shapeId=<id>&format=json|html&pixelsPerMeter=<n>
+router.get('/:id/room-data-sheets', async (req, res) => {
+  const session = Neo4jService.getInstance().getDriver().session();
+
+  try {
+    const { id } = req.params;
+    const result = await session.run('MATCH (l:Layout {id: $id}) RETURN l', { id });
+
+    if (result.records.length === 0) {
+      return res.status(404).json({ error: 'Layout not found' });
+    }
+
+    const layout = result.records[0].get('l').properties;
+    const layoutData: LayoutData = JSON.parse(layout.data);
+    const shapeId = typeof req.query.shapeId === 'string' ? req.query.shapeId : undefined;
+
+    const report = buildRoomDataSheets({ ...layoutData, name: layout.name }, {
+      layoutId: id,
+      shapeIds: shapeId ? [shapeId] : undefined,
+      pixelsPerMeter: Number(req.query.pixelsPerMeter) || undefined
+    });
+    if (shapeId && report.sheets.length === 0) {
+      return res.status(404).json({ error: 'Room not found in layout' });
+    }
+
+    sendRoomDataSheets(res, report, req.query.format);
+  } catch (error) {
+    console.error('Error generating room data sheets:', error);
+    res.status(500).json({ error: 'Failed to generate room data sheets' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Pin the layout to a released rule set ({ version }), or follow the latest release ({ version: null })
+router.put('/:id/rule-set', requireRole('designer'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { version } = req.body;
+
+    if (version !== null && !Number.isInteger(version)) {
+      return res.status(400).json({ error: 'version must be a rule set version or null' });
+    }
+    if (version !== null) {
+      const ruleSet = await ruleSetModel.getRuleSet(version);
+      if (!ruleSet || ruleSet.status !== 'released') {
+        return res.status(400).json({ error: `Rule set v${version} does not exist or is not released` });
+      }
+    }
+
+    if (!await ruleSetModel.pin('Layout', id, version)) {
+      return res.status(404).json({ error: 'Layout not found' });
+    }
+
+    res.json({ layoutId: id, ruleSetVersion: version });
+  } catch (error) {
+    console.error('Error pinning layout rule set:', error);
+    res.status(500).json({ error: 'Failed to pin layout rule set' });
+  }
+});
+
+// Pass/fail verdict of the saved layout under its rule set, or ?ruleSetVersion=<n>
+router.get('/:id/verdict', async (req, res) => {
+  const session = Neo4jService.getInstance().getDriver().session();
+
+  try {
+    const { id } = req.params;
+    const ruleSetVersion = req.query.ruleSetVersion !== undefined ? Number(req.query.ruleSetVersion) : undefined;
+    if (ruleSetVersion !== undefined && !Number.isInteger(ruleSetVersion)) {
+      return res.status(400).json({ error: 'ruleSetVersion must be an integer' });
+    }
+
+    const result = await session.run('MATCH (l:Layout {id: $id}) RETURN l', { id });
+    if (result.records.length === 0) {
+      return res.status(404).json({ error: 'Layout not found' });
+    }
+
+    const layout = result.records[0].get('l').properties;
+    const resolved = await resolveRuleBase({ version: ruleSetVersion, pinnedTo: { label: 'Layout', id } });
+    if (!resolved) {
+      return res.status(404).json({ error: 'Rule set version not found' });
+    }
+
+    res.json(await evaluateLayoutVerdict(id, { ...JSON.parse(layout.data), name: layout.name }, resolved));
+  } catch (error) {
+    console.error('Error evaluating layout verdict:', error);
+    res.status(500).json({ error: 'Failed to evaluate layout verdict' });
+  } finally {
+    await session.close();
+  }
+});
+
+// Delete layout. The node is relabelled rather than removed, so its revisions and review
+// threads stay in the database as the layout's change-control record.
+router.delete('/:id', requireRole('designer'), async (req, res) => {
   const session = Neo4jService.getInstance().getDriver().session();
 
   try {
@@ -233,9 +874,10 @@ router.delete('/:id', async (req, res) => {
 
     const result = await session.run(
       `MATCH (l:Layout {id: $id})
-       DELETE l
+       REMOVE l:Layout
+       SET l:DeletedLayout, l.deletedAt = datetime(), l.deletedBy = $deletedBy
        RETURN COUNT(l) as deletedCount`,
-      { id }
+      { id, deletedBy: req.user!.id }
     );
 
     const deletedCountValue = result.records[0].get('deletedCount');
@@ -1,9 +1,13 @@
-import { Router } from 'express';
+import { Router, Request } from 'express';
 import { FunctionalAreaModel } from '../models/FunctionalArea';
 import { SpatialRelationshipModel } from '../models/SpatialRelationship';
+import { Transaction } from 'neo4j-driver';
 import Neo4jService from '../config/database';
 import { NodeCategory } from '../types';
 import { StaticNodeTemplatesService } from '../services/staticNodeTemplatesService';
+import { requireRole } from '../middleware/auth';
+import { auditedTransaction, requireChangeReason } from '../middleware/audit';
+import { AuditChange, toAuditValue } from '../models/AuditLog';
 
 // Temporary placeholder types for legacy ghost code (to be removed)
 interface GhostRelationship {
@@ -1604,10 +1608,16 @@ router.get('/:id', async (req, res) => {
 });
 
 // Create new functional area
-router.post('/', async (req, res) => {
+router.post('/', requireRole('designer'), requireChangeReason, async (req, res) => {
   try {
-    const areaData = req.body;
-    const newArea = await functionalAreaModel.createFunctionalArea(areaData);
+    const { changeReason, ...areaData } = req.body;
+    const newArea = await auditedTransaction(req, async tx => {
+      const created = await functionalAreaModel.createFunctionalArea(tx, areaData);
+      return {
+        result: created,
+        changes: [{ action: 'create', entityType: 'functionalArea', entityId: created.id, before: null, after: created }]
+      };
+    });
     res.status(201).json(newArea);
   } catch (error) {
     console.error('Error creating functional area:', error);
@@ -1616,11 +1626,18 @@ router.post('/', async (req, res) => {
 });
 
 // Update functional area
-router.put('/:id', async (req, res) => {
+router.put('/:id', requireRole('designer'), requireChangeReason, async (req, res) => {
   try {
     const { id } = req.params;
-    const updates = req.body;
-    const updatedArea = await functionalAreaModel.updateFunctionalArea(id, updates);
+    const { changeReason, ...updates } = req.body;
+    const updatedArea = await auditedTransaction(req, async tx => {
+      const before = await functionalAreaModel.getFunctionalAreaById(id, tx);
+      const updated = await functionalAreaModel.updateFunctionalArea(tx, id, updates);
+      return {
+        result: updated,
+        changes: updated ? [{ action: 'update', entityType: 'functionalArea', entityId: id, before, after: updated }] : []
+      };
+    });
     
     if (!updatedArea) {
       return res.status(404).json({ error: 'Functional area not found' });
@@ -1634,10 +1651,17 @@ router.put('/:id', async (req, res) => {
 });
 
 // Delete functional area
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', requireRole('designer'), requireChangeReason, async (req, res) => {
   try {
     const { id } = req.params;
-    const deleted = await functionalAreaModel.deleteFunctionalArea(id);
+    const deleted = await auditedTransaction(req, async tx => {
+      const before = await functionalAreaModel.getFunctionalAreaById(id, tx);
+      const removed = await functionalAreaModel.deleteFunctionalArea(tx, id);
+      return {
+        result: removed,
+        changes: removed ? [{ action: 'delete', entityType: 'functionalArea', entityId: id, before, after: null }] : []
+      };
+    });
     
     if (!deleted) {
       return res.status(404).json({ error: 'Functional area not found' });
@@ -1998,7 +2022,7 @@ router.get('/:sourceName/can-connect-to/:targetName', async (req, res) => {
 });
 
 // Initialize database with constraints only (templates now use static configuration)
-router.post('/initialize', async (req, res) => {
+router.post('/initialize', requireRole('admin'), async (req, res) => {
   try {
     await functionalAreaModel.ensureUniqueConstraints();
     // DISABLED: NodeTemplate initialization - now using static templates
@@ -2018,7 +2042,7 @@ router.post('/initialize', async (req, res) => {
 });
 
 // Cleanup NodeTemplate nodes from database (migrate to static templates)
-router.post('/cleanup-node-templates', async (req, res) => {
+router.post('/cleanup-node-templates', requireRole('admin'), async (req, res) => {
   try {
     const { NodeTemplateCleanup } = await import('../migrations/nodeTemplateCleanup');
     const cleanup = new NodeTemplateCleanup();
@@ -2144,11 +2168,73 @@ router.get('/existing', async (req, res) => {
   }
 });
 
+// Audit entries for what a knowledge graph merge changed; areas and relationships it left as they were are skipped
+function diffGraphSnapshots(
+  before: { nodes: any[]; relationships: any[] },
+  after: { nodes: any[]; relationships: any[] }
+): AuditChange[] {
+  const sameValue = (a: unknown, b: unknown) => JSON.stringify(toAuditValue(a)) === JSON.stringify(toAuditValue(b));
+  const relationshipKey = (r: any) => `${r.fromId}-${r.type}->${r.toId}`;
+  const changes: AuditChange[] = [];
+
+  after.nodes.forEach(node => {
+    const previous = before.nodes.find(n => n.id === node.id) || null;
+    if (!previous || !sameValue(previous, node)) {
+      changes.push({ action: previous ? 'update' : 'create', entityType: 'functionalArea', entityId: node.id, before: previous, after: node });
+    }
+  });
+  after.relationships.forEach(relationship => {
+    const previous = before.relationships.find(r => relationshipKey(r) === relationshipKey(relationship)) || null;
+    if (!previous || !sameValue(previous, relationship)) {
+      changes.push({
+        action: previous ? 'update' : 'create',
+        entityType: 'relationship',
+        entityId: relationship.id || relationshipKey(relationship),
+        before: previous,
+        after: relationship
+      });
+    }
+  });
+
+  return changes;
+}
+
+// Merge diagram data into the knowledge graph and record what changed, in one transaction
+function persistWithAudit(req: Request, diagramData: any) {
+  const nodeIds = (diagramData.nodes || []).map((node: any) => node.id);
+  return auditedTransaction(req, async tx => {
+    const before = await functionalAreaModel.getGraphSnapshot(tx, nodeIds);
+    const stats = await functionalAreaModel.persistToKnowledgeGraph(tx, diagramData);
+    const after = await functionalAreaModel.getGraphSnapshot(tx, nodeIds);
+    return { result: stats, changes: diffGraphSnapshots(before, after) };
+  });
+}
+
+/**
+ * Labels and properties of the nodes bound to `n` by `match`, and of every relationship touching
+ * them, so the state removed by a bulk delete can be rebuilt from the audit trail
+ */
+async function captureGraph(tx: Transaction, match: string) {
+  const nodeResult = await tx.run(`${match} RETURN labels(n) as labels, properties(n) as properties`);
+  const relationshipResult = await tx.run(
+    `${match}
+     MATCH (n)-[r]-()
+     WITH DISTINCT r
+     RETURN type(r) as type, startNode(r).id as fromId, labels(startNode(r)) as fromLabels,
+            endNode(r).id as toId, labels(endNode(r)) as toLabels, properties(r) as properties`
+  );
+
+  return {
+    nodes: nodeResult.records.map(record => record.toObject()),
+    relationships: relationshipResult.records.map(record => record.toObject())
+  };
+}
+
 // Persist diagram data to knowledge graph (for creation mode)
-router.post('/persist', async (req, res) => {
+router.post('/persist', requireRole('designer'), requireChangeReason, async (req, res) => {
   try {
     const diagramData = req.body;
-    const result = await functionalAreaModel.persistToKnowledgeGraph(diagramData);
+    const result = await persistWithAudit(req, diagramData);
     res.json({ message: 'Diagram data persisted to knowledge graph successfully' });
   } catch (error) {
     console.error('Error persisting to knowledge graph:', error);
@@ -2261,7 +2347,7 @@ router.post('/kg/ghost-suggestions', async (req, res) => {
 });
 
 // Enhanced persist to knowledge graph with metrics
-router.post('/kg/persist', async (req, res) => {
+router.post('/kg/persist', requireRole('designer'), requireChangeReason, async (req, res) => {
   try {
     console.log('📥 Received persist request');
     const diagramData = req.body;
@@ -2287,7 +2373,7 @@ router.post('/kg/persist', async (req, res) => {
       return res.status(400).json({ error: 'Invalid data: relationships must be an array' });
     }
 
-    const stats = await functionalAreaModel.persistToKnowledgeGraph(diagramData);
+    const stats = await persistWithAudit(req, diagramData);
 
     console.log(`✅ Successfully persisted:`, stats);
 
@@ -2315,34 +2401,29 @@ router.post('/kg/persist', async (req, res) => {
 });
 
 // Clear knowledge graph data (standalone functional areas and their relationships)
-router.post('/kg/clear', async (req, res) => {
+router.post('/kg/clear', requireRole('admin'), requireChangeReason, async (req, res) => {
   try {
-    const session = Neo4jService.getInstance().getDriver().session();
-    
-    // First, get count of nodes and relationships to be deleted
-    const countQuery = `
-      MATCH (fa:FunctionalArea) 
-      WHERE NOT (fa)<-[:CONTAINS]-(:Diagram)
-      WITH fa
-      OPTIONAL MATCH (fa)-[r]-()
-      RETURN count(DISTINCT fa) as nodeCount, count(DISTINCT r) as relationshipCount
-    `;
-    const countResult = await session.run(countQuery);
-    const nodeCount = countResult.records[0].get('nodeCount').toNumber();
-    const relationshipCount = countResult.records[0].get('relationshipCount').toNumber();
-    
-    // Delete standalone functional areas (not part of any diagram) and their relationships
-    const deleteQuery = `
-      MATCH (fa:FunctionalArea) 
-      WHERE NOT (fa)<-[:CONTAINS]-(:Diagram)
-      DETACH DELETE fa
-      RETURN count(fa) as deletedNodes
-    `;
-    
-    const result = await session.run(deleteQuery);
-    const deletedNodes = result.records[0].get('deletedNodes').toNumber();
-    
-    await session.close();
+    const { deletedNodes, relationshipCount } = await auditedTransaction(req, async tx => {
+      // Standalone functional areas (not part of any diagram) and their relationships
+      const standalone = 'MATCH (n:FunctionalArea) WHERE NOT (n)<-[:CONTAINS]-(:Diagram)';
+      const before = await captureGraph(tx, standalone);
+
+      const result = await tx.run(`${standalone} DETACH DELETE n RETURN count(n) as deletedNodes`);
+
+      return {
+        result: {
+          deletedNodes: result.records[0].get('deletedNodes').toNumber(),
+          relationshipCount: before.relationships.length
+        },
+        changes: [{
+          action: 'delete',
+          entityType: 'knowledgeGraph',
+          entityId: 'standalone-functional-areas',
+          before: { nodeCount: before.nodes.length, relationshipCount: before.relationships.length, ...before },
+          after: null
+        }]
+      };
+    });
     
     res.json({
       message: 'Knowledge graph data cleared successfully',
@@ -2357,34 +2438,29 @@ router.post('/kg/clear', async (req, res) => {
 });
 
 // Reset entire knowledge graph (including template relationships)
-router.post('/kg/reset', async (req, res) => {
+router.post('/kg/reset', requireRole('admin'), requireChangeReason, async (req, res) => {
   try {
-    const session = Neo4jService.getInstance().getDriver().session();
-    
-    // Get count of all data to be deleted
-    const countQuery = `
-      MATCH (n) 
-      WHERE n:FunctionalArea OR n:NodeTemplate
-      WITH n
-      OPTIONAL MATCH (n)-[r]-()
-      RETURN count(DISTINCT n) as nodeCount, count(DISTINCT r) as relationshipCount
-    `;
-    const countResult = await session.run(countQuery);
-    const nodeCount = countResult.records[0].get('nodeCount').toNumber();
-    const relationshipCount = countResult.records[0].get('relationshipCount').toNumber();
-    
-    // Delete all functional areas and node templates (preserves diagrams)
-    const deleteQuery = `
-      MATCH (n) 
-      WHERE n:FunctionalArea OR n:NodeTemplate
-      DETACH DELETE n
-      RETURN count(n) as deletedNodes
-    `;
-    
-    const result = await session.run(deleteQuery);
-    const deletedNodes = result.records[0].get('deletedNodes').toNumber();
-    
-    await session.close();
+    const { deletedNodes, relationshipCount } = await auditedTransaction(req, async tx => {
+      // All functional areas and node templates (preserves diagrams)
+      const graph = 'MATCH (n) WHERE n:FunctionalArea OR n:NodeTemplate';
+      const before = await captureGraph(tx, graph);
+
+      const result = await tx.run(`${graph} DETACH DELETE n RETURN count(n) as deletedNodes`);
+
+      return {
+        result: {
+          deletedNodes: result.records[0].get('deletedNodes').toNumber(),
+          relationshipCount: before.relationships.length
+        },
+        changes: [{
+          action: 'delete',
+          entityType: 'knowledgeGraph',
+          entityId: 'all',
+          before: { nodeCount: before.nodes.length, relationshipCount: before.relationships.length, ...before },
+          after: null
+        }]
+      };
+    });
     
     res.json({
       message: 'Knowledge graph completely reset',
@@ -2400,29 +2476,29 @@ router.post('/kg/reset', async (req, res) => {
 });
 
 // Clear template relationships only (for template maintenance)
-router.post('/templates/reset', async (req, res) => {
+router.post('/templates/reset', requireRole('admin'), requireChangeReason, async (req, res) => {
   try {
-    const session = Neo4jService.getInstance().getDriver().session();
-    
-    // Get count of template relationships
-    const countQuery = `
-      MATCH (nt1:NodeTemplate)-[r]->(nt2:NodeTemplate)
-      RETURN count(r) as relationshipCount
-    `;
-    const countResult = await session.run(countQuery);
-    const relationshipCount = countResult.records[0].get('relationshipCount').toNumber();
-    
-    // Delete only relationships between templates
-    const deleteQuery = `
-      MATCH (nt1:NodeTemplate)-[r]->(nt2:NodeTemplate)
-      DELETE r
-      RETURN count(r) as deletedRelationships
-    `;
-    
-    const result = await session.run(deleteQuery);
-    const deletedRelationships = result.records[0].get('deletedRelationships').toNumber();
-    
-    await session.close();
+    const deletedRelationships = await auditedTransaction(req, async tx => {
+      // Delete only relationships between templates
+      const result = await tx.run(
+        `MATCH (nt1:NodeTemplate)-[r]->(nt2:NodeTemplate)
+         WITH r, {type: type(r), fromId: nt1.id, toId: nt2.id, properties: properties(r)} as relationship
+         DELETE r
+         RETURN collect(relationship) as relationships`
+      );
+      const relationships = result.records[0].get('relationships');
+
+      return {
+        result: relationships.length,
+        changes: [{
+          action: 'delete',
+          entityType: 'templateRelationships',
+          entityId: 'all',
+          before: { relationshipCount: relationships.length, relationships },
+          after: null
+        }]
+      };
+    });
     
     res.json({
       message: 'Template relationships cleared successfully',
@@ -2487,7 +2563,7 @@ router.get('/kg/views', async (req, res) => {
 });
 
 // Track ghost suggestion feedback for learning system
-router.post('/kg/ghost-feedback', async (req, res) => {
+router.post('/kg/ghost-feedback', requireRole('designer'), async (req, res) => {
   try {
     const { 
       suggestionId, 
@@ -2672,7 +2748,7 @@ router.get('/kg/learning-analytics', async (req, res) => {
 });
 
 // Performance optimization endpoint - create indexes for faster queries
-router.post('/kg/optimize-indexes', async (req, res) => {
+router.post('/kg/optimize-indexes', requireRole('admin'), async (req, res) => {
   try {
     const session = Neo4jService.getInstance().getDriver().session();
     
@@ -2780,7 +2856,7 @@ import { ConstraintEnforcementService } from '../services/constraintEnforcement'
 const constraintService = new ConstraintEnforcementService();
 
 // Associate a shape with a Neo4j node template
-router.post('/:shapeId/associate', async (req, res) => {
+router.post('/:shapeId/associate', requireRole('designer'), async (req, res) => {
   try {
     const { shapeId } = req.params;
     const { nodeTemplateId, nodeTemplateName, category, cleanroomClass, customProperties } = req.body;
@@ -3127,7 +3203,7 @@ router.post('/debug/constraint-queries', async (req, res) => {
 });
 
 // Clear debug metrics and error logs
-router.post('/debug/clear-metrics', async (req, res) => {
+router.post('/debug/clear-metrics', requireRole('admin'), async (req, res) => {
   try {
     debugService.clearMetrics();
     
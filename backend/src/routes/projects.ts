@@ -0,0 +1,116 @@
+import { Router } from 'express';
+import { ProjectModel } from '../models/Project';
+import { USER_ROLES, isUserRole } from '../models/User';
+import { requireRole } from '../middleware/auth';
+
+// Projects and their members; mounted behind authenticate
+const router = Router();
+const projectModel = new ProjectModel();
+
+// Members act with their project role on everything below /:id
+router.param('id', async (req, res, next, id) => {
+  try {
+    const role = await projectModel.getRoleInProject(id, req.user!);
+    if (role === undefined) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    if (!role) {
+      return res.status(403).json({ error: 'Not a member of this project' });
+    }
+
+    req.projectRole = role;
+    next();
+  } catch (error) {
+    console.error('Error checking project access:', error);
+    res.status(500).json({ error: 'Failed to check project access' });
+  }
+});
+
+router.get('/', async (req, res) => {
+  try {
+    res.json(await projectModel.getProjects(req.user!));
+  } catch (error) {
+    console.error('Error fetching projects:', error);
+    res.status(500).json({ error: 'Failed to fetch projects' });
+  }
+});
+
+// The creator becomes the project's admin
+router.post('/', requireRole('designer'), async (req, res) => {
+  try {
+    const { name, description } = req.body || {};
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'name is required' });
+    }
+
+    const project = await projectModel.createProject({ name, description }, req.user!.id);
+    console.log('📁 Project created:', { id: project.id, name: project.name });
+    res.status(201).json(project);
+  } catch (error) {
+    console.error('Error creating project:', error);
+    res.status(500).json({ error: 'Failed to create project' });
+  }
+});
+
+router.get('/:id', async (req, res) => {
+  try {
+    const project = await projectModel.getProject(req.params.id);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    res.json({ ...project, role: req.projectRole, members: await projectModel.getMembers(req.params.id) });
+  } catch (error) {
+    console.error('Error fetching project:', error);
+    res.status(500).json({ error: 'Failed to fetch project' });
+  }
+});
+
+// Diagrams and layouts of a deleted project are kept and become unassigned
+router.delete('/:id', requireRole('admin'), async (req, res) => {
+  try {
+    await projectModel.deleteProject(req.params.id);
+    console.log('📁 Project deleted:', req.params.id);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting project:', error);
+    res.status(500).json({ error: 'Failed to delete project' });
+  }
+});
+
+// Add a member or change their role. Body: { role }
+router.put('/:id/members/:userId', requireRole('admin'), async (req, res) => {
+  try {
+    const { role } = req.body || {};
+    if (!isUserRole(role)) {
+      return res.status(400).json({ error: `role must be one of ${USER_ROLES.join(', ')}` });
+    }
+
+    const member = await projectModel.setMember(req.params.id, req.params.userId, role);
+    if (!member) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    console.log('📁 Project member set:', { projectId: req.params.id, userId: member.userId, role });
+    res.json(member);
+  } catch (error) {
+    console.error('Error setting project member:', error);
+    res.status(500).json({ error: 'Failed to set project member' });
+  }
+});
+
+router.delete('/:id/members/:userId', requireRole('admin'), async (req, res) => {
+  try {
+    if (!(await projectModel.removeMember(req.params.id, req.params.userId))) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+
+    console.log('📁 Project member removed:', { projectId: req.params.id, userId: req.params.userId });
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error removing project member:', error);
+    res.status(500).json({ error: 'Failed to remove project member' });
+  }
+});
+
+export default router;
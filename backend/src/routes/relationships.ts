@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { SpatialRelationshipModel } from '../models/SpatialRelationship';
 import { SpatialRelationship } from '../types';
+import { requireRole } from '../middleware/auth';
+import { auditedTransaction, requireChangeReason } from '../middleware/audit';
 
 const router = Router();
 const spatialRelationshipModel = new SpatialRelationshipModel();
@@ -33,11 +35,95 @@ router.get('/:id', async (req, res) => {
   }
 });
 
+// Batch routes come before the `/:id` routes, which would otherwise match "batch" as an ID
+
+// Batch create relationships
+router.post('/batch', requireRole('designer'), requireChangeReason, async (req, res) => {
+  try {
+    const { relationships } = req.body;
+    const createdRelationships = await auditedTransaction(req, async tx => {
+      const created = await spatialRelationshipModel.batchCreateRelationships(tx, relationships);
+      return {
+        result: created,
+        changes: created.map(relationship => ({
+          action: 'create' as const,
+          entityType: 'relationship' as const,
+          entityId: relationship.id,
+          before: null,
+          after: relationship
+        }))
+      };
+    });
+    res.status(201).json(createdRelationships);
+  } catch (error) {
+    console.error('Error batch creating relationships:', error);
+    res.status(500).json({ error: 'Failed to batch create relationships' });
+  }
+});
+
+// Batch update relationships
+router.put('/batch', requireRole('designer'), requireChangeReason, async (req, res) => {
+  try {
+    const { relationships } = req.body;
+    const updatedRelationships = await auditedTransaction(req, async tx => {
+      const before = await spatialRelationshipModel.getRelationshipsByIds(
+        (relationships || []).map((relationship: SpatialRelationship) => relationship.id),
+        tx
+      );
+      const updated = await spatialRelationshipModel.batchUpdateRelationships(tx, relationships);
+      return {
+        result: updated,
+        changes: updated.map(relationship => ({
+          action: 'update' as const,
+          entityType: 'relationship' as const,
+          entityId: relationship.id,
+          before: before.find(existing => existing.id === relationship.id) || null,
+          after: relationship
+        }))
+      };
+    });
+    res.json(updatedRelationships);
+  } catch (error) {
+    console.error('Error batch updating relationships:', error);
+    res.status(500).json({ error: 'Failed to batch update relationships' });
+  }
+});
+
+// Batch delete relationships
+router.delete('/batch', requireRole('designer'), requireChangeReason, async (req, res) => {
+  try {
+    const { relationshipIds } = req.body;
+    const deletedCount = await auditedTransaction(req, async tx => {
+      const before = await spatialRelationshipModel.getRelationshipsByIds(relationshipIds || [], tx);
+      return {
+        result: await spatialRelationshipModel.batchDeleteRelationships(tx, relationshipIds),
+        changes: before.map(relationship => ({
+          action: 'delete' as const,
+          entityType: 'relationship' as const,
+          entityId: relationship.id,
+          before: relationship,
+          after: null
+        }))
+      };
+    });
+    res.json({ deletedCount });
+  } catch (error) {
+    console.error('Error batch deleting relationships:', error);
+    res.status(500).json({ error: 'Failed to batch delete relationships' });
+  }
+});
+
 // Create new relationship
-router.post('/', async (req, res) => {
+router.post('/', requireRole('designer'), requireChangeReason, async (req, res) => {
   try {
-    const relationshipData: SpatialRelationship = req.body;
-    const newRelationship = await spatialRelationshipModel.createRelationship(relationshipData);
+    const { changeReason, ...relationshipData }: SpatialRelationship & { changeReason?: string } = req.body;
+    const newRelationship = await auditedTransaction(req, async tx => {
+      const created = await spatialRelationshipModel.createRelationship(tx, relationshipData);
+      return {
+        result: created,
+        changes: [{ action: 'create', entityType: 'relationship', entityId: created.id, before: null, after: created }]
+      };
+    });
     res.status(201).json(newRelationship);
   } catch (error) {
     console.error('Error creating relationship:', error);
@@ -46,11 +132,18 @@ router.post('/', async (req, res) => {
 });
 
 // Update relationship
-router.put('/:id', async (req, res) => {
+router.put('/:id', requireRole('designer'), requireChangeReason, async (req, res) => {
   try {
     const { id } = req.params;
     const updates = req.body;
-    const updatedRelationship = await spatialRelationshipModel.updateRelationship(id, updates);
+    const updatedRelationship = await auditedTransaction(req, async tx => {
+      const before = await spatialRelationshipModel.getRelationshipById(id, tx);
+      const updated = await spatialRelationshipModel.updateRelationship(tx, id, updates);
+      return {
+        result: updated,
+        changes: updated ? [{ action: 'update', entityType: 'relationship', entityId: id, before, after: updated }] : []
+      };
+    });
     
     if (!updatedRelationship) {
       return res.status(404).json({ error: 'Relationship not found' });
@@ -64,10 +157,17 @@ router.put('/:id', async (req, res) => {
 });
 
 // Delete relationship
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', requireRole('designer'), requireChangeReason, async (req, res) => {
   try {
     const { id } = req.params;
-    const deleted = await spatialRelationshipModel.deleteRelationship(id);
+    const deleted = await auditedTransaction(req, async tx => {
+      const before = await spatialRelationshipModel.getRelationshipById(id, tx);
+      const removed = await spatialRelationshipModel.deleteRelationship(tx, id);
+      return {
+        result: removed,
+        changes: removed ? [{ action: 'delete', entityType: 'relationship', entityId: id, before, after: null }] : []
+      };
+    });
     
     if (!deleted) {
       return res.status(404).json({ error: 'Relationship not found' });
@@ -104,40 +204,4 @@ router.get('/type/:type', async (req, res) => {
   }
 });
 
-// Batch create relationships
-router.post('/batch', async (req, res) => {
-  try {
-    const { relationships } = req.body;
-    const createdRelationships = await spatialRelationshipModel.batchCreateRelationships(relationships);
-    res.status(201).json(createdRelationships);
-  } catch (error) {
-    console.error('Error batch creating relationships:', error);
-    res.status(500).json({ error: 'Failed to batch create relationships' });
-  }
-});
-
-// Batch update relationships
-router.put('/batch', async (req, res) => {
-  try {
-    const { relationships } = req.body;
-    const updatedRelationships = await spatialRelationshipModel.batchUpdateRelationships(relationships);
-    res.json(updatedRelationships);
-  } catch (error) {
-    console.error('Error batch updating relationships:', error);
-    res.status(500).json({ error: 'Failed to batch update relationships' });
-  }
-});
-
-// Batch delete relationships
-router.delete('/batch', async (req, res) => {
-  try {
-    const { relationshipIds } = req.body;
-    const deletedCount = await spatialRelationshipModel.batchDeleteRelationships(relationshipIds);
-    res.json({ deletedCount });
-  } catch (error) {
-    console.error('Error batch deleting relationships:', error);
-    res.status(500).json({ error: 'Failed to batch delete relationships' });
-  }
-});
-
 export default router;
\ No newline at end of file
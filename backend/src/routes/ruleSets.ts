@@ -0,0 +1,200 @@
+import { Router } from 'express';
+import { RuleSetModel } from '../models/RuleSet';
+import { requireRole } from '../middleware/auth';
+import { auditedTransaction, requireChangeReason } from '../middleware/audit';
+import {
+  ResolvedRuleBase,
+  RuleBase,
+  captureLiveRuleSet,
+  diffRuleSets,
+  getLiveRuleSetContent,
+  resolveRuleBase,
+  toRuleSetReference
+} from '../services/ruleBase';
+import { buildVerdictChangeReport } from '../services/ruleSetImpact';
+import { RuleSet, RuleSetContent, RuleSetReference } from '../types';
+
+// Versioned snapshots of the rule base; diagrams and layouts are validated against a released one
+const router = Router();
+const ruleSetModel = new RuleSetModel();
+
+const MAX_NAME_LENGTH = 200;
+
+// Rule set metadata without its (large) content, as stored in the audit trail
+const summarize = ({ content, ...ruleSet }: RuleSet) => ruleSet;
+
+const parseVersion = (value: unknown): number | null => {
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : null;
+};
+
+type DiffSide = { ruleSet: RuleSetReference | null; content: RuleSetContent };
+
+// A version number, or 'live' for the current rule base (including the knowledge graph)
+const loadDiffSide = async (value: unknown): Promise<DiffSide | null> => {
+  if (value === 'live') {
+    return { ruleSet: null, content: await captureLiveRuleSet() };
+  }
+  const version = parseVersion(value);
+  const ruleSet = version ? await ruleSetModel.getRuleSet(version) : null;
+  return ruleSet ? { ruleSet: toRuleSetReference(ruleSet), content: ruleSet.content! } : null;
+};
+
+// What a release replaces: the previous released rule set, or the live rules before the first release
+const releaseBaseline = async (version: number): Promise<ResolvedRuleBase> => {
+  const previous = await ruleSetModel.getLatestReleased(version);
+  return previous
+    ? { ruleBase: new RuleBase(previous.content!), ruleSet: toRuleSetReference(previous) }
+    : { ruleBase: new RuleBase(getLiveRuleSetContent()), ruleSet: null };
+};
+
+// List rule sets, newest first
+router.get('/', async (req, res) => {
+  try {
+    res.json(await ruleSetModel.getRuleSets());
+  } catch (error) {
+    console.error('Error fetching rule sets:', error);
+    res.status(500).json({ error: 'Failed to fetch rule sets' });
+  }
+});
+
+// Snapshot the current rule base as a new draft
+router.post('/', requireRole('reviewer'), requireChangeReason, async (req, res) => {
+  try {
+    const { name, description } = req.body;
+
+    if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_NAME_LENGTH) {
+      return res.status(400).json({ error: `name is required and must be at most ${MAX_NAME_LENGTH} characters` });
+    }
+    if (description !== undefined && typeof description !== 'string') {
+      return res.status(400).json({ error: 'description must be a string' });
+    }
+
+    const content = await captureLiveRuleSet();
+    const ruleSet = await auditedTransaction(req, async tx => {
+      const created = await ruleSetModel.createRuleSet(tx, {
+        name: name.trim(),
+        description: description?.trim() || undefined,
+        content,
+        createdBy: req.user?.name || 'unknown'
+      });
+      return {
+        result: created,
+        changes: [{
+          action: 'create',
+          entityType: 'ruleSet',
+          entityId: String(created.version),
+          before: null,
+          after: summarize(created)
+        }]
+      };
+    });
+
+    console.log(`📚 Created rule set v${ruleSet.version} "${ruleSet.name}"`);
+    res.status(201).json(ruleSet);
+  } catch (error) {
+    console.error('Error creating rule set:', error);
+    res.status(500).json({ error: 'Failed to create rule set' });
+  }
+});
+
+// Compare two rule sets: ?from=<version|live>&to=<version|live>
+router.get('/diff', async (req, res) => {
+  try {
+    const [from, to] = await Promise.all([loadDiffSide(req.query.from), loadDiffSide(req.query.to)]);
+
+    if (!from || !to) {
+      return res.status(404).json({ error: 'from and to must be existing rule set versions or "live"' });
+    }
+
+    res.json(diffRuleSets(from, to));
+  } catch (error) {
+    console.error('Error comparing rule sets:', error);
+    res.status(500).json({ error: 'Failed to compare rule sets' });
+  }
+});
+
+// Get a rule set with its content
+router.get('/:version', async (req, res) => {
+  try {
+    const version = parseVersion(req.params.version);
+    const ruleSet = version ? await ruleSetModel.getRuleSet(version) : null;
+
+    if (!ruleSet) {
+      return res.status(404).json({ error: 'Rule set not found' });
+    }
+
+    res.json(ruleSet);
+  } catch (error) {
+    console.error('Error fetching rule set:', error);
+    res.status(500).json({ error: 'Failed to fetch rule set' });
+  }
+});
+
+// Preview which saved layouts change verdict with this rule set: ?from=<version>, defaults to what a release would replace
+router.get('/:version/verdict-changes', async (req, res) => {
+  try {
+    const version = parseVersion(req.params.version);
+    const to = version ? await resolveRuleBase({ version }) : null;
+
+    if (!version || !to) {
+      return res.status(404).json({ error: 'Rule set not found' });
+    }
+
+    const fromVersion = parseVersion(req.query.from);
+    const from = req.query.from === undefined
+      ? await releaseBaseline(version)
+      : fromVersion && await resolveRuleBase({ version: fromVersion });
+    if (!from) {
+      return res.status(404).json({ error: 'Rule set to compare with not found' });
+    }
+
+    res.json(await buildVerdictChangeReport(from, to, req.user!));
+  } catch (error) {
+    console.error('Error building verdict change report:', error);
+    res.status(500).json({ error: 'Failed to build verdict change report' });
+  }
+});
+
+// Release a draft; responds with the layouts whose verdict changes against the previous release
+router.post('/:version/release', requireRole('admin'), requireChangeReason, async (req, res) => {
+  try {
+    const version = parseVersion(req.params.version);
+    const existing = version ? await ruleSetModel.getRuleSet(version) : null;
+
+    if (!version || !existing) {
+      return res.status(404).json({ error: 'Rule set not found' });
+    }
+    if (existing.status === 'released') {
+      return res.status(409).json({ error: `Rule set v${version} is already released` });
+    }
+
+    const baseline = await releaseBaseline(version);
+    const ruleSet = await auditedTransaction(req, async tx => {
+      const released = await ruleSetModel.release(tx, version, req.user?.name || 'unknown');
+      return {
+        result: released,
+        changes: released ? [{
+          action: 'update',
+          entityType: 'ruleSet',
+          entityId: String(version),
+          before: summarize(existing),
+          after: summarize(released)
+        }] : []
+      };
+    });
+    if (!ruleSet) {
+      return res.status(409).json({ error: `Rule set v${version} is already released` });
+    }
+
+    const report = await buildVerdictChangeReport(baseline, { ruleBase: new RuleBase(ruleSet.content!), ruleSet: toRuleSetReference(ruleSet) }, req.user!);
+
+    console.log(`🚀 Released rule set v${version}: ${report.changed.length} of ${report.evaluated} layouts change verdict`);
+    res.json({ ruleSet, report });
+  } catch (error) {
+    console.error('Error releasing rule set:', error);
+    res.status(500).json({ error: 'Failed to release rule set' });
+  }
+});
+
+export default router;
@@ -1,6 +1,7 @@
 import express from 'express';
 import { AdjacencyValidationService } from '../services/adjacencyValidation';
 import Neo4jService from '../config/database';
+import { requireRole } from '../middleware/auth';
 
 const router = express.Router();
 const neo4jService = Neo4jService.getInstance();
@@ -228,7 +229,7 @@ router.get('/cache-stats', (req, res) => {
  * Clear adjacency validation cache
  * POST /api/shapes/clear-cache
  */
-router.post('/clear-cache', (req, res) => {
+router.post('/clear-cache', requireRole('admin'), (req, res) => {
   try {
     adjacencyService.clearCache();
     res.json({
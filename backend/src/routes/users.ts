@@ -0,0 +1,73 @@
+import { Router } from 'express';
+import { UserModel, USER_ROLES, isUserRole } from '../models/User';
+import { requireRole } from '../middleware/auth';
+import { MIN_PASSWORD_LENGTH, validateUserPayload } from './auth';
+
+// User administration; mounted behind authenticate
+const router = Router();
+const userModel = new UserModel();
+
+router.use(requireRole('admin'));
+
+router.get('/', async (req, res) => {
+  try {
+    res.json(await userModel.getUsers());
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    res.status(500).json({ error: 'Failed to fetch users' });
+  }
+});
+
+router.post('/', async (req, res) => {
+  try {
+    const validationError = validateUserPayload(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const { email, name, password, role = 'viewer' } = req.body;
+    if (!isUserRole(role)) {
+      return res.status(400).json({ error: `role must be one of ${USER_ROLES.join(', ')}` });
+    }
+
+    const user = await userModel.createUser({ email, name, password, role });
+    if (!user) {
+      return res.status(409).json({ error: 'A user with this email already exists' });
+    }
+
+    console.log('👤 User created:', { email: user.email, role: user.role });
+    res.status(201).json(user);
+  } catch (error) {
+    console.error('Error creating user:', error);
+    res.status(500).json({ error: 'Failed to create user' });
+  }
+});
+
+// Change name, role or password
+router.put('/:id', async (req, res) => {
+  try {
+    const { name, role, password } = req.body || {};
+    if (role !== undefined && !isUserRole(role)) {
+      return res.status(400).json({ error: `role must be one of ${USER_ROLES.join(', ')}` });
+    }
+    if (password !== undefined && (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH)) {
+      return res.status(400).json({ error: `password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+    if (req.params.id === req.user!.id && role && role !== 'admin') {
+      return res.status(400).json({ error: 'Admins cannot remove their own admin role' });
+    }
+
+    const user = await userModel.updateUser(req.params.id, { name, role, password });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    console.log('👤 User updated:', { email: user.email, role: user.role });
+    res.json(user);
+  } catch (error) {
+    console.error('Error updating user:', error);
+    res.status(500).json({ error: 'Failed to update user' });
+  }
+});
+
+export default router;
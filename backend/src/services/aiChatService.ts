@@ -1,8 +1,6 @@
-import OpenAI from 'openai';
 import Neo4jService from '../config/database';
 import { ChatRequest, ChatResponse, ChatAction, NodeTemplate, SpatialRelationship } from '../types';
 import { v4 as uuidv4 } from 'uuid';
-import GenerativeLayoutService from './generativeLayoutService';
 import FacilityTemplatesService from './facilityTemplatesService';
 import LayoutGenerationService from './layoutGenerationService';
 import {
@@ -11,25 +9,28 @@ import {
 } from '../config/costConfiguration';
 import { ProjectCostEstimate } from '../../../shared/types';
 import costDatabaseService from './costDatabaseService';
+import { createLLMProvider, LLMMessage, LLMProvider, LLMToolDefinition } from './llmProviders';
+import { isValidSeed } from '../utils/seededRandom';
 
 export class AIChatService {
-  private openai: OpenAI;
+  private llm: LLMProvider;
   private neo4jService: Neo4jService;
-  private generativeService: GenerativeLayoutService;
   private templatesService: FacilityTemplatesService;
   private layoutGenerationService: LayoutGenerationService;
 
-  constructor() {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY is not configured');
-    }
-
-    this.openai = new OpenAI({ apiKey });
+  constructor(provider?: LLMProvider) {
     this.neo4jService = Neo4jService.getInstance();
-    this.generativeService = GenerativeLayoutService.getInstance();
     this.templatesService = FacilityTemplatesService.getInstance();
     this.layoutGenerationService = LayoutGenerationService.getInstance();
+    this.llm = provider || createLLMProvider(() => this.getNodeTemplates());
+    console.log(`🤖 AI chat using ${this.llm.name} provider`);
+  }
+
+  /**
+   * Name of the active LLM provider (openai, anthropic, local or rule-based)
+   */
+  getProviderName(): string {
+    return this.llm.name;
   }
 
   /**
@@ -508,7 +509,7 @@ ${request.message}
 `;
 
       // Build conversation history
-      const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+      const messages: LLMMessage[] = [
         { role: 'system', content: systemPrompt },
         ...request.conversationHistory.map(msg => ({
           role: msg.role as 'user' | 'assistant',
@@ -518,107 +519,103 @@ ${request.message}
       ];
 
       // Define function for Neo4j queries
-      const tools: OpenAI.Chat.ChatCompletionTool[] = [
+      const tools: LLMToolDefinition[] = [
         {
-          type: 'function',
-          function: {
-            name: 'query_neo4j',
-            description: 'Execute a Cypher query against the Neo4j knowledge graph database to retrieve information about functional areas, their relationships, cleanroom classes, categories, and GMP compliance rules.',
-            parameters: {
-              type: 'object',
-              properties: {
-                cypher: {
-                  type: 'string',
-                  description: 'The Cypher query to execute. Example: "MATCH (n:FunctionalArea {name: \'Material Corridor\'}) RETURN n"'
-                },
-                explanation: {
-                  type: 'string',
-                  description: 'Brief explanation of what this query is trying to find'
-                }
+          name: 'query_neo4j',
+          description: 'Execute a Cypher query against the Neo4j knowledge graph database to retrieve information about functional areas, their relationships, cleanroom classes, categories, and GMP compliance rules.',
+          parameters: {
+            type: 'object',
+            properties: {
+              cypher: {
+                type: 'string',
+                description: 'The Cypher query to execute. Example: "MATCH (n:FunctionalArea {name: \'Material Corridor\'}) RETURN n"'
               },
-              required: ['cypher', 'explanation']
-            }
+              explanation: {
+                type: 'string',
+                description: 'Brief explanation of what this query is trying to find'
+              }
+            },
+            required: ['cypher', 'explanation']
           }
         },
         {
-          type: 'function',
-          function: {
-            name: 'calculate_cost',
-            description: 'Calculate the estimated cost of the current facility layout based on room types, areas, and cleanroom classes. Use this when the user asks about costs, budget, or price.',
-            parameters: {
-              type: 'object',
-              properties: {
-                currency: {
-                  type: 'string',
-                  description: 'Currency code (e.g., USD, EUR). Defaults to USD.',
-                  enum: ['USD', 'EUR', 'GBP']
-                }
+          name: 'calculate_cost',
+          description: 'Calculate the estimated cost of the current facility layout based on room types, areas, and cleanroom classes. Use this when the user asks about costs, budget, or price.',
+          parameters: {
+            type: 'object',
+            properties: {
+              currency: {
+                type: 'string',
+                description: 'Currency code (e.g., USD, EUR). Defaults to USD.',
+                enum: ['USD', 'EUR', 'GBP']
               }
             }
           }
         },
         {
-          type: 'function',
-          function: {
-            name: 'generate_layout',
-            description: '🏭 PRIMARY FUNCTION for generating pharmaceutical facility layouts. Call this function when the user requests ANY facility layout, complete design, or multiple rooms. Examples: "Generate a sterile vial filling facility", "Create a layout for tablet production", "I need a facility with X rooms". This automatically creates shapes on the canvas with GMP-compliant positioning, door connections, and airlock placement. ALWAYS use this for layout generation requests - do NOT tell the user you cannot generate layouts.',
-            parameters: {
-              type: 'object',
-              properties: {
-                description: {
-                  type: 'string',
-                  description: 'Natural language description of the facility (e.g., \"Sterile vial filling facility for 500L batches with material airlocks\")'
-                },
-                requiredRooms: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'Optional explicit list of room names (e.g., [\"Sterile Filling Room\", \"Grade B Prep Area\"])'
-                },
-                batchSize: {
-                  type: 'number',
-                  description: 'Optional batch size in liters for scaling room sizes'
-                },
-                throughput: {
-                  type: 'number',
-                  description: 'Optional production throughput in units/day for scaling'
-                },
-                layoutStyle: {
-                  type: 'string',
-                  enum: ['linear', 'clustered', 'compact', 'modular'],
-                  description: 'Optional layout style preference'
-                }
+          name: 'generate_layout',
+          description: '🏭 PRIMARY FUNCTION for generating pharmaceutical facility layouts. Call this function when the user requests ANY facility layout, complete design, or multiple rooms. Examples: "Generate a sterile vial filling facility", "Create a layout for tablet production", "I need a facility with X rooms". This automatically creates shapes on the canvas with GMP-compliant positioning, door connections, and airlock placement. ALWAYS use this for layout generation requests - do NOT tell the user you cannot generate layouts.',
+          parameters: {
+            type: 'object',
+            properties: {
+              description: {
+                type: 'string',
+                description: 'Natural language description of the facility (e.g., \"Sterile vial filling facility for 500L batches with material airlocks\")'
               },
-              required: ['description']
-            }
+              requiredRooms: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Optional explicit list of room names (e.g., [\"Sterile Filling Room\", \"Grade B Prep Area\"])'
+              },
+              batchSize: {
+                type: 'number',
+                description: 'Optional batch size in liters for scaling room sizes'
+              },
+              throughput: {
+                type: 'number',
+                description: 'Optional production throughput in units/day for scaling'
+              },
+              layoutStyle: {
+                type: 'string',
+                enum: ['linear', 'clustered', 'compact', 'modular'],
+                description: 'Optional layout style preference'
+              },
+              buildingWidth: {
+                type: 'number',
+                description: 'Optional building width in meters; rooms are packed inside the width x depth footprint'
+              },
+              buildingDepth: {
+                type: 'number',
+                description: 'Optional building depth in meters (used together with buildingWidth)'
+              },
+              seed: {
+                type: 'integer',
+                description: 'Optional seed to reproduce a previously generated layout (returned in the layout metadata)'
+              }
+            },
+            required: ['description']
           }
         }
       ];
 
-      // Call OpenAI with function calling support
-      let completion = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages,
-        tools,
-        tool_choice: 'auto',
-        temperature: 0.7,
-        max_tokens: 2000
-      });
+      // Call the configured LLM provider with function calling support
+      const completion = await this.llm.complete(messages, { tools, toolChoice: 'auto' });
 
       // Handle function calls
-      let responseContent = completion.choices[0]?.message?.content || '';
-      const toolCalls = completion.choices[0]?.message?.tool_calls;
+      let responseContent = completion.content;
+      const toolCalls = completion.toolCalls;
       let generatedLayoutData: any = null; // Track generated layout for action extraction
 
       if (toolCalls && toolCalls.length > 0) {
         console.log(`🔧 AI requested ${toolCalls.length} function call(s)`);
 
         // Execute each function call
-        const toolMessages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
+        const toolMessages: LLMMessage[] = [];
 
         for (const toolCall of toolCalls) {
-          if (toolCall.type === 'function' && toolCall.function.name === 'query_neo4j') {
+          if (toolCall.name === 'query_neo4j') {
             try {
-              const args = JSON.parse(toolCall.function.arguments);
+              const args = JSON.parse(toolCall.arguments);
               console.log(`🔍 Executing Cypher query: ${args.cypher}`);
               console.log(`   Explanation: ${args.explanation}`);
 
@@ -641,7 +638,7 @@ ${request.message}
 
                 toolMessages.push({
                   role: 'tool',
-                  tool_call_id: toolCall.id,
+                  toolCallId: toolCall.id,
                   content: JSON.stringify({
                     success: true,
                     records,
@@ -658,7 +655,7 @@ ${request.message}
               console.error('❌ Neo4j query error:', error);
               toolMessages.push({
                 role: 'tool',
-                tool_call_id: toolCall.id,
+                toolCallId: toolCall.id,
                 content: JSON.stringify({
                   success: false,
                   error: error.message || 'Query execution failed'
@@ -667,10 +664,10 @@ ${request.message}
             }
           }
 
-          if (toolCall.type === 'function' && toolCall.function.name === 'calculate_cost') {
+          if (toolCall.name === 'calculate_cost') {
             try {
               console.log('💰 Calculating project cost...');
-              const args = JSON.parse(toolCall.function.arguments);
+              const args = JSON.parse(toolCall.arguments);
 
               // Map context nodes to room format expected by calculateProjectCost
               // Use the area already calculated on the frontend (in square meters)
@@ -730,7 +727,7 @@ ${request.message}
 
               toolMessages.push({
                 role: 'tool',
-                tool_call_id: toolCall.id,
+                toolCallId: toolCall.id,
                 content: JSON.stringify({
                   success: true,
                   estimate: {
@@ -753,7 +750,7 @@ ${request.message}
               console.error('❌ Cost calculation error:', error);
               toolMessages.push({
                 role: 'tool',
-                tool_call_id: toolCall.id,
+                toolCallId: toolCall.id,
                 content: JSON.stringify({
                   success: false,
                   error: error.message || 'Cost calculation failed'
@@ -762,10 +759,10 @@ ${request.message}
             }
           }
 
-          if (toolCall.type === 'function' && toolCall.function.name === 'generate_layout') {
+          if (toolCall.name === 'generate_layout') {
             try {
               console.log('🏭 Generating pharmaceutical facility layout...');
-              const args = JSON.parse(toolCall.function.arguments);
+              const args = JSON.parse(toolCall.arguments);
 
               // Prepare layout generation parameters
               const params = {
@@ -777,8 +774,12 @@ ${request.message}
                 },
                 constraints: {
                   layoutStyle: args.layoutStyle,
-                  prioritizeFlow: args.prioritizeFlow || 'balanced'
-                }
+                  prioritizeFlow: args.prioritizeFlow || 'balanced',
+                  buildingFootprint: args.buildingWidth > 0 && args.buildingDepth > 0
+                    ? { width: args.buildingWidth, depth: args.buildingDepth }
+                    : undefined
+                },
+                seed: isValidSeed(args.seed) ? args.seed : undefined
               };
 
               // Call layout generation service
@@ -789,7 +790,7 @@ ${request.message}
 
               toolMessages.push({
                 role: 'tool',
-                tool_call_id: toolCall.id,
+                toolCallId: toolCall.id,
                 content: JSON.stringify({
                   success: true,
                   layout: {
@@ -799,7 +800,8 @@ ${request.message}
                     complianceScore: generatedLayout.metadata.complianceScore,
                     warnings: generatedLayout.metadata.warnings,
                     suggestions: generatedLayout.metadata.suggestions,
-                    rationale: generatedLayout.metadata.rationale
+                    rationale: generatedLayout.metadata.rationale,
+                    seed: generatedLayout.metadata.seed
                   }
                 })
               });
@@ -809,7 +811,7 @@ ${request.message}
               console.error('❌ Layout generation error:', error);
               toolMessages.push({
                 role: 'tool',
-                tool_call_id: toolCall.id,
+                toolCallId: toolCall.id,
                 content: JSON.stringify({
                   success: false,
                   error: error.message || 'Layout generation failed'
@@ -819,19 +821,15 @@ ${request.message}
           }
         }
 
-        // If we executed functions, call OpenAI again with the results
+        // If we executed functions, call the provider again with the results
         if (toolMessages.length > 0) {
-          messages.push(completion.choices[0].message as OpenAI.Chat.ChatCompletionMessageParam);
+          messages.push({ role: 'assistant', content: completion.content, toolCalls });
           messages.push(...toolMessages);
 
-          completion = await this.openai.chat.completions.create({
-            model: 'gpt-4o-mini',
-            messages,
-            temperature: 0.7,
-            max_tokens: 2000
-          });
+          // Tools stay declared (Anthropic requires them alongside tool_use history) but may not be called again
+          const followUp = await this.llm.complete(messages, { tools, toolChoice: 'none' });
 
-          responseContent = completion.choices[0]?.message?.content || 'I apologize, I could not generate a response after querying the database.';
+          responseContent = followUp.content || 'I apologize, I could not generate a response after querying the database.';
         }
       }
 
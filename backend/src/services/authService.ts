@@ -0,0 +1,70 @@
+import { createHmac, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import logger from '../utils/logger';
+
+/**
+ * Password hashing and bearer tokens, built on Node's crypto module.
+ *
+ * Tokens are `<payload>.<signature>` with a base64url JSON payload ({ sub, exp }) signed with
+ * HMAC-SHA256. Set AUTH_TOKEN_SECRET so tokens survive restarts and work across instances;
+ * without it a random secret is generated at startup.
+ */
+
+const TOKEN_TTL_HOURS = Number(process.env.AUTH_TOKEN_TTL_HOURS) || 12;
+const SCRYPT_KEY_LENGTH = 64;
+
+let generatedSecret: string | null = null;
+
+// Read lazily: environment variables are loaded after the modules are imported
+const tokenSecret = (): string => {
+  if (process.env.AUTH_TOKEN_SECRET) return process.env.AUTH_TOKEN_SECRET;
+  if (!generatedSecret) {
+    generatedSecret = randomBytes(32).toString('hex');
+    logger.warn('⚠️  AUTH_TOKEN_SECRET is not set - sign-ins will not survive a server restart');
+  }
+  return generatedSecret;
+};
+
+// Local single-user setups and test runs can switch authentication off
+export const isAuthDisabled = (): boolean => process.env.AUTH_DISABLED === 'true';
+
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString('hex');
+  const hash = scryptSync(password, salt, SCRYPT_KEY_LENGTH).toString('hex');
+  return `scrypt:${salt}:${hash}`;
+}
+
+export function verifyPassword(password: string, stored: string | undefined): boolean {
+  const [scheme, salt, hash] = (stored || '').split(':');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+const sign = (payload: string): string => createHmac('sha256', tokenSecret()).update(payload).digest('base64url');
+
+export function issueToken(userId: string, now: Date = new Date()): { token: string; expiresAt: string } {
+  const expiresAt = new Date(now.getTime() + TOKEN_TTL_HOURS * 3600000);
+  const payload = Buffer.from(JSON.stringify({ sub: userId, exp: expiresAt.getTime() })).toString('base64url');
+  return { token: `${payload}.${sign(payload)}`, expiresAt: expiresAt.toISOString() };
+}
+
+/**
+ * User ID of a valid, unexpired token; null otherwise
+ */
+export function verifyToken(token: string | undefined, now: Date = new Date()): string | null {
+  const [payload, signature] = (token || '').split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const { sub, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    return typeof sub === 'string' && typeof exp === 'number' && exp > now.getTime() ? sub : null;
+  } catch {
+    return null;
+  }
+}
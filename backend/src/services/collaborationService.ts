@@ -0,0 +1,414 @@
+import { IncomingMessage, Server } from 'http';
+import { randomUUID } from 'crypto';
+import WebSocket, { RawData, WebSocketServer } from 'ws';
+import {
+  CollaborationClientMessage,
+  CollaborationPresence,
+  CollaborationServerMessage,
+  CollaborationState,
+  LayoutOperation,
+  LayoutOperationRejection,
+  User
+} from '../types';
+import Neo4jService from '../config/database';
+import { applyLayoutOperation, createEmptyCollaborationState, sanitizeCollaborationState } from './layoutOperations';
+import { isAuthDisabled } from './authService';
+import { authenticateToken } from '../middleware/auth';
+import { ProjectModel } from '../models/Project';
+import { hasRole } from '../models/User';
+import logger from '../utils/logger';
+
+export const COLLABORATION_PATH = '/api/collaboration';
+
+// Dead connections are dropped after missing one ping
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+const USER_COLORS = ['#e53935', '#1e88e5', '#43a047', '#fb8c00', '#8e24aa', '#00897b', '#d81b60', '#6d4c41'];
+
+interface CollaborationClient {
+  socket: WebSocket;
+  presence: CollaborationPresence;
+  isAlive: boolean;
+}
+
+// Live editing session of one layout; exists while at least one client is connected
+interface CollaborationSession {
+  layoutId: string;
+  version: number; // Number of accepted operation batches; above 0 the state differs from what was loaded
+  state: CollaborationState;
+  clients: Map<string, CollaborationClient>;
+}
+
+/**
+ * Real-time collaborative layout editing over WebSocket.
+ *
+ * The server is the single sequencer of each layout session: operations are applied in
+ * arrival order and broadcast to every client with the new session version, so all clients
+ * see the same order and converge. Cursors and selections are relayed as presence and never
+ * touch the layout state. Sessions live in memory and start from the layout saved in Neo4j;
+ * saving a layout still goes through the REST API. When the last client leaves a session with
+ * accepted edits, its state is kept on the layout as a draft, and the next session starts from the
+ * draft unless the layout was saved after it.
+ *
+ * Browsers cannot set headers on a WebSocket, so the bearer token comes as `?token=`. Members
+ * of the project owning the layout (or anyone for unassigned layouts) may join; only designers
+ * and above may edit.
+ */
+export class CollaborationService {
+  private static instance: CollaborationService;
+  private wss: WebSocketServer | null = null;
+  private heartbeat: NodeJS.Timeout | null = null;
+  private sessions = new Map<string, CollaborationSession>();
+  // Drafts still being written, awaited before a new session of the same layout loads
+  private pendingDrafts = new Map<string, Promise<void>>();
+  private projectModel = new ProjectModel();
+
+  private constructor() {}
+
+  public static getInstance(): CollaborationService {
+    if (!CollaborationService.instance) {
+      CollaborationService.instance = new CollaborationService();
+    }
+    return CollaborationService.instance;
+  }
+
+  /**
+   * Accept WebSocket connections on the HTTP server of the Express app
+   */
+  public attach(server: Server): void {
+    if (this.wss) return;
+
+    this.wss = new WebSocketServer({ server, path: COLLABORATION_PATH });
+    this.wss.on('connection', (socket, request) => this.handleConnection(socket, request));
+
+    this.heartbeat = setInterval(() => this.checkConnections(), HEARTBEAT_INTERVAL_MS);
+    this.heartbeat.unref();
+
+    logger.emoji('🤝', `Collaboration channel listening on ${COLLABORATION_PATH}`);
+  }
+
+  public close(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+    this.wss?.clients.forEach(socket => socket.terminate());
+    this.wss?.close();
+    this.wss = null;
+    this.sessions.forEach(session => {
+      if (session.version > 0) this.saveDraft(session);
+    });
+    this.sessions.clear();
+  }
+
+  private handleConnection(socket: WebSocket, request: IncomingMessage): void {
+    // Set once the client has joined a layout session
+    let joined: { session: CollaborationSession; clientId: string; canEdit: boolean } | null = null;
+
+    const token = new URL(request.url || '', 'http://localhost').searchParams.get('token') || undefined;
+    const authenticated = authenticateToken(token).catch(error => {
+      logger.error('❌ Collaboration authentication error:', error);
+      return null;
+    });
+    authenticated.then(user => {
+      if (!user) socket.close(4401, 'Authentication required');
+    });
+
+    // Messages are handled one at a time, in order, once the user is known
+    let queue: Promise<unknown> = authenticated;
+
+    const handleMessage = async (data: RawData, user: User | null) => {
+      if (!user) return;
+
+      let message: CollaborationClientMessage;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        this.send(socket, { type: 'error', error: 'Message is not valid JSON' });
+        return;
+      }
+
+      if (message.type === 'join') {
+        if (joined) {
+          this.send(socket, { type: 'error', error: 'Already joined a layout; reconnect to switch layouts' });
+          return;
+        }
+        if (typeof message.layoutId !== 'string' || !message.layoutId) {
+          this.send(socket, { type: 'error', error: 'layoutId is required' });
+          return;
+        }
+
+        // Admins may open every layout
+        const access = user.role === 'admin' ? null : await this.projectModel.getResourceAccess('Layout', message.layoutId, user);
+        const role = access ? access.role : user.role;
+        if (!role || socket.readyState !== WebSocket.OPEN) {
+          this.send(socket, { type: 'error', error: 'Not a member of the project owning this layout' });
+          return;
+        }
+
+        // Signed-in users appear under their account name
+        const name = isAuthDisabled() ? message.name : user.name;
+        const canEdit = hasRole(role, 'designer');
+        const session = await this.join(socket, { ...message, name }, canEdit);
+        joined = session && { ...session, canEdit };
+        return;
+      }
+
+      if (!joined) {
+        this.send(socket, { type: 'error', error: 'Join a layout before sending edits' });
+        return;
+      }
+
+      switch (message.type) {
+        case 'op':
+          if (!joined.canEdit) {
+            this.send(socket, { type: 'error', error: 'Requires the designer role' });
+            break;
+          }
+          this.handleOperations(joined.session, joined.clientId, message.clientSeq, message.operations);
+          break;
+        case 'presence':
+          this.handlePresence(joined.session, joined.clientId, message);
+          break;
+        case 'leave':
+          socket.close();
+          break;
+        default:
+          this.send(socket, { type: 'error', error: 'Unknown message type' });
+      }
+    };
+
+    socket.on('message', (data: RawData) => {
+      queue = queue
+        .then(() => authenticated)
+        .then(user => handleMessage(data, user))
+        .catch(error => logger.error('❌ Collaboration message error:', error));
+    });
+
+    socket.on('pong', () => {
+      if (joined) {
+        const client = joined.session.clients.get(joined.clientId);
+        if (client) client.isAlive = true;
+      }
+    });
+
+    socket.on('close', () => {
+      if (joined) {
+        this.leave(joined.session, joined.clientId);
+        joined = null;
+      }
+    });
+
+    socket.on('error', (error) => {
+      logger.error('❌ Collaboration socket error:', error);
+    });
+  }
+
+  /**
+   * Layout collections as last saved, or the draft of the previous session when it is newer.
+   * Null when the layout has never been saved and has no draft.
+   */
+  private async loadSavedState(layoutId: string): Promise<CollaborationState | null> {
+    await this.pendingDrafts.get(layoutId);
+    const session = Neo4jService.getInstance().getDriver().session();
+
+    try {
+      const result = await session.run(
+        `MATCH (l:Layout {id: $layoutId})
+         RETURN l.data as data,
+                CASE WHEN l.updatedAt IS NULL OR l.collaborationDraftAt > l.updatedAt THEN l.collaborationDraft END as draft`,
+        { layoutId }
+      );
+      const record = result.records[0];
+      const saved = record?.get('draft') ?? record?.get('data');
+      return saved ? sanitizeCollaborationState(JSON.parse(saved)) : null;
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Keep the edits of a closed session on the layout so they are not lost when nobody saved them
+   */
+  private saveDraft(session: CollaborationSession): void {
+    const { layoutId, state } = session;
+    const write = (async () => {
+      const dbSession = Neo4jService.getInstance().getDriver().session();
+      try {
+        await dbSession.run(
+          `MATCH (l:Layout {id: $layoutId})
+           SET l.collaborationDraft = $draft, l.collaborationDraftAt = datetime()`,
+          { layoutId, draft: JSON.stringify(state) }
+        );
+        logger.emoji('💾', `Collaboration draft kept for layout ${layoutId}`);
+      } catch (error) {
+        logger.error('❌ Failed to keep collaboration draft:', error);
+      } finally {
+        await dbSession.close();
+      }
+    })();
+
+    this.pendingDrafts.set(layoutId, write);
+    write.then(() => {
+      if (this.pendingDrafts.get(layoutId) === write) this.pendingDrafts.delete(layoutId);
+    });
+  }
+
+  /**
+   * The first client opens the session with the saved layout; later clients receive the session state.
+   * Only a layout that was never saved starts from the joining client's copy, and only for editors.
+   * Returns null when the socket closed while the layout was loading.
+   */
+  private async join(
+    socket: WebSocket,
+    message: Extract<CollaborationClientMessage, { type: 'join' }>,
+    canEdit: boolean
+  ): Promise<{ session: CollaborationSession; clientId: string } | null> {
+    let session = this.sessions.get(message.layoutId);
+    if (!session) {
+      let saved: CollaborationState | null;
+      try {
+        saved = await this.loadSavedState(message.layoutId);
+      } catch (error) {
+        logger.error('❌ Failed to load layout for collaboration:', error);
+        this.send(socket, { type: 'error', error: 'Failed to load the layout' });
+        return null;
+      }
+
+      // Another client may have opened the session while the layout was loading
+      session = this.sessions.get(message.layoutId);
+      if (!session) {
+        session = {
+          layoutId: message.layoutId,
+          version: 0,
+          state: saved ?? (canEdit ? sanitizeCollaborationState(message.state) : createEmptyCollaborationState()),
+          clients: new Map(),
+        };
+        this.sessions.set(message.layoutId, session);
+        logger.emoji('🤝', `Collaboration session opened for layout ${message.layoutId}`);
+      }
+    }
+    if (socket.readyState !== WebSocket.OPEN) {
+      if (session.clients.size === 0) this.sessions.delete(session.layoutId);
+      return null;
+    }
+
+    const clientId = randomUUID();
+    const usedColors = new Set(Array.from(session.clients.values()).map(client => client.presence.color));
+    const color = USER_COLORS.find(c => !usedColors.has(c)) || USER_COLORS[session.clients.size % USER_COLORS.length];
+    const presence: CollaborationPresence = {
+      clientId,
+      name: (typeof message.name === 'string' && message.name.trim()) || 'Anonymous',
+      color,
+      selection: [],
+    };
+
+    const users = Array.from(session.clients.values()).map(client => client.presence);
+    session.clients.set(clientId, { socket, presence, isAlive: true });
+
+    this.send(socket, { type: 'welcome', clientId, color, version: session.version, state: session.state, users });
+    this.broadcast(session, { type: 'user-joined', user: presence }, clientId);
+
+    return { session, clientId };
+  }
+
+  private leave(session: CollaborationSession, clientId: string): void {
+    if (!session.clients.delete(clientId)) return;
+
+    this.broadcast(session, { type: 'user-left', clientId });
+    if (session.clients.size === 0) {
+      this.sessions.delete(session.layoutId);
+      if (session.version > 0) this.saveDraft(session);
+      logger.emoji('🤝', `Collaboration session closed for layout ${session.layoutId}`);
+    }
+  }
+
+  /**
+   * Apply a batch in server order. The sender always gets the 'op' acknowledgement for its
+   * clientSeq, listing only the operations that were accepted, so it can rebase its pending edits.
+   */
+  private handleOperations(
+    session: CollaborationSession,
+    clientId: string,
+    clientSeq: number,
+    operations: LayoutOperation[]
+  ): void {
+    const sender = session.clients.get(clientId);
+    if (!sender) return;
+    if (!Array.isArray(operations) || typeof clientSeq !== 'number') {
+      this.send(sender.socket, { type: 'error', error: 'op messages need a clientSeq and an operations array' });
+      return;
+    }
+
+    const accepted: LayoutOperation[] = [];
+    const rejected: Array<{ operation: LayoutOperation; reason: LayoutOperationRejection }> = [];
+
+    operations.forEach(operation => {
+      const result = applyLayoutOperation(session.state, operation);
+      if (result.applied) {
+        session.state = result.state;
+        accepted.push(operation);
+      } else {
+        rejected.push({ operation, reason: result.reason });
+      }
+    });
+
+    if (accepted.length > 0) {
+      session.version++;
+    }
+    if (rejected.length > 0) {
+      this.send(sender.socket, { type: 'rejected', clientSeq, version: session.version, operations: rejected });
+    }
+
+    this.send(sender.socket, { type: 'op', version: session.version, clientId, clientSeq, operations: accepted });
+    if (accepted.length > 0) {
+      this.broadcast(session, { type: 'op', version: session.version, clientId, clientSeq, operations: accepted }, clientId);
+    }
+  }
+
+  private handlePresence(
+    session: CollaborationSession,
+    clientId: string,
+    message: Extract<CollaborationClientMessage, { type: 'presence' }>
+  ): void {
+    const client = session.clients.get(clientId);
+    if (!client) return;
+
+    client.presence = {
+      ...client.presence,
+      cursor: message.cursor,
+      selection: Array.isArray(message.selection) ? message.selection : client.presence.selection,
+      levelId: message.levelId ?? client.presence.levelId,
+    };
+    this.broadcast(session, { type: 'presence', user: client.presence }, clientId);
+  }
+
+  private checkConnections(): void {
+    this.sessions.forEach(session => {
+      session.clients.forEach(client => {
+        if (!client.isAlive) {
+          client.socket.terminate();
+          return;
+        }
+        client.isAlive = false;
+        client.socket.ping();
+      });
+    });
+  }
+
+  private broadcast(session: CollaborationSession, message: CollaborationServerMessage, exceptClientId?: string): void {
+    session.clients.forEach((client, clientId) => {
+      if (clientId !== exceptClientId) {
+        this.send(client.socket, message);
+      }
+    });
+  }
+
+  private send(socket: WebSocket, message: CollaborationServerMessage): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }
+}
+
+export default CollaborationService;
@@ -0,0 +1,290 @@
+import { EQUIPMENT_CATALOG } from '../config/costConfiguration';
+import {
+  CostComparisonCategory,
+  CostComparisonLine,
+  CostDeltaDriver,
+  CostDeltaExplanation,
+  CostEstimateComparison,
+  ProjectCostEstimate
+} from '../../../shared/types';
+
+export interface CostComparisonAlternative {
+  id: string;
+  name: string;
+  source: CostEstimateComparison['alternatives'][number]['source'];
+  estimate: ProjectCostEstimate;
+}
+
+type EstimateRoom = ProjectCostEstimate['rooms'][number];
+type RoomDrivers = CostDeltaExplanation['rooms'][number]['drivers'];
+
+const UNKNOWN_CLASS = 'Unknown';
+
+// Differences smaller than this (in the estimate currency) are treated as no difference
+const MIN_DELTA = 0.5;
+
+const DRIVER_LABELS: Record<CostDeltaDriver, string> = {
+  area: 'area changes',
+  cleanroomClass: 'cleanroom class changes',
+  equipment: 'equipment changes',
+  other: 'other changes (cost factors, price settings or room types)',
+  contingency: 'contingency'
+};
+
+const CATEGORY_VALUES: Record<Exclude<CostComparisonCategory, 'contingency' | 'total'>, (room: EstimateRoom) => number> = {
+  construction: room => room.costBreakdown.constructionCost,
+  hvac: room => room.costBreakdown.hvacCost,
+  equipment: room => room.costBreakdown.equipmentPurchaseCost + room.costBreakdown.equipmentInstallationCost,
+  validation: room => room.costBreakdown.validationCost,
+  other: room => room.costBreakdown.otherCosts
+};
+
+// Cost breakdown values every compared room must have
+const BREAKDOWN_FIELDS = [
+  'constructionCost',
+  'hvacCost',
+  'equipmentPurchaseCost',
+  'equipmentInstallationCost',
+  'validationCost',
+  'otherCosts',
+  'totalCost'
+] as const;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * A message when an estimate cannot be compared: the explanation divides by room areas and adds
+ * up the cost breakdowns, so every room needs a name, an area above 0 and a breakdown of numbers
+ */
+export function comparableEstimateError(estimate: ProjectCostEstimate): string | null {
+  if (!isFiniteNumber(estimate.contingency) || !isFiniteNumber(estimate.grandTotal)) {
+    return 'contingency and grandTotal must be numbers';
+  }
+
+  for (const [index, room] of estimate.rooms.entries()) {
+    if (!room || typeof room !== 'object' || typeof room.roomName !== 'string') {
+      return `rooms[${index}] must be a room with a roomName`;
+    }
+    if (!isFiniteNumber(room.area) || room.area <= 0) {
+      return `rooms[${index}].area must be a number greater than 0`;
+    }
+    if (room.equipment !== undefined && !Array.isArray(room.equipment)) {
+      return `rooms[${index}].equipment must be an array`;
+    }
+
+    const breakdown = room.costBreakdown;
+    const invalidField = BREAKDOWN_FIELDS.find(field => !isFiniteNumber(breakdown?.[field]));
+    if (invalidField) {
+      return `rooms[${index}].costBreakdown.${invalidField} must be a number`;
+    }
+    if (breakdown.equipmentValidationCost !== undefined && !isFiniteNumber(breakdown.equipmentValidationCost)) {
+      return `rooms[${index}].costBreakdown.equipmentValidationCost must be a number`;
+    }
+  }
+  return null;
+}
+
+const classOf = (room: EstimateRoom): string => room.cleanroomClass?.toUpperCase?.() || UNKNOWN_CLASS;
+
+// Purchase, installation and validation of the room's equipment
+const equipmentCostOf = (room: EstimateRoom): number =>
+  room.costBreakdown.equipmentPurchaseCost + room.costBreakdown.equipmentInstallationCost + (room.costBreakdown.equipmentValidationCost || 0);
+
+const equipmentName = (equipmentId: string): string =>
+  EQUIPMENT_CATALOG.find(item => item.id === equipmentId)?.name || equipmentId;
+
+const formatAmount = (value: number, currency: string): string =>
+  `${Math.round(Math.abs(value)).toLocaleString('en-US')} ${currency}`;
+
+const formatSigned = (value: number, currency: string): string =>
+  `${value < 0 ? '-' : '+'}${formatAmount(value, currency)}`;
+
+// Rooms of an estimate by comparison key: the room ID, numbered when several rooms share it
+const keyRooms = (estimate: ProjectCostEstimate): Map<string, EstimateRoom> => {
+  const rooms = new Map<string, EstimateRoom>();
+  const seen = new Map<string, number>();
+
+  for (const room of estimate.rooms) {
+    const id = room.roomId || room.roomName;
+    const count = (seen.get(id) || 0) + 1;
+    seen.set(id, count);
+    rooms.set(count === 1 ? id : `${id}#${count}`, room);
+  }
+  return rooms;
+};
+
+const line = (values: Array<number | null>): CostComparisonLine => ({
+  values,
+  deltas: values.map(value => (value === null || values[0] === null ? null : value - values[0]))
+});
+
+// Equipment added to or removed from a room, e.g. "+ Autoclave, - Isolator"
+const equipmentChanges = (before: string[], after: string[]): string[] => {
+  const remaining = [...before];
+  const added: string[] = [];
+  for (const equipmentId of after) {
+    const index = remaining.indexOf(equipmentId);
+    if (index >= 0) remaining.splice(index, 1);
+    else added.push(equipmentId);
+  }
+  return [...added.map(id => `+ ${equipmentName(id)}`), ...remaining.map(id => `- ${equipmentName(id)}`)];
+};
+
+/**
+ * Split the cost difference of one room. The room cost without equipment is taken as area times
+ * a rate: the area change is priced at the baseline rate, and the rate change on the new area
+ * goes to the cleanroom class when the class changed, to other changes otherwise.
+ */
+const explainRoom = (key: string, before: EstimateRoom | undefined, after: EstimateRoom | undefined): CostDeltaExplanation['rooms'][number] => {
+  const drivers: RoomDrivers = { area: 0, cleanroomClass: 0, equipment: 0, other: 0 };
+  const notes: string[] = [];
+
+  if (before && after) {
+    const facilityBefore = before.costBreakdown.totalCost - equipmentCostOf(before);
+    const facilityAfter = after.costBreakdown.totalCost - equipmentCostOf(after);
+    const classChanged = classOf(before) !== classOf(after);
+
+    drivers.area = (after.area - before.area) * (facilityBefore / before.area);
+    drivers[classChanged ? 'cleanroomClass' : 'other'] = facilityAfter - facilityBefore - drivers.area;
+    drivers.equipment = equipmentCostOf(after) - equipmentCostOf(before);
+
+    if (after.area !== before.area) notes.push(`area ${before.area} → ${after.area} m²`);
+    if (classChanged) notes.push(`class ${classOf(before)} → ${classOf(after)}`);
+    if (before.equipment && after.equipment) notes.push(...equipmentChanges(before.equipment, after.equipment));
+    if (after.roomType && before.roomType && after.roomType !== before.roomType) notes.push(`room type ${before.roomType} → ${after.roomType}`);
+  } else {
+    // An added room counts as new area, a removed one as area taken away
+    const room = (after || before)!;
+    const sign = after ? 1 : -1;
+    drivers.area = sign * (room.costBreakdown.totalCost - equipmentCostOf(room));
+    drivers.equipment = sign * equipmentCostOf(room);
+    notes.push(`${after ? 'added' : 'removed'}: ${room.area} m², class ${classOf(room)}`);
+  }
+
+  return {
+    key,
+    roomName: (after || before)!.roomName,
+    change: before && after ? 'changed' : after ? 'added' : 'removed',
+    delta: (after?.costBreakdown.totalCost || 0) - (before?.costBreakdown.totalCost || 0),
+    drivers,
+    notes
+  };
+};
+
+const summarize = (
+  alternative: CostComparisonAlternative,
+  baseline: CostComparisonAlternative,
+  explanation: Omit<CostDeltaExplanation, 'summary'>,
+  currency: string
+): string => {
+  const { totalDelta } = explanation;
+  if (Math.abs(totalDelta) < MIN_DELTA) {
+    return `${alternative.name} costs the same as ${baseline.name}.`;
+  }
+
+  const percent = baseline.estimate.grandTotal ? ` (${totalDelta < 0 ? '' : '+'}${((totalDelta / baseline.estimate.grandTotal) * 100).toFixed(1)}%)` : '';
+  const drivers = (Object.entries(explanation.drivers) as Array<[CostDeltaDriver, number]>)
+    .filter(([, value]) => Math.abs(value) >= MIN_DELTA)
+    .sort((a, b) => Math.abs(b[1]) - Math.abs(a[1]))
+    .map(([driver, value]) => `${formatSigned(value, currency)} from ${DRIVER_LABELS[driver]}`);
+  const rooms = explanation.rooms.slice(0, 3)
+    .map(room => `${room.roomName} ${formatSigned(room.delta, currency)}${room.notes.length > 0 ? ` (${room.notes.join(', ')})` : ''}`);
+
+  return [
+    `${alternative.name} costs ${formatAmount(totalDelta, currency)} ${totalDelta > 0 ? 'more' : 'less'} than ${baseline.name}${percent}: ${drivers.join(', ')}.`,
+    ...(rooms.length > 0 ? [`Largest room differences: ${rooms.join('; ')}.`] : [])
+  ].join(' ');
+};
+
+/**
+ * Side-by-side comparison of estimates in one currency: values and deltas against the baseline
+ * per room, cost category and cleanroom class, and an explanation of each alternative's difference
+ * by area, cleanroom class, equipment and other changes
+ */
+export function compareCostEstimates(alternatives: CostComparisonAlternative[], baselineId?: string): CostEstimateComparison {
+  const baselineIndex = Math.max(0, alternatives.findIndex(alternative => alternative.id === baselineId));
+  // Baseline first, so the first value of every line is the one deltas are taken against
+  const ordered = [alternatives[baselineIndex], ...alternatives.filter((_, index) => index !== baselineIndex)];
+  const baseline = ordered[0];
+  const currency = baseline.estimate.currency;
+
+  const keyed = ordered.map(alternative => keyRooms(alternative.estimate));
+  const keys = [...new Set(keyed.flatMap(rooms => [...rooms.keys()]))];
+
+  const rooms = keys.map(key => {
+    const entries = keyed.map(roomsByKey => roomsByKey.get(key));
+    return {
+      key,
+      roomName: entries.find(Boolean)!.roomName,
+      areas: entries.map(room => room?.area ?? null),
+      cleanroomClasses: entries.map(room => (room ? classOf(room) : null)),
+      ...line(entries.map(room => room?.costBreakdown.totalCost ?? null))
+    };
+  });
+
+  const categories = [
+    ...(Object.keys(CATEGORY_VALUES) as Array<keyof typeof CATEGORY_VALUES>).map(category => ({
+      category,
+      ...line(ordered.map(({ estimate }) => estimate.rooms.reduce((sum, room) => sum + CATEGORY_VALUES[category](room), 0)))
+    })),
+    { category: 'contingency' as const, ...line(ordered.map(({ estimate }) => estimate.contingency)) },
+    { category: 'total' as const, ...line(ordered.map(({ estimate }) => estimate.grandTotal)) }
+  ];
+
+  const classNames = [...new Set(ordered.flatMap(({ estimate }) => estimate.rooms.map(classOf)))].sort();
+  const cleanroomClasses = classNames.map(cleanroomClass => {
+    const classRooms = ordered.map(({ estimate }) => estimate.rooms.filter(room => classOf(room) === cleanroomClass));
+    return {
+      cleanroomClass,
+      areas: classRooms.map(list => list.reduce((sum, room) => sum + room.area, 0)),
+      ...line(classRooms.map(list => list.reduce((sum, room) => sum + room.costBreakdown.totalCost, 0)))
+    };
+  });
+
+  const explanations = ordered.slice(1).map((alternative, offset) => {
+    const roomsByKey = keyed[offset + 1];
+    const roomExplanations = keys
+      .filter(key => keyed[0].has(key) || roomsByKey.has(key))
+      .map(key => explainRoom(key, keyed[0].get(key), roomsByKey.get(key)));
+
+    const drivers: Record<CostDeltaDriver, number> = {
+      area: 0,
+      cleanroomClass: 0,
+      equipment: 0,
+      other: 0,
+      contingency: alternative.estimate.contingency - baseline.estimate.contingency
+    };
+    for (const room of roomExplanations) {
+      for (const driver of Object.keys(room.drivers) as Array<keyof RoomDrivers>) {
+        drivers[driver] += room.drivers[driver];
+      }
+    }
+
+    const explanation = {
+      alternativeId: alternative.id,
+      totalDelta: alternative.estimate.grandTotal - baseline.estimate.grandTotal,
+      drivers,
+      rooms: roomExplanations
+        .filter(room => room.change !== 'changed' || room.notes.length > 0 || Math.abs(room.delta) >= MIN_DELTA)
+        .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))
+    };
+    return { ...explanation, summary: summarize(alternative, baseline, explanation, currency) };
+  });
+
+  return {
+    currency,
+    baselineId: baseline.id,
+    alternatives: ordered.map(alternative => {
+      const delta = alternative.estimate.grandTotal - baseline.estimate.grandTotal;
+      return {
+        ...alternative,
+        delta,
+        deltaPercent: baseline.estimate.grandTotal ? (delta / baseline.estimate.grandTotal) * 100 : null
+      };
+    }),
+    rooms,
+    categories,
+    cleanroomClasses,
+    explanations
+  };
+}
@@ -24,6 +24,7 @@ class CostDatabaseService {
   private readonly filePath: string;
   private initialized = false;
   private defaultFactors: Record<string, RoomCostFactors> = {};
+  private writeQueue: Promise<unknown> = Promise.resolve();
 
   private constructor() {
     this.filePath = path.join(process.cwd(), 'backend', 'data', 'cleanroom-costs.json');
@@ -76,80 +77,107 @@ class CostDatabaseService {
     return this.data?.updatedAt || null;
   }
 
-  public async upsertCleanroomCostProfile(input: CleanroomCostProfileInput): Promise<CleanroomCostProfile> {
-    await this.ensureDataLoaded();
-
-    const normalizedClass = input.cleanroomClass?.toUpperCase();
-    if (!normalizedClass) {
-      throw new Error('Cleanroom class is required');
-    }
-
-    const timestamp = new Date().toISOString();
-    const normalizedUnitType = input.unitType
-      ? input.unitType
-      : input.unitLabel?.toLowerCase() === 'm²'
-        ? 'sqm'
-        : undefined;
-    const unitType = normalizedUnitType || 'sqm';
-
-    const payload: CleanroomCostProfile = {
-      id: input.id || randomUUID(),
-      cleanroomClass: normalizedClass,
-      name: input.name || `Class ${normalizedClass}`,
-      description: input.description,
-      baseConstructionCostPerSqm: Number(input.baseConstructionCostPerSqm),
-      cleanroomMultiplier: Number(input.cleanroomMultiplier || 1),
-      hvacCostPerSqm: Number(input.hvacCostPerSqm),
-      validationCostPerSqm: Number(input.validationCostPerSqm),
-      currency: input.currency || 'USD',
-      unitType: unitType,
-      unitLabel: input.unitLabel || (unitType === 'sqm' ? 'm²' : unitType),
-      notes: input.notes,
-      isDefault: false,
-      createdAt: input.id
-        ? this.findProfileById(input.id)?.createdAt || timestamp
-        : timestamp,
-      updatedAt: timestamp
-    };
+  /**
+   * `recordChange` receives the profile that is replaced, if any, and the saved one; it runs
+   * before anything is written, so a change that cannot be recorded is not made
+   */
+  public async upsertCleanroomCostProfile(
+    input: CleanroomCostProfileInput,
+    recordChange?: (before: CleanroomCostProfile | undefined, profile: CleanroomCostProfile) => Promise<unknown>
+  ): Promise<CleanroomCostProfile> {
+    return this.serialize(async () => {
+      await this.ensureDataLoaded();
+
+      const normalizedClass = input.cleanroomClass?.toUpperCase();
+      if (!normalizedClass) {
+        throw new Error('Cleanroom class is required');
+      }
 
-    const existingByIdIndex = input.id
-      ? this.data!.cleanroomCosts.findIndex(profile => profile.id === input.id)
-      : -1;
+      const timestamp = new Date().toISOString();
+      const normalizedUnitType = input.unitType
+        ? input.unitType
+        : input.unitLabel?.toLowerCase() === 'm²'
+          ? 'sqm'
+          : undefined;
+      const unitType = normalizedUnitType || 'sqm';
+
+      const payload: CleanroomCostProfile = {
+        id: input.id || randomUUID(),
+        cleanroomClass: normalizedClass,
+        name: input.name || `Class ${normalizedClass}`,
+        description: input.description,
+        baseConstructionCostPerSqm: Number(input.baseConstructionCostPerSqm),
+        cleanroomMultiplier: Number(input.cleanroomMultiplier || 1),
+        hvacCostPerSqm: Number(input.hvacCostPerSqm),
+        validationCostPerSqm: Number(input.validationCostPerSqm),
+        currency: input.currency || 'USD',
+        unitType: unitType,
+        unitLabel: input.unitLabel || (unitType === 'sqm' ? 'm²' : unitType),
+        notes: input.notes,
+        isDefault: false,
+        createdAt: input.id
+          ? this.findProfileById(input.id)?.createdAt || timestamp
+          : timestamp,
+        updatedAt: timestamp
+      };
 
-    const existingByClassIndex = this.data!.cleanroomCosts.findIndex(
-      profile => profile.cleanroomClass.toUpperCase() === normalizedClass
-    );
+      const cleanroomCosts = [...this.data!.cleanroomCosts];
+      const existingByIdIndex = input.id
+        ? cleanroomCosts.findIndex(profile => profile.id === input.id)
+        : -1;
+
+      const existingByClassIndex = cleanroomCosts.findIndex(
+        profile => profile.cleanroomClass.toUpperCase() === normalizedClass
+      );
+
+      let replaced: CleanroomCostProfile | undefined;
+      if (existingByIdIndex !== -1) {
+        replaced = cleanroomCosts[existingByIdIndex];
+        cleanroomCosts[existingByIdIndex] = {
+          ...replaced,
+          ...payload
+        };
+      } else if (existingByClassIndex !== -1) {
+        // Replace by class to keep one entry per grade
+        replaced = cleanroomCosts[existingByClassIndex];
+        cleanroomCosts[existingByClassIndex] = {
+          ...replaced,
+          ...payload,
+          id: payload.id,
+          createdAt: replaced.createdAt || payload.createdAt
+        };
+      } else {
+        cleanroomCosts.push(payload);
+      }
 
-    if (existingByIdIndex !== -1) {
-      this.data!.cleanroomCosts[existingByIdIndex] = {
-        ...this.data!.cleanroomCosts[existingByIdIndex],
-        ...payload
-      };
-    } else if (existingByClassIndex !== -1) {
-      // Replace by class to keep one entry per grade
-      const existing = this.data!.cleanroomCosts[existingByClassIndex];
-      this.data!.cleanroomCosts[existingByClassIndex] = {
-        ...existing,
-        ...payload,
-        id: payload.id,
-        createdAt: existing.createdAt || payload.createdAt
-      };
-    } else {
-      this.data!.cleanroomCosts.push(payload);
-    }
+      await recordChange?.(replaced, payload);
+      this.data!.cleanroomCosts = cleanroomCosts;
+      await this.persist();
+      return payload;
+    });
+  }
 
-    await this.persist();
-    return payload;
+  public async deleteCleanroomCostProfile(
+    id: string,
+    recordChange?: (before: CleanroomCostProfile) => Promise<unknown>
+  ): Promise<void> {
+    return this.serialize(async () => {
+      await this.ensureDataLoaded();
+      const existing = this.data!.cleanroomCosts.find(profile => profile.id === id);
+      if (!existing) {
+        throw new Error('Profile not found');
+      }
+      await recordChange?.(existing);
+      this.data!.cleanroomCosts = this.data!.cleanroomCosts.filter(profile => profile.id !== id);
+      await this.persist();
+    });
   }
 
-  public async deleteCleanroomCostProfile(id: string): Promise<void> {
-    await this.ensureDataLoaded();
-    const initialLength = this.data!.cleanroomCosts.length;
-    this.data!.cleanroomCosts = this.data!.cleanroomCosts.filter(profile => profile.id !== id);
-    if (this.data!.cleanroomCosts.length === initialLength) {
-      throw new Error('Profile not found');
-    }
-    await this.persist();
+  // Runs changes one at a time, so a change never works on a copy another one is about to replace
+  private serialize<T>(work: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(work);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
   }
 
   private async ensureDataLoaded(): Promise<void> {
@@ -0,0 +1,226 @@
+import {
+  EQUIPMENT_CATALOG,
+  ROOM_TYPE_COST_ADJUSTMENTS,
+  getPriceFactor,
+  getRoomCostFactors
+} from '../config/costConfiguration';
+import { ProjectCostEstimate, RoomCostFactors } from '../../../shared/types';
+import { XlsxCell, XlsxWorkbook, buildXlsx } from './xlsxWriter';
+
+export interface CostExportInput {
+  projectName?: string;
+  estimate: ProjectCostEstimate; // As built by buildProjectCostEstimate, so rooms carry class, room type and equipment
+  cleanroomOverrides?: Record<string, RoomCostFactors | undefined>;
+  baseCurrency: string; // Currency of the cost factors and equipment prices
+}
+
+type EstimateRoom = ProjectCostEstimate['rooms'][number];
+
+const unitTypeOf = (factors: RoomCostFactors): string => (factors.unitType || 'sqm').toLowerCase();
+
+const header = (...labels: string[]): XlsxCell[] => labels.map(value => ({ value, style: 'header' as const }));
+
+const amount = (formula: string, value: number): XlsxCell => ({ formula, value, style: 'amount' });
+
+// Equipment of each room with the number of units, in the order it was listed
+const equipmentUnits = (room: EstimateRoom): Array<{ equipmentId: string; quantity: number }> =>
+  (room.equipment || []).reduce<Array<{ equipmentId: string; quantity: number }>>((units, equipmentId) => {
+    const existing = units.find(unit => unit.equipmentId === equipmentId);
+    if (existing) existing.quantity += 1;
+    else if (EQUIPMENT_CATALOG.some(item => item.id === equipmentId)) units.push({ equipmentId, quantity: 1 });
+    return units;
+  }, []);
+
+/**
+ * Workbook of an estimate with its inputs on separate sheets. Room and equipment costs are
+ * formulas over the cost factors, room type factors and the Settings sheet, so changing an
+ * assumption recalculates the estimate.
+ */
+export function buildCostEstimateWorkbook({ projectName, estimate, cleanroomOverrides, baseCurrency }: CostExportInput): XlsxWorkbook {
+  const { settings } = estimate;
+  const priceFactor = getPriceFactor(settings);
+  const classes = [...new Set(estimate.rooms.map(room => room.cleanroomClass || 'CNC'))];
+  const factorsLookup = `'Cost Factors'!$A:$E`;
+
+  const costFactors: XlsxCell[][] = [
+    header('Cleanroom class', `Construction per unit (${baseCurrency})`, `HVAC per unit (${baseCurrency})`, `Validation per unit (${baseCurrency})`, 'Unit basis'),
+    ...classes.map(cleanroomClass => {
+      const factors = getRoomCostFactors(cleanroomClass, cleanroomOverrides);
+      return [
+        cleanroomClass,
+        { value: factors.baseConstructionCostPerSqm, style: 'amount' as const },
+        { value: factors.hvacCostPerSqm, style: 'amount' as const },
+        { value: factors.validationCostPerSqm, style: 'amount' as const },
+        unitTypeOf(factors)
+      ];
+    })
+  ];
+
+  const equipmentRows: XlsxCell[][] = [];
+  const rooms: XlsxCell[][] = [
+    header(
+      'No.', 'Room ID', 'Room', 'Room type', 'Cleanroom class', 'Area (m²)', 'Room type factor', 'Quantity',
+      'Construction', 'HVAC', 'Validation', 'Equipment purchase', 'Equipment installation', 'Equipment validation', 'Total'
+    )
+  ];
+
+  estimate.rooms.forEach((room, index) => {
+    const row = index + 2;
+    const cleanroomClass = room.cleanroomClass || 'CNC';
+    const factors = getRoomCostFactors(cleanroomClass, cleanroomOverrides);
+    const quantity = unitTypeOf(factors) === 'sqm' ? room.area : 1;
+    const breakdown = room.costBreakdown;
+    const equipmentValidation = breakdown.equipmentValidationCost || 0;
+    const factor = (column: number) => `VLOOKUP(E${row},${factorsLookup},${column},FALSE)`;
+    const equipmentSum = (column: string) => `SUMIF(Equipment!$A:$A,A${row},Equipment!$${column}:$${column})`;
+
+    rooms.push([
+      index + 1,
+      room.roomId,
+      room.roomName,
+      room.roomType || '',
+      cleanroomClass,
+      room.area,
+      { value: ROOM_TYPE_COST_ADJUSTMENTS[room.roomType || ''] || 1.0, style: 'factor' },
+      { formula: `IF(${factor(5)}="sqm",F${row},1)`, value: quantity },
+      amount(`H${row}*${factor(2)}*G${row}*PriceFactor`, breakdown.constructionCost),
+      amount(`H${row}*${factor(3)}*G${row}*PriceFactor`, breakdown.hvacCost),
+      amount(`H${row}*${factor(4)}*PriceFactor`, breakdown.validationCost - equipmentValidation),
+      amount(equipmentSum('I'), breakdown.equipmentPurchaseCost),
+      amount(equipmentSum('J'), breakdown.equipmentInstallationCost),
+      amount(equipmentSum('K'), equipmentValidation),
+      amount(`SUM(I${row}:N${row})`, breakdown.totalCost)
+    ]);
+
+    for (const { equipmentId, quantity: units } of equipmentUnits(room)) {
+      const item = EQUIPMENT_CATALOG.find(equipment => equipment.id === equipmentId)!;
+      const equipmentRow = equipmentRows.length + 2;
+      equipmentRows.push([
+        index + 1,
+        room.roomName,
+        item.id,
+        item.name,
+        units,
+        { value: item.purchaseCost, style: 'amount' },
+        { value: item.installationCost, style: 'amount' },
+        { value: item.validationCost, style: 'amount' },
+        amount(`E${equipmentRow}*F${equipmentRow}*PriceFactor`, units * item.purchaseCost * priceFactor),
+        amount(`E${equipmentRow}*G${equipmentRow}*PriceFactor`, units * item.installationCost * priceFactor),
+        amount(`E${equipmentRow}*H${equipmentRow}*PriceFactor`, units * item.validationCost * priceFactor),
+        amount(`SUM(I${equipmentRow}:K${equipmentRow})`, units * (item.purchaseCost + item.installationCost + item.validationCost) * priceFactor)
+      ]);
+    }
+  });
+
+  const sum = (pick: (room: EstimateRoom) => number) => estimate.rooms.reduce((total, room) => total + pick(room), 0);
+  const categories: Array<[string, string, number]> = [
+    ['Construction', 'SUM(Rooms!I:I)', sum(room => room.costBreakdown.constructionCost)],
+    ['HVAC', 'SUM(Rooms!J:J)', sum(room => room.costBreakdown.hvacCost)],
+    ['Validation', 'SUM(Rooms!K:K)+SUM(Rooms!N:N)', sum(room => room.costBreakdown.validationCost)],
+    ['Equipment purchase', 'SUM(Rooms!L:L)', sum(room => room.costBreakdown.equipmentPurchaseCost)],
+    ['Equipment installation', 'SUM(Rooms!M:M)', sum(room => room.costBreakdown.equipmentInstallationCost)]
+  ];
+  const subtotalRow = 7 + categories.length;
+
+  const summary: XlsxCell[][] = [
+    header('Cost Estimate'),
+    ['Project', projectName || ''],
+    ['Currency', estimate.currency],
+    ['Estimated', new Date(estimate.estimatedDate).toISOString()],
+    [],
+    header('Category', `Amount (${estimate.currency})`),
+    ...categories.map(([label, formula, value]): XlsxCell[] => [label, amount(formula, value)]),
+    ['Subtotal', { formula: `SUM(B7:B${subtotalRow - 1})`, value: estimate.subtotal, style: 'total' }],
+    ['Contingency', amount(`B${subtotalRow}*ContingencyPercentage/100`, estimate.contingency)],
+    [{ value: 'Grand total', style: 'header' }, { formula: `B${subtotalRow}+B${subtotalRow + 1}`, value: estimate.grandTotal, style: 'total' }],
+    [],
+    ['Rooms', { formula: 'COUNTA(Rooms!A:A)-1', value: estimate.rooms.length }],
+    ['Total area (m²)', { formula: 'SUM(Rooms!F:F)', value: sum(room => room.area) }]
+  ];
+
+  const settingsSheet: XlsxCell[][] = [
+    header('Setting', 'Value', 'Note'),
+    ['Currency', estimate.currency, 'Currency of all amounts'],
+    ['Base currency', baseCurrency, 'Currency of the cost factors and equipment prices'],
+    ['Exchange rate', { value: settings.exchangeRate ?? 1, style: 'factor' }, `${estimate.currency} per ${baseCurrency}`],
+    ['Regional factor', { value: settings.regionalFactor, style: 'factor' }, settings.region ? `Region: ${settings.region}` : ''],
+    ['Escalation factor', { value: settings.escalationFactor, style: 'factor' }, settings.escalationIndex ? `Index: ${settings.escalationIndex}` : ''],
+    ['Price factor', { formula: 'B4*B5*B6', value: priceFactor, style: 'factor' }, 'Applied to all cost factors and equipment prices'],
+    ['Contingency (%)', settings.contingencyPercentage, 'Of the subtotal'],
+    ['Rate table version', estimate.rateTable?.version ?? '', ''],
+    ['Rates as of', estimate.rateTable?.asOf || '', '']
+  ];
+
+  return {
+    sheets: [
+      { name: 'Summary', columnWidths: [24, 20], rows: summary },
+      { name: 'Rooms', columnWidths: [6, 16, 28, 18, 16, 10, 16, 10, 16, 16, 16, 18, 20, 20, 16], rows: rooms },
+      {
+        name: 'Equipment',
+        columnWidths: [12, 28, 22, 30, 10, 20, 22, 20, 16, 16, 16, 16],
+        rows: [
+          header(
+            'Room No.', 'Room', 'Equipment ID', 'Equipment', 'Quantity', `Unit purchase (${baseCurrency})`, `Unit installation (${baseCurrency})`,
+            `Unit validation (${baseCurrency})`, 'Purchase', 'Installation', 'Validation', 'Total'
+          ),
+          ...equipmentRows
+        ]
+      },
+      { name: 'Cost Factors', columnWidths: [18, 26, 22, 26, 12], rows: costFactors },
+      { name: 'Settings', columnWidths: [20, 14, 48], rows: settingsSheet }
+    ],
+    definedNames: {
+      ExchangeRate: 'Settings!$B$4',
+      RegionalFactor: 'Settings!$B$5',
+      EscalationFactor: 'Settings!$B$6',
+      PriceFactor: 'Settings!$B$7',
+      ContingencyPercentage: 'Settings!$B$8'
+    }
+  };
+}
+
+export function renderCostEstimateXlsx(input: CostExportInput): Buffer {
+  return buildXlsx(buildCostEstimateWorkbook(input));
+}
+
+// Quote when needed; text that a spreadsheet would read as a formula is prefixed with an apostrophe
+const csvField = (value: string | number): string => {
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : '';
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Flat CSV of an estimate: one line per room with its cost breakdown, then the subtotal,
+ * contingency and grand total lines
+ */
+export function renderCostEstimateCsv({ estimate }: CostExportInput): string {
+  const { currency, settings } = estimate;
+  const rows: Array<Array<string | number>> = [
+    ['Line', 'Room ID', 'Room', 'Room type', 'Cleanroom class', 'Area (m²)', 'Equipment', 'Construction', 'HVAC',
+      'Equipment purchase', 'Equipment installation', 'Validation', 'Total', 'Currency'],
+    ...estimate.rooms.map(room => [
+      'room',
+      room.roomId,
+      room.roomName,
+      room.roomType || '',
+      room.cleanroomClass || '',
+      room.area,
+      (room.equipment || []).map(id => EQUIPMENT_CATALOG.find(item => item.id === id)?.name || id).join('; '),
+      round(room.costBreakdown.constructionCost),
+      round(room.costBreakdown.hvacCost),
+      round(room.costBreakdown.equipmentPurchaseCost),
+      round(room.costBreakdown.equipmentInstallationCost),
+      round(room.costBreakdown.validationCost),
+      round(room.costBreakdown.totalCost),
+      currency
+    ]),
+    ['subtotal', '', 'Subtotal', '', '', '', '', '', '', '', '', '', round(estimate.subtotal), currency],
+    ['contingency', '', `Contingency (${settings.contingencyPercentage}%)`, '', '', '', '', '', '', '', '', '', round(estimate.contingency), currency],
+    ['total', '', 'Grand total', '', '', '', '', '', '', '', '', '', round(estimate.grandTotal), currency]
+  ];
+
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,302 @@
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  CostEstimationSettings,
+  CostRateEntry,
+  CostRateKind,
+  CostRateTable,
+  CostRateTableReference,
+  EffectiveCostRates
+} from '../../../shared/types';
+
+interface CostRateTableFile {
+  versions: CostRateTable[];
+  updatedAt: string;
+}
+
+export interface CostRateTableSeed {
+  baseCurrency: string;
+  effectiveDate: string;
+  currencyRates: Record<string, number>;
+  regionalFactors: Record<string, number>;
+  escalationIndices: Record<string, number>;
+}
+
+export const COST_RATE_KINDS: CostRateKind[] = ['currencyRates', 'regionalFactors', 'escalationIndices'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isValidRateDate = (value: unknown): value is string =>
+  typeof value === 'string' && DATE_PATTERN.test(value) && !Number.isNaN(new Date(`${value}T00:00:00Z`).getTime());
+
+export const todayRateDate = (): string => new Date().toISOString().slice(0, 10);
+
+// Value of the entry in effect on a date: the latest one that is not after it
+const valueOn = (entries: CostRateEntry[] | undefined, date: string): number | undefined => {
+  let value: number | undefined;
+  for (const entry of entries || []) {
+    if (entry.effectiveDate <= date) value = entry.value;
+  }
+  return value;
+};
+
+const valuesOn = (series: Record<string, CostRateEntry[]>, date: string): Record<string, number> =>
+  Object.entries(series).reduce<Record<string, number>>((acc, [key, entries]) => {
+    const value = valueOn(entries, date);
+    if (value !== undefined) acc[key] = value;
+    return acc;
+  }, {});
+
+/**
+ * Dated currency rates, regional factors and escalation indices in a JSON file next to the
+ * cleanroom cost database. Versions are append-only: every change stores a new copy of the
+ * tables, so an estimate made with an older version and date can be recalculated exactly.
+ */
+class CostRateTableService {
+  private static instance: CostRateTableService;
+  private data: CostRateTableFile | null = null;
+  private readonly filePath: string;
+  private initialized = false;
+  private seed: CostRateTableSeed | null = null;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  private constructor() {
+    this.filePath = path.join(process.cwd(), 'backend', 'data', 'cost-rate-tables.json');
+  }
+
+  public static getInstance(): CostRateTableService {
+    if (!CostRateTableService.instance) {
+      CostRateTableService.instance = new CostRateTableService();
+    }
+    return CostRateTableService.instance;
+  }
+
+  public async initialize(seed: CostRateTableSeed): Promise<void> {
+    this.seed = seed;
+
+    if (this.initialized) {
+      return;
+    }
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await this.loadOrCreateDatabase();
+    this.initialized = true;
+  }
+
+  public async getVersions(): Promise<CostRateTable[]> {
+    await this.ensureDataLoaded();
+    return this.data!.versions;
+  }
+
+  public async getTable(version?: number): Promise<CostRateTable | undefined> {
+    await this.ensureDataLoaded();
+    const versions = this.data!.versions;
+    return version === undefined ? versions[versions.length - 1] : versions.find(table => table.version === version);
+  }
+
+  public getLastUpdated(): string | null {
+    return this.data?.updatedAt || null;
+  }
+
+  /**
+   * Rates of a version (default: the latest) as effective on a date (default: today)
+   */
+  public async getEffectiveRates(reference: Partial<CostRateTableReference> = {}): Promise<EffectiveCostRates | undefined> {
+    const table = await this.getTable(reference.version);
+    if (!table) return undefined;
+
+    const asOf = reference.asOf || todayRateDate();
+    const baseIndices = valuesOn(table.escalationIndices, table.escalationBaseDate);
+    const indices = valuesOn(table.escalationIndices, asOf);
+
+    return {
+      version: table.version,
+      asOf,
+      baseCurrency: table.baseCurrency,
+      currencyRates: valuesOn(table.currencyRates, asOf),
+      regionalFactors: valuesOn(table.regionalFactors, asOf),
+      escalationFactors: Object.entries(indices).reduce<Record<string, number>>((acc, [series, index]) => {
+        if (baseIndices[series]) acc[series] = index / baseIndices[series];
+        return acc;
+      }, {})
+    };
+  }
+
+  /**
+   * Settings with the exchange rate, and the regional and escalation factors the settings name,
+   * taken from the rate tables; an error message when one of them has no value on that date
+   */
+  public async applyToSettings(
+    settings: CostEstimationSettings,
+    reference: Partial<CostRateTableReference> = {}
+  ): Promise<{ settings: CostEstimationSettings; rateTable: CostRateTableReference } | { error: string }> {
+    const rates = await this.getEffectiveRates(reference);
+    if (!rates) {
+      return { error: `Rate table version ${reference.version} not found` };
+    }
+
+    const exchangeRate = rates.currencyRates[settings.currency] ?? (settings.currency === rates.baseCurrency ? 1 : undefined);
+    if (exchangeRate === undefined) {
+      return { error: `No ${settings.currency} exchange rate is in effect on ${rates.asOf}` };
+    }
+
+    const resolved: CostEstimationSettings = { ...settings, exchangeRate };
+
+    if (settings.region) {
+      if (rates.regionalFactors[settings.region] === undefined) {
+        return { error: `No regional factor for ${settings.region} is in effect on ${rates.asOf}` };
+      }
+      resolved.regionalFactor = rates.regionalFactors[settings.region];
+    }
+    if (settings.escalationIndex) {
+      if (rates.escalationFactors[settings.escalationIndex] === undefined) {
+        return { error: `Escalation index ${settings.escalationIndex} has no value on ${rates.asOf} or on its base date` };
+      }
+      resolved.escalationFactor = rates.escalationFactors[settings.escalationIndex];
+    }
+
+    return { settings: resolved, rateTable: { version: rates.version, asOf: rates.asOf } };
+  }
+
+  /**
+   * Add or replace the entry of a rate for one effective date, as a new version.
+   * `recordChange` runs before the version is stored, so a change that cannot be recorded is not made.
+   */
+  public async upsertEntry(
+    kind: CostRateKind,
+    key: string,
+    entry: CostRateEntry,
+    meta: { createdBy?: string; note?: string } = {},
+    recordChange?: (before: CostRateEntry[] | null, after: CostRateEntry[]) => Promise<unknown>
+  ): Promise<{ table: CostRateTable; before: CostRateEntry[] | null; after: CostRateEntry[] }> {
+    return this.serialize(async () => {
+      const current = (await this.getTable())!;
+      const before = current[kind][key] || null;
+      const after = [...(before || []).filter(existing => existing.effectiveDate !== entry.effectiveDate), entry]
+        .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+
+      await recordChange?.(before, after);
+      const table = await this.appendVersion(current, { ...current[kind], [key]: after }, kind, meta);
+      return { table, before, after };
+    });
+  }
+
+  /**
+   * Remove the entry of a rate for one effective date, as a new version; null when there is none
+   */
+  public async deleteEntry(
+    kind: CostRateKind,
+    key: string,
+    effectiveDate: string,
+    meta: { createdBy?: string; note?: string } = {},
+    recordChange?: (before: CostRateEntry[], after: CostRateEntry[] | null) => Promise<unknown>
+  ): Promise<{ table: CostRateTable; before: CostRateEntry[]; after: CostRateEntry[] | null } | null> {
+    return this.serialize(async () => {
+      const current = (await this.getTable())!;
+      const before = current[kind][key];
+      if (!before?.some(entry => entry.effectiveDate === effectiveDate)) {
+        return null;
+      }
+
+      const remaining = before.filter(entry => entry.effectiveDate !== effectiveDate);
+      const { [key]: _removed, ...others } = current[kind];
+      const after = remaining.length > 0 ? remaining : null;
+
+      await recordChange?.(before, after);
+      const table = await this.appendVersion(current, after ? { ...others, [key]: after } : others, kind, meta);
+      return { table, before, after };
+    });
+  }
+
+  // Runs changes one at a time, so each new version builds on the latest one
+  private serialize<T>(work: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(work);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  // Must be called inside `serialize`, with the latest version as `current`
+  private async appendVersion(
+    current: CostRateTable,
+    series: Record<string, CostRateEntry[]>,
+    kind: CostRateKind,
+    meta: { createdBy?: string; note?: string }
+  ): Promise<CostRateTable> {
+    const table: CostRateTable = {
+      ...current,
+      [kind]: series,
+      version: current.version + 1,
+      createdAt: new Date().toISOString(),
+      createdBy: meta.createdBy,
+      note: meta.note
+    };
+
+    this.data!.versions.push(table);
+    await this.persist();
+    return table;
+  }
+
+  private async ensureDataLoaded(): Promise<void> {
+    if (!this.initialized) {
+      if (!this.seed) {
+        throw new Error('Cost rate tables are not initialized');
+      }
+      await this.initialize(this.seed);
+    } else if (!this.data) {
+      await this.loadOrCreateDatabase();
+    }
+  }
+
+  // Seeds a missing file; an unreadable one is kept for repair, and every use fails until it is fixed or removed
+  private async loadOrCreateDatabase(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error;
+
+      this.data = {
+        versions: [this.buildSeedTable()],
+        updatedAt: new Date().toISOString()
+      };
+      await this.persist();
+      return;
+    }
+
+    let data: CostRateTableFile;
+    try {
+      data = JSON.parse(raw) as CostRateTableFile;
+    } catch (error: any) {
+      throw new Error(`Cost rate tables in ${this.filePath} are not valid JSON (${error.message}); fix or remove the file`);
+    }
+    if (!Array.isArray(data?.versions) || data.versions.length === 0) {
+      throw new Error(`Cost rate tables in ${this.filePath} have no versions; fix or remove the file`);
+    }
+    this.data = data;
+  }
+
+  private buildSeedTable(): CostRateTable {
+    const seed = this.seed!;
+    const dated = (values: Record<string, number>): Record<string, CostRateEntry[]> =>
+      Object.fromEntries(Object.entries(values).map(([key, value]) => [key, [{ effectiveDate: seed.effectiveDate, value }]]));
+
+    return {
+      version: 1,
+      baseCurrency: seed.baseCurrency,
+      escalationBaseDate: seed.effectiveDate,
+      currencyRates: dated(seed.currencyRates),
+      regionalFactors: dated(seed.regionalFactors),
+      escalationIndices: dated(seed.escalationIndices),
+      createdAt: new Date().toISOString(),
+      note: 'Initial rates'
+    };
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.data) return;
+    this.data.updatedAt = new Date().toISOString();
+    await fs.writeFile(this.filePath, JSON.stringify(this.data, null, 2), 'utf-8');
+  }
+}
+
+export default CostRateTableService.getInstance();
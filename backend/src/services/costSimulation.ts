@@ -0,0 +1,293 @@
+import {
+  CostRoomInput,
+  DEFAULT_COST_SETTINGS,
+  EQUIPMENT_CATALOG,
+  ROOM_TYPE_COST_ADJUSTMENTS,
+  getPriceFactor,
+  getRoomCostFactors
+} from '../config/costConfiguration';
+import {
+  CostEstimationSettings,
+  CostFactorCategory,
+  CostRange,
+  CostSensitivity,
+  CostSimulationResult,
+  CostSimulationSettings,
+  RoomCostFactors
+} from '../../../shared/types';
+import { createSeededRandom, isValidSeed, resolveSeed } from '../utils/seededRandom';
+
+const DEFAULT_ITERATIONS = 5000;
+const MAX_ITERATIONS = 50000;
+const HISTOGRAM_BINS = 20;
+
+const FACTOR_CATEGORIES: CostFactorCategory[] = ['construction', 'hvac', 'validation'];
+
+const FACTOR_FIELDS: Record<CostFactorCategory, 'baseConstructionCostPerSqm' | 'hvacCostPerSqm' | 'validationCostPerSqm'> = {
+  construction: 'baseConstructionCostPerSqm',
+  hvac: 'hvacCostPerSqm',
+  validation: 'validationCostPerSqm'
+};
+
+const FACTOR_LABELS: Record<CostFactorCategory, string> = {
+  construction: 'construction',
+  hvac: 'HVAC',
+  validation: 'validation'
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// A message when the range is not three finite, non-negative values in order
+const rangeError = (value: unknown, path: string): string | null => {
+  if (!isObject(value)) return `${path} must be an object with low, mostLikely and high`;
+  const { low, mostLikely, high } = value;
+  if (![low, mostLikely, high].every(bound => typeof bound === 'number' && Number.isFinite(bound) && bound >= 0)) {
+    return `${path}.low, mostLikely and high must be non-negative numbers`;
+  }
+  if (!((low as number) <= (mostLikely as number) && (mostLikely as number) <= (high as number))) {
+    return `${path} must satisfy low <= mostLikely <= high`;
+  }
+  return null;
+};
+
+/**
+ * Simulation settings with defaults for everything not given; a message when a value is invalid
+ */
+export function resolveSimulationSettings(input: unknown = {}): { settings: CostSimulationSettings } | { error: string } {
+  if (!isObject(input)) {
+    return { error: 'simulation must be an object' };
+  }
+
+  const { iterations = DEFAULT_ITERATIONS, seed, defaultRangePercentage, factorRanges, equipmentRanges } = input;
+
+  if (!Number.isInteger(iterations) || (iterations as number) < 100 || (iterations as number) > MAX_ITERATIONS) {
+    return { error: `simulation.iterations must be a whole number from 100 to ${MAX_ITERATIONS}` };
+  }
+  if (seed !== undefined && !isValidSeed(seed)) {
+    return { error: 'simulation.seed must be an integer from 0 to 4294967295' };
+  }
+  if (defaultRangePercentage !== undefined) {
+    const { low, high } = isObject(defaultRangePercentage) ? defaultRangePercentage : ({} as Record<string, unknown>);
+    if (typeof low !== 'number' || typeof high !== 'number' || !(low >= -100 && low <= 0) || !(high >= 0 && Number.isFinite(high))) {
+      return { error: 'simulation.defaultRangePercentage must be { low, high } with low from -100 to 0 and high of at least 0' };
+    }
+  }
+  if (factorRanges !== undefined) {
+    if (!isObject(factorRanges)) return { error: 'simulation.factorRanges must map cleanroom classes to factor ranges' };
+    for (const [cleanroomClass, ranges] of Object.entries(factorRanges)) {
+      if (!isObject(ranges)) return { error: `simulation.factorRanges.${cleanroomClass} must be an object` };
+      for (const [category, range] of Object.entries(ranges)) {
+        if (!FACTOR_CATEGORIES.includes(category as CostFactorCategory)) {
+          return { error: `simulation.factorRanges.${cleanroomClass}.${category} is not one of ${FACTOR_CATEGORIES.join(', ')}` };
+        }
+        const error = rangeError(range, `simulation.factorRanges.${cleanroomClass}.${category}`);
+        if (error) return { error };
+      }
+    }
+  }
+  if (equipmentRanges !== undefined) {
+    if (!isObject(equipmentRanges)) return { error: 'simulation.equipmentRanges must map equipment IDs to ranges' };
+    for (const [equipmentId, range] of Object.entries(equipmentRanges)) {
+      const error = rangeError(range, `simulation.equipmentRanges.${equipmentId}`);
+      if (error) return { error };
+    }
+  }
+
+  return { settings: { ...(input as Partial<CostSimulationSettings>), iterations: iterations as number } };
+}
+
+// Sample of a triangular distribution by inverting its cumulative distribution
+const sampleTriangular = ({ low, mostLikely, high }: CostRange, u: number): number => {
+  if (high === low) return mostLikely;
+  const split = (mostLikely - low) / (high - low);
+  return u < split
+    ? low + Math.sqrt(u * (high - low) * (mostLikely - low))
+    : high - Math.sqrt((1 - u) * (high - low) * (high - mostLikely));
+};
+
+const triangularVariance = ({ low, mostLikely, high }: CostRange): number =>
+  (low * low + mostLikely * mostLikely + high * high - low * mostLikely - low * high - mostLikely * high) / 18;
+
+// Value at a fraction of the sorted samples, interpolated between neighbours
+const percentile = (sorted: Float64Array, fraction: number): number => {
+  const position = fraction * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.min(lower + 1, sorted.length - 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+interface Variable {
+  key: string;
+  label: string;
+  value: number; // Value the estimate is priced with
+  range: CostRange;
+  weight: number; // Subtotal per unit of the variable, summed over rooms
+}
+
+/**
+ * The subtotal as a sum of terms, each a coefficient times one uncertain factor: per unit costs
+ * of a cleanroom class and equipment purchase prices. The estimate is linear in every factor,
+ * so this reproduces it exactly and gives exact low/high swings.
+ */
+const buildCostModel = (
+  rooms: CostRoomInput[],
+  settings: CostEstimationSettings,
+  simulation: CostSimulationSettings,
+  cleanroomOverrides?: Record<string, RoomCostFactors | undefined>
+) => {
+  const priceFactor = getPriceFactor(settings);
+  const variables = new Map<string, Variable>();
+  const terms: Array<{ room: number; variable: string; coefficient: number }> = [];
+
+  const rangeAround = (value: number, range?: CostRange): CostRange => {
+    if (range) return range;
+    const percentage = simulation.defaultRangePercentage;
+    return percentage
+      ? { low: value * (1 + percentage.low / 100), mostLikely: value, high: value * (1 + percentage.high / 100) }
+      : { low: value, mostLikely: value, high: value };
+  };
+  const addTerm = (room: number, variable: Omit<Variable, 'weight'>, coefficient: number) => {
+    if (!variables.has(variable.key)) variables.set(variable.key, { ...variable, weight: 0 });
+    variables.get(variable.key)!.weight += coefficient;
+    terms.push({ room, variable: variable.key, coefficient });
+  };
+
+  // Same rooms as the estimate, which skips incomplete ones
+  const completeRooms = rooms.filter(room => room.area && room.cleanroomClass && room.roomType);
+
+  completeRooms.forEach((room, index) => {
+    const factors = getRoomCostFactors(room.cleanroomClass, cleanroomOverrides);
+    const normalizedClass = room.cleanroomClass?.toUpperCase?.() || room.cleanroomClass;
+    const isPerArea = (factors.unitType || 'sqm').toLowerCase() === 'sqm';
+    const quantity = isPerArea ? room.area : 1;
+    const roomTypeAdjustment = ROOM_TYPE_COST_ADJUSTMENTS[room.roomType] || 1.0;
+
+    for (const category of FACTOR_CATEGORIES) {
+      const value = factors[FACTOR_FIELDS[category]];
+      addTerm(index, {
+        key: `${room.cleanroomClass}:${category}`,
+        label: `Class ${room.cleanroomClass} ${FACTOR_LABELS[category]} per ${isPerArea ? 'm²' : 'unit'}`,
+        value,
+        range: rangeAround(value, simulation.factorRanges?.[normalizedClass]?.[category] ?? simulation.factorRanges?.[room.cleanroomClass]?.[category])
+      }, quantity * priceFactor * (category === 'validation' ? 1 : roomTypeAdjustment));
+    }
+
+    for (const equipmentId of room.equipment || []) {
+      const item = EQUIPMENT_CATALOG.find(equipment => equipment.id === equipmentId);
+      if (!item) continue;
+
+      // Installation and validation scale with the purchase price; without one the item cost is fixed
+      const itemCost = item.purchaseCost + item.installationCost + item.validationCost;
+      const hasPrice = item.purchaseCost > 0;
+      addTerm(index, {
+        key: `equipment:${item.id}`,
+        label: `${item.name} price`,
+        value: hasPrice ? item.purchaseCost : itemCost,
+        range: hasPrice
+          ? rangeAround(item.purchaseCost, simulation.equipmentRanges?.[item.id])
+          : { low: itemCost, mostLikely: itemCost, high: itemCost }
+      }, hasPrice ? (itemCost / item.purchaseCost) * priceFactor : priceFactor);
+    }
+  });
+
+  return { completeRooms, variables: [...variables.values()], terms };
+};
+
+/**
+ * Monte Carlo simulation of the estimate subtotal with triangular distributions over the cost
+ * factor ranges. Each factor is drawn once per iteration and shared by every room that uses it.
+ * Sensitivity swings the subtotal between the low and high values of one factor, or of all
+ * factors of one room, with everything else at its most likely value.
+ */
+export function simulateProjectCost(
+  rooms: CostRoomInput[],
+  settings: CostEstimationSettings = DEFAULT_COST_SETTINGS,
+  simulation: CostSimulationSettings,
+  cleanroomOverrides?: Record<string, RoomCostFactors | undefined>
+): CostSimulationResult {
+  const { completeRooms, variables, terms } = buildCostModel(rooms, settings, simulation, cleanroomOverrides);
+  const seed = resolveSeed(simulation.seed);
+  const random = createSeededRandom(seed);
+
+  const pointEstimate = variables.reduce((acc, variable) => acc + variable.weight * variable.value, 0);
+  const mostLikely = variables.reduce((acc, variable) => acc + variable.weight * variable.range.mostLikely, 0);
+  const uncertain = variables.filter(variable => variable.range.high > variable.range.low && variable.weight !== 0);
+  const fixed = variables
+    .filter(variable => !uncertain.includes(variable))
+    .reduce((sum, variable) => sum + variable.weight * variable.range.mostLikely, 0);
+
+  const samples = new Float64Array(simulation.iterations);
+  let sum = 0;
+  for (let iteration = 0; iteration < simulation.iterations; iteration++) {
+    let total = fixed;
+    for (const variable of uncertain) {
+      total += variable.weight * sampleTriangular(variable.range, random());
+    }
+    samples[iteration] = total;
+    sum += total;
+  }
+  samples.sort();
+
+  const mean = sum / simulation.iterations;
+  const variance = samples.reduce((acc, value) => acc + (value - mean) ** 2, 0) / Math.max(1, simulation.iterations - 1);
+  const min = samples[0];
+  const max = samples[samples.length - 1];
+  const p90 = percentile(samples, 0.9);
+
+  const binWidth = (max - min) / HISTOGRAM_BINS;
+  const histogram = binWidth > 0
+    ? Array.from({ length: HISTOGRAM_BINS }, (_, bin) => ({ from: min + bin * binWidth, to: min + (bin + 1) * binWidth, count: 0 }))
+    : [{ from: min, to: max, count: samples.length }];
+  if (binWidth > 0) {
+    for (const value of samples) {
+      histogram[Math.min(HISTOGRAM_BINS - 1, Math.floor((value - min) / binWidth))].count += 1;
+    }
+  }
+
+  const modelVariance = uncertain.reduce((acc, variable) => acc + variable.weight ** 2 * triangularVariance(variable.range), 0);
+  const factorSensitivity: CostSensitivity[] = uncertain.map(variable => ({
+    key: variable.key,
+    label: variable.label,
+    low: mostLikely - variable.weight * (variable.range.mostLikely - variable.range.low),
+    high: mostLikely + variable.weight * (variable.range.high - variable.range.mostLikely),
+    swing: variable.weight * (variable.range.high - variable.range.low),
+    varianceShare: modelVariance > 0 ? (variable.weight ** 2 * triangularVariance(variable.range)) / modelVariance : 0
+  }));
+
+  const ranges = new Map(variables.map(variable => [variable.key, variable.range]));
+  const roomSensitivity: CostSensitivity[] = completeRooms.map((room, index) => {
+    const roomTerms = terms.filter(term => term.room === index);
+    const below = roomTerms.reduce((acc, term) => acc + term.coefficient * (ranges.get(term.variable)!.mostLikely - ranges.get(term.variable)!.low), 0);
+    const above = roomTerms.reduce((acc, term) => acc + term.coefficient * (ranges.get(term.variable)!.high - ranges.get(term.variable)!.mostLikely), 0);
+    return {
+      key: room.id || room.roomType,
+      label: room.name || room.roomType,
+      low: mostLikely - below,
+      high: mostLikely + above,
+      swing: below + above
+    };
+  }).filter(room => room.swing > 0);
+
+  const bySwing = (a: CostSensitivity, b: CostSensitivity) => b.swing - a.swing;
+
+  return {
+    iterations: simulation.iterations,
+    seed,
+    currency: settings.currency,
+    pointEstimate,
+    mostLikely,
+    mean,
+    standardDeviation: Math.sqrt(variance),
+    min,
+    max,
+    percentiles: { p10: percentile(samples, 0.1), p50: percentile(samples, 0.5), p90 },
+    contingencyPercentageAtP90: pointEstimate > 0 ? Math.max(0, (p90 / pointEstimate - 1) * 100) : 0,
+    histogram,
+    factors: uncertain.map(({ key, label, range }) => ({ key, label, range })),
+    sensitivity: {
+      factors: factorSensitivity.sort(bySwing),
+      rooms: roomSensitivity.sort(bySwing)
+    }
+  };
+}
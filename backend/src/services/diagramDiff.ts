@@ -0,0 +1,66 @@
+import { DiagramDiff, DiagramDiffEntry, FunctionalArea, SpatialRelationship } from '../types';
+
+/**
+ * Structural diff between two versions of a diagram, used to show a client whose update was
+ * refused what the diagram on the server looks like compared with what it tried to save.
+ */
+
+const NODE_FIELDS: Array<keyof FunctionalArea> = [
+  'name', 'category', 'cleanroomClass', 'x', 'y', 'width', 'height', 'equipment'
+];
+const RELATIONSHIP_FIELDS: Array<keyof SpatialRelationship> = [
+  'type', 'fromId', 'toId', 'priority', 'reason', 'doorType', 'minDistance', 'maxDistance', 'flowDirection', 'flowType'
+];
+
+// null and undefined both mean "not set" once a value has been through Neo4j
+const normalize = (value: unknown): string => JSON.stringify(value ?? null);
+
+const changedFields = <T>(before: T, after: T, fields: Array<keyof T>): string[] =>
+  fields.filter(field => normalize(before[field]) !== normalize(after[field])) as string[];
+
+function diffById<T extends { id: string }>(
+  from: T[],
+  to: T[],
+  fields: Array<keyof T>,
+  entry: (item: T) => DiagramDiffEntry
+): DiagramDiff['nodes'] {
+  const fromById = new Map(from.map(item => [item.id, item]));
+  const toIds = new Set(to.map(item => item.id));
+  const result: DiagramDiff['nodes'] = { added: [], removed: [], changed: [] };
+
+  to.forEach(after => {
+    const before = fromById.get(after.id);
+    if (!before) {
+      result.added.push(entry(after));
+      return;
+    }
+    const changes = changedFields(before, after, fields);
+    if (changes.length > 0) {
+      result.changed.push({ ...entry(after), changes });
+    }
+  });
+  from.filter(item => !toIds.has(item.id)).forEach(item => result.removed.push(entry(item)));
+
+  return result;
+}
+
+export function diffDiagramContent(
+  from: { nodes: FunctionalArea[]; relationships: SpatialRelationship[] },
+  to: { nodes: FunctionalArea[]; relationships: SpatialRelationship[] }
+): DiagramDiff {
+  const names = new Map([...from.nodes, ...to.nodes].map(node => [node.id, node.name]));
+  const relationshipEntry = (relationship: SpatialRelationship): DiagramDiffEntry => ({
+    id: relationship.id,
+    name: `${names.get(relationship.fromId) || relationship.fromId} → ${names.get(relationship.toId) || relationship.toId} (${relationship.type})`
+  });
+
+  const nodes = diffById(from.nodes, to.nodes, NODE_FIELDS, node => ({ id: node.id, name: node.name }));
+  const relationships = diffById(from.relationships, to.relationships, RELATIONSHIP_FIELDS, relationshipEntry);
+
+  const totalChanges = [nodes, relationships].reduce(
+    (sum, section) => sum + section.added.length + section.removed.length + section.changed.length,
+    0
+  );
+
+  return { nodes, relationships, totalChanges };
+}
@@ -0,0 +1,268 @@
+import { ValidationResult, ValidationViolation } from '../types';
+import { RuleBase } from './ruleBase';
+
+/**
+ * Check a diagram's nodes and relationships against the adjacency, flow and cleanroom rules
+ * of a rule base
+ */
+export function validateDiagram(nodes: any[], relationships: any[], ruleBase: RuleBase): ValidationResult {
+  const violations: ValidationViolation[] = [];
+
+  // Template of a node: set explicitly for layout rooms, otherwise encoded in the node ID
+  const getTemplateId = (node: any): string => {
+    return node.templateId || node.id.replace(/^node-/, '');
+  };
+  
+  // Validation 1: Check prohibited adjacencies using static templates
+  for (const node of nodes) {
+    const templateId = getTemplateId(node);
+    const prohibitedRels = ruleBase.getRelationshipsByType(templateId, 'PROHIBITED_NEAR');
+    
+    for (const rel of prohibitedRels) {
+      const prohibitedTemplateId = rel.fromTemplateId === templateId 
+        ? rel.toTemplateId 
+        : rel.fromTemplateId;
+      
+      const prohibitedTemplate = ruleBase.getTemplateById(prohibitedTemplateId);
+      if (!prohibitedTemplate) continue;
+      
+      // Check if prohibited node exists in diagram
+      const prohibitedNode = nodes.find((n: any) => 
+        getTemplateId(n) === prohibitedTemplateId
+      );
+      
+      if (prohibitedNode) {
+        // Calculate distance between nodes
+        const distance = Math.sqrt(
+          Math.pow(node.x - prohibitedNode.x, 2) + 
+          Math.pow(node.y - prohibitedNode.y, 2)
+        );
+        
+        const minDistance = rel.relationship.minDistance || 10;
+        
+        if (distance < minDistance) {
+          violations.push({
+            id: `prohibition-${node.id}-${prohibitedNode.id}`,
+            type: 'ERROR',
+            message: `${node.name} must be at least ${minDistance}m away from ${prohibitedNode.name}: ${rel.relationship.reason}`,
+            nodeIds: [node.id, prohibitedNode.id],
+            suggestion: `Increase distance between ${node.name} and ${prohibitedNode.name}`
+          });
+        }
+      }
+    }
+  }
+  
+  // Validation 2: Check cleanroom classification transitions
+  for (const rel of relationships) {
+    const fromNode = nodes.find((n: any) => n.id === rel.fromId);
+    const toNode = nodes.find((n: any) => n.id === rel.toId);
+    
+    if (fromNode && toNode) {
+      // Get cleanroom classes from static templates
+      const fromTemplateId = getTemplateId(fromNode);
+      const toTemplateId = getTemplateId(toNode);
+      const fromTemplate = ruleBase.getTemplateById(fromTemplateId);
+      const toTemplate = ruleBase.getTemplateById(toTemplateId);
+      
+      const fromClass = fromTemplate?.cleanroomClass;
+      const toClass = toTemplate?.cleanroomClass;
+      
+      if (fromClass && toClass) {
+        // Check for invalid cleanroom transitions (A is cleanest, D is least clean)
+        const cleanroomHierarchy = { 'A': 4, 'B': 3, 'C': 2, 'D': 1 };
+        const fromLevel = cleanroomHierarchy[fromClass as keyof typeof cleanroomHierarchy];
+        const toLevel = cleanroomHierarchy[toClass as keyof typeof cleanroomHierarchy];
+        
+        if (Math.abs(fromLevel - toLevel) > 1) {
+          violations.push({
+            id: `cleanroom-${rel.id}`,
+            type: 'WARNING',
+            message: `Direct transition from cleanroom class ${fromClass} to ${toClass} may require airlock`,
+            nodeIds: [rel.fromId, rel.toId],
+            suggestion: `Consider adding airlock or staging area between ${fromNode.name} and ${toNode.name}`
+          });
+        }
+      }
+    }
+  }
+  
+  // Validation 3: Check required adjacencies using static templates
+  for (const node of nodes) {
+    const templateId = getTemplateId(node);
+    const adjacentRels = ruleBase.getRelationshipsByType(templateId, 'ADJACENT_TO');
+    
+    // Only check high priority adjacency requirements
+    const requiredAdjacencies = adjacentRels.filter(rel => rel.relationship.priority >= 8);
+    
+    for (const rel of requiredAdjacencies) {
+      const requiredTemplateId = rel.fromTemplateId === templateId 
+        ? rel.toTemplateId 
+        : rel.fromTemplateId;
+      
+      const requiredTemplate = ruleBase.getTemplateById(requiredTemplateId);
+      if (!requiredTemplate) continue;
+      
+      // Check if required adjacent node exists in diagram
+      const requiredNode = nodes.find((n: any) => 
+        getTemplateId(n) === requiredTemplateId
+      );
+      
+      if (!requiredNode) {
+        violations.push({
+          id: `missing-${node.id}-${requiredTemplateId}`,
+          type: 'WARNING',
+          message: `${node.name} should be adjacent to ${requiredTemplate.name}: ${rel.relationship.reason}`,
+          nodeIds: [node.id],
+          suggestion: `Add ${requiredTemplate.name} near ${node.name}`
+        });
+      } else {
+        // Check if they are actually adjacent (close enough)
+        const distance = Math.sqrt(
+          Math.pow(node.x - requiredNode.x, 2) + 
+          Math.pow(node.y - requiredNode.y, 2)
+        );
+        
+        if (distance > 200) { // Arbitrary threshold for "adjacent"
+          violations.push({
+            id: `far-${node.id}-${requiredNode.id}`,
+            type: 'WARNING',
+            message: `${node.name} and ${requiredTemplate.name} should be closer together: ${rel.relationship.reason}`,
+            nodeIds: [node.id, requiredNode.id],
+            suggestion: `Move ${node.name} and ${requiredTemplate.name} closer together`
+          });
+        }
+      }
+    }
+  }
+  
+  // Validation 4: Check for overlapping nodes
+  for (let i = 0; i < nodes.length; i++) {
+    for (let j = i + 1; j < nodes.length; j++) {
+      const node1 = nodes[i];
+      const node2 = nodes[j];
+      
+      // Check for overlap (simple bounding box collision)
+      if (node1.x < node2.x + (node2.width || 120) &&
+          node1.x + (node1.width || 120) > node2.x &&
+          node1.y < node2.y + (node2.height || 80) &&
+          node1.y + (node1.height || 80) > node2.y) {
+        
+        violations.push({
+          id: `overlap-${node1.id}-${node2.id}`,
+          type: 'ERROR',
+          message: `${node1.name} and ${node2.name} are overlapping`,
+          nodeIds: [node1.id, node2.id],
+          suggestion: `Separate ${node1.name} and ${node2.name}`
+        });
+      }
+    }
+  }
+  
+  // Validation 5: Check utility requirements using static templates
+  for (const node of nodes) {
+    const templateId = getTemplateId(node);
+    const utilityRels = ruleBase.getRelationshipsByType(templateId, 'SHARES_UTILITY');
+    
+    // Only check high priority utility requirements
+    const requiredUtilities = utilityRels.filter(rel => rel.relationship.priority >= 7);
+    
+    for (const rel of requiredUtilities) {
+      const utilityTemplateId = rel.fromTemplateId === templateId 
+        ? rel.toTemplateId 
+        : rel.fromTemplateId;
+      
+      const utilityTemplate = ruleBase.getTemplateById(utilityTemplateId);
+      if (!utilityTemplate) continue;
+      
+      const utilityNode = nodes.find((n: any) => 
+        getTemplateId(n) === utilityTemplateId
+      );
+      
+      if (!utilityNode) {
+        violations.push({
+          id: `utility-${node.id}-${utilityTemplateId}`,
+          type: 'WARNING',
+          message: `${node.name} requires ${utilityTemplate.name}: ${rel.relationship.reason}`,
+          nodeIds: [node.id],
+          suggestion: `Add ${utilityTemplate.name} to support ${node.name}`
+        });
+      }
+    }
+  }
+  
+  // Validation 6: Check material flow continuity using static templates
+  for (const node of nodes) {
+    const templateId = getTemplateId(node);
+    const materialFlowRels = ruleBase.getRelationshipsByType(templateId, 'MATERIAL_FLOW');
+    
+    // Only check high priority unidirectional flows
+    const requiredFlows = materialFlowRels.filter(rel => 
+      rel.relationship.priority >= 8 && 
+      rel.relationship.flowDirection === 'unidirectional' &&
+      rel.fromTemplateId === templateId // Only outgoing flows
+    );
+    
+    for (const rel of requiredFlows) {
+      const targetTemplateId = rel.toTemplateId;
+      const targetTemplate = ruleBase.getTemplateById(targetTemplateId);
+      if (!targetTemplate) continue;
+      
+      const targetNode = nodes.find((n: any) => 
+        getTemplateId(n) === targetTemplateId
+      );
+      
+      if (!targetNode) {
+        const flowType = rel.relationship.flowType || 'material';
+        violations.push({
+          id: `material-flow-${node.id}-${targetTemplateId}`,
+          type: 'WARNING',
+          message: `${node.name} requires ${targetTemplate.name} for ${flowType} flow: ${rel.relationship.reason}`,
+          nodeIds: [node.id],
+          suggestion: `Add ${targetTemplate.name} to complete ${flowType} flow from ${node.name}`
+        });
+      }
+    }
+  }
+  
+  // Validation 7: Check personnel flow access using static templates
+  for (const node of nodes) {
+    const templateId = getTemplateId(node);
+    const personnelFlowRels = ruleBase.getRelationshipsByType(templateId, 'PERSONNEL_FLOW');
+    
+    // Only check high priority personnel flows
+    const requiredPersonnelAccess = personnelFlowRels.filter(rel => 
+      rel.relationship.priority >= 8 && 
+      rel.relationship.flowType === 'personnel'
+    );
+    
+    for (const rel of requiredPersonnelAccess) {
+      const accessTemplateId = rel.fromTemplateId === templateId 
+        ? rel.toTemplateId 
+        : rel.fromTemplateId;
+      
+      const accessTemplate = ruleBase.getTemplateById(accessTemplateId);
+      if (!accessTemplate) continue;
+      
+      const accessNode = nodes.find((n: any) => 
+        getTemplateId(n) === accessTemplateId
+      );
+      
+      if (!accessNode) {
+        violations.push({
+          id: `personnel-flow-${node.id}-${accessTemplateId}`,
+          type: 'WARNING',
+          message: `${node.name} requires access through ${accessTemplate.name}: ${rel.relationship.reason}`,
+          nodeIds: [node.id],
+          suggestion: `Add ${accessTemplate.name} to provide personnel access to ${node.name}`
+        });
+      }
+    }
+  }
+
+
+  return {
+    isValid: violations.filter(v => v.type === 'ERROR').length === 0,
+    violations
+  };
+}
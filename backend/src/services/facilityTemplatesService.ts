@@ -10,6 +10,31 @@ import { v4 as uuidv4 } from 'uuid';
 import { StaticNodeTemplatesService } from './staticNodeTemplatesService';
 import SpatialReasoningService from './spatialReasoningService';
 
+/**
+ * Room in a generated facility. `template` is a static node template id that supplies
+ * the category and default size; `name` and `sizeFactor` specialise it for the facility.
+ */
+interface GeneratedRoomDefinition {
+  id: string;
+  template: string;
+  class: string;
+  name?: string;
+  sizeFactor?: number;
+  description?: string;
+}
+
+/**
+ * Relationship between two generated rooms, referenced by their definition ids
+ */
+interface GeneratedRelationshipDefinition {
+  from: string;
+  to: string;
+  type: SpatialRelationship['type'];
+  reason: string;
+  flowType?: SpatialRelationship['flowType'];
+  flowDirection?: SpatialRelationship['flowDirection'];
+}
+
 /**
  * Facility Templates Service
  * Provides parametric facility templates for rapid layout generation
@@ -79,22 +104,22 @@ export class FacilityTemplatesService {
     // Call the appropriate generator
     switch (template.id) {
       case 'sterile-injectable-facility':
-        return this.generateSterileInjectableFacility(request.parameters, request.customizations);
+        return this.generateSterileInjectableFacility(request.parameters, request.customizations, request.seed);
 
       case 'oral-solid-dosage-facility':
-        return this.generateOralSolidDosageFacility(request.parameters, request.customizations);
+        return this.generateOralSolidDosageFacility(request.parameters, request.customizations, request.seed);
 
       case 'biologics-facility':
-        return this.generateBiologicsFacility(request.parameters, request.customizations);
+        return this.generateBiologicsFacility(request.parameters, request.customizations, request.seed);
 
       case 'api-facility':
-        return this.generateAPIFacility(request.parameters, request.customizations);
+        return this.generateAPIFacility(request.parameters, request.customizations, request.seed);
 
       case 'qc-laboratory':
-        return this.generateQCLaboratory(request.parameters, request.customizations);
+        return this.generateQCLaboratory(request.parameters, request.customizations, request.seed);
 
       case 'packaging-facility':
-        return this.generatePackagingFacility(request.parameters, request.customizations);
+        return this.generatePackagingFacility(request.parameters, request.customizations, request.seed);
 
       default:
         throw new Error(`No generator implemented for template: ${template.id}`);
@@ -375,7 +400,7 @@ export class FacilityTemplatesService {
   /**
    * Generate Sterile Injectable Facility
    */
-  private async generateSterileInjectableFacility(params: any, customizations?: any): Promise<Diagram> {
+  private async generateSterileInjectableFacility(params: any, customizations?: any, seed?: number): Promise<Diagram> {
     const nodes: FunctionalArea[] = [];
     const relationships: SpatialRelationship[] = [];
 
@@ -440,7 +465,8 @@ export class FacilityTemplatesService {
 
     // Calculate positions using spatial reasoning
     const positions = await this.spatialService.calculateLayoutPositions(nodes, relationships, {
-      layoutStyle: 'linear'
+      layoutStyle: 'linear',
+      seed
     });
 
     // Apply positions
@@ -465,7 +491,7 @@ export class FacilityTemplatesService {
   /**
    * Generate Oral Solid Dosage Facility
    */
-  private async generateOralSolidDosageFacility(params: any, customizations?: any): Promise<Diagram> {
+  private async generateOralSolidDosageFacility(params: any, customizations?: any, seed?: number): Promise<Diagram> {
     const nodes: FunctionalArea[] = [];
     const relationships: SpatialRelationship[] = [];
 
@@ -512,7 +538,8 @@ export class FacilityTemplatesService {
 
     // Calculate positions
     const positions = await this.spatialService.calculateLayoutPositions(nodes, relationships, {
-      layoutStyle: 'linear'
+      layoutStyle: 'linear',
+      seed
     });
 
     positions.forEach((pos, nodeId) => {
@@ -536,7 +563,7 @@ export class FacilityTemplatesService {
   /**
    * Generate Biologics Facility
    */
-  private async generateBiologicsFacility(params: any, customizations?: any): Promise<Diagram> {
+  private async generateBiologicsFacility(params: any, customizations?: any, seed?: number): Promise<Diagram> {
     const nodes: FunctionalArea[] = [];
     const relationships: SpatialRelationship[] = [];
 
@@ -583,7 +610,8 @@ export class FacilityTemplatesService {
     }
 
     const positions = await this.spatialService.calculateLayoutPositions(nodes, relationships, {
-      layoutStyle: 'linear'
+      layoutStyle: 'linear',
+      seed
     });
 
     positions.forEach((pos, nodeId) => {
@@ -605,48 +633,430 @@ export class FacilityTemplatesService {
   }
 
   /**
-   * Generate API Facility (simplified)
+   * Generate API Facility
+   * processType selects the synthesis train; containmentLevel adds airlocks, isolator
+   * dispensing and one-way personnel flow for potent compounds
    */
-  private async generateAPIFacility(params: any, customizations?: any): Promise<Diagram> {
-    // Simplified implementation
-    return {
-      id: uuidv4(),
-      name: 'API Manufacturing Facility',
-      nodes: [],
-      relationships: [],
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
+  private async generateAPIFacility(params: any, customizations?: any, seed?: number): Promise<Diagram> {
+    const processType = this.getParameter('api-facility', params, 'processType');
+    const containmentLevel = this.getParameter('api-facility', params, 'containmentLevel');
+    const containment = containmentLevel === 'high' ? 1.15 : 1.0; // Isolators and local exhaust need floor space
+
+    const processTrains: Record<string, GeneratedRoomDefinition[]> = {
+      'chemical-synthesis': [
+        { id: 'reactor-suite', template: 'granulation', class: 'CNC', name: 'Reactor Suite', sizeFactor: 1.5, description: 'Glass-lined and stainless reactors with solvent charging' },
+        { id: 'crystallization', template: 'granulation', class: 'CNC', name: 'Crystallization', sizeFactor: 1.0 },
+        { id: 'filtration-drying', template: 'compression', class: 'D', name: 'Filtration & Drying', sizeFactor: 1.1, description: 'Filter dryer / centrifuge and vacuum tray dryers' },
+        { id: 'milling', template: 'coating', class: 'D', name: 'Milling & Micronization', sizeFactor: 0.9 },
+      ],
+      'fermentation': [
+        { id: 'media-prep', template: 'weighing-area', class: 'D', name: 'Media Preparation', sizeFactor: 1.0 },
+        { id: 'seed-fermentation', template: 'granulation', class: 'D', name: 'Seed Fermentation', sizeFactor: 0.9 },
+        { id: 'production-fermentation', template: 'granulation', class: 'CNC', name: 'Production Fermentation Hall', sizeFactor: 1.8 },
+        { id: 'harvest', template: 'compression', class: 'CNC', name: 'Harvest & Cell Separation', sizeFactor: 1.0 },
+        { id: 'purification', template: 'coating', class: 'D', name: 'Purification', sizeFactor: 1.1 },
+        { id: 'filtration-drying', template: 'compression', class: 'D', name: 'Isolation & Drying', sizeFactor: 1.0 },
+      ],
+      'extraction': [
+        { id: 'size-reduction', template: 'coating', class: 'CNC', name: 'Size Reduction', sizeFactor: 0.9, description: 'Milling of botanical or biological source material' },
+        { id: 'extraction-hall', template: 'granulation', class: 'CNC', name: 'Extraction Hall', sizeFactor: 1.5 },
+        { id: 'concentration', template: 'granulation', class: 'CNC', name: 'Concentration & Evaporation', sizeFactor: 1.0 },
+        { id: 'purification', template: 'coating', class: 'D', name: 'Purification', sizeFactor: 1.0 },
+        { id: 'filtration-drying', template: 'compression', class: 'D', name: 'Isolation & Drying', sizeFactor: 1.0 },
+      ]
     };
+    const processRooms = processTrains[processType] || processTrains['chemical-synthesis'];
+
+    const roomDefinitions: GeneratedRoomDefinition[] = [
+      { id: 'receiving', template: 'receiving', class: 'CNC' },
+      {
+        id: 'raw-materials',
+        template: 'raw-materials',
+        class: 'CNC',
+        name: processType === 'chemical-synthesis' ? 'Solvent & Raw Material Store' : processType === 'extraction' ? 'Source Material Store' : 'Raw Material Store'
+      },
+      {
+        id: 'dispensing',
+        template: 'weighing-area',
+        class: 'D',
+        name: containmentLevel === 'high' ? 'Containment Dispensing (Isolator)' : 'Dispensing',
+        sizeFactor: containment
+      },
+      ...processRooms.map(room => ({ ...room, sizeFactor: (room.sizeFactor || 1) * containment })),
+      {
+        id: 'api-packing',
+        template: 'packaging',
+        class: 'D',
+        name: containmentLevel === 'high' ? 'Contained API Packing (Isolator)' : 'API Packing',
+        sizeFactor: 0.7 * containment
+      },
+      { id: 'quarantine', template: 'quarantine', class: 'CNC', name: 'API Quarantine' },
+      { id: 'finished-goods', template: 'finished-goods', class: 'CNC', name: 'Released API Store', sizeFactor: 0.8 },
+      { id: 'qc-lab', template: 'analytical-lab', class: 'CNC', name: 'In-Process QC Lab', sizeFactor: 0.8 },
+      { id: 'change-room', template: 'change-room', class: 'D' },
+      { id: 'waste', template: 'waste-disposal', class: 'CNC', name: processType === 'chemical-synthesis' ? 'Solvent Waste & Recovery' : 'Waste Treatment' },
+      { id: 'utilities', template: 'hvac-room', class: 'CNC', name: containmentLevel === 'standard' ? 'HVAC Plant' : 'HVAC Plant (Once-Through Exhaust)' }
+    ];
+
+    if (containmentLevel !== 'standard') {
+      roomDefinitions.push(
+        { id: 'material-airlock', template: 'quarantine', class: 'D', name: 'Material Airlock', sizeFactor: 0.5 },
+        { id: 'personnel-airlock', template: 'gowning-area', class: 'D', name: 'Personnel Airlock', sizeFactor: 0.6 }
+      );
+    }
+    if (containmentLevel === 'high') {
+      roomDefinitions.push(
+        { id: 'degowning', template: 'change-room', class: 'D', name: 'Mist Shower & Degowning', sizeFactor: 0.7, description: 'One-way exit from the containment zone' },
+        { id: 'decontamination', template: 'waste-disposal', class: 'D', name: 'Equipment Decontamination', sizeFactor: 0.9 },
+        { id: 'waste-airlock', template: 'quarantine', class: 'D', name: 'Waste Airlock', sizeFactor: 0.5 }
+      );
+    }
+
+    const firstProcess = processRooms[0].id;
+    const lastProcess = processRooms[processRooms.length - 1].id;
+    const relDefs: GeneratedRelationshipDefinition[] = [
+      { from: 'receiving', to: 'raw-materials', type: 'MATERIAL_FLOW', reason: 'Goods receipt', flowType: 'raw_material' },
+      { from: 'raw-materials', to: 'dispensing', type: 'MATERIAL_FLOW', reason: 'Materials to dispensing', flowType: 'raw_material' },
+      containmentLevel === 'standard'
+        ? { from: 'dispensing', to: firstProcess, type: 'MATERIAL_FLOW', reason: 'Charging dispensed materials', flowType: 'raw_material' }
+        : { from: 'dispensing', to: 'material-airlock', type: 'MATERIAL_FLOW', reason: 'Dispensed materials into containment', flowType: 'raw_material' },
+      ...processRooms.slice(1).map((room, index) => ({
+        from: processRooms[index].id,
+        to: room.id,
+        type: 'MATERIAL_FLOW' as const,
+        reason: 'Sequential process flow',
+        flowType: 'raw_material' as const
+      })),
+      { from: lastProcess, to: 'api-packing', type: 'MATERIAL_FLOW', reason: 'Dried API to packing', flowType: 'finished_product' },
+      { from: 'api-packing', to: 'quarantine', type: 'MATERIAL_FLOW', reason: 'Packed API awaiting release', flowType: 'finished_product' },
+      { from: 'quarantine', to: 'finished-goods', type: 'MATERIAL_FLOW', reason: 'Released API', flowType: 'finished_product' },
+      { from: lastProcess, to: 'qc-lab', type: 'MATERIAL_FLOW', reason: 'In-process samples to QC' },
+      { from: firstProcess, to: 'utilities', type: 'SHARES_UTILITY', reason: 'Process HVAC and exhaust' },
+      { from: firstProcess, to: 'qc-lab', type: 'PROHIBITED_NEAR', reason: 'Keep laboratory away from process vapours' }
+    ];
+
+    if (containmentLevel === 'standard') {
+      relDefs.push(
+        { from: 'change-room', to: firstProcess, type: 'PERSONNEL_FLOW', reason: 'Operator access', flowType: 'personnel' },
+        { from: lastProcess, to: 'waste', type: 'MATERIAL_FLOW', reason: 'Process waste', flowType: 'waste' }
+      );
+    } else {
+      relDefs.push(
+        { from: 'material-airlock', to: firstProcess, type: 'MATERIAL_FLOW', reason: 'Material transfer into containment', flowType: 'raw_material' },
+        { from: 'change-room', to: 'personnel-airlock', type: 'PERSONNEL_FLOW', reason: 'Change before containment entry', flowType: 'personnel' },
+        {
+          from: 'personnel-airlock',
+          to: firstProcess,
+          type: 'PERSONNEL_FLOW',
+          reason: 'Operator entry to containment',
+          flowType: 'personnel',
+          flowDirection: containmentLevel === 'high' ? 'unidirectional' : 'bidirectional'
+        }
+      );
+    }
+
+    if (containmentLevel === 'high') {
+      relDefs.push(
+        { from: lastProcess, to: 'degowning', type: 'PERSONNEL_FLOW', reason: 'One-way exit through mist shower', flowType: 'personnel', flowDirection: 'unidirectional' },
+        { from: 'degowning', to: 'change-room', type: 'PERSONNEL_FLOW', reason: 'Return to change room after decontamination', flowType: 'personnel', flowDirection: 'unidirectional' },
+        { from: lastProcess, to: 'decontamination', type: 'MATERIAL_FLOW', reason: 'Equipment wash-down before removal', flowType: 'equipment' },
+        { from: 'decontamination', to: 'waste-airlock', type: 'MATERIAL_FLOW', reason: 'Bagged waste out of containment', flowType: 'waste', flowDirection: 'unidirectional' },
+        { from: 'waste-airlock', to: 'waste', type: 'MATERIAL_FLOW', reason: 'Contained waste disposal', flowType: 'waste', flowDirection: 'unidirectional' }
+      );
+    } else if (containmentLevel === 'moderate') {
+      relDefs.push(
+        { from: lastProcess, to: 'material-airlock', type: 'MATERIAL_FLOW', reason: 'Waste out through material airlock', flowType: 'waste' },
+        { from: 'material-airlock', to: 'waste', type: 'MATERIAL_FLOW', reason: 'Process waste', flowType: 'waste' }
+      );
+    }
+
+    const processLabel = processType.replace('-', ' ');
+    return this.buildFacilityDiagram(
+      `API Manufacturing Facility (${processLabel}, ${containmentLevel} containment)`,
+      roomDefinitions,
+      relDefs,
+      'linear',
+      seed
+    );
   }
 
   /**
-   * Generate QC Laboratory (simplified)
+   * Generate QC Laboratory
+   * testingTypes selects the chemistry and microbiology suites; sampleVolume sizes sample
+   * handling and instrument rooms and adds extra capacity for high-volume labs
    */
-  private async generateQCLaboratory(params: any, customizations?: any): Promise<Diagram> {
-    return {
-      id: uuidv4(),
-      name: 'Quality Control Laboratory',
-      nodes: [],
-      relationships: [],
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
+  private async generateQCLaboratory(params: any, customizations?: any, seed?: number): Promise<Diagram> {
+    const testingTypes = this.getParameter('qc-laboratory', params, 'testingTypes');
+    const sampleVolume = Number(this.getParameter('qc-laboratory', params, 'sampleVolume')) || 1000;
+    // Room area grows roughly linearly with samples, so dimensions grow with the square root
+    const volumeScale = this.clamp(Math.sqrt(sampleVolume / 1000), 0.7, 1.6);
+    const highVolume = sampleVolume >= 2500;
+    const includeChemical = testingTypes !== 'micro-only';
+    const includeMicro = testingTypes !== 'chemical-only';
+
+    const roomDefinitions: GeneratedRoomDefinition[] = [
+      { id: 'sample-receipt', template: 'receiving', class: 'CNC', name: 'Sample Receipt & Login', sizeFactor: 0.6 * volumeScale },
+      { id: 'sample-storage', template: 'cold-storage', class: 'CNC', name: 'Sample Storage', sizeFactor: volumeScale },
+      { id: 'retained-samples', template: 'quarantine', class: 'CNC', name: 'Retained Samples', sizeFactor: 0.7 * volumeScale },
+      { id: 'offices', template: 'offices', class: 'CNC', name: 'QC Offices & Data Review', sizeFactor: 0.6 + 0.2 * volumeScale }
+    ];
+    const relDefs: GeneratedRelationshipDefinition[] = [
+      { from: 'sample-receipt', to: 'sample-storage', type: 'MATERIAL_FLOW', reason: 'Logged samples to storage' },
+      { from: 'sample-receipt', to: 'retained-samples', type: 'MATERIAL_FLOW', reason: 'Retention samples' }
+    ];
+
+    if (includeChemical) {
+      roomDefinitions.push(
+        { id: 'wet-chemistry', template: 'analytical-lab', class: 'CNC', name: 'Wet Chemistry Lab', sizeFactor: volumeScale },
+        { id: 'instrument-room', template: 'release-testing', class: 'CNC', name: 'Instrument Room (HPLC/GC)', sizeFactor: volumeScale },
+        { id: 'balance-room', template: 'weighing-area', class: 'CNC', name: 'Balance Room', sizeFactor: 0.6 },
+        { id: 'reagent-store', template: 'quarantine', class: 'CNC', name: 'Reagents & Reference Standards', sizeFactor: 0.6 },
+        { id: 'glassware-wash', template: 'waste-disposal', class: 'CNC', name: 'Glassware Wash', sizeFactor: 0.8 }
+      );
+      relDefs.push(
+        { from: 'sample-storage', to: 'wet-chemistry', type: 'MATERIAL_FLOW', reason: 'Samples to preparation' },
+        { from: 'balance-room', to: 'wet-chemistry', type: 'ADJACENT_TO', reason: 'Weighing for sample and standard preparation' },
+        { from: 'wet-chemistry', to: 'instrument-room', type: 'MATERIAL_FLOW', reason: 'Prepared solutions to instruments' },
+        { from: 'reagent-store', to: 'wet-chemistry', type: 'MATERIAL_FLOW', reason: 'Reagents and standards' },
+        { from: 'wet-chemistry', to: 'glassware-wash', type: 'ADJACENT_TO', reason: 'Used glassware return' },
+        { from: 'instrument-room', to: 'offices', type: 'REQUIRES_ACCESS', reason: 'Chromatography data review' }
+      );
+
+      if (highVolume) {
+        roomDefinitions.push(
+          { id: 'instrument-room-2', template: 'release-testing', class: 'CNC', name: 'Instrument Room 2 (Dissolution/Spectroscopy)', sizeFactor: 0.8 * volumeScale },
+          { id: 'stability-chambers', template: 'stability-chamber', class: 'CNC', name: 'Stability Chambers', sizeFactor: volumeScale }
+        );
+        relDefs.push(
+          { from: 'wet-chemistry', to: 'instrument-room-2', type: 'MATERIAL_FLOW', reason: 'Prepared solutions to instruments' },
+          { from: 'stability-chambers', to: 'wet-chemistry', type: 'MATERIAL_FLOW', reason: 'Stability pull points' }
+        );
+      }
+    }
+
+    if (includeMicro) {
+      roomDefinitions.push(
+        { id: 'micro-gowning', template: 'gowning-area', class: 'C', name: 'Microbiology Gowning', sizeFactor: 0.7 },
+        { id: 'media-prep', template: 'weighing-area', class: 'D', name: 'Media Preparation', sizeFactor: 0.9 * volumeScale },
+        { id: 'micro-lab', template: 'microbiology', class: 'C', name: 'Microbiology Testing Lab', sizeFactor: volumeScale },
+        { id: 'sterility-testing', template: 'microbiology', class: 'B', name: 'Sterility Testing Suite', sizeFactor: 0.8, description: 'Grade A isolator or LAF in a Grade B background' },
+        { id: 'incubation', template: 'stability-chamber', class: 'CNC', name: 'Incubation Room', sizeFactor: 0.8 * volumeScale },
+        { id: 'micro-decon', template: 'waste-disposal', class: 'CNC', name: 'Autoclave & Decontamination', sizeFactor: 0.8 }
+      );
+      relDefs.push(
+        { from: 'sample-storage', to: 'micro-lab', type: 'MATERIAL_FLOW', reason: 'Samples to microbiology' },
+        { from: 'media-prep', to: 'micro-lab', type: 'MATERIAL_FLOW', reason: 'Prepared media' },
+        { from: 'micro-gowning', to: 'micro-lab', type: 'PERSONNEL_FLOW', reason: 'Gowned analysts', flowType: 'personnel' },
+        { from: 'micro-gowning', to: 'sterility-testing', type: 'PERSONNEL_FLOW', reason: 'Gowned analysts to Grade B', flowType: 'personnel' },
+        { from: 'micro-lab', to: 'incubation', type: 'MATERIAL_FLOW', reason: 'Plates to incubation' },
+        { from: 'sterility-testing', to: 'incubation', type: 'MATERIAL_FLOW', reason: 'Sterility test media to incubation' },
+        { from: 'incubation', to: 'micro-decon', type: 'MATERIAL_FLOW', reason: 'Used cultures for decontamination', flowType: 'waste', flowDirection: 'unidirectional' },
+        { from: 'micro-lab', to: 'micro-decon', type: 'MATERIAL_FLOW', reason: 'Contaminated waste', flowType: 'waste', flowDirection: 'unidirectional' }
+      );
+
+      if (highVolume) {
+        roomDefinitions.push(
+          { id: 'environmental-monitoring', template: 'microbiology', class: 'D', name: 'Environmental Monitoring Lab', sizeFactor: 0.7 * volumeScale }
+        );
+        relDefs.push(
+          { from: 'environmental-monitoring', to: 'incubation', type: 'MATERIAL_FLOW', reason: 'EM plates to incubation' },
+          { from: 'micro-gowning', to: 'environmental-monitoring', type: 'PERSONNEL_FLOW', reason: 'Gowned analysts', flowType: 'personnel' }
+        );
+      }
+    }
+
+    if (includeChemical && includeMicro) {
+      relDefs.push(
+        { from: 'wet-chemistry', to: 'micro-lab', type: 'PROHIBITED_NEAR', reason: 'Solvent fumes and microbiology must not share air' },
+        { from: 'glassware-wash', to: 'micro-decon', type: 'SHARES_UTILITY', reason: 'Shared purified water and drainage' }
+      );
+    }
+
+    const testingLabel = testingTypes === 'both' ? 'chemical & micro' : testingTypes.replace('-only', '');
+    return this.buildFacilityDiagram(
+      `Quality Control Laboratory (${testingLabel}, ${sampleVolume} samples/month)`,
+      roomDefinitions,
+      relDefs,
+      'grid',
+      seed
+    );
+  }
+
+  /**
+   * Generate Packaging Facility
+   * packagingType selects the primary packaging lines; throughput sets how many lines are
+   * needed and sizes the line rooms, component stores and finished goods warehouse
+   */
+  private async generatePackagingFacility(params: any, customizations?: any, seed?: number): Promise<Diagram> {
+    const packagingType = this.getParameter('packaging-facility', params, 'packagingType');
+    const throughput = Number(this.getParameter('packaging-facility', params, 'throughput')) || 10000;
+
+    // Nominal output of one line (units/hour)
+    const lineTypes: Record<string, { name: string; capacity: number; sizeFactor: number }> = {
+      blister: { name: 'Blister Packaging Line', capacity: 12000, sizeFactor: 1.0 },
+      bottle: { name: 'Bottle Filling Line', capacity: 8000, sizeFactor: 1.2 },
+      pouch: { name: 'Pouch/Sachet Line', capacity: 10000, sizeFactor: 0.9 }
     };
+    const lineKinds = packagingType === 'mixed' ? ['blister', 'bottle', 'pouch'] : [lineTypes[packagingType] ? packagingType : 'blister'];
+    const mixCapacity = lineKinds.reduce((sum, kind) => sum + lineTypes[kind].capacity, 0) / lineKinds.length;
+    const lineCount = Math.max(lineKinds.length, Math.min(6, Math.ceil(throughput / mixCapacity)));
+    const warehouseScale = this.clamp(Math.sqrt(throughput / 10000), 0.7, 1.8);
+
+    const roomDefinitions: GeneratedRoomDefinition[] = [
+      { id: 'receiving', template: 'receiving', class: 'CNC', sizeFactor: this.clamp(warehouseScale, 0.8, 1.4) },
+      { id: 'component-store', template: 'raw-materials', class: 'CNC', name: 'Packaging Component Store', sizeFactor: warehouseScale },
+      { id: 'printed-materials', template: 'quarantine', class: 'CNC', name: 'Printed Materials Store (Secure)', sizeFactor: 0.6 },
+      { id: 'bulk-staging', template: 'quarantine', class: 'D', name: 'Bulk Product Staging', sizeFactor: 0.8 * warehouseScale },
+      { id: 'change-room', template: 'change-room', class: 'D' },
+      { id: 'secondary-packaging', template: 'packaging', class: 'CNC', name: 'Secondary Packaging & Serialization', sizeFactor: this.clamp(0.6 + 0.2 * lineCount, 0.8, 1.8) },
+      { id: 'ipc-lab', template: 'release-testing', class: 'CNC', name: 'In-Process Control', sizeFactor: 0.5 },
+      { id: 'reject-store', template: 'waste-disposal', class: 'CNC', name: 'Reject & Waste Store', sizeFactor: 0.6 },
+      { id: 'finished-goods', template: 'finished-goods', class: 'CNC', sizeFactor: warehouseScale },
+      { id: 'shipping', template: 'shipping', class: 'CNC', sizeFactor: this.clamp(warehouseScale, 0.8, 1.4) }
+    ];
+    const relDefs: GeneratedRelationshipDefinition[] = [
+      { from: 'receiving', to: 'component-store', type: 'MATERIAL_FLOW', reason: 'Packaging components receipt', flowType: 'raw_material' },
+      { from: 'receiving', to: 'printed-materials', type: 'MATERIAL_FLOW', reason: 'Labels and leaflets to secure store', flowType: 'raw_material' },
+      { from: 'receiving', to: 'bulk-staging', type: 'MATERIAL_FLOW', reason: 'Bulk product receipt', flowType: 'raw_material' },
+      { from: 'printed-materials', to: 'secondary-packaging', type: 'MATERIAL_FLOW', reason: 'Reconciled printed materials to line', flowType: 'raw_material' },
+      { from: 'secondary-packaging', to: 'finished-goods', type: 'MATERIAL_FLOW', reason: 'Palletised finished goods', flowType: 'finished_product' },
+      { from: 'finished-goods', to: 'shipping', type: 'MATERIAL_FLOW', reason: 'Dispatch', flowType: 'finished_product' },
+      { from: 'secondary-packaging', to: 'reject-store', type: 'MATERIAL_FLOW', reason: 'Rejects and destroyed printed materials', flowType: 'waste' }
+    ];
+
+    // Distribute lines across the packaging types, then size each for its share of the throughput
+    for (let index = 0; index < lineCount; index++) {
+      const kind = lineKinds[index % lineKinds.length];
+      const lineType = lineTypes[kind];
+      const linesOfKind = Math.ceil((lineCount - (index % lineKinds.length)) / lineKinds.length);
+      const lineNumber = Math.floor(index / lineKinds.length) + 1;
+      const perLineSpeed = throughput / lineCount;
+      const id = `${kind}-line-${lineNumber}`;
+
+      roomDefinitions.push({
+        id,
+        template: 'packaging',
+        class: 'D',
+        name: linesOfKind > 1 ? `${lineType.name} ${lineNumber}` : lineType.name,
+        sizeFactor: lineType.sizeFactor * this.clamp(0.8 + 0.4 * (perLineSpeed / lineType.capacity), 0.8, 1.3),
+        description: `Primary packaging, ~${Math.round(perLineSpeed)} units/hour`
+      });
+      relDefs.push(
+        { from: 'bulk-staging', to: id, type: 'MATERIAL_FLOW', reason: 'Bulk product to primary packaging', flowType: 'raw_material' },
+        { from: 'component-store', to: id, type: 'MATERIAL_FLOW', reason: 'Primary packaging components', flowType: 'raw_material' },
+        { from: id, to: 'secondary-packaging', type: 'MATERIAL_FLOW', reason: 'Packs to cartoning', flowType: 'finished_product' },
+        { from: 'change-room', to: id, type: 'PERSONNEL_FLOW', reason: 'Operators to exposed product area', flowType: 'personnel' },
+        { from: id, to: 'ipc-lab', type: 'REQUIRES_ACCESS', reason: 'In-process checks' }
+      );
+    }
+
+    if (lineKinds.includes('blister')) {
+      roomDefinitions.push({ id: 'tooling-store', template: 'maintenance', class: 'CNC', name: 'Format Parts & Tooling Store', sizeFactor: 0.6 });
+      relDefs.push({ from: 'tooling-store', to: 'blister-line-1', type: 'ADJACENT_TO', reason: 'Format changeover parts' });
+    }
+    if (lineKinds.includes('bottle')) {
+      roomDefinitions.push({ id: 'bottle-prep', template: 'weighing-area', class: 'D', name: 'Bottle & Closure Preparation', sizeFactor: 0.7 });
+      relDefs.push({ from: 'bottle-prep', to: 'bottle-line-1', type: 'MATERIAL_FLOW', reason: 'Cleaned bottles and closures', flowType: 'raw_material' });
+    }
+
+    return this.buildFacilityDiagram(
+      `Packaging Facility (${packagingType}, ${lineCount} line${lineCount === 1 ? '' : 's'})`,
+      roomDefinitions,
+      relDefs,
+      'linear',
+      seed
+    );
+  }
+
+  /**
+   * Read a template parameter, falling back to its declared default
+   */
+  private getParameter(templateId: string, params: any, parameterId: string): any {
+    const value = params?.[parameterId];
+    if (value !== undefined && value !== null && value !== '') {
+      return value;
+    }
+    return this.getTemplateById(templateId)?.parameters.find(p => p.id === parameterId)?.defaultValue;
   }
 
   /**
-   * Generate Packaging Facility (simplified)
+   * Build a positioned diagram from room and relationship definitions
    */
-  private async generatePackagingFacility(params: any, customizations?: any): Promise<Diagram> {
+  private async buildFacilityDiagram(
+    name: string,
+    roomDefinitions: GeneratedRoomDefinition[],
+    relDefs: GeneratedRelationshipDefinition[],
+    layoutStyle: 'linear' | 'clustered' | 'circular' | 'grid',
+    seed?: number
+  ): Promise<Diagram> {
+    const allTemplates = await this.nodeTemplatesService.getTemplates();
+    const nodes: FunctionalArea[] = [];
+    const nodeIds = new Map<string, string>();
+
+    for (const roomDef of roomDefinitions) {
+      const template = allTemplates.find(t => t.id === roomDef.template);
+      if (!template) {
+        console.warn(`⚠️  Unknown node template for generated room: ${roomDef.template}`);
+        continue;
+      }
+
+      const scale = roomDef.sizeFactor || 1;
+      const node: FunctionalArea = {
+        id: `node-${roomDef.id}-${uuidv4()}`,
+        name: roomDef.name || template.name,
+        category: template.category,
+        cleanroomClass: roomDef.class,
+        width: Math.round(template.defaultSize.width * scale),
+        height: Math.round(template.defaultSize.height * scale)
+      };
+      if (roomDef.description) {
+        node.description = roomDef.description;
+      }
+      nodes.push(node);
+      nodeIds.set(roomDef.id, node.id);
+    }
+
+    const relationships: SpatialRelationship[] = [];
+    for (const relDef of relDefs) {
+      const fromId = nodeIds.get(relDef.from);
+      const toId = nodeIds.get(relDef.to);
+      if (!fromId || !toId) continue;
+
+      relationships.push({
+        id: `rel-${uuidv4()}`,
+        type: relDef.type,
+        fromId,
+        toId,
+        priority: relDef.type === 'PROHIBITED_NEAR' ? 2 : 1,
+        reason: relDef.reason,
+        ...(relDef.flowType && { flowType: relDef.flowType }),
+        ...(relDef.flowDirection && { flowDirection: relDef.flowDirection })
+      });
+    }
+
+    const positions = await this.spatialService.calculateLayoutPositions(nodes, relationships, { layoutStyle, seed });
+    positions.forEach((pos, nodeId) => {
+      const node = nodes.find(n => n.id === nodeId);
+      if (node) {
+        node.x = pos.x;
+        node.y = pos.y;
+      }
+    });
+
     return {
       id: uuidv4(),
-      name: 'Packaging Facility',
-      nodes: [],
-      relationships: [],
+      name,
+      nodes,
+      relationships,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString()
     };
   }
 
+  private clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value));
+  }
+
   /**
    * Scale room size based on batch size
    */
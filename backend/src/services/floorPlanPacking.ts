@@ -0,0 +1,277 @@
+/**
+ * Rectilinear floor plan packing
+ *
+ * Takes rooms roughly placed by a force-directed pass and packs them onto a shared grid:
+ * no two rooms overlap, rooms linked by material flow or adjacency share a wall, rooms that
+ * must be kept apart do not touch, and the plan stays inside an optional building footprint.
+ * Rooms are placed one at a time against the walls of rooms already placed, so the force
+ * layout only decides order and preferred direction.
+ */
+
+/**
+ * Room rectangle, top-left corner and size in the caller's units
+ */
+export interface PackingRect {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * 'share-wall' rooms should touch along at least minSharedWall; 'separate' rooms should not touch
+ */
+export interface PackingLink {
+  fromId: string;
+  toId: string;
+  kind: 'share-wall' | 'separate';
+  weight?: number;
+}
+
+export interface PackingOptions {
+  gridSize: number; // Room sizes and positions snap to this
+  minSharedWall?: number; // Shortest wall that counts as shared (room for a door); defaults to two grid cells
+  footprint?: { width: number; depth: number };
+}
+
+export interface PackingResult {
+  rects: PackingRect[]; // Snapped and packed, bounding box starts at (0, 0)
+  width: number;
+  depth: number;
+  fitsFootprint: boolean;
+  outsideFootprint: string[]; // Rooms that could only be placed by exceeding the footprint
+  unsharedWalls: Array<{ fromId: string; toId: string }>; // share-wall links left without a common wall
+}
+
+// Candidate scoring weights, in grid cells
+const SHARED_WALL_REWARD = 1000;
+const SEPARATION_PENALTY = 500;
+const LINK_DISTANCE_PENALTY = 2;
+const TARGET_DISTANCE_PENALTY = 1;
+const BOUNDING_BOX_GROWTH_PENALTY = 0.5;
+
+interface Cell {
+  id: string;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+const overlaps = (a: Cell, b: Cell): boolean =>
+  a.x < b.x + b.w && b.x < a.x + a.w && a.y < b.y + b.h && b.y < a.y + a.h;
+
+/**
+ * Length of the wall two rectangles have in common (0 when they do not touch)
+ */
+export function sharedWallLength(a: PackingRect, b: PackingRect, tolerance = 1e-6): number {
+  const overlapX = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const overlapY = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+
+  const touchVertical = Math.abs(a.x + a.width - b.x) <= tolerance || Math.abs(b.x + b.width - a.x) <= tolerance;
+  if (touchVertical && overlapY > tolerance) return overlapY;
+
+  const touchHorizontal = Math.abs(a.y + a.height - b.y) <= tolerance || Math.abs(b.y + b.height - a.y) <= tolerance;
+  if (touchHorizontal && overlapX > tolerance) return overlapX;
+
+  return 0;
+}
+
+const sharedCells = (a: Cell, b: Cell): number =>
+  sharedWallLength({ id: a.id, x: a.x, y: a.y, width: a.w, height: a.h }, { id: b.id, x: b.x, y: b.y, width: b.w, height: b.h });
+
+const centreDistance = (a: Cell, b: Cell): number =>
+  Math.hypot(a.x + a.w / 2 - (b.x + b.w / 2), a.y + a.h / 2 - (b.y + b.h / 2));
+
+const boundsOf = (cells: Cell[]): { minX: number; minY: number; maxX: number; maxY: number } => ({
+  minX: Math.min(...cells.map(c => c.x)),
+  minY: Math.min(...cells.map(c => c.y)),
+  maxX: Math.max(...cells.map(c => c.x + c.w)),
+  maxY: Math.max(...cells.map(c => c.y + c.h))
+});
+
+/**
+ * Positions against every side of every placed room, aligned to the edges of placed rooms
+ */
+function candidatePositions(room: { w: number; h: number }, placed: Cell[]): Array<{ x: number; y: number }> {
+  const alignX = new Set<number>();
+  const alignY = new Set<number>();
+  for (const p of placed) {
+    alignX.add(p.x).add(p.x + p.w - room.w);
+    alignY.add(p.y).add(p.y + p.h - room.h);
+  }
+
+  const candidates = new Map<string, { x: number; y: number }>();
+  const add = (x: number, y: number) => candidates.set(`${x},${y}`, { x, y });
+
+  for (const p of placed) {
+    const ys = [...alignY, p.y + Math.round((p.h - room.h) / 2)].filter(y => y < p.y + p.h && y + room.h > p.y);
+    const xs = [...alignX, p.x + Math.round((p.w - room.w) / 2)].filter(x => x < p.x + p.w && x + room.w > p.x);
+    ys.forEach(y => {
+      add(p.x + p.w, y);
+      add(p.x - room.w, y);
+    });
+    xs.forEach(x => {
+      add(x, p.y + p.h);
+      add(x, p.y - room.h);
+    });
+  }
+
+  return Array.from(candidates.values());
+}
+
+/**
+ * Pack rooms into an overlap-free rectilinear plan
+ */
+export function packFloorPlan(rooms: PackingRect[], links: PackingLink[], options: PackingOptions): PackingResult {
+  const grid = options.gridSize;
+  const minShared = Math.max(1, Math.round((options.minSharedWall ?? grid * 2) / grid));
+  const footprint = options.footprint
+    ? { w: Math.floor(options.footprint.width / grid), h: Math.floor(options.footprint.depth / grid) }
+    : undefined;
+
+  if (rooms.length === 0) {
+    return { rects: [], width: 0, depth: 0, fitsFootprint: true, outsideFootprint: [], unsharedWalls: [] };
+  }
+
+  // Work in whole grid cells
+  const sizes = new Map(rooms.map(r => [r.id, {
+    w: Math.max(1, Math.round(r.width / grid)),
+    h: Math.max(1, Math.round(r.height / grid))
+  }]));
+  const forceCentres = new Map(rooms.map(r => [r.id, { x: (r.x + r.width / 2) / grid, y: (r.y + r.height / 2) / grid }]));
+
+  const linksOf = new Map<string, PackingLink[]>();
+  for (const link of links) {
+    if (link.fromId === link.toId || !sizes.has(link.fromId) || !sizes.has(link.toId)) continue;
+    [link.fromId, link.toId].forEach(id => linksOf.set(id, [...(linksOf.get(id) || []), link]));
+  }
+  const otherEnd = (link: PackingLink, id: string) => (link.fromId === id ? link.toId : link.fromId);
+  const wallWeight = (id: string, among?: Set<string>) => (linksOf.get(id) || [])
+    .filter(l => l.kind === 'share-wall' && (!among || among.has(otherEnd(l, id))))
+    .reduce((sum, l) => sum + (l.weight ?? 1), 0);
+  const area = (id: string) => sizes.get(id)!.w * sizes.get(id)!.h;
+
+  // Start from the best-connected room, largest first on ties
+  const first = [...rooms].sort((a, b) => wallWeight(b.id) - wallWeight(a.id) || area(b.id) - area(a.id))[0];
+  const placed: Cell[] = [{ id: first.id, x: 0, y: 0, ...sizes.get(first.id)! }];
+  const placedIds = new Set([first.id]);
+  const origin = forceCentres.get(first.id)!;
+  const firstSize = sizes.get(first.id)!;
+  const outsideFootprint: string[] = [];
+  if (footprint && (firstSize.w > footprint.w || firstSize.h > footprint.h)) {
+    outsideFootprint.push(first.id);
+  }
+
+  while (placedIds.size < rooms.length) {
+    // Next: most wall links into the placed rooms, then nearest to them in the force layout, then largest
+    const placedCentre = {
+      x: placed.reduce((sum, c) => sum + forceCentres.get(c.id)!.x, 0) / placed.length,
+      y: placed.reduce((sum, c) => sum + forceCentres.get(c.id)!.y, 0) / placed.length
+    };
+    const next = rooms
+      .filter(r => !placedIds.has(r.id))
+      .map(r => ({
+        room: r,
+        weight: wallWeight(r.id, placedIds),
+        distance: Math.hypot(forceCentres.get(r.id)!.x - placedCentre.x, forceCentres.get(r.id)!.y - placedCentre.y)
+      }))
+      .sort((a, b) => b.weight - a.weight || a.distance - b.distance || area(b.room.id) - area(a.room.id))[0].room;
+
+    const size = sizes.get(next.id)!;
+    const forceCentre = forceCentres.get(next.id)!;
+    const target = { x: forceCentre.x - origin.x + firstSize.w / 2, y: forceCentre.y - origin.y + firstSize.h / 2 };
+    const bounds = boundsOf(placed);
+    const boundsArea = (bounds.maxX - bounds.minX) * (bounds.maxY - bounds.minY);
+
+    const evaluate = (w: number, h: number, enforceFootprint: boolean) => {
+      let best: { cell: Cell; score: number } | null = null;
+      for (const position of candidatePositions({ w, h }, placed)) {
+        const cell: Cell = { id: next.id, x: position.x, y: position.y, w, h };
+        if (placed.some(p => overlaps(cell, p))) continue;
+
+        const grown = boundsOf([...placed, cell]);
+        const grownWidth = grown.maxX - grown.minX;
+        const grownDepth = grown.maxY - grown.minY;
+        if (enforceFootprint && footprint && (grownWidth > footprint.w || grownDepth > footprint.h)) continue;
+
+        let score = -BOUNDING_BOX_GROWTH_PENALTY * (grownWidth * grownDepth - boundsArea);
+        score -= TARGET_DISTANCE_PENALTY * Math.hypot(cell.x + w / 2 - target.x, cell.y + h / 2 - target.y);
+
+        for (const link of linksOf.get(next.id) || []) {
+          const other = placed.find(p => p.id === otherEnd(link, next.id));
+          if (!other) continue;
+          const weight = link.weight ?? 1;
+          const shared = sharedCells(cell, other);
+          if (link.kind === 'share-wall') {
+            score += shared >= Math.min(minShared, w, h, other.w, other.h)
+              ? SHARED_WALL_REWARD * weight
+              : -LINK_DISTANCE_PENALTY * weight * centreDistance(cell, other);
+          } else if (shared > 0) {
+            score -= SEPARATION_PENALTY * weight;
+          }
+        }
+
+        if (!best || score > best.score) best = { cell, score };
+      }
+      return best;
+    };
+
+    // Prefer the room as sized; turn it 90° only if that is the only way to stay inside the footprint
+    let best = evaluate(size.w, size.h, true);
+    if (!best && footprint && size.w !== size.h) {
+      best = evaluate(size.h, size.w, true);
+    }
+    if (!best) {
+      best = evaluate(size.w, size.h, false)!;
+      outsideFootprint.push(next.id);
+    }
+
+    placed.push(best.cell);
+    placedIds.add(next.id);
+  }
+
+  // Move the plan so its bounding box starts at the origin
+  const bounds = boundsOf(placed);
+  const rects = placed.map(c => ({
+    id: c.id,
+    x: (c.x - bounds.minX) * grid,
+    y: (c.y - bounds.minY) * grid,
+    width: c.w * grid,
+    height: c.h * grid
+  }));
+
+  const cellsById = new Map(placed.map(c => [c.id, c]));
+  const unsharedWalls = links
+    .filter(l => l.kind === 'share-wall' && cellsById.has(l.fromId) && cellsById.has(l.toId) && l.fromId !== l.toId)
+    .filter(l => {
+      const a = cellsById.get(l.fromId)!;
+      const b = cellsById.get(l.toId)!;
+      return sharedCells(a, b) < Math.min(minShared, a.w, a.h, b.w, b.h);
+    })
+    .map(l => ({ fromId: l.fromId, toId: l.toId }));
+
+  return {
+    rects,
+    width: (bounds.maxX - bounds.minX) * grid,
+    depth: (bounds.maxY - bounds.minY) * grid,
+    fitsFootprint: outsideFootprint.length === 0,
+    outsideFootprint,
+    unsharedWalls
+  };
+}
+
+/**
+ * Human-readable warnings for what the packing could not achieve
+ */
+export function describePackingIssues(result: PackingResult, nameOf: (id: string) => string): string[] {
+  const warnings: string[] = [];
+  if (!result.fitsFootprint) {
+    warnings.push(`Building footprint is too small: ${result.outsideFootprint.map(nameOf).join(', ')} could only be placed outside it`);
+  }
+  for (const { fromId, toId } of result.unsharedWalls) {
+    warnings.push(`${nameOf(fromId)} and ${nameOf(toId)} should share a wall but could not be placed side by side`);
+  }
+  return warnings;
+}
@@ -0,0 +1,169 @@
+import { Diagram, SpatialRelationship } from '../types';
+
+export type RouteFlowType = 'material' | 'personnel' | 'waste';
+
+/**
+ * Room in a routing network (centre point in canvas units)
+ */
+export interface RouteRoom {
+  id: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * Passage between two rooms. One-way doors can only be walked from fromId to toId.
+ */
+export interface RouteDoor {
+  id: string;
+  fromId: string;
+  toId: string;
+  flowTypes?: RouteFlowType[]; // Undefined = usable by every flow
+  oneWay: boolean;
+  point?: { x: number; y: number }; // Door position; routes bend through it when known
+}
+
+export interface DoorRoute {
+  roomIds: string[];
+  doorIds: string[];
+  distance: number; // Canvas units
+}
+
+export interface DiagramFlowRouting {
+  hasDoorTopology: boolean;
+  averageMaterialDistance: number;
+  averagePersonnelDistance: number;
+  unroutableFlows: SpatialRelationship[];
+}
+
+const distanceBetween = (a: { x: number; y: number }, b: { x: number; y: number }): number =>
+  Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2));
+
+/**
+ * Shortest door-to-door route between two rooms for one flow type (Dijkstra).
+ * Returns null when the target cannot be reached without walking a one-way
+ * door backwards, or when no doors connect the rooms at all.
+ */
+export function findDoorRoute(
+  rooms: RouteRoom[],
+  doors: RouteDoor[],
+  flowType: RouteFlowType,
+  fromId: string,
+  toId: string
+): DoorRoute | null {
+  const roomsById = new Map(rooms.map(room => [room.id, room]));
+  if (!roomsById.has(fromId) || !roomsById.has(toId) || fromId === toId) return null;
+
+  const edges = new Map<string, Array<{ doorId: string; toId: string; length: number }>>();
+  const addEdge = (door: RouteDoor, from: RouteRoom, to: RouteRoom) => {
+    const length = door.point
+      ? distanceBetween(from, door.point) + distanceBetween(door.point, to)
+      : distanceBetween(from, to);
+    edges.set(from.id, [...(edges.get(from.id) || []), { doorId: door.id, toId: to.id, length }]);
+  };
+
+  doors
+    .filter(door => !door.flowTypes || door.flowTypes.includes(flowType))
+    .forEach(door => {
+      const from = roomsById.get(door.fromId);
+      const to = roomsById.get(door.toId);
+      if (!from || !to) return;
+      addEdge(door, from, to);
+      if (!door.oneWay) addEdge(door, to, from);
+    });
+
+  const best = new Map<string, { distance: number; previous?: { roomId: string; doorId: string } }>([[fromId, { distance: 0 }]]);
+  const visited = new Set<string>();
+
+  while (!visited.has(toId)) {
+    let currentId: string | undefined;
+    for (const [roomId, entry] of best) {
+      if (!visited.has(roomId) && (currentId === undefined || entry.distance < best.get(currentId)!.distance)) {
+        currentId = roomId;
+      }
+    }
+    if (currentId === undefined) return null;
+
+    const current = currentId;
+    visited.add(current);
+    for (const edge of edges.get(current) || []) {
+      const candidate = best.get(current)!.distance + edge.length;
+      const known = best.get(edge.toId);
+      if (!visited.has(edge.toId) && (!known || candidate < known.distance)) {
+        best.set(edge.toId, { distance: candidate, previous: { roomId: current, doorId: edge.doorId } });
+      }
+    }
+  }
+
+  const roomIds = [toId];
+  const doorIds: string[] = [];
+  let step = best.get(toId)!.previous;
+  while (step) {
+    roomIds.unshift(step.roomId);
+    doorIds.unshift(step.doorId);
+    step = best.get(step.roomId)?.previous;
+  }
+
+  return { roomIds, doorIds, distance: best.get(toId)!.distance };
+}
+
+const toRouteFlowType = (flowType: SpatialRelationship['flowType']): RouteFlowType[] | undefined => {
+  switch (flowType) {
+    case 'raw_material':
+    case 'finished_product':
+    case 'equipment':
+      return ['material'];
+    case 'personnel':
+      return ['personnel'];
+    case 'waste':
+      return ['waste'];
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Route every declared MATERIAL_FLOW / PERSONNEL_FLOW of a diagram through its
+ * doors (ADJACENT_TO relationships). Diagrams without any doors have no
+ * topology to route over; callers fall back to straight-line distances.
+ */
+export function routeDiagramFlows(diagram: Diagram): DiagramFlowRouting {
+  const rooms: RouteRoom[] = diagram.nodes
+    .filter(node => node.x !== undefined && node.y !== undefined)
+    .map(node => ({
+      id: node.id,
+      x: node.x! + (node.width || 0) / 2,
+      y: node.y! + (node.height || 0) / 2
+    }));
+
+  const doors: RouteDoor[] = diagram.relationships
+    .filter(rel => rel.type === 'ADJACENT_TO')
+    .map(rel => ({
+      id: rel.id,
+      fromId: rel.fromId,
+      toId: rel.toId,
+      flowTypes: toRouteFlowType(rel.flowType),
+      oneWay: rel.flowDirection === 'unidirectional'
+    }));
+
+  const unroutableFlows: SpatialRelationship[] = [];
+  const averageRouteDistance = (flows: SpatialRelationship[], flowType: RouteFlowType): number => {
+    const distances: number[] = [];
+    for (const flow of flows) {
+      const route = findDoorRoute(rooms, doors, flowType, flow.fromId, flow.toId);
+      if (route) {
+        distances.push(route.distance);
+      } else {
+        unroutableFlows.push(flow);
+      }
+    }
+    return distances.length > 0 ? distances.reduce((sum, d) => sum + d, 0) / distances.length : 0;
+  };
+
+  return {
+    hasDoorTopology: doors.length > 0,
+    averageMaterialDistance: averageRouteDistance(diagram.relationships.filter(r => r.type === 'MATERIAL_FLOW'), 'material'),
+    averagePersonnelDistance: averageRouteDistance(diagram.relationships.filter(r => r.type === 'PERSONNEL_FLOW'), 'personnel'),
+    unroutableFlows
+  };
+}
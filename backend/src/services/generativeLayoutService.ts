@@ -13,6 +13,9 @@ import { StaticNodeTemplatesService } from './staticNodeTemplatesService';
 import SpatialReasoningService from './spatialReasoningService';
 import GMPKnowledgeService from './gmpKnowledgeService';
 import FacilityTemplatesService from './facilityTemplatesService';
+import { routeDiagramFlows } from './flowRouting';
+import { resolveSeed } from '../utils/seededRandom';
+import { describePackingIssues, packFloorPlan, PackingLink } from './floorPlanPacking';
 
 /**
  * Generative Layout Service
@@ -27,6 +30,12 @@ export class GenerativeLayoutService {
   private gmpService: GMPKnowledgeService;
   private templatesService: FacilityTemplatesService;
 
+  // Diagram units: 100 px = 1 m
+  private readonly PIXELS_PER_METER = 100;
+  private readonly PACKING_GRID = 50; // 0.5 m
+  private readonly MIN_SHARED_WALL = 120; // 1.2 m, wide enough for a door
+  private readonly CANVAS_PADDING = 100;
+
   private constructor() {
     const apiKey = process.env.OPENAI_API_KEY;
     if (!apiKey) {
@@ -55,6 +64,8 @@ export class GenerativeLayoutService {
     console.log(`   Description: ${request.description}`);
     console.log(`   Mode: ${request.mode || 'detailed'}`);
     console.log(`   Constraints:`, request.constraints);
+    const seed = resolveSeed(request.seed);
+    console.log(`   Seed: ${seed}`);
 
     try {
       // Step 1: Use AI to extract structured requirements from natural language
@@ -62,31 +73,35 @@ export class GenerativeLayoutService {
       console.log(`✅ Extracted requirements:`, requirements);
 
       // Step 2: Select appropriate facility template or build from scratch
-      const baseLayout = await this.selectOrBuildBaseLayout(requirements);
+      const baseLayout = await this.selectOrBuildBaseLayout(requirements, seed);
       console.log(`✅ Created base layout with ${baseLayout.nodes.length} rooms`);
 
       // Step 3: Refine and optimize positions
-      const optimizedLayout = await this.optimizeLayout(baseLayout, request.preferences);
+      const optimizedLayout = await this.optimizeLayout(baseLayout, seed, request.preferences);
       console.log(`✅ Optimized layout positions`);
 
-      // Step 4: Create zones/clusters
+      // Step 4: Pack rooms onto a grid without overlaps, inside the building footprint
+      const packingWarnings = this.packLayout(optimizedLayout, request.constraints.buildingFootprint);
+      console.log(`✅ Packed rooms into a rectilinear plan`);
+
+      // Step 5: Create zones/clusters
       const zones = this.createZones(optimizedLayout.nodes);
       console.log(`✅ Created ${zones.length} functional zones`);
 
-      // Step 5: Validate against GMP rules
+      // Step 6: Validate against GMP rules
       const complianceReport = await this.gmpService.checkCompliance(
         optimizedLayout,
         request.constraints.regulatoryZone || 'FDA'
       );
       console.log(`✅ Compliance check: ${complianceReport.overallScore}/100`);
 
-      // Step 6: Calculate metrics
+      // Step 7: Calculate metrics
       const metrics = this.calculateMetrics(optimizedLayout);
       console.log(`✅ Calculated optimization metrics`);
 
-      // Step 7: Generate rationale and recommendations
+      // Step 8: Generate rationale and recommendations
       const rationale = await this.generateRationale(request, optimizedLayout, complianceReport);
-      const warnings = this.generateWarnings(complianceReport);
+      const warnings = [...packingWarnings, ...this.generateWarnings(complianceReport)];
       const suggestions = this.generateSuggestions(optimizedLayout, complianceReport);
 
       return {
@@ -97,7 +112,8 @@ export class GenerativeLayoutService {
         complianceScore: complianceReport.overallScore,
         optimizationMetrics: metrics,
         warnings,
-        suggestions
+        suggestions,
+        metadata: { seed }
       };
     } catch (error: any) {
       console.error('❌ Error generating layout:', error);
@@ -165,7 +181,7 @@ Analyze this and extract requirements.`;
   /**
    * Select appropriate template or build custom layout
    */
-  private async selectOrBuildBaseLayout(requirements: any): Promise<Diagram> {
+  private async selectOrBuildBaseLayout(requirements: any, seed: number): Promise<Diagram> {
     // If there's a matched template, use it
     if (requirements.matchedTemplate) {
       const template = this.templatesService.getTemplateById(requirements.matchedTemplate);
@@ -180,20 +196,21 @@ Analyze this and extract requirements.`;
 
         return await this.templatesService.instantiateTemplate({
           templateId: template.id,
-          parameters: defaultParams
+          parameters: defaultParams,
+          seed
         });
       }
     }
 
     // Build custom layout from required rooms
     console.log(`🏗️  Building custom layout with ${requirements.requiredRooms.length} rooms`);
-    return await this.buildCustomLayout(requirements.requiredRooms);
+    return await this.buildCustomLayout(requirements.requiredRooms, seed);
   }
 
   /**
    * Build custom layout from list of required rooms
    */
-  private async buildCustomLayout(roomTemplateIds: string[]): Promise<Diagram> {
+  private async buildCustomLayout(roomTemplateIds: string[], seed: number): Promise<Diagram> {
     const nodes: FunctionalArea[] = [];
     const relationships: SpatialRelationship[] = [];
 
@@ -218,7 +235,8 @@ Analyze this and extract requirements.`;
 
     // Calculate initial positions
     const positions = await this.spatialService.calculateLayoutPositions(nodes, relationships, {
-      layoutStyle: 'clustered'
+      layoutStyle: 'clustered',
+      seed
     });
 
     positions.forEach((pos, nodeId) => {
@@ -343,14 +361,14 @@ Analyze this and extract requirements.`;
   /**
    * Optimize layout positions and relationships
    */
-  private async optimizeLayout(diagram: Diagram, preferences?: any): Promise<Diagram> {
+  private async optimizeLayout(diagram: Diagram, seed: number, preferences?: any): Promise<Diagram> {
     // Re-calculate positions with preferences
     const layoutStyle = preferences?.layoutStyle || 'clustered';
 
     const positions = await this.spatialService.calculateLayoutPositions(
       diagram.nodes,
       diagram.relationships,
-      { layoutStyle }
+      { layoutStyle, seed }
     );
 
     // Update node positions
@@ -365,6 +383,62 @@ Analyze this and extract requirements.`;
     return diagram;
   }
 
+  /**
+   * Pack the force-directed positions into an overlap-free rectilinear plan. Rooms with material
+   * flow or adjacency relationships share walls; prohibited pairs do not touch. Returns warnings
+   * for anything the packing could not satisfy.
+   */
+  private packLayout(diagram: Diagram, footprint?: { width: number; depth: number }): string[] {
+    const links: PackingLink[] = diagram.relationships
+      .filter(rel => rel.type === 'MATERIAL_FLOW' || rel.type === 'ADJACENT_TO' || rel.type === 'PROHIBITED_NEAR')
+      .map(rel => ({
+        fromId: rel.fromId,
+        toId: rel.toId,
+        kind: rel.type === 'PROHIBITED_NEAR' ? 'separate' as const : 'share-wall' as const,
+        weight: rel.priority
+      }));
+
+    const result = packFloorPlan(
+      diagram.nodes.map(node => ({
+        id: node.id,
+        x: node.x || 0,
+        y: node.y || 0,
+        width: node.width || 150,
+        height: node.height || 100
+      })),
+      links,
+      {
+        gridSize: this.PACKING_GRID,
+        minSharedWall: this.MIN_SHARED_WALL,
+        footprint: footprint && {
+          width: footprint.width * this.PIXELS_PER_METER,
+          depth: footprint.depth * this.PIXELS_PER_METER
+        }
+      }
+    );
+
+    const rects = new Map(result.rects.map(rect => [rect.id, rect]));
+    for (const node of diagram.nodes) {
+      const rect = rects.get(node.id);
+      if (!rect) continue;
+      node.x = rect.x + this.CANVAS_PADDING;
+      node.y = rect.y + this.CANVAS_PADDING;
+      node.width = rect.width;
+      node.height = rect.height;
+    }
+
+    const warnings: string[] = [];
+    if (footprint) {
+      const roomArea = diagram.nodes.reduce((sum, node) => sum + (node.width! * node.height!), 0) / (this.PIXELS_PER_METER ** 2);
+      if (roomArea > footprint.width * footprint.depth) {
+        warnings.push(`Rooms need ${Math.round(roomArea)} m² but the building footprint is only ${Math.round(footprint.width * footprint.depth)} m²`);
+      }
+    }
+    const names = new Map(diagram.nodes.map(node => [node.id, node.name]));
+    warnings.push(...describePackingIssues(result, id => names.get(id) || id));
+    return warnings;
+  }
+
   /**
    * Create functional zones from nodes
    */
@@ -420,8 +494,15 @@ Analyze this and extract requirements.`;
     const materialFlows = diagram.relationships.filter(r => r.type === 'MATERIAL_FLOW');
     const personnelFlows = diagram.relationships.filter(r => r.type === 'PERSONNEL_FLOW');
 
-    const avgMaterialDistance = this.calculateAverageFlowDistance(materialFlows, diagram.nodes);
-    const avgPersonnelDistance = this.calculateAverageFlowDistance(personnelFlows, diagram.nodes);
+    // Walk declared flows through the doors; straight lines only when the diagram has no doors yet
+    const routing = routeDiagramFlows(diagram);
+    const avgMaterialDistance = routing.hasDoorTopology
+      ? routing.averageMaterialDistance
+      : this.calculateAverageFlowDistance(materialFlows, diagram.nodes);
+    const avgPersonnelDistance = routing.hasDoorTopology
+      ? routing.averagePersonnelDistance
+      : this.calculateAverageFlowDistance(personnelFlows, diagram.nodes);
+    const unroutableFlows = routing.hasDoorTopology ? routing.unroutableFlows.length : 0;
 
     const cleanroomArea = diagram.nodes
       .filter(n => n.cleanroomClass && n.cleanroomClass !== 'CNC')
@@ -429,9 +510,11 @@ Analyze this and extract requirements.`;
 
     const cleanroomUtilization = totalArea > 0 ? (cleanroomArea / totalArea) * 100 : 0;
 
-    // Flow efficiency: lower distance = higher efficiency
+    // Flow efficiency: lower distance = higher efficiency, scaled by the share of flows that can be walked at all
     const maxDistance = 5000; // Assume max distance
-    const flowEfficiency = Math.max(0, 1 - avgMaterialDistance / maxDistance);
+    const declaredFlows = materialFlows.length + personnelFlows.length;
+    const routableShare = declaredFlows > 0 ? (declaredFlows - unroutableFlows) / declaredFlows : 1;
+    const flowEfficiency = Math.max(0, 1 - avgMaterialDistance / maxDistance) * routableShare;
 
     // Cross-contamination risk (simplified)
     const prohibitedConnections = diagram.relationships.filter(r => r.type === 'PROHIBITED_NEAR').length;
@@ -443,12 +526,13 @@ Analyze this and extract requirements.`;
       crossContaminationRisk,
       averageMaterialDistance: Math.round(avgMaterialDistance),
       averagePersonnelDistance: Math.round(avgPersonnelDistance),
+      unroutableFlows,
       cleanroomUtilization: Math.round(cleanroomUtilization)
     };
   }
 
   /**
-   * Calculate average flow distance
+   * Calculate average straight-line flow distance (diagrams without door topology)
    */
   private calculateAverageFlowDistance(flows: SpatialRelationship[], nodes: FunctionalArea[]): number {
     if (flows.length === 0) return 0;
@@ -1,4 +1,50 @@
-import { RegulatoryRule, ComplianceCheckResult, ComplianceReport, FunctionalArea, SpatialRelationship, Diagram } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  RegulatoryRule,
+  ComplianceCheckResult,
+  ComplianceReport,
+  NotEvaluatedRule,
+  LayoutModification,
+  ApplyFixesResult,
+  FunctionalArea,
+  SpatialRelationship,
+  Diagram
+} from '../types';
+import { findRoomSize } from '../config/roomSizeDatabase';
+
+// Canvas scale used by the layout generator (40 pixels = 1 meter)
+const PIXELS_PER_METER = 40;
+
+// Best practice: 1 meter clearance around equipment for cleaning and maintenance
+const EQUIPMENT_CLEARANCE_M = 1;
+
+// Equipment share of room area assumed when the room type is not in the size database
+const DEFAULT_EQUIPMENT_FOOTPRINT = 0.3;
+
+// Longest acceptable distance between a QC lab and the production area it serves
+const QC_MAX_DISTANCE_M = 60;
+
+const BETA_LACTAM_KEYWORDS = ['penicillin', 'beta-lactam', 'β-lactam', 'cephalosporin', 'carbapenem'];
+const SENSITIZING_KEYWORDS = [...BETA_LACTAM_KEYWORDS, 'steroid', 'hormone', 'cytotoxic', 'oncology', 'high potency', 'hpapi'];
+const TRANSITION_KEYWORDS = ['airlock', 'pass-through', 'pass through', 'hatch', 'gowning', 'changing', 'change room'];
+const CHANGING_ROOM_KEYWORDS = ['gowning', 'changing', 'change room', 'locker'];
+const MATERIAL_TRANSFER_KEYWORDS = ['airlock', 'pass-through', 'pass through', 'hatch', 'sterilizer', 'autoclave', 'depyrogenation', 'tunnel'];
+const STAGING_KEYWORDS = ['staging', 'marshalling', 'material hold', 'pre-weigh'];
+const HVAC_PATTERN = /hvac|ahu|air handling|air-handling/i;
+
+// Cleanliness rank per grade (higher = cleaner); unclassified rooms rank as CNC
+const GRADE_RANK: Record<string, number> = { A: 4, B: 3, C: 2, D: 1, CNC: 0 };
+
+type RegulatoryZone = 'FDA' | 'EMA' | 'ICH' | 'WHO' | 'PIC/S';
+
+/**
+ * Returned by an evaluator when the layout lacks the data needed to judge a rule
+ */
+interface NotEvaluated {
+  reason: string;
+}
+
+type RuleEvaluation = ComplianceCheckResult | NotEvaluated;
 
 /**
  * GMP Knowledge Service
@@ -261,7 +307,7 @@ export class GMPKnowledgeService {
   /**
    * Get rules for specific regulatory zone
    */
-  public getRulesByZone(zone: 'FDA' | 'EMA' | 'ICH' | 'WHO' | 'PIC/S'): RegulatoryRule[] {
+  public getRulesByZone(zone: 'FDA' | 'EMA' | 'ICH' | 'WHO' | 'PIC/S', rules: RegulatoryRule[] = this.rules): RegulatoryRule[] {
     const sourceMapping: Record<string, string[]> = {
       'FDA': ['FDA 21 CFR 211', 'FDA 21 CFR 210'],
       'EMA': ['EMA Annex 1'],
@@ -271,7 +317,7 @@ export class GMPKnowledgeService {
     };
 
     const sources = sourceMapping[zone] || [];
-    return this.rules.filter(rule => sources.includes(rule.source));
+    return rules.filter(rule => sources.includes(rule.source));
   }
 
   /**
@@ -284,23 +330,48 @@ export class GMPKnowledgeService {
   }
 
   /**
-   * Check layout compliance against all applicable rules
+   * Evaluate each rule; anything that cannot be judged is reported instead of dropped
    */
-  public async checkCompliance(
+  public async evaluateRules(
     layout: Diagram,
-    regulatoryZone: 'FDA' | 'EMA' | 'ICH' | 'WHO' | 'PIC/S' = 'FDA'
-  ): Promise<ComplianceReport> {
-    const applicableRules = this.getRulesByZone(regulatoryZone).filter(r => r.checkable);
+    rules: RegulatoryRule[]
+  ): Promise<{ results: ComplianceCheckResult[]; notEvaluated: NotEvaluatedRule[] }> {
     const results: ComplianceCheckResult[] = [];
-
-    // Check each rule
-    for (const rule of applicableRules) {
-      const checkResult = await this.checkRule(rule, layout);
-      if (checkResult) {
-        results.push(checkResult);
+    const notEvaluated: NotEvaluatedRule[] = [];
+
+    for (const rule of rules) {
+      const evaluation: RuleEvaluation = rule.checkable
+        ? await this.checkRule(rule, layout)
+        : { reason: 'Requires manual review - cannot be verified from the layout' };
+
+      if ('reason' in evaluation) {
+        notEvaluated.push({
+          ruleId: rule.id,
+          source: rule.source,
+          section: rule.section,
+          requirement: rule.requirement,
+          severity: rule.severity,
+          reason: evaluation.reason
+        });
+      } else {
+        results.push(evaluation);
       }
     }
 
+    return { results, notEvaluated };
+  }
+
+  /**
+   * Check layout compliance against all applicable rules; `rules` replaces the built-in
+   * rules with those of a pinned rule set
+   */
+  public async checkCompliance(
+    layout: Diagram,
+    regulatoryZone: RegulatoryZone = 'FDA',
+    rules: RegulatoryRule[] = this.rules
+  ): Promise<ComplianceReport> {
+    const { results, notEvaluated } = await this.evaluateRules(layout, this.getRulesByZone(regulatoryZone, rules));
+
     // Calculate scores
     const totalChecks = results.length;
     const passed = results.filter(r => r.passed).length;
@@ -315,16 +386,159 @@ export class GMPKnowledgeService {
       failed,
       warnings,
       results,
-      summary: this.generateComplianceSummary(results, overallScore),
+      notEvaluated,
+      summary: this.generateComplianceSummary(results, overallScore, notEvaluated),
       regulatoryZone,
       generatedAt: new Date()
     };
   }
 
+  /**
+   * Apply selected layout modifications to a diagram and re-run compliance on the result
+   */
+  public async applyFixes(
+    layout: Diagram,
+    modifications: LayoutModification[],
+    regulatoryZone: RegulatoryZone = 'FDA'
+  ): Promise<ApplyFixesResult> {
+    const previousReport = await this.checkCompliance(layout, regulatoryZone);
+    const { diagram, applied, skipped } = this.applyModifications(layout, modifications);
+    const complianceReport = await this.checkCompliance(diagram, regulatoryZone);
+
+    const targetedRuleIds = [...new Set(applied.map(m => m.ruleId).filter((id): id is string => !!id))];
+    const stillFailing = new Set(complianceReport.results.filter(r => !r.passed).map(r => r.ruleId));
+
+    return {
+      diagram,
+      applied,
+      skipped,
+      previousScore: previousReport.overallScore,
+      complianceReport,
+      resolvedRuleIds: targetedRuleIds.filter(id => !stillFailing.has(id)),
+      unresolvedRuleIds: targetedRuleIds.filter(id => stillFailing.has(id))
+    };
+  }
+
+  /**
+   * Apply modifications to a copy of the diagram; modifications that cannot be applied are skipped
+   */
+  private applyModifications(
+    layout: Diagram,
+    modifications: LayoutModification[]
+  ): Pick<ApplyFixesResult, 'applied' | 'skipped'> & { diagram: Diagram } {
+    const nodes = layout.nodes.map(n => ({ ...n }));
+    let relationships = [...layout.relationships];
+    const applied: LayoutModification[] = [];
+    const skipped: ApplyFixesResult['skipped'] = [];
+
+    const hasNode = (id?: string) => !!id && nodes.some(n => n.id === id);
+    const addRelationships = (rels: SpatialRelationship[]) => {
+      for (const rel of rels) {
+        if (hasNode(rel.fromId) && hasNode(rel.toId) && !relationships.some(r => r.id === rel.id)) {
+          relationships.push(rel);
+        }
+      }
+    };
+    const relationshipsOf = (mod: LayoutModification) =>
+      [...(mod.relationship ? [mod.relationship] : []), ...(mod.relationships || [])];
+
+    for (const mod of modifications) {
+      const targetId = mod.nodeId || mod.node?.id;
+
+      switch (mod.type) {
+        case 'add_node':
+          if (!mod.node) {
+            skipped.push({ modification: mod, reason: 'No node provided' });
+            continue;
+          }
+          if (hasNode(mod.node.id)) {
+            skipped.push({ modification: mod, reason: `Node ${mod.node.id} already exists` });
+            continue;
+          }
+          nodes.push({ ...mod.node, ...(mod.newPosition || {}) });
+          for (const resized of mod.resizedNodes || []) {
+            const node = nodes.find(n => n.id === resized.id);
+            if (node) Object.assign(node, resized);
+          }
+          if (mod.replacesRelationshipIds) {
+            const replaced = new Set(mod.replacesRelationshipIds);
+            relationships = relationships.filter(r => !replaced.has(r.id));
+          }
+          addRelationships(relationshipsOf(mod));
+          break;
+
+        case 'remove_node':
+          if (!hasNode(targetId)) {
+            skipped.push({ modification: mod, reason: 'Node not found' });
+            continue;
+          }
+          nodes.splice(nodes.findIndex(n => n.id === targetId), 1);
+          relationships = relationships.filter(r => r.fromId !== targetId && r.toId !== targetId);
+          break;
+
+        case 'move_node': {
+          const node = nodes.find(n => n.id === targetId);
+          if (!node || !mod.newPosition) {
+            skipped.push({ modification: mod, reason: node ? 'No position provided' : 'Node not found' });
+            continue;
+          }
+          node.x = mod.newPosition.x;
+          node.y = mod.newPosition.y;
+          break;
+        }
+
+        case 'modify_room_size': {
+          const node = nodes.find(n => n.id === targetId);
+          if (!node || !mod.node) {
+            skipped.push({ modification: mod, reason: node ? 'No dimensions provided' : 'Node not found' });
+            continue;
+          }
+          const { width, height, minSizeSqm, maxSizeSqm } = mod.node;
+          Object.assign(node, Object.fromEntries(
+            Object.entries({ width, height, minSizeSqm, maxSizeSqm }).filter(([, value]) => value !== undefined)
+          ));
+          break;
+        }
+
+        case 'add_relationship': {
+          const rels = relationshipsOf(mod);
+          if (rels.length === 0 || rels.some(r => !hasNode(r.fromId) || !hasNode(r.toId))) {
+            skipped.push({ modification: mod, reason: 'Relationship is missing or references unknown nodes' });
+            continue;
+          }
+          addRelationships(rels);
+          break;
+        }
+
+        case 'remove_relationship': {
+          const ids = new Set(relationshipsOf(mod).map(r => r.id));
+          if (!relationships.some(r => ids.has(r.id))) {
+            skipped.push({ modification: mod, reason: 'Relationship not found' });
+            continue;
+          }
+          relationships = relationships.filter(r => !ids.has(r.id));
+          break;
+        }
+
+        default:
+          skipped.push({ modification: mod, reason: `Modification type '${mod.type}' cannot be applied automatically` });
+          continue;
+      }
+
+      applied.push(mod);
+    }
+
+    return {
+      diagram: { ...layout, nodes, relationships, updatedAt: new Date().toISOString() },
+      applied,
+      skipped
+    };
+  }
+
   /**
    * Check a single regulatory rule against the layout
    */
-  private async checkRule(rule: RegulatoryRule, layout: Diagram): Promise<ComplianceCheckResult | null> {
+  private async checkRule(rule: RegulatoryRule, layout: Diagram): Promise<RuleEvaluation> {
     switch (rule.id) {
       case 'ema-annex1-4.14':
         return this.checkAirlockRequirements(layout, rule);
@@ -347,9 +561,47 @@ export class GMPKnowledgeService {
       case 'bp-sterile-gowning':
         return this.checkGowningSequence(layout, rule);
 
+      case 'ema-annex1-4.21':
+        return this.checkMaterialTransfer(layout, rule);
+
+      case 'ema-annex1-4.28':
+        return this.checkAirHandlingSeparation(layout, rule);
+
+      case 'fda-211.42':
+        return this.checkAdequateSpace(layout, rule);
+
+      case 'fda-211.176':
+        return this.checkBetaLactamDedication(layout, rule);
+
+      case 'ich-q7-3.12':
+        return this.checkProhibitedAdjacencies(layout, rule);
+
+      case 'ich-q7-3.14':
+        return this.checkSensitizingSeparation(layout, rule);
+
+      case 'who-gmp-material-flow':
+        return this.checkMaterialFlowMixUp(layout, rule);
+
+      case 'pics-pe009-airlocks':
+        return this.checkGradeTransitions(layout, rule);
+
+      case 'pics-pe009-changing-rooms':
+        return this.checkChangingRooms(layout, rule);
+
+      case 'bp-material-staging':
+        return this.checkMaterialStaging(layout, rule);
+
+      case 'bp-qc-proximity':
+        return this.checkQCProximity(layout, rule);
+
+      case 'bp-utility-access':
+        return this.checkUtilityAccess(layout, rule);
+
+      case 'bp-equipment-sizing':
+        return this.checkEquipmentClearance(layout, rule);
+
       default:
-        // For non-implemented checks, return null
-        return null;
+        return { reason: 'No automated evaluator is implemented for this rule' };
     }
   }
 
@@ -357,8 +609,9 @@ export class GMPKnowledgeService {
    * Check airlock requirements (EMA Annex 1, 4.14)
    */
   private checkAirlockRequirements(layout: Diagram, rule: RegulatoryRule): ComplianceCheckResult {
+    // Airlocks and gowning rooms are themselves the protection, not rooms needing it
     const gradeABRooms = layout.nodes.filter(n =>
-      n.cleanroomClass === 'A' || n.cleanroomClass === 'B'
+      (n.cleanroomClass === 'A' || n.cleanroomClass === 'B') && !this.nameIncludes(n, TRANSITION_KEYWORDS)
     );
 
     const airlocks = layout.nodes.filter(n =>
@@ -389,6 +642,27 @@ export class GMPKnowledgeService {
       message = `All Grade A/B areas are properly protected with airlocks (${gradeABRooms.length} checked).`;
     }
 
+    // One airlock per unprotected room, on the boundary with its least clean neighbour
+    const autoFixes = affectedNodeIds
+      .map(id => {
+        const room = this.findNode(layout, id) as FunctionalArea;
+        const neighbor = this.findLeastCleanNeighbor(layout, room);
+        const carriesMaterial = !!neighbor && layout.relationships.some(rel =>
+          rel.type === 'MATERIAL_FLOW' &&
+          ((rel.fromId === room.id && rel.toId === neighbor.id) || (rel.fromId === neighbor.id && rel.toId === room.id))
+        );
+
+        return this.buildTransitionRoomFix(
+          layout,
+          room,
+          carriesMaterial ? 'Material Airlock' : 'Personnel Airlock',
+          room.cleanroomClass === 'A' ? 'B' : room.cleanroomClass,
+          rule,
+          `Adding airlock to protect ${room.name} per EMA Annex 1, 4.14`
+        );
+      })
+      .filter((fix): fix is LayoutModification => fix !== undefined);
+
     return {
       ruleId: rule.id,
       passed,
@@ -396,11 +670,9 @@ export class GMPKnowledgeService {
       message,
       affectedNodeIds,
       recommendation: passed ? undefined : 'Add airlocks adjacent to all Grade A and Grade B rooms.',
-      autoFixAvailable: !passed,
-      autoFix: !passed ? {
-        type: 'add_node',
-        rationale: 'Adding airlock to protect sterile area per EMA Annex 1, 4.14'
-      } : undefined
+      autoFixAvailable: autoFixes.length > 0,
+      autoFix: autoFixes[0],
+      autoFixes: autoFixes.length > 0 ? autoFixes : undefined
     };
   }
 
@@ -606,6 +878,18 @@ export class GMPKnowledgeService {
 
     const passed = hasGowning || gradeABRooms.length === 0;
 
+    // A single gowning room next to the first sterile room satisfies the check
+    const autoFix = passed
+      ? undefined
+      : this.buildTransitionRoomFix(
+        layout,
+        gradeABRooms[0],
+        'Gowning Room',
+        findRoomSize('Gowning Room')?.cleanroomClass,
+        rule,
+        `Adding gowning room before ${gradeABRooms[0].name} for sterile gowning`
+      );
+
     return {
       ruleId: rule.id,
       passed,
@@ -615,26 +899,703 @@ export class GMPKnowledgeService {
         : 'Sterile areas (Grade A/B) require dedicated gowning rooms.',
       affectedNodeIds: passed ? [] : gradeABRooms.map(r => r.id),
       recommendation: passed ? undefined : 'Add gowning room(s) before Grade A/B areas with multiple gowning stages.',
-      autoFixAvailable: !passed
+      autoFixAvailable: !!autoFix,
+      autoFix,
+      autoFixes: autoFix ? [autoFix] : undefined
+    };
+  }
+
+  /**
+   * Check material transfer between grades goes through pass-throughs or sterilizers (EMA Annex 1, 4.21)
+   */
+  private checkMaterialTransfer(layout: Diagram, rule: RegulatoryRule): ComplianceCheckResult {
+    const violations: string[] = [];
+    let transfers = 0;
+
+    for (const rel of layout.relationships.filter(r => r.type === 'MATERIAL_FLOW')) {
+      const fromNode = this.findNode(layout, rel.fromId);
+      const toNode = this.findNode(layout, rel.toId);
+      if (!fromNode || !toNode || !this.isGradeChange(fromNode, toNode)) continue;
+
+      transfers++;
+      const protectedTransfer =
+        rel.doorType === 'pass-through' ||
+        rel.doorType === 'airlock' ||
+        this.nameIncludes(fromNode, MATERIAL_TRANSFER_KEYWORDS) ||
+        this.nameIncludes(toNode, MATERIAL_TRANSFER_KEYWORDS);
+
+      if (!protectedTransfer) {
+        violations.push(fromNode.id, toNode.id);
+      }
+    }
+
+    const passed = violations.length === 0;
+
+    return {
+      ruleId: rule.id,
+      passed,
+      severity: rule.severity,
+      message: passed
+        ? `Material transfers between grades use pass-throughs or sterilizers (${transfers} checked).`
+        : `${violations.length / 2} material transfer(s) between different grades bypass pass-through hatches or sterilizers.`,
+      affectedNodeIds: [...new Set(violations)],
+      recommendation: passed ? undefined : 'Route material between grades through a pass-through hatch, material airlock or double-ended sterilizer.',
+      autoFixAvailable: false
     };
   }
 
+  /**
+   * Check sterile and non-sterile areas do not share an air handling unit (EMA Annex 1, 4.28)
+   */
+  private checkAirHandlingSeparation(layout: Diagram, rule: RegulatoryRule): ComplianceCheckResult {
+    const isSterile = (node: FunctionalArea) => node.cleanroomClass === 'A' || node.cleanroomClass === 'B';
+    const isNonSterile = (node: FunctionalArea) =>
+      !node.cleanroomClass || node.cleanroomClass === 'D' || node.cleanroomClass === 'CNC';
+
+    const violations: string[] = [];
+
+    for (const rel of layout.relationships.filter(r => r.type === 'SHARES_UTILITY' && HVAC_PATTERN.test(r.reason || ''))) {
+      const fromNode = this.findNode(layout, rel.fromId);
+      const toNode = this.findNode(layout, rel.toId);
+      if (!fromNode || !toNode) continue;
+
+      if ((isSterile(fromNode) && isNonSterile(toNode)) || (isSterile(toNode) && isNonSterile(fromNode))) {
+        violations.push(fromNode.id, toNode.id);
+      }
+    }
+
+    const passed = violations.length === 0;
+
+    return {
+      ruleId: rule.id,
+      passed,
+      severity: rule.severity,
+      message: passed
+        ? 'No air handling units are shared between sterile and non-sterile areas.'
+        : `${violations.length / 2} sterile/non-sterile room pair(s) share an air handling system.`,
+      affectedNodeIds: [...new Set(violations)],
+      recommendation: passed ? undefined : 'Serve Grade A/B areas from a dedicated AHU, separate from Grade D and unclassified areas.',
+      autoFixAvailable: false
+    };
+  }
+
+  /**
+   * Check rooms meet the minimum area for their room type (FDA 21 CFR 211.42)
+   */
+  private checkAdequateSpace(layout: Diagram, rule: RegulatoryRule): RuleEvaluation {
+    const undersized: string[] = [];
+    let measured = 0;
+
+    for (const node of layout.nodes.filter(n => rule.applicableAreas.includes(n.category))) {
+      const area = this.getAreaSqm(node);
+      const minArea = node.minSizeSqm ?? findRoomSize(node.name)?.sizeRange.minArea;
+      if (area === undefined || minArea === undefined) continue;
+
+      measured++;
+      if (area < minArea) {
+        undersized.push(node.id);
+      }
+    }
+
+    if (measured === 0) {
+      return { reason: 'No production or warehouse rooms have both dimensions and a known minimum size' };
+    }
+
+    const passed = undersized.length === 0;
+
+    return {
+      ruleId: rule.id,
+      passed,
+      severity: rule.severity,
+      message: passed
+        ? `All sized production and warehouse rooms meet their minimum area (${measured} checked).`
+        : `${undersized.length} room(s) are smaller than the minimum area for their room type.`,
+      affectedNodeIds: undersized,
+      recommendation: passed ? undefined : 'Enlarge undersized rooms to at least the minimum area for equipment, storage and operations.',
+      autoFixAvailable: false
+    };
+  }
+
+  /**
+   * Check beta-lactam operations are in a dedicated facility (FDA 21 CFR 211.176)
+   */
+  private checkBetaLactamDedication(layout: Diagram, rule: RegulatoryRule): ComplianceCheckResult {
+    const violations = this.findSegregationBreaches(
+      layout,
+      BETA_LACTAM_KEYWORDS,
+      ['SHARES_UTILITY', 'MATERIAL_FLOW', 'PERSONNEL_FLOW']
+    );
+    const passed = violations.length === 0;
+
+    return {
+      ruleId: rule.id,
+      passed,
+      severity: rule.severity,
+      message: passed
+        ? 'Beta-lactam operations (if any) share no utilities or direct flows with other production.'
+        : 'Beta-lactam areas share utilities or direct material/personnel flows with non-beta-lactam rooms.',
+      affectedNodeIds: violations,
+      recommendation: passed ? undefined : 'Give beta-lactam manufacturing its own HVAC, utilities and entry via dedicated airlocks.',
+      autoFixAvailable: false
+    };
+  }
+
+  /**
+   * Check PROHIBITED_NEAR pairs are not placed adjacent or connected by flows (ICH Q7, 3.12)
+   */
+  private checkProhibitedAdjacencies(layout: Diagram, rule: RegulatoryRule): ComplianceCheckResult {
+    const prohibited = layout.relationships.filter(r => r.type === 'PROHIBITED_NEAR');
+    const violations: string[] = [];
+
+    for (const rel of prohibited) {
+      const connected = layout.relationships.some(other =>
+        other.type !== 'PROHIBITED_NEAR' &&
+        ((other.fromId === rel.fromId && other.toId === rel.toId) ||
+          (other.fromId === rel.toId && other.toId === rel.fromId))
+      );
+
+      if (connected) {
+        violations.push(rel.fromId, rel.toId);
+      }
+    }
+
+    const passed = violations.length === 0;
+
+    return {
+      ruleId: rule.id,
+      passed,
+      severity: rule.severity,
+      message: passed
+        ? `No prohibited room pairs are adjacent or connected (${prohibited.length} checked).`
+        : `${violations.length / 2} prohibited room pair(s) are adjacent or connected, increasing cross-contamination risk.`,
+      affectedNodeIds: [...new Set(violations)],
+      recommendation: passed ? undefined : 'Separate rooms marked as prohibited-near with corridors or support areas.',
+      autoFixAvailable: false
+    };
+  }
+
+  /**
+   * Check highly sensitizing materials are processed in separate areas (ICH Q7, 3.14)
+   */
+  private checkSensitizingSeparation(layout: Diagram, rule: RegulatoryRule): ComplianceCheckResult {
+    const violations = this.findSegregationBreaches(
+      layout,
+      SENSITIZING_KEYWORDS,
+      ['ADJACENT_TO', 'SHARES_UTILITY']
+    );
+    const passed = violations.length === 0;
+
+    return {
+      ruleId: rule.id,
+      passed,
+      severity: rule.severity,
+      message: passed
+        ? 'Highly sensitizing materials (if any) are processed in separate areas.'
+        : 'Areas handling sensitizing materials adjoin or share utilities with other rooms without an airlock.',
+      affectedNodeIds: violations,
+      recommendation: passed ? undefined : 'Isolate sensitizing material processing behind airlocks with dedicated utilities.',
+      autoFixAvailable: false
+    };
+  }
+
+  /**
+   * Check different material streams do not share the same route (WHO GMP)
+   */
+  private checkMaterialFlowMixUp(layout: Diagram, rule: RegulatoryRule): RuleEvaluation {
+    const materialFlows = layout.relationships.filter(r => r.type === 'MATERIAL_FLOW');
+    if (materialFlows.length === 0) {
+      return { reason: 'The layout defines no material flows' };
+    }
+
+    // Group flow types by room pair, independent of direction
+    const streamsByPair = new Map<string, Set<string>>();
+    for (const flow of materialFlows) {
+      const key = [flow.fromId, flow.toId].sort().join('|');
+      const streams = streamsByPair.get(key) || new Set<string>();
+      streams.add(flow.flowType || 'raw_material');
+      streamsByPair.set(key, streams);
+    }
+
+    const violations: string[] = [];
+    streamsByPair.forEach((streams, key) => {
+      const mixesProductStreams = streams.has('raw_material') && streams.has('finished_product');
+      if (mixesProductStreams || (streams.has('waste') && streams.size > 1)) {
+        violations.push(...key.split('|'));
+      }
+    });
+
+    const passed = violations.length === 0;
+
+    return {
+      ruleId: rule.id,
+      passed,
+      severity: rule.severity,
+      message: passed
+        ? `Raw material, finished product and waste streams use separate routes (${streamsByPair.size} routes checked).`
+        : `${violations.length / 2} route(s) carry mixed material streams, creating mix-up risk.`,
+      affectedNodeIds: [...new Set(violations)],
+      recommendation: passed ? undefined : 'Separate raw material, finished product and waste routes, or segregate them in time with documented controls.',
+      autoFixAvailable: false
+    };
+  }
+
+  /**
+   * Check every adjacency between different grades passes through an airlock (PIC/S PE 009)
+   */
+  private checkGradeTransitions(layout: Diagram, rule: RegulatoryRule): ComplianceCheckResult {
+    const violations: string[] = [];
+    let transitions = 0;
+
+    for (const rel of layout.relationships.filter(r => r.type === 'ADJACENT_TO')) {
+      const fromNode = this.findNode(layout, rel.fromId);
+      const toNode = this.findNode(layout, rel.toId);
+      if (!fromNode?.cleanroomClass || !toNode?.cleanroomClass || !this.isGradeChange(fromNode, toNode)) continue;
+
+      transitions++;
+      const hasAirlock =
+        rel.doorType === 'airlock' ||
+        this.nameIncludes(fromNode, TRANSITION_KEYWORDS) ||
+        this.nameIncludes(toNode, TRANSITION_KEYWORDS);
+
+      if (!hasAirlock) {
+        violations.push(fromNode.id, toNode.id);
+      }
+    }
+
+    const passed = violations.length === 0;
+
+    return {
+      ruleId: rule.id,
+      passed,
+      severity: rule.severity,
+      message: passed
+        ? `All transitions between cleanliness grades use airlocks (${transitions} checked).`
+        : `${violations.length / 2} direct connection(s) between different grades lack an airlock.`,
+      affectedNodeIds: [...new Set(violations)],
+      recommendation: passed ? undefined : 'Insert an airlock (or interlocked airlock doors) between rooms of different grades.',
+      autoFixAvailable: false
+    };
+  }
+
+  /**
+   * Check changing rooms exist and act as transitions between grades (PIC/S PE 009)
+   */
+  private checkChangingRooms(layout: Diagram, rule: RegulatoryRule): ComplianceCheckResult {
+    const classifiedRooms = layout.nodes.filter(n =>
+      n.cleanroomClass && n.cleanroomClass !== 'CNC' && !this.nameIncludes(n, CHANGING_ROOM_KEYWORDS)
+    );
+    const changingRooms = layout.nodes.filter(n => this.nameIncludes(n, CHANGING_ROOM_KEYWORDS));
+
+    let passed = true;
+    let message: string;
+    let affectedNodeIds: string[] = [];
+
+    if (classifiedRooms.length === 0) {
+      message = 'No classified areas in the layout; changing rooms are not required.';
+    } else if (changingRooms.length === 0) {
+      passed = false;
+      message = `${classifiedRooms.length} classified room(s) have no changing room for personnel entry.`;
+      affectedNodeIds = classifiedRooms.map(n => n.id);
+    } else {
+      // A changing room that only connects rooms of its own grade is not acting as an airlock
+      const notTransitions = changingRooms.filter(room => {
+        const neighbors = this.getConnectedNodes(layout, room.id, ['ADJACENT_TO', 'PERSONNEL_FLOW']);
+        return neighbors.length > 0 && !neighbors.some(n => this.isGradeChange(room, n));
+      });
+
+      passed = notTransitions.length === 0;
+      affectedNodeIds = notTransitions.map(n => n.id);
+      message = passed
+        ? `Changing rooms separate areas of different grades (${changingRooms.length} checked).`
+        : `${notTransitions.length} changing room(s) do not separate areas of different grades.`;
+    }
+
+    return {
+      ruleId: rule.id,
+      passed,
+      severity: rule.severity,
+      message,
+      affectedNodeIds,
+      recommendation: passed ? undefined : 'Place changing rooms between grades so each changing stage acts as an airlock.',
+      autoFixAvailable: false
+    };
+  }
+
+  /**
+   * Check staging areas exist and sit next to production (best practice)
+   */
+  private checkMaterialStaging(layout: Diagram, rule: RegulatoryRule): ComplianceCheckResult {
+    const productionRooms = layout.nodes.filter(n => n.category === 'Production');
+    const stagingRooms = layout.nodes.filter(n => this.nameIncludes(n, STAGING_KEYWORDS));
+
+    let passed = true;
+    let message: string;
+    let affectedNodeIds: string[] = [];
+
+    if (productionRooms.length === 0) {
+      message = 'No production areas in the layout; material staging is not required.';
+    } else if (stagingRooms.length === 0) {
+      passed = false;
+      message = 'Production areas have no dedicated material staging area.';
+      affectedNodeIds = productionRooms.map(n => n.id);
+    } else {
+      const disconnected = stagingRooms.filter(room =>
+        !this.getConnectedNodes(layout, room.id, ['ADJACENT_TO', 'MATERIAL_FLOW'])
+          .some(n => n.category === 'Production')
+      );
+
+      passed = disconnected.length === 0;
+      affectedNodeIds = disconnected.map(n => n.id);
+      message = passed
+        ? `Material staging areas adjoin production (${stagingRooms.length} checked).`
+        : `${disconnected.length} staging area(s) are not adjacent to any production room.`;
+    }
+
+    return {
+      ruleId: rule.id,
+      passed,
+      severity: rule.severity,
+      message,
+      affectedNodeIds,
+      recommendation: passed ? undefined : 'Provide a segregated staging area directly adjacent to the production rooms it serves.',
+      autoFixAvailable: false
+    };
+  }
+
+  /**
+   * Check QC labs are outside the aseptic core but close to production (best practice)
+   */
+  private checkQCProximity(layout: Diagram, rule: RegulatoryRule): ComplianceCheckResult {
+    const qcRooms = layout.nodes.filter(n => n.category === 'Quality Control');
+    const productionRooms = layout.nodes.filter(n => n.category === 'Production');
+
+    const tooClose = qcRooms.filter(qc =>
+      this.getConnectedNodes(layout, qc.id, ['ADJACENT_TO'])
+        .some(n => n.category === 'Production' && (n.cleanroomClass === 'A' || n.cleanroomClass === 'B'))
+    );
+
+    // Proximity can only be judged for rooms that have been placed
+    const tooFar = qcRooms.filter(qc => {
+      const distances = productionRooms
+        .map(p => this.getDistanceM(qc, p))
+        .filter((d): d is number => d !== undefined);
+      return distances.length > 0 && Math.min(...distances) > QC_MAX_DISTANCE_M;
+    });
+
+    const passed = tooClose.length === 0 && tooFar.length === 0;
+    const issues: string[] = [];
+    if (tooClose.length > 0) issues.push(`${tooClose.length} QC lab(s) open directly onto Grade A/B production`);
+    if (tooFar.length > 0) issues.push(`${tooFar.length} QC lab(s) are more than ${QC_MAX_DISTANCE_M} m from production`);
+
+    return {
+      ruleId: rule.id,
+      passed,
+      severity: rule.severity,
+      message: passed
+        ? `QC laboratories are separate from but near production (${qcRooms.length} checked).`
+        : `${issues.join('; ')}.`,
+      affectedNodeIds: [...new Set([...tooClose, ...tooFar].map(n => n.id))],
+      recommendation: passed ? undefined : 'Locate QC labs outside the aseptic core, within a short sample transfer route of production.',
+      autoFixAvailable: false
+    };
+  }
+
+  /**
+   * Check utility rooms can be reached without crossing production (best practice)
+   */
+  private checkUtilityAccess(layout: Diagram, rule: RegulatoryRule): ComplianceCheckResult {
+    const utilityRooms = layout.nodes.filter(n => n.category === 'Utilities');
+
+    const productionOnly = utilityRooms.filter(room => {
+      const neighbors = this.getConnectedNodes(layout, room.id, ['ADJACENT_TO', 'PERSONNEL_FLOW']);
+      return neighbors.length > 0 && neighbors.every(n => n.category === 'Production');
+    });
+
+    const passed = productionOnly.length === 0;
+
+    return {
+      ruleId: rule.id,
+      passed,
+      severity: rule.severity,
+      message: passed
+        ? `Utility rooms have access that avoids production areas (${utilityRooms.length} checked).`
+        : `${productionOnly.length} utility room(s) can only be reached through production areas.`,
+      affectedNodeIds: productionOnly.map(n => n.id),
+      recommendation: passed ? undefined : 'Give utility rooms access from a technical corridor or support area.',
+      autoFixAvailable: false
+    };
+  }
+
+  /**
+   * Check equipment rooms leave the minimum clearance around equipment (best practice)
+   */
+  private checkEquipmentClearance(layout: Diagram, rule: RegulatoryRule): RuleEvaluation {
+    const cramped: string[] = [];
+    let measured = 0;
+
+    for (const node of layout.nodes.filter(n => rule.applicableAreas.includes(n.category))) {
+      const area = this.getAreaSqm(node);
+      const footprint = findRoomSize(node.name)?.equipmentFootprint
+        ?? (node.equipment?.length ? DEFAULT_EQUIPMENT_FOOTPRINT : undefined);
+      if (area === undefined || !footprint) continue;
+
+      // Treat the equipment as a square block and require clearance on every side
+      measured++;
+      const equipmentSide = Math.sqrt(area * footprint);
+      const shortestSide = Math.min(node.width!, node.height!) / PIXELS_PER_METER;
+      if (shortestSide < equipmentSide + 2 * EQUIPMENT_CLEARANCE_M) {
+        cramped.push(node.id);
+      }
+    }
+
+    if (measured === 0) {
+      return { reason: 'No equipment rooms have dimensions to check clearances against' };
+    }
+
+    const passed = cramped.length === 0;
+
+    return {
+      ruleId: rule.id,
+      passed,
+      severity: rule.severity,
+      message: passed
+        ? `Equipment rooms allow ${EQUIPMENT_CLEARANCE_M} m clearance around equipment (${measured} checked).`
+        : `${cramped.length} equipment room(s) are too narrow for ${EQUIPMENT_CLEARANCE_M} m clearance on all sides.`,
+      affectedNodeIds: cramped,
+      recommendation: passed ? undefined : 'Widen cramped equipment rooms to allow 360-degree access for cleaning and maintenance.',
+      autoFixAvailable: false
+    };
+  }
+
+  /**
+   * Build an add_node modification for a transition room (airlock or gowning room)
+   * sized from the room size database and placed on the boundary between the room
+   * and its least clean neighbour. The transition room replaces their direct adjacency,
+   * and a flush neighbour is trimmed to make space for it.
+   */
+  private buildTransitionRoomFix(
+    layout: Diagram,
+    room: FunctionalArea,
+    roomType: 'Material Airlock' | 'Personnel Airlock' | 'Gowning Room',
+    cleanroomClass: string | undefined,
+    rule: RegulatoryRule,
+    rationale: string
+  ): LayoutModification | undefined {
+    const sizeData = findRoomSize(roomType);
+    if (!sizeData) return undefined;
+
+    const neighbor = this.findLeastCleanNeighbor(layout, room);
+    const width = sizeData.typicalDimensions.width * PIXELS_PER_METER;
+    const height = sizeData.typicalDimensions.height * PIXELS_PER_METER;
+    const { position, resizedNeighbor } = this.getBoundaryPosition(room, neighbor, width, height);
+
+    const node: FunctionalArea = {
+      id: uuidv4(),
+      name: `${roomType} - ${room.name}`,
+      category: sizeData.category,
+      cleanroomClass,
+      minSizeSqm: sizeData.sizeRange.minArea,
+      maxSizeSqm: sizeData.sizeRange.maxArea,
+      description: rationale,
+      ...(position ? { ...position, width, height } : {})
+    };
+
+    const connect = (otherId: string): SpatialRelationship => ({
+      id: uuidv4(),
+      type: 'ADJACENT_TO',
+      fromId: node.id,
+      toId: otherId,
+      priority: 10,
+      reason: rationale,
+      doorType: 'airlock'
+    });
+
+    // Room and neighbour now meet through the transition room only
+    const replacesRelationshipIds = neighbor
+      ? layout.relationships
+        .filter(rel =>
+          rel.type === 'ADJACENT_TO' &&
+          ((rel.fromId === room.id && rel.toId === neighbor.id) || (rel.fromId === neighbor.id && rel.toId === room.id))
+        )
+        .map(rel => rel.id)
+      : [];
+
+    return {
+      type: 'add_node',
+      ruleId: rule.id,
+      node,
+      newPosition: position,
+      relationships: neighbor ? [connect(room.id), connect(neighbor.id)] : [connect(room.id)],
+      replacesRelationshipIds: replacesRelationshipIds.length > 0 ? replacesRelationshipIds : undefined,
+      resizedNodes: resizedNeighbor ? [resizedNeighbor] : undefined,
+      rationale
+    };
+  }
+
+  /**
+   * Adjacent room with the lowest grade, ignoring existing transition rooms
+   */
+  private findLeastCleanNeighbor(layout: Diagram, room: FunctionalArea): FunctionalArea | undefined {
+    return this.getConnectedNodes(layout, room.id, ['ADJACENT_TO'])
+      .filter(n => !this.nameIncludes(n, TRANSITION_KEYWORDS))
+      .sort((a, b) => (GRADE_RANK[a.cleanroomClass || 'CNC'] ?? 0) - (GRADE_RANK[b.cleanroomClass || 'CNC'] ?? 0))[0];
+  }
+
+  /**
+   * Top-left position of a width x height room against the wall `room` shares with its less clean
+   * neighbour, entirely on the neighbour's side so it does not cut into `room`. Where it would
+   * overlap the neighbour, the neighbour is trimmed back from that wall (`resizedNeighbor`); when
+   * less than a metre of the neighbour would remain, the room is left unplaced.
+   * Without a positioned neighbour the room goes outside the right-hand wall of `room`.
+   */
+  private getBoundaryPosition(
+    room: FunctionalArea,
+    neighbor: FunctionalArea | undefined,
+    width: number,
+    height: number
+  ): {
+    position?: { x: number; y: number };
+    resizedNeighbor?: Required<Pick<FunctionalArea, 'id' | 'x' | 'y' | 'width' | 'height'>>;
+  } {
+    const isPlaced = (n?: FunctionalArea): n is FunctionalArea & { x: number; y: number; width: number; height: number } =>
+      !!n && n.x !== undefined && n.y !== undefined && !!n.width && !!n.height;
+
+    if (!isPlaced(room)) return {};
+
+    if (!isPlaced(neighbor)) {
+      return { position: { x: room.x + room.width, y: room.y + room.height / 2 - height / 2 } };
+    }
+
+    const dx = (neighbor.x + neighbor.width / 2) - (room.x + room.width / 2);
+    const dy = (neighbor.y + neighbor.height / 2) - (room.y + room.height / 2);
+
+    // Midpoint of the overlapping span, falling back to the midpoint between centres
+    const spanMid = (startA: number, endA: number, startB: number, endB: number) => {
+      const start = Math.max(startA, startB);
+      const end = Math.min(endA, endB);
+      return end > start ? (start + end) / 2 : (startA + endA + startB + endB) / 4;
+    };
+
+    const sideBySide = Math.abs(dx) / (room.width + neighbor.width) >= Math.abs(dy) / (room.height + neighbor.height);
+    // Side by side the shared wall is vertical, stacked it is horizontal
+    const position = sideBySide
+      ? {
+        x: dx > 0 ? room.x + room.width : room.x - width,
+        y: spanMid(room.y, room.y + room.height, neighbor.y, neighbor.y + neighbor.height) - height / 2
+      }
+      : {
+        x: spanMid(room.x, room.x + room.width, neighbor.x, neighbor.x + neighbor.width) - width / 2,
+        y: dy > 0 ? room.y + room.height : room.y - height
+      };
+
+    const overlaps =
+      position.x < neighbor.x + neighbor.width && neighbor.x < position.x + width &&
+      position.y < neighbor.y + neighbor.height && neighbor.y < position.y + height;
+    if (!overlaps) return { position };
+
+    // Move the neighbour's wall facing `room` back by the depth of the overlap
+    const resized = { id: neighbor.id, x: neighbor.x, y: neighbor.y, width: neighbor.width, height: neighbor.height };
+    if (sideBySide) {
+      const depth = dx > 0 ? position.x + width - neighbor.x : neighbor.x + neighbor.width - position.x;
+      resized.width -= depth;
+      if (dx > 0) resized.x += depth;
+    } else {
+      const depth = dy > 0 ? position.y + height - neighbor.y : neighbor.y + neighbor.height - position.y;
+      resized.height -= depth;
+      if (dy > 0) resized.y += depth;
+    }
+
+    if (resized.width < PIXELS_PER_METER || resized.height < PIXELS_PER_METER) return {};
+    return { position, resizedNeighbor: resized };
+  }
+
+  /**
+   * Find rooms matching the keywords that connect to unrelated rooms other than through an airlock
+   */
+  private findSegregationBreaches(
+    layout: Diagram,
+    keywords: string[],
+    relationshipTypes: SpatialRelationship['type'][]
+  ): string[] {
+    const violations: string[] = [];
+
+    for (const room of layout.nodes.filter(n => this.nameIncludes(n, keywords))) {
+      for (const neighbor of this.getConnectedNodes(layout, room.id, relationshipTypes)) {
+        if (!this.nameIncludes(neighbor, keywords) && !this.nameIncludes(neighbor, TRANSITION_KEYWORDS)) {
+          violations.push(room.id, neighbor.id);
+        }
+      }
+    }
+
+    return [...new Set(violations)];
+  }
+
+  private findNode(layout: Diagram, id: string): FunctionalArea | undefined {
+    return layout.nodes.find(n => n.id === id);
+  }
+
+  private getConnectedNodes(
+    layout: Diagram,
+    nodeId: string,
+    relationshipTypes: SpatialRelationship['type'][]
+  ): FunctionalArea[] {
+    const neighborIds = layout.relationships
+      .filter(r => relationshipTypes.includes(r.type) && (r.fromId === nodeId || r.toId === nodeId))
+      .map(r => (r.fromId === nodeId ? r.toId : r.fromId));
+
+    return [...new Set(neighborIds)]
+      .map(id => this.findNode(layout, id))
+      .filter((n): n is FunctionalArea => n !== undefined);
+  }
+
+  private nameIncludes(node: FunctionalArea, keywords: string[]): boolean {
+    const name = node.name.toLowerCase();
+    return keywords.some(keyword => name.includes(keyword));
+  }
+
+  private isGradeChange(a: FunctionalArea, b: FunctionalArea): boolean {
+    return (a.cleanroomClass || 'CNC') !== (b.cleanroomClass || 'CNC');
+  }
+
+  private getAreaSqm(node: FunctionalArea): number | undefined {
+    if (!node.width || !node.height) return undefined;
+    return (node.width / PIXELS_PER_METER) * (node.height / PIXELS_PER_METER);
+  }
+
+  private getDistanceM(a: FunctionalArea, b: FunctionalArea): number | undefined {
+    if (a.x === undefined || a.y === undefined || b.x === undefined || b.y === undefined) return undefined;
+    const centerA = { x: a.x + (a.width || 0) / 2, y: a.y + (a.height || 0) / 2 };
+    const centerB = { x: b.x + (b.width || 0) / 2, y: b.y + (b.height || 0) / 2 };
+    return Math.hypot(centerA.x - centerB.x, centerA.y - centerB.y) / PIXELS_PER_METER;
+  }
+
   /**
    * Generate human-readable compliance summary
    */
-  private generateComplianceSummary(results: ComplianceCheckResult[], overallScore: number): string {
+  private generateComplianceSummary(
+    results: ComplianceCheckResult[],
+    overallScore: number,
+    notEvaluated: NotEvaluatedRule[]
+  ): string {
     const critical = results.filter(r => !r.passed && r.severity === 'critical').length;
     const major = results.filter(r => !r.passed && r.severity === 'major').length;
     const minor = results.filter(r => !r.passed && r.severity === 'minor').length;
-
-    if (overallScore === 100) {
-      return 'Excellent! All regulatory checks passed. Layout is fully compliant.';
+    const pending = notEvaluated.length > 0
+      ? ` ${notEvaluated.length} rule(s) were not evaluated and need manual review.`
+      : '';
+
+    if (results.length === 0) {
+      return `No regulatory checks could be evaluated automatically.${pending}`;
+    } else if (overallScore === 100) {
+      return notEvaluated.length > 0
+        ? `All evaluated regulatory checks passed.${pending}`
+        : 'Excellent! All regulatory checks passed. Layout is fully compliant.';
     } else if (critical > 0) {
-      return `Critical compliance issues detected (${critical} critical, ${major} major, ${minor} minor). Immediate action required.`;
+      return `Critical compliance issues detected (${critical} critical, ${major} major, ${minor} minor). Immediate action required.${pending}`;
     } else if (major > 0) {
-      return `Major compliance gaps found (${major} major, ${minor} minor). Address before finalization.`;
+      return `Major compliance gaps found (${major} major, ${minor} minor). Address before finalization.${pending}`;
     } else {
-      return `Minor improvements recommended (${minor} minor issues). Overall layout is compliant.`;
+      return `Minor improvements recommended (${minor} minor issues). Overall layout is compliant.${pending}`;
     }
   }
 }
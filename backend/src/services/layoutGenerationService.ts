@@ -8,6 +8,7 @@
  * - Natural language parsing to extract rooms, capacity, and constraints
  * - Neo4j relationship queries for connectivity rules
  * - Force-directed layout algorithm with GMP compliance constraints
+ * - Rectilinear packing so rooms never overlap and flow-linked rooms share walls
  * - Automatic door connection creation between adjacent shapes
  * - Airlock insertion for cleanroom class transitions
  */
@@ -28,6 +29,8 @@ import {
     scaleRoomDimensions,
 } from '../config/roomSizeDatabase';
 import { getCleanroomColor } from '../../../shared/types';
+import { createSeededRandom, resolveSeed } from '../utils/seededRandom';
+import { describePackingIssues, packFloorPlan, PackingLink } from './floorPlanPacking';
 
 interface RoomNode {
     id: string;
@@ -41,12 +44,13 @@ interface RoomNode {
     x: number; // Temporary positioning (meters)
     y: number; // Temporary positioning (meters)
     sizeData?: RoomSizeData;
+    airlockFor?: { fromRoomId: string; toRoomId: string }; // Rooms an inserted airlock separates
 }
 
 interface RoomRelationship {
     fromRoomId: string;
     toRoomId: string;
-    type: 'MATERIAL_FLOW' | 'PERSONNEL_FLOW' | 'REQUIRES_ACCESS' | 'PROHIBITED_NEAR';
+    type: 'MATERIAL_FLOW' | 'PERSONNEL_FLOW' | 'REQUIRES_ACCESS' | 'PROHIBITED_NEAR' | 'ADJACENT_TO';
     priority: number;
     flowType?: 'raw_material' | 'finished_product' | 'waste' | 'personnel' | 'equipment';
     flowDirection?: 'bidirectional' | 'unidirectional';
@@ -55,7 +59,7 @@ interface RoomRelationship {
 
 class LayoutGenerationService {
     private static instance: LayoutGenerationService;
-    private openai: OpenAI;
+    private openai: OpenAI | null;
     private neo4jService: Neo4jService;
 
     // Layout algorithm parameters
@@ -65,11 +69,14 @@ class LayoutGenerationService {
     private readonly CLUSTERING_STRENGTH = 0.2;
     private readonly MIN_DISTANCE = 2.0; // meters
     private readonly PIXELS_PER_METER = 40; // Canvas scale: 40 pixels = 1 meter
+    private readonly PACKING_GRID = 0.5; // meters
+    private readonly MIN_SHARED_WALL = 1.2; // meters, wide enough for a door
 
     private constructor() {
-        this.openai = new OpenAI({
-            apiKey: process.env.OPENAI_API_KEY,
-        });
+        // Without a key, layouts can still be generated from an explicit room list
+        this.openai = process.env.OPENAI_API_KEY
+            ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+            : null;
         this.neo4jService = Neo4jService.getInstance();
     }
 
@@ -85,6 +92,8 @@ class LayoutGenerationService {
      */
     public async generateLayout(params: LayoutGenerationParams): Promise<GeneratedShapeLayout> {
         console.log('🏭 Layout generation started:', params.description);
+        const seed = resolveSeed(params.seed);
+        console.log(`🎲 Layout seed: ${seed}`);
 
         // Step 1: Parse natural language to extract rooms and requirements
         const parsedRequirements = await this.parseNaturalLanguage(params);
@@ -99,26 +108,32 @@ class LayoutGenerationService {
         console.log(`🔗 Found ${relationships.length} relationships`);
 
         // Step 4: Position rooms using force-directed layout
-        const positionedRooms = await this.positionRooms(roomNodes, relationships, params.constraints);
+        const positionedRooms = await this.positionRooms(roomNodes, relationships, seed, params.constraints);
         console.log('📐 Positioned rooms on canvas');
 
         // Step 5: Insert airlocks for cleanroom transitions
         const roomsWithAirlocks = await this.insertAirlocks(positionedRooms, relationships);
         console.log(`🚪 Added ${roomsWithAirlocks.length - positionedRooms.length} airlocks`);
 
-        // Step 6: Convert to canvas coordinates (meters → pixels)
-        const shapes = this.convertToCanvasShapes(roomsWithAirlocks);
+        // Step 6: Pack rooms onto a grid without overlaps, inside the building footprint
+        const packing = this.packRooms(roomsWithAirlocks, relationships, params.constraints?.buildingFootprint);
+        console.log(`🧱 Packed rooms into ${packing.width} x ${packing.depth} m`);
+
+        // Step 7: Convert to canvas coordinates (meters → pixels)
+        const shapes = this.convertToCanvasShapes(packing.rooms);
 
-        // Step 7: Create door connections between adjacent shapes
-        const doorConnections = this.createDoorConnections(shapes, roomsWithAirlocks, relationships);
+        // Step 8: Create door connections between adjacent shapes
+        const doorConnections = this.createDoorConnections(shapes, packing.rooms, relationships);
         console.log(`🚪 Created ${doorConnections.length} door connections`);
 
-        // Step 8: Generate metadata (compliance score, warnings, rationale)
+        // Step 9: Generate metadata (compliance score, warnings, rationale)
         const metadata = await this.generateMetadata(
-            roomsWithAirlocks,
+            packing.rooms,
             relationships,
-            params.description
+            params.description,
+            seed
         );
+        metadata.warnings.push(...packing.warnings);
 
         console.log('✅ Layout generation complete');
 
@@ -150,6 +165,10 @@ class LayoutGenerationService {
             };
         }
 
+        if (!this.openai) {
+            throw new Error('Failed to parse layout requirements: OPENAI_API_KEY is not configured, so requiredRooms must be provided');
+        }
+
         // Otherwise, use AI to extract rooms from description
         try {
             const systemPrompt = `You are a pharmaceutical facility design expert. Extract required rooms and parameters from natural language descriptions.
@@ -294,7 +313,7 @@ Return JSON format:
                     const result = await session.run(
                         `MATCH (n1:NodeTemplate)-[r]->(n2:NodeTemplate)
              WHERE elementId(n1) = $id1 AND elementId(n2) = $id2
-             AND type(r) IN ['MATERIAL_FLOW', 'PERSONNEL_FLOW', 'REQUIRES_ACCESS', 'PROHIBITED_NEAR']
+             AND type(r) IN ['MATERIAL_FLOW', 'PERSONNEL_FLOW', 'REQUIRES_ACCESS', 'PROHIBITED_NEAR', 'ADJACENT_TO']
              RETURN type(r) as relType, r.priority as priority, 
                     r.flowType as flowType, r.flowDirection as flowDirection,
                     r.reason as reason`,
@@ -317,7 +336,7 @@ Return JSON format:
                     const reverseResult = await session.run(
                         `MATCH (n1:NodeTemplate)-[r]->(n2:NodeTemplate)
              WHERE elementId(n1) = $id2 AND elementId(n2) = $id1
-             AND type(r) IN ['MATERIAL_FLOW', 'PERSONNEL_FLOW', 'REQUIRES_ACCESS', 'PROHIBITED_NEAR']
+             AND type(r) IN ['MATERIAL_FLOW', 'PERSONNEL_FLOW', 'REQUIRES_ACCESS', 'PROHIBITED_NEAR', 'ADJACENT_TO']
              RETURN type(r) as relType, r.priority as priority,
                     r.flowType as flowType, r.flowDirection as flowDirection,
                     r.reason as reason`,
@@ -352,16 +371,18 @@ Return JSON format:
     private async positionRooms(
         roomNodes: RoomNode[],
         relationships: RoomRelationship[],
+        seed: number,
         constraints?: {
             layoutStyle?: 'linear' | 'clustered' | 'compact' | 'modular';
             prioritizeFlow?: 'material' | 'personnel' | 'balanced';
         }
     ): Promise<RoomNode[]> {
-        // Initialize random positions
+        // Initialize seeded random positions so the same seed reproduces the layout
+        const random = createSeededRandom(seed);
         const positioned = roomNodes.map(room => ({
             ...room,
-            x: Math.random() * 100,
-            y: Math.random() * 100,
+            x: random() * 100,
+            y: random() * 100,
             vx: 0,
             vy: 0,
         }));
@@ -545,6 +566,7 @@ Return JSON format:
                         x: (from.x + to.x) / 2,
                         y: (from.y + to.y) / 2,
                         sizeData: airlockSize,
+                        airlockFor: { fromRoomId: from.id, toRoomId: to.id },
                     };
 
                     roomsWithAirlocks.push(airlockRoom);
@@ -557,7 +579,72 @@ Return JSON format:
     }
 
     /**
-     * Step 6: Convert rooms from meters to canvas pixel coordinates
+     * Step 6: Pack rooms into an overlap-free rectilinear plan. Flow-linked and adjacent rooms
+     * (and airlocks with the rooms they separate) share walls; prohibited pairs do not touch.
+     */
+    private packRooms(
+        roomNodes: RoomNode[],
+        relationships: RoomRelationship[],
+        footprint?: { width: number; depth: number }
+    ): { rooms: RoomNode[]; width: number; depth: number; warnings: string[] } {
+        const links: PackingLink[] = [];
+        for (const rel of relationships) {
+            if (rel.type === 'MATERIAL_FLOW' || rel.type === 'ADJACENT_TO') {
+                links.push({ fromId: rel.fromRoomId, toId: rel.toRoomId, kind: 'share-wall', weight: rel.priority });
+            } else if (rel.type === 'PROHIBITED_NEAR') {
+                links.push({ fromId: rel.fromRoomId, toId: rel.toRoomId, kind: 'separate', weight: rel.priority });
+            }
+        }
+        for (const room of roomNodes) {
+            if (!room.airlockFor) continue;
+            // The airlock has to open into both rooms it separates
+            links.push(
+                { fromId: room.airlockFor.fromRoomId, toId: room.id, kind: 'share-wall', weight: 10 },
+                { fromId: room.id, toId: room.airlockFor.toRoomId, kind: 'share-wall', weight: 10 }
+            );
+        }
+
+        const result = packFloorPlan(
+            roomNodes.map(room => ({
+                id: room.id,
+                x: room.x - room.width / 2,
+                y: room.y - room.height / 2,
+                width: room.width,
+                height: room.height,
+            })),
+            links,
+            { gridSize: this.PACKING_GRID, minSharedWall: this.MIN_SHARED_WALL, footprint }
+        );
+
+        const rects = new Map(result.rects.map(rect => [rect.id, rect]));
+        const rooms = roomNodes.map(room => {
+            const rect = rects.get(room.id)!;
+            return {
+                ...room,
+                x: rect.x + rect.width / 2,
+                y: rect.y + rect.height / 2,
+                width: rect.width,
+                height: rect.height,
+                area: rect.width * rect.height,
+            };
+        });
+
+        const warnings: string[] = [];
+        if (footprint) {
+            const roomArea = rooms.reduce((sum, room) => sum + room.area, 0);
+            const footprintArea = footprint.width * footprint.depth;
+            if (roomArea > footprintArea) {
+                warnings.push(`Rooms need ${Math.round(roomArea)} m² but the building footprint is only ${Math.round(footprintArea)} m²`);
+            }
+        }
+        const names = new Map(rooms.map(room => [room.id, room.name]));
+        warnings.push(...describePackingIssues(result, id => names.get(id) || id));
+
+        return { rooms, width: result.width, depth: result.depth, warnings };
+    }
+
+    /**
+     * Step 7: Convert rooms from meters to canvas pixel coordinates (shape x/y is the top-left corner)
      */
     private convertToCanvasShapes(roomNodes: RoomNode[]): GeneratedShapeLayout['shapes'] {
         // Find bounding box
@@ -577,8 +664,8 @@ Return JSON format:
             width: room.width * this.PIXELS_PER_METER,
             height: room.height * this.PIXELS_PER_METER,
             area: room.area * this.PIXELS_PER_METER * this.PIXELS_PER_METER,
-            x: room.x * this.PIXELS_PER_METER + offsetX,
-            y: room.y * this.PIXELS_PER_METER + offsetY,
+            x: (room.x - room.width / 2) * this.PIXELS_PER_METER + offsetX,
+            y: (room.y - room.height / 2) * this.PIXELS_PER_METER + offsetY,
             rotation: 0,
             pressureRegime: room.cleanroomClass && ['A', 'B', 'C'].includes(room.cleanroomClass) ? 'positive' : 'neutral',
             temperatureRange: { min: 18, max: 26, unit: 'C' as const },
@@ -599,7 +686,7 @@ Return JSON format:
     }
 
     /**
-     * Step 7: Create door connections between adjacent or connected shapes
+     * Step 8: Create door connections between adjacent or connected shapes
      */
     private createDoorConnections(
         shapes: GeneratedShapeLayout['shapes'],
@@ -667,12 +754,13 @@ Return JSON format:
     }
 
     /**
-     * Step 8: Generate metadata (compliance score, warnings, rationale)
+     * Step 9: Generate metadata (compliance score, warnings, rationale)
      */
     private async generateMetadata(
         roomNodes: RoomNode[],
         relationships: RoomRelationship[],
-        originalDescription: string
+        originalDescription: string,
+        seed: number
     ): Promise<GeneratedShapeLayout['metadata']> {
         const warnings: string[] = [];
         const suggestions: string[] = [];
@@ -709,6 +797,7 @@ Return JSON format:
             warnings,
             suggestions,
             rationale,
+            seed,
         };
     }
 
@@ -729,6 +818,11 @@ ${roomNodes.map(r => `- ${r.name} (${r.category}, ${r.cleanroomClass || 'N/A'},
 
 Explain why this layout is appropriate for GMP compliance.`;
 
+        const fallback = `Generated ${roomNodes.length} rooms organized by cleanroom classification and workflow requirements.`;
+        if (!this.openai) {
+            return fallback;
+        }
+
         try {
             const response = await this.openai.chat.completions.create({
                 model: 'gpt-4o-mini',
@@ -743,7 +837,7 @@ Explain why this layout is appropriate for GMP compliance.`;
             return response.choices[0].message.content || 'Layout generated based on GMP requirements.';
         } catch (error) {
             console.error('Error generating rationale:', error);
-            return `Generated ${roomNodes.length} rooms organized by cleanroom classification and workflow requirements.`;
+            return fallback;
         }
     }
 }
@@ -0,0 +1,198 @@
+/**
+ * Layout operations for real-time collaboration
+ *
+ * Every edit to a shared layout is an add, update or remove of one entity in one collection.
+ * The collaboration server applies operations in the order it receives them, so conflicts are
+ * resolved by that order alone: concurrent updates merge field by field with the later write
+ * winning each field, adding or updating a door or vertical connection so it refers to a
+ * removed room is rejected, as is adding or moving an item onto a removed level. Removing a
+ * room also removes the doors attached to it and drops it from vertical connections; removing
+ * a level removes everything on it. Clients replay their pending operations with the same
+ * function, so every client converges on the server state.
+ */
+
+import {
+  CollaborationCollection,
+  CollaborationEntity,
+  CollaborationState,
+  LayoutOperation,
+  LayoutOperationRejection
+} from '../types';
+
+// Referenced collections come before the ones referring to them
+export const COLLABORATION_COLLECTIONS: CollaborationCollection[] = [
+  'levels',
+  'shapes',
+  'doorConnections',
+  'doorPlacements',
+  'verticalConnections',
+  'walls',
+  'measurements',
+];
+
+export type LayoutOperationResult =
+  | { applied: true; state: CollaborationState }
+  | { applied: false; state: CollaborationState; reason: LayoutOperationRejection };
+
+export const createEmptyCollaborationState = (): CollaborationState => ({
+  levels: [],
+  shapes: [],
+  doorConnections: [],
+  doorPlacements: [],
+  verticalConnections: [],
+  walls: [],
+  measurements: [],
+});
+
+/**
+ * Rooms a door or vertical connection refers to, empty for other entities
+ */
+const getDoorShapeIds = (collection: CollaborationCollection, entity: CollaborationEntity): string[] => {
+  if (collection === 'doorPlacements') {
+    return [entity.shape1Id, entity.shape2Id];
+  }
+  if (collection === 'doorConnections') {
+    return [entity.fromShape?.shapeId, entity.toShape?.shapeId];
+  }
+  if (collection === 'verticalConnections') {
+    return Array.isArray(entity.shapeIds) ? entity.shapeIds : [];
+  }
+  return [];
+};
+
+// Rooms, walls and measurements sit on a level; without a levelId (or levels) they are on the first level
+const LEVELLED_COLLECTIONS: CollaborationCollection[] = ['shapes', 'walls', 'measurements'];
+
+const isOnMissingLevel = (state: CollaborationState, collection: CollaborationCollection, entity: CollaborationEntity): boolean =>
+  LEVELLED_COLLECTIONS.includes(collection) &&
+  typeof entity.levelId === 'string' &&
+  state.levels.length > 0 &&
+  !state.levels.some(level => level.id === entity.levelId);
+
+/**
+ * Remove rooms with everything that refers to them: their doors, and their place in vertical
+ * connections (a connection needs at least two rooms)
+ */
+const removeShapes = (state: CollaborationState, shapeIds: Set<string>): CollaborationState => ({
+  ...state,
+  shapes: state.shapes.filter(shape => !shapeIds.has(shape.id)),
+  doorConnections: state.doorConnections.filter(
+    door => !getDoorShapeIds('doorConnections', door).some(id => shapeIds.has(id))
+  ),
+  doorPlacements: state.doorPlacements.filter(
+    door => !getDoorShapeIds('doorPlacements', door).some(id => shapeIds.has(id))
+  ),
+  verticalConnections: state.verticalConnections
+    .map(connection => ({
+      ...connection,
+      shapeIds: getDoorShapeIds('verticalConnections', connection).filter(id => !shapeIds.has(id)),
+    }))
+    .filter(connection => connection.shapeIds.length >= 2),
+});
+
+/**
+ * Remove a level with the rooms, walls and measurements on it
+ */
+const removeLevel = (state: CollaborationState, levelId: string): CollaborationState => {
+  const isOnLevel = (entity: CollaborationEntity) => entity.levelId === levelId;
+  const next = removeShapes(state, new Set(state.shapes.filter(isOnLevel).map(shape => shape.id)));
+  return {
+    ...next,
+    levels: next.levels.filter(level => level.id !== levelId),
+    walls: next.walls.filter(wall => !isOnLevel(wall)),
+    measurements: next.measurements.filter(measurement => !isOnLevel(measurement)),
+  };
+};
+
+const isValidOperation = (operation: LayoutOperation): boolean => {
+  if (!operation || !COLLABORATION_COLLECTIONS.includes(operation.collection)) return false;
+  switch (operation.kind) {
+    case 'add':
+      return typeof operation.value?.id === 'string';
+    case 'update':
+      return typeof operation.id === 'string' && typeof operation.changes === 'object' && operation.changes !== null;
+    case 'remove':
+      return typeof operation.id === 'string';
+    default:
+      return false;
+  }
+};
+
+/**
+ * Apply one operation without mutating the input state
+ */
+export const applyLayoutOperation = (state: CollaborationState, operation: LayoutOperation): LayoutOperationResult => {
+  if (!isValidOperation(operation)) {
+    return { applied: false, state, reason: 'invalid' };
+  }
+
+  const { collection } = operation;
+  const entities = state[collection];
+
+  switch (operation.kind) {
+    case 'add': {
+      if (entities.some(entity => entity.id === operation.value.id)) {
+        return { applied: false, state, reason: 'duplicate-id' };
+      }
+      const shapeIds = new Set(state.shapes.map(shape => shape.id));
+      if (getDoorShapeIds(collection, operation.value).some(shapeId => !shapeIds.has(shapeId))) {
+        return { applied: false, state, reason: 'missing-room' };
+      }
+      if (isOnMissingLevel(state, collection, operation.value)) {
+        return { applied: false, state, reason: 'missing-level' };
+      }
+      return { applied: true, state: { ...state, [collection]: [...entities, operation.value] } };
+    }
+
+    case 'update': {
+      if (!entities.some(entity => entity.id === operation.id)) {
+        return { applied: false, state, reason: 'not-found' };
+      }
+      const { id: _ignored, ...changes } = operation.changes;
+      const updated = { ...entities.find(entity => entity.id === operation.id)!, ...changes };
+      // A door may not be moved onto a room that no longer exists, same as when it is added
+      const shapeIds = new Set(state.shapes.map(shape => shape.id));
+      if (getDoorShapeIds(collection, updated).some(shapeId => !shapeIds.has(shapeId))) {
+        return { applied: false, state, reason: 'missing-room' };
+      }
+      if (isOnMissingLevel(state, collection, updated)) {
+        return { applied: false, state, reason: 'missing-level' };
+      }
+      return {
+        applied: true,
+        state: {
+          ...state,
+          [collection]: entities.map(entity => (entity.id === operation.id ? updated : entity)),
+        },
+      };
+    }
+
+    case 'remove': {
+      if (!entities.some(entity => entity.id === operation.id)) {
+        return { applied: false, state, reason: 'not-found' };
+      }
+      // Doors and vertical connections cannot outlive their rooms, nor items their level
+      if (collection === 'shapes') {
+        return { applied: true, state: removeShapes(state, new Set([operation.id])) };
+      }
+      if (collection === 'levels') {
+        return { applied: true, state: removeLevel(state, operation.id) };
+      }
+      return { applied: true, state: { ...state, [collection]: entities.filter(entity => entity.id !== operation.id) } };
+    }
+  }
+};
+
+/**
+ * Normalize a client-supplied snapshot: known collections only, entities must have a string ID
+ */
+export const sanitizeCollaborationState = (state: Partial<CollaborationState> | undefined): CollaborationState => {
+  const sanitized = createEmptyCollaborationState();
+  COLLABORATION_COLLECTIONS.forEach(collection => {
+    const entities = state?.[collection];
+    if (Array.isArray(entities)) {
+      sanitized[collection] = entities.filter(entity => typeof entity?.id === 'string');
+    }
+  });
+  return sanitized;
+};
@@ -0,0 +1,295 @@
+import {
+  CLEANROOM_OPERATING_FACTORS,
+  DEFAULT_COST_SETTINGS,
+  DEFAULT_LIFECYCLE_SETTINGS,
+  EQUIPMENT_CATALOG,
+  CostRoomInput,
+  calculateProjectCost,
+  calculateRoomCost,
+  getPriceFactor
+} from '../config/costConfiguration';
+import {
+  CleanroomOperatingFactors,
+  CostEstimationSettings,
+  LifecycleCashFlowYear,
+  LifecycleCostCategory,
+  LifecycleCostComparison,
+  LifecycleCostEstimate,
+  LifecycleCostSettings,
+  RoomCostFactors
+} from '../../../shared/types';
+
+export interface LifecycleRoomInput extends CostRoomInput {
+  occupancy?: number; // People working in the room per day
+  ceilingHeight?: number; // Meters
+}
+
+const MAX_HORIZON_YEARS = 50;
+
+const CATEGORIES: LifecycleCostCategory[] = ['capex', 'maintenance', 'replacement', 'energy', 'consumables', 'requalification', 'total'];
+
+// Numeric settings and their allowed minimum; rates may not reach -100%
+const NUMERIC_SETTINGS: Array<[keyof LifecycleCostSettings, number]> = [
+  ['horizonYears', 1],
+  ['discountRate', -99],
+  ['opexEscalationRate', -99],
+  ['energyPricePerKwh', 0],
+  ['energyEscalationRate', -99],
+  ['hvacOperatingHoursPerYear', 0],
+  ['hvacEnergyKwhPerM3', 0],
+  ['defaultCeilingHeight', 0],
+  ['operatingDaysPerYear', 0],
+  ['gowningEntriesPerPersonPerDay', 0],
+  ['sqmPerOccupant', 0],
+  ['requalificationCostFraction', 0]
+];
+
+// Per-class overrides and their allowed minimum; an interval of 0 months means no requalification
+const OPERATING_FACTORS: Array<[keyof CleanroomOperatingFactors, number]> = [
+  ['airChangesPerHour', 0],
+  ['gowningCostPerEntry', 0],
+  ['requalificationIntervalMonths', 0]
+];
+
+const isNumberOfAtLeast = (value: unknown, minimum: number): boolean =>
+  typeof value === 'number' && Number.isFinite(value) && value >= minimum;
+
+/**
+ * Lifecycle settings with defaults for everything not given; a message when a value is invalid
+ */
+export function resolveLifecycleSettings(input: unknown = {}): { settings: LifecycleCostSettings } | { error: string } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'lifecycle must be an object' };
+  }
+
+  const settings: LifecycleCostSettings = { ...DEFAULT_LIFECYCLE_SETTINGS, ...(input as Partial<LifecycleCostSettings>) };
+
+  for (const [key, minimum] of NUMERIC_SETTINGS) {
+    if (!isNumberOfAtLeast(settings[key], minimum)) {
+      return { error: `lifecycle.${key} must be a number of at least ${minimum}` };
+    }
+  }
+  if (!Number.isInteger(settings.horizonYears) || settings.horizonYears > MAX_HORIZON_YEARS) {
+    return { error: `lifecycle.horizonYears must be a whole number of years up to ${MAX_HORIZON_YEARS}` };
+  }
+  if (settings.sqmPerOccupant === 0) {
+    return { error: 'lifecycle.sqmPerOccupant must be greater than 0' };
+  }
+  if (typeof settings.includeEquipmentReplacement !== 'boolean') {
+    return { error: 'lifecycle.includeEquipmentReplacement must be a boolean' };
+  }
+  if (settings.operatingFactors !== undefined) {
+    if (typeof settings.operatingFactors !== 'object' || settings.operatingFactors === null || Array.isArray(settings.operatingFactors)) {
+      return { error: 'lifecycle.operatingFactors must map cleanroom classes to operating factors' };
+    }
+
+    // Keyed by upper-case class, the way rooms are looked up
+    const operatingFactors: Record<string, Partial<CleanroomOperatingFactors>> = {};
+    for (const [cleanroomClass, factors] of Object.entries(settings.operatingFactors)) {
+      if (!factors || typeof factors !== 'object' || Array.isArray(factors)) {
+        return { error: `lifecycle.operatingFactors.${cleanroomClass} must be an object` };
+      }
+      for (const [key, minimum] of OPERATING_FACTORS) {
+        if (factors[key] !== undefined && !isNumberOfAtLeast(factors[key], minimum)) {
+          return { error: `lifecycle.operatingFactors.${cleanroomClass}.${key} must be a number of at least ${minimum}` };
+        }
+      }
+      const normalizedClass = cleanroomClass.toUpperCase();
+      operatingFactors[normalizedClass] = { ...operatingFactors[normalizedClass], ...factors };
+    }
+    settings.operatingFactors = operatingFactors;
+  }
+
+  return { settings };
+}
+
+/**
+ * A message when the lifecycle inputs of a room are invalid: occupancy and ceiling height are
+ * optional, but must be usable numbers when given
+ */
+export function lifecycleRoomsError(rooms: LifecycleRoomInput[], path = 'rooms'): string | null {
+  for (const [index, room] of rooms.entries()) {
+    const { occupancy, ceilingHeight } = room || {};
+    if (occupancy !== undefined && occupancy !== null && !isNumberOfAtLeast(occupancy, 0)) {
+      return `${path}[${index}].occupancy must be a number of at least 0`;
+    }
+    if (ceilingHeight !== undefined && ceilingHeight !== null && (!isNumberOfAtLeast(ceilingHeight, 0) || ceilingHeight === 0)) {
+      return `${path}[${index}].ceilingHeight must be a number greater than 0`;
+    }
+  }
+  return null;
+}
+
+const operatingFactorsFor = (cleanroomClass: string, settings: LifecycleCostSettings): CleanroomOperatingFactors => {
+  const normalizedClass = cleanroomClass?.toUpperCase?.() || cleanroomClass;
+  return {
+    ...(CLEANROOM_OPERATING_FACTORS[normalizedClass] || CLEANROOM_OPERATING_FACTORS['CNC']),
+    ...settings.operatingFactors?.[normalizedClass]
+  };
+};
+
+// Requalifications falling in a year, so intervals longer than a year land in the right years
+const requalificationsInYear = (year: number, intervalMonths: number): number =>
+  intervalMonths > 0 ? Math.floor((year * 12) / intervalMonths) - Math.floor(((year - 1) * 12) / intervalMonths) : 0;
+
+/**
+ * CAPEX plus yearly OPEX over the horizon: equipment maintenance and replacement, HVAC energy
+ * from air change rates, gowning consumables and requalification. Year 0 holds the capital cost
+ * of the project estimate; later years are escalated from today's prices and discounted to the NPV.
+ */
+export function calculateLifecycleCost(
+  rooms: LifecycleRoomInput[],
+  settings: CostEstimationSettings = DEFAULT_COST_SETTINGS,
+  lifecycleSettings: LifecycleCostSettings = DEFAULT_LIFECYCLE_SETTINGS,
+  cleanroomOverrides?: Record<string, RoomCostFactors | undefined>
+): LifecycleCostEstimate {
+  // Same rooms as the capital estimate, which skips incomplete ones
+  const completeRooms = rooms.filter(room => room.area && room.cleanroomClass && room.roomType);
+  const priceFactor = getPriceFactor(settings);
+  const capitalCost = calculateProjectCost(completeRooms, settings, cleanroomOverrides).total;
+
+  const roomRows = completeRooms.map(room => {
+    const factors = operatingFactorsFor(room.cleanroomClass, lifecycleSettings);
+    const normalizedClass = room.cleanroomClass?.toUpperCase?.() || room.cleanroomClass;
+    const roomCost = calculateRoomCost(room.area, room.cleanroomClass, room.roomType, settings, cleanroomOverrides?.[normalizedClass]);
+    const equipmentValidationCost = (room.equipment || []).reduce((sum, equipmentId) =>
+      sum + (EQUIPMENT_CATALOG.find(item => item.id === equipmentId)?.validationCost || 0) * priceFactor, 0);
+
+    const airflowM3PerHour = room.area * (room.ceilingHeight || lifecycleSettings.defaultCeilingHeight) * factors.airChangesPerHour;
+    const annualEnergyKwh = airflowM3PerHour * lifecycleSettings.hvacEnergyKwhPerM3 * lifecycleSettings.hvacOperatingHoursPerYear;
+    const occupancy = room.occupancy ?? Math.max(1, Math.round(room.area / lifecycleSettings.sqmPerOccupant));
+
+    return {
+      roomId: room.id || room.roomType,
+      roomName: room.name || room.roomType,
+      cleanroomClass: room.cleanroomClass,
+      area: room.area,
+      airflowM3PerHour,
+      annualEnergyKwh,
+      // The energy price is in the cost base currency, like the other price constants
+      annualEnergyCost: annualEnergyKwh * lifecycleSettings.energyPricePerKwh * (settings.exchangeRate ?? 1),
+      annualConsumablesCost: occupancy * lifecycleSettings.gowningEntriesPerPersonPerDay * lifecycleSettings.operatingDaysPerYear
+        * factors.gowningCostPerEntry * priceFactor,
+      requalificationIntervalMonths: factors.requalificationIntervalMonths,
+      requalificationsPerYear: factors.requalificationIntervalMonths > 0 ? 12 / factors.requalificationIntervalMonths : 0,
+      requalificationCost: (roomCost.validationCost + equipmentValidationCost) * lifecycleSettings.requalificationCostFraction
+    };
+  });
+
+  const equipmentRows: LifecycleCostEstimate['equipment'] = [];
+  for (const equipmentId of completeRooms.flatMap(room => room.equipment || [])) {
+    const item = EQUIPMENT_CATALOG.find(equipment => equipment.id === equipmentId);
+    if (!item) continue;
+
+    const existing = equipmentRows.find(row => row.equipmentId === equipmentId);
+    if (existing) {
+      existing.quantity += 1;
+      continue;
+    }
+
+    const replacementYears: number[] = [];
+    if (lifecycleSettings.includeEquipmentReplacement && item.lifespan > 0) {
+      for (let year = item.lifespan; year <= lifecycleSettings.horizonYears; year += item.lifespan) {
+        replacementYears.push(year);
+      }
+    }
+    equipmentRows.push({
+      equipmentId: item.id,
+      equipmentName: item.name,
+      quantity: 1,
+      annualMaintenanceCost: item.annualMaintenanceCost * priceFactor,
+      lifespan: item.lifespan,
+      replacementYears
+    });
+  }
+
+  const discountRate = lifecycleSettings.discountRate / 100;
+  const opexEscalation = lifecycleSettings.opexEscalationRate / 100;
+  const energyEscalation = lifecycleSettings.energyEscalationRate / 100;
+  const replacementUnitCost = (equipmentId: string): number => {
+    const item = EQUIPMENT_CATALOG.find(equipment => equipment.id === equipmentId)!;
+    return (item.purchaseCost + item.installationCost + item.validationCost) * priceFactor;
+  };
+
+  const years: LifecycleCashFlowYear[] = [];
+  let cumulativePresentValue = 0;
+
+  for (let year = 0; year <= lifecycleSettings.horizonYears; year++) {
+    const opexIndex = Math.pow(1 + opexEscalation, year);
+    const operating = year > 0;
+
+    const capex = year === 0 ? capitalCost : 0;
+    const maintenance = operating
+      ? equipmentRows.reduce((sum, row) => sum + row.annualMaintenanceCost * row.quantity, 0) * opexIndex
+      : 0;
+    const replacement = equipmentRows
+      .filter(row => row.replacementYears.includes(year))
+      .reduce((sum, row) => sum + replacementUnitCost(row.equipmentId) * row.quantity, 0) * opexIndex;
+    const energy = operating
+      ? roomRows.reduce((sum, row) => sum + row.annualEnergyCost, 0) * Math.pow(1 + energyEscalation, year)
+      : 0;
+    const consumables = operating ? roomRows.reduce((sum, row) => sum + row.annualConsumablesCost, 0) * opexIndex : 0;
+    const requalification = operating
+      ? roomRows.reduce((sum, row) => sum + row.requalificationCost * requalificationsInYear(year, row.requalificationIntervalMonths), 0) * opexIndex
+      : 0;
+
+    const total = capex + maintenance + replacement + energy + consumables + requalification;
+    const discountFactor = 1 / Math.pow(1 + discountRate, year);
+    const presentValue = total * discountFactor;
+    cumulativePresentValue += presentValue;
+
+    years.push({ year, capex, maintenance, replacement, energy, consumables, requalification, total, discountFactor, presentValue, cumulativePresentValue });
+  }
+
+  const totals = Object.fromEntries(
+    CATEGORIES.map(category => [category, years.reduce((sum, year) => sum + year[category], 0)])
+  ) as Record<LifecycleCostCategory, number>;
+
+  // Equivalent annual cost: the level yearly payment over the horizon with the same present value
+  const horizon = lifecycleSettings.horizonYears;
+  const annuityFactor = discountRate === 0 ? horizon : (1 - Math.pow(1 + discountRate, -horizon)) / discountRate;
+
+  return {
+    currency: settings.currency,
+    settings,
+    lifecycleSettings,
+    capitalCost,
+    rooms: roomRows.map(({ requalificationIntervalMonths, ...row }) => row),
+    equipment: equipmentRows,
+    years,
+    totals,
+    npv: cumulativePresentValue,
+    equivalentAnnualCost: cumulativePresentValue / annuityFactor
+  };
+}
+
+/**
+ * Lifecycle estimates of several design options under the same assumptions, ranked by NPV
+ */
+export function compareLifecycleCosts(
+  options: Array<{ id?: string; name?: string; rooms: LifecycleRoomInput[] }>,
+  settings: CostEstimationSettings = DEFAULT_COST_SETTINGS,
+  lifecycleSettings: LifecycleCostSettings = DEFAULT_LIFECYCLE_SETTINGS,
+  cleanroomOverrides?: Record<string, RoomCostFactors | undefined>
+): LifecycleCostComparison {
+  const estimates = options.map((option, index) => ({
+    id: option.id || `option-${index + 1}`,
+    name: option.name || `Option ${index + 1}`,
+    estimate: calculateLifecycleCost(option.rooms, settings, lifecycleSettings, cleanroomOverrides)
+  }));
+
+  const ranked = [...estimates].sort((a, b) => a.estimate.npv - b.estimate.npv);
+  const lowestNpv = ranked[0]?.estimate.npv ?? 0;
+
+  return {
+    options: estimates,
+    ranking: ranked.map(({ id, name, estimate }) => ({
+      id,
+      name,
+      capitalCost: estimate.capitalCost,
+      npv: estimate.npv,
+      equivalentAnnualCost: estimate.equivalentAnnualCost,
+      npvDelta: estimate.npv - lowestNpv
+    }))
+  };
+}
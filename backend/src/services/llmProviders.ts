@@ -0,0 +1,509 @@
+import OpenAI from 'openai';
+import { NodeTemplate } from '../types';
+
+// ============================================
+// PROVIDER-NEUTRAL CHAT TYPES
+// ============================================
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: string; // JSON-encoded arguments
+}
+
+export type LLMMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: LLMToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string };
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>; // JSON schema of the arguments
+}
+
+export interface LLMCompletionOptions {
+  tools?: LLMToolDefinition[];
+  toolChoice?: 'auto' | 'none';
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LLMCompletion {
+  content: string;
+  toolCalls: LLMToolCall[];
+}
+
+/**
+ * Chat completion backend used by AIChatService
+ */
+export interface LLMProvider {
+  readonly name: string;
+  complete(messages: LLMMessage[], options?: LLMCompletionOptions): Promise<LLMCompletion>;
+}
+
+export type LLMProviderType = 'openai' | 'anthropic' | 'local' | 'rule-based';
+
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+const DEFAULT_ANTHROPIC_MODEL = 'claude-3-5-haiku-latest';
+const DEFAULT_LOCAL_MODEL = 'llama3.1';
+const ANTHROPIC_API_VERSION = '2023-06-01';
+
+// ============================================
+// OPENAI (AND OPENAI-COMPATIBLE LOCAL SERVERS)
+// ============================================
+
+/**
+ * OpenAI chat completions. With a baseURL it talks to any OpenAI-compatible
+ * server (Ollama, vLLM, LM Studio, ...) inside the plant network.
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string;
+  private client: OpenAI;
+  private model: string;
+
+  constructor(options: { apiKey?: string; baseURL?: string; model: string; name?: string }) {
+    this.name = options.name || 'openai';
+    this.model = options.model;
+    this.client = new OpenAI({
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: options.apiKey || 'not-needed',
+      baseURL: options.baseURL
+    });
+  }
+
+  async complete(messages: LLMMessage[], options: LLMCompletionOptions = {}): Promise<LLMCompletion> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: messages.map(toOpenAIMessage),
+      ...(options.tools && options.tools.length > 0 ? {
+        tools: options.tools.map(tool => ({
+          type: 'function' as const,
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+        })),
+        tool_choice: options.toolChoice || 'auto'
+      } : {}),
+      temperature: options.temperature ?? 0.7,
+      max_tokens: options.maxTokens ?? 2000
+    });
+
+    const message = completion.choices[0]?.message;
+    return {
+      content: message?.content || '',
+      toolCalls: (message?.tool_calls || [])
+        .filter(call => call.type === 'function')
+        .map(call => ({ id: call.id, name: call.function.name, arguments: call.function.arguments }))
+    };
+  }
+}
+
+const toOpenAIMessage = (message: LLMMessage): OpenAI.Chat.ChatCompletionMessageParam => {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function' as const,
+        function: { name: call.name, arguments: call.arguments }
+      }))
+    };
+  }
+  return { role: message.role, content: message.content };
+};
+
+// ============================================
+// ANTHROPIC
+// ============================================
+
+/**
+ * Anthropic Messages API over plain HTTP (no SDK dependency)
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+
+  constructor(private options: { apiKey: string; model: string; baseURL?: string }) { }
+
+  async complete(messages: LLMMessage[], options: LLMCompletionOptions = {}): Promise<LLMCompletion> {
+    const system = messages
+      .filter(m => m.role === 'system')
+      .map(m => m.content)
+      .join('\n\n');
+
+    const response = await fetch(`${this.options.baseURL || 'https://api.anthropic.com'}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.options.apiKey,
+        'anthropic-version': ANTHROPIC_API_VERSION
+      },
+      body: JSON.stringify({
+        model: this.options.model,
+        system: system || undefined,
+        messages: toAnthropicMessages(messages),
+        // Tool definitions must be sent whenever the history contains tool_use blocks
+        ...(options.tools && options.tools.length > 0 ? {
+          tools: options.tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: tool.parameters
+          })),
+          tool_choice: { type: options.toolChoice || 'auto' }
+        } : {}),
+        temperature: options.temperature ?? 0.7,
+        max_tokens: options.maxTokens ?? 2000
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Anthropic API error ${response.status}: ${await response.text()}`);
+    }
+
+    const body: any = await response.json();
+    const blocks: any[] = body.content || [];
+
+    return {
+      content: blocks.filter(b => b.type === 'text').map(b => b.text).join(''),
+      toolCalls: blocks
+        .filter(b => b.type === 'tool_use')
+        .map(b => ({ id: b.id, name: b.name, arguments: JSON.stringify(b.input || {}) }))
+    };
+  }
+}
+
+const toAnthropicMessages = (messages: LLMMessage[]): Array<{ role: 'user' | 'assistant'; content: any }> => {
+  const result: Array<{ role: 'user' | 'assistant'; content: any }> = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+
+    if (message.role === 'tool') {
+      const block = { type: 'tool_result', tool_use_id: message.toolCallId, content: message.content };
+      const previous = result[result.length - 1];
+      // Consecutive tool results belong in a single user turn
+      if (previous?.role === 'user' && Array.isArray(previous.content)) {
+        previous.content.push(block);
+      } else {
+        result.push({ role: 'user', content: [block] });
+      }
+      continue;
+    }
+
+    if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+      result.push({
+        role: 'assistant',
+        content: [
+          ...(message.content ? [{ type: 'text', text: message.content }] : []),
+          ...message.toolCalls.map(call => ({
+            type: 'tool_use',
+            id: call.id,
+            name: call.name,
+            input: JSON.parse(call.arguments || '{}')
+          }))
+        ]
+      });
+      continue;
+    }
+
+    result.push({ role: message.role, content: message.content });
+  }
+
+  return result;
+};
+
+// ============================================
+// RULE-BASED FALLBACK (NO LLM)
+// ============================================
+
+const GENERATE_LAYOUT_PATTERN = /\b(generate|design|create|build|plan)\b.*\b(facility|layout|plant|suite|line)\b/i;
+const COST_PATTERN = /\b(cost|costs|budget|price|estimate|capex)\b/i;
+const ADD_NODE_PATTERN = /\b(add|place|insert|include)\b/i;
+const LIST_TEMPLATES_PATTERN = /\b(list|show|which|what)\b.*\b(rooms|templates|nodes|areas)\b/i;
+const NEO4J_CONTEXT_PATTERN = /\*\*━━━ ACTUAL NEO4J KNOWLEDGE GRAPH DATA ━━━\*\*([\s\S]*?)⚠️/;
+
+/**
+ * Room programs used when a generation request does not name any known rooms.
+ * Names resolve against the room size database in LayoutGenerationService.
+ */
+const DEFAULT_ROOM_PROGRAMS: Array<{ pattern: RegExp; rooms: string[] }> = [
+  {
+    pattern: /\b(sterile|aseptic|injectable|vial|fill(?:ing)?|lyophili[sz]ation)\b/i,
+    rooms: ['Gowning Room', 'Personnel Airlock', 'Material Airlock', 'Sterile Preparation Room', 'Sterile Filling Room', 'Packaging Room']
+  },
+  {
+    pattern: /\b(tablet|oral solid|osd|capsule|granulation|compression)\b/i,
+    rooms: ['Raw Material Warehouse', 'Weighing Room', 'Granulation Room', 'Compression Room', 'Coating Room', 'Packaging Room', 'Finished Goods Warehouse']
+  },
+  {
+    pattern: /\b(qc|quality control|laboratory|lab)\b/i,
+    rooms: ['Sampling Room', 'Analytical Laboratory', 'Microbiology Laboratory', 'Instrument Room', 'Stability Chamber Room']
+  },
+  {
+    pattern: /\b(api|fermentation|purification|biologic)\b/i,
+    rooms: ['Raw Material Warehouse', 'Fermentation Room', 'Purification Room', 'API Manufacturing', 'Quarantine Storage']
+  },
+  {
+    pattern: /\b(packaging|labell?ing)\b/i,
+    rooms: ['Packaging Material Storage', 'Labeling Room', 'Packaging Room', 'Finished Goods Warehouse']
+  }
+];
+
+const GENERIC_ROOM_PROGRAM = ['Gowning Room', 'Material Airlock', 'Weighing Room', 'Packaging Room', 'Raw Material Warehouse', 'Finished Goods Warehouse'];
+
+/**
+ * Deterministic keyword-driven assistant for air-gapped sites and tests.
+ * It issues the same tool calls an LLM would (generate_layout, calculate_cost)
+ * and builds add_node actions from the Neo4j templates.
+ */
+export class RuleBasedProvider implements LLMProvider {
+  readonly name = 'rule-based';
+
+  constructor(private getTemplates: () => Promise<NodeTemplate[]>) { }
+
+  async complete(messages: LLMMessage[], options: LLMCompletionOptions = {}): Promise<LLMCompletion> {
+    const last = messages[messages.length - 1];
+
+    if (last?.role === 'tool') {
+      return { content: this.summarizeToolResults(messages), toolCalls: [] };
+    }
+
+    const rawMessage = last?.content || '';
+    const question = (rawMessage.split('**User Question:**')[1] || rawMessage).trim();
+    const canCallTools = options.toolChoice !== 'none' &&
+      (options.tools || []).map(tool => tool.name);
+
+    if (canCallTools && canCallTools.includes('generate_layout') && GENERATE_LAYOUT_PATTERN.test(question)) {
+      const batchSize = question.match(/(\d+(?:\.\d+)?)\s*(?:l|liters?|litres?)\b/i);
+      const seed = question.match(/\bseed\s*[:=#]?\s*(\d+)\b/i);
+      const namedRooms = this.matchTemplates(question, await this.loadTemplates()).map(t => t.name);
+      const program = DEFAULT_ROOM_PROGRAMS.find(p => p.pattern.test(question));
+      return this.toolCall('generate_layout', {
+        description: question,
+        // No LLM is available to parse the description, so always pass an explicit room list
+        requiredRooms: namedRooms.length > 0 ? namedRooms : (program?.rooms || GENERIC_ROOM_PROGRAM),
+        ...(batchSize ? { batchSize: Number(batchSize[1]) } : {}),
+        ...(seed ? { seed: Number(seed[1]) } : {})
+      });
+    }
+
+    if (canCallTools && canCallTools.includes('calculate_cost') && COST_PATTERN.test(question)) {
+      const currency = question.match(/\b(usd|eur|gbp)\b/i);
+      return this.toolCall('calculate_cost', currency ? { currency: currency[1].toUpperCase() } : {});
+    }
+
+    const neo4jContext = rawMessage.match(NEO4J_CONTEXT_PATTERN);
+    if (neo4jContext) {
+      return { content: `Here is what the knowledge graph defines:\n${neo4jContext[1].trim()}`, toolCalls: [] };
+    }
+
+    const templates = await this.loadTemplates();
+
+    if (ADD_NODE_PATTERN.test(question)) {
+      return { content: this.buildAddNodeResponse(question, templates), toolCalls: [] };
+    }
+
+    if (LIST_TEMPLATES_PATTERN.test(question) && templates.length > 0) {
+      return { content: this.listTemplates(templates), toolCalls: [] };
+    }
+
+    return {
+      content: [
+        'The assistant is running in offline rule-based mode (no language model configured). I can:',
+        '- Generate a facility layout: "Generate a sterile vial filling facility for 500L batches"',
+        '- Estimate costs: "What does this layout cost in EUR?"',
+        '- Add rooms from the knowledge graph: "Add Gowning Room and Material Airlock"',
+        '- Show connections of a room: "What can connect to the Material Airlock?"',
+        '- List available rooms: "Which rooms are available?"'
+      ].join('\n'),
+      toolCalls: []
+    };
+  }
+
+  private toolCall(name: string, args: Record<string, unknown>): LLMCompletion {
+    return {
+      content: '',
+      toolCalls: [{ id: `rule-based-${name}`, name, arguments: JSON.stringify(args) }]
+    };
+  }
+
+  private async loadTemplates(): Promise<NodeTemplate[]> {
+    try {
+      return await this.getTemplates();
+    } catch (error) {
+      console.error('Rule-based assistant could not load node templates:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Find the templates mentioned in the question. Longest names are matched
+   * first so "Material Airlock" wins over "Airlock".
+   */
+  private matchTemplates(question: string, templates: NodeTemplate[]): NodeTemplate[] {
+    const matched: NodeTemplate[] = [];
+    let remaining = question.toLowerCase();
+
+    [...templates]
+      .sort((a, b) => b.name.length - a.name.length)
+      .forEach(template => {
+        const name = template.name.toLowerCase();
+        const shortName = name.replace(/\s*\(.*\)\s*$/, '');
+        const hit = remaining.includes(name) ? name : shortName && remaining.includes(shortName) ? shortName : null;
+        if (hit) {
+          matched.push(template);
+          remaining = remaining.replace(hit, ' ');
+        }
+      });
+
+    return matched;
+  }
+
+  private buildAddNodeResponse(question: string, templates: NodeTemplate[]): string {
+    const matched = this.matchTemplates(question, templates);
+
+    if (matched.length === 0) {
+      const examples = templates.slice(0, 8).map(t => t.name).join(', ');
+      return templates.length > 0
+        ? `I could not match that to a room in the knowledge graph. Available rooms include: ${examples}.`
+        : 'I could not load room templates from the knowledge graph, so no rooms can be added right now.';
+    }
+
+    const actions = matched.map((template, index) => ({
+      type: 'add_node',
+      label: `Add ${template.name}`,
+      data: {
+        nodeTemplate: template,
+        position: { x: 100 + index * 200, y: 100 }
+      }
+    }));
+
+    return [
+      `Ready to add ${matched.map(t => t.name).join(', ')} from the knowledge graph.`,
+      '```json',
+      JSON.stringify({ actions }, null, 2),
+      '```'
+    ].join('\n');
+  }
+
+  private listTemplates(templates: NodeTemplate[]): string {
+    const byCategory = new Map<string, string[]>();
+    templates.forEach(template => {
+      const names = byCategory.get(template.category) || [];
+      names.push(template.cleanroomClass ? `${template.name} (Class ${template.cleanroomClass})` : template.name);
+      byCategory.set(template.category, names);
+    });
+
+    return [
+      `The knowledge graph defines ${templates.length} room types:`,
+      ...[...byCategory.entries()].map(([category, names]) => `**${category}:** ${names.join(', ')}`)
+    ].join('\n');
+  }
+
+  /**
+   * Turn the tool results of the previous turn into a plain-language answer
+   */
+  private summarizeToolResults(messages: LLMMessage[]): string {
+    const toolNames = new Map<string, string>();
+    messages.forEach(message => {
+      if (message.role === 'assistant') {
+        (message.toolCalls || []).forEach(call => toolNames.set(call.id, call.name));
+      }
+    });
+
+    const lines = messages
+      .filter((message): message is Extract<LLMMessage, { role: 'tool' }> => message.role === 'tool')
+      .filter(message => toolNames.has(message.toolCallId))
+      .map(message => {
+        const name = toolNames.get(message.toolCallId);
+        let result: any;
+        try {
+          result = JSON.parse(message.content);
+        } catch {
+          result = { success: false, error: message.content };
+        }
+
+        if (!result.success) {
+          return `The ${name} step failed: ${result.error || 'unknown error'}.`;
+        }
+
+        if (name === 'generate_layout') {
+          const layout = result.layout;
+          return [
+            `I generated a layout with ${layout.roomCount} rooms and ${layout.doorCount} doors` +
+            `${layout.totalArea ? ` (about ${Math.round(layout.totalArea)} m²)` : ''}` +
+            `${layout.complianceScore !== undefined ? `, compliance score ${layout.complianceScore}/100` : ''}.`,
+            ...(layout.seed !== undefined ? [`Layout seed: ${layout.seed} (ask again with "seed ${layout.seed}" to reproduce it).`] : []),
+            ...(layout.warnings || []).map((w: string) => `- ⚠️ ${w}`),
+            'Use "Apply Generated Layout" to place it on the canvas.'
+          ].join('\n');
+        }
+
+        if (name === 'calculate_cost') {
+          const estimate = result.estimate;
+          const format = (value: number) => `${Math.round(value).toLocaleString('en-US')} ${estimate.currency}`;
+          return [
+            `Estimated cost: **${format(estimate.total)}** (subtotal ${format(estimate.subtotal)} + contingency ${format(estimate.contingency)}).`,
+            ...estimate.breakdown.map((room: any) => `- ${room.room} (${room.area}, Class ${room.class}): ${format(room.cost)}`),
+            estimate.explanation
+          ].join('\n');
+        }
+
+        return `The ${name} step returned ${result.recordCount ?? 0} record(s).`;
+      });
+
+    return lines.join('\n\n') || 'Done.';
+  }
+}
+
+// ============================================
+// FACTORY
+// ============================================
+
+/**
+ * Pick the chat provider from the environment:
+ *   LLM_PROVIDER = openai | anthropic | local | rule-based
+ *   LLM_MODEL, LLM_BASE_URL (local server), LLM_API_KEY (local server, optional)
+ * Without LLM_PROVIDER the first configured API key wins, falling back to the
+ * rule-based assistant so the chat keeps working without any LLM.
+ */
+export function createLLMProvider(
+  getTemplates: () => Promise<NodeTemplate[]>,
+  env: NodeJS.ProcessEnv = process.env
+): LLMProvider {
+  const type = (env.LLM_PROVIDER?.toLowerCase() ||
+    (env.OPENAI_API_KEY ? 'openai' : env.ANTHROPIC_API_KEY ? 'anthropic' : 'rule-based')) as LLMProviderType;
+
+  switch (type) {
+    case 'openai':
+      if (!env.OPENAI_API_KEY) {
+        throw new Error('LLM_PROVIDER=openai requires OPENAI_API_KEY');
+      }
+      return new OpenAIProvider({ apiKey: env.OPENAI_API_KEY, model: env.LLM_MODEL || DEFAULT_OPENAI_MODEL });
+
+    case 'anthropic':
+      if (!env.ANTHROPIC_API_KEY) {
+        throw new Error('LLM_PROVIDER=anthropic requires ANTHROPIC_API_KEY');
+      }
+      return new AnthropicProvider({ apiKey: env.ANTHROPIC_API_KEY, model: env.LLM_MODEL || DEFAULT_ANTHROPIC_MODEL });
+
+    case 'local':
+      if (!env.LLM_BASE_URL) {
+        throw new Error('LLM_PROVIDER=local requires LLM_BASE_URL (e.g. http://localhost:11434/v1)');
+      }
+      return new OpenAIProvider({
+        name: 'local',
+        apiKey: env.LLM_API_KEY,
+        baseURL: env.LLM_BASE_URL,
+        model: env.LLM_MODEL || DEFAULT_LOCAL_MODEL
+      });
+
+    case 'rule-based':
+      return new RuleBasedProvider(getTemplates);
+
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${env.LLM_PROVIDER}" (expected openai, anthropic, local or rule-based)`);
+  }
+}
@@ -0,0 +1,356 @@
+import {
+  LayoutData,
+  LayoutLevel,
+  ShapeProperties,
+  RoomDataSheet,
+  RoomDataSheetAdjacentRoom,
+  RoomDataSheetDoor,
+  RoomDataSheetReference,
+  RoomDataSheetReport,
+  RoomDataSheetUtility
+} from '../types';
+import GMPKnowledgeService from './gmpKnowledgeService';
+import { getRelationshipsByType, getTemplateById } from '../config/nodeTemplates';
+import { EQUIPMENT_CATALOG } from '../config/costConfiguration';
+
+// Same assumption as the layout designer when its canvas scale is unknown
+export const DEFAULT_PIXELS_PER_METER = 100;
+
+// Rooms whose edges are within this distance (canvas pixels) share a wall
+const SHARED_WALL_TOLERANCE = 3;
+
+const SEVERITY_ORDER = { critical: 0, major: 1, minor: 2 };
+
+export type RoomDataSheetLayout = Pick<LayoutData, 'name' | 'shapes'> &
+  Partial<Pick<LayoutData, 'doorConnections' | 'doorPlacements' | 'levels'>>;
+
+export interface RoomDataSheetOptions {
+  layoutId?: string;
+  shapeIds?: string[]; // Default: every room of the layout
+  pixelsPerMeter?: number;
+}
+
+const round = (value: number, decimals = 2): number => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Level a room sits on; rooms without a known level belong to the first level
+ */
+const getRoomLevel = (room: ShapeProperties, layout: RoomDataSheetLayout): LayoutLevel | undefined => {
+  const levels = layout.levels || [];
+  return levels.find(level => level.id === room.levelId) || levels[0];
+};
+
+/**
+ * Two rooms share a wall when their bounding boxes touch along an edge
+ */
+const sharesWall = (a: ShapeProperties, b: ShapeProperties): boolean => {
+  const overlapX = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const overlapY = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  const touchesX = Math.abs(a.x + a.width - b.x) <= SHARED_WALL_TOLERANCE || Math.abs(b.x + b.width - a.x) <= SHARED_WALL_TOLERANCE;
+  const touchesY = Math.abs(a.y + a.height - b.y) <= SHARED_WALL_TOLERANCE || Math.abs(b.y + b.height - a.y) <= SHARED_WALL_TOLERANCE;
+
+  return (touchesX && overlapY > SHARED_WALL_TOLERANCE) || (touchesY && overlapX > SHARED_WALL_TOLERANCE);
+};
+
+/**
+ * Every door of a room, from door placements (walls) and door connections (edges)
+ */
+const getRoomDoors = (room: ShapeProperties, layout: RoomDataSheetLayout): RoomDataSheetDoor[] => {
+  const names = new Map(layout.shapes.map(shape => [shape.id, shape.name]));
+  const doors: RoomDataSheetDoor[] = [];
+
+  const direction = (
+    flowDirection: 'unidirectional' | 'bidirectional',
+    sourceId: string
+  ): RoomDataSheetDoor['direction'] => {
+    if (flowDirection === 'bidirectional') return 'both';
+    return sourceId === room.id ? 'out' : 'in';
+  };
+
+  (layout.doorPlacements || [])
+    .filter(door => door.shape1Id === room.id || door.shape2Id === room.id)
+    .forEach(door => {
+      const otherId = door.shape1Id === room.id ? door.shape2Id : door.shape1Id;
+      const sourceId = door.unidirectionalDirection === 'fromSecondToFirst' ? door.shape2Id : door.shape1Id;
+      doors.push({
+        id: door.id,
+        kind: 'placement',
+        toRoomId: otherId,
+        toRoomName: names.get(otherId) || otherId,
+        flowType: door.flowType,
+        flowDirection: door.flowDirection,
+        direction: direction(door.flowDirection, sourceId),
+        widthPx: door.width
+      });
+    });
+
+  (layout.doorConnections || [])
+    .filter(door => door.fromShape.shapeId === room.id || door.toShape.shapeId === room.id)
+    .forEach(door => {
+      const otherId = door.fromShape.shapeId === room.id ? door.toShape.shapeId : door.fromShape.shapeId;
+      const sourceId = door.unidirectionalDirection === 'fromSecondToFirst' ? door.toShape.shapeId : door.fromShape.shapeId;
+      doors.push({
+        id: door.id,
+        kind: 'connection',
+        toRoomId: otherId,
+        toRoomName: names.get(otherId) || otherId,
+        flowType: door.flowType,
+        flowDirection: door.flowDirection,
+        direction: direction(door.flowDirection, sourceId),
+        doorType: door.doorType
+      });
+    });
+
+  return doors;
+};
+
+const getAdjacentRooms = (
+  room: ShapeProperties,
+  layout: RoomDataSheetLayout,
+  doors: RoomDataSheetDoor[]
+): RoomDataSheetAdjacentRoom[] =>
+  layout.shapes
+    .filter(other => other.id !== room.id)
+    .map(other => ({ other, wall: getRoomLevel(other, layout) === getRoomLevel(room, layout) && sharesWall(room, other), doorIds: doors.filter(d => d.toRoomId === other.id).map(d => d.id) }))
+    .filter(({ wall, doorIds }) => wall || doorIds.length > 0)
+    .map(({ other, wall, doorIds }) => ({
+      id: other.id,
+      name: other.name,
+      cleanroomClass: other.cleanroomClass,
+      pressureSetpoint: other.pressureSetpoint,
+      pressureDifferential: room.pressureSetpoint !== undefined && other.pressureSetpoint !== undefined
+        ? room.pressureSetpoint - other.pressureSetpoint
+        : undefined,
+      sharesWall: wall,
+      doorIds
+    }));
+
+/**
+ * Utilities the room needs: SHARES_UTILITY relations of its functional area
+ * template, plus classified air supply for graded cleanrooms
+ */
+const getRequiredUtilities = (room: ShapeProperties, templateId?: string): RoomDataSheetUtility[] => {
+  const utilities: RoomDataSheetUtility[] = [];
+
+  if (templateId) {
+    getRelationshipsByType(templateId, 'SHARES_UTILITY').forEach(rel => {
+      const utilityId = rel.fromTemplateId === templateId ? rel.toTemplateId : rel.fromTemplateId;
+      const utility = getTemplateById(utilityId);
+      utilities.push({
+        name: utility?.name || utilityId,
+        reason: rel.relationship.reason,
+        source: 'template'
+      });
+    });
+  }
+
+  if (room.cleanroomClass && room.cleanroomClass !== 'CNC' && !utilities.some(u => /hvac/i.test(u.name))) {
+    utilities.push({
+      name: 'HVAC (HEPA-filtered supply air)',
+      reason: `Grade ${room.cleanroomClass} requires classified air supply and a maintained pressure cascade`,
+      source: 'cleanroom-class'
+    });
+  }
+
+  return utilities;
+};
+
+const getRegulatoryReferences = (room: ShapeProperties): RoomDataSheetReference[] =>
+  GMPKnowledgeService.getInstance()
+    .getAllRules()
+    .filter(rule => rule.applicableAreas.includes(room.category))
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity])
+    .map(rule => ({
+      ruleId: rule.id,
+      source: rule.source,
+      section: rule.section,
+      requirement: rule.requirement,
+      severity: rule.severity
+    }));
+
+/**
+ * Compile User Requirement Specification room data sheets for one, several or
+ * every room of a layout
+ */
+export function buildRoomDataSheets(
+  layout: RoomDataSheetLayout,
+  options: RoomDataSheetOptions = {}
+): RoomDataSheetReport {
+  const pixelsPerMeter = options.pixelsPerMeter && options.pixelsPerMeter > 0
+    ? options.pixelsPerMeter
+    : DEFAULT_PIXELS_PER_METER;
+
+  const sheets = layout.shapes
+    .map((room, index) => ({ room, roomNumber: index + 1 }))
+    .filter(({ room }) => !options.shapeIds || options.shapeIds.includes(room.id))
+    .map(({ room, roomNumber }): RoomDataSheet => {
+      const templateId: string | undefined = room.assignedNodeId || room.customProperties?.templateId;
+      const template = templateId ? getTemplateById(templateId) : undefined;
+      const doors = getRoomDoors(room, layout);
+      const level = (layout.levels || []).length > 1 ? getRoomLevel(room, layout) : undefined;
+
+      return {
+        roomNumber,
+        roomId: room.id,
+        name: room.name,
+        category: room.category,
+        level: level ? { id: level.id, name: level.name, elevation: level.elevation } : undefined,
+        functionalArea: templateId
+          ? { id: templateId, name: room.assignedNodeName || template?.name || templateId }
+          : undefined,
+        area: {
+          squareMeters: round((room.area || room.width * room.height) / (pixelsPerMeter * pixelsPerMeter)),
+          pixels: room.area || room.width * room.height
+        },
+        dimensions: {
+          widthM: round(room.width / pixelsPerMeter),
+          heightM: round(room.height / pixelsPerMeter)
+        },
+        cleanroomClass: room.cleanroomClass,
+        pressure: { regime: room.pressureRegime, setpointPa: room.pressureSetpoint },
+        temperature: room.temperatureRange,
+        humidity: room.humidityRange,
+        adjacentRooms: getAdjacentRooms(room, layout, doors),
+        doors,
+        equipment: (room.equipment || []).map(id => {
+          const item = EQUIPMENT_CATALOG.find(e => e.id === id);
+          return { id, name: item?.name || id, type: item?.type };
+        }),
+        utilities: getRequiredUtilities(room, templateId),
+        regulatoryReferences: getRegulatoryReferences(room),
+        complianceIssues: room.complianceIssues || []
+      };
+    });
+
+  return {
+    layoutId: options.layoutId,
+    layoutName: layout.name,
+    generatedAt: new Date().toISOString(),
+    pixelsPerMeter,
+    sheets
+  };
+}
+
+const escapeHtml = (value: unknown): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+const table = (headers: string[], rows: unknown[][], empty: string): string =>
+  rows.length === 0
+    ? `<p class="empty">${escapeHtml(empty)}</p>`
+    : `<table><thead><tr>${headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead>` +
+      `<tbody>${rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+
+const renderSheet = (sheet: RoomDataSheet, report: RoomDataSheetReport): string => {
+  const pressure = `${capitalize(sheet.pressure.regime || 'neutral')}` +
+    (sheet.pressure.setpointPa !== undefined ? ` (${sheet.pressure.setpointPa > 0 ? '+' : ''}${sheet.pressure.setpointPa} Pa)` : '');
+  const signedPa = (value?: number) => (value === undefined ? '-' : `${value > 0 ? '+' : ''}${value} Pa`);
+
+  return `
+  <section class="sheet">
+    <header>
+      <div>
+        <div class="label">Room Data Sheet - User Requirement Specification</div>
+        <h1>${escapeHtml(sheet.roomNumber)}. ${escapeHtml(sheet.name)}</h1>
+      </div>
+      <div class="meta">
+        <div><span class="label">Layout</span> ${escapeHtml(report.layoutName)}</div>
+        ${sheet.level ? `<div><span class="label">Level</span> ${escapeHtml(sheet.level.name)} (FFL ${sheet.level.elevation >= 0 ? '+' : ''}${sheet.level.elevation.toFixed(2)} m)</div>` : ''}
+        <div><span class="label">Room ID</span> ${escapeHtml(sheet.roomId)}</div>
+        <div><span class="label">Generated</span> ${escapeHtml(new Date(report.generatedAt).toLocaleString())}</div>
+      </div>
+    </header>
+
+    <h2>Room Requirements</h2>
+    ${table(['Parameter', 'Requirement'], [
+      ['Category', sheet.category],
+      ['Functional area', sheet.functionalArea ? sheet.functionalArea.name : 'Not assigned'],
+      ['Floor area', `${sheet.area.squareMeters} m²`],
+      ['Dimensions', `${sheet.dimensions.widthM} m × ${sheet.dimensions.heightM} m`],
+      ['Cleanroom class', sheet.cleanroomClass ? `Grade ${sheet.cleanroomClass}` : 'Not specified'],
+      ['Pressure regime', pressure],
+      ['Temperature', sheet.temperature ? `${sheet.temperature.min}–${sheet.temperature.max} °${sheet.temperature.unit}` : 'Not specified'],
+      ['Relative humidity', sheet.humidity ? `${sheet.humidity.min}–${sheet.humidity.max} % RH` : 'Not specified']
+    ], '')}
+
+    <h2>Adjacent Rooms</h2>
+    ${table(['Room', 'Class', 'Setpoint', 'Differential', 'Shared wall', 'Doors'], sheet.adjacentRooms.map(adjacent => [
+      adjacent.name,
+      adjacent.cleanroomClass || '-',
+      signedPa(adjacent.pressureSetpoint),
+      signedPa(adjacent.pressureDifferential),
+      adjacent.sharesWall ? 'Yes' : 'No',
+      adjacent.doorIds.length
+    ]), 'No adjacent rooms')}
+
+    <h2>Doors</h2>
+    ${table(['To room', 'Flow type', 'Direction', 'Door type'], sheet.doors.map(door => [
+      door.toRoomName,
+      capitalize(door.flowType),
+      door.direction === 'both' ? 'Bidirectional' : door.direction === 'in' ? 'One-way, into this room' : 'One-way, out of this room',
+      door.doorType || '-'
+    ]), 'No doors defined')}
+
+    <h2>Equipment</h2>
+    ${table(['Equipment', 'Type'], sheet.equipment.map(item => [item.name, item.type || '-']), 'No equipment assigned')}
+
+    <h2>Required Utilities</h2>
+    ${table(['Utility', 'Reason'], sheet.utilities.map(utility => [utility.name, utility.reason]), 'No utility requirements recorded')}
+
+    <h2>Regulatory References</h2>
+    ${table(['Source', 'Section', 'Severity', 'Requirement'], sheet.regulatoryReferences.map(ref => [
+      ref.source,
+      ref.section,
+      capitalize(ref.severity),
+      ref.requirement
+    ]), 'No regulatory rules apply to this room category')}
+
+    ${sheet.complianceIssues.length > 0 ? `<h2>Open Compliance Issues</h2><ul>${sheet.complianceIssues.map(issue => `<li>${escapeHtml(issue)}</li>`).join('')}</ul>` : ''}
+
+    <table class="signoff">
+      <tr><th>Prepared by</th><th>Reviewed by</th><th>Approved by (QA)</th></tr>
+      <tr><td>Name / Date:</td><td>Name / Date:</td><td>Name / Date:</td></tr>
+    </table>
+  </section>`;
+};
+
+/**
+ * Printable HTML of the room data sheets, one sheet per page
+ */
+export function renderRoomDataSheetsHtml(report: RoomDataSheetReport): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Room Data Sheets - ${escapeHtml(report.layoutName)}</title>
+  <style>
+    body { font-family: Arial, Helvetica, sans-serif; font-size: 11px; color: #222; margin: 24px; }
+    .sheet { page-break-after: always; margin-bottom: 40px; }
+    .sheet:last-child { page-break-after: auto; }
+    header { display: flex; justify-content: space-between; border-bottom: 2px solid #222; padding-bottom: 8px; margin-bottom: 12px; }
+    h1 { font-size: 20px; margin: 4px 0 0; }
+    h2 { font-size: 13px; margin: 16px 0 6px; border-bottom: 1px solid #999; }
+    .label { color: #666; font-size: 9px; text-transform: uppercase; }
+    .meta { text-align: right; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { border: 1px solid #bbb; padding: 4px 6px; text-align: left; vertical-align: top; }
+    th { background: #eee; }
+    .empty { color: #888; font-style: italic; }
+    .signoff { margin-top: 24px; }
+    .signoff td { height: 36px; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+${report.sheets.map(sheet => renderSheet(sheet, report)).join('\n')}
+</body>
+</html>`;
+}
@@ -0,0 +1,186 @@
+import { NODE_TEMPLATES, TEMPLATE_RELATIONSHIPS } from '../config/nodeTemplates';
+import { SpatialRelationshipModel } from '../models/SpatialRelationship';
+import { RuleSetModel, RuleSetPinLabel } from '../models/RuleSet';
+import GMPKnowledgeService from './gmpKnowledgeService';
+import {
+  RegulatoryRule,
+  RuleSet,
+  RuleSetContent,
+  RuleSetDiff,
+  RuleSetDiffSection,
+  RuleSetReference,
+  SpatialRelationship,
+  TemplateRelationshipRule
+} from '../types';
+
+/**
+ * The rule base validation runs against: node templates, template adjacency rules, knowledge
+ * graph relationships and regulatory rules. Either the live configuration or a frozen rule set.
+ */
+export class RuleBase {
+  constructor(readonly content: RuleSetContent) {}
+
+  getTemplateById(templateId: string): RuleSetContent['templates'][number] | undefined {
+    return this.content.templates.find(template => template.id === templateId);
+  }
+
+  getRelationshipsForTemplate(templateId: string): TemplateRelationshipRule[] {
+    return this.content.templateRelationships.filter(rule =>
+      rule.fromTemplateId === templateId || rule.toTemplateId === templateId
+    );
+  }
+
+  getRelationshipsByType(templateId: string, type: SpatialRelationship['type']): TemplateRelationshipRule[] {
+    return this.getRelationshipsForTemplate(templateId).filter(rule => rule.relationship.type === type);
+  }
+
+  get regulatoryRules(): RegulatoryRule[] {
+    return this.content.regulatoryRules;
+  }
+}
+
+const spatialRelationshipModel = new SpatialRelationshipModel();
+const ruleSetModel = new RuleSetModel();
+
+// Rule sets never change once created, so their parsed content can be kept
+const ruleBaseCache = new Map<number, RuleBase>();
+
+// JSON round trip: drops undefined properties so snapshots compare and hash consistently
+const plain = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/**
+ * Live rule base from the static configuration; knowledge graph relationships are only
+ * included when given, since validation does not need them
+ */
+export const getLiveRuleSetContent = (relationships: SpatialRelationship[] = []): RuleSetContent => plain({
+  templates: NODE_TEMPLATES.map(({ id, name, category, cleanroomClass }) => ({ id, name, category, cleanroomClass })),
+  templateRelationships: TEMPLATE_RELATIONSHIPS,
+  relationships,
+  regulatoryRules: GMPKnowledgeService.getInstance().getAllRules()
+});
+
+/**
+ * Everything a rule set freezes, including the knowledge graph relationships from Neo4j
+ */
+export async function captureLiveRuleSet(): Promise<RuleSetContent> {
+  return getLiveRuleSetContent(await spatialRelationshipModel.getAllRelationships());
+}
+
+export const toRuleSetReference = (ruleSet: RuleSet): RuleSetReference =>
+  ({ version: ruleSet.version, name: ruleSet.name, status: ruleSet.status });
+
+const ruleBaseOf = (ruleSet: RuleSet): RuleBase => {
+  let ruleBase = ruleBaseCache.get(ruleSet.version);
+  if (!ruleBase) {
+    ruleBase = new RuleBase(ruleSet.content!);
+    ruleBaseCache.set(ruleSet.version, ruleBase);
+  }
+  return ruleBase;
+};
+
+export interface ResolvedRuleBase {
+  ruleBase: RuleBase;
+  ruleSet: RuleSetReference | null; // null: the live rule base
+}
+
+/**
+ * Rules to validate with: the requested version, else the version the diagram or layout is pinned
+ * to, else the latest released rule set, else the live rule base. Null when a requested or pinned
+ * version does not exist.
+ */
+export async function resolveRuleBase(
+  options: { version?: number | null; pinnedTo?: { label: RuleSetPinLabel; id: string } } = {}
+): Promise<ResolvedRuleBase | null> {
+  const fromVersion = async (version: number): Promise<ResolvedRuleBase | null> => {
+    const ruleSet = await ruleSetModel.getRuleSet(version);
+    return ruleSet ? { ruleBase: ruleBaseOf(ruleSet), ruleSet: toRuleSetReference(ruleSet) } : null;
+  };
+
+  if (options.version !== null && options.version !== undefined) {
+    return fromVersion(options.version);
+  }
+
+  try {
+    const pinnedVersion = options.pinnedTo
+      ? await ruleSetModel.getPinnedVersion(options.pinnedTo.label, options.pinnedTo.id)
+      : null;
+    if (pinnedVersion !== null && pinnedVersion !== undefined) {
+      return fromVersion(pinnedVersion);
+    }
+
+    const released = await ruleSetModel.getLatestReleased();
+    if (released) {
+      return { ruleBase: ruleBaseOf(released), ruleSet: toRuleSetReference(released) };
+    }
+  } catch (error) {
+    // Validation keeps working without the database, against the live rules
+    console.warn('⚠️  Could not look up the rule set to validate with, using the live rules:', error);
+  }
+
+  return { ruleBase: new RuleBase(getLiveRuleSetContent()), ruleSet: null };
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Dotted paths of the fields that differ, e.g. "relationship.priority"
+const changedFields = (before: unknown, after: unknown, prefix = ''): string[] => {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+    return keys.flatMap(key => changedFields(before[key], after[key], `${prefix}${key}.`));
+  }
+  return JSON.stringify(before) === JSON.stringify(after) ? [] : [prefix.slice(0, -1)];
+};
+
+// Keys made unique by numbering repeats, so duplicate rules are still compared one to one
+const keyed = <T>(items: T[], keyOf: (item: T) => string): Map<string, T> => {
+  const seen = new Map<string, number>();
+  return new Map(items.map(item => {
+    const key = keyOf(item);
+    const count = (seen.get(key) || 0) + 1;
+    seen.set(key, count);
+    return [count > 1 ? `${key}#${count}` : key, item];
+  }));
+};
+
+const diffSection = <T>(from: T[], to: T[], keyOf: (item: T) => string): RuleSetDiffSection<T> => {
+  const before = keyed(from, keyOf);
+  const after = keyed(to, keyOf);
+
+  return {
+    added: [...after].filter(([key]) => !before.has(key)).map(([, item]) => item),
+    removed: [...before].filter(([key]) => !after.has(key)).map(([, item]) => item),
+    changed: [...after].flatMap(([key, item]) => {
+      const previous = before.get(key);
+      const fields = previous === undefined ? [] : changedFields(previous, item);
+      return fields.length > 0 ? [{ key, fields, before: previous!, after: item }] : [];
+    })
+  };
+};
+
+export const templateRelationshipKey = (rule: TemplateRelationshipRule): string =>
+  `${rule.fromTemplateId}-${rule.relationship.type}->${rule.toTemplateId}`;
+
+/**
+ * What changed from one rule base to another, section by section
+ */
+export function diffRuleSets(
+  from: { ruleSet: RuleSetReference | null; content: RuleSetContent },
+  to: { ruleSet: RuleSetReference | null; content: RuleSetContent }
+): RuleSetDiff {
+  const sections = {
+    templates: diffSection(from.content.templates, to.content.templates, template => template.id),
+    templateRelationships: diffSection(from.content.templateRelationships, to.content.templateRelationships, templateRelationshipKey),
+    relationships: diffSection(from.content.relationships, to.content.relationships, relationship => relationship.id),
+    regulatoryRules: diffSection(from.content.regulatoryRules, to.content.regulatoryRules, rule => rule.id)
+  };
+
+  return {
+    from: from.ruleSet,
+    to: to.ruleSet,
+    identical: Object.values(sections).every(section =>
+      section.added.length === 0 && section.removed.length === 0 && section.changed.length === 0
+    ),
+    ...sections
+  };
+}
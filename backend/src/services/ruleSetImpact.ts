@@ -0,0 +1,142 @@
+import { RuleSetModel } from '../models/RuleSet';
+import GMPKnowledgeService from './gmpKnowledgeService';
+import { validateDiagram } from './diagramValidation';
+import { ResolvedRuleBase } from './ruleBase';
+import {
+  Diagram,
+  FunctionalArea,
+  LayoutData,
+  LayoutVerdict,
+  SpatialRelationship,
+  User,
+  VerdictChange,
+  VerdictChangeReport,
+  VerdictFinding
+} from '../types';
+
+const ruleSetModel = new RuleSetModel();
+
+type LayoutDoors = Partial<Pick<LayoutData, 'doorConnections' | 'doorPlacements'>>;
+
+/**
+ * Diagram view of a saved layout: rooms become functional areas (carrying the template they are
+ * assigned to) and every door becomes an adjacency plus a material or personnel flow
+ */
+export function layoutToDiagram(id: string, data: Pick<LayoutData, 'name' | 'shapes'> & LayoutDoors): Diagram {
+  const nodes: Array<FunctionalArea & { templateId?: string }> = (data.shapes || []).map(shape => ({
+    id: shape.id,
+    name: shape.name,
+    category: shape.category,
+    cleanroomClass: shape.cleanroomClass,
+    x: shape.x,
+    y: shape.y,
+    width: shape.width,
+    height: shape.height,
+    templateId: shape.assignedNodeId || shape.customProperties?.templateId
+  }));
+
+  const doors = [
+    ...(data.doorPlacements || []).map(door => ({ id: door.id, fromId: door.shape1Id, toId: door.shape2Id, flowType: door.flowType })),
+    ...(data.doorConnections || []).map(door => ({
+      id: door.id,
+      fromId: door.fromShape.shapeId,
+      toId: door.toShape.shapeId,
+      flowType: door.flowType
+    }))
+  ];
+
+  const relationships = doors.flatMap((door): SpatialRelationship[] => [
+    { id: `${door.id}-adjacent`, type: 'ADJACENT_TO', fromId: door.fromId, toId: door.toId, priority: 5, reason: 'Connected by a door' },
+    {
+      id: `${door.id}-flow`,
+      type: door.flowType === 'personnel' ? 'PERSONNEL_FLOW' : 'MATERIAL_FLOW',
+      fromId: door.fromId,
+      toId: door.toId,
+      priority: 5,
+      reason: `${door.flowType} door`,
+      flowType: door.flowType === 'material' ? 'raw_material' : door.flowType
+    }
+  ]);
+
+  return { id, name: data.name, nodes, relationships, createdAt: null, updatedAt: null };
+}
+
+/**
+ * Pass/fail verdict of a layout under one rule base. It fails on any validation error or any
+ * failed critical regulation; warnings are listed but do not change the verdict.
+ */
+export async function evaluateLayoutVerdict(layoutId: string, data: LayoutData, resolved: ResolvedRuleBase): Promise<LayoutVerdict> {
+  const diagram = layoutToDiagram(layoutId, data);
+  const validation = validateDiagram(diagram.nodes, diagram.relationships, resolved.ruleBase);
+  const { results } = await GMPKnowledgeService.getInstance().evaluateRules(diagram, resolved.ruleBase.regulatoryRules);
+
+  const findings: VerdictFinding[] = [
+    ...validation.violations.map(violation => ({
+      id: violation.id,
+      source: 'validation' as const,
+      severity: violation.type,
+      blocking: violation.type === 'ERROR',
+      message: violation.message
+    })),
+    ...results.filter(result => !result.passed).map(result => ({
+      id: result.ruleId,
+      source: 'regulatory' as const,
+      severity: result.severity,
+      blocking: result.severity === 'critical',
+      message: result.message
+    }))
+  ];
+
+  return {
+    layoutId,
+    verdict: findings.some(finding => finding.blocking) ? 'fail' : 'pass',
+    ruleSet: resolved.ruleSet,
+    findings,
+    evaluatedAt: new Date().toISOString()
+  };
+}
+
+const findingKey = (finding: VerdictFinding): string => `${finding.source}:${finding.id}`;
+
+/**
+ * Re-evaluate the saved layouts `user` may open under two rule bases and report those whose
+ * verdict changes, with the findings that appear or disappear
+ */
+export async function buildVerdictChangeReport(from: ResolvedRuleBase, to: ResolvedRuleBase, user: User): Promise<VerdictChangeReport> {
+  const layouts = await ruleSetModel.getLayoutsForVerdicts(user);
+  const changed: VerdictChange[] = [];
+  const failedToEvaluate: VerdictChangeReport['failedToEvaluate'] = [];
+
+  for (const layout of layouts) {
+    try {
+      const data: LayoutData = JSON.parse(layout.data);
+      const before = await evaluateLayoutVerdict(layout.id, data, from);
+      const after = await evaluateLayoutVerdict(layout.id, data, to);
+      if (before.verdict === after.verdict) continue;
+
+      const beforeKeys = new Set(before.findings.map(findingKey));
+      const afterKeys = new Set(after.findings.map(findingKey));
+      changed.push({
+        layoutId: layout.id,
+        name: layout.name,
+        projectId: layout.projectId,
+        pinnedVersion: layout.pinnedVersion,
+        before: before.verdict,
+        after: after.verdict,
+        newFindings: after.findings.filter(finding => !beforeKeys.has(findingKey(finding))),
+        resolvedFindings: before.findings.filter(finding => !afterKeys.has(findingKey(finding)))
+      });
+    } catch (error: any) {
+      failedToEvaluate.push({ layoutId: layout.id, name: layout.name, error: error.message || String(error) });
+    }
+  }
+
+  return {
+    from: from.ruleSet,
+    to: to.ruleSet,
+    evaluated: layouts.length - failedToEvaluate.length,
+    changed,
+    failedToEvaluate,
+    generatedAt: new Date().toISOString()
+  };
+}
@@ -7,6 +7,7 @@ import {
   GhostSuggestion,
   NodeTemplate
 } from '../types';
+import { createSeededRandom, RandomSource, resolveSeed } from '../utils/seededRandom';
 
 /**
  * Spatial Reasoning Service
@@ -94,9 +95,11 @@ export class SpatialReasoningService {
     options?: {
       preserveExisting?: boolean;
       layoutStyle?: 'linear' | 'clustered' | 'circular' | 'grid';
+      seed?: number;
     }
   ): Promise<Map<string, { x: number; y: number }>> {
     const positions = new Map<string, { x: number; y: number }>();
+    const random = createSeededRandom(resolveSeed(options?.seed));
 
     // Initialize positions
     if (options?.layoutStyle === 'grid') {
@@ -107,11 +110,11 @@ export class SpatialReasoningService {
       this.initializeLinearLayout(nodes, positions, relationships);
     } else {
       // Clustered (default) - use force-directed
-      this.initializeRandomLayout(nodes, positions);
+      this.initializeRandomLayout(nodes, positions, random);
     }
 
     // Run force-directed simulation
-    const finalPositions = await this.runForceDirectedSimulation(nodes, relationships, positions, options);
+    const finalPositions = await this.runForceDirectedSimulation(nodes, relationships, positions, random, options);
 
     return finalPositions;
   }
@@ -472,6 +475,7 @@ export class SpatialReasoningService {
     nodes: FunctionalArea[],
     relationships: SpatialRelationship[],
     initialPositions: Map<string, { x: number; y: number }>,
+    random: RandomSource,
     options?: any
   ): Promise<Map<string, { x: number; y: number }>> {
     const positions = new Map(initialPositions);
@@ -499,8 +503,14 @@ export class SpatialReasoningService {
           const pos1 = positions.get(node1.id)!;
           const pos2 = positions.get(node2.id)!;
 
-          const dx = pos2.x - pos1.x;
-          const dy = pos2.y - pos1.y;
+          let dx = pos2.x - pos1.x;
+          let dy = pos2.y - pos1.y;
+          if (dx === 0 && dy === 0) {
+            // Coincident nodes have no direction to repel along; push them apart at a seeded angle
+            const angle = random() * Math.PI * 2;
+            dx = Math.cos(angle);
+            dy = Math.sin(angle);
+          }
           const distance = Math.sqrt(dx * dx + dy * dy) || 1;
 
           const repulsion = this.REPULSION_STRENGTH / (distance * distance);
@@ -642,13 +652,17 @@ export class SpatialReasoningService {
   }
 
   /**
-   * Initialize random layout
+   * Initialize random layout from the seeded generator
    */
-  private initializeRandomLayout(nodes: FunctionalArea[], positions: Map<string, { x: number; y: number }>): void {
+  private initializeRandomLayout(
+    nodes: FunctionalArea[],
+    positions: Map<string, { x: number; y: number }>,
+    random: RandomSource
+  ): void {
     nodes.forEach(node => {
       positions.set(node.id, {
-        x: this.CANVAS_PADDING + Math.random() * (this.DEFAULT_CANVAS_WIDTH - 2 * this.CANVAS_PADDING),
-        y: this.CANVAS_PADDING + Math.random() * (this.DEFAULT_CANVAS_HEIGHT - 2 * this.CANVAS_PADDING)
+        x: this.CANVAS_PADDING + random() * (this.DEFAULT_CANVAS_WIDTH - 2 * this.CANVAS_PADDING),
+        y: this.CANVAS_PADDING + random() * (this.DEFAULT_CANVAS_HEIGHT - 2 * this.CANVAS_PADDING)
       });
     });
   }
@@ -48,10 +48,44 @@ export interface Diagram {
   name: string;
   nodes: FunctionalArea[];
   relationships: SpatialRelationship[];
+  groups?: NodeGroup[];
+  revision?: number; // Increments on every update; sent back as the ETag
+  projectId?: string | null;
+  ruleSetVersion?: number | null; // Released rule set validation is pinned to; unset follows the latest release
   createdAt: string | null;
   updatedAt: string | null;
 }
 
+export interface DiagramDiffEntry {
+  id: string;
+  name: string;
+}
+
+// Differences between two versions of a diagram's areas and relationships
+export interface DiagramDiff {
+  nodes: {
+    added: DiagramDiffEntry[];
+    removed: DiagramDiffEntry[];
+    changed: Array<DiagramDiffEntry & { changes: string[] }>;
+  };
+  relationships: {
+    added: DiagramDiffEntry[];
+    removed: DiagramDiffEntry[];
+    changed: Array<DiagramDiffEntry & { changes: string[] }>;
+  };
+  totalChanges: number;
+}
+
+// Body of a 409 response to a diagram update sent with an outdated If-Match revision
+export interface DiagramSaveConflict {
+  error: string;
+  diagramId: string;
+  expectedRevision: number | null;
+  currentRevision: number;
+  lastModifiedAt: string | null;
+  changes: DiagramDiff; // From the submitted diagram to the one on the server
+}
+
 // Layout Designer Types (for freeform shape-based layouts)
 export interface ShapeProperties {
   id: string;
@@ -65,7 +99,9 @@ export interface ShapeProperties {
   x: number;
   y: number;
   rotation?: number;
+  levelId?: string; // Building level; unset means the first level
   pressureRegime: 'positive' | 'negative' | 'neutral';
+  pressureSetpoint?: number; // Differential pressure setpoint in Pa (relative to ambient)
   temperatureRange: {
     min: number;
     max: number;
@@ -112,6 +148,30 @@ export interface DoorPlacement {
   unidirectionalDirection?: 'fromFirstToSecond' | 'fromSecondToFirst';
 }
 
+// Declared material/personnel/waste route through an ordered list of rooms (shape IDs)
+export interface FlowSequence {
+  id: string;
+  name: string;
+  flowType: 'material' | 'personnel' | 'waste';
+  shapeIds: string[];
+}
+
+// Building level (floor plate); elevation and floor-to-floor height in meters
+export interface LayoutLevel {
+  id: string;
+  name: string;
+  elevation: number;
+  floorToFloorHeight: number;
+}
+
+// Stair, lift, hoist or shaft linking stacked rooms (shape IDs, one per level) across levels
+export interface VerticalConnection {
+  id: string;
+  name: string;
+  type: 'stair' | 'lift' | 'material-hoist' | 'shaft';
+  shapeIds: string[];
+}
+
 export interface LayoutData {
   id: string;
   name: string;
@@ -119,6 +179,10 @@ export interface LayoutData {
   connections: Connection[];
   doorConnections: DoorConnection[];
   doorPlacements: DoorPlacement[];
+  groups?: NodeGroup[]; // Persisted as NodeGroup nodes, not inside the data blob
+  flowSequences?: FlowSequence[];
+  levels?: LayoutLevel[]; // Unset for single-level layouts
+  verticalConnections?: VerticalConnection[];
   canvasSettings: {
     width: number;
     height: number;
@@ -139,13 +203,421 @@ export interface Layout {
   id: string;
   name: string;
   data: LayoutData;
+  revision?: number; // Latest revision number; sent back as the ETag
+  lock?: LayoutLock | null;
+  projectId?: string | null;
+  ruleSetVersion?: number | null; // Released rule set validation is pinned to; unset follows the latest release
   createdAt: string | null;
   updatedAt: string | null;
 }
 
+// Advisory edit lock: tells others that someone is working on a layout until it expires
+export interface LayoutLock {
+  layoutId: string;
+  owner: string; // Display name
+  ownerId: string; // User ID of the holder; the owner name when accounts are disabled
+  note?: string;
+  acquiredAt: string;
+  expiresAt: string;
+}
+
+// Body of a 409 response to a layout save sent with an outdated If-Match revision
+export interface LayoutSaveConflict {
+  error: string;
+  layoutId: string;
+  expectedRevision: number | null;
+  currentRevision: number;
+  currentVersion: string;
+  lastModifiedBy: string;
+  lastModifiedAt: string | null;
+  serverChanges: LayoutDiff | null; // Saved by others since the expected revision; null when that revision is unknown
+  localChanges: LayoutDiff; // What the rejected save would have changed on the current server state
+}
+
+// Immutable snapshot of a layout, written on every save
+export interface LayoutRevision {
+  id: string;
+  layoutId: string;
+  revision: number; // 1-based, increments on every save
+  version: string; // metadata.version of the snapshot
+  author: string;
+  comment: string;
+  shapeCount: number;
+  createdAt: string | null;
+  approval: RevisionApproval;
+  data?: LayoutData; // Omitted from history listings
+}
+
+export interface LayoutRevisionInfo {
+  author?: string;
+  comment?: string;
+}
+
+export type RevisionApprovalStatus = 'pending' | 'approved' | 'changes_requested';
+
+// Reviewer decision on one layout revision
+export interface RevisionApproval {
+  status: RevisionApprovalStatus;
+  reviewer?: string;
+  note?: string;
+  decidedAt?: string | null;
+}
+
+export type ReviewAnchorKind = 'shape' | 'door' | 'wall' | 'canvas';
+
+/**
+ * What a review thread is pinned to. `x`/`y` is the canvas point where the pin was placed;
+ * pins on shapes, doors and walls follow their target and fall back to that point once it is deleted.
+ */
+export interface ReviewAnchor {
+  kind: ReviewAnchorKind;
+  targetId?: string; // Shape, door (connection or placement) or wall ID; unset for canvas pins
+  x: number;
+  y: number;
+  levelId?: string;
+}
+
+export type ReviewThreadStatus = 'open' | 'resolved';
+
+export interface ReviewComment {
+  id: string;
+  threadId: string;
+  author: string;
+  authorId?: string;
+  body: string;
+  mentions: string[]; // @handles in the body, without the @
+  createdAt: string | null;
+}
+
+// Review discussion pinned to a layout; the first comment opens it
+export interface ReviewThread {
+  id: string;
+  layoutId: string;
+  anchor: ReviewAnchor;
+  status: ReviewThreadStatus;
+  revision: number | null; // Layout revision the thread was opened on
+  author: string;
+  createdAt: string | null;
+  resolvedBy?: string;
+  resolvedAt?: string | null;
+  comments: ReviewComment[];
+}
+
+export interface ShapeDiffEntry {
+  id: string;
+  name: string;
+}
+
+export interface DoorDiffEntry {
+  id: string;
+  kind: 'connection' | 'placement';
+  between: [string, string]; // Shape names on either side of the door
+  flowType: string;
+}
+
+// What changed between two layout revisions (GMP change control)
+export interface LayoutDiff {
+  layoutId: string;
+  fromRevision: number;
+  toRevision: number;
+  shapes: {
+    added: ShapeDiffEntry[];
+    removed: ShapeDiffEntry[];
+    moved: Array<ShapeDiffEntry & { from: { x: number; y: number }; to: { x: number; y: number } }>;
+    resized: Array<ShapeDiffEntry & { from: { width: number; height: number }; to: { width: number; height: number } }>;
+    cleanroomClassChanged: Array<ShapeDiffEntry & { from?: string; to?: string }>;
+  };
+  doors: {
+    added: DoorDiffEntry[];
+    removed: DoorDiffEntry[];
+    changed: Array<DoorDiffEntry & { changes: string[] }>;
+  };
+  totalChanges: number;
+}
+
+// Door of a room as seen from that room
+export interface RoomDataSheetDoor {
+  id: string;
+  kind: 'connection' | 'placement';
+  toRoomId: string;
+  toRoomName: string;
+  flowType: 'material' | 'personnel' | 'waste';
+  flowDirection: 'unidirectional' | 'bidirectional';
+  direction: 'in' | 'out' | 'both'; // Flow direction through the door relative to this room
+  doorType?: DoorType;
+  widthPx?: number;
+}
+
+export interface RoomDataSheetAdjacentRoom {
+  id: string;
+  name: string;
+  cleanroomClass?: string;
+  pressureSetpoint?: number; // Pa
+  pressureDifferential?: number; // Pa, this room minus the adjacent room
+  sharesWall: boolean;
+  doorIds: string[];
+}
+
+export interface RoomDataSheetUtility {
+  name: string;
+  reason: string;
+  source: 'template' | 'cleanroom-class' | 'equipment';
+}
+
+export interface RoomDataSheetReference {
+  ruleId: string;
+  source: RegulatoryRule['source'];
+  section: string;
+  requirement: string;
+  severity: RegulatoryRule['severity'];
+}
+
+// Per-room User Requirement Specification (URS) sheet compiled from a layout
+export interface RoomDataSheet {
+  roomNumber: number; // 1-based position in the layout
+  roomId: string;
+  name: string;
+  category: string;
+  level?: { id: string; name: string; elevation: number }; // Multi-level layouts only
+  functionalArea?: { id: string; name: string };
+  area: { squareMeters: number; pixels: number };
+  dimensions: { widthM: number; heightM: number };
+  cleanroomClass?: string;
+  pressure: { regime: ShapeProperties['pressureRegime']; setpointPa?: number };
+  temperature?: ShapeProperties['temperatureRange'];
+  humidity?: ShapeProperties['humidityRange'];
+  adjacentRooms: RoomDataSheetAdjacentRoom[];
+  doors: RoomDataSheetDoor[];
+  equipment: Array<{ id: string; name: string; type?: string }>;
+  utilities: RoomDataSheetUtility[];
+  regulatoryReferences: RoomDataSheetReference[];
+  complianceIssues: string[];
+}
+
+export interface RoomDataSheetReport {
+  layoutId?: string;
+  layoutName: string;
+  generatedAt: string;
+  pixelsPerMeter: number;
+  sheets: RoomDataSheet[];
+}
+
+// ============================================
+// REAL-TIME COLLABORATION TYPES (WebSocket /api/collaboration)
+// ============================================
+
+// Layout collections edited collaboratively; walls and measurements are kept as opaque objects with an ID
+export type CollaborationCollection =
+  | 'levels'
+  | 'shapes'
+  | 'doorConnections'
+  | 'doorPlacements'
+  | 'verticalConnections'
+  | 'walls'
+  | 'measurements';
+
+export interface CollaborationEntity {
+  id: string;
+  [key: string]: any;
+}
+
+export type CollaborationState = Record<CollaborationCollection, CollaborationEntity[]>;
+
+// One edit; updates carry only the changed top-level fields
+export type LayoutOperation =
+  | { kind: 'add'; collection: CollaborationCollection; value: CollaborationEntity }
+  | { kind: 'update'; collection: CollaborationCollection; id: string; changes: Record<string, any> }
+  | { kind: 'remove'; collection: CollaborationCollection; id: string };
+
+export type LayoutOperationRejection = 'duplicate-id' | 'not-found' | 'missing-room' | 'missing-level' | 'invalid';
+
+export interface CollaborationUser {
+  clientId: string;
+  name: string;
+  color: string;
+}
+
+export interface CollaborationPresence extends CollaborationUser {
+  cursor?: { x: number; y: number }; // Canvas coordinates
+  selection: string[]; // Selected shape IDs
+  levelId?: string;
+}
+
+export type CollaborationClientMessage =
+  | { type: 'join'; layoutId: string; name: string; state: CollaborationState }
+  | { type: 'op'; clientSeq: number; operations: LayoutOperation[] }
+  | { type: 'presence'; cursor?: { x: number; y: number }; selection?: string[]; levelId?: string }
+  | { type: 'leave' };
+
+export type CollaborationServerMessage =
+  | { type: 'welcome'; clientId: string; color: string; version: number; state: CollaborationState; users: CollaborationPresence[] }
+  // Accepted operations of one client message in server order; the sender uses clientSeq as its acknowledgement
+  | { type: 'op'; version: number; clientId: string; clientSeq: number; operations: LayoutOperation[] }
+  | { type: 'rejected'; clientSeq: number; version: number; operations: Array<{ operation: LayoutOperation; reason: LayoutOperationRejection }> }
+  | { type: 'presence'; user: CollaborationPresence }
+  | { type: 'user-joined'; user: CollaborationPresence }
+  | { type: 'user-left'; clientId: string }
+  | { type: 'error'; error: string };
+
+// Roles in increasing order of rights; reviewers can do everything designers can
+export type UserRole = 'viewer' | 'designer' | 'reviewer' | 'admin';
+
+export interface User {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole; // Applies outside projects; project members get their project role inside it
+  createdAt: string | null;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  description?: string;
+  role?: UserRole; // Role of the requesting user in the project
+  diagramCount?: number;
+  layoutCount?: number;
+  createdAt: string | null;
+}
+
+export interface ProjectMember {
+  userId: string;
+  email: string;
+  name: string;
+  role: UserRole;
+}
+
+// What the audit trail covers: the rule base compliance checks run against and the cost bases
+export type AuditEntityType =
+  | 'relationship'
+  | 'functionalArea'
+  | 'knowledgeGraph'
+  | 'templateRelationships'
+  | 'cleanroomCostProfile'
+  | 'costSettings'
+  | 'costRateTable'
+  | 'ruleSet';
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export interface AuditEntry {
+  sequence: number;
+  timestamp: string;
+  actor: string;
+  actorId: string | null;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  before: unknown; // null for creations
+  after: unknown; // null for deletions
+  reason: string | null;
+  previousHash: string;
+  hash: string; // SHA-256 over the entry and previousHash
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  entries: number;
+  headHash: string | null;
+  // First entry that does not match the chain
+  brokenAt?: { sequence: number; problem: string };
+}
+
+export type RuleSetStatus = 'draft' | 'released';
+
+export interface TemplateRelationshipRule {
+  fromTemplateId: string;
+  toTemplateId: string;
+  relationship: Omit<SpatialRelationship, 'id' | 'fromId' | 'toId'>;
+}
+
+// Frozen copy of the rule base validation runs against
+export interface RuleSetContent {
+  templates: Array<Pick<NodeTemplate, 'id' | 'name' | 'category' | 'cleanroomClass'>>;
+  templateRelationships: TemplateRelationshipRule[];
+  relationships: SpatialRelationship[]; // Knowledge graph relationships between functional areas
+  regulatoryRules: RegulatoryRule[];
+}
+
+// Which rules produced a result; null in its place means the live, unversioned rule base
+export interface RuleSetReference {
+  version: number;
+  name: string;
+  status: RuleSetStatus;
+}
+
+export interface RuleSet extends RuleSetReference {
+  id: string;
+  description?: string;
+  contentHash: string; // SHA-256 of the content
+  counts: Record<keyof RuleSetContent, number>;
+  createdBy: string;
+  createdAt: string | null;
+  releasedBy?: string;
+  releasedAt?: string | null;
+  content?: RuleSetContent; // Only when a single rule set is requested
+}
+
+export interface RuleSetDiffSection<T> {
+  added: T[];
+  removed: T[];
+  changed: Array<{ key: string; fields: string[]; before: T; after: T }>;
+}
+
+export interface RuleSetDiff {
+  from: RuleSetReference | null;
+  to: RuleSetReference | null;
+  identical: boolean;
+  templates: RuleSetDiffSection<RuleSetContent['templates'][number]>;
+  templateRelationships: RuleSetDiffSection<TemplateRelationshipRule>;
+  relationships: RuleSetDiffSection<SpatialRelationship>;
+  regulatoryRules: RuleSetDiffSection<RegulatoryRule>;
+}
+
+export type LayoutVerdictValue = 'pass' | 'fail';
+
+// A failed check; blocking findings (validation errors, failed critical regulations) fail the layout
+export interface VerdictFinding {
+  id: string;
+  source: 'validation' | 'regulatory';
+  severity: string;
+  blocking: boolean;
+  message: string;
+}
+
+export interface LayoutVerdict {
+  layoutId: string;
+  verdict: LayoutVerdictValue;
+  ruleSet: RuleSetReference | null;
+  findings: VerdictFinding[];
+  evaluatedAt: string;
+}
+
+export interface VerdictChange {
+  layoutId: string;
+  name: string;
+  projectId: string | null;
+  pinnedVersion: number | null;
+  before: LayoutVerdictValue;
+  after: LayoutVerdictValue;
+  newFindings: VerdictFinding[];
+  resolvedFindings: VerdictFinding[];
+}
+
+// Saved layouts whose verdict differs between two rule sets
+export interface VerdictChangeReport {
+  from: RuleSetReference | null;
+  to: RuleSetReference | null;
+  evaluated: number;
+  changed: VerdictChange[];
+  failedToEvaluate: Array<{ layoutId: string; name: string; error: string }>;
+  generatedAt: string;
+}
+
 export interface ValidationResult {
   isValid: boolean;
   violations: ValidationViolation[];
+  ruleSet?: RuleSetReference | null; // Rule set the diagram was validated against; null for the live rules
 }
 
 export interface ValidationViolation {
@@ -186,14 +658,28 @@ export interface NodeTemplate {
   typicalEquipment?: string[]; // IDs of typical equipment for this room type
 }
 
+/**
+ * Nesting level of a node group (zone → suite → room)
+ */
+export type NodeGroupLevel = 'zone' | 'suite' | 'room';
+
+/**
+ * What a node group belongs to - groups are always scoped to one diagram or layout
+ */
+export type NodeGroupOwnerType = 'diagram' | 'layout';
+
 export interface NodeGroup {
   id: string;
   name: string;
   color: string;
   nodeIds: string[];
   description?: string;
-  createdAt: Date;
-  updatedAt: Date;
+  level?: NodeGroupLevel;
+  parentGroupId?: string | null; // Enclosing group (e.g. the zone a suite belongs to)
+  ownerType?: NodeGroupOwnerType;
+  ownerId?: string; // Diagram or layout ID
+  createdAt: Date | string;
+  updatedAt: Date | string;
 }
 
 // AI Assistant Chat Types
@@ -298,7 +784,9 @@ export interface LayoutGenerationParams {
     maxArea?: number;
     layoutStyle?: 'linear' | 'clustered' | 'compact' | 'modular';
     prioritizeFlow?: 'material' | 'personnel' | 'balanced';
+    buildingFootprint?: { width: number; depth: number }; // meters; rooms are packed inside it
   };
+  seed?: number; // Unsigned 32-bit seed; the same seed and rooms reproduce the same layout
 }
 
 /**
@@ -356,6 +844,7 @@ export interface GeneratedShapeLayout {
     warnings: string[];
     suggestions: string[];
     rationale: string; // AI explanation of layout decisions
+    seed: number; // Seed used for positioning, generated when the request did not give one
   };
 }
 
@@ -433,7 +922,9 @@ export type {
   RegulatoryRule,
   ComplianceCheckResult,
   ComplianceReport,
+  NotEvaluatedRule,
   LayoutModification,
+  ApplyFixesResult,
   OptimizationObjective,
   OptimizationResult,
   PredictiveInsight,
@@ -458,7 +949,9 @@ import type {
   RegulatoryRule,
   ComplianceCheckResult,
   ComplianceReport,
+  NotEvaluatedRule,
   LayoutModification,
+  ApplyFixesResult,
   OptimizationObjective,
   OptimizationResult,
   PredictiveInsight,
@@ -0,0 +1,35 @@
+/**
+ * Optimistic concurrency helpers
+ *
+ * Layouts and diagrams carry a revision number that increments on every save. GET responses
+ * send it as a strong ETag; clients send it back in If-Match so a save made from an outdated
+ * copy is refused with 409 instead of silently overwriting someone else's work. Requests
+ * without If-Match are accepted as before.
+ */
+
+export const toETag = (revision: number): string => `"${revision}"`;
+
+export type IfMatchResult =
+  | { ok: true }
+  | { ok: false; expectedRevision: number | null }; // null when the header holds no revision number
+
+/**
+ * Check an If-Match header against the current revision. Accepts `*`, lists of tags and weak tags.
+ */
+export function checkIfMatch(header: string | undefined, currentRevision: number): IfMatchResult {
+  if (!header || header.trim() === '*') {
+    return { ok: true };
+  }
+
+  const revisions = header
+    .split(',')
+    .map(tag => tag.trim().replace(/^W\//, '').replace(/^"|"$/g, ''))
+    .map(tag => (/^\d+$/.test(tag) ? Number(tag) : NaN));
+
+  if (revisions.includes(currentRevision)) {
+    return { ok: true };
+  }
+
+  const expected = revisions.find(revision => !Number.isNaN(revision));
+  return { ok: false, expectedRevision: expected ?? null };
+}
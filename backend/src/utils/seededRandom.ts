@@ -0,0 +1,40 @@
+/**
+ * Seeded pseudo-random numbers so generated layouts can be reproduced from their seed
+ */
+
+export type RandomSource = () => number;
+
+/**
+ * Mulberry32 generator returning values in [0, 1)
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Pick a fresh unsigned 32-bit seed for callers that did not supply one
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * Use the requested seed when given, otherwise generate one so it can be reported back
+ */
+export function resolveSeed(seed?: number): number {
+  return seed === undefined || seed === null ? generateSeed() : seed >>> 0;
+}
+
+/**
+ * A seed must be a non-negative integer that fits in 32 bits
+ */
+export function isValidSeed(seed: unknown): seed is number {
+  return typeof seed === 'number' && Number.isInteger(seed) && seed >= 0 && seed <= 0xFFFFFFFF;
+}
@@ -4,6 +4,7 @@ import CssBaseline from '@mui/material/CssBaseline';
 import { Box } from '@mui/material';
 import DiagramEditor from './components/DiagramEditor';
 import ErrorBoundary from './components/ErrorBoundary';
+import { AuthProvider } from './contexts/AuthContext';
 import './App.css';
 
 const theme = createTheme({
@@ -23,9 +24,11 @@ function App() {
     <ThemeProvider theme={theme}>
       <CssBaseline />
       <ErrorBoundary>
-        <Box sx={{ height: '100vh', display: 'flex', flexDirection: 'column' }}>
-          <DiagramEditor />
-        </Box>
+        <AuthProvider>
+          <Box sx={{ height: '100vh', display: 'flex', flexDirection: 'column' }}>
+            <DiagramEditor />
+          </Box>
+        </AuthProvider>
       </ErrorBoundary>
     </ThemeProvider>
   );
@@ -24,6 +24,7 @@ import {
   DialogContent,
   DialogActions,
   Stack,
+  Menu,
 } from '@mui/material';
 import {
   ExpandMore as ExpandMoreIcon,
@@ -99,6 +100,7 @@ const CostEstimationPanel: React.FC<CostEstimationPanelProps> = ({ items, onSett
   });
   const [isSavingCostProfile, setIsSavingCostProfile] = useState(false);
   const [detailsDialogOpen, setDetailsDialogOpen] = useState(false);
+  const [exportMenuAnchor, setExportMenuAnchor] = useState<HTMLElement | null>(null);
 
   const loadCostProfiles = useCallback(async () => {
     setCostProfilesLoading(true);
@@ -151,42 +153,42 @@ const CostEstimationPanel: React.FC<CostEstimationPanelProps> = ({ items, onSett
     }
   };
 
+  // Convert items to rooms data for cost calculation
+  const rooms = useMemo(() => items
+    .filter(item => item.cleanroomClass) // Only items with cleanroom data
+    .map(item => {
+      // Calculate area from dimensions (assuming dimensions are in pixels, convert to m²)
+      // Typical conversion: 1 pixel = 0.1 m² (adjust as needed)
+      // Note: In LayoutDesigner, 20px = 1m usually, so 1px = 0.05m. Area: 1px² = 0.0025m²
+      // But let's stick to a reasonable conversion or check if we can get real area.
+      // For now using the previous ratio 0.01 (100px = 1m -> 10000px² = 1m²) wait, 0.01 ratio means 100px * 100px * 0.01 = 100m²? No.
+      // If ratio is 0.01, then area = w * h * 0.01.
+      // If w=100, h=100, area = 10000 * 0.01 = 100.
+      // Let's keep the previous logic for consistency unless we know better.
+      const pixelToSqmRatio = 0.01;
+      const width = item.width || 100;
+      const height = item.height || 100;
+
+      // Use provided area (in sqm) or calculate from dimensions
+      const area = item.area !== undefined
+        ? item.area
+        : (width * height * pixelToSqmRatio);
+
+      return {
+        id: item.id,
+        name: item.name,
+        area: area, // Use exact area, no minimum constraint
+        cleanroomClass: item.cleanroomClass || 'CNC',
+        roomType: item.type || 'generic',
+        equipment: item.equipment || [],
+      };
+    }), [items]);
+
   const calculateEstimate = useCallback(async () => {
     setLoading(true);
     setError(null);
 
     try {
-      // Convert items to rooms data for cost calculation
-      const rooms = items
-        .filter(item => item.cleanroomClass) // Only items with cleanroom data
-        .map(item => {
-          // Calculate area from dimensions (assuming dimensions are in pixels, convert to m²)
-          // Typical conversion: 1 pixel = 0.1 m² (adjust as needed)
-          // Note: In LayoutDesigner, 20px = 1m usually, so 1px = 0.05m. Area: 1px² = 0.0025m²
-          // But let's stick to a reasonable conversion or check if we can get real area.
-          // For now using the previous ratio 0.01 (100px = 1m -> 10000px² = 1m²) wait, 0.01 ratio means 100px * 100px * 0.01 = 100m²? No.
-          // If ratio is 0.01, then area = w * h * 0.01.
-          // If w=100, h=100, area = 10000 * 0.01 = 100.
-          // Let's keep the previous logic for consistency unless we know better.
-          const pixelToSqmRatio = 0.01;
-          const width = item.width || 100;
-          const height = item.height || 100;
-
-          // Use provided area (in sqm) or calculate from dimensions
-          const area = item.area !== undefined
-            ? item.area
-            : (width * height * pixelToSqmRatio);
-
-          return {
-            id: item.id,
-            name: item.name,
-            area: area, // Use exact area, no minimum constraint
-            cleanroomClass: item.cleanroomClass || 'CNC',
-            roomType: item.type || 'generic',
-            equipment: item.equipment || [],
-          };
-        });
-
       if (rooms.length === 0) {
         setEstimate(null);
         return;
@@ -200,7 +202,7 @@ const CostEstimationPanel: React.FC<CostEstimationPanelProps> = ({ items, onSett
     } finally {
       setLoading(false);
     }
-  }, [items, settings]);
+  }, [rooms, settings]);
 
   const handleSettingsSave = async () => {
     try {
@@ -306,18 +308,31 @@ const CostEstimationPanel: React.FC<CostEstimationPanelProps> = ({ items, onSett
 
   const isCostFormValid = costForm.cleanroomClass.trim().length > 0;
 
-  const handleExport = () => {
+  const handleExport = async (format: 'json' | 'xlsx' | 'csv') => {
+    setExportMenuAnchor(null);
     if (!estimate) return;
 
-    const dataStr = JSON.stringify(estimate, null, 2);
-    const dataUri = 'data:application/json;charset=utf-8,' + encodeURIComponent(dataStr);
-
-    const exportFileDefaultName = `cost-estimate-${new Date().toISOString()}.json`;
-
+    const exportFileDefaultName = `cost-estimate-${new Date().toISOString()}.${format}`;
     const linkElement = document.createElement('a');
-    linkElement.setAttribute('href', dataUri);
     linkElement.setAttribute('download', exportFileDefaultName);
-    linkElement.click();
+
+    if (format === 'json') {
+      const dataStr = JSON.stringify(estimate, null, 2);
+      linkElement.setAttribute('href', 'data:application/json;charset=utf-8,' + encodeURIComponent(dataStr));
+      linkElement.click();
+      return;
+    }
+
+    try {
+      // Same settings and rate table as the estimate shown, so the file matches it
+      const file = await costService.exportEstimate(rooms, format, settings, { rateTable: estimate.rateTable });
+      const url = URL.createObjectURL(file);
+      linkElement.setAttribute('href', url);
+      linkElement.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      setError('Failed to export cost estimate');
+    }
   };
 
   const formatCostBreakdown = (breakdown: CostBreakdown) => {
@@ -677,10 +692,19 @@ const CostEstimationPanel: React.FC<CostEstimationPanelProps> = ({ items, onSett
                   <Button
                     size="small"
                     startIcon={<DownloadIcon />}
-                    onClick={handleExport}
+                    onClick={(event) => setExportMenuAnchor(event.currentTarget)}
                   >
                     Export
                   </Button>
+                  <Menu
+                    anchorEl={exportMenuAnchor}
+                    open={Boolean(exportMenuAnchor)}
+                    onClose={() => setExportMenuAnchor(null)}
+                  >
+                    <MenuItem onClick={() => handleExport('xlsx')}>Excel workbook (.xlsx)</MenuItem>
+                    <MenuItem onClick={() => handleExport('csv')}>CSV</MenuItem>
+                    <MenuItem onClick={() => handleExport('json')}>JSON</MenuItem>
+                  </Menu>
                 </Box>
               </>
             )}
@@ -716,10 +740,11 @@ const CostEstimationPanel: React.FC<CostEstimationPanelProps> = ({ items, onSett
             <TextField
               label="Region"
               select
-              value={Object.entries(regionalFactors).find(([_, v]) => v === settings.regionalFactor)?.[0] || 'Custom'}
+              value={settings.region || Object.entries(regionalFactors).find(([_, v]) => v === settings.regionalFactor)?.[0] || 'Custom'}
               onChange={(e) => {
                 const factor = regionalFactors[e.target.value] || 1.0;
-                setSettings({ ...settings, regionalFactor: factor });
+                // The region is sent along so the estimate takes its factor from the dated rate table
+                setSettings({ ...settings, region: e.target.value, regionalFactor: factor });
               }}
               fullWidth
             >
@@ -28,8 +28,8 @@ import SaveDiagramDialog from '../SaveDiagramDialog';
 import LoadDiagramDialog from '../LoadDiagramDialog';
 import FacilityTemplateSelector from '../FacilityTemplateSelector';
 import CostEstimationPanel from '../CostEstimationPanel';
-import { NodeTemplate, AppMode, SpatialRelationship, DiagramEdge, Diagram } from '../../types';
-import { apiService } from '../../services/api';
+import { NodeTemplate, AppMode, SpatialRelationship, DiagramEdge, Diagram, DiagramSaveConflict } from '../../types';
+import { apiService, ApiError } from '../../services/api';
 import { formatRelationshipLabel } from '../../utils/edgeUtils';
 
 const nodeTypes = {
@@ -72,6 +72,8 @@ const CreationModeInner: React.FC<CreationModeProps> = ({ mode, onSave, onLoad,
   const [loadDialogOpen, setLoadDialogOpen] = useState(false);
   const [currentDiagramId, setCurrentDiagramId] = useState<string | null>(null);
   const [currentDiagramName, setCurrentDiagramName] = useState<string | null>(null);
+  // Revision the canvas was loaded from or last saved as; sent as If-Match on update
+  const [currentDiagramRevision, setCurrentDiagramRevision] = useState<number | undefined>(undefined);
 
   // State for template selector
   const [templateDialogOpen, setTemplateDialogOpen] = useState(false);
@@ -397,8 +399,8 @@ const CreationModeInner: React.FC<CreationModeProps> = ({ mode, onSave, onLoad,
     setSaveDialogOpen(true);
   }, []);
 
-  // Handle save diagram with name
-  const handleSaveWithName = useCallback(async (name: string) => {
+  // Handle save diagram with name; the project only applies to new diagrams
+  const handleSaveWithName = useCallback(async (name: string, projectId?: string) => {
     try {
       console.log('💾 Saving diagram:', name);
       console.log('📊 Current state:', {
@@ -444,18 +446,39 @@ const CreationModeInner: React.FC<CreationModeProps> = ({ mode, onSave, onLoad,
         relationships: diagramData.relationships
       });
 
-      let result;
       if (currentDiagramId) {
-        // Update existing diagram
-        result = await apiService.updateDiagram(currentDiagramId, diagramData);
+        // Update existing diagram, refused if someone else saved it since it was loaded
+        let result;
+        try {
+          result = await apiService.updateDiagram(currentDiagramId, diagramData, currentDiagramRevision);
+        } catch (error) {
+          if (!(error instanceof ApiError && error.status === 409)) throw error;
+
+          const conflict: DiagramSaveConflict = error.body;
+          const { nodes: nodeChanges, relationships: relationshipChanges } = conflict.changes;
+          const summary = [
+            `${nodeChanges.added.length + nodeChanges.removed.length + nodeChanges.changed.length} area(s)`,
+            `${relationshipChanges.added.length + relationshipChanges.removed.length + relationshipChanges.changed.length} relationship(s)`
+          ].join(' and ');
+          if (!window.confirm(
+            `"${name}" was updated by someone else (revision ${conflict.currentRevision}) after you loaded it. ` +
+            `The saved diagram differs from yours in ${summary}.\n\nOverwrite it with your version?`
+          )) {
+            onShowMessage?.('Save cancelled. Reload the diagram to see the latest version.', 'warning');
+            return;
+          }
+          result = await apiService.updateDiagram(currentDiagramId, diagramData, conflict.currentRevision);
+        }
         console.log('✅ Diagram updated:', result);
+        setCurrentDiagramRevision(result.revision);
         onShowMessage?.(`Diagram "${name}" updated successfully!`, 'success');
       } else {
         // Create new diagram
-        result = await apiService.createDiagram(diagramData);
+        const result = await apiService.createDiagram({ ...diagramData, projectId: projectId || null });
         console.log('✅ Diagram saved:', result);
         setCurrentDiagramId(result.id);
         setCurrentDiagramName(name);
+        setCurrentDiagramRevision(result.revision);
         onShowMessage?.(`Diagram "${name}" saved successfully!`, 'success');
       }
 
@@ -464,7 +487,7 @@ const CreationModeInner: React.FC<CreationModeProps> = ({ mode, onSave, onLoad,
       console.error('❌ Failed to save diagram:', error);
       onShowMessage?.('Failed to save diagram. Please try again.', 'error');
     }
-  }, [nodes, edges, currentDiagramId]);
+  }, [nodes, edges, currentDiagramId, currentDiagramRevision]);
 
   // Handle load diagram button click
   const handleLoadButtonClick = useCallback(() => {
@@ -549,6 +572,7 @@ const CreationModeInner: React.FC<CreationModeProps> = ({ mode, onSave, onLoad,
       setEdges(loadedEdges);
       setCurrentDiagramId(diagram.id);
       setCurrentDiagramName(diagram.name);
+      setCurrentDiagramRevision(diagram.revision);
       setLoadDialogOpen(false);
 
       console.log('✅ Diagram loaded successfully:', {
@@ -635,6 +659,7 @@ const CreationModeInner: React.FC<CreationModeProps> = ({ mode, onSave, onLoad,
       // Update diagram info
       setCurrentDiagramName(diagram.name);
       setCurrentDiagramId(null); // New diagram from template
+      setCurrentDiagramRevision(undefined);
 
       console.log('✅ Template applied successfully');
       onShowMessage?.(`Template "${diagram.name}" applied successfully! ${templateNodes.length} rooms added.`, 'success');
@@ -757,6 +782,7 @@ const CreationModeInner: React.FC<CreationModeProps> = ({ mode, onSave, onLoad,
       // Clear current diagram info
       setCurrentDiagramId(null);
       setCurrentDiagramName(null);
+      setCurrentDiagramRevision(undefined);
 
       onShowMessage?.(
         `Successfully imported ${importedNodes.length} nodes and ${importedEdges.length} relationships from Neo4j!`,
@@ -959,6 +985,7 @@ const CreationModeInner: React.FC<CreationModeProps> = ({ mode, onSave, onLoad,
         open={saveDialogOpen}
         onClose={() => setSaveDialogOpen(false)}
         onSave={handleSaveWithName}
+        showProject={!currentDiagramId}
         nodeCount={nodes.length}
         relationshipCount={edges.length}
       />
@@ -8,20 +8,27 @@ import {
   ToggleButtonGroup,
   Alert,
   Snackbar,
+  Chip,
+  IconButton,
+  Tooltip,
 } from '@mui/material';
 import {
   Science as ScienceIcon,
   Architecture as ArchitectureIcon,
   Create as CreateIcon,
-  Explore as ExploreIcon
+  Explore as ExploreIcon,
+  Person as PersonIcon,
+  Logout as LogoutIcon
 } from '@mui/icons-material';
 import { AppMode } from '../types';
 import LayoutDesigner from './LayoutDesigner/LayoutDesigner';
 import CreationMode from './CreationMode/CreationMode';
 import { apiService } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
 
 const DiagramEditor: React.FC = () => {
   const [mode, setMode] = useState<AppMode>('layoutDesigner');
+  const { user, logout } = useAuth();
   const [snackbar, setSnackbar] = useState({
     open: false,
     message: '',
@@ -107,6 +114,17 @@ const DiagramEditor: React.FC = () => {
               Layout Designer
             </ToggleButton>
           </ToggleButtonGroup>
+
+          {user && (
+            <>
+              <Chip icon={<PersonIcon />} label={`${user.name} (${user.role})`} variant="outlined" size="small" />
+              <Tooltip title="Sign out">
+                <IconButton onClick={logout} size="small" sx={{ ml: 1 }} aria-label="sign out">
+                  <LogoutIcon />
+                </IconButton>
+              </Tooltip>
+            </>
+          )}
         </Toolbar>
       </AppBar>
 
@@ -0,0 +1,78 @@
+import React from 'react';
+import { Avatar, AvatarGroup, Box, Button, Chip, Tooltip } from '@mui/material';
+import { Group as GroupIcon, GroupOff as GroupOffIcon } from '@mui/icons-material';
+import { CollaborationPresence } from '../../types';
+import { CollaborationStatus } from '../../services/collaborationClient';
+
+interface CollaborationBarProps {
+  canCollaborate: boolean; // Only saved layouts have an ID to share
+  active: boolean;
+  status: CollaborationStatus;
+  color: string | null;
+  peers: CollaborationPresence[];
+  levelNames: Record<string, string>;
+  onToggle: () => void;
+}
+
+const STATUS_LABELS: Record<CollaborationStatus, string> = {
+  connecting: 'Connecting…',
+  connected: 'Live',
+  reconnecting: 'Reconnecting…',
+  disconnected: 'Offline',
+};
+
+const initials = (name: string): string =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('') || '?';
+
+/**
+ * Start or stop live editing of the current layout and show who else is editing it
+ */
+const CollaborationBar: React.FC<CollaborationBarProps> = ({
+  canCollaborate,
+  active,
+  status,
+  color,
+  peers,
+  levelNames,
+  onToggle
+}) => (
+  <Box display="flex" alignItems="center" gap={1}>
+    <Tooltip title={canCollaborate ? '' : 'Save the layout first to edit it together'}>
+      <span>
+        <Button
+          size="small"
+          variant={active ? 'contained' : 'outlined'}
+          color={active ? 'success' : 'primary'}
+          startIcon={active ? <GroupOffIcon /> : <GroupIcon />}
+          disabled={!canCollaborate && !active}
+          onClick={onToggle}
+        >
+          {active ? 'Leave Session' : 'Collaborate'}
+        </Button>
+      </span>
+    </Tooltip>
+    {active && (
+      <>
+        <Chip
+          size="small"
+          label={STATUS_LABELS[status]}
+          color={status === 'connected' ? 'success' : 'warning'}
+          variant="outlined"
+          sx={color ? { borderColor: color } : undefined}
+        />
+        <AvatarGroup max={5} sx={{ '& .MuiAvatar-root': { width: 28, height: 28, fontSize: 12 } }}>
+          {peers.map(peer => (
+            <Tooltip
+              key={peer.clientId}
+              title={`${peer.name}${peer.levelId && levelNames[peer.levelId] ? ` · ${levelNames[peer.levelId]}` : ''}`}
+            >
+              <Avatar sx={{ bgcolor: peer.color }}>{initials(peer.name)}</Avatar>
+            </Tooltip>
+          ))}
+        </AvatarGroup>
+      </>
+    )}
+  </Box>
+);
+
+export default CollaborationBar;
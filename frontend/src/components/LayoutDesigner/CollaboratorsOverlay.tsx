@@ -0,0 +1,104 @@
+import React from 'react';
+import { Box } from '@mui/material';
+import { ShapeProperties } from './PropertiesPanel';
+import { CollaborationPresence } from '../../types';
+
+interface CollaboratorsOverlayProps {
+  peers: CollaborationPresence[]; // Already limited to the level on screen
+  shapes: ShapeProperties[];
+  width: number;
+  height: number;
+}
+
+/**
+ * Other users' cursors and selected rooms, drawn in canvas coordinates
+ */
+const CollaboratorsOverlay: React.FC<CollaboratorsOverlayProps> = ({ peers, shapes, width, height }) => {
+  const shapesById = new Map(shapes.map(shape => [shape.id, shape]));
+
+  return (
+    <Box
+      sx={{
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        width,
+        height,
+        pointerEvents: 'none',
+        zIndex: 20,
+      }}
+    >
+      {peers.flatMap(peer =>
+        peer.selection
+          .map(shapeId => shapesById.get(shapeId))
+          .filter((shape): shape is ShapeProperties => !!shape)
+          .map(shape => (
+            <Box
+              key={`${peer.clientId}-${shape.id}`}
+              sx={{
+                position: 'absolute',
+                left: shape.x - 4,
+                top: shape.y - 4,
+                width: shape.width + 8,
+                height: shape.height + 8,
+                border: `2px dashed ${peer.color}`,
+                borderRadius: 1,
+                transform: `rotate(${shape.rotation || 0}deg)`,
+              }}
+            >
+              <Box
+                component="span"
+                sx={{
+                  position: 'absolute',
+                  top: -20,
+                  left: -2,
+                  px: 0.5,
+                  fontSize: 11,
+                  color: '#fff',
+                  backgroundColor: peer.color,
+                  borderRadius: 0.5,
+                  whiteSpace: 'nowrap',
+                }}
+              >
+                {peer.name}
+              </Box>
+            </Box>
+          ))
+      )}
+
+      {peers.filter(peer => peer.cursor).map(peer => (
+        <Box
+          key={peer.clientId}
+          sx={{
+            position: 'absolute',
+            left: peer.cursor!.x,
+            top: peer.cursor!.y,
+            transition: 'left 0.05s linear, top 0.05s linear',
+          }}
+        >
+          <svg width="16" height="20" viewBox="0 0 16 20" style={{ display: 'block' }}>
+            <path d="M0 0 L0 16 L4.5 12 L7.5 19 L10 18 L7 11 L13 11 Z" fill={peer.color} stroke="#fff" strokeWidth={1} />
+          </svg>
+          <Box
+            component="span"
+            sx={{
+              position: 'absolute',
+              top: 18,
+              left: 10,
+              px: 0.5,
+              fontSize: 11,
+              color: '#fff',
+              backgroundColor: peer.color,
+              borderRadius: 0.5,
+              whiteSpace: 'nowrap',
+            }}
+          >
+            {peer.name}
+          </Box>
+        </Box>
+      ))}
+    </Box>
+  );
+};
+
+export default CollaboratorsOverlay;
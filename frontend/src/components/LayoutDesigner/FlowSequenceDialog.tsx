@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Autocomplete,
+  Chip
+} from '@mui/material';
+import { Add as AddIcon, Close as CloseIcon } from '@mui/icons-material';
+import { ShapeProperties } from './PropertiesPanel';
+import { DoorFlowType, FlowSequence } from '../../types';
+
+interface FlowSequenceDialogProps {
+  open: boolean;
+  shapes: ShapeProperties[];
+  onClose: () => void;
+  onAdd: (sequence: FlowSequence) => void;
+}
+
+/**
+ * Declare a material/personnel/waste sequence as an ordered list of rooms
+ */
+const FlowSequenceDialog: React.FC<FlowSequenceDialogProps> = ({
+  open,
+  shapes,
+  onClose,
+  onAdd
+}) => {
+  const [name, setName] = useState('');
+  const [flowType, setFlowType] = useState<DoorFlowType>('material');
+  const [rooms, setRooms] = useState<ShapeProperties[]>([]);
+
+  const handleClose = () => {
+    setName('');
+    setRooms([]);
+    onClose();
+  };
+
+  const handleAdd = () => {
+    onAdd({
+      id: `sequence-${Date.now()}`,
+      name: name.trim() || `${flowType.charAt(0).toUpperCase()}${flowType.slice(1)} route`,
+      flowType,
+      shapeIds: rooms.map(room => room.id),
+    });
+    handleClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Declare Flow Sequence</DialogTitle>
+      <DialogContent>
+        <TextField
+          autoFocus
+          margin="dense"
+          label="Name"
+          fullWidth
+          variant="outlined"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g. Raw material to filling"
+        />
+        <FormControl fullWidth margin="dense">
+          <InputLabel>Flow Type</InputLabel>
+          <Select
+            value={flowType}
+            label="Flow Type"
+            onChange={(e) => setFlowType(e.target.value as DoorFlowType)}
+          >
+            <MenuItem value="material">Material</MenuItem>
+            <MenuItem value="personnel">Personnel</MenuItem>
+            <MenuItem value="waste">Waste</MenuItem>
+          </Select>
+        </FormControl>
+        <Autocomplete
+          multiple
+          options={shapes}
+          value={rooms}
+          onChange={(_, value) => setRooms(value)}
+          getOptionLabel={(shape) => shape.name}
+          isOptionEqualToValue={(option, value) => option.id === value.id}
+          renderTags={(value, getTagProps) =>
+            value.map((shape, index) => {
+              const { key, ...tagProps } = getTagProps({ index });
+              return <Chip key={key} size="small" label={`${index + 1}. ${shape.name}`} {...tagProps} />;
+            })
+          }
+          renderInput={(params) => (
+            <TextField
+              {...params}
+              margin="dense"
+              label="Rooms in order"
+              helperText="Pick rooms in the order the flow visits them; each leg is routed through the doors of this flow type"
+            />
+          )}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose} startIcon={<CloseIcon />}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleAdd}
+          disabled={rooms.length < 2}
+          variant="contained"
+          startIcon={<AddIcon />}
+        >
+          Add Sequence
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default FlowSequenceDialog;
@@ -8,24 +8,27 @@ import ValidationOverlay, { ValidationResult } from './ValidationOverlay';
 import ConnectionRenderer from './ConnectionRenderer';
 import SuggestionSidebar from './SuggestionSidebar';
 import { ShapeType, NodeCategory, getCleanroomColor } from '../../types';
-import apiService from '../../services/api';
+import apiService, { ApiError } from '../../services/api';
 import {
   DrawingMode,
   Connection,
   DoorConnectionDrawingState,
   areShapesAdjacent
 } from './types';
-import { DoorConnection, DoorFlowType, DoorFlowDirection } from '../../types';
+import { CollaborationState, DoorConnection, DoorFlowType, DoorFlowDirection, FlowSequence, NodeGroup, LayoutDiff, LayoutLevel, LayoutLock, LayoutRevisionInfo, LayoutRevisionSummary, ReviewAnchor, VerticalConnection } from '../../types';
 import DoorConnectionRenderer from '../DoorConnectionRenderer';
 import DoorConnectionDialog from '../DoorConnectionDialog';
 import DoorConnectionEditDialog from '../DoorConnectionEditDialog';
 import { useSuggestions } from '../../hooks/useSuggestions';
 import { useDoorConnectionValidation } from '../../hooks/useDoorConnectionValidation';
+import { useLayoutCollaboration } from '../../hooks/useLayoutCollaboration';
 import DoorPlacementOverlay from './DoorPlacementOverlay';
 import { findAllSharedWalls, DoorPlacement } from '../../utils/wallDetection';
 import { updateDoorConnectionsEdgePoints } from '../../utils/doorConnectionUtils';
 import { Snackbar, Alert } from '@mui/material';
 import { UnitConverter } from '../../utils/unitConversion';
+import { downloadDXF, importFromDXF, exportToPDF, ExportOptions } from '../../utils/layoutExport';
+import { computePointsRelative } from '../../utils/shapeGeometry';
 import { Measurement } from './MeasurementTool';
 import { WallSegment } from './WallTool';
 import RulerOverlay from './RulerOverlay';
@@ -36,7 +39,7 @@ import ChatPanel from '../ChatPanel';
 import { useChatAssistant } from '../../hooks/useChatAssistant';
 import { ChatAction } from '../../types';
 import { Fab, Tooltip, Chip, IconButton, Toolbar, AppBar } from '@mui/material';
-import { Chat as ChatIcon, Save as SaveIcon, FolderOpen as FolderOpenIcon } from '@mui/icons-material';
+import { Chat as ChatIcon, Save as SaveIcon, FolderOpen as FolderOpenIcon, FileDownload as FileDownloadIcon, FileUpload as FileUploadIcon, PictureAsPdf as PdfIcon, RateReview as ReviewIcon } from '@mui/icons-material';
 import GenerativeApiService from '../../services/generativeApi';
 import {
   mergePolygons,
@@ -44,9 +47,20 @@ import {
   polygonCentroid,
   Polygon
 } from '../../utils/polygonUnion';
-import SaveLayoutDialog from './SaveLayoutDialog';
+import SaveLayoutDialog, { LAYOUT_AUTHOR_STORAGE_KEY, LayoutSaveOptions } from './SaveLayoutDialog';
 import LoadLayoutDialog from './LoadLayoutDialog';
+import PdfExportDialog from './PdfExportDialog';
 import CostEstimationPanel from '../CostEstimationPanel';
+import LevelBar from './LevelBar';
+import VerticalConnectionDialog, { VerticalConnectionRequest } from './VerticalConnectionDialog';
+import CollaborationBar from './CollaborationBar';
+import CollaboratorsOverlay from './CollaboratorsOverlay';
+import ReviewPanel from './ReviewPanel';
+import ReviewPinsOverlay from './ReviewPinsOverlay';
+import { useLayoutReview } from '../../hooks/useLayoutReview';
+import { useAuth } from '../../contexts/AuthContext';
+import { ReviewTargets, getAnchorPosition, getMentionHandles, resolveReviewAnchor } from '../../utils/layoutReview';
+import { filterByLevel, getItemLevelId, getLayoutLevels, pruneVerticalConnections, sortLevels } from '../../utils/buildingLevels';
 
 export interface LayoutDesignerProps {
   onClose?: () => void;
@@ -62,6 +76,10 @@ export interface LayoutData {
   connections: Connection[];
   doorConnections: DoorConnection[];
   doorPlacements: DoorPlacement[];
+  groups?: NodeGroup[]; // Nested room groups (zone → suite → room), shape IDs in nodeIds
+  flowSequences?: FlowSequence[]; // Declared material/personnel/waste routes, routed through the doors
+  levels?: LayoutLevel[]; // Building levels; shapes carry a levelId, layouts without levels have one floor
+  verticalConnections?: VerticalConnection[]; // Stairs, lifts, hoists and shafts between levels
   canvasSettings: {
     width: number;
     height: number;
@@ -131,104 +149,16 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
     'C-shape',
   ]);
 
-  const generateRegularPolygonPoints = (sides: number, width: number, height: number) => {
-    const cx = width / 2;
-    const cy = height / 2;
-    const r = Math.max(1, Math.min(width, height) / 2);
-    const points: { x: number; y: number }[] = [];
-    // Rotate so one vertex is at top for odd sides
-    const startAngle = -Math.PI / 2;
-    for (let i = 0; i < sides; i++) {
-      const angle = startAngle + (i * 2 * Math.PI) / sides;
-      points.push({ x: cx + r * Math.cos(angle), y: cy + r * Math.sin(angle) });
-    }
-    return points;
-  };
-
-  const computePointsRelative = (shape: ShapeProperties) => {
-    const rel: Array<{ x: number; y: number }> | undefined = (shape as any).customProperties?.pointsRelative;
-    if (Array.isArray(rel) && rel.length >= 3) return rel;
-
-    // Fallbacks for template-based polygonal shapes
-    if (shape.shapeType === 'diamond') {
-      const w = shape.width, h = shape.height;
-      return [
-        { x: w / 2, y: 0 },
-        { x: w, y: h / 2 },
-        { x: w / 2, y: h },
-        { x: 0, y: h / 2 },
-      ];
-    }
-    if (shape.shapeType === 'trapezoid') {
-      const w = shape.width, h = shape.height;
-      const inset = Math.min(w, h) * 0.2;
-      return [
-        { x: inset, y: 0 },
-        { x: w - inset, y: 0 },
-        { x: w, y: h },
-        { x: 0, y: h },
-      ];
-    }
-    if (shape.shapeType === 'parallelogram') {
-      const w = shape.width, h = shape.height;
-      const skew = Math.min(w, h) * 0.2;
-      return [
-        { x: skew, y: 0 },
-        { x: w, y: 0 },
-        { x: w - skew, y: h },
-        { x: 0, y: h },
-      ];
-    }
-    if (shape.shapeType === 'pentagon' || shape.shapeType === 'hexagon' || shape.shapeType === 'octagon') {
-      const sides = shape.shapeType === 'pentagon' ? 5 : shape.shapeType === 'hexagon' ? 6 : 8;
-      return generateRegularPolygonPoints(sides, shape.width, shape.height);
-    }
-    if (shape.shapeType === 'L-shape') {
-      const w = shape.width, h = shape.height;
-      const arm = Math.min(w, h) * 0.45; // thickness of the L arms
-      return [
-        { x: 0, y: 0 },
-        { x: w, y: 0 },
-        { x: w, y: arm },
-        { x: arm, y: arm },
-        { x: arm, y: h },
-        { x: 0, y: h },
-      ];
-    }
-    if (shape.shapeType === 'C-shape') {
-      const w = shape.width, h = shape.height;
-      const t = Math.min(w, h) * 0.25; // thickness of the C
-      return [
-        { x: 0, y: 0 },
-        { x: w, y: 0 },
-        { x: w, y: t },
-        { x: t, y: t },
-        { x: t, y: h - t },
-        { x: w, y: h - t },
-        { x: w, y: h },
-        { x: 0, y: h },
-      ];
-    }
-    if (shape.shapeType === 'triangle') {
-      const w = shape.width, h = shape.height;
-      return [
-        { x: w / 2, y: 0 },
-        { x: w, y: h },
-        { x: 0, y: h },
-      ];
-    }
-    // Default: rectangle
-    return [
-      { x: 0, y: 0 },
-      { x: shape.width, y: 0 },
-      { x: shape.width, y: shape.height },
-      { x: 0, y: shape.height },
-    ];
-  };
   // Core state
   const [shapes, setShapes] = useState<ShapeProperties[]>(initialLayout?.shapes || []);
   const [connections, setConnections] = useState<Connection[]>(initialLayout?.connections || []);
   const [doorConnections, setDoorConnections] = useState<DoorConnection[]>(initialLayout?.doorConnections || []);
+  const [groups, setGroups] = useState<NodeGroup[]>(initialLayout?.groups || []);
+  const [flowSequences, setFlowSequences] = useState<FlowSequence[]>(initialLayout?.flowSequences || []);
+  const [levels, setLevels] = useState<LayoutLevel[]>(getLayoutLevels(initialLayout?.levels));
+  const [activeLevelId, setActiveLevelId] = useState<string>(getLayoutLevels(initialLayout?.levels)[0].id);
+  const [verticalConnections, setVerticalConnections] = useState<VerticalConnection[]>(initialLayout?.verticalConnections || []);
+  const [showVerticalConnectionDialog, setShowVerticalConnectionDialog] = useState(false);
   const [canvasSettings, setCanvasSettings] = useState<CanvasSettings>(DEFAULT_CANVAS_SETTINGS);
   const [drawingState, setDrawingState] = useState<DrawingState>({
     activeShapeTool: null,
@@ -274,19 +204,22 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
   // AI Chat Assistant state
   const [isChatOpen, setIsChatOpen] = useState(false);
 
-  // Convert shapes to nodes for chat context - create empty arrays as placeholders
-  const chatNodes = shapes.map(shape => {
-    // Calculate area in square meters using the same logic as CostEstimationPanel
-    const pixelArea = shape.area || (shape.width * shape.height);
+  // Canvas scale in pixels per meter, using the same logic as CostEstimationPanel
+  const pixelsPerMeter = useMemo(() => {
     const config = unitConverter.getConfig();
-    let pixelsPerMeter = config.pixelsPerUnit;
-
     if (config.unit === 'feet') {
-      pixelsPerMeter = config.pixelsPerUnit / 0.3048;
-    } else if (config.unit === 'pixels') {
-      pixelsPerMeter = 100; // Default assumption if using pixels
+      return config.pixelsPerUnit / 0.3048;
+    }
+    if (config.unit === 'pixels') {
+      return 100; // Default assumption if using pixels
     }
+    return config.pixelsPerUnit;
+  }, [unitConverter]);
 
+  // Convert shapes to nodes for chat context - create empty arrays as placeholders
+  const chatNodes = shapes.map(shape => {
+    // Calculate area in square meters
+    const pixelArea = shape.area || (shape.width * shape.height);
     const areaInSqm = pixelArea / (pixelsPerMeter * pixelsPerMeter);
 
     return {
@@ -337,6 +270,9 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
   const [showLoadDialog, setShowLoadDialog] = useState(false);
   const [currentLayoutId, setCurrentLayoutId] = useState<string | null>(initialLayout?.id || null);
   const [currentLayoutName, setCurrentLayoutName] = useState<string>(initialLayout?.name || 'Untitled Layout');
+  // Revision the canvas was loaded from or last saved as; sent as If-Match so stale saves are refused
+  const [currentLayoutRevision, setCurrentLayoutRevision] = useState<number | undefined>(undefined);
+  const [currentLayoutLock, setCurrentLayoutLock] = useState<LayoutLock | null>(null);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
 
   // Derived state: get selected connection object from ID
@@ -521,10 +457,22 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
     summary: { errors: 0, warnings: 0, infos: 0 },
   });
 
-  // Compute shared walls between shapes (for door placement)
+  // The canvas shows one level at a time; flow analysis, costs and exports use every level
+  const levelShapes = useMemo(() => filterByLevel(shapes, activeLevelId, levels), [shapes, activeLevelId, levels]);
+  const levelDoorConnections = useMemo(() => {
+    const levelShapeIds = new Set(levelShapes.map(shape => shape.id));
+    return doorConnections.filter(conn => levelShapeIds.has(conn.fromShape.shapeId) && levelShapeIds.has(conn.toShape.shapeId));
+  }, [levelShapes, doorConnections]);
+  const levelDoorPlacements = useMemo(() => {
+    const levelShapeIds = new Set(levelShapes.map(shape => shape.id));
+    return doorPlacements.filter(door => levelShapeIds.has(door.shape1Id) && levelShapeIds.has(door.shape2Id));
+  }, [levelShapes, doorPlacements]);
+  const levelMeasurements = useMemo(() => filterByLevel(measurements, activeLevelId, levels), [measurements, activeLevelId, levels]);
+
+  // Compute shared walls between shapes on the active level (for door placement)
   const sharedWalls = useMemo(() => {
-    return findAllSharedWalls(shapes);
-  }, [shapes]);
+    return findAllSharedWalls(levelShapes);
+  }, [levelShapes]);
 
   // Generate unique ID for new shapes
   const generateShapeId = useCallback(() => {
@@ -610,13 +558,13 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
   }, []);
 
   const selectAllShapes = useCallback(() => {
-    const allShapeIds = shapes.map(s => s.id);
+    const allShapeIds = levelShapes.map(s => s.id);
     setDrawingState(prev => ({
       ...prev,
       selectedShapeId: allShapeIds.length === 1 ? allShapeIds[0] : null,
       selectedShapeIds: allShapeIds,
     }));
-  }, [shapes]);
+  }, [levelShapes]);
 
   const clearSelection = useCallback(() => {
     setDrawingState(prev => ({
@@ -637,6 +585,7 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
 
       x: canvasSettings.width / 2 - template.defaultDimensions.width / 2,
       y: canvasSettings.height / 2 - template.defaultDimensions.height / 2,
+      levelId: activeLevelId,
 
       width: template.defaultDimensions.width,
       height: template.defaultDimensions.height,
@@ -670,7 +619,7 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
 
     setDrawingState(prev => ({ ...prev, selectedShapeId: newShape.id }));
     setShowPropertiesPanel(true);
-  }, [canvasSettings, generateShapeId, addToHistory, runValidation]);
+  }, [canvasSettings, activeLevelId, generateShapeId, addToHistory, runValidation]);
 
   // Handle free-form shape creation
   const handleShapeComplete = useCallback((shapeData: {
@@ -694,6 +643,7 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
       // Use bounding box top-left as position
       x: minX,
       y: minY,
+      levelId: activeLevelId,
 
       // FIX: Use dimensions from shapeData instead of calculating again
       width: shapeData.dimensions.width,
@@ -737,7 +687,7 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
       isDrawing: false,
     }));
     setShowPropertiesPanel(true);
-  }, [generateShapeId, addToHistory, runValidation]);
+  }, [activeLevelId, generateShapeId, addToHistory, runValidation]);
 
 
 
@@ -876,6 +826,7 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
       name: `Merged ${baseShape.name}`,
       x: bbox.minX,
       y: bbox.minY,
+      levelId: baseShape.levelId,
       width: bbox.width,
       height: bbox.height,
       area: bbox.width * bbox.height,
@@ -920,7 +871,7 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
     setSnackbarMessage(`Successfully merged ${shapesToMerge.length} shapes`);
     setSnackbarSeverity('success');
     setSnackbarOpen(true);
-  }, [mergeQueue, shapes, computePointsRelative, generateShapeId, addToHistory, runValidation]);
+  }, [mergeQueue, shapes, generateShapeId, addToHistory, runValidation]);
 
   // Connection handlers
   const handleConnectionUpdate = useCallback((id: string, updates: Partial<Connection>) => {
@@ -1028,6 +979,7 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
             shapeType: 'rectangle',
             x: action.data.position.x,
             y: action.data.position.y,
+            levelId: activeLevelId,
             width,
             height,
             area: width * height,
@@ -1099,6 +1051,7 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
               ...shape,
               // Ensure all required ShapeProperties fields are present
               shapeType: shape.shapeType || 'rectangle',
+              levelId: activeLevelId,
               rotation: shape.rotation || 0,
               isCompliant: shape.isCompliant ?? true,
               complianceIssues: shape.complianceIssues || [],
@@ -1181,6 +1134,7 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
                 shapeType: 'rectangle' as ShapeType,
                 x: node.x || 0,
                 y: node.y || 0,
+                levelId: activeLevelId,
                 width: node.width || 150,
                 height: node.height || 100,
                 area: (node.width || 150) * (node.height || 100),
@@ -1202,7 +1156,11 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
                 customProperties: {}
               }));
 
-              setShapes(newShapes);
+              // The template replaces the active level; other levels are kept
+              setShapes(prevShapes => [
+                ...prevShapes.filter(shape => getItemLevelId(shape, levels) !== activeLevelId),
+                ...newShapes
+              ]);
               setSnackbarMessage(`Created ${diagram.name} with ${newShapes.length} functional areas`);
               setSnackbarSeverity('success');
               setSnackbarOpen(true);
@@ -1220,7 +1178,7 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
         // Optimize current layout
         (async () => {
           try {
-            if (shapes.length === 0) {
+            if (levelShapes.length === 0) {
               setSnackbarMessage('No shapes to optimize');
               setSnackbarSeverity('warning');
               setSnackbarOpen(true);
@@ -1231,8 +1189,8 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
             setSnackbarSeverity('info');
             setSnackbarOpen(true);
 
-            // Convert shapes to nodes array
-            const nodes = shapes.map(shape => ({
+            // Convert shapes on the active level to nodes array
+            const nodes = levelShapes.map(shape => ({
               id: shape.id,
               name: shape.name || '',
               category: shape.category,
@@ -1283,7 +1241,7 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
 
     // Also call the executeAction from the hook to update highlights
     executeAction(action);
-  }, [executeAction, shapes]);
+  }, [executeAction, shapes, levelShapes, levels, activeLevelId]);
 
   // Initialize door connection validation hook
   const {
@@ -1560,6 +1518,7 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
     }
 
     setShapes([]);
+    setVerticalConnections([]);
     addToHistory([]);
     setDrawingState({
       activeShapeTool: null,
@@ -1573,8 +1532,336 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
     setHasUnsavedChanges(false); // Reset unsaved changes when clearing
   }, [addToHistory, runValidation, shapes.length]);
 
+  // Building levels: the canvas edits one level at a time
+  const levelRoomCounts = useMemo(() => shapes.reduce<Record<string, number>>((counts, shape) => {
+    const levelId = getItemLevelId(shape, levels);
+    counts[levelId] = (counts[levelId] || 0) + 1;
+    return counts;
+  }, {}), [shapes, levels]);
+
+  const handleLevelChange = useCallback((levelId: string) => {
+    setActiveLevelId(levelId);
+    setDrawingState(prev => ({ ...prev, selectedShapeId: null, selectedShapeIds: [], hoveredShapeId: null }));
+    setSelectedDoorPlacementId(null);
+    setShowPropertiesPanel(false);
+  }, []);
+
+  const handleLevelAdd = useCallback((level: LayoutLevel) => {
+    setLevels(prev => [...prev, level]);
+    handleLevelChange(level.id);
+    setHasUnsavedChanges(true);
+  }, [handleLevelChange]);
+
+  const handleLevelUpdate = useCallback((levelId: string, updates: Partial<LayoutLevel>) => {
+    setLevels(prev => prev.map(level => (level.id === levelId ? { ...level, ...updates } : level)));
+    setHasUnsavedChanges(true);
+  }, []);
+
+  const handleLevelDelete = useCallback((levelId: string) => {
+    const level = levels.find(l => l.id === levelId);
+    if (!level || levels.length <= 1) return;
+
+    const removedIds = new Set(filterByLevel(shapes, levelId, levels).map(shape => shape.id));
+    if (removedIds.size > 0 && !window.confirm(`Delete "${level.name}" and its ${removedIds.size} rooms?`)) {
+      return;
+    }
+
+    const remainingLevels = levels.filter(l => l.id !== levelId);
+    const newShapes = shapes.filter(shape => !removedIds.has(shape.id));
+    setLevels(remainingLevels);
+    setShapes(newShapes);
+    addToHistory(newShapes);
+    runValidation(newShapes);
+    setDoorConnections(prev => prev.filter(conn => !removedIds.has(conn.fromShape.shapeId) && !removedIds.has(conn.toShape.shapeId)));
+    setDoorPlacements(prev => prev.filter(door => !removedIds.has(door.shape1Id) && !removedIds.has(door.shape2Id)));
+    setWalls(prev => prev.filter(wall => getItemLevelId(wall, levels) !== levelId));
+    setMeasurements(prev => prev.filter(measurement => getItemLevelId(measurement, levels) !== levelId));
+    setVerticalConnections(prev => pruneVerticalConnections(prev, new Set(newShapes.map(shape => shape.id))));
+    handleLevelChange(remainingLevels[0].id);
+    setHasUnsavedChanges(true);
+  }, [levels, shapes, addToHistory, runValidation, handleLevelChange]);
+
+  // Stack the core room onto every other level served and link the stack
+  const handleAddVerticalConnection = useCallback((request: VerticalConnectionRequest) => {
+    const core = shapes.find(shape => shape.id === request.coreShapeId);
+    if (!core) return;
+
+    const coreLevelId = getItemLevelId(core, levels);
+    const copies: ShapeProperties[] = request.levelIds
+      .filter(levelId => levelId !== coreLevelId)
+      .map(levelId => ({
+        ...core,
+        id: generateShapeId(),
+        levelId,
+        customProperties: { ...core.customProperties },
+      }));
+    const stack = new Map([[coreLevelId, core.id], ...copies.map(copy => [copy.levelId!, copy.id] as [string, string])]);
+    const shapeIds = sortLevels(levels)
+      .filter(level => stack.has(level.id))
+      .map(level => stack.get(level.id)!);
+
+    const newShapes = [...shapes, ...copies];
+    setShapes(newShapes);
+    addToHistory(newShapes);
+    runValidation(newShapes);
+    setVerticalConnections(prev => [...prev, {
+      id: `vertical-${Date.now()}`,
+      name: request.name,
+      type: request.type,
+      shapeIds,
+    }]);
+    setHasUnsavedChanges(true);
+    setSnackbarMessage(`${request.name} links ${shapeIds.length} levels`);
+    setSnackbarSeverity('success');
+    setSnackbarOpen(true);
+  }, [shapes, levels, generateShapeId, addToHistory, runValidation]);
+
+  const handleDeleteVerticalConnection = useCallback((connectionId: string) => {
+    setVerticalConnections(prev => prev.filter(connection => connection.id !== connectionId));
+    setHasUnsavedChanges(true);
+  }, []);
+
+  // Real-time collaboration: levels, rooms, doors, vertical connections, walls and measurements are shared live
+  const [isCollaborating, setIsCollaborating] = useState(false);
+  const collaborationState = useMemo(() => ({
+    levels,
+    shapes,
+    doorConnections,
+    doorPlacements,
+    verticalConnections,
+    walls,
+    measurements,
+  }) as unknown as CollaborationState, [levels, shapes, doorConnections, doorPlacements, verticalConnections, walls, measurements]);
+
+  const handleRemoteLayoutState = useCallback((state: CollaborationState) => {
+    const nextLevels = getLayoutLevels(state.levels as unknown as LayoutLevel[]);
+    setLevels(nextLevels);
+    // Another user may have deleted the level being viewed
+    setActiveLevelId(prev => (nextLevels.some(level => level.id === prev) ? prev : nextLevels[0].id));
+    setShapes(state.shapes as unknown as ShapeProperties[]);
+    setDoorConnections(state.doorConnections as unknown as DoorConnection[]);
+    setDoorPlacements(state.doorPlacements as unknown as DoorPlacement[]);
+    setVerticalConnections(state.verticalConnections as unknown as VerticalConnection[]);
+    setWalls(state.walls as unknown as WallSegment[]);
+    setMeasurements(state.measurements as unknown as Measurement[]);
+  }, []);
+
+  const collaboration = useLayoutCollaboration({
+    layoutId: currentLayoutId,
+    userName: localStorage.getItem(LAYOUT_AUTHOR_STORAGE_KEY) || 'Anonymous',
+    enabled: isCollaborating && !!currentLayoutId,
+    state: collaborationState,
+    onRemoteState: handleRemoteLayoutState,
+    onRejected: (rejections) => {
+      setSnackbarMessage(`${rejections.length} edit(s) were discarded because another user changed or deleted the same item first`);
+      setSnackbarSeverity('warning');
+      setSnackbarOpen(true);
+    },
+  });
+  const { updatePresence } = collaboration;
+  const collaboratorsOnLevel = useMemo(
+    () => filterByLevel(collaboration.peers, activeLevelId, levels),
+    [collaboration.peers, levels, activeLevelId]
+  );
+  const levelNames = useMemo(() => Object.fromEntries(levels.map(level => [level.id, level.name])), [levels]);
+
+  useEffect(() => {
+    updatePresence({ selection: drawingState.selectedShapeIds, levelId: activeLevelId });
+  }, [drawingState.selectedShapeIds, activeLevelId, updatePresence]);
+
+  // Design review: comments pinned to rooms, doors, walls or canvas points of the saved layout
+  const { user, authEnabled, hasRole } = useAuth();
+  const [showReviewPanel, setShowReviewPanel] = useState(false);
+  const [reviewPinMode, setReviewPinMode] = useState(false);
+  const [draftReviewAnchor, setDraftReviewAnchor] = useState<ReviewAnchor | null>(null);
+  const [selectedReviewThreadId, setSelectedReviewThreadId] = useState<string | null>(null);
+  const review = useLayoutReview({
+    layoutId: currentLayoutId,
+    revision: currentLayoutRevision,
+    authorName: (authEnabled && user?.name) || localStorage.getItem(LAYOUT_AUTHOR_STORAGE_KEY) || 'Anonymous',
+  });
+  const mentionHandles = useMemo(() => {
+    const author = localStorage.getItem(LAYOUT_AUTHOR_STORAGE_KEY);
+    if (authEnabled && user) return getMentionHandles(user);
+    return author ? [author.replace(/\s+/g, '').toLowerCase()] : [];
+  }, [authEnabled, user]);
+
+  // Shared walls are computed per level so rooms stacked on different floors never share one
+  const reviewTargets = useMemo<ReviewTargets>(() => ({
+    shapes,
+    doorConnections,
+    doorPlacements,
+    walls: [
+      ...walls,
+      ...levels.flatMap(level => findAllSharedWalls(filterByLevel(shapes, level.id, levels))),
+    ],
+  }), [shapes, doorConnections, doorPlacements, walls, levels]);
+  const numberedReviewThreads = useMemo(
+    () => review.threads.map((thread, index) => ({ thread, number: index + 1, levelId: thread.anchor.levelId })),
+    [review.threads]
+  );
+  const reviewPinsOnLevel = useMemo(
+    () => filterByLevel(numberedReviewThreads, activeLevelId, levels)
+      .filter(({ thread }) => thread.status === 'open' || thread.id === selectedReviewThreadId),
+    [numberedReviewThreads, activeLevelId, levels, selectedReviewThreadId]
+  );
+
+  const handleSelectReviewThread = useCallback((threadId: string) => {
+    setSelectedReviewThreadId(threadId);
+    setShowReviewPanel(true);
+
+    const thread = review.threads.find(t => t.id === threadId);
+    if (!thread) return;
+    const threadLevelId = getItemLevelId(thread.anchor, levels);
+    if (threadLevelId !== activeLevelId) {
+      handleLevelChange(threadLevelId);
+    }
+
+    // Bring the pin into view
+    const container = scrollContainerRef.current;
+    if (container) {
+      const position = getAnchorPosition(thread.anchor, reviewTargets);
+      container.scrollTo({
+        left: position.x * canvasSettings.zoom - container.clientWidth / 2,
+        top: position.y * canvasSettings.zoom - container.clientHeight / 2,
+        behavior: 'smooth',
+      });
+    }
+  }, [review.threads, levels, activeLevelId, handleLevelChange, reviewTargets, canvasSettings.zoom]);
+
+  const handleCreateReviewThread = useCallback(async (body: string) => {
+    if (!draftReviewAnchor) return;
+    const thread = await review.createThread(draftReviewAnchor, body);
+    setDraftReviewAnchor(null);
+    setSelectedReviewThreadId(thread.id);
+  }, [draftReviewAnchor, review]);
+
+  // DXF (CAD) export/import handlers
+  const dxfInputRef = useRef<HTMLInputElement>(null);
+
+  const [showPdfDialog, setShowPdfDialog] = useState(false);
+
+  const exportLayoutData = useMemo(() => ({
+    shapes,
+    measurements,
+    walls,
+    canvasWidth: canvasSettings.width,
+    canvasHeight: canvasSettings.height,
+    unitConverter,
+    doorConnections,
+    doorPlacements,
+    levels,
+    review: review.threads.length > 0 ? {
+      threads: review.threads,
+      targets: reviewTargets,
+      revision: currentLayoutRevision,
+      approval: review.approval,
+    } : undefined,
+  }), [shapes, measurements, walls, canvasSettings, unitConverter, doorConnections, doorPlacements, levels,
+    review.threads, review.approval, reviewTargets, currentLayoutRevision]);
+
+  const handleExportDXF = useCallback(() => {
+    downloadDXF(exportLayoutData, { filename: currentLayoutName.replace(/[^a-z0-9-_ ]/gi, '').trim() || 'layout' });
+  }, [exportLayoutData, currentLayoutName]);
+
+  const handleExportPDF = useCallback((options: ExportOptions) => {
+    exportToPDF(exportLayoutData, options);
+  }, [exportLayoutData]);
+
+  const handleGenerateRoomDataSheet = useCallback(async (shapeId: string | null, format: 'html' | 'json') => {
+    // Open the print window before awaiting so popup blockers treat it as user-initiated
+    const printWindow = format === 'html' ? window.open('', '_blank') : null;
+
+    try {
+      const response = await fetch('http://localhost:5000/api/layouts/room-data-sheets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          layout: {
+            id: currentLayoutId || undefined,
+            name: currentLayoutName,
+            shapes,
+            doorConnections,
+            doorPlacements,
+            levels,
+            verticalConnections,
+          },
+          shapeIds: shapeId ? [shapeId] : undefined,
+          pixelsPerMeter,
+          format,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+
+      if (format === 'html') {
+        const html = await response.text();
+        if (!printWindow) throw new Error('Pop-up blocked - allow pop-ups to print room data sheets');
+        printWindow.document.write(html);
+        printWindow.document.close();
+        printWindow.focus();
+        printWindow.print();
+        return;
+      }
+
+      const report = await response.json();
+      const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      const baseName = currentLayoutName.replace(/[^a-z0-9-_ ]/gi, '').trim() || 'layout';
+      link.href = url;
+      link.download = `${baseName}-room-data-sheets.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      printWindow?.close();
+      console.error('Error generating room data sheet:', error);
+      setSnackbarMessage(`Failed to generate room data sheet: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setSnackbarSeverity('error');
+      setSnackbarOpen(true);
+    }
+  }, [shapes, doorConnections, doorPlacements, levels, verticalConnections, pixelsPerMeter, currentLayoutId, currentLayoutName]);
+
+  const handleImportDXF = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = importFromDXF(await file.text(), unitConverter);
+      if (result.shapes.length === 0) {
+        setSnackbarMessage('No closed polylines or circles found in the DXF file');
+        setSnackbarSeverity('warning');
+        setSnackbarOpen(true);
+        return;
+      }
+
+      setShapes(prevShapes => {
+        const newShapes = [...prevShapes, ...result.shapes.map(shape => ({ ...shape, levelId: activeLevelId }))];
+        addToHistory(newShapes);
+        runValidation(newShapes);
+        return newShapes;
+      });
+      setHasUnsavedChanges(true);
+      setSnackbarMessage(
+        `Imported ${result.shapes.length} room${result.shapes.length === 1 ? '' : 's'} from ${file.name}` +
+        (result.skippedEntities > 0 ? ` (${result.skippedEntities} open or unsupported entities skipped)` : '')
+      );
+      setSnackbarSeverity('success');
+      setSnackbarOpen(true);
+    } catch (error) {
+      console.error('Error importing DXF:', error);
+      setSnackbarMessage('Failed to import DXF file');
+      setSnackbarSeverity('error');
+      setSnackbarOpen(true);
+    }
+  }, [unitConverter, activeLevelId, addToHistory, runValidation]);
+
   // Save/Load Layout handlers
-  const handleSaveLayout = useCallback(async (name: string) => {
+  const handleSaveLayout = useCallback(async (name: string, revisionInfo: LayoutRevisionInfo = {}, options: LayoutSaveOptions = {}) => {
     const layoutData: LayoutData = {
       id: currentLayoutId || `layout-${Date.now()}`,
       name,
@@ -1582,6 +1869,14 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
       connections,
       doorConnections,
       doorPlacements,
+      // Drop members whose shapes were deleted since the groups were loaded
+      groups: groups.map(group => ({
+        ...group,
+        nodeIds: group.nodeIds.filter(nodeId => shapes.some(shape => shape.id === nodeId)),
+      })),
+      flowSequences,
+      levels,
+      verticalConnections: pruneVerticalConnections(verticalConnections, new Set(shapes.map(shape => shape.id))),
       canvasSettings: {
         width: canvasSettings.width,
         height: canvasSettings.height,
@@ -1601,13 +1896,15 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
     try {
       let response;
       if (currentLayoutId) {
-        // Update existing layout
+        // Update existing layout; a save over a newer revision or someone else's lock is refused
+        const baseRevision = options.baseRevision ?? currentLayoutRevision;
         response = await fetch(`http://localhost:5000/api/layouts/${currentLayoutId}`, {
           method: 'PUT',
           headers: {
             'Content-Type': 'application/json',
+            ...(baseRevision !== undefined ? { 'If-Match': `"${baseRevision}"` } : {}),
           },
-          body: JSON.stringify(layoutData),
+          body: JSON.stringify({ ...layoutData, revision: revisionInfo, overrideLock: options.overrideLock }),
         });
       } else {
         // Create new layout
@@ -1616,10 +1913,15 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
           headers: {
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify(layoutData),
+          body: JSON.stringify({ ...layoutData, revision: revisionInfo, projectId: options.projectId || null }),
         });
       }
 
+      if (response.status === 409 || response.status === 423) {
+        // Conflict or lock details are shown by the save dialog
+        const body = await response.json();
+        throw new ApiError(body.error, response.status, body);
+      }
       if (!response.ok) {
         throw new Error('Failed to save layout');
       }
@@ -1629,26 +1931,31 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
       // Update current layout info
       setCurrentLayoutId(result.id || layoutData.id);
       setCurrentLayoutName(name);
+      setCurrentLayoutRevision(result.revision);
+      // Groups copied from another layout come back with new IDs
+      if (result.groups) setGroups(result.groups);
       setHasUnsavedChanges(false); // Reset unsaved changes flag
 
       // Show success message
-      setSnackbarMessage('Layout saved successfully!');
+      setSnackbarMessage(result.version ? `Layout saved as v${result.version}` : 'Layout saved successfully!');
       setSnackbarSeverity('success');
       setSnackbarOpen(true);
 
       console.log('✅ Layout saved:', result);
     } catch (error) {
       console.error('Error saving layout:', error);
-      setSnackbarMessage('Failed to save layout');
-      setSnackbarSeverity('error');
-      setSnackbarOpen(true);
+      if (!(error instanceof ApiError)) {
+        setSnackbarMessage('Failed to save layout');
+        setSnackbarSeverity('error');
+        setSnackbarOpen(true);
+      }
       throw error;
     }
-  }, [shapes, connections, doorConnections, doorPlacements, canvasSettings, currentLayoutId]);
+  }, [shapes, connections, doorConnections, doorPlacements, groups, flowSequences, levels, verticalConnections, canvasSettings, currentLayoutId, currentLayoutRevision]);
 
-  const handleLoadLayout = useCallback(async (layoutId: string) => {
+  const handleLoadLayout = useCallback(async (layoutId: string, skipUnsavedCheck = false) => {
     // Show confirmation if there are unsaved changes
-    if (hasUnsavedChanges) {
+    if (hasUnsavedChanges && !skipUnsavedCheck) {
       if (!window.confirm('You have unsaved changes. Loading a new layout will lose these changes. Continue?')) {
         return;
       }
@@ -1669,6 +1976,11 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
       setConnections(data.connections || []);
       setDoorConnections(data.doorConnections || []);
       setDoorPlacements(data.doorPlacements || []);
+      setGroups(data.groups || []);
+      setFlowSequences(data.flowSequences || []);
+      setLevels(getLayoutLevels(data.levels));
+      setActiveLevelId(getLayoutLevels(data.levels)[0].id);
+      setVerticalConnections(data.verticalConnections || []);
 
       // Load canvas settings
       if (data.canvasSettings) {
@@ -1686,6 +1998,8 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
       // Update current layout info
       setCurrentLayoutId(layout.id);
       setCurrentLayoutName(data.name);
+      setCurrentLayoutRevision(layout.revision);
+      setCurrentLayoutLock(layout.lock || null);
       setHasUnsavedChanges(false); // Reset unsaved changes flag
 
       // Clear history and add loaded state
@@ -1723,6 +2037,107 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
     }
   }, []);
 
+  // Advisory edit lock of the current layout
+  const handleFetchLock = useCallback(async () => {
+    if (!currentLayoutId) return;
+
+    const response = await fetch(`http://localhost:5000/api/layouts/${currentLayoutId}/lock`);
+    if (response.ok) {
+      setCurrentLayoutLock((await response.json()).lock);
+    }
+  }, [currentLayoutId]);
+
+  const handleAcquireLock = useCallback(async (owner: string, minutes: number, force = false) => {
+    if (!currentLayoutId) return;
+
+    const response = await fetch(`http://localhost:5000/api/layouts/${currentLayoutId}/lock`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ owner, minutes, force }),
+    });
+    const body = await response.json().catch(() => ({}));
+
+    if (body.lock !== undefined) {
+      setCurrentLayoutLock(body.lock);
+    }
+    if (!response.ok) {
+      throw new Error(body.error || 'Failed to lock layout');
+    }
+  }, [currentLayoutId]);
+
+  const handleReleaseLock = useCallback(async (owner: string, force = false) => {
+    if (!currentLayoutId) return;
+
+    const params = new URLSearchParams({ owner, ...(force ? { force: 'true' } : {}) });
+    const response = await fetch(`http://localhost:5000/api/layouts/${currentLayoutId}/lock?${params}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      if (body.lock !== undefined) setCurrentLayoutLock(body.lock);
+      throw new Error(body.error || 'Failed to unlock layout');
+    }
+    setCurrentLayoutLock(null);
+  }, [currentLayoutId]);
+
+  // Someone may have locked the layout since it was loaded
+  useEffect(() => {
+    if (showSaveDialog) {
+      handleFetchLock().catch(error => console.error('Error fetching layout lock:', error));
+    }
+  }, [showSaveDialog, handleFetchLock]);
+
+  const handleFetchRevisions = useCallback(async (layoutId: string): Promise<LayoutRevisionSummary[]> => {
+    const response = await fetch(`http://localhost:5000/api/layouts/${layoutId}/revisions`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch layout history');
+    }
+
+    return response.json();
+  }, []);
+
+  const handleDiffRevisions = useCallback(async (layoutId: string, fromRevision: number, toRevision: number): Promise<LayoutDiff> => {
+    const response = await fetch(
+      `http://localhost:5000/api/layouts/${layoutId}/revisions/diff?from=${fromRevision}&to=${toRevision}`
+    );
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || 'Failed to compare revisions');
+    }
+
+    return response.json();
+  }, []);
+
+  const handleRestoreRevision = useCallback(async (layoutId: string, revision: number) => {
+    if (hasUnsavedChanges && !window.confirm('You have unsaved changes that will be lost when the restored layout is loaded. Continue?')) {
+      return;
+    }
+
+    // Restoring the open layout is refused when someone saved it since it was loaded
+    const baseRevision = layoutId === currentLayoutId ? currentLayoutRevision : undefined;
+    const response = await fetch(`http://localhost:5000/api/layouts/${layoutId}/revisions/${revision}/restore`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(baseRevision !== undefined ? { 'If-Match': `"${baseRevision}"` } : {}),
+      },
+      body: JSON.stringify({ author: localStorage.getItem(LAYOUT_AUTHOR_STORAGE_KEY) || undefined }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || 'Failed to restore revision');
+    }
+
+    await handleLoadLayout(layoutId, true);
+    setSnackbarMessage(`Restored revision ${revision}`);
+  }, [handleLoadLayout, hasUnsavedChanges, currentLayoutId, currentLayoutRevision]);
+
   const handleDeleteLayout = useCallback(async (layoutId: string) => {
     try {
       const response = await fetch(`http://localhost:5000/api/layouts/${layoutId}`, {
@@ -1737,6 +2152,8 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
       if (layoutId === currentLayoutId) {
         setCurrentLayoutId(null);
         setCurrentLayoutName('Untitled Layout');
+        setCurrentLayoutRevision(undefined);
+        setCurrentLayoutLock(null);
       }
 
       setSnackbarMessage('Layout deleted successfully');
@@ -1762,20 +2179,20 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
   const handleFitToWindow = useCallback(() => {
     const container = scrollContainerRef.current;
 
-    if (!container || shapes.length === 0) {
+    if (!container || levelShapes.length === 0) {
       console.log('❌ Fit to window: No container or no shapes');
       return;
     }
 
-    console.log('🎯 Fit to window: Starting with', shapes.length, 'shapes');
+    console.log('🎯 Fit to window: Starting with', levelShapes.length, 'shapes');
 
-    // Calculate bounding box of all shapes
+    // Calculate bounding box of all shapes on the active level
     let minX = Infinity;
     let minY = Infinity;
     let maxX = -Infinity;
     let maxY = -Infinity;
 
-    shapes.forEach(shape => {
+    levelShapes.forEach(shape => {
       // For polygon shapes, calculate actual bounds from points
       if (polygonRenderTypes.has(shape.shapeType)) {
         const points = computePointsRelative(shape);
@@ -1857,7 +2274,7 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
         });
       });
     });
-  }, [shapes, polygonRenderTypes, computePointsRelative, canvasSettings.zoom]);
+  }, [levelShapes, polygonRenderTypes, canvasSettings.zoom]);
 
   const handleToggleGrid = useCallback(() => {
     setCanvasSettings(prev => ({ ...prev, showGrid: !prev.showGrid }));
@@ -1880,12 +2297,13 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
   const { handleSuggestionClick } = useSuggestions({
     selectedShapeId: drawingState.selectedShapeId,
     selectedShapeNeo4jNode: (selectedShape as any)?.assignedNodeName || null,
-    shapes,
-    onShapeCreate: useCallback((newShape: ShapeProperties) => {
+    shapes: levelShapes,
+    onShapeCreate: useCallback((suggestedShape: ShapeProperties) => {
+      const newShape = { ...suggestedShape, levelId: activeLevelId };
       setShapes(prev => [...prev, newShape]);
       addToHistory([...shapes, newShape]);
       runValidation([...shapes, newShape]);
-    }, [shapes, addToHistory, runValidation]),
+    }, [shapes, activeLevelId, addToHistory, runValidation]),
     enabled: true
   });
 
@@ -2027,7 +2445,17 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
 
   const handleContainerMouseMove = useCallback((e: React.MouseEvent) => {
     // Panning is now handled by document-level listener in useEffect
-  }, []);
+    // Share the cursor in canvas coordinates with collaborators
+    const content = contentRef.current;
+    if (!content) return;
+    const rect = content.getBoundingClientRect();
+    updatePresence({
+      cursor: {
+        x: (e.clientX - rect.left) / canvasSettings.zoom,
+        y: (e.clientY - rect.top) / canvasSettings.zoom,
+      },
+    });
+  }, [updatePresence, canvasSettings.zoom]);
 
   const handleContainerMouseUp = useCallback(() => {
     // Panning is now handled by document-level listener in useEffect
@@ -2081,11 +2509,29 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
   const handleCanvasClick = useCallback((e: React.MouseEvent) => {
     const target = e.target as HTMLElement;
 
+    // Place a review comment pin on whatever is under the cursor
+    if (reviewPinMode && contentRef.current) {
+      const rect = contentRef.current.getBoundingClientRect();
+      const point = {
+        x: (e.clientX - rect.left) / canvasSettings.zoom,
+        y: (e.clientY - rect.top) / canvasSettings.zoom,
+      };
+      setDraftReviewAnchor(resolveReviewAnchor(point, {
+        shapes: levelShapes,
+        doorConnections: levelDoorConnections,
+        doorPlacements: levelDoorPlacements,
+        walls: [...filterByLevel(walls, activeLevelId, levels), ...sharedWalls],
+      }, activeLevelId));
+      setReviewPinMode(false);
+      return;
+    }
+
     // Only handle canvas background clicks (not shape clicks) in door mode
     if (drawingMode === 'door' && !target.closest('[data-shape-overlay="true"]')) {
       handleDoorConnectionClick(e);
     }
-  }, [drawingMode, handleDoorConnectionClick]);
+  }, [drawingMode, handleDoorConnectionClick, reviewPinMode, canvasSettings.zoom, levelShapes, levelDoorConnections,
+    levelDoorPlacements, walls, activeLevelId, levels, sharedWalls]);
 
   const startShapeResize = useCallback((e: React.MouseEvent, shape: ShapeProperties, handle: 'tl' | 'tr' | 'bl' | 'br' | 't' | 'r' | 'b' | 'l') => {
     if (drawingState.isDrawing) return;
@@ -2230,6 +2676,7 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
         if (e.shiftKey && (e.key === 's' || e.key === 'S')) {
           e.preventDefault();
           setCurrentLayoutId(null); // Clear current ID to force save as new
+          setCurrentLayoutLock(null);
           setShowSaveDialog(true);
           return;
         }
@@ -2327,6 +2774,26 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
               ({shapes.length} shapes, {connections.length + doorConnections.length} connections)
             </span>
           )}
+          <LevelBar
+            levels={levels}
+            activeLevelId={activeLevelId}
+            roomCounts={levelRoomCounts}
+            verticalConnectionCount={verticalConnections.length}
+            onLevelChange={handleLevelChange}
+            onLevelAdd={handleLevelAdd}
+            onLevelUpdate={handleLevelUpdate}
+            onLevelDelete={handleLevelDelete}
+            onOpenVerticalConnections={() => setShowVerticalConnectionDialog(true)}
+          />
+          <CollaborationBar
+            canCollaborate={!!currentLayoutId}
+            active={isCollaborating && !!currentLayoutId}
+            status={collaboration.status}
+            color={collaboration.color}
+            peers={collaboration.peers}
+            levelNames={levelNames}
+            onToggle={() => setIsCollaborating(prev => !prev)}
+          />
         </div>
 
         <div style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
@@ -2391,6 +2858,137 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
             <FolderOpenIcon style={{ fontSize: '20px' }} />
             <span>Load Layout</span>
           </button>
+
+          <button
+            style={{
+              padding: '10px 20px',
+              fontSize: '16px',
+              fontWeight: 'bold',
+              backgroundColor: '#607d8b',
+              color: 'white',
+              border: '2px solid #546e7a',
+              borderRadius: '6px',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '10px',
+              transition: 'all 0.3s ease',
+              boxShadow: '0 2px 4px rgba(0,0,0,0.2)'
+            }}
+            onClick={() => setShowReviewPanel(prev => !prev)}
+            onMouseOver={(e) => {
+              e.currentTarget.style.backgroundColor = '#546e7a';
+              e.currentTarget.style.transform = 'scale(1.05)';
+            }}
+            onMouseOut={(e) => {
+              e.currentTarget.style.backgroundColor = '#607d8b';
+              e.currentTarget.style.transform = 'scale(1)';
+            }}
+            title="Review comments and approval of this layout"
+          >
+            <ReviewIcon style={{ fontSize: '20px' }} />
+            <span>Review{review.threads.some(t => t.status === 'open') ? ` (${review.threads.filter(t => t.status === 'open').length})` : ''}</span>
+          </button>
+
+          <button
+            style={{
+              padding: '10px 20px',
+              fontSize: '16px',
+              fontWeight: 'bold',
+              backgroundColor: '#607d8b',
+              color: 'white',
+              border: '2px solid #546e7a',
+              borderRadius: '6px',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '10px',
+              transition: 'all 0.3s ease',
+              boxShadow: '0 2px 4px rgba(0,0,0,0.2)'
+            }}
+            onClick={() => setShowPdfDialog(true)}
+            onMouseOver={(e) => {
+              e.currentTarget.style.backgroundColor = '#546e7a';
+              e.currentTarget.style.transform = 'scale(1.05)';
+            }}
+            onMouseOut={(e) => {
+              e.currentTarget.style.backgroundColor = '#607d8b';
+              e.currentTarget.style.transform = 'scale(1)';
+            }}
+            title="Export scaled drawing sheets with title block and room schedule"
+          >
+            <PdfIcon style={{ fontSize: '20px' }} />
+            <span>Export PDF</span>
+          </button>
+
+          <button
+            style={{
+              padding: '10px 20px',
+              fontSize: '16px',
+              fontWeight: 'bold',
+              backgroundColor: '#607d8b',
+              color: 'white',
+              border: '2px solid #546e7a',
+              borderRadius: '6px',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '10px',
+              transition: 'all 0.3s ease',
+              boxShadow: '0 2px 4px rgba(0,0,0,0.2)'
+            }}
+            onClick={handleExportDXF}
+            onMouseOver={(e) => {
+              e.currentTarget.style.backgroundColor = '#546e7a';
+              e.currentTarget.style.transform = 'scale(1.05)';
+            }}
+            onMouseOut={(e) => {
+              e.currentTarget.style.backgroundColor = '#607d8b';
+              e.currentTarget.style.transform = 'scale(1)';
+            }}
+            title="Export rooms, walls, doors and measurements to DXF for CAD"
+          >
+            <FileDownloadIcon style={{ fontSize: '20px' }} />
+            <span>Export DXF</span>
+          </button>
+
+          <button
+            style={{
+              padding: '10px 20px',
+              fontSize: '16px',
+              fontWeight: 'bold',
+              backgroundColor: '#607d8b',
+              color: 'white',
+              border: '2px solid #546e7a',
+              borderRadius: '6px',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '10px',
+              transition: 'all 0.3s ease',
+              boxShadow: '0 2px 4px rgba(0,0,0,0.2)'
+            }}
+            onClick={() => dxfInputRef.current?.click()}
+            onMouseOver={(e) => {
+              e.currentTarget.style.backgroundColor = '#546e7a';
+              e.currentTarget.style.transform = 'scale(1.05)';
+            }}
+            onMouseOut={(e) => {
+              e.currentTarget.style.backgroundColor = '#607d8b';
+              e.currentTarget.style.transform = 'scale(1)';
+            }}
+            title="Import closed polylines from a DXF file as rooms"
+          >
+            <FileUploadIcon style={{ fontSize: '20px' }} />
+            <span>Import DXF</span>
+          </button>
+          <input
+            ref={dxfInputRef}
+            type="file"
+            accept=".dxf"
+            style={{ display: 'none' }}
+            onChange={handleImportDXF}
+          />
         </div>
       </div>
 
@@ -2463,7 +3061,7 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
               <g style={{ pointerEvents: 'all' }}>
                 <ConnectionRenderer
                   connections={connections}
-                  shapes={shapes}
+                  shapes={levelShapes}
                   selectedConnectionId={selectedConnectionId}
                   onConnectionClick={(id) => {
                     setSelectedConnectionId(id);
@@ -2476,7 +3074,7 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
 
             {/* Door Connection Layer */}
             <DoorConnectionRenderer
-              connections={doorConnections}
+              connections={levelDoorConnections}
               onConnectionClick={(id) => setSelectedDoorConnectionId(id)}
             />
 
@@ -2494,8 +3092,8 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
             >
               <DoorPlacementOverlay
                 sharedWalls={sharedWalls}
-                shapes={shapes}
-                doorPlacements={doorPlacements}
+                shapes={levelShapes}
+                doorPlacements={levelDoorPlacements}
                 isDoorMode={drawingMode === 'door'}
                 onDoorPlace={handleDoorPlace}
                 onDoorMove={handleDoorMove}
@@ -2504,9 +3102,32 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
               />
             </svg>
 
+            {/* Collaborators' cursors and selections */}
+            {collaboratorsOnLevel.length > 0 && (
+              <CollaboratorsOverlay
+                peers={collaboratorsOnLevel}
+                shapes={levelShapes}
+                width={canvasSettings.width}
+                height={canvasSettings.height}
+              />
+            )}
+
+            {/* Review comment pins */}
+            {(reviewPinsOnLevel.length > 0 || draftReviewAnchor) && (
+              <ReviewPinsOverlay
+                pins={reviewPinsOnLevel}
+                draftAnchor={draftReviewAnchor?.levelId === activeLevelId ? draftReviewAnchor : null}
+                targets={reviewTargets}
+                selectedThreadId={selectedReviewThreadId}
+                width={canvasSettings.width}
+                height={canvasSettings.height}
+                onPinClick={handleSelectReviewThread}
+              />
+            )}
+
             {/* Measurement Layer */}
             <MeasurementRenderer
-              measurements={measurements}
+              measurements={levelMeasurements}
               unitConverter={unitConverter}
               selectedMeasurementId={selectedMeasurementId}
               onMeasurementClick={(id) => setSelectedMeasurementId(id)}
@@ -2524,7 +3145,7 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
                 zIndex: 2,
               }}
             >
-              {shapes.map((shape) => {
+              {levelShapes.map((shape) => {
                 // Get validation state for this shape (if in door mode and validating)
                 const validationState = shapeValidationStates[shape.id];
                 const isValidating = drawingMode === 'door' && doorConnectionDrawing.firstShapeId && validationState;
@@ -2860,6 +3481,7 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
           onShapeDelete={handleShapeDelete}
           onConnectionDelete={handleConnectionDelete}
           onShapeDuplicate={handleShapeDuplicate}
+          onGenerateRoomDataSheet={handleGenerateRoomDataSheet}
           onClose={() => {
             setShowPropertiesPanel(false);
             setDrawingState(prev => ({ ...prev, selectedShapeId: null }));
@@ -2869,6 +3491,33 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
         />
       )}
 
+      {/* Validation Overlay - pharmaceutical checks, pressure cascade and flow routing across doors */}
+      {shapes.length > 0 && (
+        <ValidationOverlay
+          shapes={shapes}
+          doorConnections={doorConnections}
+          doorPlacements={doorPlacements}
+          flowSequences={flowSequences}
+          onFlowSequencesChange={(sequences) => {
+            setFlowSequences(sequences);
+            setHasUnsavedChanges(true);
+          }}
+          pixelsPerMeter={pixelsPerMeter}
+          levels={levels}
+          verticalConnections={verticalConnections}
+          validationResult={validationResult}
+          onIssueHighlight={() => {}}
+          onShapeSelect={(shapeId) => {
+            const shape = shapes.find(s => s.id === shapeId);
+            if (shape) setActiveLevelId(getItemLevelId(shape, levels));
+            setDrawingState(prev => ({ ...prev, selectedShapeId: shapeId, selectedShapeIds: [shapeId] }));
+            setShowPropertiesPanel(true);
+          }}
+          isVisible={showValidationOverlay}
+          onToggleVisibility={() => setShowValidationOverlay(prev => !prev)}
+        />
+      )}
+
       {/* Door Properties Panel - Shows when a door is selected */}
       {selectedDoorPlacementId && (
         <Paper
@@ -3092,7 +3741,7 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
             setDrawingMode('select');
           }}
           onWallCreate={(wall) => {
-            setWalls(prev => [...prev, wall]);
+            setWalls(prev => [...prev, { ...wall, levelId: activeLevelId }]);
             console.log('✅ Wall created:', wall);
           }}
           pixelsPerFoot={unitConverter.getConfig().pixelsPerUnit}
@@ -3150,10 +3799,54 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
       <SaveLayoutDialog
         open={showSaveDialog}
         currentName={currentLayoutName}
+        lock={currentLayoutId ? currentLayoutLock : null}
         onClose={() => setShowSaveDialog(false)}
         onSave={handleSaveLayout}
+        showProject={!currentLayoutId}
+        onReload={currentLayoutId ? () => handleLoadLayout(currentLayoutId) : undefined}
+        onLock={currentLayoutId ? handleAcquireLock : undefined}
+        onUnlock={currentLayoutId ? handleReleaseLock : undefined}
       />
 
+      {/* PDF Export Dialog */}
+      <PdfExportDialog
+        open={showPdfDialog}
+        layoutName={currentLayoutName}
+        reviewThreadCount={review.threads.length}
+        onClose={() => setShowPdfDialog(false)}
+        onExport={handleExportPDF}
+      />
+
+      {/* Design Review Panel */}
+      {showReviewPanel && (
+        <ReviewPanel
+          threads={review.threads}
+          approval={review.approval}
+          revision={currentLayoutRevision}
+          loading={review.loading}
+          error={currentLayoutId ? review.error : 'Save the layout to start a review'}
+          targets={reviewTargets}
+          mentionHandles={mentionHandles}
+          canComment={!!currentLayoutId && hasRole('designer')}
+          canApprove={!!currentLayoutId && hasRole('reviewer')}
+          pinMode={reviewPinMode}
+          draftAnchor={draftReviewAnchor}
+          selectedThreadId={selectedReviewThreadId}
+          onTogglePinMode={() => setReviewPinMode(prev => !prev)}
+          onCreateThread={handleCreateReviewThread}
+          onDiscardDraft={() => setDraftReviewAnchor(null)}
+          onSelectThread={handleSelectReviewThread}
+          onReply={review.reply}
+          onSetThreadStatus={review.setThreadStatus}
+          onSetApproval={review.setApproval}
+          onClose={() => {
+            setShowReviewPanel(false);
+            setReviewPinMode(false);
+            setDraftReviewAnchor(null);
+          }}
+        />
+      )}
+
       {/* Load Layout Dialog */}
       <LoadLayoutDialog
         open={showLoadDialog}
@@ -3161,9 +3854,25 @@ const LayoutDesigner: React.FC<LayoutDesignerProps> = ({
         onLoad={handleLoadLayout}
         onDelete={handleDeleteLayout}
         onFetchLayouts={handleFetchLayouts}
+        onFetchRevisions={handleFetchRevisions}
+        onDiffRevisions={handleDiffRevisions}
+        onRestoreRevision={handleRestoreRevision}
+      />
+
+      {/* Stairs, lifts, hoists and shafts between levels */}
+      <VerticalConnectionDialog
+        open={showVerticalConnectionDialog}
+        levels={levels}
+        activeLevelId={activeLevelId}
+        shapes={shapes}
+        selectedShapeId={drawingState.selectedShapeId}
+        verticalConnections={verticalConnections}
+        onClose={() => setShowVerticalConnectionDialog(false)}
+        onAdd={handleAddVerticalConnection}
+        onDelete={handleDeleteVerticalConnection}
       />
 
-      {/* Cost Estimation Panel */}
+      {/* Cost Estimation Panel - every level of the building */}
       <CostEstimationPanel
         items={shapes.map(shape => ({
           id: shape.id,
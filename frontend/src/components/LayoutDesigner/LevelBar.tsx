@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  IconButton,
+  MenuItem,
+  Select,
+  TextField,
+  Tooltip
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Close as CloseIcon,
+  Delete as DeleteIcon,
+  Edit as EditIcon,
+  Layers as LayersIcon,
+  SwapVert as VerticalIcon
+} from '@mui/icons-material';
+import { LayoutLevel } from '../../types';
+import { getNextLevelElevation, sortLevels } from '../../utils/buildingLevels';
+
+interface LevelBarProps {
+  levels: LayoutLevel[];
+  activeLevelId: string;
+  roomCounts: Record<string, number>; // Rooms per level ID
+  verticalConnectionCount: number;
+  onLevelChange: (levelId: string) => void;
+  onLevelAdd: (level: LayoutLevel) => void;
+  onLevelUpdate: (levelId: string, updates: Partial<LayoutLevel>) => void;
+  onLevelDelete: (levelId: string) => void;
+  onOpenVerticalConnections: () => void;
+}
+
+type LevelForm = { name: string; elevation: string; floorToFloorHeight: string };
+
+const formatElevation = (elevation: number): string =>
+  `${elevation >= 0 ? '+' : ''}${elevation.toFixed(2)} m`;
+
+/**
+ * Switch between building levels, edit their elevation and floor-to-floor
+ * height, and open the stairs/lifts/hoists that link them
+ */
+const LevelBar: React.FC<LevelBarProps> = ({
+  levels,
+  activeLevelId,
+  roomCounts,
+  verticalConnectionCount,
+  onLevelChange,
+  onLevelAdd,
+  onLevelUpdate,
+  onLevelDelete,
+  onOpenVerticalConnections
+}) => {
+  // null = closed, 'new' = adding a level, otherwise the ID of the level being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<LevelForm>({ name: '', elevation: '0', floorToFloorHeight: '4.5' });
+
+  const activeLevel = levels.find(level => level.id === activeLevelId) || levels[0];
+  const elevation = parseFloat(form.elevation);
+  const floorToFloorHeight = parseFloat(form.floorToFloorHeight);
+  const isValid = form.name.trim() !== '' && Number.isFinite(elevation) && floorToFloorHeight > 0;
+
+  const openNew = () => {
+    const top = sortLevels(levels)[levels.length - 1];
+    setForm({
+      name: `Level ${levels.length}`,
+      elevation: String(getNextLevelElevation(levels)),
+      floorToFloorHeight: String(top.floorToFloorHeight)
+    });
+    setEditing('new');
+  };
+
+  const openEdit = () => {
+    setForm({
+      name: activeLevel.name,
+      elevation: String(activeLevel.elevation),
+      floorToFloorHeight: String(activeLevel.floorToFloorHeight)
+    });
+    setEditing(activeLevel.id);
+  };
+
+  const handleSave = () => {
+    const values = { name: form.name.trim(), elevation, floorToFloorHeight };
+    if (editing === 'new') {
+      onLevelAdd({ id: `level-${Date.now()}`, ...values });
+    } else if (editing) {
+      onLevelUpdate(editing, values);
+    }
+    setEditing(null);
+  };
+
+  return (
+    <Box display="flex" alignItems="center" gap={1}>
+      <LayersIcon fontSize="small" color="action" />
+      <FormControl size="small" sx={{ minWidth: 220 }}>
+        <Select
+          value={activeLevel.id}
+          onChange={(e) => onLevelChange(e.target.value)}
+          renderValue={() => `${activeLevel.name} (${formatElevation(activeLevel.elevation)})`}
+        >
+          {sortLevels(levels).reverse().map(level => (
+            <MenuItem key={level.id} value={level.id}>
+              <Box display="flex" justifyContent="space-between" width="100%" gap={2}>
+                <span>{level.name}</span>
+                <span style={{ color: '#666' }}>
+                  {formatElevation(level.elevation)} · {roomCounts[level.id] || 0} rooms
+                </span>
+              </Box>
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+      <Tooltip title="Add level">
+        <IconButton size="small" onClick={openNew}>
+          <AddIcon fontSize="small" />
+        </IconButton>
+      </Tooltip>
+      <Tooltip title="Edit level">
+        <IconButton size="small" onClick={openEdit}>
+          <EditIcon fontSize="small" />
+        </IconButton>
+      </Tooltip>
+      <Tooltip title={levels.length > 1 ? 'Delete level and its rooms' : 'A layout needs at least one level'}>
+        <span>
+          <IconButton size="small" disabled={levels.length <= 1} onClick={() => onLevelDelete(activeLevel.id)}>
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Button size="small" startIcon={<VerticalIcon />} onClick={onOpenVerticalConnections}>
+        Vertical Links
+        {verticalConnectionCount > 0 && <Chip size="small" label={verticalConnectionCount} sx={{ ml: 1 }} />}
+      </Button>
+
+      <Dialog open={editing !== null} onClose={() => setEditing(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>{editing === 'new' ? 'Add Level' : 'Edit Level'}</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            margin="dense"
+            label="Name"
+            fullWidth
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="e.g. Technical Floor"
+          />
+          <TextField
+            margin="dense"
+            label="Elevation (m)"
+            type="number"
+            fullWidth
+            value={form.elevation}
+            onChange={(e) => setForm({ ...form, elevation: e.target.value })}
+            helperText="Finished floor level above ground; negative for basements"
+          />
+          <TextField
+            margin="dense"
+            label="Floor-to-floor height (m)"
+            type="number"
+            fullWidth
+            value={form.floorToFloorHeight}
+            onChange={(e) => setForm({ ...form, floorToFloorHeight: e.target.value })}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEditing(null)} startIcon={<CloseIcon />}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!isValid} variant="contained">
+            {editing === 'new' ? 'Add Level' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default LevelBar;
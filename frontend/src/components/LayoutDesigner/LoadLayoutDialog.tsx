@@ -14,19 +14,30 @@ import {
   Box,
   Typography,
   IconButton,
-  Chip
+  Chip,
+  Checkbox,
+  Divider,
+  Tooltip
 } from '@mui/material';
 import {
   FolderOpen as FolderOpenIcon,
   Close as CloseIcon,
   Delete as DeleteIcon,
-  Refresh as RefreshIcon
+  Refresh as RefreshIcon,
+  History as HistoryIcon,
+  ArrowBack as ArrowBackIcon,
+  Restore as RestoreIcon,
+  CompareArrows as CompareArrowsIcon,
+  Lock as LockIcon
 } from '@mui/icons-material';
+import { LayoutDiff, LayoutLock, LayoutRevisionSummary } from '../../types';
+import { APPROVAL_LABELS } from '../../utils/layoutReview';
 
 interface LayoutSummary {
   id: string;
   name: string;
   shapeCount?: number;
+  lock?: LayoutLock | null;
   createdAt: string | null;
   updatedAt: string | null;
 }
@@ -37,20 +48,99 @@ interface LoadLayoutDialogProps {
   onLoad: (layoutId: string) => Promise<void>;
   onDelete?: (layoutId: string) => Promise<void>;
   onFetchLayouts: () => Promise<LayoutSummary[]>;
+  onFetchRevisions?: (layoutId: string) => Promise<LayoutRevisionSummary[]>;
+  onDiffRevisions?: (layoutId: string, fromRevision: number, toRevision: number) => Promise<LayoutDiff>;
+  onRestoreRevision?: (layoutId: string, revision: number) => Promise<void>;
 }
 
+const formatDate = (dateString: string | null) => {
+  if (!dateString) return 'N/A';
+  try {
+    return new Date(dateString).toLocaleString();
+  } catch {
+    return 'Invalid date';
+  }
+};
+
+export const formatLockExpiry = (lock: LayoutLock) =>
+  new Date(lock.expiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Change list between two revisions, grouped by kind of change
+ */
+export const RevisionDiffView: React.FC<{ diff: LayoutDiff; title?: string }> = ({ diff, title }) => {
+  const sections: { title: string; lines: string[] }[] = [
+    { title: 'Rooms added', lines: diff.shapes.added.map(s => s.name) },
+    { title: 'Rooms removed', lines: diff.shapes.removed.map(s => s.name) },
+    {
+      title: 'Rooms moved',
+      lines: diff.shapes.moved.map(s =>
+        `${s.name}: (${Math.round(s.from.x)}, ${Math.round(s.from.y)}) → (${Math.round(s.to.x)}, ${Math.round(s.to.y)})`
+      ),
+    },
+    {
+      title: 'Rooms resized',
+      lines: diff.shapes.resized.map(s =>
+        `${s.name}: ${Math.round(s.from.width)}×${Math.round(s.from.height)} → ${Math.round(s.to.width)}×${Math.round(s.to.height)}`
+      ),
+    },
+    {
+      title: 'Cleanroom class changes',
+      lines: diff.shapes.cleanroomClassChanged.map(s => `${s.name}: ${s.from || 'none'} → ${s.to || 'none'}`),
+    },
+    { title: 'Doors added', lines: diff.doors.added.map(d => `${d.between.join(' ↔ ')} (${d.flowType})`) },
+    { title: 'Doors removed', lines: diff.doors.removed.map(d => `${d.between.join(' ↔ ')} (${d.flowType})`) },
+    {
+      title: 'Doors changed',
+      lines: diff.doors.changed.map(d => `${d.between.join(' ↔ ')}: ${d.changes.join(', ')}`),
+    },
+  ].filter(section => section.lines.length > 0);
+
+  return (
+    <Box sx={{ mt: 2, p: 2, bgcolor: 'grey.50', borderRadius: 1 }}>
+      <Typography variant="subtitle2" gutterBottom>
+        {title || `Revision ${diff.fromRevision} → ${diff.toRevision}`}: {diff.totalChanges} change{diff.totalChanges === 1 ? '' : 's'}
+      </Typography>
+      {sections.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">No differences in rooms or doors</Typography>
+      ) : (
+        sections.map(section => (
+          <Box key={section.title} sx={{ mb: 1 }}>
+            <Typography variant="caption" fontWeight="bold" display="block">
+              {section.title} ({section.lines.length})
+            </Typography>
+            {section.lines.map((line, index) => (
+              <Typography key={index} variant="caption" display="block" sx={{ pl: 1 }}>
+                {line}
+              </Typography>
+            ))}
+          </Box>
+        ))
+      )}
+    </Box>
+  );
+};
+
 const LoadLayoutDialog: React.FC<LoadLayoutDialogProps> = ({
   open,
   onClose,
   onLoad,
   onDelete,
-  onFetchLayouts
+  onFetchLayouts,
+  onFetchRevisions,
+  onDiffRevisions,
+  onRestoreRevision
 }) => {
   const [layouts, setLayouts] = useState<LayoutSummary[]>([]);
   const [selectedId, setSelectedId] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [loadingLayout, setLoadingLayout] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [historyLayout, setHistoryLayout] = useState<LayoutSummary | null>(null);
+  const [revisions, setRevisions] = useState<LayoutRevisionSummary[]>([]);
+  const [compareRevisions, setCompareRevisions] = useState<number[]>([]);
+  const [diff, setDiff] = useState<LayoutDiff | null>(null);
+  const [historyBusy, setHistoryBusy] = useState(false);
 
   const fetchLayouts = async () => {
     setLoading(true);
@@ -71,6 +161,7 @@ const LoadLayoutDialog: React.FC<LoadLayoutDialogProps> = ({
     if (open) {
       fetchLayouts();
       setSelectedId(null);
+      setHistoryLayout(null);
     }
   }, [open]);
 
@@ -111,15 +202,164 @@ const LoadLayoutDialog: React.FC<LoadLayoutDialogProps> = ({
     }
   };
 
-  const formatDate = (dateString: string | null) => {
-    if (!dateString) return 'N/A';
+  const handleShowHistory = async (layout: LayoutSummary, event: React.MouseEvent) => {
+    event.stopPropagation();
+    if (!onFetchRevisions) return;
+
+    setHistoryLayout(layout);
+    setRevisions([]);
+    setCompareRevisions([]);
+    setDiff(null);
+    setError(null);
+    setHistoryBusy(true);
+
+    try {
+      setRevisions(await onFetchRevisions(layout.id));
+    } catch (err) {
+      console.error('Error fetching layout history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch layout history');
+    } finally {
+      setHistoryBusy(false);
+    }
+  };
+
+  // Keep at most two revisions selected for comparison
+  const toggleCompareRevision = (revision: number) => {
+    setDiff(null);
+    setCompareRevisions(prev =>
+      prev.includes(revision)
+        ? prev.filter(r => r !== revision)
+        : [...prev, revision].slice(-2)
+    );
+  };
+
+  const handleCompare = async () => {
+    if (!historyLayout || !onDiffRevisions || compareRevisions.length === 0) return;
+
+    // A single selection is compared with the revision before it
+    const [from, to] = compareRevisions.length === 2
+      ? [Math.min(...compareRevisions), Math.max(...compareRevisions)]
+      : [compareRevisions[0] - 1, compareRevisions[0]];
+
+    setHistoryBusy(true);
+    setError(null);
+
+    try {
+      setDiff(await onDiffRevisions(historyLayout.id, from, to));
+    } catch (err) {
+      console.error('Error comparing revisions:', err);
+      setError(err instanceof Error ? err.message : 'Failed to compare revisions');
+    } finally {
+      setHistoryBusy(false);
+    }
+  };
+
+  const handleRestore = async (revision: LayoutRevisionSummary) => {
+    if (!historyLayout || !onRestoreRevision) return;
+    if (!window.confirm(`Restore "${historyLayout.name}" to revision ${revision.revision} (v${revision.version})? This is recorded as a new revision.`)) return;
+
+    setHistoryBusy(true);
+    setError(null);
+
     try {
-      return new Date(dateString).toLocaleString();
-    } catch {
-      return 'Invalid date';
+      await onRestoreRevision(historyLayout.id, revision.revision);
+      onClose();
+    } catch (err) {
+      console.error('Error restoring revision:', err);
+      setError(err instanceof Error ? err.message : 'Failed to restore revision');
+    } finally {
+      setHistoryBusy(false);
     }
   };
 
+  const renderHistory = () => (
+    <>
+      {historyBusy && revisions.length === 0 ? (
+        <Box display="flex" justifyContent="center" py={4}>
+          <CircularProgress />
+        </Box>
+      ) : revisions.length === 0 ? (
+        <Box textAlign="center" py={4}>
+          <Typography variant="body1" color="text.secondary">
+            No revisions recorded for this layout
+          </Typography>
+        </Box>
+      ) : (
+        <List sx={{ maxHeight: 320, overflow: 'auto' }}>
+          {revisions.map((revision, index) => (
+            <ListItem
+              key={revision.id}
+              disablePadding
+              secondaryAction={
+                onRestoreRevision && index > 0 && (
+                  <Tooltip title="Restore this revision">
+                    <IconButton
+                      edge="end"
+                      onClick={() => handleRestore(revision)}
+                      disabled={historyBusy}
+                      size="small"
+                    >
+                      <RestoreIcon />
+                    </IconButton>
+                  </Tooltip>
+                )
+              }
+            >
+              <ListItemButton onClick={() => toggleCompareRevision(revision.revision)} dense>
+                <Checkbox
+                  edge="start"
+                  size="small"
+                  checked={compareRevisions.includes(revision.revision)}
+                  tabIndex={-1}
+                  disableRipple
+                />
+                <ListItemText
+                  primary={
+                    <Box display="flex" alignItems="center" gap={1}>
+                      <Typography variant="body2" fontWeight="bold">
+                        Revision {revision.revision}
+                      </Typography>
+                      <Chip label={`v${revision.version}`} size="small" variant="outlined" />
+                      {index === 0 && <Chip label="Current" size="small" color="primary" />}
+                      {revision.approval && revision.approval.status !== 'pending' && (
+                        <Tooltip title={`${revision.approval.reviewer || ''}${revision.approval.note ? `: ${revision.approval.note}` : ''}`}>
+                          <Chip
+                            label={APPROVAL_LABELS[revision.approval.status]}
+                            size="small"
+                            color={revision.approval.status === 'approved' ? 'success' : 'warning'}
+                          />
+                        </Tooltip>
+                      )}
+                    </Box>
+                  }
+                  secondary={
+                    <>
+                      <Typography variant="caption" display="block">
+                        {revision.author} · {formatDate(revision.createdAt)} · {revision.shapeCount} shapes
+                      </Typography>
+                      {revision.comment && (
+                        <Typography variant="caption" display="block" sx={{ fontStyle: 'italic' }}>
+                          {revision.comment}
+                        </Typography>
+                      )}
+                    </>
+                  }
+                />
+              </ListItemButton>
+            </ListItem>
+          ))}
+        </List>
+      )}
+
+      {diff && (
+        <>
+          <Divider sx={{ mt: 1 }} />
+          <RevisionDiffView diff={diff} />
+        </>
+      )}
+    </>
+  );
+
   return (
     <Dialog
       open={open}
@@ -129,10 +369,21 @@ const LoadLayoutDialog: React.FC<LoadLayoutDialogProps> = ({
     >
       <DialogTitle>
         <Box display="flex" justifyContent="space-between" alignItems="center">
-          <Typography variant="h6">Load Layout</Typography>
-          <IconButton onClick={fetchLayouts} disabled={loading} size="small">
-            <RefreshIcon />
-          </IconButton>
+          {historyLayout ? (
+            <Box display="flex" alignItems="center" gap={1}>
+              <IconButton onClick={() => setHistoryLayout(null)} size="small">
+                <ArrowBackIcon />
+              </IconButton>
+              <Typography variant="h6">History: {historyLayout.name}</Typography>
+            </Box>
+          ) : (
+            <>
+              <Typography variant="h6">Load Layout</Typography>
+              <IconButton onClick={fetchLayouts} disabled={loading} size="small">
+                <RefreshIcon />
+              </IconButton>
+            </>
+          )}
         </Box>
       </DialogTitle>
       <DialogContent>
@@ -142,7 +393,9 @@ const LoadLayoutDialog: React.FC<LoadLayoutDialogProps> = ({
           </Alert>
         )}
 
-        {loading ? (
+        {historyLayout ? (
+          renderHistory()
+        ) : loading ? (
           <Box display="flex" justifyContent="center" py={4}>
             <CircularProgress />
           </Box>
@@ -162,15 +415,27 @@ const LoadLayoutDialog: React.FC<LoadLayoutDialogProps> = ({
                 key={layout.id}
                 disablePadding
                 secondaryAction={
-                  onDelete && (
-                    <IconButton
-                      edge="end"
-                      onClick={(e) => handleDelete(layout.id, e)}
-                      size="small"
-                    >
-                      <DeleteIcon />
-                    </IconButton>
-                  )
+                  <>
+                    {onFetchRevisions && (
+                      <Tooltip title="Revision history">
+                        <IconButton
+                          onClick={(e) => handleShowHistory(layout, e)}
+                          size="small"
+                        >
+                          <HistoryIcon />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                    {onDelete && (
+                      <IconButton
+                        edge="end"
+                        onClick={(e) => handleDelete(layout.id, e)}
+                        size="small"
+                      >
+                        <DeleteIcon />
+                      </IconButton>
+                    )}
+                  </>
                 }
               >
                 <ListItemButton
@@ -188,6 +453,17 @@ const LoadLayoutDialog: React.FC<LoadLayoutDialogProps> = ({
                             variant="outlined"
                           />
                         )}
+                        {layout.lock && (
+                          <Tooltip title={layout.lock.note || 'Saves by others are refused until the lock is released or expires'}>
+                            <Chip
+                              icon={<LockIcon />}
+                              label={`Locked by ${layout.lock.owner} until ${formatLockExpiry(layout.lock)}`}
+                              size="small"
+                              color="warning"
+                              variant="outlined"
+                            />
+                          </Tooltip>
+                        )}
                       </Box>
                     }
                     secondary={
@@ -215,14 +491,25 @@ const LoadLayoutDialog: React.FC<LoadLayoutDialogProps> = ({
         >
           Cancel
         </Button>
-        <Button
-          onClick={handleLoad}
-          disabled={!selectedId || loadingLayout}
-          variant="contained"
-          startIcon={loadingLayout ? <CircularProgress size={20} /> : <FolderOpenIcon />}
-        >
-          {loadingLayout ? 'Loading...' : 'Load'}
-        </Button>
+        {historyLayout ? (
+          <Button
+            onClick={handleCompare}
+            disabled={!onDiffRevisions || historyBusy || compareRevisions.length === 0 || (compareRevisions.length === 1 && compareRevisions[0] <= 1)}
+            variant="contained"
+            startIcon={historyBusy ? <CircularProgress size={20} /> : <CompareArrowsIcon />}
+          >
+            {compareRevisions.length === 2 ? 'Compare Selected' : 'Compare with Previous'}
+          </Button>
+        ) : (
+          <Button
+            onClick={handleLoad}
+            disabled={!selectedId || loadingLayout}
+            variant="contained"
+            startIcon={loadingLayout ? <CircularProgress size={20} /> : <FolderOpenIcon />}
+          >
+            {loadingLayout ? 'Loading...' : 'Load'}
+          </Button>
+        )}
       </DialogActions>
     </Dialog>
   );
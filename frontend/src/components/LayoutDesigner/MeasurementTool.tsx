@@ -12,6 +12,7 @@ export interface Measurement {
   autoCalculate: boolean;
   fontSize: number;
   color: string;
+  levelId?: string;
   createdAt: Date;
 }
 
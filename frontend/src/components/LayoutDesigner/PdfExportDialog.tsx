@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Box,
+  FormControlLabel,
+  Checkbox
+} from '@mui/material';
+import { PictureAsPdf as PdfIcon, Close as CloseIcon } from '@mui/icons-material';
+import { ARCHITECTURAL_SCALES, ExportOptions, PAGE_SIZES } from '../../utils/layoutExport';
+import { LAYOUT_AUTHOR_STORAGE_KEY } from './SaveLayoutDialog';
+
+interface PdfExportDialogProps {
+  open: boolean;
+  layoutName: string;
+  reviewThreadCount?: number;
+  onClose: () => void;
+  onExport: (options: ExportOptions) => void;
+}
+
+type PageSize = NonNullable<ExportOptions['pageSize']>;
+
+/**
+ * Drawing sheet settings for PDF export: page, scale and title block fields
+ */
+const PdfExportDialog: React.FC<PdfExportDialogProps> = ({
+  open,
+  layoutName,
+  reviewThreadCount = 0,
+  onClose,
+  onExport
+}) => {
+  const [pageSize, setPageSize] = useState<PageSize>('A3');
+  const [orientation, setOrientation] = useState<'portrait' | 'landscape'>('landscape');
+  const [scale, setScale] = useState<number | 'auto'>('auto');
+  const [projectName, setProjectName] = useState('');
+  const [drawingNumber, setDrawingNumber] = useState('');
+  const [revision, setRevision] = useState('A');
+  const [drawnBy, setDrawnBy] = useState(() => localStorage.getItem(LAYOUT_AUTHOR_STORAGE_KEY) || '');
+  const [includeReviewComments, setIncludeReviewComments] = useState(true);
+
+  const handleExport = () => {
+    onExport({
+      filename: layoutName.replace(/[^a-z0-9-_ ]/gi, '').trim() || 'layout',
+      title: layoutName,
+      projectName: projectName.trim() || undefined,
+      drawingNumber: drawingNumber.trim() || undefined,
+      revision: revision.trim() || undefined,
+      drawnBy: drawnBy.trim() || undefined,
+      pageSize,
+      orientation,
+      scale: scale === 'auto' ? undefined : scale,
+      includeMeasurements: true,
+      includeReviewComments: reviewThreadCount > 0 && includeReviewComments,
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Export PDF Drawing Sheets</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', gap: 2, mt: 1 }}>
+          <FormControl fullWidth margin="dense">
+            <InputLabel>Page Size</InputLabel>
+            <Select value={pageSize} label="Page Size" onChange={(e) => setPageSize(e.target.value as PageSize)}>
+              {(Object.keys(PAGE_SIZES) as PageSize[]).map(size => (
+                <MenuItem key={size} value={size}>{size}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl fullWidth margin="dense">
+            <InputLabel>Orientation</InputLabel>
+            <Select
+              value={orientation}
+              label="Orientation"
+              onChange={(e) => setOrientation(e.target.value as 'portrait' | 'landscape')}
+            >
+              <MenuItem value="landscape">Landscape</MenuItem>
+              <MenuItem value="portrait">Portrait</MenuItem>
+            </Select>
+          </FormControl>
+          <FormControl fullWidth margin="dense">
+            <InputLabel>Scale</InputLabel>
+            <Select
+              value={scale}
+              label="Scale"
+              onChange={(e) => setScale(e.target.value === 'auto' ? 'auto' : Number(e.target.value))}
+            >
+              <MenuItem value="auto">Fit to sheet</MenuItem>
+              {ARCHITECTURAL_SCALES.map(value => (
+                <MenuItem key={value} value={value}>1:{value}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Box>
+        <TextField
+          margin="dense"
+          label="Project"
+          fullWidth
+          variant="outlined"
+          value={projectName}
+          onChange={(e) => setProjectName(e.target.value)}
+        />
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          <TextField
+            margin="dense"
+            label="Drawing No."
+            fullWidth
+            variant="outlined"
+            value={drawingNumber}
+            onChange={(e) => setDrawingNumber(e.target.value)}
+          />
+          <TextField
+            margin="dense"
+            label="Revision"
+            fullWidth
+            variant="outlined"
+            value={revision}
+            onChange={(e) => setRevision(e.target.value)}
+          />
+          <TextField
+            margin="dense"
+            label="Drawn By"
+            fullWidth
+            variant="outlined"
+            value={drawnBy}
+            onChange={(e) => setDrawnBy(e.target.value)}
+          />
+        </Box>
+        {reviewThreadCount > 0 && (
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={includeReviewComments}
+                onChange={(e) => setIncludeReviewComments(e.target.checked)}
+              />
+            }
+            label={`Review package: pin and list the ${reviewThreadCount} review comment thread(s) in a comment register`}
+          />
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} startIcon={<CloseIcon />}>
+          Cancel
+        </Button>
+        <Button onClick={handleExport} variant="contained" startIcon={<PdfIcon />}>
+          Export PDF
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PdfExportDialog;
@@ -18,6 +18,7 @@ import {
   Alert,
   Tooltip,
   Autocomplete,
+  Menu,
 } from '@mui/material';
 import {
   ExpandMore as ExpandMoreIcon,
@@ -26,10 +27,12 @@ import {
   Delete as DeleteIcon,
   Colorize as ColorIcon,
   AccountTree as GraphIcon,
+  Description as DataSheetIcon,
 } from '@mui/icons-material';
 import { ShapeType, NodeCategory, getCleanroomColor } from '../../types';
 import { Connection } from './types';
 import apiService from '../../services/api';
+import { TYPICAL_PRESSURE_SETPOINTS } from '../../utils/pressureCascade';
 
 export interface ShapeProperties {
   // Shape identification
@@ -49,9 +52,11 @@ export interface ShapeProperties {
   x: number;
   y: number;
   rotation?: number; // Rotation angle in degrees
+  levelId?: string; // Building level; unset means the first level
 
   // Pharmaceutical Properties
   pressureRegime: 'positive' | 'negative' | 'neutral';
+  pressureSetpoint?: number; // Differential pressure setpoint in Pa (relative to ambient)
   temperatureRange: {
     min: number;
     max: number;
@@ -93,6 +98,8 @@ export interface PropertiesPanelProps {
   onShapeDelete: (id: string) => void;
   onConnectionDelete?: (id: string) => void;
   onShapeDuplicate: (id: string) => void;
+  // Room data sheet (URS) for one room, or every room when shapeId is null
+  onGenerateRoomDataSheet?: (shapeId: string | null, format: 'html' | 'json') => void;
   onClose: () => void;
   isVisible: boolean;
 }
@@ -125,6 +132,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
   onShapeDelete,
   onConnectionDelete,
   onShapeDuplicate,
+  onGenerateRoomDataSheet,
   onClose,
   isVisible,
 }) => {
@@ -136,6 +144,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
 
   // Local state for form inputs
   const [localProperties, setLocalProperties] = useState<ShapeProperties | null>(null);
+  const [dataSheetMenuAnchor, setDataSheetMenuAnchor] = useState<HTMLElement | null>(null);
 
   // State for Neo4j functional areas
   const [functionalAreas, setFunctionalAreas] = useState<Array<{ name: string; id: string; category: string; cleanroomClass?: string }>>([]);
@@ -642,6 +651,23 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                 </Select>
               </FormControl>
 
+              <TextField
+                label="Differential Pressure Setpoint"
+                type="number"
+                size="small"
+                value={localProperties.pressureSetpoint ?? ''}
+                onChange={(e) => handlePropertyUpdate(
+                  'pressureSetpoint',
+                  e.target.value === '' ? undefined : parseFloat(e.target.value)
+                )}
+                InputProps={{ endAdornment: 'Pa' }}
+                helperText={
+                  localProperties.cleanroomClass
+                    ? `Relative to ambient (typical for Grade ${localProperties.cleanroomClass}: ${TYPICAL_PRESSURE_SETPOINTS[localProperties.cleanroomClass]} Pa)`
+                    : 'Relative to ambient'
+                }
+              />
+
               <Box>
                 <Typography variant="body2" gutterBottom>
                   Temperature Range (°{localProperties.temperatureRange.unit})
@@ -860,6 +886,42 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
             Delete
           </Button>
         </Box>
+        {onGenerateRoomDataSheet && (
+          <>
+            <Button
+              variant="outlined"
+              size="small"
+              fullWidth
+              onClick={(e) => setDataSheetMenuAnchor(e.currentTarget)}
+              startIcon={<DataSheetIcon />}
+              sx={{ mt: 1 }}
+            >
+              Room Data Sheet (URS)
+            </Button>
+            <Menu
+              anchorEl={dataSheetMenuAnchor}
+              open={Boolean(dataSheetMenuAnchor)}
+              onClose={() => setDataSheetMenuAnchor(null)}
+            >
+              {[
+                { label: 'This room - print / PDF', shapeId: localProperties.id, format: 'html' as const },
+                { label: 'This room - JSON', shapeId: localProperties.id, format: 'json' as const },
+                { label: 'All rooms - print / PDF', shapeId: null, format: 'html' as const },
+                { label: 'All rooms - JSON', shapeId: null, format: 'json' as const },
+              ].map(option => (
+                <MenuItem
+                  key={option.label}
+                  onClick={() => {
+                    setDataSheetMenuAnchor(null);
+                    onGenerateRoomDataSheet(option.shapeId, option.format);
+                  }}
+                >
+                  {option.label}
+                </MenuItem>
+              ))}
+            </Menu>
+          </>
+        )}
       </Box>
     </Paper>
   );
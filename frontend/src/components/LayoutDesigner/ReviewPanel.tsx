@@ -0,0 +1,377 @@
+/**
+ * Review Panel Component
+ *
+ * Threaded review comments pinned to rooms, doors, walls or canvas points, with
+ * open/resolved status, @mentions and the approval of the layout revision on the canvas.
+ */
+
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Chip,
+  CircularProgress,
+  Alert,
+  Divider,
+  Button,
+  IconButton,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Stack
+} from '@mui/material';
+import {
+  RateReview as ReviewIcon,
+  Close as CloseIcon,
+  AddLocationAlt as AddPinIcon,
+  CheckCircle as ResolveIcon,
+  Replay as ReopenIcon,
+  ThumbUp as ApproveIcon,
+  ThumbDown as RequestChangesIcon,
+  Send as SendIcon
+} from '@mui/icons-material';
+import { ReviewAnchor, ReviewThread, ReviewThreadStatus, RevisionApproval, RevisionApprovalStatus } from '../../types';
+import { APPROVAL_LABELS, ReviewTargets, describeAnchor, isMentionedIn } from '../../utils/layoutReview';
+
+type ThreadFilter = 'open' | 'resolved' | 'all' | 'mentions';
+
+interface ReviewPanelProps {
+  threads: ReviewThread[]; // Oldest first; pins are numbered in this order
+  approval: RevisionApproval | null;
+  revision?: number;
+  loading: boolean;
+  error: string | null;
+  targets: ReviewTargets;
+  mentionHandles: string[];
+  canComment: boolean;
+  canApprove: boolean;
+  pinMode: boolean;
+  draftAnchor: ReviewAnchor | null; // Pin placed on the canvas, waiting for its first comment
+  selectedThreadId: string | null;
+  onTogglePinMode: () => void;
+  onCreateThread: (body: string) => Promise<void>;
+  onDiscardDraft: () => void;
+  onSelectThread: (threadId: string) => void;
+  onReply: (threadId: string, body: string) => Promise<void>;
+  onSetThreadStatus: (threadId: string, status: ReviewThreadStatus) => Promise<void>;
+  onSetApproval: (status: RevisionApprovalStatus, note?: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const formatTime = (value: string | null | undefined) => (value ? new Date(value).toLocaleString() : '');
+
+// Render @mentions in bold
+const renderBody = (body: string) =>
+  body.split(/(@[\w][\w.-]*)/g).map((part, index) =>
+    part.startsWith('@') ? <strong key={index}>{part}</strong> : <React.Fragment key={index}>{part}</React.Fragment>
+  );
+
+const ReviewPanel: React.FC<ReviewPanelProps> = ({
+  threads,
+  approval,
+  revision,
+  loading,
+  error,
+  targets,
+  mentionHandles,
+  canComment,
+  canApprove,
+  pinMode,
+  draftAnchor,
+  selectedThreadId,
+  onTogglePinMode,
+  onCreateThread,
+  onDiscardDraft,
+  onSelectThread,
+  onReply,
+  onSetThreadStatus,
+  onSetApproval,
+  onClose
+}) => {
+  const [filter, setFilter] = useState<ThreadFilter>('open');
+  const [draftBody, setDraftBody] = useState('');
+  const [replies, setReplies] = useState<Record<string, string>>({});
+  const [approvalNote, setApprovalNote] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const numbered = threads.map((thread, index) => ({ thread, number: index + 1 }));
+  const visible = numbered.filter(({ thread }) =>
+    filter === 'all' ||
+    (filter === 'mentions' ? isMentionedIn(thread, mentionHandles) : thread.status === filter)
+  );
+  const openCount = threads.filter(thread => thread.status === 'open').length;
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setActionError(null);
+
+    try {
+      await action();
+    } catch (err) {
+      console.error('Error updating review:', err);
+      setActionError(err instanceof Error ? err.message : 'Failed to update review');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = () => run(async () => {
+    await onCreateThread(draftBody.trim());
+    setDraftBody('');
+  });
+
+  const handleReply = (threadId: string) => run(async () => {
+    await onReply(threadId, (replies[threadId] || '').trim());
+    setReplies(prev => ({ ...prev, [threadId]: '' }));
+  });
+
+  const handleApproval = (status: RevisionApprovalStatus) => run(async () => {
+    await onSetApproval(status, approvalNote.trim() || undefined);
+    setApprovalNote('');
+  });
+
+  return (
+    <Paper
+      elevation={3}
+      sx={{
+        position: 'fixed',
+        right: 16,
+        top: 140,
+        width: 360,
+        maxHeight: 'calc(100vh - 160px)',
+        display: 'flex',
+        flexDirection: 'column',
+        zIndex: 1000,
+      }}
+    >
+      <Box sx={{ p: 2, borderBottom: 1, borderColor: 'divider', display: 'flex', alignItems: 'center', gap: 1 }}>
+        <ReviewIcon color="primary" />
+        <Typography variant="h6" sx={{ flexGrow: 1 }}>
+          Design Review
+        </Typography>
+        <Chip label={`${openCount} open`} size="small" color={openCount > 0 ? 'warning' : 'default'} />
+        <IconButton size="small" onClick={onClose} aria-label="close review panel">
+          <CloseIcon fontSize="small" />
+        </IconButton>
+      </Box>
+
+      <Box sx={{ p: 2, overflow: 'auto' }}>
+        {(error || actionError) && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={actionError ? () => setActionError(null) : undefined}>
+            {actionError || error}
+          </Alert>
+        )}
+
+        {/* Approval of the revision on the canvas */}
+        <Box sx={{ mb: 2 }}>
+          <Box display="flex" alignItems="center" gap={1}>
+            <Typography variant="subtitle2">
+              {revision !== undefined ? `Revision ${revision}` : 'Unsaved changes'}
+            </Typography>
+            {revision !== undefined && (
+              <Chip
+                size="small"
+                label={APPROVAL_LABELS[approval?.status || 'pending']}
+                color={approval?.status === 'approved' ? 'success' : approval?.status === 'changes_requested' ? 'warning' : 'default'}
+              />
+            )}
+          </Box>
+          {approval?.reviewer && (
+            <Typography variant="caption" color="text.secondary" display="block">
+              {approval.reviewer} · {formatTime(approval.decidedAt)}{approval.note ? ` - ${approval.note}` : ''}
+            </Typography>
+          )}
+          {canApprove && revision !== undefined && (
+            <Box sx={{ mt: 1 }}>
+              <TextField
+                size="small"
+                fullWidth
+                placeholder="Review note (optional)"
+                value={approvalNote}
+                onChange={(e) => setApprovalNote(e.target.value)}
+                disabled={busy}
+              />
+              <Stack direction="row" spacing={1} sx={{ mt: 1 }}>
+                <Tooltip title={openCount > 0 ? 'Resolve all open comments first' : ''}>
+                  <span>
+                    <Button
+                      size="small"
+                      variant="contained"
+                      color="success"
+                      startIcon={<ApproveIcon />}
+                      disabled={busy || openCount > 0}
+                      onClick={() => handleApproval('approved')}
+                    >
+                      Approve
+                    </Button>
+                  </span>
+                </Tooltip>
+                <Button
+                  size="small"
+                  variant="outlined"
+                  color="warning"
+                  startIcon={<RequestChangesIcon />}
+                  disabled={busy}
+                  onClick={() => handleApproval('changes_requested')}
+                >
+                  Request Changes
+                </Button>
+              </Stack>
+            </Box>
+          )}
+        </Box>
+
+        <Divider sx={{ mb: 2 }} />
+
+        {canComment && (
+          <Box sx={{ mb: 2 }}>
+            {draftAnchor ? (
+              <Box>
+                <Typography variant="caption" color="text.secondary">
+                  New comment on {describeAnchor(draftAnchor, targets)}
+                </Typography>
+                <TextField
+                  autoFocus
+                  size="small"
+                  fullWidth
+                  multiline
+                  minRows={2}
+                  placeholder="Comment - use @name to mention someone"
+                  value={draftBody}
+                  onChange={(e) => setDraftBody(e.target.value)}
+                  disabled={busy}
+                />
+                <Stack direction="row" spacing={1} sx={{ mt: 1 }} justifyContent="flex-end">
+                  <Button size="small" onClick={onDiscardDraft} disabled={busy}>Discard</Button>
+                  <Button
+                    size="small"
+                    variant="contained"
+                    startIcon={busy ? <CircularProgress size={16} /> : <SendIcon />}
+                    disabled={busy || !draftBody.trim()}
+                    onClick={handleCreate}
+                  >
+                    Comment
+                  </Button>
+                </Stack>
+              </Box>
+            ) : (
+              <Button
+                fullWidth
+                variant={pinMode ? 'contained' : 'outlined'}
+                startIcon={<AddPinIcon />}
+                onClick={onTogglePinMode}
+              >
+                {pinMode ? 'Click a room, door, wall or empty spot…' : 'Add Comment'}
+              </Button>
+            )}
+          </Box>
+        )}
+
+        <ToggleButtonGroup
+          value={filter}
+          exclusive
+          size="small"
+          fullWidth
+          onChange={(_, value) => value && setFilter(value)}
+          sx={{ mb: 1 }}
+        >
+          <ToggleButton value="open">Open</ToggleButton>
+          <ToggleButton value="resolved">Resolved</ToggleButton>
+          <ToggleButton value="mentions">@Me</ToggleButton>
+          <ToggleButton value="all">All</ToggleButton>
+        </ToggleButtonGroup>
+
+        {loading && threads.length === 0 ? (
+          <Box display="flex" justifyContent="center" py={3}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : visible.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" align="center" sx={{ py: 2 }}>
+            No comments
+          </Typography>
+        ) : (
+          visible.map(({ thread, number }) => (
+            <Paper
+              key={thread.id}
+              variant="outlined"
+              onClick={() => onSelectThread(thread.id)}
+              sx={{
+                p: 1.5,
+                mb: 1,
+                cursor: 'pointer',
+                borderColor: thread.id === selectedThreadId ? 'primary.main' : undefined,
+                opacity: thread.status === 'resolved' ? 0.75 : 1,
+              }}
+            >
+              <Box display="flex" alignItems="center" gap={1} sx={{ mb: 0.5 }}>
+                <Chip label={`#${number}`} size="small" color={thread.status === 'open' ? 'error' : 'default'} />
+                <Typography variant="caption" sx={{ flexGrow: 1 }} noWrap>
+                  {describeAnchor(thread.anchor, targets)}
+                  {thread.revision !== null ? ` · rev ${thread.revision}` : ''}
+                </Typography>
+                {canComment && (
+                  <Tooltip title={thread.status === 'open' ? 'Resolve' : 'Reopen'}>
+                    <IconButton
+                      size="small"
+                      disabled={busy}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        run(() => onSetThreadStatus(thread.id, thread.status === 'open' ? 'resolved' : 'open'));
+                      }}
+                    >
+                      {thread.status === 'open' ? <ResolveIcon fontSize="small" color="success" /> : <ReopenIcon fontSize="small" />}
+                    </IconButton>
+                  </Tooltip>
+                )}
+              </Box>
+
+              {thread.comments.map(comment => (
+                <Box key={comment.id} sx={{ mb: 0.5 }}>
+                  <Typography variant="caption" color="text.secondary">
+                    <strong>{comment.author}</strong> · {formatTime(comment.createdAt)}
+                  </Typography>
+                  <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+                    {renderBody(comment.body)}
+                  </Typography>
+                </Box>
+              ))}
+
+              {thread.status === 'resolved' && thread.resolvedBy && (
+                <Typography variant="caption" color="success.main" display="block">
+                  Resolved by {thread.resolvedBy} · {formatTime(thread.resolvedAt)}
+                </Typography>
+              )}
+
+              {canComment && thread.id === selectedThreadId && (
+                <Box display="flex" gap={1} sx={{ mt: 1 }} onClick={(e) => e.stopPropagation()}>
+                  <TextField
+                    size="small"
+                    fullWidth
+                    placeholder="Reply"
+                    value={replies[thread.id] || ''}
+                    onChange={(e) => setReplies(prev => ({ ...prev, [thread.id]: e.target.value }))}
+                    disabled={busy}
+                  />
+                  <IconButton
+                    size="small"
+                    color="primary"
+                    disabled={busy || !(replies[thread.id] || '').trim()}
+                    onClick={() => handleReply(thread.id)}
+                    aria-label="send reply"
+                  >
+                    <SendIcon fontSize="small" />
+                  </IconButton>
+                </Box>
+              )}
+            </Paper>
+          ))
+        )}
+      </Box>
+    </Paper>
+  );
+};
+
+export default ReviewPanel;
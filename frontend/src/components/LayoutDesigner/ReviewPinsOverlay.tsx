@@ -0,0 +1,82 @@
+import React from 'react';
+import { Box, Tooltip } from '@mui/material';
+import { ReviewAnchor, ReviewThread } from '../../types';
+import { ReviewTargets, getAnchorPosition } from '../../utils/layoutReview';
+
+interface ReviewPinsOverlayProps {
+  pins: Array<{ thread: ReviewThread; number: number }>; // Already limited to the level on screen
+  draftAnchor: ReviewAnchor | null;
+  targets: ReviewTargets;
+  selectedThreadId: string | null;
+  width: number;
+  height: number;
+  onPinClick: (threadId: string) => void;
+}
+
+const PIN_SIZE = 24;
+
+const pinSx = (color: string, highlighted: boolean) => ({
+  position: 'absolute' as const,
+  width: PIN_SIZE,
+  height: PIN_SIZE,
+  marginLeft: `${-PIN_SIZE / 2}px`,
+  marginTop: `${-PIN_SIZE}px`,
+  borderRadius: '50% 50% 50% 0',
+  transform: 'rotate(-45deg)',
+  backgroundColor: color,
+  border: `2px solid ${highlighted ? '#1976d2' : '#fff'}`,
+  boxShadow: highlighted ? '0 0 0 3px rgba(25, 118, 210, 0.35)' : '0 1px 3px rgba(0, 0, 0, 0.4)',
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+});
+
+/**
+ * Numbered review comment pins, drawn in canvas coordinates
+ */
+const ReviewPinsOverlay: React.FC<ReviewPinsOverlayProps> = ({
+  pins,
+  draftAnchor,
+  targets,
+  selectedThreadId,
+  width,
+  height,
+  onPinClick
+}) => (
+  <Box sx={{ position: 'absolute', top: 0, left: 0, width, height, pointerEvents: 'none', zIndex: 25 }}>
+    {pins.map(({ thread, number }) => {
+      const position = getAnchorPosition(thread.anchor, targets);
+      const color = thread.status === 'open' ? (position.missing ? '#9e9e9e' : '#d32f2f') : '#66bb6a';
+      const firstComment = thread.comments[0];
+
+      return (
+        <Tooltip
+          key={thread.id}
+          title={`#${number} ${firstComment ? `${firstComment.author}: ${firstComment.body}` : ''}${position.missing ? ' (pinned item was deleted)' : ''}`}
+        >
+          <Box
+            onClick={(e) => {
+              e.stopPropagation();
+              onPinClick(thread.id);
+            }}
+            sx={{ ...pinSx(color, thread.id === selectedThreadId), left: position.x, top: position.y, pointerEvents: 'auto', cursor: 'pointer' }}
+          >
+            <Box component="span" sx={{ transform: 'rotate(45deg)', color: '#fff', fontSize: 11, fontWeight: 'bold' }}>
+              {number}
+            </Box>
+          </Box>
+        </Tooltip>
+      );
+    })}
+
+    {draftAnchor && (
+      <Box sx={{ ...pinSx('#1976d2', true), left: draftAnchor.x, top: draftAnchor.y }}>
+        <Box component="span" sx={{ transform: 'rotate(45deg)', color: '#fff', fontSize: 13, fontWeight: 'bold' }}>
+          +
+        </Box>
+      </Box>
+    )}
+  </Box>
+);
+
+export default ReviewPinsOverlay;
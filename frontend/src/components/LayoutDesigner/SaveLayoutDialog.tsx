@@ -7,56 +7,203 @@ import {
   TextField,
   Button,
   CircularProgress,
-  Alert
+  Alert,
+  Box,
+  MenuItem
 } from '@mui/material';
-import { Save as SaveIcon, Close as CloseIcon } from '@mui/icons-material';
+import {
+  Save as SaveIcon,
+  Close as CloseIcon,
+  Lock as LockIcon,
+  LockOpen as LockOpenIcon,
+  Refresh as RefreshIcon
+} from '@mui/icons-material';
+import { LayoutLock, LayoutRevisionInfo, LayoutSaveConflict } from '../../types';
+import { ApiError } from '../../services/api';
+import { RevisionDiffView, formatLockExpiry } from './LoadLayoutDialog';
+import ProjectSelect from '../ProjectSelect';
+import { useAuth } from '../../contexts/AuthContext';
+
+// Remember who is saving so the author doesn't have to be retyped on every revision
+export const LAYOUT_AUTHOR_STORAGE_KEY = 'layoutDesigner_author';
+
+const LOCK_DURATIONS = [30, 60, 120, 240];
+
+export interface LayoutSaveOptions {
+  baseRevision?: number; // Overwrite from this revision instead of the one that was loaded
+  overrideLock?: boolean; // Save over someone else's edit lock
+  projectId?: string; // Project a new layout is saved into
+}
 
 interface SaveLayoutDialogProps {
   open: boolean;
   currentName?: string;
+  lock?: LayoutLock | null;
+  showProject?: boolean; // New layouts can be saved into a project
   onClose: () => void;
-  onSave: (name: string) => Promise<void>;
+  onSave: (name: string, revisionInfo: LayoutRevisionInfo, options?: LayoutSaveOptions) => Promise<void>;
+  onReload?: () => Promise<void>;
+  onLock?: (owner: string, minutes: number, force?: boolean) => Promise<void>;
+  onUnlock?: (owner: string, force?: boolean) => Promise<void>;
 }
 
 const SaveLayoutDialog: React.FC<SaveLayoutDialogProps> = ({
   open,
   currentName = '',
+  lock = null,
+  showProject = false,
   onClose,
-  onSave
+  onSave,
+  onReload,
+  onLock,
+  onUnlock
 }) => {
   const [name, setName] = useState(currentName);
+  const [author, setAuthor] = useState(() => localStorage.getItem(LAYOUT_AUTHOR_STORAGE_KEY) || '');
+  const [comment, setComment] = useState('');
+  const [projectId, setProjectId] = useState('');
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Save refused because someone else saved a newer revision
+  const [conflict, setConflict] = useState<LayoutSaveConflict | null>(null);
+  // Save refused because of someone else's lock
+  const [blockingLock, setBlockingLock] = useState<LayoutLock | null>(null);
+  const [lockMinutes, setLockMinutes] = useState(LOCK_DURATIONS[0]);
+
+  const { user, authEnabled } = useAuth();
+  // Locks are held by the signed-in account; without accounts by the author name
+  const lockOwnerId = authEnabled ? user?.id : author.trim();
+  const lockedByOther = !!lock && lock.ownerId !== lockOwnerId;
 
-  const handleSave = async () => {
+  const resetOutcome = () => {
+    setError(null);
+    setConflict(null);
+    setBlockingLock(null);
+  };
+
+  const handleSave = async (options: LayoutSaveOptions = {}) => {
     if (!name.trim()) {
       setError('Please enter a layout name');
       return;
     }
 
     setSaving(true);
-    setError(null);
+    resetOutcome();
 
     try {
-      await onSave(name.trim());
+      if (author.trim()) {
+        localStorage.setItem(LAYOUT_AUTHOR_STORAGE_KEY, author.trim());
+      }
+      await onSave(
+        name.trim(),
+        { author: author.trim(), comment: comment.trim() },
+        showProject ? { ...options, projectId: projectId || undefined } : options
+      );
       setName('');
+      setComment('');
       onClose();
     } catch (err) {
       console.error('Error saving layout:', err);
-      setError(err instanceof Error ? err.message : 'Failed to save layout');
+      if (err instanceof ApiError && err.status === 409) {
+        setConflict(err.body);
+      } else if (err instanceof ApiError && err.status === 423) {
+        setBlockingLock(err.body.lock);
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to save layout');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const runLockAction = async (action: () => Promise<void>) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      await action();
+    } catch (err) {
+      console.error('Error updating layout lock:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update layout lock');
     } finally {
       setSaving(false);
     }
   };
 
+  const handleReload = async () => {
+    if (!onReload) return;
+    await onReload();
+    handleClose();
+  };
+
   const handleClose = () => {
     if (!saving) {
       setName('');
-      setError(null);
+      setComment('');
+      resetOutcome();
       onClose();
     }
   };
 
+  const renderLock = () => {
+    if (lock && !lockedByOther) {
+      return (
+        <Alert
+          severity="info"
+          icon={<LockIcon />}
+          sx={{ mb: 2 }}
+          action={onUnlock && (
+            <Button color="inherit" size="small" startIcon={<LockOpenIcon />} disabled={saving}
+              onClick={() => runLockAction(() => onUnlock(lock.ownerId))}>
+              Release
+            </Button>
+          )}
+        >
+          You hold the edit lock until {formatLockExpiry(lock)}
+        </Alert>
+      );
+    }
+
+    if (lock) {
+      return (
+        <Alert severity="warning" icon={<LockIcon />} sx={{ mb: 2 }}>
+          Locked by {lock.owner} until {formatLockExpiry(lock)}{lock.note ? ` - ${lock.note}` : ''}.
+          Your save will be refused unless you override the lock.
+        </Alert>
+      );
+    }
+
+    if (!onLock) return null;
+
+    return (
+      <Box display="flex" alignItems="center" gap={1} sx={{ mb: 2 }}>
+        <TextField
+          select
+          size="small"
+          label="Lock for"
+          value={lockMinutes}
+          onChange={(e) => setLockMinutes(Number(e.target.value))}
+          disabled={saving}
+          sx={{ width: 140 }}
+        >
+          {LOCK_DURATIONS.map(minutes => (
+            <MenuItem key={minutes} value={minutes}>
+              {minutes < 60 ? `${minutes} min` : `${minutes / 60} h`}
+            </MenuItem>
+          ))}
+        </TextField>
+        <Button
+          size="small"
+          startIcon={<LockIcon />}
+          disabled={saving || !lockOwnerId}
+          onClick={() => runLockAction(() => onLock(author.trim(), lockMinutes))}
+        >
+          Lock for editing
+        </Button>
+      </Box>
+    );
+  };
+
   return (
     <Dialog
       open={open}
@@ -71,6 +218,22 @@ const SaveLayoutDialog: React.FC<SaveLayoutDialogProps> = ({
             {error}
           </Alert>
         )}
+        {conflict && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {conflict.error}. Reload to get the latest version, or overwrite it with yours.
+            {conflict.serverChanges && (
+              <RevisionDiffView diff={conflict.serverChanges} title={`Saved by others since revision ${conflict.expectedRevision}`} />
+            )}
+            <RevisionDiffView diff={conflict.localChanges} title="Your save would change" />
+          </Alert>
+        )}
+        {blockingLock && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {blockingLock.owner} is editing this layout until {formatLockExpiry(blockingLock)}.
+            Save anyway only if you have agreed this with them.
+          </Alert>
+        )}
+        {!conflict && !blockingLock && renderLock()}
         <TextField
           autoFocus
           margin="dense"
@@ -88,6 +251,33 @@ const SaveLayoutDialog: React.FC<SaveLayoutDialogProps> = ({
           }}
           helperText="Enter a descriptive name for this layout"
         />
+        <TextField
+          margin="dense"
+          label="Author"
+          type="text"
+          fullWidth
+          variant="outlined"
+          value={authEnabled && user ? user.name : author}
+          onChange={(e) => setAuthor(e.target.value)}
+          disabled={saving || authEnabled}
+          helperText={authEnabled ? 'Revisions are signed with your account' : undefined}
+        />
+        <TextField
+          margin="dense"
+          label="Change Comment"
+          type="text"
+          fullWidth
+          multiline
+          minRows={2}
+          variant="outlined"
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          disabled={saving}
+          helperText="Describe what changed - recorded in the layout's revision history"
+        />
+        {showProject && open && (
+          <ProjectSelect value={projectId} onChange={setProjectId} disabled={saving} />
+        )}
       </DialogContent>
       <DialogActions>
         <Button
@@ -97,14 +287,41 @@ const SaveLayoutDialog: React.FC<SaveLayoutDialogProps> = ({
         >
           Cancel
         </Button>
-        <Button
-          onClick={handleSave}
-          disabled={saving || !name.trim()}
-          variant="contained"
-          startIcon={saving ? <CircularProgress size={20} /> : <SaveIcon />}
-        >
-          {saving ? 'Saving...' : 'Save'}
-        </Button>
+        {conflict && onReload && (
+          <Button onClick={handleReload} disabled={saving} startIcon={<RefreshIcon />}>
+            Reload Latest
+          </Button>
+        )}
+        {conflict ? (
+          <Button
+            onClick={() => handleSave({ baseRevision: conflict.currentRevision })}
+            disabled={saving || !name.trim()}
+            variant="contained"
+            color="warning"
+            startIcon={saving ? <CircularProgress size={20} /> : <SaveIcon />}
+          >
+            Overwrite
+          </Button>
+        ) : blockingLock ? (
+          <Button
+            onClick={() => handleSave({ overrideLock: true })}
+            disabled={saving || !name.trim()}
+            variant="contained"
+            color="warning"
+            startIcon={saving ? <CircularProgress size={20} /> : <SaveIcon />}
+          >
+            Save Anyway
+          </Button>
+        ) : (
+          <Button
+            onClick={() => handleSave()}
+            disabled={saving || !name.trim()}
+            variant="contained"
+            startIcon={saving ? <CircularProgress size={20} /> : <SaveIcon />}
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        )}
       </DialogActions>
     </Dialog>
   );
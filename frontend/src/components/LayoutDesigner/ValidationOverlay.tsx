@@ -22,13 +22,26 @@ import {
   ExpandLess as ExpandLessIcon,
   Visibility as VisibilityIcon,
   VisibilityOff as VisibilityOffIcon,
+  ArrowForward as ArrowForwardIcon,
+  Add as AddIcon,
+  Delete as DeleteIcon,
 } from '@mui/icons-material';
 import { ShapeProperties } from './PropertiesPanel';
+import { DoorConnection, FlowSequence, LayoutLevel, VerticalConnection } from '../../types';
+import { DoorPlacement } from '../../utils/wallDetection';
+import {
+  analyzePressureCascade,
+  PressureCascadeLink,
+  PressureCascadeResult,
+} from '../../utils/pressureCascade';
+import { analyzeFlowRouting, FlowRoutingResult } from '../../utils/flowRouting';
+import { getItemLevelId } from '../../utils/buildingLevels';
+import FlowSequenceDialog from './FlowSequenceDialog';
 
 export interface ValidationIssue {
   id: string;
   severity: 'error' | 'warning' | 'info';
-  category: 'adjacency' | 'overlap' | 'spacing' | 'compliance' | 'flow' | 'contamination';
+  category: 'adjacency' | 'overlap' | 'spacing' | 'compliance' | 'flow' | 'contamination' | 'pressure';
   title: string;
   description: string;
   affectedShapeIds: string[];
@@ -49,6 +62,13 @@ export interface ValidationResult {
 
 export interface ValidationOverlayProps {
   shapes: ShapeProperties[];
+  doorConnections?: DoorConnection[];
+  doorPlacements?: DoorPlacement[];
+  flowSequences?: FlowSequence[];
+  onFlowSequencesChange?: (sequences: FlowSequence[]) => void;
+  pixelsPerMeter?: number;
+  levels?: LayoutLevel[];
+  verticalConnections?: VerticalConnection[];
   validationResult: ValidationResult;
   onIssueHighlight: (issueId: string, highlight: boolean) => void;
   onShapeSelect: (shapeId: string) => void;
@@ -58,13 +78,16 @@ export interface ValidationOverlayProps {
 }
 
 // Pharmaceutical-specific validation rules
-const validatePharmaceuticalConstraints = (shapes: ShapeProperties[]): ValidationIssue[] => {
+const validatePharmaceuticalConstraints = (shapes: ShapeProperties[], levels: LayoutLevel[]): ValidationIssue[] => {
   const issues: ValidationIssue[] = [];
 
-  // Check for each shape
+  // Check for each shape against the rooms on its own level
   shapes.forEach((shape) => {
+    const levelId = getItemLevelId(shape, levels);
+    const levelShapes = shapes.filter(other => getItemLevelId(other, levels) === levelId);
+
     // Cleanroom class adjacency rules
-    const adjacentShapes = findAdjacentShapes(shape, shapes);
+    const adjacentShapes = findAdjacentShapes(shape, levelShapes);
 
     adjacentShapes.forEach((adjacent) => {
       // Class A should not be directly adjacent to Class D
@@ -124,7 +147,7 @@ const validatePharmaceuticalConstraints = (shapes: ShapeProperties[]): Validatio
 
     // Cross-contamination risks
     if (shape.category === 'Production' && shape.cleanroomClass !== 'CNC') {
-      const nearbyWasteManagement = shapes.find(s =>
+      const nearbyWasteManagement = levelShapes.find(s =>
         s.category === 'Waste Management' &&
         getDistance(shape, s) < 100
       );
@@ -147,6 +170,63 @@ const validatePharmaceuticalConstraints = (shapes: ShapeProperties[]): Validatio
   return issues;
 };
 
+// Turn pressure cascade findings into validation issues (passing links are shown in the cascade view only)
+const getPressureCascadeIssues = (cascade: PressureCascadeResult): ValidationIssue[] =>
+  cascade.links
+    .filter(link => link.severity !== 'ok')
+    .map(link => ({
+      id: link.id,
+      severity: link.severity as ValidationIssue['severity'],
+      category: 'pressure' as const,
+      title: link.status === 'reversed'
+        ? 'Wrong-Direction Airflow'
+        : link.status === 'missing-setpoint'
+          ? 'Missing Pressure Setpoint'
+          : 'Insufficient Pressure Differential',
+      description: link.message,
+      affectedShapeIds: [link.shapeAId, link.shapeBId],
+      suggestedFix: link.status === 'missing-setpoint'
+        ? 'Define a differential pressure setpoint (Pa) for both rooms'
+        : 'Raise the setpoint of the higher grade room or add an airlock between the grades',
+      complianceReference: link.status === 'missing-setpoint' ? undefined : 'EU GMP Annex 1, Section 4.27',
+    }));
+
+// Turn routing findings into validation issues: one-way doors that lock rooms out and declared sequences that cannot be walked
+const getFlowRoutingIssues = (routing: FlowRoutingResult, shapes: ShapeProperties[]): ValidationIssue[] => {
+  const shapeNames = new Map(shapes.map(shape => [shape.id, shape.name]));
+
+  const unreachableIssues = routing.unreachableRooms.map(room => ({
+    id: `unreachable-${room.flowType}-${room.shapeId}`,
+    severity: 'warning' as const,
+    category: 'flow' as const,
+    title: `Room Unreachable by ${room.flowType.charAt(0).toUpperCase()}${room.flowType.slice(1)} Flow`,
+    description: room.message,
+    affectedShapeIds: [room.shapeId],
+    suggestedFix: 'Reverse one of its unidirectional doors or add an inbound door of this flow type',
+  }));
+
+  const sequenceIssues = routing.sequences.flatMap(({ sequence, legs }) =>
+    legs
+      .filter(leg => !leg.route)
+      .map(leg => ({
+        id: `sequence-${sequence.id}-${leg.fromShapeId}-${leg.toShapeId}`,
+        severity: 'error' as const,
+        category: 'flow' as const,
+        title: leg.blockedBy === 'unidirectional-door' ? 'Sequence Blocked by One-Way Door' : 'Sequence Has No Door Path',
+        description: `${sequence.name}: "${shapeNames.get(leg.fromShapeId)}" → "${shapeNames.get(leg.toShapeId)}" ` +
+          (leg.blockedBy === 'unidirectional-door'
+            ? `can only be walked against a unidirectional ${sequence.flowType} door`
+            : `is not connected by ${sequence.flowType} doors`),
+        affectedShapeIds: [leg.fromShapeId, leg.toShapeId],
+        suggestedFix: leg.blockedBy === 'unidirectional-door'
+          ? 'Change the door direction or reroute the sequence'
+          : `Add ${sequence.flowType} doors between the rooms, or a stair, lift or hoist that carries ${sequence.flowType} between levels`,
+      }))
+  );
+
+  return [...unreachableIssues, ...sequenceIssues];
+};
+
 // Helper functions
 const findAdjacentShapes = (shape: ShapeProperties, allShapes: ShapeProperties[]): ShapeProperties[] => {
   const threshold = 10; // pixels
@@ -172,6 +252,13 @@ const shapesOverlap = (shape1: ShapeProperties, shape2: ShapeProperties): boolea
 
 const ValidationOverlay: React.FC<ValidationOverlayProps> = ({
   shapes,
+  doorConnections = [],
+  doorPlacements = [],
+  flowSequences = [],
+  onFlowSequencesChange,
+  pixelsPerMeter = 100,
+  levels = [],
+  verticalConnections = [],
   validationResult: externalValidation,
   onIssueHighlight,
   onShapeSelect,
@@ -181,20 +268,40 @@ const ValidationOverlay: React.FC<ValidationOverlayProps> = ({
 }) => {
   const [expandedCategories, setExpandedCategories] = React.useState<string[]>(['error']);
   const [highlightedIssues, setHighlightedIssues] = React.useState<string[]>([]);
+  const [showSequenceDialog, setShowSequenceDialog] = React.useState(false);
 
   // Run pharmaceutical validation
   const pharmaceuticalIssues = useMemo(() =>
-    validatePharmaceuticalConstraints(shapes), [shapes]
+    validatePharmaceuticalConstraints(shapes, levels), [shapes, levels]
+  );
+
+  // Walk every door and check the pressure cascade across it
+  const pressureCascade = useMemo(() =>
+    analyzePressureCascade(shapes, doorConnections, doorPlacements), [shapes, doorConnections, doorPlacements]
   );
 
-  // Combine external and pharmaceutical validation
+  const pressureIssues = useMemo(() =>
+    getPressureCascadeIssues(pressureCascade), [pressureCascade]
+  );
+
+  // Route material, personnel and waste through the doors that actually exist
+  const flowRouting = useMemo(() =>
+    analyzeFlowRouting(shapes, doorConnections, doorPlacements, flowSequences, pixelsPerMeter, { levels, verticalConnections }),
+    [shapes, doorConnections, doorPlacements, flowSequences, pixelsPerMeter, levels, verticalConnections]
+  );
+
+  const flowIssues = useMemo(() =>
+    getFlowRoutingIssues(flowRouting, shapes), [flowRouting, shapes]
+  );
+
+  // Combine external, pharmaceutical, pressure cascade and routing validation
   const allIssues = useMemo(() => {
-    const combined = [...pharmaceuticalIssues];
+    const combined = [...pharmaceuticalIssues, ...pressureIssues, ...flowIssues];
     if (externalValidation?.issues) {
       combined.push(...externalValidation.issues);
     }
     return combined;
-  }, [pharmaceuticalIssues, externalValidation]);
+  }, [pharmaceuticalIssues, pressureIssues, flowIssues, externalValidation]);
 
   // Group issues by category
   const issuesByCategory = useMemo(() => {
@@ -273,11 +380,204 @@ const ValidationOverlay: React.FC<ValidationOverlayProps> = ({
         return '📏';
       case 'flow':
         return '➡️';
+      case 'pressure':
+        return '🌬️';
       default:
         return '⚠️';
     }
   };
 
+  const getCascadeLinkColor = (link: PressureCascadeLink) =>
+    link.severity === 'ok' ? '#4caf50' : getSeverityColor(link.severity);
+
+  const formatPressure = (pressure?: number) =>
+    pressure === undefined ? '? Pa' : `${pressure} Pa`;
+
+  // Cascade view: one row per door pair, drawn in the direction air actually flows
+  const renderPressureCascade = () => {
+    if (pressureCascade.links.length === 0) return null;
+
+    const shapeNames = new Map(shapes.map(shape => [shape.id, shape.name]));
+    const isExpanded = expandedCategories.includes('pressure-cascade');
+
+    return (
+      <Box>
+        <Box
+          sx={{
+            p: 1.5,
+            backgroundColor: 'grey.50',
+            cursor: 'pointer',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            borderTop: '1px solid #e0e0e0',
+          }}
+          onClick={() => toggleCategory('pressure-cascade')}
+        >
+          <Box display="flex" alignItems="center" gap={1}>
+            <span>🌬️</span>
+            <Typography variant="subtitle2">
+              Pressure Cascade
+            </Typography>
+            <Chip size="small" label={pressureCascade.links.length} />
+            {pressureCascade.summary.reversed > 0 && (
+              <Chip size="small" color="error" label={`${pressureCascade.summary.reversed} reversed`} />
+            )}
+          </Box>
+          {isExpanded ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+        </Box>
+
+        <Collapse in={isExpanded}>
+          <List dense>
+            {pressureCascade.links.map((link) => {
+              const fromId = link.airflowFromShapeId || link.shapeAId;
+              const toId = link.airflowToShapeId || link.shapeBId;
+              const fromPressure = fromId === link.shapeAId ? link.shapeAPressure : link.shapeBPressure;
+              const toPressure = toId === link.shapeAId ? link.shapeAPressure : link.shapeBPressure;
+
+              return (
+                <Tooltip key={link.id} title={link.message} placement="right">
+                  <ListItem
+                    sx={{
+                      cursor: 'pointer',
+                      '&:hover': { backgroundColor: 'action.hover' },
+                      backgroundColor: highlightedIssues.includes(link.id) ? 'action.selected' : 'transparent',
+                      borderLeft: `4px solid ${getCascadeLinkColor(link)}`,
+                    }}
+                    onMouseEnter={() => handleIssueHover(link.id, true)}
+                    onMouseLeave={() => handleIssueHover(link.id, false)}
+                    onClick={() => onShapeSelect(fromId)}
+                  >
+                    <Box display="flex" alignItems="center" gap={0.75} sx={{ width: '100%', minWidth: 0 }}>
+                      <Typography variant="caption" noWrap sx={{ flex: 1, minWidth: 0 }}>
+                        {shapeNames.get(fromId)} ({formatPressure(fromPressure)})
+                      </Typography>
+                      <ArrowForwardIcon fontSize="small" sx={{ color: getCascadeLinkColor(link) }} />
+                      <Typography variant="caption" noWrap sx={{ flex: 1, minWidth: 0 }}>
+                        {shapeNames.get(toId)} ({formatPressure(toPressure)})
+                      </Typography>
+                      <Chip
+                        size="small"
+                        label={link.differential === undefined ? 'n/a' : `Δ${link.differential} Pa`}
+                        sx={{
+                          height: 18,
+                          fontSize: '0.65rem',
+                          backgroundColor: getCascadeLinkColor(link),
+                          color: '#fff',
+                        }}
+                      />
+                    </Box>
+                  </ListItem>
+                </Tooltip>
+              );
+            })}
+          </List>
+        </Collapse>
+      </Box>
+    );
+  };
+
+  // Routing view: average travel distances per flow type and the declared sequences
+  const renderFlowRouting = () => {
+    const routedFlows = flowRouting.flows.filter(flow => flow.doorCount > 0);
+    if (routedFlows.length === 0 && flowSequences.length === 0) return null;
+
+    const shapeNames = new Map(shapes.map(shape => [shape.id, shape.name]));
+    const isExpanded = expandedCategories.includes('flow-routing');
+
+    return (
+      <Box>
+        <Box
+          sx={{
+            p: 1.5,
+            backgroundColor: 'grey.50',
+            cursor: 'pointer',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            borderTop: '1px solid #e0e0e0',
+          }}
+          onClick={() => toggleCategory('flow-routing')}
+        >
+          <Box display="flex" alignItems="center" gap={1}>
+            <span>🚶</span>
+            <Typography variant="subtitle2">
+              Flow Routing
+            </Typography>
+            <Chip size="small" label={`${flowSequences.length} sequences`} />
+            {flowRouting.metrics.blockedSequenceLegs > 0 && (
+              <Chip size="small" color="error" label={`${flowRouting.metrics.blockedSequenceLegs} blocked`} />
+            )}
+          </Box>
+          {isExpanded ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+        </Box>
+
+        <Collapse in={isExpanded}>
+          <List dense>
+            {routedFlows.map(flow => (
+              <ListItem key={flow.flowType}>
+                <ListItemText
+                  primary={`${flow.flowType.charAt(0).toUpperCase()}${flow.flowType.slice(1)}: avg ${flow.averageDistance} m`}
+                  secondary={flow.longestRoute
+                    ? `${flow.doorCount} doors · longest ${flow.longestRoute.distance} m (${shapeNames.get(flow.longestRoute.fromShapeId)} → ${shapeNames.get(flow.longestRoute.toShapeId)})`
+                    : `${flow.doorCount} doors`}
+                  primaryTypographyProps={{ variant: 'caption', fontWeight: 'bold' }}
+                  secondaryTypographyProps={{ variant: 'caption' }}
+                />
+              </ListItem>
+            ))}
+
+            {flowRouting.sequences.map(({ sequence, legs, totalDistance, complete }) => (
+              <ListItem
+                key={sequence.id}
+                sx={{ borderLeft: `4px solid ${complete ? '#4caf50' : getSeverityColor('error')}` }}
+                secondaryAction={onFlowSequencesChange && (
+                  <IconButton
+                    edge="end"
+                    size="small"
+                    onClick={() => onFlowSequencesChange(flowSequences.filter(s => s.id !== sequence.id))}
+                  >
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                )}
+              >
+                <ListItemText
+                  primary={`${sequence.name} (${sequence.flowType}): ${complete ? `${totalDistance} m` : 'blocked'}`}
+                  secondary={legs
+                    .map(leg => `${shapeNames.get(leg.fromShapeId)} → ${shapeNames.get(leg.toShapeId)}: ${leg.route ? `${leg.route.distance} m` : '✗'}`)
+                    .join(' · ')}
+                  primaryTypographyProps={{ variant: 'caption', fontWeight: 'bold' }}
+                  secondaryTypographyProps={{ variant: 'caption' }}
+                />
+              </ListItem>
+            ))}
+          </List>
+
+          {onFlowSequencesChange && (
+            <Box sx={{ px: 1.5, pb: 1.5 }}>
+              <Chip
+                size="small"
+                icon={<AddIcon />}
+                label="Declare sequence"
+                onClick={() => setShowSequenceDialog(true)}
+                variant="outlined"
+              />
+            </Box>
+          )}
+        </Collapse>
+      </Box>
+    );
+  };
+
+  const sequenceDialog = onFlowSequencesChange && (
+    <FlowSequenceDialog
+      open={showSequenceDialog}
+      shapes={shapes}
+      onClose={() => setShowSequenceDialog(false)}
+      onAdd={(sequence) => onFlowSequencesChange([...flowSequences, sequence])}
+    />
+  );
+
   const getPositionStyle = () => {
     const base = {
       position: 'fixed' as const,
@@ -312,6 +612,9 @@ const ValidationOverlay: React.FC<ValidationOverlayProps> = ({
             <VisibilityOffIcon />
           </IconButton>
         </Box>
+        {renderPressureCascade()}
+        {renderFlowRouting()}
+        {sequenceDialog}
       </Paper>
     );
   }
@@ -486,9 +789,12 @@ const ValidationOverlay: React.FC<ValidationOverlayProps> = ({
                 </Collapse>
               </Box>
             ))}
+            {renderPressureCascade()}
+            {renderFlowRouting()}
           </Box>
         </Paper>
       )}
+      {sequenceDialog}
     </>
   );
 };
@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Autocomplete,
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControl,
+  FormControlLabel,
+  FormGroup,
+  IconButton,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Select,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Add as AddIcon, Close as CloseIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { ShapeProperties } from './PropertiesPanel';
+import { LayoutLevel, VerticalConnection, VerticalConnectionType } from '../../types';
+import {
+  getItemLevelId,
+  sortLevels,
+  VERTICAL_CONNECTION_FLOW_TYPES,
+  VERTICAL_CONNECTION_LABELS
+} from '../../utils/buildingLevels';
+
+export interface VerticalConnectionRequest {
+  name: string;
+  type: VerticalConnectionType;
+  coreShapeId: string; // Room on the active level that is stacked onto the other levels
+  levelIds: string[]; // Every level served, including the active one
+}
+
+interface VerticalConnectionDialogProps {
+  open: boolean;
+  levels: LayoutLevel[];
+  activeLevelId: string;
+  shapes: ShapeProperties[]; // Every room in the building
+  selectedShapeId: string | null;
+  verticalConnections: VerticalConnection[];
+  onClose: () => void;
+  onAdd: (request: VerticalConnectionRequest) => void;
+  onDelete: (connectionId: string) => void;
+}
+
+/**
+ * Link levels with stairs, lifts, material hoists and shafts. The core room is
+ * copied onto every other level served so each floor plate has its own landing.
+ */
+const VerticalConnectionDialog: React.FC<VerticalConnectionDialogProps> = ({
+  open,
+  levels,
+  activeLevelId,
+  shapes,
+  selectedShapeId,
+  verticalConnections,
+  onClose,
+  onAdd,
+  onDelete
+}) => {
+  const [name, setName] = useState('');
+  const [type, setType] = useState<VerticalConnectionType>('stair');
+  const [coreShapeId, setCoreShapeId] = useState<string | null>(null);
+  const [levelIds, setLevelIds] = useState<string[]>([]);
+
+  const levelShapes = shapes.filter(shape => getItemLevelId(shape, levels) === activeLevelId);
+  const shapeNames = new Map(shapes.map(shape => [shape.id, shape.name]));
+  const levelNames = new Map(shapes.map(shape => [shape.id, levels.find(level => level.id === getItemLevelId(shape, levels))?.name]));
+
+  // Start from the selected room on the active level, serving every level
+  useEffect(() => {
+    if (!open) return;
+    const selected = levelShapes.find(shape => shape.id === selectedShapeId);
+    setCoreShapeId(selected?.id || null);
+    setLevelIds(levels.map(level => level.id));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const handleClose = () => {
+    setName('');
+    onClose();
+  };
+
+  const handleAdd = () => {
+    if (!coreShapeId) return;
+    onAdd({
+      name: name.trim() || `${VERTICAL_CONNECTION_LABELS[type]} ${verticalConnections.filter(c => c.type === type).length + 1}`,
+      type,
+      coreShapeId,
+      levelIds: Array.from(new Set([...levelIds, activeLevelId])),
+    });
+    setName('');
+  };
+
+  const toggleLevel = (levelId: string) =>
+    setLevelIds(prev => (prev.includes(levelId) ? prev.filter(id => id !== levelId) : [...prev, levelId]));
+
+  const flowsLabel = (connectionType: VerticalConnectionType) => {
+    const flows = VERTICAL_CONNECTION_FLOW_TYPES[connectionType];
+    return flows.length > 0 ? `Carries ${flows.join(' and ')} flow` : 'Services only, not walkable';
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Vertical Connections</DialogTitle>
+      <DialogContent>
+        {verticalConnections.length > 0 ? (
+          <List dense>
+            {verticalConnections.map(connection => (
+              <ListItem
+                key={connection.id}
+                secondaryAction={
+                  <IconButton edge="end" size="small" onClick={() => onDelete(connection.id)}>
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                }
+              >
+                <ListItemText
+                  primary={`${connection.name} (${VERTICAL_CONNECTION_LABELS[connection.type]})`}
+                  secondary={connection.shapeIds
+                    .map(shapeId => `${levelNames.get(shapeId) || '?'}: ${shapeNames.get(shapeId) || 'deleted room'}`)
+                    .join(' ↕ ')}
+                />
+              </ListItem>
+            ))}
+          </List>
+        ) : (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            No vertical connections yet. Without them, flow routing cannot leave a level.
+          </Typography>
+        )}
+
+        <Divider sx={{ my: 1 }} />
+
+        <TextField
+          margin="dense"
+          label="Name"
+          fullWidth
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g. Goods lift GL-01"
+        />
+        <FormControl fullWidth margin="dense">
+          <InputLabel>Type</InputLabel>
+          <Select
+            value={type}
+            label="Type"
+            onChange={(e) => setType(e.target.value as VerticalConnectionType)}
+          >
+            {(Object.keys(VERTICAL_CONNECTION_LABELS) as VerticalConnectionType[]).map(connectionType => (
+              <MenuItem key={connectionType} value={connectionType}>
+                {VERTICAL_CONNECTION_LABELS[connectionType]} - {flowsLabel(connectionType)}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <Autocomplete
+          options={levelShapes}
+          value={levelShapes.find(shape => shape.id === coreShapeId) || null}
+          onChange={(_, value) => setCoreShapeId(value?.id || null)}
+          getOptionLabel={(shape) => shape.name}
+          isOptionEqualToValue={(option, value) => option.id === value.id}
+          renderInput={(params) => (
+            <TextField
+              {...params}
+              margin="dense"
+              label="Core room on this level"
+              helperText="Stair, lift or shaft room; it is copied to the same position on the other levels served"
+            />
+          )}
+        />
+        <Box mt={1}>
+          <Typography variant="caption" color="text.secondary">Levels served</Typography>
+          <FormGroup row>
+            {sortLevels(levels).map(level => (
+              <FormControlLabel
+                key={level.id}
+                control={
+                  <Checkbox
+                    size="small"
+                    checked={level.id === activeLevelId || levelIds.includes(level.id)}
+                    disabled={level.id === activeLevelId}
+                    onChange={() => toggleLevel(level.id)}
+                  />
+                }
+                label={level.name}
+              />
+            ))}
+          </FormGroup>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose} startIcon={<CloseIcon />}>
+          Close
+        </Button>
+        <Button
+          onClick={handleAdd}
+          disabled={!coreShapeId || Array.from(new Set([...levelIds, activeLevelId])).length < 2}
+          variant="contained"
+          startIcon={<AddIcon />}
+        >
+          Add Connection
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default VerticalConnectionDialog;
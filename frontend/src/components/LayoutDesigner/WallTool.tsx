@@ -11,6 +11,7 @@ export interface WallSegment {
   thicknessInches: number; // real-world measurement
   wallType: string;
   color: string;
+  levelId?: string;
   createdAt: Date;
 }
 
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  CircularProgress,
+  Alert
+} from '@mui/material';
+import { Login as LoginIcon } from '@mui/icons-material';
+import { User } from '../types';
+import { login, registerFirstAdmin } from '../services/auth';
+
+interface LoginDialogProps {
+  setupRequired: boolean; // No account exists yet: create the first admin instead of signing in
+  onSignedIn: (user: User) => void;
+}
+
+const LoginDialog: React.FC<LoginDialogProps> = ({ setupRequired, onSignedIn }) => {
+  const [email, setEmail] = useState('');
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canSubmit = !!email.trim() && !!password && (!setupRequired || !!name.trim());
+
+  const handleSubmit = async () => {
+    if (!canSubmit || submitting) return;
+
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const session = setupRequired
+        ? await registerFirstAdmin(email.trim(), name.trim(), password)
+        : await login(email.trim(), password);
+      onSignedIn(session.user);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleSubmit();
+    }
+  };
+
+  return (
+    <Dialog open maxWidth="xs" fullWidth>
+      <DialogTitle>{setupRequired ? 'Create Admin Account' : 'Sign In'}</DialogTitle>
+      <DialogContent>
+        {setupRequired && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            No accounts exist yet. This first account becomes the administrator and can invite others.
+          </Alert>
+        )}
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <TextField
+          autoFocus
+          margin="dense"
+          label="Email"
+          type="email"
+          fullWidth
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          onKeyPress={handleKeyPress}
+          disabled={submitting}
+        />
+        {setupRequired && (
+          <TextField
+            margin="dense"
+            label="Name"
+            fullWidth
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyPress={handleKeyPress}
+            disabled={submitting}
+          />
+        )}
+        <TextField
+          margin="dense"
+          label="Password"
+          type="password"
+          fullWidth
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          onKeyPress={handleKeyPress}
+          disabled={submitting}
+          helperText={setupRequired ? 'At least 8 characters' : undefined}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button
+          onClick={handleSubmit}
+          disabled={!canSubmit || submitting}
+          variant="contained"
+          startIcon={submitting ? <CircularProgress size={20} /> : <LoginIcon />}
+        >
+          {setupRequired ? 'Create Account' : 'Sign In'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default LoginDialog;
@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react';
+import { MenuItem, TextField } from '@mui/material';
+import { Project } from '../types';
+import { apiService } from '../services/api';
+
+interface ProjectSelectProps {
+  value: string;
+  onChange: (projectId: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Project that a new diagram or layout is saved into. Only projects where the user can design
+ * are offered; an empty value leaves the item outside any project.
+ */
+const ProjectSelect: React.FC<ProjectSelectProps> = ({ value, onChange, disabled }) => {
+  const [projects, setProjects] = useState<Project[]>([]);
+
+  useEffect(() => {
+    apiService.getProjects()
+      .then(all => setProjects(all.filter(project => project.role && project.role !== 'viewer')))
+      .catch(error => console.error('Error loading projects:', error));
+  }, []);
+
+  return (
+    <TextField
+      select
+      margin="dense"
+      label="Project"
+      fullWidth
+      variant="outlined"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      helperText="Project members get access according to their project role"
+    >
+      <MenuItem value="">No project</MenuItem>
+      {projects.map(project => (
+        <MenuItem key={project.id} value={project.id}>
+          {project.name}
+        </MenuItem>
+      ))}
+    </TextField>
+  );
+};
+
+export default ProjectSelect;
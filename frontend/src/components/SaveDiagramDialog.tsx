@@ -9,11 +9,13 @@ import {
   Box,
   Typography,
 } from '@mui/material';
+import ProjectSelect from './ProjectSelect';
 
 interface SaveDiagramDialogProps {
   open: boolean;
   onClose: () => void;
-  onSave: (name: string) => void;
+  onSave: (name: string, projectId?: string) => void;
+  showProject?: boolean; // New diagrams can be saved into a project
   nodeCount: number;
   relationshipCount: number;
 }
@@ -22,10 +24,12 @@ const SaveDiagramDialog: React.FC<SaveDiagramDialogProps> = ({
   open,
   onClose,
   onSave,
+  showProject = false,
   nodeCount,
   relationshipCount,
 }) => {
   const [diagramName, setDiagramName] = useState('');
+  const [projectId, setProjectId] = useState('');
   const [error, setError] = useState('');
 
   const handleSave = () => {
@@ -41,7 +45,7 @@ const SaveDiagramDialog: React.FC<SaveDiagramDialogProps> = ({
       return;
     }
 
-    onSave(trimmedName);
+    onSave(trimmedName, showProject ? projectId || undefined : undefined);
     setDiagramName('');
     setError('');
   };
@@ -93,6 +97,9 @@ const SaveDiagramDialog: React.FC<SaveDiagramDialogProps> = ({
             helperText={error || 'Enter a descriptive name for your diagram'}
             placeholder="e.g., Production Facility Layout"
           />
+          {showProject && open && (
+            <ProjectSelect value={projectId} onChange={setProjectId} />
+          )}
         </Box>
       </DialogContent>
       <DialogActions>
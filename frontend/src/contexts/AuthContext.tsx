@@ -0,0 +1,103 @@
+import React, { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import { Box, CircularProgress } from '@mui/material';
+import { User, UserRole } from '../types';
+import {
+  AUTH_REQUIRED_EVENT,
+  AuthStatus,
+  clearAuthToken,
+  getAuthStatus,
+  getAuthToken,
+  getCurrentUser
+} from '../services/auth';
+import LoginDialog from '../components/LoginDialog';
+
+const ROLE_ORDER: UserRole[] = ['viewer', 'designer', 'reviewer', 'admin'];
+
+interface AuthContextType {
+  user: User | null;
+  authEnabled: boolean;
+  hasRole: (role: UserRole) => boolean;
+  logout: () => void;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+/**
+ * Signs the user in before the app is shown. When the backend runs with AUTH_DISABLED=true
+ * the app is shown straight away and every action is allowed.
+ */
+export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [status, setStatus] = useState<AuthStatus | null>(null);
+  const [user, setUser] = useState<User | null>(null);
+  const [checking, setChecking] = useState(true);
+
+  useEffect(() => {
+    const restoreSession = async () => {
+      try {
+        const authStatus = await getAuthStatus();
+        setStatus(authStatus);
+        if (authStatus.authEnabled && getAuthToken()) {
+          setUser(await getCurrentUser());
+        }
+      } catch (error) {
+        // An expired token is cleared by the fetch wrapper; an unreachable backend is reported by the editor itself
+        console.error('Error restoring session:', error);
+      } finally {
+        setChecking(false);
+      }
+    };
+
+    restoreSession();
+  }, []);
+
+  useEffect(() => {
+    const handleAuthRequired = () => setUser(null);
+    window.addEventListener(AUTH_REQUIRED_EVENT, handleAuthRequired);
+    return () => window.removeEventListener(AUTH_REQUIRED_EVENT, handleAuthRequired);
+  }, []);
+
+  const logout = useCallback(() => {
+    clearAuthToken();
+    setUser(null);
+  }, []);
+
+  const authEnabled = !!status?.authEnabled;
+
+  const hasRole = useCallback((role: UserRole) =>
+    !authEnabled || (!!user && ROLE_ORDER.indexOf(user.role) >= ROLE_ORDER.indexOf(role)),
+  [authEnabled, user]);
+
+  if (checking) {
+    return (
+      <Box sx={{ height: '100vh', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (authEnabled && !user) {
+    return (
+      <LoginDialog
+        setupRequired={!!status?.setupRequired}
+        onSignedIn={(signedIn) => {
+          setUser(signedIn);
+          setStatus({ authEnabled: true, setupRequired: false });
+        }}
+      />
+    );
+  }
+
+  return (
+    <AuthContext.Provider value={{ user, authEnabled, hasRole, logout }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export const useAuth = (): AuthContextType => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
@@ -0,0 +1,106 @@
+/**
+ * useLayoutCollaboration Hook
+ *
+ * Shares the levels, rooms, doors, vertical connections, walls and measurements of a saved
+ * layout with everyone who has it open. Local edits are detected by diffing the layout against
+ * the last state synchronized with the collaboration channel, so existing editing code does
+ * not need to know about it.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { CollaborationPresence, CollaborationState, LayoutOperation, LayoutOperationRejection } from '../types';
+import { CollaborationClient, CollaborationStatus, PresenceUpdate } from '../services/collaborationClient';
+import { diffCollaborationStates } from '../utils/layoutOperations';
+
+interface UseLayoutCollaborationOptions {
+  layoutId: string | null;
+  userName: string;
+  enabled: boolean;
+  state: CollaborationState; // Current local layout
+  onRemoteState: (state: CollaborationState) => void; // Replace the local layout
+  onRejected?: (rejections: Array<{ operation: LayoutOperation; reason: LayoutOperationRejection }>) => void;
+}
+
+interface UseLayoutCollaborationReturn {
+  status: CollaborationStatus;
+  peers: CollaborationPresence[];
+  color: string | null;
+  updatePresence: (update: PresenceUpdate) => void;
+}
+
+export function useLayoutCollaboration(options: UseLayoutCollaborationOptions): UseLayoutCollaborationReturn {
+  const { layoutId, userName, enabled, state, onRemoteState, onRejected } = options;
+
+  const [status, setStatus] = useState<CollaborationStatus>('disconnected');
+  const [peers, setPeers] = useState<CollaborationPresence[]>([]);
+  const [color, setColor] = useState<string | null>(null);
+
+  const clientRef = useRef<CollaborationClient | null>(null);
+  // Last layout known to match the client's view; local changes are diffed against it
+  const syncedRef = useRef<CollaborationState>(state);
+  const stateRef = useRef<CollaborationState>(state);
+  const onRemoteStateRef = useRef(onRemoteState);
+  const onRejectedRef = useRef(onRejected);
+  // Sent again whenever the client (re)joins
+  const presenceRef = useRef<PresenceUpdate>({});
+  stateRef.current = state;
+  onRemoteStateRef.current = onRemoteState;
+  onRejectedRef.current = onRejected;
+
+  // Send local edits made since the last synchronization
+  const flushLocalChanges = useCallback(() => {
+    const client = clientRef.current;
+    if (!client) return;
+    const operations = diffCollaborationStates(syncedRef.current, stateRef.current);
+    if (operations.length > 0) {
+      client.submit(operations);
+      syncedRef.current = stateRef.current;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled || !layoutId) return;
+
+    syncedRef.current = stateRef.current;
+    const client = new CollaborationClient(layoutId, userName, stateRef.current, {
+      onState: () => {
+        // Local edits not yet diffed must be submitted first, or the remote state would overwrite them
+        flushLocalChanges();
+        const next = client.getState();
+        // Acknowledgements of our own edits change nothing; keep the local objects
+        if (diffCollaborationStates(stateRef.current, next).length === 0) {
+          syncedRef.current = stateRef.current;
+          return;
+        }
+        syncedRef.current = next;
+        onRemoteStateRef.current(next);
+      },
+      onPeers: setPeers,
+      onStatus: (nextStatus) => {
+        setStatus(nextStatus);
+        setColor(client.getColor());
+      },
+      onRejected: (rejections) => onRejectedRef.current?.(rejections),
+    });
+    client.updatePresence(presenceRef.current);
+    clientRef.current = client;
+    client.connect();
+
+    return () => {
+      clientRef.current = null;
+      client.disconnect();
+      setPeers([]);
+    };
+  }, [enabled, layoutId, userName, flushLocalChanges]);
+
+  useEffect(() => {
+    flushLocalChanges();
+  }, [state, flushLocalChanges]);
+
+  const updatePresence = useCallback((update: PresenceUpdate) => {
+    presenceRef.current = { ...presenceRef.current, ...update };
+    clientRef.current?.updatePresence(update);
+  }, []);
+
+  return { status, peers, color, updatePresence };
+}
@@ -0,0 +1,125 @@
+/**
+ * useLayoutReview Hook
+ *
+ * Review threads pinned to a saved layout and the reviewer's decision on the layout's
+ * current revision. Threads are reloaded when the layout or revision changes.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  LayoutRevisionSummary,
+  ReviewAnchor,
+  ReviewThread,
+  ReviewThreadStatus,
+  RevisionApproval,
+  RevisionApprovalStatus
+} from '../types';
+import { ApiError } from '../services/api';
+
+const LAYOUTS_URL = 'http://localhost:5000/api/layouts';
+
+interface UseLayoutReviewOptions {
+  layoutId: string | null;
+  revision?: number; // Revision on the canvas; its approval is tracked
+  authorName: string; // Only used by backends running without accounts
+}
+
+interface UseLayoutReviewReturn {
+  threads: ReviewThread[];
+  approval: RevisionApproval | null;
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  createThread: (anchor: ReviewAnchor, body: string) => Promise<ReviewThread>;
+  reply: (threadId: string, body: string) => Promise<void>;
+  setThreadStatus: (threadId: string, status: ReviewThreadStatus) => Promise<void>;
+  setApproval: (status: RevisionApprovalStatus, note?: string) => Promise<void>;
+}
+
+const reviewRequest = async <T>(url: string, options: RequestInit = {}): Promise<T> => {
+  const response = await fetch(url, {
+    ...options,
+    headers: { 'Content-Type': 'application/json', ...options.headers },
+  });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new ApiError(body?.error || `Request failed with status ${response.status}`, response.status, body);
+  }
+  return body;
+};
+
+export function useLayoutReview(options: UseLayoutReviewOptions): UseLayoutReviewReturn {
+  const { layoutId, revision, authorName } = options;
+
+  const [threads, setThreads] = useState<ReviewThread[]>([]);
+  const [approval, setApprovalState] = useState<RevisionApproval | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!layoutId) {
+      setThreads([]);
+      setApprovalState(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [loadedThreads, revisions] = await Promise.all([
+        reviewRequest<ReviewThread[]>(`${LAYOUTS_URL}/${layoutId}/review-threads`),
+        reviewRequest<LayoutRevisionSummary[]>(`${LAYOUTS_URL}/${layoutId}/revisions`),
+      ]);
+      setThreads(loadedThreads);
+      setApprovalState(revisions.find(r => r.revision === revision)?.approval || null);
+    } catch (err) {
+      console.error('Error loading layout review:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load review comments');
+    } finally {
+      setLoading(false);
+    }
+  }, [layoutId, revision]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const replaceThread = (updated: ReviewThread) =>
+    setThreads(prev => prev.some(t => t.id === updated.id) ? prev.map(t => (t.id === updated.id ? updated : t)) : [...prev, updated]);
+
+  const createThread = useCallback(async (anchor: ReviewAnchor, body: string) => {
+    const thread = await reviewRequest<ReviewThread>(`${LAYOUTS_URL}/${layoutId}/review-threads`, {
+      method: 'POST',
+      body: JSON.stringify({ anchor, body, author: authorName }),
+    });
+    replaceThread(thread);
+    return thread;
+  }, [layoutId, authorName]);
+
+  const reply = useCallback(async (threadId: string, body: string) => {
+    replaceThread(await reviewRequest<ReviewThread>(`${LAYOUTS_URL}/${layoutId}/review-threads/${threadId}/comments`, {
+      method: 'POST',
+      body: JSON.stringify({ body, author: authorName }),
+    }));
+  }, [layoutId, authorName]);
+
+  const setThreadStatus = useCallback(async (threadId: string, status: ReviewThreadStatus) => {
+    replaceThread(await reviewRequest<ReviewThread>(`${LAYOUTS_URL}/${layoutId}/review-threads/${threadId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ status, author: authorName }),
+    }));
+  }, [layoutId, authorName]);
+
+  const setApproval = useCallback(async (status: RevisionApprovalStatus, note?: string) => {
+    if (revision === undefined) throw new Error('Save the layout before reviewing it');
+
+    const result = await reviewRequest<{ approval: RevisionApproval }>(`${LAYOUTS_URL}/${layoutId}/revisions/${revision}/approval`, {
+      method: 'PUT',
+      body: JSON.stringify({ status, note, author: authorName }),
+    });
+    setApprovalState(result.approval);
+  }, [layoutId, revision, authorName]);
+
+  return { threads, approval, loading, error, refresh, createThread, reply, setThreadStatus, setApproval };
+}
@@ -3,6 +3,7 @@ import ReactDOM from 'react-dom/client';
 import './index.css';
 import App from './App';
 import reportWebVitals from './reportWebVitals';
+import { installAuthFetch } from './services/auth';
 
 // Enhanced ResizeObserver error handling and loop prevention
 const setupResizeObserverErrorHandling = () => {
@@ -162,6 +163,9 @@ const setupResizeObserverErrorHandling = () => {
 // Initialize ResizeObserver error handling
 setupResizeObserverErrorHandling();
 
+// Attach the signed-in user's token to backend requests
+installAuthFetch();
+
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
 );
@@ -5,11 +5,23 @@ import {
   ValidationResult, 
   Suggestion,
   SpatialRelationship,
-  NodeGroup 
+  NodeGroup,
+  Project
 } from '../types';
 
 const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
 
+/**
+ * Failed API request; keeps the status and parsed body so callers can handle
+ * structured responses such as a 409 save conflict
+ */
+export class ApiError extends Error {
+  constructor(message: string, public status: number, public body: any) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
 class ApiService {
   private baseURL = API_BASE_URL;
 
@@ -18,18 +30,19 @@ class ApiService {
 
     try {
       const response = await fetch(url, {
+        ...options,
         headers: {
           'Content-Type': 'application/json',
           ...options.headers,
         },
-        ...options,
       });
 
       if (!response.ok) {
         // Try to get error details from response body
         let errorDetails = `${response.status} ${response.statusText}`;
+        let errorBody: any = null;
         try {
-          const errorBody = await response.json();
+          errorBody = await response.json();
           if (errorBody.error || errorBody.details) {
             errorDetails = `${errorBody.error || errorDetails}: ${errorBody.details || ''}`;
           }
@@ -37,7 +50,7 @@ class ApiService {
         } catch (e) {
           // Ignore JSON parse errors for error responses
         }
-        throw new Error(`API request failed: ${errorDetails}`);
+        throw new ApiError(`API request failed: ${errorDetails}`, response.status, errorBody);
       }
 
       const data = await response.json();
@@ -199,16 +212,25 @@ class ApiService {
     return this.request<Diagram>(`/diagrams/${id}`);
   }
 
-  async createDiagram(diagram: Omit<Diagram, 'id' | 'createdAt' | 'updatedAt'>): Promise<{ id: string; message: string }> {
-    return this.request<{ id: string; message: string }>('/diagrams', {
+  async createDiagram(diagram: Omit<Diagram, 'id' | 'createdAt' | 'updatedAt'>): Promise<{ id: string; message: string; revision: number }> {
+    return this.request<{ id: string; message: string; revision: number }>('/diagrams', {
       method: 'POST',
       body: JSON.stringify(diagram),
     });
   }
 
-  async updateDiagram(id: string, diagram: Omit<Diagram, 'id' | 'createdAt' | 'updatedAt'>): Promise<{ message: string }> {
-    return this.request<{ message: string }>(`/diagrams/${id}`, {
+  /**
+   * Update a diagram. With `revision` the save is refused with an ApiError (status 409,
+   * body DiagramSaveConflict) when someone else has updated the diagram since that revision.
+   */
+  async updateDiagram(
+    id: string,
+    diagram: Omit<Diagram, 'id' | 'createdAt' | 'updatedAt'>,
+    revision?: number
+  ): Promise<{ message: string; revision?: number }> {
+    return this.request<{ message: string; revision?: number }>(`/diagrams/${id}`, {
       method: 'PUT',
+      headers: revision !== undefined ? { 'If-Match': `"${revision}"` } : undefined,
       body: JSON.stringify(diagram),
     });
   }
@@ -219,11 +241,21 @@ class ApiService {
     });
   }
 
+  // Projects
+  async getProjects(): Promise<Project[]> {
+    return this.request<Project[]>('/projects');
+  }
+
   // Validation
-  async validateDiagram(nodes: FunctionalArea[], relationships: SpatialRelationship[]): Promise<ValidationResult> {
+  // Saved diagrams (diagramId) are validated against their pinned rule set unless ruleSetVersion is given
+  async validateDiagram(
+    nodes: FunctionalArea[],
+    relationships: SpatialRelationship[],
+    options: { diagramId?: string; ruleSetVersion?: number } = {}
+  ): Promise<ValidationResult> {
     return this.request<ValidationResult>('/validation', {
       method: 'POST',
-      body: JSON.stringify({ nodes, relationships }),
+      body: JSON.stringify({ nodes, relationships, ...options }),
     });
   }
 
@@ -384,16 +416,21 @@ class ApiService {
     }
   }
 
-  // Groups
-  async getGroups(): Promise<NodeGroup[]> {
-    return this.request<NodeGroup[]>('/groups');
+  // Groups (always scoped to a diagram or layout)
+  async getGroups(scope: { diagramId?: string; layoutId?: string }): Promise<NodeGroup[]> {
+    const query = scope.diagramId
+      ? `diagramId=${encodeURIComponent(scope.diagramId)}`
+      : `layoutId=${encodeURIComponent(scope.layoutId || '')}`;
+    return this.request<NodeGroup[]>(`/groups?${query}`);
   }
 
   async getGroupById(id: string): Promise<NodeGroup> {
     return this.request<NodeGroup>(`/groups/${id}`);
   }
 
-  async createGroup(group: Omit<NodeGroup, 'id' | 'createdAt' | 'updatedAt'>): Promise<NodeGroup> {
+  async createGroup(
+    group: Omit<NodeGroup, 'id' | 'createdAt' | 'updatedAt' | 'ownerType' | 'ownerId'> & { diagramId?: string; layoutId?: string }
+  ): Promise<NodeGroup> {
     return this.request<NodeGroup>('/groups', {
       method: 'POST',
       body: JSON.stringify(group),
@@ -0,0 +1,91 @@
+import { User } from '../types';
+
+// Origin of the backend; every API client builds its URLs on it, so they all carry the token
+export const API_ORIGIN = new URL(process.env.REACT_APP_API_URL || 'http://localhost:5000/api').origin;
+const TOKEN_STORAGE_KEY = 'designCopilot_authToken';
+
+// Fired when the backend rejects the stored token so the app can ask to sign in again
+export const AUTH_REQUIRED_EVENT = 'designCopilot:auth-required';
+
+export interface AuthStatus {
+  authEnabled: boolean;
+  setupRequired: boolean; // No user exists yet; the first registration becomes the admin
+}
+
+export interface AuthSession {
+  token: string;
+  expiresAt: string;
+  user: User;
+}
+
+export const getAuthToken = (): string | null => localStorage.getItem(TOKEN_STORAGE_KEY);
+
+export const clearAuthToken = () => localStorage.removeItem(TOKEN_STORAGE_KEY);
+
+/**
+ * Send the stored bearer token with every request to the backend. Components call the API with
+ * plain fetch, so patching it once here covers all of them. Relative `/api/` paths count too:
+ * the development server proxies them to the backend.
+ */
+export const installAuthFetch = () => {
+  const originalFetch = window.fetch.bind(window);
+
+  window.fetch = async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const token = getAuthToken();
+    const target = new URL(url, window.location.href);
+    const isApiRequest = target.origin === API_ORIGIN
+      || (target.origin === window.location.origin && target.pathname.startsWith('/api/'));
+
+    if (!isApiRequest) {
+      return originalFetch(input, init);
+    }
+
+    const headers = new Headers(init.headers || (input instanceof Request ? input.headers : undefined));
+    if (token && !headers.has('Authorization')) {
+      headers.set('Authorization', `Bearer ${token}`);
+    }
+
+    const response = await originalFetch(input, { ...init, headers });
+    if (response.status === 401 && !url.includes('/api/auth/login')) {
+      clearAuthToken();
+      window.dispatchEvent(new Event(AUTH_REQUIRED_EVENT));
+    }
+    return response;
+  };
+};
+
+const authRequest = async <T>(endpoint: string, options: RequestInit = {}): Promise<T> => {
+  const response = await fetch(`${API_ORIGIN}/api/auth${endpoint}`, {
+    ...options,
+    headers: { 'Content-Type': 'application/json', ...options.headers }
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed with status ${response.status}`);
+  }
+  return data;
+};
+
+const storeSession = (session: AuthSession): AuthSession => {
+  localStorage.setItem(TOKEN_STORAGE_KEY, session.token);
+  return session;
+};
+
+export const getAuthStatus = () => authRequest<AuthStatus>('/status');
+
+export const login = async (email: string, password: string) =>
+  storeSession(await authRequest<AuthSession>('/login', {
+    method: 'POST',
+    body: JSON.stringify({ email, password })
+  }));
+
+// Only accepted while no user exists: creates the first admin
+export const registerFirstAdmin = async (email: string, name: string, password: string) =>
+  storeSession(await authRequest<AuthSession>('/register', {
+    method: 'POST',
+    body: JSON.stringify({ email, name, password })
+  }));
+
+export const getCurrentUser = async (): Promise<User> => (await authRequest<{ user: User }>('/me')).user;
@@ -0,0 +1,216 @@
+import {
+  CollaborationPresence,
+  CollaborationServerMessage,
+  CollaborationState,
+  LayoutOperation,
+  LayoutOperationRejection
+} from '../types';
+import { applyLayoutOperations } from '../utils/layoutOperations';
+import { API_ORIGIN, getAuthToken } from './auth';
+
+const API_BASE_URL = API_ORIGIN;
+const COLLABORATION_URL = `${API_BASE_URL.replace(/^http/, 'ws')}/api/collaboration`;
+// Close code the backend uses for a missing or invalid token
+const AUTH_REQUIRED_CLOSE_CODE = 4401;
+
+const MAX_RECONNECT_DELAY_MS = 10000;
+// Cursor updates are sent at most this often
+const PRESENCE_THROTTLE_MS = 50;
+
+export type CollaborationStatus = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+export interface CollaborationClientCallbacks {
+  onState: (state: CollaborationState) => void; // Layout changed by the server or another user
+  onPeers: (peers: CollaborationPresence[]) => void;
+  onStatus: (status: CollaborationStatus) => void;
+  onRejected?: (rejections: Array<{ operation: LayoutOperation; reason: LayoutOperationRejection }>) => void;
+}
+
+interface PendingBatch {
+  clientSeq: number;
+  operations: LayoutOperation[];
+}
+
+export type PresenceUpdate = { cursor?: { x: number; y: number }; selection?: string[]; levelId?: string };
+
+/**
+ * Client side of the collaborative layout session.
+ *
+ * Keeps the last state confirmed by the server plus the local operations it has not
+ * acknowledged yet. Remote operations are applied to the confirmed state and the pending
+ * operations replayed on top, so local edits show immediately and still end up in server
+ * order. Pending operations survive a dropped connection and are resent after rejoining.
+ */
+export class CollaborationClient {
+  private socket: WebSocket | null = null;
+  private confirmed: CollaborationState;
+  private pending: PendingBatch[] = [];
+  private nextClientSeq = 1;
+  private peers = new Map<string, CollaborationPresence>();
+  private clientId: string | null = null;
+  private color: string | null = null;
+  private closed = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private presence: PresenceUpdate = {};
+  private lastPresenceSent = 0;
+  private presenceTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private layoutId: string,
+    private userName: string,
+    initialState: CollaborationState,
+    private callbacks: CollaborationClientCallbacks,
+    private url: string = COLLABORATION_URL
+  ) {
+    this.confirmed = initialState;
+  }
+
+  /**
+   * Layout as this user sees it: server state plus unacknowledged local edits
+   */
+  getState(): CollaborationState {
+    return this.pending.reduce((state, batch) => applyLayoutOperations(state, batch.operations), this.confirmed);
+  }
+
+  getClientId(): string | null {
+    return this.clientId;
+  }
+
+  getColor(): string | null {
+    return this.color;
+  }
+
+  submit(operations: LayoutOperation[]): void {
+    if (operations.length === 0) return;
+    const batch = { clientSeq: this.nextClientSeq++, operations };
+    this.pending.push(batch);
+    // Sent now if connected, otherwise on rejoin
+    this.sendBatch(batch);
+  }
+
+  updatePresence(update: PresenceUpdate): void {
+    this.presence = { ...this.presence, ...update };
+    const wait = PRESENCE_THROTTLE_MS - (Date.now() - this.lastPresenceSent);
+    if (wait <= 0) {
+      this.flushPresence();
+    } else if (!this.presenceTimer) {
+      this.presenceTimer = setTimeout(() => this.flushPresence(), wait);
+    }
+  }
+
+  disconnect(): void {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    if (this.presenceTimer) clearTimeout(this.presenceTimer);
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify({ type: 'leave' }));
+    }
+    this.socket?.close();
+    this.socket = null;
+    this.callbacks.onStatus('disconnected');
+  }
+
+  /**
+   * Open the socket and join the layout session
+   */
+  connect(): void {
+    this.callbacks.onStatus(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+    // Browsers can't set headers on a WebSocket, so the token travels in the query string
+    const token = getAuthToken();
+    const socket = new WebSocket(token ? `${this.url}?token=${encodeURIComponent(token)}` : this.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      // A new session is seeded with what this user sees; an existing one sends its own state back
+      socket.send(JSON.stringify({ type: 'join', layoutId: this.layoutId, name: this.userName, state: this.getState() }));
+    };
+
+    socket.onmessage = (event) => {
+      try {
+        this.handleMessage(JSON.parse(event.data));
+      } catch (error) {
+        console.error('❌ Collaboration message error:', error);
+      }
+    };
+
+    socket.onclose = (event) => {
+      if (this.socket !== socket || this.closed) return;
+      this.socket = null;
+      this.peers.clear();
+      this.callbacks.onPeers([]);
+      if (event.code === AUTH_REQUIRED_CLOSE_CODE) {
+        this.callbacks.onStatus('disconnected');
+        return;
+      }
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect(): void {
+    const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), MAX_RECONNECT_DELAY_MS);
+    this.reconnectAttempts++;
+    this.callbacks.onStatus('reconnecting');
+    this.reconnectTimer = setTimeout(() => this.connect(), delay);
+  }
+
+  private handleMessage(message: CollaborationServerMessage): void {
+    switch (message.type) {
+      case 'welcome':
+        this.clientId = message.clientId;
+        this.color = message.color;
+        this.confirmed = message.state;
+        this.reconnectAttempts = 0;
+        this.peers = new Map(message.users.map(user => [user.clientId, user]));
+        // Edits made while disconnected; duplicates of edits the server already has are rejected harmlessly
+        this.pending.forEach(batch => this.sendBatch(batch));
+        this.callbacks.onStatus('connected');
+        this.callbacks.onPeers(Array.from(this.peers.values()));
+        this.callbacks.onState(this.getState());
+        if (Object.keys(this.presence).length > 0) this.flushPresence();
+        break;
+
+      case 'op':
+        if (message.clientId === this.clientId) {
+          // Acknowledgement of our oldest pending batch
+          this.pending = this.pending.filter(batch => batch.clientSeq !== message.clientSeq);
+        }
+        this.confirmed = applyLayoutOperations(this.confirmed, message.operations);
+        this.callbacks.onState(this.getState());
+        break;
+
+      case 'rejected':
+        this.callbacks.onRejected?.(message.operations);
+        break;
+
+      case 'presence':
+      case 'user-joined':
+        this.peers.set(message.user.clientId, message.user);
+        this.callbacks.onPeers(Array.from(this.peers.values()));
+        break;
+
+      case 'user-left':
+        this.peers.delete(message.clientId);
+        this.callbacks.onPeers(Array.from(this.peers.values()));
+        break;
+
+      case 'error':
+        console.error('❌ Collaboration server error:', message.error);
+        break;
+    }
+  }
+
+  private sendBatch(batch: PendingBatch): void {
+    if (this.socket?.readyState === WebSocket.OPEN && this.clientId) {
+      this.socket.send(JSON.stringify({ type: 'op', clientSeq: batch.clientSeq, operations: batch.operations }));
+    }
+  }
+
+  private flushPresence(): void {
+    this.presenceTimer = null;
+    if (this.socket?.readyState === WebSocket.OPEN && this.clientId) {
+      this.lastPresenceSent = Date.now();
+      this.socket.send(JSON.stringify({ type: 'presence', ...this.presence }));
+    }
+  }
+}
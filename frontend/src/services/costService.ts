@@ -3,6 +3,7 @@ import type {
   ProjectCostEstimate,
   RoomCostFactors
 } from '../../../shared/types';
+import { API_ORIGIN } from './auth';
 
 // Equipment catalog item interface
 export interface EquipmentCatalogItem {
@@ -45,7 +46,7 @@ export interface CleanroomCostProfileInput {
   currency?: string;
 }
 
-const API_BASE_URL = process.env.REACT_APP_API_BASE_URL || 'http://localhost:5000';
+const API_BASE_URL = API_ORIGIN;
 
 class CostService {
   /**
@@ -190,6 +191,41 @@ class CostService {
     }
   }
 
+  /**
+   * Export a project estimate as an Excel workbook with live formulas, or as a flat CSV
+   */
+  async exportEstimate(
+    rooms: {
+      id?: string;
+      name?: string;
+      area: number;
+      cleanroomClass: string;
+      roomType: string;
+      equipment?: string[];
+    }[],
+    format: 'xlsx' | 'csv',
+    settings?: CostEstimationSettings,
+    options: { projectName?: string; rateTable?: ProjectCostEstimate['rateTable'] } = {}
+  ): Promise<Blob> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/costs/export`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ rooms, settings, format, ...options }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to export cost estimate');
+      }
+      return await response.blob();
+    } catch (error) {
+      console.error('Error exporting cost estimate:', error);
+      throw error;
+    }
+  }
+
   /**
    * Save cost estimate to knowledge graph
    */
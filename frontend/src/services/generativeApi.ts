@@ -5,6 +5,8 @@ import {
   TemplateInstantiationRequest,
   Diagram,
   ComplianceReport,
+  LayoutModification,
+  ApplyFixesResult,
   SpatialPlacement,
   SmartGhostSuggestion,
   GhostSuggestion,
@@ -120,6 +122,31 @@ export class GenerativeApiService {
     }
   }
 
+  /**
+   * Apply selected compliance auto-fixes and get the re-checked diagram
+   */
+  static async applyFixes(
+    diagram: Diagram,
+    fixes: LayoutModification[],
+    regulatoryZone: 'FDA' | 'EMA' | 'ICH' | 'WHO' | 'PIC/S' = 'FDA'
+  ): Promise<ApplyFixesResult> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/generative/apply-fixes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ diagram, fixes, regulatoryZone })
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || error.error || 'Failed to apply compliance fixes');
+      }
+      return await response.json();
+    } catch (error: any) {
+      console.error('Error applying compliance fixes:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get regulatory rules for a specific zone
    */
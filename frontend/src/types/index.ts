@@ -27,6 +27,81 @@ export interface DoorConnection {
   updatedAt?: Date;
 }
 
+// Declared material/personnel/waste route through an ordered list of rooms (shape IDs)
+export interface FlowSequence {
+  id: string;
+  name: string;
+  flowType: DoorFlowType;
+  shapeIds: string[];
+}
+
+// Building level (floor plate); elevation and floor-to-floor height in meters
+export interface LayoutLevel {
+  id: string;
+  name: string;
+  elevation: number; // Finished floor level above ground
+  floorToFloorHeight: number;
+}
+
+export type VerticalConnectionType = 'stair' | 'lift' | 'material-hoist' | 'shaft';
+
+// Stair, lift, hoist or shaft linking stacked rooms (shape IDs, one per level) across levels
+export interface VerticalConnection {
+  id: string;
+  name: string;
+  type: VerticalConnectionType;
+  shapeIds: string[];
+}
+
+// Real-time collaboration (WebSocket /api/collaboration); mirrors the backend protocol
+export type CollaborationCollection =
+  | 'levels'
+  | 'shapes'
+  | 'doorConnections'
+  | 'doorPlacements'
+  | 'verticalConnections'
+  | 'walls'
+  | 'measurements';
+
+export interface CollaborationEntity {
+  id: string;
+  [key: string]: any;
+}
+
+export type CollaborationState = Record<CollaborationCollection, CollaborationEntity[]>;
+
+// One edit; updates carry only the changed top-level fields
+export type LayoutOperation =
+  | { kind: 'add'; collection: CollaborationCollection; value: CollaborationEntity }
+  | { kind: 'update'; collection: CollaborationCollection; id: string; changes: Record<string, any> }
+  | { kind: 'remove'; collection: CollaborationCollection; id: string };
+
+export type LayoutOperationRejection = 'duplicate-id' | 'not-found' | 'missing-room' | 'missing-level' | 'invalid';
+
+export interface CollaborationPresence {
+  clientId: string;
+  name: string;
+  color: string;
+  cursor?: { x: number; y: number }; // Canvas coordinates
+  selection: string[]; // Selected shape IDs
+  levelId?: string;
+}
+
+export type CollaborationClientMessage =
+  | { type: 'join'; layoutId: string; name: string; state: CollaborationState }
+  | { type: 'op'; clientSeq: number; operations: LayoutOperation[] }
+  | { type: 'presence'; cursor?: { x: number; y: number }; selection?: string[]; levelId?: string }
+  | { type: 'leave' };
+
+export type CollaborationServerMessage =
+  | { type: 'welcome'; clientId: string; color: string; version: number; state: CollaborationState; users: CollaborationPresence[] }
+  | { type: 'op'; version: number; clientId: string; clientSeq: number; operations: LayoutOperation[] }
+  | { type: 'rejected'; clientSeq: number; version: number; operations: Array<{ operation: LayoutOperation; reason: LayoutOperationRejection }> }
+  | { type: 'presence'; user: CollaborationPresence }
+  | { type: 'user-joined'; user: CollaborationPresence }
+  | { type: 'user-left'; clientId: string }
+  | { type: 'error'; error: string };
+
 export interface Equipment {
   id: string;
   name: string;
@@ -89,15 +164,27 @@ export interface Diagram {
   name: string;
   nodes: FunctionalArea[];
   relationships: SpatialRelationship[];
+  groups?: NodeGroup[];
+  revision?: number; // Sent back in If-Match when saving
+  projectId?: string | null;
+  ruleSetVersion?: number | null; // Pinned rule set; unset follows the latest release
   createdAt: Date | string | null;
   updatedAt: Date | string | null;
   nodeCount?: number;  // Optional: count of nodes (for list view)
   relationshipCount?: number;  // Optional: count of relationships (for list view)
 }
 
+// Rule set a result was produced with; null means the live, unversioned rules
+export interface RuleSetReference {
+  version: number;
+  name: string;
+  status: 'draft' | 'released';
+}
+
 export interface ValidationResult {
   isValid: boolean;
   violations: ValidationViolation[];
+  ruleSet?: RuleSetReference | null;
 }
 
 export interface ValidationViolation {
@@ -305,14 +392,28 @@ export interface ModeConfig {
   canDeleteNodes: boolean;
 }
 
+/**
+ * Nesting level of a node group (zone → suite → room)
+ */
+export type NodeGroupLevel = 'zone' | 'suite' | 'room';
+
+/**
+ * What a node group belongs to - groups are always scoped to one diagram or layout
+ */
+export type NodeGroupOwnerType = 'diagram' | 'layout';
+
 export interface NodeGroup {
   id: string;
   name: string;
   color: string;
   nodeIds: string[];
   description?: string;
-  createdAt: Date;
-  updatedAt: Date;
+  level?: NodeGroupLevel;
+  parentGroupId?: string | null; // Enclosing group (e.g. the zone a suite belongs to)
+  ownerType?: NodeGroupOwnerType;
+  ownerId?: string; // Diagram or layout ID
+  createdAt: Date | string;
+  updatedAt: Date | string;
 }
 
 export interface GroupingState {
@@ -321,6 +422,184 @@ export interface GroupingState {
   groups: NodeGroup[];
 }
 
+/**
+ * Saved revision of a layout (history listing - without the layout data)
+ */
+export interface LayoutRevisionSummary {
+  id: string;
+  layoutId: string;
+  revision: number;
+  version: string;
+  author: string;
+  comment: string;
+  shapeCount: number;
+  createdAt: string | null;
+  approval?: RevisionApproval;
+}
+
+export interface LayoutRevisionInfo {
+  author?: string;
+  comment?: string;
+}
+
+export type RevisionApprovalStatus = 'pending' | 'approved' | 'changes_requested';
+
+export interface RevisionApproval {
+  status: RevisionApprovalStatus;
+  reviewer?: string;
+  note?: string;
+  decidedAt?: string | null;
+}
+
+export type ReviewAnchorKind = 'shape' | 'door' | 'wall' | 'canvas';
+
+// Where a review thread is pinned; x/y is the pin position, used once the target is deleted
+export interface ReviewAnchor {
+  kind: ReviewAnchorKind;
+  targetId?: string;
+  x: number;
+  y: number;
+  levelId?: string;
+}
+
+export type ReviewThreadStatus = 'open' | 'resolved';
+
+export interface ReviewComment {
+  id: string;
+  threadId: string;
+  author: string;
+  authorId?: string;
+  body: string;
+  mentions: string[];
+  createdAt: string | null;
+}
+
+export interface ReviewThread {
+  id: string;
+  layoutId: string;
+  anchor: ReviewAnchor;
+  status: ReviewThreadStatus;
+  revision: number | null; // Layout revision the thread was opened on
+  author: string;
+  createdAt: string | null;
+  resolvedBy?: string;
+  resolvedAt?: string | null;
+  comments: ReviewComment[];
+}
+
+export interface ShapeDiffEntry {
+  id: string;
+  name: string;
+}
+
+export interface DoorDiffEntry {
+  id: string;
+  kind: 'connection' | 'placement';
+  between: [string, string];
+  flowType: string;
+}
+
+/**
+ * Changes between two layout revisions
+ */
+export interface LayoutDiff {
+  layoutId: string;
+  fromRevision: number;
+  toRevision: number;
+  shapes: {
+    added: ShapeDiffEntry[];
+    removed: ShapeDiffEntry[];
+    moved: Array<ShapeDiffEntry & { from: { x: number; y: number }; to: { x: number; y: number } }>;
+    resized: Array<ShapeDiffEntry & { from: { width: number; height: number }; to: { width: number; height: number } }>;
+    cleanroomClassChanged: Array<ShapeDiffEntry & { from?: string; to?: string }>;
+  };
+  doors: {
+    added: DoorDiffEntry[];
+    removed: DoorDiffEntry[];
+    changed: Array<DoorDiffEntry & { changes: string[] }>;
+  };
+  totalChanges: number;
+}
+
+/**
+ * Advisory edit lock on a layout
+ */
+export interface LayoutLock {
+  layoutId: string;
+  owner: string; // Display name
+  ownerId: string; // User ID of the holder; the owner name when accounts are disabled
+  note?: string;
+  acquiredAt: string;
+  expiresAt: string;
+}
+
+/**
+ * 409 response to a layout save made from an outdated revision
+ */
+export interface LayoutSaveConflict {
+  error: string;
+  layoutId: string;
+  expectedRevision: number | null;
+  currentRevision: number;
+  currentVersion?: string;
+  lastModifiedBy: string;
+  lastModifiedAt: string | null;
+  serverChanges: LayoutDiff | null; // Saved by others since the loaded revision
+  localChanges: LayoutDiff; // What the refused save would change
+}
+
+export interface DiagramDiffEntry {
+  id: string;
+  name: string;
+}
+
+export interface DiagramDiff {
+  nodes: {
+    added: DiagramDiffEntry[];
+    removed: DiagramDiffEntry[];
+    changed: Array<DiagramDiffEntry & { changes: string[] }>;
+  };
+  relationships: {
+    added: DiagramDiffEntry[];
+    removed: DiagramDiffEntry[];
+    changed: Array<DiagramDiffEntry & { changes: string[] }>;
+  };
+  totalChanges: number;
+}
+
+/**
+ * 409 response to a diagram update made from an outdated revision
+ */
+export interface DiagramSaveConflict {
+  error: string;
+  diagramId: string;
+  expectedRevision: number | null;
+  currentRevision: number;
+  lastModifiedAt: string | null;
+  changes: DiagramDiff; // From the diagram being saved to the one on the server
+}
+
+// Roles in increasing order of rights; reviewers can do everything designers can
+export type UserRole = 'viewer' | 'designer' | 'reviewer' | 'admin';
+
+export interface User {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  createdAt: string | null;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  description?: string;
+  role?: UserRole; // Role of the signed-in user in the project
+  diagramCount?: number;
+  layoutCount?: number;
+  createdAt: string | null;
+}
+
 // Utility functions for node ID management
 export const NodeIdUtils = {
   /**
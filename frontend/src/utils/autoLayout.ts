@@ -3,6 +3,8 @@
  * Uses a force-directed algorithm for optimal node placement
  */
 
+import { createSeededRandom, generateSeed } from './seededRandom';
+
 export interface LayoutNode {
   id: string;
   x?: number;
@@ -20,6 +22,7 @@ export interface LayoutOptions {
   iterations?: number;
   nodeSpacing?: number;
   edgeLength?: number;
+  seed?: number; // Same seed and inputs give the same layout
 }
 
 /**
@@ -37,7 +40,9 @@ export function applyForceDirectedLayout(
     iterations = 300,
     nodeSpacing = 150,
     edgeLength = 200,
+    seed = generateSeed(),
   } = options;
+  const random = createSeededRandom(seed);
 
   // Initialize positions randomly if not set
   const positions = new Map<string, { x: number; y: number; vx: number; vy: number }>();
@@ -47,8 +52,8 @@ export function applyForceDirectedLayout(
       positions.set(node.id, { x: node.x, y: node.y, vx: 0, vy: 0 });
     } else {
       positions.set(node.id, {
-        x: Math.random() * width,
-        y: Math.random() * height,
+        x: random() * width,
+        y: random() * height,
         vx: 0,
         vy: 0,
       });
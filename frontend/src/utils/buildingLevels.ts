@@ -0,0 +1,84 @@
+import { DoorFlowType, LayoutLevel, VerticalConnection, VerticalConnectionType } from '../types';
+
+/**
+ * The single floor plate every layout had before levels existed
+ */
+export const DEFAULT_LEVEL: LayoutLevel = {
+  id: 'level-ground',
+  name: 'Ground Floor',
+  elevation: 0,
+  floorToFloorHeight: 4.5,
+};
+
+export const VERTICAL_CONNECTION_LABELS: Record<VerticalConnectionType, string> = {
+  stair: 'Stair',
+  lift: 'Lift',
+  'material-hoist': 'Material Hoist',
+  shaft: 'Shaft',
+};
+
+// Flows that can travel through each kind of vertical connection; shafts only carry services
+export const VERTICAL_CONNECTION_FLOW_TYPES: Record<VerticalConnectionType, DoorFlowType[]> = {
+  stair: ['personnel'],
+  lift: ['personnel', 'material'],
+  'material-hoist': ['material', 'waste'],
+  shaft: [],
+};
+
+/**
+ * Levels of a layout, never empty: layouts saved without levels get the default level
+ */
+export const getLayoutLevels = (levels?: LayoutLevel[]): LayoutLevel[] =>
+  levels && levels.length > 0 ? levels : [DEFAULT_LEVEL];
+
+/**
+ * Levels from the lowest to the highest elevation
+ */
+export const sortLevels = (levels: LayoutLevel[]): LayoutLevel[] =>
+  [...levels].sort((a, b) => a.elevation - b.elevation);
+
+/**
+ * Level an item sits on; items without a known level belong to the first level
+ */
+export const getItemLevelId = (item: { levelId?: string }, levels: LayoutLevel[]): string => {
+  const layoutLevels = getLayoutLevels(levels);
+  return item.levelId && layoutLevels.some(level => level.id === item.levelId)
+    ? item.levelId
+    : layoutLevels[0].id;
+};
+
+export const filterByLevel = <T extends { levelId?: string }>(
+  items: T[],
+  levelId: string,
+  levels: LayoutLevel[]
+): T[] => items.filter(item => getItemLevelId(item, levels) === levelId);
+
+/**
+ * Vertical distance between two levels, in meters
+ */
+export const getLevelRise = (fromLevelId: string, toLevelId: string, levels: LayoutLevel[]): number => {
+  const layoutLevels = getLayoutLevels(levels);
+  const from = layoutLevels.find(level => level.id === fromLevelId);
+  const to = layoutLevels.find(level => level.id === toLevelId);
+  return from && to ? Math.abs(to.elevation - from.elevation) : 0;
+};
+
+/**
+ * Elevation for a new level stacked on top of the highest one
+ */
+export const getNextLevelElevation = (levels: LayoutLevel[]): number => {
+  const sorted = sortLevels(getLayoutLevels(levels));
+  const top = sorted[sorted.length - 1];
+  return Math.round((top.elevation + top.floorToFloorHeight) * 100) / 100;
+};
+
+/**
+ * Drop rooms that no longer exist from vertical connections, and connections left with fewer than two rooms
+ */
+export const pruneVerticalConnections = (
+  connections: VerticalConnection[],
+  shapeIds: Set<string>
+): VerticalConnection[] =>
+  connections
+    .map(connection => ({ ...connection, shapeIds: connection.shapeIds.filter(id => shapeIds.has(id)) }))
+    .filter(connection => connection.shapeIds.length >= 2);
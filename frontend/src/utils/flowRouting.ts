@@ -0,0 +1,391 @@
+import { ShapeProperties } from '../components/LayoutDesigner/PropertiesPanel';
+import { DoorConnection, DoorFlowType, FlowSequence, LayoutLevel, VerticalConnection } from '../types';
+import { DoorPlacement } from './wallDetection';
+import { getItemLevelId, getLevelRise, VERTICAL_CONNECTION_FLOW_TYPES } from './buildingLevels';
+
+export const ROUTED_FLOW_TYPES: DoorFlowType[] = ['material', 'personnel', 'waste'];
+
+/**
+ * One traversable door (or vertical connection) of a flow type, seen from the room it is entered from
+ */
+interface RouteEdge {
+  doorId: string;
+  toShapeId: string;
+  length: number; // Pixels: room centre → door → next room centre, plus the rise between levels
+}
+
+type RouteGraph = Map<string, RouteEdge[]>;
+
+/**
+ * Shortest door-to-door path between two rooms
+ */
+export interface RoomRoute {
+  fromShapeId: string;
+  toShapeId: string;
+  shapeIds: string[]; // Rooms walked through, including both ends
+  doorIds: string[]; // Doors and vertical connections passed through
+  distance: number; // Meters
+}
+
+export interface FlowTypeRouting {
+  flowType: DoorFlowType;
+  doorCount: number;
+  routes: RoomRoute[]; // Every reachable ordered room pair
+  averageDistance: number; // Meters, over declared sequence legs when present, otherwise over all routes
+  longestRoute?: RoomRoute;
+}
+
+export interface SequenceLegRouting {
+  fromShapeId: string;
+  toShapeId: string;
+  route: RoomRoute | null;
+  // Why no route exists: a path exists only against a one-way door, or no door path at all
+  blockedBy?: 'unidirectional-door' | 'no-door-path';
+}
+
+export interface SequenceRouting {
+  sequence: FlowSequence;
+  legs: SequenceLegRouting[];
+  totalDistance: number; // Meters, routable legs only
+  complete: boolean;
+}
+
+/**
+ * Room that has doors of a flow type but can only be left through them
+ */
+export interface UnreachableRoom {
+  shapeId: string;
+  flowType: DoorFlowType;
+  doorIds: string[];
+  message: string;
+}
+
+export interface FlowRoutingResult {
+  flows: FlowTypeRouting[];
+  sequences: SequenceRouting[];
+  unreachableRooms: UnreachableRoom[];
+  metrics: {
+    averageMaterialDistance: number; // Meters
+    averagePersonnelDistance: number; // Meters
+    blockedSequenceLegs: number;
+  };
+}
+
+/**
+ * Levels and the stairs, lifts and hoists between them, for routing across a multi-level building
+ */
+export interface BuildingLevels {
+  levels: LayoutLevel[];
+  verticalConnections: VerticalConnection[];
+}
+
+const getCentre = (shape: ShapeProperties) => ({
+  x: shape.x + shape.width / 2,
+  y: shape.y + shape.height / 2,
+});
+
+const distanceBetween = (a: { x: number; y: number }, b: { x: number; y: number }): number =>
+  Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2);
+
+const roundMeters = (value: number): number => Math.round(value * 10) / 10;
+
+/**
+ * Build the directed door graph for one flow type. Bidirectional doors add an
+ * edge both ways; unidirectional doors only in their arrow direction.
+ * With ignoreDirection every door is walkable both ways (used to tell a
+ * one-way door apart from a missing door).
+ */
+const buildRouteGraph = (
+  shapes: ShapeProperties[],
+  doorConnections: DoorConnection[],
+  doorPlacements: DoorPlacement[],
+  flowType: DoorFlowType,
+  ignoreDirection = false
+): { graph: RouteGraph; doorCount: number } => {
+  const shapesById = new Map(shapes.map(shape => [shape.id, shape]));
+  const graph: RouteGraph = new Map(shapes.map(shape => [shape.id, []]));
+  let doorCount = 0;
+
+  const addDoor = (
+    doorId: string,
+    firstId: string,
+    secondId: string,
+    doorPoint: { x: number; y: number },
+    isOneWay: boolean,
+    reversed: boolean
+  ) => {
+    const first = shapesById.get(firstId);
+    const second = shapesById.get(secondId);
+    if (!first || !second || firstId === secondId) return;
+
+    const length = distanceBetween(getCentre(first), doorPoint) + distanceBetween(doorPoint, getCentre(second));
+    doorCount++;
+
+    if (!isOneWay || ignoreDirection || !reversed) {
+      graph.get(firstId)!.push({ doorId, toShapeId: secondId, length });
+    }
+    if (!isOneWay || ignoreDirection || reversed) {
+      graph.get(secondId)!.push({ doorId, toShapeId: firstId, length });
+    }
+  };
+
+  doorConnections
+    .filter(door => door.flowType === flowType)
+    .forEach(door => addDoor(
+      door.id,
+      door.fromShape.shapeId,
+      door.toShape.shapeId,
+      { x: (door.fromShape.x + door.toShape.x) / 2, y: (door.fromShape.y + door.toShape.y) / 2 },
+      door.flowDirection === 'unidirectional',
+      door.unidirectionalDirection === 'fromSecondToFirst'
+    ));
+
+  doorPlacements
+    .filter(door => door.flowType === flowType)
+    .forEach(door => addDoor(
+      door.id,
+      door.shape1Id,
+      door.shape2Id,
+      door.position,
+      door.flowDirection === 'unidirectional',
+      door.unidirectionalDirection === 'fromSecondToFirst'
+    ));
+
+  return { graph, doorCount };
+};
+
+/**
+ * Link stacked rooms on consecutive levels through the vertical connections
+ * that carry this flow type. Stairs, lifts and hoists can be used both ways.
+ */
+const addVerticalEdges = (
+  graph: RouteGraph,
+  shapes: ShapeProperties[],
+  flowType: DoorFlowType,
+  building: BuildingLevels | undefined,
+  pixelsPerMeter: number
+) => {
+  if (!building) return;
+  const shapesById = new Map(shapes.map(shape => [shape.id, shape]));
+  const elevations = new Map(building.levels.map(level => [level.id, level.elevation]));
+  const elevationOf = (shape: ShapeProperties) => elevations.get(getItemLevelId(shape, building.levels)) ?? 0;
+
+  building.verticalConnections
+    .filter(connection => VERTICAL_CONNECTION_FLOW_TYPES[connection.type].includes(flowType))
+    .forEach(connection => {
+      const stops = connection.shapeIds
+        .map(shapeId => shapesById.get(shapeId))
+        .filter((shape): shape is ShapeProperties => !!shape)
+        .sort((a, b) => elevationOf(a) - elevationOf(b));
+
+      for (let i = 0; i < stops.length - 1; i++) {
+        const lower = stops[i];
+        const upper = stops[i + 1];
+        const rise = getLevelRise(getItemLevelId(lower, building.levels), getItemLevelId(upper, building.levels), building.levels);
+        const length = distanceBetween(getCentre(lower), getCentre(upper)) + rise * pixelsPerMeter;
+        graph.get(lower.id)?.push({ doorId: connection.id, toShapeId: upper.id, length });
+        graph.get(upper.id)?.push({ doorId: connection.id, toShapeId: lower.id, length });
+      }
+    });
+};
+
+/**
+ * Dijkstra over the door graph from one room to every reachable room
+ */
+const findShortestPaths = (
+  graph: RouteGraph,
+  fromShapeId: string
+): Map<string, { distance: number; previous?: { shapeId: string; doorId: string } }> => {
+  const visited = new Set<string>();
+  const best = new Map<string, { distance: number; previous?: { shapeId: string; doorId: string } }>();
+  best.set(fromShapeId, { distance: 0 });
+
+  while (true) {
+    let currentId: string | null = null;
+    best.forEach((entry, shapeId) => {
+      if (!visited.has(shapeId) && (currentId === null || entry.distance < best.get(currentId)!.distance)) {
+        currentId = shapeId;
+      }
+    });
+    if (currentId === null) break;
+
+    const current: string = currentId;
+    visited.add(current);
+    const currentDistance = best.get(current)!.distance;
+
+    (graph.get(current) || []).forEach(edge => {
+      const candidate = currentDistance + edge.length;
+      const known = best.get(edge.toShapeId);
+      if (!visited.has(edge.toShapeId) && (!known || candidate < known.distance)) {
+        best.set(edge.toShapeId, { distance: candidate, previous: { shapeId: current, doorId: edge.doorId } });
+      }
+    });
+  }
+
+  return best;
+};
+
+const buildRoute = (
+  paths: ReturnType<typeof findShortestPaths>,
+  fromShapeId: string,
+  toShapeId: string,
+  pixelsPerMeter: number
+): RoomRoute | null => {
+  const target = paths.get(toShapeId);
+  if (!target || fromShapeId === toShapeId) return null;
+
+  const shapeIds = [toShapeId];
+  const doorIds: string[] = [];
+  let step = target.previous;
+  while (step) {
+    shapeIds.unshift(step.shapeId);
+    doorIds.unshift(step.doorId);
+    step = paths.get(step.shapeId)?.previous;
+  }
+
+  return {
+    fromShapeId,
+    toShapeId,
+    shapeIds,
+    doorIds,
+    distance: roundMeters(target.distance / pixelsPerMeter),
+  };
+};
+
+/**
+ * Shortest door-to-door route between two rooms for one flow type, honouring
+ * unidirectional doors. Returns null when the room cannot be reached.
+ */
+export const findDoorRoute = (
+  shapes: ShapeProperties[],
+  doorConnections: DoorConnection[],
+  doorPlacements: DoorPlacement[],
+  flowType: DoorFlowType,
+  fromShapeId: string,
+  toShapeId: string,
+  pixelsPerMeter: number,
+  building?: BuildingLevels
+): RoomRoute | null => {
+  const { graph } = buildRouteGraph(shapes, doorConnections, doorPlacements, flowType);
+  addVerticalEdges(graph, shapes, flowType, building, pixelsPerMeter);
+  return buildRoute(findShortestPaths(graph, fromShapeId), fromShapeId, toShapeId, pixelsPerMeter);
+};
+
+const average = (values: number[]): number =>
+  values.length > 0 ? roundMeters(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+
+/**
+ * Route every flow type over the real door topology: all-pairs shortest
+ * paths, declared sequences and rooms that one-way doors make unreachable.
+ * With building levels, routes also climb the stairs, lifts and hoists
+ * between floors.
+ */
+export const analyzeFlowRouting = (
+  shapes: ShapeProperties[],
+  doorConnections: DoorConnection[],
+  doorPlacements: DoorPlacement[],
+  flowSequences: FlowSequence[],
+  pixelsPerMeter: number,
+  building?: BuildingLevels
+): FlowRoutingResult => {
+  const shapeNames = new Map(shapes.map(shape => [shape.id, shape.name]));
+  const unreachableRooms: UnreachableRoom[] = [];
+  const sequences: SequenceRouting[] = [];
+
+  const flows = ROUTED_FLOW_TYPES.map(flowType => {
+    const { graph, doorCount } = buildRouteGraph(shapes, doorConnections, doorPlacements, flowType);
+    const { graph: undirectedGraph } = buildRouteGraph(shapes, doorConnections, doorPlacements, flowType, true);
+    addVerticalEdges(graph, shapes, flowType, building, pixelsPerMeter);
+    addVerticalEdges(undirectedGraph, shapes, flowType, building, pixelsPerMeter);
+    const pathsByRoom = new Map<string, ReturnType<typeof findShortestPaths>>();
+    const getPaths = (shapeId: string) => {
+      if (!pathsByRoom.has(shapeId)) {
+        pathsByRoom.set(shapeId, findShortestPaths(graph, shapeId));
+      }
+      return pathsByRoom.get(shapeId)!;
+    };
+
+    const routes: RoomRoute[] = [];
+    shapes.forEach(from => {
+      const paths = getPaths(from.id);
+      shapes.forEach(to => {
+        const route = buildRoute(paths, from.id, to.id, pixelsPerMeter);
+        if (route) routes.push(route);
+      });
+    });
+
+    // A room whose doors of this flow type all point away from it can never be entered
+    shapes.forEach(shape => {
+      const doorIds = Array.from(new Set((undirectedGraph.get(shape.id) || []).map(edge => edge.doorId)));
+      const canBeEntered = routes.some(route => route.toShapeId === shape.id);
+      if (doorIds.length > 0 && !canBeEntered) {
+        unreachableRooms.push({
+          shapeId: shape.id,
+          flowType,
+          doorIds,
+          message: `"${shape.name}" can only be left through its one-way ${flowType} doors - it cannot be reached without breaking a unidirectional door rule`,
+        });
+      }
+    });
+
+    const declaredLegDistances: number[] = [];
+    flowSequences
+      .filter(sequence => sequence.flowType === flowType)
+      .forEach(sequence => {
+        const legs: SequenceLegRouting[] = [];
+        const roomIds = sequence.shapeIds.filter(shapeId => shapeNames.has(shapeId));
+
+        for (let i = 0; i < roomIds.length - 1; i++) {
+          const fromShapeId = roomIds[i];
+          const toShapeId = roomIds[i + 1];
+          const route = buildRoute(getPaths(fromShapeId), fromShapeId, toShapeId, pixelsPerMeter);
+
+          if (route) {
+            declaredLegDistances.push(route.distance);
+            legs.push({ fromShapeId, toShapeId, route });
+          } else {
+            const reachableAgainstDoors = findShortestPaths(undirectedGraph, fromShapeId).has(toShapeId);
+            legs.push({
+              fromShapeId,
+              toShapeId,
+              route: null,
+              blockedBy: reachableAgainstDoors ? 'unidirectional-door' : 'no-door-path',
+            });
+          }
+        }
+
+        sequences.push({
+          sequence,
+          legs,
+          totalDistance: roundMeters(legs.reduce((sum, leg) => sum + (leg.route?.distance || 0), 0)),
+          complete: legs.length > 0 && legs.every(leg => leg.route !== null),
+        });
+      });
+
+    const longestRoute = routes.reduce<RoomRoute | undefined>(
+      (longest, route) => (!longest || route.distance > longest.distance ? route : longest),
+      undefined
+    );
+
+    return {
+      flowType,
+      doorCount,
+      routes,
+      averageDistance: declaredLegDistances.length > 0
+        ? average(declaredLegDistances)
+        : average(routes.map(route => route.distance)),
+      longestRoute,
+    };
+  });
+
+  return {
+    flows,
+    sequences,
+    unreachableRooms,
+    metrics: {
+      averageMaterialDistance: flows.find(flow => flow.flowType === 'material')!.averageDistance,
+      averagePersonnelDistance: flows.find(flow => flow.flowType === 'personnel')!.averageDistance,
+      blockedSequenceLegs: sequences.reduce((count, sequence) => count + sequence.legs.filter(leg => !leg.route).length, 0),
+    },
+  };
+};
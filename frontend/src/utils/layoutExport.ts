@@ -1,12 +1,18 @@
 /**
- * Export layout to PDF and SVG with professional formatting
+ * Export layout to PDF, SVG and DXF with professional formatting
  * Includes title block, scale indicator, and measurements
  */
 
 import { ShapeProperties } from '../components/LayoutDesigner/PropertiesPanel';
 import { Measurement } from '../components/LayoutDesigner/MeasurementTool';
 import { WallSegment } from '../components/LayoutDesigner/WallTool';
-import { UnitConverter } from './unitConversion';
+import { DoorConnection, LayoutLevel, ReviewThread, RevisionApproval, ShapeType, getCleanroomColor } from '../types';
+import { UnitConverter, Unit } from './unitConversion';
+import { computePointsRelative } from './shapeGeometry';
+import { DoorPlacement, findAllSharedWalls } from './wallDetection';
+import { PdfDocument, tintColor } from './pdfDocument';
+import { filterByLevel, getLayoutLevels, sortLevels } from './buildingLevels';
+import { APPROVAL_LABELS, ReviewTargets, describeAnchor, getAnchorPosition } from './layoutReview';
 
 export interface ExportOptions {
   filename: string;
@@ -21,6 +27,16 @@ export interface ExportOptions {
   includeRulers?: boolean;
   pageSize?: 'A4' | 'A3' | 'A2' | 'A1' | 'A0' | 'Letter' | 'Tabloid';
   orientation?: 'portrait' | 'landscape';
+  scale?: number; // Drawing scale denominator for PDF (100 = 1:100); picked automatically when unset
+  includeReviewComments?: boolean; // PDF: review pins on the plans and a comment register after the room schedule
+}
+
+// Review comments for a review package export
+export interface ReviewExport {
+  threads: ReviewThread[]; // Oldest first; numbered from 1 as on the canvas
+  targets: ReviewTargets;
+  revision?: number;
+  approval: RevisionApproval | null;
 }
 
 export interface LayoutData {
@@ -30,12 +46,42 @@ export interface LayoutData {
   canvasWidth: number;
   canvasHeight: number;
   unitConverter: UnitConverter;
+  doorConnections?: DoorConnection[];
+  doorPlacements?: DoorPlacement[];
+  levels?: LayoutLevel[]; // Shapes, walls and measurements carry a levelId; unset = single level
+  review?: ReviewExport;
 }
 
+/**
+ * Split a building into one plan per level, lowest first, each with its own
+ * rooms, walls, doors and measurements
+ */
+const splitByLevel = (layoutData: LayoutData): Array<{ level: LayoutLevel; plan: LayoutData }> => {
+  const levels = getLayoutLevels(layoutData.levels);
+
+  return sortLevels(levels).map(level => {
+    const shapes = filterByLevel(layoutData.shapes, level.id, levels);
+    const shapeIds = new Set(shapes.map(shape => shape.id));
+    return {
+      level,
+      plan: {
+        ...layoutData,
+        shapes,
+        walls: filterByLevel(layoutData.walls, level.id, levels),
+        measurements: filterByLevel(layoutData.measurements, level.id, levels),
+        doorConnections: (layoutData.doorConnections || [])
+          .filter(door => shapeIds.has(door.fromShape.shapeId) && shapeIds.has(door.toShape.shapeId)),
+        doorPlacements: (layoutData.doorPlacements || [])
+          .filter(door => shapeIds.has(door.shape1Id) && shapeIds.has(door.shape2Id)),
+      },
+    };
+  });
+};
+
 /**
  * Page sizes in millimeters
  */
-const PAGE_SIZES = {
+export const PAGE_SIZES = {
   A4: { width: 210, height: 297 },
   A3: { width: 297, height: 420 },
   A2: { width: 420, height: 594 },
@@ -202,29 +248,22 @@ export function exportToSVG(
 }
 
 /**
- * Export layout to PDF (generates SVG that can be converted to PDF client-side)
+ * Export layout to PDF drawing sheets and download the file
  */
 export function exportToPDF(
   layoutData: LayoutData,
   options: ExportOptions
 ): void {
-  // Generate SVG
-  const svgContent = exportToSVG(layoutData, options);
-
-  // Create a temporary link to download the SVG
-  // In a real application, you would use a library like jsPDF or puppeteer
-  // to convert SVG to PDF on the server or client side
-  const blob = new Blob([svgContent], { type: 'image/svg+xml' });
+  const pdfBytes = generatePDF(layoutData, options);
+  const blob = new Blob([pdfBytes], { type: 'application/pdf' });
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.href = url;
-  link.download = `${options.filename}.svg`;
+  link.download = `${options.filename}.pdf`;
   document.body.appendChild(link);
   link.click();
   document.body.removeChild(link);
   URL.revokeObjectURL(url);
-
-  console.log('📄 SVG exported. For PDF conversion, integrate a library like jsPDF or use server-side rendering.');
 }
 
 /**
@@ -282,3 +321,1245 @@ export function printLayout(
     }, 250);
   }
 }
+
+// ============================================
+// DXF (CAD) EXPORT / IMPORT
+// ============================================
+
+/**
+ * Layers written to DXF files, with their AutoCAD colour index
+ */
+export const DXF_LAYERS = {
+  rooms: { name: 'ROOMS', color: 7 },
+  labels: { name: 'ROOM_LABELS', color: 3 },
+  walls: { name: 'WALLS', color: 8 },
+  doors: { name: 'DOORS', color: 1 },
+  measurements: { name: 'MEASUREMENTS', color: 5 },
+};
+
+// $INSUNITS codes per designer unit (0 = unitless)
+const DXF_INSUNITS: Record<Unit, number> = {
+  pixels: 0,
+  inches: 1,
+  feet: 2,
+  centimeters: 5,
+  meters: 6,
+};
+
+// Meters per drawing unit for the $INSUNITS codes we can read
+const DXF_UNIT_METERS: Record<number, number> = {
+  1: 0.0254,
+  2: 0.3048,
+  4: 0.001,
+  5: 0.01,
+  6: 1,
+};
+
+const DEFAULT_DOOR_WIDTH_METERS = 0.9;
+const ELLIPSE_SEGMENTS = 48;
+
+type Point = { x: number; y: number };
+
+const rotatePoint = (point: Point, centre: Point, degrees: number): Point => {
+  const radians = (degrees * Math.PI) / 180;
+  const dx = point.x - centre.x;
+  const dy = point.y - centre.y;
+  return {
+    x: centre.x + dx * Math.cos(radians) - dy * Math.sin(radians),
+    y: centre.y + dx * Math.sin(radians) + dy * Math.cos(radians),
+  };
+};
+
+/**
+ * Absolute outline of a shape in canvas pixels (circles are written as CIRCLE entities instead)
+ */
+const getShapeOutline = (shape: ShapeProperties): Point[] => {
+  const { x, y, width, height } = shape;
+  let points: Point[];
+
+  if (shape.shapeType === 'ellipse' && !shape.customProperties?.pointsRelative) {
+    points = Array.from({ length: ELLIPSE_SEGMENTS }, (_, i) => {
+      const angle = (i / ELLIPSE_SEGMENTS) * 2 * Math.PI;
+      return { x: x + width / 2 + (width / 2) * Math.cos(angle), y: y + height / 2 + (height / 2) * Math.sin(angle) };
+    });
+  } else {
+    points = computePointsRelative(shape).map(p => ({ x: x + p.x, y: y + p.y }));
+  }
+
+  if (shape.rotation) {
+    const centre = { x: x + width / 2, y: y + height / 2 };
+    points = points.map(p => rotatePoint(p, centre, shape.rotation!));
+  }
+
+  return points;
+};
+
+const polygonArea = (points: Point[]): number =>
+  Math.abs(points.reduce((sum, p, i) => {
+    const next = points[(i + 1) % points.length];
+    return sum + p.x * next.y - next.x * p.y;
+  }, 0)) / 2;
+
+const isPointInPolygon = (point: Point, polygon: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const polygonCentroid = (points: Point[]): Point => {
+  let area = 0;
+  let cx = 0;
+  let cy = 0;
+  points.forEach((p, i) => {
+    const next = points[(i + 1) % points.length];
+    const cross = p.x * next.y - next.x * p.y;
+    area += cross;
+    cx += (p.x + next.x) * cross;
+    cy += (p.y + next.y) * cross;
+  });
+  if (Math.abs(area) < 1e-9) {
+    return { x: points.reduce((sum, p) => sum + p.x, 0) / points.length, y: points.reduce((sum, p) => sum + p.y, 0) / points.length };
+  }
+  return { x: cx / (3 * area), y: cy / (3 * area) };
+};
+
+const isCircleShape = (shape: ShapeProperties): boolean =>
+  shape.shapeType === 'circle' && !shape.customProperties?.pointsRelative;
+
+/**
+ * Where to put a room label: the area centroid when it lies inside the outline
+ * (so L/C-shaped rooms keep their label on the floor), otherwise the bounding box centre
+ */
+const getLabelPoint = (shape: ShapeProperties, outline: Point[]): Point => {
+  const centre = { x: shape.x + shape.width / 2, y: shape.y + shape.height / 2 };
+  if (isCircleShape(shape)) return centre;
+  const centroid = polygonCentroid(outline);
+  return isPointInPolygon(centroid, outline) ? centroid : centre;
+};
+
+/**
+ * Minimal ASCII DXF writer (R12 entities, readable by AutoCAD, BricsCAD, LibreCAD, QCAD)
+ */
+class DxfWriter {
+  private lines: string[] = [];
+
+  constructor(private toDxf: (point: Point) => Point, private toUnits: (pixels: number) => number) { }
+
+  pair(code: number, value: string | number): void {
+    this.lines.push(String(code), typeof value === 'number' ? String(Number(value.toFixed(6))) : value);
+  }
+
+  private point(p: Point, xCode = 10): void {
+    const dxf = this.toDxf(p);
+    this.pair(xCode, dxf.x);
+    this.pair(xCode + 10, dxf.y);
+    this.pair(xCode + 20, 0);
+  }
+
+  polyline(layer: string, points: Point[], closed = true): void {
+    this.pair(0, 'POLYLINE');
+    this.pair(8, layer);
+    this.pair(66, 1);
+    this.pair(10, 0);
+    this.pair(20, 0);
+    this.pair(30, 0);
+    this.pair(70, closed ? 1 : 0);
+    points.forEach(p => {
+      this.pair(0, 'VERTEX');
+      this.pair(8, layer);
+      this.point(p);
+    });
+    this.pair(0, 'SEQEND');
+    this.pair(8, layer);
+  }
+
+  line(layer: string, start: Point, end: Point): void {
+    this.pair(0, 'LINE');
+    this.pair(8, layer);
+    this.point(start);
+    this.point(end, 11);
+  }
+
+  circle(layer: string, centre: Point, radiusPixels: number): void {
+    this.pair(0, 'CIRCLE');
+    this.pair(8, layer);
+    this.point(centre);
+    this.pair(40, this.toUnits(radiusPixels));
+  }
+
+  // Angles in DXF space (degrees, counter-clockwise)
+  arc(layer: string, centre: Point, radiusPixels: number, startAngle: number, endAngle: number): void {
+    this.pair(0, 'ARC');
+    this.pair(8, layer);
+    this.point(centre);
+    this.pair(40, this.toUnits(radiusPixels));
+    this.pair(50, startAngle);
+    this.pair(51, endAngle);
+  }
+
+  text(layer: string, position: Point, heightPixels: number, value: string): void {
+    this.pair(0, 'TEXT');
+    this.pair(8, layer);
+    this.point(position);
+    this.pair(40, this.toUnits(heightPixels));
+    this.pair(1, value.replace(/[\r\n]+/g, ' '));
+    // Centre the text on its position
+    this.pair(72, 1);
+    this.pair(73, 2);
+    this.point(position, 11);
+  }
+
+  toString(): string {
+    return `${this.lines.join('\n')}\n`;
+  }
+}
+
+/**
+ * Door on the drawing, from either the door placement tool or a door connection
+ */
+interface LayoutDoor {
+  centre: Point;
+  wallAngle: number; // Radians, canvas orientation
+  widthPixels?: number; // Unset = default door width
+  flowType: DoorConnection['flowType'];
+  // One-way doors: the room the flow comes from
+  sourceShapeId?: string;
+}
+
+const getLayoutDoors = (
+  shapes: ShapeProperties[],
+  doorConnections: DoorConnection[],
+  doorPlacements: DoorPlacement[]
+): LayoutDoor[] => {
+  const sharedWalls = doorPlacements.length > 0 ? findAllSharedWalls(shapes) : [];
+
+  const placed = doorPlacements.map((door): LayoutDoor => {
+    const wall = sharedWalls.find(w => w.id === door.sharedWallId) ||
+      sharedWalls.find(w =>
+        (w.shape1Id === door.shape1Id && w.shape2Id === door.shape2Id) ||
+        (w.shape1Id === door.shape2Id && w.shape2Id === door.shape1Id)
+      );
+    return {
+      centre: door.position,
+      wallAngle: wall?.angle ?? 0,
+      widthPixels: door.width || undefined,
+      flowType: door.flowType,
+      sourceShapeId: door.flowDirection === 'unidirectional'
+        ? (door.unidirectionalDirection === 'fromSecondToFirst' ? door.shape2Id : door.shape1Id)
+        : undefined,
+    };
+  });
+
+  const connected = doorConnections.map((door): LayoutDoor => ({
+    centre: { x: (door.fromShape.x + door.toShape.x) / 2, y: (door.fromShape.y + door.toShape.y) / 2 },
+    wallAngle: door.edgeStartPoint && door.edgeEndPoint
+      ? Math.atan2(door.edgeEndPoint.y - door.edgeStartPoint.y, door.edgeEndPoint.x - door.edgeStartPoint.x)
+      : 0,
+    flowType: door.flowType,
+    sourceShapeId: door.flowDirection === 'unidirectional'
+      ? (door.unidirectionalDirection === 'fromSecondToFirst' ? door.toShape.shapeId : door.fromShape.shapeId)
+      : undefined,
+  }));
+
+  return [...placed, ...connected];
+};
+
+/**
+ * Draw a door as an opening along the wall plus a 90° leaf swing
+ */
+const writeDoor = (
+  writer: DxfWriter,
+  layer: string,
+  centre: Point,
+  wallAngle: number,
+  widthPixels: number,
+  toDxf: (point: Point) => Point
+) => {
+  const half = widthPixels / 2;
+  const hinge = { x: centre.x - Math.cos(wallAngle) * half, y: centre.y - Math.sin(wallAngle) * half };
+  const latch = { x: centre.x + Math.cos(wallAngle) * half, y: centre.y + Math.sin(wallAngle) * half };
+  writer.line(layer, hinge, latch);
+
+  // Work out the swing in DXF space, where the Y axis points up
+  const dxfHinge = toDxf(hinge);
+  const dxfLatch = toDxf(latch);
+  const closedAngle = (Math.atan2(dxfLatch.y - dxfHinge.y, dxfLatch.x - dxfHinge.x) * 180) / Math.PI;
+  const openAngle = closedAngle + 90;
+  const leafEnd = {
+    x: hinge.x + Math.cos(wallAngle - Math.PI / 2) * widthPixels,
+    y: hinge.y + Math.sin(wallAngle - Math.PI / 2) * widthPixels,
+  };
+  writer.line(layer, hinge, leafEnd);
+  writer.arc(layer, hinge, widthPixels, closedAngle, openAngle);
+};
+
+/**
+ * DXF layer of one level of a multi-level building, e.g. FIRST_FLOOR-ROOMS
+ */
+const getLevelLayerName = (level: LayoutLevel, layer: string): string =>
+  `${level.name.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}-${layer}`;
+
+/**
+ * Export layout to DXF: rooms, walls (with thickness), doors, measurements and
+ * room labels on separate layers, in the real-world units of the UnitConverter.
+ * Multi-level buildings get one set of layers per level, in the same coordinates.
+ */
+export function exportToDXF(layoutData: LayoutData): string {
+  const { canvasHeight, unitConverter } = layoutData;
+  const levelPlans = splitByLevel(layoutData);
+  const multiLevel = levelPlans.length > 1;
+
+  const config = unitConverter.getConfig();
+  const toUnits = (pixels: number) => unitConverter.pixelsToUnits(pixels);
+  // Canvas Y grows downwards, DXF Y grows upwards
+  const toDxf = (p: Point): Point => ({ x: toUnits(p.x), y: toUnits(canvasHeight - p.y) });
+  const writer = new DxfWriter(toDxf, toUnits);
+  const doorWidthPixels = unitConverter.unitsToPixels(UnitConverter.convert(DEFAULT_DOOR_WIDTH_METERS, 'meters', config.unit));
+
+  // Header
+  writer.pair(0, 'SECTION');
+  writer.pair(2, 'HEADER');
+  writer.pair(9, '$ACADVER');
+  writer.pair(1, 'AC1009');
+  writer.pair(9, '$INSUNITS');
+  writer.pair(70, DXF_INSUNITS[config.unit]);
+  writer.pair(9, '$MEASUREMENT');
+  writer.pair(70, config.unit === 'feet' || config.unit === 'inches' ? 0 : 1);
+  writer.pair(0, 'ENDSEC');
+
+  // Layer table
+  const layers = levelPlans.flatMap(({ level }) => Object.values(DXF_LAYERS).map(layer => ({
+    name: multiLevel ? getLevelLayerName(level, layer.name) : layer.name,
+    color: layer.color,
+  })));
+  writer.pair(0, 'SECTION');
+  writer.pair(2, 'TABLES');
+  writer.pair(0, 'TABLE');
+  writer.pair(2, 'LAYER');
+  writer.pair(70, layers.length);
+  layers.forEach(layer => {
+    writer.pair(0, 'LAYER');
+    writer.pair(2, layer.name);
+    writer.pair(70, 0);
+    writer.pair(62, layer.color);
+    writer.pair(6, 'CONTINUOUS');
+  });
+  writer.pair(0, 'ENDTAB');
+  writer.pair(0, 'ENDSEC');
+
+  writer.pair(0, 'SECTION');
+  writer.pair(2, 'ENTITIES');
+
+  levelPlans.forEach(({ level, plan }) => {
+    const { shapes, measurements, walls, doorConnections = [], doorPlacements = [] } = plan;
+    const layerName = (name: string) => (multiLevel ? getLevelLayerName(level, name) : name);
+    const layer = {
+      rooms: layerName(DXF_LAYERS.rooms.name),
+      labels: layerName(DXF_LAYERS.labels.name),
+      walls: layerName(DXF_LAYERS.walls.name),
+      doors: layerName(DXF_LAYERS.doors.name),
+      measurements: layerName(DXF_LAYERS.measurements.name),
+    };
+
+    // Rooms and their labels
+    shapes.forEach(shape => {
+      const outline = getShapeOutline(shape);
+      const centre = getLabelPoint(shape, outline);
+      if (isCircleShape(shape)) {
+        writer.circle(layer.rooms, centre, Math.min(shape.width, shape.height) / 2);
+      } else {
+        writer.polyline(layer.rooms, outline);
+      }
+
+      const textHeight = Math.max(8, Math.min(shape.height / 8, 24));
+      writer.text(layer.labels, centre, textHeight, shape.name);
+      if (shape.area) {
+        writer.text(
+          layer.labels,
+          { x: centre.x, y: centre.y + textHeight * 1.5 },
+          textHeight * 0.75,
+          unitConverter.formatArea(shape.area)
+        );
+      }
+    });
+
+    // Walls as closed outlines of their real thickness
+    walls.forEach(wall => {
+      const dx = wall.endPoint.x - wall.startPoint.x;
+      const dy = wall.endPoint.y - wall.startPoint.y;
+      const length = Math.sqrt(dx * dx + dy * dy);
+      if (length === 0) return;
+
+      const offset = { x: (-dy / length) * (wall.thickness / 2), y: (dx / length) * (wall.thickness / 2) };
+      writer.polyline(layer.walls, [
+        { x: wall.startPoint.x + offset.x, y: wall.startPoint.y + offset.y },
+        { x: wall.endPoint.x + offset.x, y: wall.endPoint.y + offset.y },
+        { x: wall.endPoint.x - offset.x, y: wall.endPoint.y - offset.y },
+        { x: wall.startPoint.x - offset.x, y: wall.startPoint.y - offset.y },
+      ]);
+    });
+
+    // Doors
+    getLayoutDoors(shapes, doorConnections, doorPlacements).forEach(door => {
+      writeDoor(writer, layer.doors, door.centre, door.wallAngle, door.widthPixels || doorWidthPixels, toDxf);
+    });
+
+    // Measurements
+    measurements.forEach(measurement => {
+      if (measurement.type === 'dimension' && measurement.startPoint && measurement.endPoint) {
+        const distance = Math.sqrt(
+          Math.pow(measurement.endPoint.x - measurement.startPoint.x, 2) +
+          Math.pow(measurement.endPoint.y - measurement.startPoint.y, 2)
+        );
+        writer.line(layer.measurements, measurement.startPoint, measurement.endPoint);
+        writer.text(
+          layer.measurements,
+          {
+            x: (measurement.startPoint.x + measurement.endPoint.x) / 2,
+            y: (measurement.startPoint.y + measurement.endPoint.y) / 2 - 10,
+          },
+          measurement.fontSize || 10,
+          measurement.text || unitConverter.formatPixels(distance)
+        );
+      } else if (measurement.text) {
+        writer.text(layer.measurements, measurement.position, measurement.fontSize || 10, measurement.text);
+      }
+    });
+  });
+
+  writer.pair(0, 'ENDSEC');
+  writer.pair(0, 'EOF');
+
+  return writer.toString();
+}
+
+/**
+ * Download DXF file
+ */
+export function downloadDXF(
+  layoutData: LayoutData,
+  options: ExportOptions
+): void {
+  const dxfContent = exportToDXF(layoutData);
+  const blob = new Blob([dxfContent], { type: 'application/dxf' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${options.filename}.dxf`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export interface DxfImportResult {
+  shapes: ShapeProperties[];
+  skippedEntities: number; // Open polylines and unsupported entities
+  sourceUnits: string;
+}
+
+type DxfEntity = { type: string; layer: string; codes: Array<[number, string]> };
+
+/**
+ * Read the group code/value pairs of a DXF file into header variables and entities
+ */
+const parseDxf = (content: string): { header: Record<string, string>; entities: DxfEntity[] } => {
+  const rows = content.split(/\r?\n/);
+  const header: Record<string, string> = {};
+  const entities: DxfEntity[] = [];
+  let section = '';
+  let variable = '';
+  let current: DxfEntity | null = null;
+
+  for (let i = 0; i + 1 < rows.length; i += 2) {
+    const code = parseInt(rows[i].trim(), 10);
+    const value = rows[i + 1].trim();
+    if (Number.isNaN(code)) continue;
+
+    if (code === 0 && value === 'SECTION') {
+      section = '';
+      continue;
+    }
+    if (code === 2 && section === '') {
+      section = value;
+      continue;
+    }
+
+    if (section === 'HEADER') {
+      if (code === 9) variable = value;
+      else if (variable && header[variable] === undefined) header[variable] = value;
+      continue;
+    }
+
+    if (section === 'ENTITIES') {
+      if (code === 0) {
+        current = value === 'ENDSEC' ? null : { type: value, layer: '0', codes: [] };
+        if (current) entities.push(current);
+      } else if (current) {
+        if (code === 8) current.layer = value;
+        current.codes.push([code, value]);
+      }
+    }
+  }
+
+  return { header, entities };
+};
+
+/**
+ * Pick the designer shape type that renders a closed outline faithfully
+ */
+const detectShapeType = (points: Point[]): ShapeType => {
+  const isOrthogonal = points.every((p, i) => {
+    const next = points[(i + 1) % points.length];
+    return Math.abs(p.x - next.x) < 1e-6 || Math.abs(p.y - next.y) < 1e-6;
+  });
+
+  if (points.length === 3) return 'triangle';
+  if (points.length === 4 && isOrthogonal) return 'rectangle';
+  if (points.length === 6 && isOrthogonal) return 'L-shape';
+  return 'polygon';
+};
+
+/**
+ * Import closed polylines and circles from a DXF file as rooms, scaled from the
+ * file's $INSUNITS into canvas pixels. Text inside an outline becomes the room name.
+ */
+export function importFromDXF(content: string, unitConverter: UnitConverter): DxfImportResult {
+  const { header, entities } = parseDxf(content);
+  const config = unitConverter.getConfig();
+  const insUnits = parseInt(header.$INSUNITS || '0', 10);
+  const metersPerUnit = DXF_UNIT_METERS[insUnits];
+
+  // Unitless drawings are taken to be in the designer's current unit
+  const toPixels = (value: number) => metersPerUnit
+    ? unitConverter.unitsToPixels(UnitConverter.convert(value * metersPerUnit, 'meters', config.unit))
+    : unitConverter.unitsToPixels(value);
+
+  const outlines: Array<{ points: Point[]; circle?: { centre: Point; radius: number } }> = [];
+  const labels: Array<{ position: Point; text: string }> = [];
+  let skippedEntities = 0;
+  // Walls, doors and dimensions written by exportToDXF are not rooms, on any level
+  const ignoredLayers = new Set([DXF_LAYERS.walls.name, DXF_LAYERS.doors.name, DXF_LAYERS.measurements.name]);
+  const isIgnoredLayer = (layer: string) => ignoredLayers.has(layer.toUpperCase().split('-').pop() || '');
+  const numbers = (entity: DxfEntity, code: number) =>
+    entity.codes.filter(([c]) => c === code).map(([, v]) => parseFloat(v));
+  const flags = (entity: DxfEntity) => parseInt(entity.codes.find(([c]) => c === 70)?.[1] || '0', 10);
+
+  for (let i = 0; i < entities.length; i++) {
+    const entity = entities[i];
+
+    if (isIgnoredLayer(entity.layer)) {
+      if (entity.type === 'POLYLINE') {
+        while (entities[i + 1] && (entities[i + 1].type === 'VERTEX' || entities[i + 1].type === 'SEQEND')) i++;
+      }
+      skippedEntities++;
+    } else if (entity.type === 'LWPOLYLINE') {
+      const xs = numbers(entity, 10);
+      const ys = numbers(entity, 20);
+      if ((flags(entity) & 1) && xs.length >= 3) {
+        outlines.push({ points: xs.map((x, index) => ({ x, y: ys[index] })) });
+      } else {
+        skippedEntities++;
+      }
+    } else if (entity.type === 'POLYLINE') {
+      const points: Point[] = [];
+      while (entities[i + 1] && entities[i + 1].type === 'VERTEX') {
+        i++;
+        points.push({ x: numbers(entities[i], 10)[0], y: numbers(entities[i], 20)[0] });
+      }
+      if (entities[i + 1]?.type === 'SEQEND') i++;
+      if ((flags(entity) & 1) && points.length >= 3) {
+        outlines.push({ points });
+      } else {
+        skippedEntities++;
+      }
+    } else if (entity.type === 'CIRCLE') {
+      const centre = { x: numbers(entity, 10)[0], y: numbers(entity, 20)[0] };
+      const radius = numbers(entity, 40)[0];
+      outlines.push({
+        points: [
+          { x: centre.x - radius, y: centre.y - radius },
+          { x: centre.x + radius, y: centre.y - radius },
+          { x: centre.x + radius, y: centre.y + radius },
+          { x: centre.x - radius, y: centre.y + radius },
+        ],
+        circle: { centre, radius },
+      });
+    } else if (entity.type === 'TEXT' || entity.type === 'MTEXT') {
+      const text = entity.codes.filter(([c]) => c === 1 || c === 3).map(([, v]) => v).join('')
+        .replace(/\\P/g, ' ')
+        .replace(/\\[A-Za-z][^;]*;/g, '')
+        .replace(/[{}]/g, '')
+        .trim();
+      // Prefer the alignment point when the text is justified
+      const aligned = numbers(entity, 11);
+      const position = aligned.length > 0
+        ? { x: aligned[0], y: numbers(entity, 21)[0] }
+        : { x: numbers(entity, 10)[0], y: numbers(entity, 20)[0] };
+      if (text) labels.push({ position, text });
+    } else {
+      skippedEntities++;
+    }
+  }
+
+  if (outlines.length === 0) {
+    return { shapes: [], skippedEntities, sourceUnits: metersPerUnit ? `$INSUNITS ${insUnits}` : config.unit };
+  }
+
+  // Flip the Y axis and move the drawing next to the canvas origin
+  const allPoints = outlines.flatMap(outline => outline.points);
+  const minX = Math.min(...allPoints.map(p => p.x));
+  const maxY = Math.max(...allPoints.map(p => p.y));
+  const margin = 50;
+  const toCanvas = (p: Point): Point => ({ x: margin + toPixels(p.x - minX), y: margin + toPixels(maxY - p.y) });
+
+  const shapes = outlines.map((outline, index): ShapeProperties => {
+    // The smallest outline containing a label owns it, so room names inside a building outline stay with the room
+    const label = labels.find(l =>
+      isPointInPolygon(l.position, outline.points) &&
+      !outlines.some(other =>
+        other !== outline &&
+        polygonArea(other.points) < polygonArea(outline.points) &&
+        isPointInPolygon(l.position, other.points)
+      ) &&
+      !/^\d+([.,]\d+)?\s*(m²|m2|ft²|sq ?ft|sqm)$/i.test(l.text)
+    );
+
+    const points = outline.points.map(toCanvas);
+    const xs = points.map(p => p.x);
+    const ys = points.map(p => p.y);
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+    const width = Math.max(...xs) - x;
+    const height = Math.max(...ys) - y;
+    const shapeType: ShapeType = outline.circle ? 'circle' : detectShapeType(points);
+
+    return {
+      id: `shape-${Date.now()}-${index}-${Math.random().toString(36).substring(2, 7)}`,
+      name: label?.text || `Imported Room ${index + 1}`,
+      shapeType,
+      category: 'Production',
+      x,
+      y,
+      width,
+      height,
+      area: outline.circle ? Math.PI * (width / 2) * (width / 2) : polygonArea(points),
+      pressureRegime: 'positive',
+      temperatureRange: { min: 18, max: 26, unit: 'C' },
+      humidityRange: { min: 30, max: 60 },
+      fillColor: getCleanroomColor(),
+      borderColor: '#333333',
+      borderWidth: 2,
+      opacity: 0.8,
+      isCompliant: true,
+      complianceIssues: [],
+      customProperties: shapeType === 'rectangle' || shapeType === 'circle'
+        ? { importedFrom: 'dxf' }
+        : {
+          importedFrom: 'dxf',
+          points,
+          pointsRelative: points.map(p => ({ x: p.x - x, y: p.y - y })),
+        },
+    };
+  });
+
+  return { shapes, skippedEntities, sourceUnits: metersPerUnit ? `$INSUNITS ${insUnits}` : config.unit };
+}
+
+// ============================================
+// PDF DRAWING SHEETS
+// ============================================
+
+/**
+ * Standard architectural scales (denominators), tried in order when no scale is given
+ */
+export const ARCHITECTURAL_SCALES = [20, 25, 50, 100, 200, 250, 500, 1000];
+
+// Same colours as the door connections on the canvas
+const DOOR_FLOW_COLORS: Record<DoorConnection['flowType'], string> = {
+  material: '#2196F3',
+  personnel: '#4CAF50',
+  waste: '#F44336',
+};
+
+// Sheet geometry in millimeters
+const SHEET_MARGIN = 10; // Page edge to frame
+const SHEET_PADDING = 5; // Frame to drawing area
+const STRIP_HEIGHT = 42; // Legend, scale bar and title block along the bottom
+const SCHEDULE_HEADING = 10;
+const SCHEDULE_HEADER_HEIGHT = 8;
+const SCHEDULE_ROW_HEIGHT = 6;
+
+type Box = { x: number; y: number; width: number; height: number };
+
+interface SheetLayout {
+  width: number;
+  height: number;
+  drawing: Box;
+  strip: Box;
+}
+
+interface SheetInfo {
+  title: string;
+  scale?: number; // Unset for sheets that are not drawn to scale
+  sheetNumber: number;
+  sheetCount: number;
+}
+
+const getSheetLayout = (options: ExportOptions): SheetLayout => {
+  const page = PAGE_SIZES[options.pageSize || 'A3'];
+  const landscape = (options.orientation || 'landscape') === 'landscape';
+  const width = landscape ? Math.max(page.width, page.height) : Math.min(page.width, page.height);
+  const height = landscape ? Math.min(page.width, page.height) : Math.max(page.width, page.height);
+  const frameWidth = width - 2 * SHEET_MARGIN;
+
+  return {
+    width,
+    height,
+    drawing: {
+      x: SHEET_MARGIN + SHEET_PADDING,
+      y: SHEET_MARGIN + SHEET_PADDING,
+      width: frameWidth - 2 * SHEET_PADDING,
+      height: height - 2 * SHEET_MARGIN - STRIP_HEIGHT - 2 * SHEET_PADDING,
+    },
+    strip: { x: SHEET_MARGIN, y: height - SHEET_MARGIN - STRIP_HEIGHT, width: frameWidth, height: STRIP_HEIGHT },
+  };
+};
+
+const formatScaleNumber = (value: number): string => String(Number(value.toFixed(2)));
+
+/**
+ * Frame, door flow legend, scale bar and title block printed on every sheet
+ */
+const drawSheetFrame = (
+  pdf: PdfDocument,
+  sheet: SheetLayout,
+  options: ExportOptions,
+  info: SheetInfo,
+  unitConverter: UnitConverter
+) => {
+  const { strip } = sheet;
+  pdf.setStrokeColor('#000000');
+  pdf.setDash();
+  pdf.setLineWidth(0.5);
+  pdf.rect(SHEET_MARGIN, SHEET_MARGIN, sheet.width - 2 * SHEET_MARGIN, sheet.height - 2 * SHEET_MARGIN);
+  pdf.line(strip.x, strip.y, strip.x + strip.width, strip.y);
+
+  // Title block
+  const blockWidth = Math.min(190, strip.width * 0.6);
+  const blockX = strip.x + strip.width - blockWidth;
+  const rowHeight = strip.height / 3;
+  const quarter = blockWidth / 4;
+  const fieldRows: Array<Array<{ label: string; value: string; span: number }>> = [
+    [
+      { label: 'Project', value: options.projectName || 'Pharmaceutical Facility', span: 2 },
+      { label: 'Drawing', value: info.title, span: 2 },
+    ],
+    [
+      { label: 'Drawing No.', value: options.drawingNumber || '-', span: 1 },
+      { label: 'Revision', value: options.revision || 'A', span: 1 },
+      { label: 'Scale', value: info.scale ? `1:${info.scale}` : 'Not to scale', span: 1 },
+      { label: 'Sheet', value: `${info.sheetNumber} of ${info.sheetCount}`, span: 1 },
+    ],
+    [
+      { label: 'Drawn By', value: options.drawnBy || '-', span: 2 },
+      { label: 'Date', value: options.date || new Date().toLocaleDateString(), span: 2 },
+    ],
+  ];
+
+  pdf.line(blockX, strip.y, blockX, strip.y + strip.height);
+  pdf.setLineWidth(0.25);
+  fieldRows.forEach((row, rowIndex) => {
+    const y = strip.y + rowIndex * rowHeight;
+    if (rowIndex > 0) pdf.line(blockX, y, blockX + blockWidth, y);
+    let x = blockX;
+    row.forEach((field, fieldIndex) => {
+      const width = field.span * quarter;
+      if (fieldIndex > 0) pdf.line(x, y, x, y + rowHeight);
+      pdf.text(x + 2, y + 4, field.label.toUpperCase(), { size: 6, color: '#666666' });
+      pdf.text(x + 2, y + 10.5, pdf.fitText(field.value, width - 4, 9, true), { size: 9, bold: true });
+      x += width;
+    });
+  });
+
+  // Door flow type legend
+  const legendX = strip.x + 4;
+  pdf.text(legendX, strip.y + 6, 'DOOR FLOW TYPES', { size: 6, bold: true });
+  (Object.keys(DOOR_FLOW_COLORS) as Array<DoorConnection['flowType']>).forEach((flowType, index) => {
+    const y = strip.y + 12 + index * 6;
+    pdf.setStrokeColor(DOOR_FLOW_COLORS[flowType]);
+    pdf.setLineWidth(0.8);
+    pdf.line(legendX, y - 1, legendX + 8, y - 1);
+    pdf.text(legendX + 10, y, `${flowType.charAt(0).toUpperCase()}${flowType.slice(1)}`, { size: 7 });
+  });
+  const oneWayY = strip.y + 12 + 3 * 6;
+  pdf.setStrokeColor('#333333');
+  pdf.setLineWidth(0.8);
+  pdf.line(legendX, oneWayY - 1, legendX + 8, oneWayY - 1);
+  pdf.setFillColor('#333333');
+  pdf.polygon([{ x: legendX + 2.5, y: oneWayY - 1.5 }, { x: legendX + 5.5, y: oneWayY - 1.5 }, { x: legendX + 4, y: oneWayY + 1 }], 'fill');
+  pdf.text(legendX + 10, oneWayY, 'One-way door', { size: 7 });
+
+  // Scale bar at true scale
+  const barX = strip.x + 38;
+  const barMaxWidth = blockX - barX - 8;
+  if (!info.scale || barMaxWidth < 15) return;
+
+  const imperial = unitConverter.getConfig().unit === 'feet' || unitConverter.getConfig().unit === 'inches';
+  const metersPerBarUnit = imperial ? 0.3048 : 1;
+  const toBarMm = (length: number) => (length * metersPerBarUnit * 1000) / info.scale!;
+  const niceLengths = [0.5, 1, 2, 5, 10, 20, 25, 50, 100, 200, 500, 1000];
+  const barLength = [...niceLengths].reverse().find(length => toBarMm(length) <= barMaxWidth) ?? niceLengths[0];
+  const barWidth = toBarMm(barLength);
+  const barY = strip.y + 13;
+
+  pdf.text(barX, strip.y + 6, 'SCALE BAR', { size: 6, bold: true });
+  pdf.setStrokeColor('#000000');
+  pdf.setLineWidth(0.2);
+  for (let segment = 0; segment < 4; segment++) {
+    pdf.setFillColor(segment % 2 === 0 ? '#000000' : '#ffffff');
+    pdf.rect(barX + (segment * barWidth) / 4, barY, barWidth / 4, 2.5, 'fillStroke');
+  }
+  const barUnit = imperial ? 'ft' : 'm';
+  pdf.text(barX, barY + 7, '0', { size: 6, align: 'center' });
+  pdf.text(barX + barWidth / 2, barY + 7, formatScaleNumber(barLength / 2), { size: 6, align: 'center' });
+  pdf.text(barX + barWidth, barY + 7, `${formatScaleNumber(barLength)} ${barUnit}`, { size: 6, align: 'center' });
+  pdf.text(barX, barY + 17, `SCALE 1:${info.scale} @ ${options.pageSize || 'A3'}`, { size: 9, bold: true });
+};
+
+/**
+ * Rooms, walls, doors and measurements of one drawing sheet, mapped to page millimeters
+ */
+const drawLayoutPlan = (
+  pdf: PdfDocument,
+  layoutData: LayoutData,
+  options: ExportOptions,
+  toPage: (point: Point) => Point,
+  mmPerPixel: number,
+  defaultDoorWidthPixels: number
+) => {
+  const { shapes, measurements, walls, unitConverter, doorConnections = [], doorPlacements = [] } = layoutData;
+
+  // Walls
+  walls.forEach(wall => {
+    const dx = wall.endPoint.x - wall.startPoint.x;
+    const dy = wall.endPoint.y - wall.startPoint.y;
+    const length = Math.sqrt(dx * dx + dy * dy);
+    if (length === 0) return;
+
+    const offset = { x: (-dy / length) * (wall.thickness / 2), y: (dx / length) * (wall.thickness / 2) };
+    pdf.setFillColor(wall.color || '#333333');
+    pdf.polygon([
+      { x: wall.startPoint.x + offset.x, y: wall.startPoint.y + offset.y },
+      { x: wall.endPoint.x + offset.x, y: wall.endPoint.y + offset.y },
+      { x: wall.endPoint.x - offset.x, y: wall.endPoint.y - offset.y },
+      { x: wall.startPoint.x - offset.x, y: wall.startPoint.y - offset.y },
+    ].map(toPage), 'fill');
+  });
+
+  // Rooms
+  shapes.forEach(shape => {
+    const outline = getShapeOutline(shape);
+    pdf.setFillColor(tintColor(shape.fillColor || '#ffffff', 0.35));
+    pdf.setStrokeColor(shape.borderColor || '#333333');
+    pdf.setLineWidth(0.3);
+    if (isCircleShape(shape)) {
+      const centre = toPage({ x: shape.x + shape.width / 2, y: shape.y + shape.height / 2 });
+      pdf.circle(centre.x, centre.y, (Math.min(shape.width, shape.height) / 2) * mmPerPixel, 'fillStroke');
+    } else {
+      pdf.polygon(outline.map(toPage), 'fillStroke');
+    }
+  });
+
+  // Doors, drawn as a gap in the room outline in the flow type colour
+  getLayoutDoors(shapes, doorConnections, doorPlacements).forEach(door => {
+    const centre = toPage(door.centre);
+    const half = ((door.widthPixels || defaultDoorWidthPixels) * mmPerPixel) / 2;
+    const along = { x: Math.cos(door.wallAngle), y: Math.sin(door.wallAngle) };
+    const start = { x: centre.x - along.x * half, y: centre.y - along.y * half };
+    const end = { x: centre.x + along.x * half, y: centre.y + along.y * half };
+    const color = DOOR_FLOW_COLORS[door.flowType] || '#9E9E9E';
+
+    pdf.setStrokeColor('#ffffff');
+    pdf.setLineWidth(1.2);
+    pdf.line(start.x, start.y, end.x, end.y);
+    pdf.setStrokeColor(color);
+    pdf.setLineWidth(0.7);
+    pdf.line(start.x, start.y, end.x, end.y);
+
+    const source = door.sourceShapeId ? shapes.find(shape => shape.id === door.sourceShapeId) : undefined;
+    if (source) {
+      // Arrow through the door, pointing away from the room the flow comes from
+      const sourceCentre = toPage({ x: source.x + source.width / 2, y: source.y + source.height / 2 });
+      let normal = { x: -along.y, y: along.x };
+      if (normal.x * (centre.x - sourceCentre.x) + normal.y * (centre.y - sourceCentre.y) < 0) {
+        normal = { x: -normal.x, y: -normal.y };
+      }
+      const arrow = Math.max(1.2, Math.min(half, 3));
+      pdf.setFillColor(color);
+      pdf.polygon([
+        { x: centre.x + normal.x * arrow, y: centre.y + normal.y * arrow },
+        { x: centre.x + along.x * arrow * 0.5, y: centre.y + along.y * arrow * 0.5 },
+        { x: centre.x - along.x * arrow * 0.5, y: centre.y - along.y * arrow * 0.5 },
+      ], 'fill');
+    }
+  });
+
+  // Room labels, numbered as in the room schedule
+  shapes.forEach((shape, index) => {
+    const centre = toPage(getLabelPoint(shape, getShapeOutline(shape)));
+    const roomWidth = shape.width * mmPerPixel;
+    if (roomWidth < 6) return;
+
+    pdf.text(centre.x, centre.y, pdf.fitText(`${index + 1}  ${shape.name}`, roomWidth - 2, 7, true), { size: 7, bold: true, align: 'center' });
+    const details = [shape.area ? unitConverter.formatArea(shape.area) : '', shape.cleanroomClass ? `Grade ${shape.cleanroomClass}` : '']
+      .filter(Boolean)
+      .join(' · ');
+    if (details) {
+      pdf.text(centre.x, centre.y + 3, pdf.fitText(details, roomWidth - 2, 6), { size: 6, align: 'center', color: '#444444' });
+    }
+  });
+
+  // Measurements
+  if (options.includeMeasurements !== false) {
+    measurements.forEach(measurement => {
+      if (measurement.type === 'dimension' && measurement.startPoint && measurement.endPoint) {
+        const start = toPage(measurement.startPoint);
+        const end = toPage(measurement.endPoint);
+        const distance = Math.sqrt(
+          Math.pow(measurement.endPoint.x - measurement.startPoint.x, 2) +
+          Math.pow(measurement.endPoint.y - measurement.startPoint.y, 2)
+        );
+        pdf.setStrokeColor(measurement.color || '#666666');
+        pdf.setLineWidth(0.2);
+        pdf.setDash([1.5, 1]);
+        pdf.line(start.x, start.y, end.x, end.y);
+        pdf.setDash();
+        pdf.text((start.x + end.x) / 2, (start.y + end.y) / 2 - 1.5, measurement.text || unitConverter.formatPixels(distance), { size: 6, align: 'center' });
+      } else if (measurement.text) {
+        const position = toPage(measurement.position);
+        pdf.text(position.x, position.y, measurement.text, { size: 6 });
+      }
+    });
+  }
+};
+
+const formatPressure = (shape: ShapeProperties): string => {
+  if (!shape.pressureRegime) return '-';
+  const regime = `${shape.pressureRegime.charAt(0).toUpperCase()}${shape.pressureRegime.slice(1)}`;
+  if (shape.pressureSetpoint === undefined) return regime;
+  return `${regime} (${shape.pressureSetpoint > 0 ? '+' : ''}${shape.pressureSetpoint} Pa)`;
+};
+
+/**
+ * Room schedule rows: name, area, cleanroom class, pressure and environmental ranges.
+ * Numbers restart on every level, matching the labels on that level's sheets.
+ */
+const getRoomScheduleRows = (
+  levelPlans: Array<{ level: LayoutLevel; plan: LayoutData }>,
+  unitConverter: UnitConverter
+): string[][] => {
+  const multiLevel = levelPlans.length > 1;
+  const shapes = levelPlans.flatMap(({ plan }) => plan.shapes);
+
+  const rows = levelPlans.flatMap(({ level, plan }) => plan.shapes.map((shape, index) => [
+    String(index + 1),
+    ...(multiLevel ? [level.name] : []),
+    shape.name,
+    shape.area ? unitConverter.formatArea(shape.area) : '-',
+    shape.cleanroomClass || '-',
+    formatPressure(shape),
+    shape.temperatureRange
+      ? `${shape.temperatureRange.min}–${shape.temperatureRange.max} °${shape.temperatureRange.unit}`
+      : '-',
+    shape.humidityRange ? `${shape.humidityRange.min}–${shape.humidityRange.max} % RH` : '-',
+  ]));
+  const total = unitConverter.formatArea(shapes.reduce((sum, shape) => sum + (shape.area || 0), 0));
+
+  return [...rows, ['', ...(multiLevel ? [''] : []), 'Total', total, '', '', '', '']];
+};
+
+const SCHEDULE_COLUMNS = [
+  { header: 'No.', width: 0.06 },
+  { header: 'Room', width: 0.3 },
+  { header: 'Area', width: 0.13 },
+  { header: 'Class', width: 0.09 },
+  { header: 'Pressure', width: 0.16 },
+  { header: 'Temperature', width: 0.14 },
+  { header: 'Humidity', width: 0.12 },
+];
+
+// Multi-level buildings: the room column shares its width with the level
+const MULTI_LEVEL_SCHEDULE_COLUMNS = [
+  SCHEDULE_COLUMNS[0],
+  { header: 'Level', width: 0.12 },
+  { header: 'Room', width: 0.18 },
+  ...SCHEDULE_COLUMNS.slice(2),
+];
+
+/**
+ * Table sheet (room schedule, comment register) with a heading, shaded header and zebra rows.
+ * With `hasTotalRow` the last row is printed in bold below a heavier rule.
+ */
+const drawTable = (
+  pdf: PdfDocument,
+  area: Box,
+  heading: string,
+  rows: string[][],
+  columns: Array<{ header: string; width: number }>,
+  hasTotalRow = false
+) => {
+  pdf.text(area.x, area.y + 5, heading, { size: 11, bold: true });
+
+  const top = area.y + SCHEDULE_HEADING;
+  const columnX: number[] = [];
+  columns.reduce((x, column) => {
+    columnX.push(x);
+    return x + column.width * area.width;
+  }, area.x);
+
+  pdf.setFillColor('#e8e8e8');
+  pdf.rect(area.x, top, area.width, SCHEDULE_HEADER_HEIGHT, 'fill');
+  columns.forEach((column, index) => {
+    pdf.text(columnX[index] + 1.5, top + 5.5, column.header, { size: 7, bold: true });
+  });
+
+  rows.forEach((row, rowIndex) => {
+    const y = top + SCHEDULE_HEADER_HEIGHT + rowIndex * SCHEDULE_ROW_HEIGHT;
+    const isTotal = hasTotalRow && rowIndex === rows.length - 1;
+    if (rowIndex % 2 === 1 && !isTotal) {
+      pdf.setFillColor('#f7f7f7');
+      pdf.rect(area.x, y, area.width, SCHEDULE_ROW_HEIGHT, 'fill');
+    }
+    row.forEach((cell, index) => {
+      const width = columns[index].width * area.width - 3;
+      pdf.text(columnX[index] + 1.5, y + 4.2, pdf.fitText(cell, width, 7, isTotal), { size: 7, bold: isTotal });
+    });
+    pdf.setStrokeColor(isTotal ? '#000000' : '#bbbbbb');
+    pdf.setLineWidth(isTotal ? 0.3 : 0.1);
+    pdf.line(area.x, y, area.x + area.width, y);
+  });
+
+  const tableHeight = SCHEDULE_HEADER_HEIGHT + rows.length * SCHEDULE_ROW_HEIGHT;
+  pdf.setStrokeColor('#000000');
+  pdf.setLineWidth(0.3);
+  pdf.rect(area.x, top, area.width, tableHeight);
+};
+
+const REGISTER_COLUMNS = [
+  { header: 'No.', width: 0.05 },
+  { header: 'Location', width: 0.2 },
+  { header: 'Comment', width: 0.45 },
+  { header: 'Author', width: 0.13 },
+  { header: 'Date', width: 0.09 },
+  { header: 'Status', width: 0.08 },
+];
+const REGISTER_TEXT_SIZE = 7;
+
+/**
+ * Greedy word wrap to the given width (mm); words longer than a line are cut with an ellipsis
+ */
+const wrapText = (pdf: PdfDocument, text: string, maxWidth: number, size: number): string[] =>
+  text.split(/\r?\n/).flatMap(paragraph => {
+    const lines: string[] = [];
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (!line || pdf.textWidth(candidate, size) <= maxWidth) {
+        line = candidate;
+      } else {
+        lines.push(line);
+        line = word;
+      }
+    });
+    return [...lines, line].map(wrapped => pdf.fitText(wrapped, maxWidth, size));
+  });
+
+/**
+ * Comment register rows: every comment of every thread, replies indented below the
+ * comment that opened the thread. Long comments continue on the following rows.
+ */
+const getCommentRegisterRows = (
+  pdf: PdfDocument,
+  review: ReviewExport,
+  levelNames: Map<string, string> | null,
+  commentWidth: number
+): string[][] =>
+  review.threads.flatMap((thread, index) => {
+    const levelName = levelNames && thread.anchor.levelId ? levelNames.get(thread.anchor.levelId) : undefined;
+    const location = `${levelName ? `${levelName} - ` : ''}${describeAnchor(thread.anchor, review.targets)}`;
+    const status = thread.status === 'resolved' ? 'Resolved' : 'Open';
+
+    return thread.comments.flatMap((comment, commentIndex) => {
+      const prefix = commentIndex > 0 ? '» ' : '';
+      const lines = wrapText(pdf, `${prefix}${comment.body}`, commentWidth, REGISTER_TEXT_SIZE);
+      const date = comment.createdAt ? new Date(comment.createdAt).toLocaleDateString() : '-';
+      return lines.map((line, lineIndex) => lineIndex > 0
+        ? ['', '', line, '', '', '']
+        : commentIndex > 0
+          ? ['', '', line, comment.author, date, '']
+          : [String(index + 1), location, line, comment.author, date, status]);
+    });
+  });
+
+const getCommentRegisterHeading = (review: ReviewExport): string => {
+  const open = review.threads.filter(thread => thread.status === 'open').length;
+  const decision = review.approval && review.approval.status !== 'pending'
+    ? `${APPROVAL_LABELS[review.approval.status]}${review.approval.reviewer ? ` by ${review.approval.reviewer}` : ''}`
+    : APPROVAL_LABELS.pending;
+  return `COMMENT REGISTER${review.revision !== undefined ? ` - REVISION ${review.revision}: ${decision}` : ''} (${open} open)`;
+};
+
+/**
+ * Numbered review pins on a plan sheet, matching the comment register
+ */
+const drawReviewPins = (
+  pdf: PdfDocument,
+  pins: Array<{ thread: ReviewThread; number: number }>,
+  targets: ReviewTargets,
+  toPage: (point: Point) => Point
+) => {
+  pins.forEach(({ thread, number }) => {
+    const at = toPage(getAnchorPosition(thread.anchor, targets));
+    pdf.setFillColor(thread.status === 'open' ? '#d32f2f' : '#66bb6a');
+    pdf.setStrokeColor('#ffffff');
+    pdf.setLineWidth(0.3);
+    pdf.circle(at.x, at.y, 2.4, 'fillStroke');
+    pdf.text(at.x, at.y + 0.9, String(number), { size: 6, bold: true, align: 'center', color: '#ffffff' });
+  });
+};
+
+/**
+ * Generate PDF drawing sheets: the plan of every level at a true architectural scale
+ * (tiled over several sheets when it does not fit), followed by the room schedule and,
+ * for review packages, the comment register
+ */
+export function generatePDF(layoutData: LayoutData, options: ExportOptions): Uint8Array {
+  const { shapes, measurements, walls, unitConverter } = layoutData;
+  const levelPlans = splitByLevel(layoutData);
+  const multiLevel = levelPlans.length > 1;
+  const config = unitConverter.getConfig();
+  const sheet = getSheetLayout(options);
+  const pdf = new PdfDocument(options.title || 'Layout Plan');
+
+  const metersPerPixel = UnitConverter.convert(unitConverter.pixelsToUnits(1), config.unit, 'meters');
+  const defaultDoorWidthPixels = DEFAULT_DOOR_WIDTH_METERS / metersPerPixel;
+
+  // Extents of everything on the plan, in canvas pixels; all levels share them so they line up sheet to sheet
+  const extentPoints: Point[] = [
+    ...shapes.flatMap(shape => getShapeOutline(shape)),
+    ...walls.flatMap(wall => [wall.startPoint, wall.endPoint]),
+    ...measurements.flatMap(m => (m.startPoint && m.endPoint ? [m.startPoint, m.endPoint] : [])),
+  ];
+  const minX = extentPoints.length > 0 ? Math.min(...extentPoints.map(p => p.x)) : 0;
+  const minY = extentPoints.length > 0 ? Math.min(...extentPoints.map(p => p.y)) : 0;
+  const maxX = extentPoints.length > 0 ? Math.max(...extentPoints.map(p => p.x)) : 0;
+  const maxY = extentPoints.length > 0 ? Math.max(...extentPoints.map(p => p.y)) : 0;
+  const extentWidth = (maxX - minX) * metersPerPixel * 1000; // mm at 1:1
+  const extentHeight = (maxY - minY) * metersPerPixel * 1000;
+
+  const fits = (scale: number) => extentWidth / scale <= sheet.drawing.width && extentHeight / scale <= sheet.drawing.height;
+  const scale = options.scale || ARCHITECTURAL_SCALES.find(fits) || ARCHITECTURAL_SCALES[ARCHITECTURAL_SCALES.length - 1];
+  const mmPerPixel = (metersPerPixel * 1000) / scale;
+
+  const tileColumns = Math.max(1, Math.ceil(extentWidth / scale / sheet.drawing.width - 1e-9));
+  const tileRows = Math.max(1, Math.ceil(extentHeight / scale / sheet.drawing.height - 1e-9));
+  const offsetX = tileColumns === 1 ? (sheet.drawing.width - extentWidth / scale) / 2 : 0;
+  const offsetY = tileRows === 1 ? (sheet.drawing.height - extentHeight / scale) / 2 : 0;
+
+  const scheduleRows = getRoomScheduleRows(levelPlans, unitConverter);
+  const rowsPerPage = Math.max(
+    1,
+    Math.floor((sheet.drawing.height - SCHEDULE_HEADING - SCHEDULE_HEADER_HEIGHT) / SCHEDULE_ROW_HEIGHT)
+  );
+  const schedulePages = shapes.length > 0 ? Math.ceil(scheduleRows.length / rowsPerPage) : 0;
+  const review = options.includeReviewComments && layoutData.review?.threads.length ? layoutData.review : null;
+  const levels = getLayoutLevels(layoutData.levels);
+  const reviewPins = review ? review.threads.map((thread, index) => ({ thread, number: index + 1, levelId: thread.anchor.levelId })) : [];
+  const registerRows = review
+    ? getCommentRegisterRows(
+      pdf,
+      review,
+      multiLevel ? new Map(levels.map(level => [level.id, level.name])) : null,
+      REGISTER_COLUMNS[2].width * sheet.drawing.width - 3
+    )
+    : [];
+  const registerPages = Math.ceil(registerRows.length / rowsPerPage);
+
+  const tileCount = tileColumns * tileRows;
+  const planSheets = tileCount * levelPlans.length;
+  const sheetCount = planSheets + schedulePages + registerPages;
+  const title = options.title || 'Layout Plan';
+
+  levelPlans.forEach(({ level, plan }, levelIndex) => {
+    const levelTitle = multiLevel ? `${title} - ${level.name} (FFL ${level.elevation >= 0 ? '+' : ''}${level.elevation.toFixed(2)} m)` : title;
+
+    for (let row = 0; row < tileRows; row++) {
+      for (let column = 0; column < tileColumns; column++) {
+        const tile = row * tileColumns + column;
+        const toPage = (point: Point): Point => ({
+          x: sheet.drawing.x + offsetX + (point.x - minX) * mmPerPixel - column * sheet.drawing.width,
+          y: sheet.drawing.y + offsetY + (point.y - minY) * mmPerPixel - row * sheet.drawing.height,
+        });
+
+        pdf.addPage(sheet.width, sheet.height);
+        pdf.save();
+        pdf.clipRect(sheet.drawing.x, sheet.drawing.y, sheet.drawing.width, sheet.drawing.height);
+        drawLayoutPlan(pdf, plan, options, toPage, mmPerPixel, defaultDoorWidthPixels);
+        if (review) {
+          drawReviewPins(pdf, filterByLevel(reviewPins, level.id, levels), review.targets, toPage);
+        }
+        pdf.restore();
+        drawSheetFrame(pdf, sheet, options, {
+          title: tileCount > 1 ? `${levelTitle} (part ${tile + 1} of ${tileCount})` : levelTitle,
+          scale,
+          sheetNumber: levelIndex * tileCount + tile + 1,
+          sheetCount,
+        }, unitConverter);
+      }
+    }
+  });
+
+  for (let page = 0; page < schedulePages; page++) {
+    pdf.addPage(sheet.width, sheet.height);
+    drawTable(
+      pdf,
+      sheet.drawing,
+      'ROOM SCHEDULE',
+      scheduleRows.slice(page * rowsPerPage, (page + 1) * rowsPerPage),
+      multiLevel ? MULTI_LEVEL_SCHEDULE_COLUMNS : SCHEDULE_COLUMNS,
+      page === schedulePages - 1
+    );
+    drawSheetFrame(pdf, sheet, options, {
+      title: `${title} - Room Schedule`,
+      sheetNumber: planSheets + page + 1,
+      sheetCount,
+    }, unitConverter);
+  }
+
+  for (let page = 0; page < registerPages; page++) {
+    pdf.addPage(sheet.width, sheet.height);
+    drawTable(
+      pdf,
+      sheet.drawing,
+      getCommentRegisterHeading(review!),
+      registerRows.slice(page * rowsPerPage, (page + 1) * rowsPerPage),
+      REGISTER_COLUMNS
+    );
+    drawSheetFrame(pdf, sheet, options, {
+      title: `${title} - Comment Register`,
+      sheetNumber: planSheets + schedulePages + page + 1,
+      sheetCount,
+    }, unitConverter);
+  }
+
+  return pdf.toBytes();
+}
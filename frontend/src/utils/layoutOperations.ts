@@ -0,0 +1,177 @@
+/**
+ * Layout operations for real-time collaboration
+ *
+ * Same rules as the collaboration server (backend/src/services/layoutOperations.ts), which
+ * applies operations in arrival order: updates merge field by field with the later write
+ * winning, doors and vertical connections added or updated to refer to a removed room are
+ * rejected, as are items added or moved onto a removed level. Removing a room removes its
+ * doors and drops it from vertical connections; removing a level removes everything on it.
+ * Clients replay their unacknowledged operations on top of the server state with the same
+ * function, so every client ends up with the server's result.
+ */
+
+import {
+  CollaborationCollection,
+  CollaborationEntity,
+  CollaborationState,
+  LayoutOperation
+} from '../types';
+
+// Referenced collections come before the ones referring to them
+export const COLLABORATION_COLLECTIONS: CollaborationCollection[] = [
+  'levels',
+  'shapes',
+  'doorConnections',
+  'doorPlacements',
+  'verticalConnections',
+  'walls',
+  'measurements',
+];
+
+const getDoorShapeIds = (collection: CollaborationCollection, entity: CollaborationEntity): string[] => {
+  if (collection === 'doorPlacements') {
+    return [entity.shape1Id, entity.shape2Id];
+  }
+  if (collection === 'doorConnections') {
+    return [entity.fromShape?.shapeId, entity.toShape?.shapeId];
+  }
+  if (collection === 'verticalConnections') {
+    return Array.isArray(entity.shapeIds) ? entity.shapeIds : [];
+  }
+  return [];
+};
+
+const LEVELLED_COLLECTIONS: CollaborationCollection[] = ['shapes', 'walls', 'measurements'];
+
+// Items without a levelId (or in a layout without levels) are on the first level, see getItemLevelId
+const isOnMissingLevel = (state: CollaborationState, collection: CollaborationCollection, entity: CollaborationEntity): boolean =>
+  LEVELLED_COLLECTIONS.includes(collection) &&
+  typeof entity.levelId === 'string' &&
+  state.levels.length > 0 &&
+  !state.levels.some(level => level.id === entity.levelId);
+
+const removeShapes = (state: CollaborationState, shapeIds: Set<string>): CollaborationState => ({
+  ...state,
+  shapes: state.shapes.filter(shape => !shapeIds.has(shape.id)),
+  doorConnections: state.doorConnections.filter(
+    door => !getDoorShapeIds('doorConnections', door).some(id => shapeIds.has(id))
+  ),
+  doorPlacements: state.doorPlacements.filter(
+    door => !getDoorShapeIds('doorPlacements', door).some(id => shapeIds.has(id))
+  ),
+  verticalConnections: state.verticalConnections
+    .map(connection => ({
+      ...connection,
+      shapeIds: getDoorShapeIds('verticalConnections', connection).filter(id => !shapeIds.has(id)),
+    }))
+    .filter(connection => connection.shapeIds.length >= 2),
+});
+
+const removeLevel = (state: CollaborationState, levelId: string): CollaborationState => {
+  const isOnLevel = (entity: CollaborationEntity) => entity.levelId === levelId;
+  const next = removeShapes(state, new Set(state.shapes.filter(isOnLevel).map(shape => shape.id)));
+  return {
+    ...next,
+    levels: next.levels.filter(level => level.id !== levelId),
+    walls: next.walls.filter(wall => !isOnLevel(wall)),
+    measurements: next.measurements.filter(measurement => !isOnLevel(measurement)),
+  };
+};
+
+/**
+ * Apply one operation without mutating the input; rejected operations leave the state unchanged
+ */
+export const applyLayoutOperation = (state: CollaborationState, operation: LayoutOperation): CollaborationState => {
+  const { collection } = operation;
+  const entities = state[collection];
+  if (!entities) return state;
+
+  switch (operation.kind) {
+    case 'add': {
+      const shapeIds = new Set(state.shapes.map(shape => shape.id));
+      if (
+        entities.some(entity => entity.id === operation.value.id) ||
+        getDoorShapeIds(collection, operation.value).some(shapeId => !shapeIds.has(shapeId)) ||
+        isOnMissingLevel(state, collection, operation.value)
+      ) {
+        return state;
+      }
+      return { ...state, [collection]: [...entities, operation.value] };
+    }
+
+    case 'update': {
+      const existing = entities.find(entity => entity.id === operation.id);
+      if (!existing) return state;
+      const { id: _ignored, ...changes } = operation.changes;
+      const updated = { ...existing, ...changes };
+      const shapeIds = new Set(state.shapes.map(shape => shape.id));
+      if (
+        getDoorShapeIds(collection, updated).some(shapeId => !shapeIds.has(shapeId)) ||
+        isOnMissingLevel(state, collection, updated)
+      ) {
+        return state;
+      }
+      return {
+        ...state,
+        [collection]: entities.map(entity => (entity.id === operation.id ? updated : entity)),
+      };
+    }
+
+    case 'remove': {
+      if (!entities.some(entity => entity.id === operation.id)) return state;
+      if (collection === 'shapes') return removeShapes(state, new Set([operation.id]));
+      if (collection === 'levels') return removeLevel(state, operation.id);
+      return { ...state, [collection]: entities.filter(entity => entity.id !== operation.id) };
+    }
+  }
+};
+
+export const applyLayoutOperations = (state: CollaborationState, operations: LayoutOperation[]): CollaborationState =>
+  operations.reduce(applyLayoutOperation, state);
+
+// Entities travel as JSON, so compare them the way they will arrive
+const isSameValue = (a: unknown, b: unknown): boolean => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Operations that turn one state into the other. Rooms are added before doors and doors
+ * removed before rooms, so the server never sees a door without its rooms.
+ */
+export const diffCollaborationStates = (from: CollaborationState, to: CollaborationState): LayoutOperation[] => {
+  const adds: LayoutOperation[] = [];
+  const updates: LayoutOperation[] = [];
+  const removes: LayoutOperation[] = [];
+
+  COLLABORATION_COLLECTIONS.forEach(collection => {
+    const before = new Map(from[collection].map(entity => [entity.id, entity]));
+    const after = new Map(to[collection].map(entity => [entity.id, entity]));
+
+    after.forEach((entity, id) => {
+      const previous = before.get(id);
+      if (!previous) {
+        adds.push({ kind: 'add', collection, value: entity });
+        return;
+      }
+      if (previous === entity) return;
+
+      const changes: Record<string, any> = {};
+      new Set([...Object.keys(previous), ...Object.keys(entity)]).forEach(key => {
+        if (!isSameValue(previous[key], entity[key])) {
+          // null, not undefined, so a cleared field survives JSON
+          changes[key] = entity[key] === undefined ? null : entity[key];
+        }
+      });
+      if (Object.keys(changes).length > 0) {
+        updates.push({ kind: 'update', collection, id, changes });
+      }
+    });
+
+    before.forEach((_entity, id) => {
+      if (!after.has(id)) {
+        removes.push({ kind: 'remove', collection, id });
+      }
+    });
+  });
+
+  // COLLABORATION_COLLECTIONS lists rooms first, so reversing the removes takes doors out first
+  return [...adds, ...updates, ...removes.reverse()];
+};
@@ -0,0 +1,137 @@
+/**
+ * Review comment pins: what a click on the canvas is pinned to, where a pin is drawn
+ * and how its target is described in the review panel and comment register
+ */
+
+import { ShapeProperties } from '../components/LayoutDesigner/PropertiesPanel';
+import { DoorConnection, ReviewAnchor, ReviewThread, RevisionApprovalStatus, User } from '../types';
+import { DoorPlacement } from './wallDetection';
+
+// How far from a door or wall (canvas pixels) a click still pins to it
+const PIN_TOLERANCE = 10;
+
+export const APPROVAL_LABELS: Record<RevisionApprovalStatus, string> = {
+  pending: 'Pending review',
+  approved: 'Approved',
+  changes_requested: 'Changes requested',
+};
+
+type Point = { x: number; y: number };
+
+// Drawn walls and walls shared by two rooms both qualify
+export interface ReviewWall {
+  id: string;
+  startPoint: Point;
+  endPoint: Point;
+}
+
+export interface ReviewTargets {
+  shapes: ShapeProperties[];
+  doorConnections: DoorConnection[];
+  doorPlacements: DoorPlacement[];
+  walls: ReviewWall[];
+}
+
+const distanceToSegment = (point: Point, start: Point, end: Point): number => {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared));
+  return Math.hypot(point.x - (start.x + t * dx), point.y - (start.y + t * dy));
+};
+
+const doorConnectionPoint = (door: DoorConnection): Point => ({ x: door.fromShape.x, y: door.fromShape.y });
+
+/**
+ * Anchor for a click at `point`: a door or wall under the cursor first, then the smallest
+ * room containing it, otherwise the canvas itself
+ */
+export function resolveReviewAnchor(point: Point, targets: ReviewTargets, levelId?: string): ReviewAnchor {
+  const base = { x: point.x, y: point.y, ...(levelId ? { levelId } : {}) };
+
+  const door =
+    targets.doorPlacements.find(d => Math.hypot(point.x - d.position.x, point.y - d.position.y) <= Math.max(PIN_TOLERANCE, d.width / 2)) ||
+    targets.doorConnections.find(d => {
+      const at = doorConnectionPoint(d);
+      return Math.hypot(point.x - at.x, point.y - at.y) <= PIN_TOLERANCE;
+    });
+  if (door) return { kind: 'door', targetId: door.id, ...base };
+
+  const wall = targets.walls.find(w => distanceToSegment(point, w.startPoint, w.endPoint) <= PIN_TOLERANCE / 2);
+  if (wall) return { kind: 'wall', targetId: wall.id, ...base };
+
+  const room = targets.shapes
+    .filter(shape =>
+      point.x >= shape.x && point.x <= shape.x + shape.width &&
+      point.y >= shape.y && point.y <= shape.y + shape.height)
+    .sort((a, b) => a.width * a.height - b.width * b.height)[0];
+  if (room) return { kind: 'shape', targetId: room.id, ...base };
+
+  return { kind: 'canvas', ...base };
+}
+
+/**
+ * Where to draw a pin: the current position of its target, or the original pin
+ * position when the target has been deleted (`missing`)
+ */
+export function getAnchorPosition(anchor: ReviewAnchor, targets: ReviewTargets): Point & { missing: boolean } {
+  const fallback = { x: anchor.x, y: anchor.y, missing: anchor.kind !== 'canvas' };
+
+  switch (anchor.kind) {
+    case 'shape': {
+      const shape = targets.shapes.find(s => s.id === anchor.targetId);
+      return shape ? { x: shape.x + shape.width / 2, y: shape.y + shape.height / 2, missing: false } : fallback;
+    }
+    case 'door': {
+      const placement = targets.doorPlacements.find(d => d.id === anchor.targetId);
+      if (placement) return { ...placement.position, missing: false };
+      const connection = targets.doorConnections.find(d => d.id === anchor.targetId);
+      return connection ? { ...doorConnectionPoint(connection), missing: false } : fallback;
+    }
+    case 'wall': {
+      const wall = targets.walls.find(w => w.id === anchor.targetId);
+      return wall
+        ? { x: (wall.startPoint.x + wall.endPoint.x) / 2, y: (wall.startPoint.y + wall.endPoint.y) / 2, missing: false }
+        : fallback;
+    }
+    default:
+      return { x: anchor.x, y: anchor.y, missing: false };
+  }
+}
+
+/**
+ * Human-readable pin location, e.g. "Room: Granulation" or "Door: Airlock – Corridor"
+ */
+export function describeAnchor(anchor: ReviewAnchor, targets: ReviewTargets): string {
+  const shapeName = (id: string) => targets.shapes.find(s => s.id === id)?.name || 'deleted room';
+
+  switch (anchor.kind) {
+    case 'shape':
+      return targets.shapes.some(s => s.id === anchor.targetId) ? `Room: ${shapeName(anchor.targetId!)}` : 'Room (deleted)';
+    case 'door': {
+      const placement = targets.doorPlacements.find(d => d.id === anchor.targetId);
+      if (placement) return `Door: ${shapeName(placement.shape1Id)} – ${shapeName(placement.shape2Id)}`;
+      const connection = targets.doorConnections.find(d => d.id === anchor.targetId);
+      return connection
+        ? `Door: ${shapeName(connection.fromShape.shapeId)} – ${shapeName(connection.toShape.shapeId)}`
+        : 'Door (deleted)';
+    }
+    case 'wall':
+      return targets.walls.some(w => w.id === anchor.targetId) ? 'Wall' : 'Wall (deleted)';
+    default:
+      return `Canvas (${Math.round(anchor.x)}, ${Math.round(anchor.y)})`;
+  }
+}
+
+/**
+ * @handles that refer to a user: their name without spaces and the local part of their email
+ */
+export const getMentionHandles = (user: Pick<User, 'name' | 'email'>): string[] => [
+  user.name.replace(/\s+/g, '').toLowerCase(),
+  user.email.split('@')[0].toLowerCase(),
+];
+
+export const isMentionedIn = (thread: ReviewThread, handles: string[]): boolean =>
+  thread.comments.some(comment => comment.mentions.some(mention => handles.includes(mention)));
@@ -0,0 +1,236 @@
+/**
+ * Minimal vector PDF writer (PDF 1.4, standard Helvetica fonts, no dependencies)
+ * Coordinates are millimeters from the top-left corner of the page
+ */
+
+const POINTS_PER_MM = 72 / 25.4;
+const BEZIER_CIRCLE = 0.5523;
+
+export type PdfPaintMode = 'stroke' | 'fill' | 'fillStroke';
+
+export interface PdfTextOptions {
+  size?: number; // Points
+  bold?: boolean;
+  align?: 'left' | 'center' | 'right';
+  color?: string;
+}
+
+interface PdfPage {
+  width: number; // mm
+  height: number; // mm
+  content: string[];
+}
+
+// Characters outside Latin-1 that exist in WinAnsiEncoding
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+/**
+ * Approximate Helvetica advance width (in em) for layout of labels and table cells
+ */
+const charWidth = (char: string, bold: boolean): number => {
+  let width: number;
+  if (char === ' ') width = 0.278;
+  else if ('il.,:;|!\'’`'.includes(char)) width = 0.25;
+  else if ('fjtr()[]/-'.includes(char)) width = 0.33;
+  else if ('mwMW'.includes(char)) width = 0.85;
+  else if (/[0-9]/.test(char)) width = 0.556;
+  else if (/[A-Z]/.test(char)) width = 0.68;
+  else width = 0.53;
+  return bold ? width * 1.06 : width;
+};
+
+const formatNumber = (value: number): string => String(Number(value.toFixed(3)));
+
+const parseColor = (color: string): [number, number, number] => {
+  const hex = color.replace('#', '');
+  const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex.padEnd(6, '0').slice(0, 6);
+  const value = parseInt(full, 16);
+  if (Number.isNaN(value)) return [0, 0, 0];
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map(c => c / 255) as [number, number, number];
+};
+
+/**
+ * Mix a colour with white, used instead of transparency so fills print predictably
+ */
+export const tintColor = (color: string, opacity: number): string => {
+  const [r, g, b] = parseColor(color);
+  const mix = (c: number) => Math.round((c * opacity + (1 - opacity)) * 255).toString(16).padStart(2, '0');
+  return `#${mix(r)}${mix(g)}${mix(b)}`;
+};
+
+export class PdfDocument {
+  private pages: PdfPage[] = [];
+
+  constructor(private title = 'Layout') { }
+
+  addPage(width: number, height: number): void {
+    this.pages.push({ width, height, content: [] });
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  textWidth(text: string, size: number, bold = false): number {
+    return (text.split('').reduce((sum, char) => sum + charWidth(char, bold), 0) * size) / POINTS_PER_MM;
+  }
+
+  /**
+   * Shorten text with an ellipsis so it fits in the given width (mm)
+   */
+  fitText(text: string, maxWidth: number, size: number, bold = false): string {
+    if (this.textWidth(text, size, bold) <= maxWidth) return text;
+    let fitted = text;
+    while (fitted.length > 1 && this.textWidth(`${fitted}…`, size, bold) > maxWidth) {
+      fitted = fitted.slice(0, -1);
+    }
+    return `${fitted}…`;
+  }
+
+  setStrokeColor(color: string): void {
+    this.write(`${parseColor(color).map(formatNumber).join(' ')} RG`);
+  }
+
+  setFillColor(color: string): void {
+    this.write(`${parseColor(color).map(formatNumber).join(' ')} rg`);
+  }
+
+  setLineWidth(width: number): void {
+    this.write(`${formatNumber(width * POINTS_PER_MM)} w`);
+  }
+
+  setDash(pattern: number[] = []): void {
+    this.write(`[${pattern.map(value => formatNumber(value * POINTS_PER_MM)).join(' ')}] 0 d`);
+  }
+
+  save(): void {
+    this.write('q');
+  }
+
+  restore(): void {
+    this.write('Q');
+  }
+
+  /**
+   * Clip everything drawn until restore() to a rectangle
+   */
+  clipRect(x: number, y: number, width: number, height: number): void {
+    this.write(`${this.rectPath(x, y, width, height)} W n`);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number): void {
+    this.write(`${this.point(x1, y1)} m ${this.point(x2, y2)} l S`);
+  }
+
+  rect(x: number, y: number, width: number, height: number, mode: PdfPaintMode = 'stroke'): void {
+    this.write(`${this.rectPath(x, y, width, height)} ${this.operator(mode)}`);
+  }
+
+  polygon(points: Array<{ x: number; y: number }>, mode: PdfPaintMode = 'stroke'): void {
+    if (points.length < 2) return;
+    const path = points.map((p, i) => `${this.point(p.x, p.y)} ${i === 0 ? 'm' : 'l'}`).join(' ');
+    this.write(`${path} h ${this.operator(mode)}`);
+  }
+
+  circle(cx: number, cy: number, radius: number, mode: PdfPaintMode = 'stroke'): void {
+    const k = radius * BEZIER_CIRCLE;
+    this.write([
+      `${this.point(cx + radius, cy)} m`,
+      `${this.point(cx + radius, cy + k)} ${this.point(cx + k, cy + radius)} ${this.point(cx, cy + radius)} c`,
+      `${this.point(cx - k, cy + radius)} ${this.point(cx - radius, cy + k)} ${this.point(cx - radius, cy)} c`,
+      `${this.point(cx - radius, cy - k)} ${this.point(cx - k, cy - radius)} ${this.point(cx, cy - radius)} c`,
+      `${this.point(cx + k, cy - radius)} ${this.point(cx + radius, cy - k)} ${this.point(cx + radius, cy)} c`,
+      this.operator(mode),
+    ].join(' '));
+  }
+
+  /**
+   * Draw text with its baseline at y
+   */
+  text(x: number, y: number, value: string, options: PdfTextOptions = {}): void {
+    const { size = 9, bold = false, align = 'left', color = '#000000' } = options;
+    const width = this.textWidth(value, size, bold);
+    const left = align === 'center' ? x - width / 2 : align === 'right' ? x - width : x;
+    this.setFillColor(color);
+    this.write(`BT /${bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ${this.point(left, y)} Td (${this.encodeText(value)}) Tj ET`);
+  }
+
+  /**
+   * Serialize the document. Every character is written as a single byte, so string
+   * offsets equal byte offsets in the xref table.
+   */
+  toBytes(): Uint8Array {
+    const objects: string[] = [];
+    const pageObjectIds: number[] = [];
+    const firstPageId = 5;
+
+    this.pages.forEach((page, index) => {
+      const pageId = firstPageId + index * 2;
+      const content = page.content.join('\n');
+      pageObjectIds.push(pageId);
+      objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(page.width * POINTS_PER_MM)} ${formatNumber(page.height * POINTS_PER_MM)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+    });
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageObjectIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageObjectIds.length} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+    const infoId = objects.length;
+    objects[infoId] = `<< /Title (${this.encodeText(this.title)}) /Producer (Pharmaceutical Facility Design Copilot) >>`;
+
+    let output = '%PDF-1.4\n%\xE2\xE3\xCF\xD3\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(output.length);
+    for (let i = 0; i < output.length; i++) {
+      bytes[i] = output.charCodeAt(i) & 0xff;
+    }
+    return bytes;
+  }
+
+  private write(operation: string): void {
+    const page = this.pages[this.pages.length - 1];
+    if (!page) throw new Error('PdfDocument: addPage() must be called before drawing');
+    page.content.push(operation);
+  }
+
+  private point(x: number, y: number): string {
+    const page = this.pages[this.pages.length - 1];
+    return `${formatNumber(x * POINTS_PER_MM)} ${formatNumber((page.height - y) * POINTS_PER_MM)}`;
+  }
+
+  private rectPath(x: number, y: number, width: number, height: number): string {
+    return `${this.point(x, y + height)} ${formatNumber(width * POINTS_PER_MM)} ${formatNumber(height * POINTS_PER_MM)} re`;
+  }
+
+  private operator(mode: PdfPaintMode): string {
+    return mode === 'fill' ? 'f' : mode === 'fillStroke' ? 'B' : 'S';
+  }
+
+  // WinAnsi-encode and escape a PDF literal string; unsupported characters become '?'
+  private encodeText(value: string): string {
+    return Array.from(value).map(char => {
+      const code = char.charCodeAt(0);
+      const byte = code < 256 ? code : WIN_ANSI_EXTRAS[char];
+      if (byte === undefined || (byte < 32 && byte !== 9)) return '?';
+      const encoded = String.fromCharCode(byte);
+      return encoded === '(' || encoded === ')' || encoded === '\\' ? `\\${encoded}` : encoded;
+    }).join('');
+  }
+}
@@ -0,0 +1,262 @@
+import { ShapeProperties } from '../components/LayoutDesigner/PropertiesPanel';
+import { DoorConnection } from '../types';
+import { DoorPlacement } from './wallDetection';
+
+/**
+ * Relative cleanliness of each cleanroom grade (higher = cleaner)
+ */
+export const CLEANROOM_GRADE_RANK: Record<string, number> = {
+  A: 4,
+  B: 3,
+  C: 2,
+  D: 1,
+  CNC: 0,
+};
+
+/**
+ * Typical differential pressure setpoints (Pa, relative to ambient) per grade.
+ * Used as suggestions only - the analyzer never substitutes them for missing setpoints.
+ */
+export const TYPICAL_PRESSURE_SETPOINTS: Record<string, number> = {
+  A: 45,
+  B: 45,
+  C: 30,
+  D: 15,
+  CNC: 5,
+};
+
+// EU GMP Annex 1 (4.27): 10-15 Pa between adjacent rooms of different grades
+export const MIN_GRADE_DIFFERENTIAL_PA = 10;
+export const RECOMMENDED_GRADE_DIFFERENTIAL_PA = 15;
+
+export type PressureCascadeStatus =
+  | 'ok'
+  | 'marginal'          // Differential between the minimum and recommended value
+  | 'insufficient'      // Differential below the minimum between grades
+  | 'reversed'          // Air flows from the lower grade into the higher grade
+  | 'missing-setpoint'; // One or both rooms have no numeric setpoint
+
+/**
+ * Pressure relationship across a single door between two rooms
+ */
+export interface PressureCascadeLink {
+  id: string;
+  doorIds: string[];
+  shapeAId: string;
+  shapeBId: string;
+  shapeAPressure?: number;
+  shapeBPressure?: number;
+  airflowFromShapeId?: string; // Room air leaves through the door (higher pressure)
+  airflowToShapeId?: string;
+  differential?: number; // Absolute pressure difference in Pa
+  gradeChange: boolean;
+  status: PressureCascadeStatus;
+  severity: 'error' | 'warning' | 'info' | 'ok';
+  message: string;
+}
+
+export interface PressureCascadeOptions {
+  minDifferential?: number;
+  recommendedDifferential?: number;
+}
+
+export interface PressureCascadeResult {
+  links: PressureCascadeLink[];
+  summary: {
+    ok: number;
+    marginal: number;
+    insufficient: number;
+    reversed: number;
+    missingSetpoint: number;
+  };
+}
+
+const getGradeRank = (shape: ShapeProperties): number | undefined =>
+  shape.cleanroomClass ? CLEANROOM_GRADE_RANK[shape.cleanroomClass] : undefined;
+
+const describeRoom = (shape: ShapeProperties): string =>
+  shape.cleanroomClass ? `"${shape.name}" (Grade ${shape.cleanroomClass})` : `"${shape.name}"`;
+
+/**
+ * Collect unique room pairs connected by doors, keyed independently of direction
+ */
+const collectDoorPairs = (
+  doorConnections: DoorConnection[],
+  doorPlacements: DoorPlacement[]
+): Map<string, { shapeAId: string; shapeBId: string; doorIds: string[] }> => {
+  const pairs = new Map<string, { shapeAId: string; shapeBId: string; doorIds: string[] }>();
+
+  const addPair = (doorId: string, firstId: string, secondId: string) => {
+    if (!firstId || !secondId || firstId === secondId) return;
+    const [shapeAId, shapeBId] = [firstId, secondId].sort();
+    const key = `${shapeAId}|${shapeBId}`;
+    const existing = pairs.get(key);
+    if (existing) {
+      existing.doorIds.push(doorId);
+    } else {
+      pairs.set(key, { shapeAId, shapeBId, doorIds: [doorId] });
+    }
+  };
+
+  doorConnections.forEach(door => addPair(door.id, door.fromShape.shapeId, door.toShape.shapeId));
+  doorPlacements.forEach(door => addPair(door.id, door.shape1Id, door.shape2Id));
+
+  return pairs;
+};
+
+/**
+ * Evaluate the pressure cascade across one door pair
+ */
+const evaluateLink = (
+  id: string,
+  doorIds: string[],
+  shapeA: ShapeProperties,
+  shapeB: ShapeProperties,
+  minDifferential: number,
+  recommendedDifferential: number
+): PressureCascadeLink | null => {
+  const rankA = getGradeRank(shapeA);
+  const rankB = getGradeRank(shapeB);
+
+  // Nothing to check between two unclassified rooms
+  if (rankA === undefined && rankB === undefined) return null;
+
+  const base = {
+    id,
+    doorIds,
+    shapeAId: shapeA.id,
+    shapeBId: shapeB.id,
+    shapeAPressure: shapeA.pressureSetpoint,
+    shapeBPressure: shapeB.pressureSetpoint,
+    gradeChange: (rankA ?? 0) !== (rankB ?? 0),
+  };
+
+  if (shapeA.pressureSetpoint === undefined || shapeB.pressureSetpoint === undefined) {
+    const missing = [shapeA, shapeB]
+      .filter(s => s.pressureSetpoint === undefined)
+      .map(s => `"${s.name}"`)
+      .join(' and ');
+    return {
+      ...base,
+      status: 'missing-setpoint',
+      severity: 'info',
+      message: `No differential pressure setpoint defined for ${missing}`,
+    };
+  }
+
+  const pressureA = shapeA.pressureSetpoint;
+  const pressureB = shapeB.pressureSetpoint;
+  const differential = Math.abs(pressureA - pressureB);
+  const airflow = pressureA === pressureB
+    ? {}
+    : pressureA > pressureB
+      ? { airflowFromShapeId: shapeA.id, airflowToShapeId: shapeB.id }
+      : { airflowFromShapeId: shapeB.id, airflowToShapeId: shapeA.id };
+
+  if (!base.gradeChange) {
+    return {
+      ...base,
+      ...airflow,
+      differential,
+      status: 'ok',
+      severity: 'ok',
+      message: `Same grade - ${differential} Pa differential`,
+    };
+  }
+
+  // The cleaner room must be the higher-pressure side, unless it is a
+  // negative-pressure containment room which deliberately draws air in.
+  const [cleaner, dirtier] = (rankA ?? 0) > (rankB ?? 0) ? [shapeA, shapeB] : [shapeB, shapeA];
+  const [expectedHigh, expectedLow] = cleaner.pressureRegime === 'negative'
+    ? [dirtier, cleaner]
+    : [cleaner, dirtier];
+  const signedDifferential = (expectedHigh.pressureSetpoint as number) - (expectedLow.pressureSetpoint as number);
+
+  if (signedDifferential < 0) {
+    return {
+      ...base,
+      ...airflow,
+      differential,
+      status: 'reversed',
+      severity: 'error',
+      message: `Air flows from ${describeRoom(expectedLow)} into ${describeRoom(expectedHigh)} (${expectedLow.pressureSetpoint} Pa > ${expectedHigh.pressureSetpoint} Pa)`,
+    };
+  }
+
+  if (signedDifferential < minDifferential) {
+    return {
+      ...base,
+      ...airflow,
+      differential,
+      status: 'insufficient',
+      severity: 'error',
+      message: `Only ${signedDifferential} Pa between ${describeRoom(expectedHigh)} and ${describeRoom(expectedLow)} (minimum ${minDifferential} Pa)`,
+    };
+  }
+
+  if (signedDifferential < recommendedDifferential) {
+    return {
+      ...base,
+      ...airflow,
+      differential,
+      status: 'marginal',
+      severity: 'warning',
+      message: `${signedDifferential} Pa between ${describeRoom(expectedHigh)} and ${describeRoom(expectedLow)} is below the recommended ${recommendedDifferential} Pa`,
+    };
+  }
+
+  return {
+    ...base,
+    ...airflow,
+    differential,
+    status: 'ok',
+    severity: 'ok',
+    message: `${signedDifferential} Pa from ${describeRoom(expectedHigh)} to ${describeRoom(expectedLow)}`,
+  };
+};
+
+/**
+ * Walk every door between rooms and check the pressure cascade across it
+ */
+export function analyzePressureCascade(
+  shapes: ShapeProperties[],
+  doorConnections: DoorConnection[],
+  doorPlacements: DoorPlacement[] = [],
+  options: PressureCascadeOptions = {}
+): PressureCascadeResult {
+  const minDifferential = options.minDifferential ?? MIN_GRADE_DIFFERENTIAL_PA;
+  const recommendedDifferential = Math.max(
+    options.recommendedDifferential ?? RECOMMENDED_GRADE_DIFFERENTIAL_PA,
+    minDifferential
+  );
+
+  const shapesById = new Map(shapes.map(shape => [shape.id, shape]));
+  const links: PressureCascadeLink[] = [];
+
+  collectDoorPairs(doorConnections, doorPlacements).forEach((pair, key) => {
+    const shapeA = shapesById.get(pair.shapeAId);
+    const shapeB = shapesById.get(pair.shapeBId);
+    if (!shapeA || !shapeB) return;
+
+    const link = evaluateLink(
+      `pressure-cascade-${key}`,
+      pair.doorIds,
+      shapeA,
+      shapeB,
+      minDifferential,
+      recommendedDifferential
+    );
+    if (link) links.push(link);
+  });
+
+  return {
+    links,
+    summary: {
+      ok: links.filter(l => l.status === 'ok').length,
+      marginal: links.filter(l => l.status === 'marginal').length,
+      insufficient: links.filter(l => l.status === 'insufficient').length,
+      reversed: links.filter(l => l.status === 'reversed').length,
+      missingSetpoint: links.filter(l => l.status === 'missing-setpoint').length,
+    },
+  };
+}
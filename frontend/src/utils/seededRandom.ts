@@ -0,0 +1,26 @@
+/**
+ * Seeded pseudo-random numbers so auto-layouts can be reproduced from their seed
+ */
+
+export type RandomSource = () => number;
+
+/**
+ * Mulberry32 generator returning values in [0, 1)
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Pick a fresh unsigned 32-bit seed for callers that did not supply one
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
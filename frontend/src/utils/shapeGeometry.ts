@@ -481,4 +481,107 @@ export function calculateShapeArea(shapeType: ShapeType, width: number, height:
       // For custom shapes, use bounding box
       return width * height;
   }
-}
\ No newline at end of file
+}
+const generateRegularPolygonPoints = (sides: number, width: number, height: number): ShapePoint[] => {
+  const cx = width / 2;
+  const cy = height / 2;
+  const r = Math.max(1, Math.min(width, height) / 2);
+  const points: { x: number; y: number }[] = [];
+  // Rotate so one vertex is at top for odd sides
+  const startAngle = -Math.PI / 2;
+  for (let i = 0; i < sides; i++) {
+    const angle = startAngle + (i * 2 * Math.PI) / sides;
+    points.push({ x: cx + r * Math.cos(angle), y: cy + r * Math.sin(angle) });
+  }
+  return points;
+};
+
+/**
+ * Outline of a shape relative to its top-left corner, as drawn on the layout canvas:
+ * stored pointsRelative when present, otherwise the template outline for its type
+ */
+export function computePointsRelative(shape: {
+  shapeType: ShapeType;
+  width: number;
+  height: number;
+  customProperties?: Record<string, any>;
+}): ShapePoint[] {
+  const rel: ShapePoint[] | undefined = shape.customProperties?.pointsRelative;
+  if (Array.isArray(rel) && rel.length >= 3) return rel;
+
+  // Fallbacks for template-based polygonal shapes
+  if (shape.shapeType === 'diamond') {
+    const w = shape.width, h = shape.height;
+    return [
+      { x: w / 2, y: 0 },
+      { x: w, y: h / 2 },
+      { x: w / 2, y: h },
+      { x: 0, y: h / 2 },
+    ];
+  }
+  if (shape.shapeType === 'trapezoid') {
+    const w = shape.width, h = shape.height;
+    const inset = Math.min(w, h) * 0.2;
+    return [
+      { x: inset, y: 0 },
+      { x: w - inset, y: 0 },
+      { x: w, y: h },
+      { x: 0, y: h },
+    ];
+  }
+  if (shape.shapeType === 'parallelogram') {
+    const w = shape.width, h = shape.height;
+    const skew = Math.min(w, h) * 0.2;
+    return [
+      { x: skew, y: 0 },
+      { x: w, y: 0 },
+      { x: w - skew, y: h },
+      { x: 0, y: h },
+    ];
+  }
+  if (shape.shapeType === 'pentagon' || shape.shapeType === 'hexagon' || shape.shapeType === 'octagon') {
+    const sides = shape.shapeType === 'pentagon' ? 5 : shape.shapeType === 'hexagon' ? 6 : 8;
+    return generateRegularPolygonPoints(sides, shape.width, shape.height);
+  }
+  if (shape.shapeType === 'L-shape') {
+    const w = shape.width, h = shape.height;
+    const arm = Math.min(w, h) * 0.45; // thickness of the L arms
+    return [
+      { x: 0, y: 0 },
+      { x: w, y: 0 },
+      { x: w, y: arm },
+      { x: arm, y: arm },
+      { x: arm, y: h },
+      { x: 0, y: h },
+    ];
+  }
+  if (shape.shapeType === 'C-shape') {
+    const w = shape.width, h = shape.height;
+    const t = Math.min(w, h) * 0.25; // thickness of the C
+    return [
+      { x: 0, y: 0 },
+      { x: w, y: 0 },
+      { x: w, y: t },
+      { x: t, y: t },
+      { x: t, y: h - t },
+      { x: w, y: h - t },
+      { x: w, y: h },
+      { x: 0, y: h },
+    ];
+  }
+  if (shape.shapeType === 'triangle') {
+    const w = shape.width, h = shape.height;
+    return [
+      { x: w / 2, y: 0 },
+      { x: w, y: h },
+      { x: 0, y: h },
+    ];
+  }
+  // Default: rectangle
+  return [
+    { x: 0, y: 0 },
+    { x: shape.width, y: 0 },
+    { x: shape.width, y: shape.height },
+    { x: 0, y: shape.height },
+  ];
+}
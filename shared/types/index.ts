@@ -81,6 +81,7 @@ export interface DoorConnection {
   toShape: DoorConnectionPoint;
   flowType: DoorFlowType;
   flowDirection: DoorFlowDirection;
+  unidirectionalDirection?: 'fromFirstToSecond' | 'fromSecondToFirst'; // Only used when flowDirection is 'unidirectional'
   doorType?: DoorType; // Optional door type for GMP compliance
   createdAt?: Date;
   updatedAt?: Date;
@@ -105,8 +106,9 @@ export interface Diagram {
   name: string;
   nodes: FunctionalArea[];
   relationships: SpatialRelationship[];
-  createdAt: Date | string;
-  updatedAt: Date | string;
+  groups?: NodeGroup[];
+  createdAt: Date | string | null;
+  updatedAt: Date | string | null;
 }
 
 export interface ValidationResult {
@@ -138,6 +140,7 @@ export interface CostBreakdown {
   equipmentPurchaseCost: number; // Equipment purchase
   equipmentInstallationCost: number; // Equipment installation
   validationCost: number; // Validation and qualification
+  equipmentValidationCost?: number; // Part of validationCost for the room's equipment
   otherCosts: number; // Other miscellaneous costs
   totalCost: number; // Total cost
 }
@@ -168,6 +171,44 @@ export interface CostEstimationSettings {
   regionalFactor: number; // Regional cost variation multiplier (default: 1.0)
   escalationFactor: number; // Cost escalation factor (default: 1.0)
   contingencyPercentage: number; // Contingency percentage (default: 10)
+  region?: string; // Takes regionalFactor from the rate table
+  escalationIndex?: string; // Takes escalationFactor from this rate table index series
+  exchangeRate?: number; // Units of currency per unit of the cost base currency; set from the rate table
+}
+
+export type CostRateKind = 'currencyRates' | 'regionalFactors' | 'escalationIndices';
+
+// Value of a rate from its effective date until the next entry's
+export interface CostRateEntry {
+  effectiveDate: string; // YYYY-MM-DD
+  value: number;
+}
+
+// One version of the rate tables; every change creates a new version, so old ones stay reproducible
+export interface CostRateTable {
+  version: number;
+  baseCurrency: string; // Currency of the cost factors and equipment prices
+  escalationBaseDate: string; // Date the cost factors are priced at; escalation is measured from the index value on it
+  currencyRates: Record<string, CostRateEntry[]>; // Units of the currency per unit of baseCurrency
+  regionalFactors: Record<string, CostRateEntry[]>;
+  escalationIndices: Record<string, CostRateEntry[]>; // Cost index series, e.g. construction
+  createdAt: string;
+  createdBy?: string;
+  note?: string;
+}
+
+// Rate table version and date an estimate was calculated with
+export interface CostRateTableReference {
+  version: number;
+  asOf: string; // YYYY-MM-DD
+}
+
+// Rates of one version as effective on one date
+export interface EffectiveCostRates extends CostRateTableReference {
+  baseCurrency: string;
+  currencyRates: Record<string, number>;
+  regionalFactors: Record<string, number>;
+  escalationFactors: Record<string, number>; // Index on asOf relative to the index on escalationBaseDate
 }
 
 export interface ProjectCostEstimate {
@@ -175,6 +216,9 @@ export interface ProjectCostEstimate {
     roomId: string;
     roomName: string;
     area: number; // in square meters
+    cleanroomClass?: string;
+    roomType?: string;
+    equipment?: string[]; // Equipment catalog IDs
     costBreakdown: CostBreakdown;
   }[];
   equipment: {
@@ -190,6 +234,55 @@ export interface ProjectCostEstimate {
   grandTotal: number;
   currency: string;
   estimatedDate: Date;
+  rateTable?: CostRateTableReference; // Send back as rateTable to reproduce the estimate
+}
+
+// Low, most likely and high value of a cost factor, in the cost base currency
+export interface CostRange {
+  low: number;
+  mostLikely: number;
+  high: number;
+}
+
+export type CostFactorCategory = 'construction' | 'hvac' | 'validation';
+
+export interface CostSimulationSettings {
+  iterations: number; // Default: 5000
+  seed?: number; // The same seed and inputs give the same result
+  defaultRangePercentage?: { low: number; high: number }; // Range of every factor without one of its own, e.g. { low: -30, high: 30 }
+  factorRanges?: Record<string, Partial<Record<CostFactorCategory, CostRange>>>; // Per unit cost by cleanroom class
+  equipmentRanges?: Record<string, CostRange>; // Purchase price by equipment ID; installation and validation scale with it
+}
+
+// One bar of a tornado chart: the subtotal with one driver at its low and at its high values, everything else most likely
+export interface CostSensitivity {
+  key: string;
+  label: string;
+  low: number;
+  high: number;
+  swing: number; // high - low
+  varianceShare?: number; // Share of the simulated variance, 0-1 (factors only; rooms share factors)
+}
+
+// Monte Carlo simulation of the estimate subtotal (without contingency), in the estimate currency
+export interface CostSimulationResult {
+  iterations: number;
+  seed: number;
+  currency: string;
+  pointEstimate: number; // Subtotal of the estimate
+  mostLikely: number; // Subtotal with every factor at its most likely value
+  mean: number;
+  standardDeviation: number;
+  min: number;
+  max: number;
+  percentiles: { p10: number; p50: number; p90: number };
+  contingencyPercentageAtP90: number; // Contingency on the point estimate that reaches P90
+  histogram: Array<{ from: number; to: number; count: number }>;
+  factors: Array<{ key: string; label: string; range: CostRange }>; // Uncertain factors, in the cost base currency
+  sensitivity: {
+    factors: CostSensitivity[]; // Largest swing first
+    rooms: CostSensitivity[];
+  };
 }
 
 export interface EquipmentCatalogItem {
@@ -204,6 +297,126 @@ export interface EquipmentCatalogItem {
   linkedRoomTypes: string[];
 }
 
+// Running costs of a cleanroom class
+export interface CleanroomOperatingFactors {
+  airChangesPerHour: number; // Supply air changes per hour
+  gowningCostPerEntry: number; // Gowns, gloves, masks and overshoes per entry
+  requalificationIntervalMonths: number; // 0 means the room is not requalified
+}
+
+export interface LifecycleCostSettings {
+  horizonYears: number; // Years of operation after construction (default: 20)
+  discountRate: number; // Annual discount rate in percent (default: 8)
+  opexEscalationRate: number; // Annual escalation of maintenance, consumables and requalification in percent (default: 2.5)
+  energyPricePerKwh: number; // Energy price in the cost base currency (USD), converted at the exchange rate (default: 0.15)
+  energyEscalationRate: number; // Annual escalation of the energy price in percent (default: 3)
+  hvacOperatingHoursPerYear: number; // Hours the HVAC runs per year (default: 8760)
+  hvacEnergyKwhPerM3: number; // Fan and air conditioning energy per m³ of supply air (default: 0.0012)
+  defaultCeilingHeight: number; // Room height in meters when a room gives none (default: 3)
+  operatingDaysPerYear: number; // Production days per year (default: 250)
+  gowningEntriesPerPersonPerDay: number; // Default: 2
+  sqmPerOccupant: number; // Occupancy estimate when a room gives none (default: 25)
+  requalificationCostFraction: number; // Share of the initial validation cost spent per requalification (default: 0.25)
+  includeEquipmentReplacement: boolean; // Replace equipment at the end of its lifespan (default: true)
+  operatingFactors?: Record<string, Partial<CleanroomOperatingFactors>>; // Overrides by cleanroom class
+}
+
+// One year of the lifecycle cash flow; year 0 holds the capital cost
+export interface LifecycleCashFlowYear {
+  year: number;
+  capex: number;
+  maintenance: number;
+  replacement: number;
+  energy: number;
+  consumables: number;
+  requalification: number;
+  total: number;
+  discountFactor: number;
+  presentValue: number;
+  cumulativePresentValue: number;
+}
+
+export type LifecycleCostCategory = Exclude<keyof LifecycleCashFlowYear, 'year' | 'discountFactor' | 'presentValue' | 'cumulativePresentValue'>;
+
+export interface LifecycleCostEstimate {
+  currency: string;
+  settings: CostEstimationSettings;
+  lifecycleSettings: LifecycleCostSettings;
+  capitalCost: number; // Project estimate grand total, including contingency
+  rooms: {
+    roomId: string;
+    roomName: string;
+    cleanroomClass: string;
+    area: number;
+    airflowM3PerHour: number;
+    annualEnergyKwh: number;
+    annualEnergyCost: number; // At today's prices
+    annualConsumablesCost: number;
+    requalificationsPerYear: number;
+    requalificationCost: number; // Per requalification
+  }[];
+  equipment: {
+    equipmentId: string;
+    equipmentName: string;
+    quantity: number;
+    annualMaintenanceCost: number;
+    lifespan: number;
+    replacementYears: number[];
+  }[];
+  years: LifecycleCashFlowYear[];
+  totals: Record<LifecycleCostCategory, number>; // Undiscounted over the horizon
+  npv: number; // Present value of all costs
+  equivalentAnnualCost: number; // NPV spread evenly over the horizon
+}
+
+export interface LifecycleCostComparison {
+  options: Array<{ id: string; name: string; estimate: LifecycleCostEstimate }>;
+  ranking: Array<{ id: string; name: string; capitalCost: number; npv: number; equivalentAnnualCost: number; npvDelta: number }>; // Lowest NPV first
+}
+
+export type CostComparisonCategory = 'construction' | 'hvac' | 'equipment' | 'validation' | 'other' | 'contingency' | 'total';
+
+// What a cost difference is attributed to; 'other' covers changed cost factors, price settings and room types
+export type CostDeltaDriver = 'area' | 'cleanroomClass' | 'equipment' | 'other' | 'contingency';
+
+// One line of a comparison, one value per alternative; deltas are against the baseline, null where the line is missing
+export interface CostComparisonLine {
+  values: Array<number | null>;
+  deltas: Array<number | null>;
+}
+
+export interface CostDeltaExplanation {
+  alternativeId: string;
+  totalDelta: number; // Grand total minus the baseline's
+  drivers: Record<CostDeltaDriver, number>; // Add up to totalDelta
+  rooms: Array<{
+    key: string;
+    roomName: string;
+    change: 'added' | 'removed' | 'changed';
+    delta: number;
+    drivers: Record<Exclude<CostDeltaDriver, 'contingency'>, number>;
+    notes: string[]; // e.g. "class C → B"
+  }>; // Rooms whose cost differs, largest difference first
+  summary: string;
+}
+
+export interface CostEstimateComparison {
+  currency: string;
+  baselineId: string;
+  alternatives: Array<{
+    id: string;
+    name: string;
+    source: 'rooms' | 'saved' | 'estimate';
+    estimate: ProjectCostEstimate;
+    delta: number;
+    deltaPercent: number | null;
+  }>;
+  rooms: Array<CostComparisonLine & { key: string; roomName: string; areas: Array<number | null>; cleanroomClasses: Array<string | null> }>;
+  categories: Array<CostComparisonLine & { category: CostComparisonCategory }>;
+  cleanroomClasses: Array<CostComparisonLine & { cleanroomClass: string; areas: number[] }>;
+  explanations: CostDeltaExplanation[]; // One per alternative other than the baseline
+}
+
 export type NodeCategory =
   | 'Production'
   | 'Quality Control'
@@ -227,14 +440,28 @@ export interface NodeTemplate {
   typicalEquipment?: string[]; // IDs of typical equipment for this room type
 }
 
+/**
+ * Nesting level of a node group (zone → suite → room)
+ */
+export type NodeGroupLevel = 'zone' | 'suite' | 'room';
+
+/**
+ * What a node group belongs to - groups are always scoped to one diagram or layout
+ */
+export type NodeGroupOwnerType = 'diagram' | 'layout';
+
 export interface NodeGroup {
   id: string;
   name: string;
   color: string;
   nodeIds: string[];
   description?: string;
-  createdAt: Date;
-  updatedAt: Date;
+  level?: NodeGroupLevel;
+  parentGroupId?: string | null; // Enclosing group (e.g. the zone a suite belongs to)
+  ownerType?: NodeGroupOwnerType;
+  ownerId?: string; // Diagram or layout ID
+  createdAt: Date | string;
+  updatedAt: Date | string;
 }
 
 export interface GroupingState {
@@ -427,6 +654,7 @@ export interface LayoutGenerationRequest {
   constraints: LayoutConstraints;
   preferences?: LayoutPreferences;
   mode?: 'quick' | 'detailed' | 'comprehensive'; // Generation thoroughness
+  seed?: number; // Unsigned 32-bit seed; the same seed and description reproduce the same layout
 }
 
 /**
@@ -441,6 +669,7 @@ export interface LayoutConstraints {
   requiredRooms?: string[]; // Specific rooms that must be included
   excludedRooms?: string[]; // Rooms to avoid
   maxCleanroomClass?: 'A' | 'B' | 'C' | 'D'; // Highest cleanroom class needed
+  buildingFootprint?: { width: number; depth: number }; // Building width × depth in meters; rooms are packed inside it
 }
 
 /**
@@ -466,6 +695,9 @@ export interface GeneratedLayout {
   optimizationMetrics: OptimizationMetrics;
   warnings: string[]; // Potential issues
   suggestions: string[]; // Improvement recommendations
+  metadata: {
+    seed: number; // Seed used for positioning, generated when the request did not give one
+  };
 }
 
 /**
@@ -490,6 +722,7 @@ export interface OptimizationMetrics {
   crossContaminationRisk: number; // 0-1 score (lower = better)
   averageMaterialDistance: number; // Average distance for material flow
   averagePersonnelDistance: number; // Average distance for personnel flow
+  unroutableFlows?: number; // Declared flows with no door path (or only against one-way doors)
   cleanroomUtilization: number; // Percentage of high-grade cleanroom area
   estimatedConstructionCost?: number; // Relative cost index
 }
@@ -576,6 +809,7 @@ export interface TemplateInstantiationRequest {
     removeRooms?: string[]; // Room IDs to exclude
     modifyRoomSizes?: Record<string, { width: number; height: number }>;
   };
+  seed?: number; // Seed for reproducible room positioning
 }
 
 // ============================================
@@ -606,19 +840,33 @@ export interface ComplianceCheckResult {
   affectedNodeIds: string[];
   recommendation?: string;
   autoFixAvailable: boolean;
-  autoFix?: LayoutModification;
+  autoFix?: LayoutModification; // First entry of autoFixes
+  autoFixes?: LayoutModification[]; // One complete modification per affected room
+}
+
+/**
+ * Regulatory rule that applies to the zone but could not be evaluated automatically
+ */
+export interface NotEvaluatedRule {
+  ruleId: string;
+  source: RegulatoryRule['source'];
+  section: string;
+  requirement: string;
+  severity: 'critical' | 'major' | 'minor';
+  reason: string;
 }
 
 /**
  * Comprehensive compliance report
  */
 export interface ComplianceReport {
-  overallScore: number; // 0-100
+  overallScore: number; // 0-100, over evaluated rules only
   totalChecks: number;
   passed: number;
   failed: number;
   warnings: number;
   results: ComplianceCheckResult[];
+  notEvaluated: NotEvaluatedRule[]; // Applicable rules excluded from the score
   summary: string;
   regulatoryZone: string;
   generatedAt: Date;
@@ -634,9 +882,26 @@ export interface LayoutModification {
   node?: FunctionalArea;
   newPosition?: { x: number; y: number };
   relationship?: SpatialRelationship;
+  relationships?: SpatialRelationship[]; // Relationships wiring an added node into the layout
+  replacesRelationshipIds?: string[]; // Relationships an added node takes the place of, removed with it
+  resizedNodes?: Array<Required<Pick<FunctionalArea, 'id' | 'x' | 'y' | 'width' | 'height'>>>; // Neighbours trimmed to make room for an added node
+  ruleId?: string; // Compliance rule the modification resolves
   rationale: string;
 }
 
+/**
+ * Outcome of applying compliance auto-fixes to a diagram
+ */
+export interface ApplyFixesResult {
+  diagram: Diagram;
+  applied: LayoutModification[];
+  skipped: { modification: LayoutModification; reason: string }[];
+  previousScore: number;
+  complianceReport: ComplianceReport; // Re-run on the fixed diagram
+  resolvedRuleIds: string[];
+  unresolvedRuleIds: string[]; // Targeted rules that still fail after the fixes
+}
+
 // ============================================
 // OPTIMIZATION TYPES
 // ============================================
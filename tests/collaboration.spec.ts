@@ -0,0 +1,192 @@
+import { test, expect } from '@playwright/test';
+import WebSocket from 'ws';
+
+// Two headless clients against the collaboration channel; needs the backend on localhost:5000,
+// started with AUTH_DISABLED=true or with a bearer token for it in COLLABORATION_TOKEN
+const COLLABORATION_URL = `ws://localhost:5000/api/collaboration${
+  process.env.COLLABORATION_TOKEN ? `?token=${encodeURIComponent(process.env.COLLABORATION_TOKEN)}` : ''
+}`;
+
+const room = (id: string, x: number) => ({
+  id,
+  name: id,
+  shapeType: 'rectangle',
+  x,
+  y: 0,
+  width: 200,
+  height: 200,
+});
+
+const door = (id: string, shape1Id: string, shape2Id: string) => ({
+  id,
+  shape1Id,
+  shape2Id,
+  flowType: 'material',
+  flowDirection: 'bidirectional',
+});
+
+const emptyState = () => ({ shapes: [], doorConnections: [], doorPlacements: [], walls: [] });
+
+class TestClient {
+  messages: any[] = [];
+  clientId = '';
+  private waiters: Array<{ match: (message: any) => boolean; resolve: (message: any) => void }> = [];
+  private seq = 0;
+
+  constructor(private socket: WebSocket) {
+    socket.on('message', (data) => {
+      const message = JSON.parse(data.toString());
+      this.messages.push(message);
+      this.waiters = this.waiters.filter(waiter => {
+        if (!waiter.match(message)) return true;
+        waiter.resolve(message);
+        return false;
+      });
+    });
+  }
+
+  static async join(layoutId: string, name: string, state: any = emptyState()): Promise<{ client: TestClient; welcome: any }> {
+    const socket = new WebSocket(COLLABORATION_URL);
+    await new Promise((resolve, reject) => {
+      socket.once('open', resolve);
+      socket.once('error', reject);
+    });
+    const client = new TestClient(socket);
+    const welcomed = client.waitFor(message => message.type === 'welcome');
+    client.send({ type: 'join', layoutId, name, state });
+    const welcome = await welcomed;
+    client.clientId = welcome.clientId;
+    return { client, welcome };
+  }
+
+  send(message: any) {
+    this.socket.send(JSON.stringify(message));
+  }
+
+  // Resolves with the server's acknowledgement of this batch
+  submit(operations: any[]): Promise<any> {
+    const clientSeq = ++this.seq;
+    const ack = this.waitFor(message => message.type === 'op' && message.clientId === this.clientId && message.clientSeq === clientSeq);
+    this.send({ type: 'op', clientSeq, operations });
+    return ack;
+  }
+
+  waitFor(match: (message: any) => boolean, timeout = 5000): Promise<any> {
+    const seen = this.messages.find(match);
+    if (seen) return Promise.resolve(seen);
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('Timed out waiting for collaboration message')), timeout);
+      this.waiters.push({ match, resolve: (message) => { clearTimeout(timer); resolve(message); } });
+    });
+  }
+
+  close() {
+    this.socket.close();
+  }
+}
+
+// Replays the broadcast operations the way the frontend client does, to compare final states
+const replay = (state: any, messages: any[]) =>
+  messages
+    .filter(message => message.type === 'op')
+    .sort((a, b) => a.version - b.version)
+    .reduce((current, message) => {
+      message.operations.forEach((operation: any) => {
+        const entities = current[operation.collection];
+        if (operation.kind === 'add') entities.push(operation.value);
+        if (operation.kind === 'update') {
+          const index = entities.findIndex((entity: any) => entity.id === operation.id);
+          entities[index] = { ...entities[index], ...operation.changes };
+        }
+        if (operation.kind === 'remove') {
+          current[operation.collection] = entities.filter((entity: any) => entity.id !== operation.id);
+          if (operation.collection === 'shapes') {
+            current.doorPlacements = current.doorPlacements.filter(
+              (d: any) => d.shape1Id !== operation.id && d.shape2Id !== operation.id
+            );
+          }
+        }
+      });
+      return current;
+    }, JSON.parse(JSON.stringify(state)));
+
+test.describe('Real-time collaboration', () => {
+  test('second client receives the session state and live edits', async () => {
+    const layoutId = `collab-test-${Date.now()}-state`;
+    const { client: alice } = await TestClient.join(layoutId, 'Alice', { ...emptyState(), shapes: [room('r1', 0)] });
+    const { client: bob, welcome } = await TestClient.join(layoutId, 'Bob', emptyState());
+
+    // The session keeps the first client's layout
+    expect(welcome.state.shapes.map((shape: any) => shape.id)).toEqual(['r1']);
+    expect(welcome.users.map((user: any) => user.name)).toEqual(['Alice']);
+
+    await alice.submit([{ kind: 'add', collection: 'shapes', value: room('r2', 200) }]);
+    const remote = await bob.waitFor(message => message.type === 'op' && message.operations[0]?.value?.id === 'r2');
+    expect(remote.version).toBe(1);
+
+    alice.send({ type: 'presence', cursor: { x: 120, y: 80 }, selection: ['r1'] });
+    const presence = await bob.waitFor(message => message.type === 'presence');
+    expect(presence.user).toMatchObject({ name: 'Alice', cursor: { x: 120, y: 80 }, selection: ['r1'] });
+
+    bob.close();
+    await alice.waitFor(message => message.type === 'user-left');
+    alice.close();
+  });
+
+  test('concurrent edits converge to the same layout on both clients', async () => {
+    const layoutId = `collab-test-${Date.now()}-concurrent`;
+    const initial = { ...emptyState(), shapes: [room('r1', 0), room('r2', 200)] };
+    const { client: alice } = await TestClient.join(layoutId, 'Alice', initial);
+    const { client: bob } = await TestClient.join(layoutId, 'Bob');
+
+    // Sent without waiting for each other: different fields merge, the same field is decided by server order
+    const [aliceAck, bobAck] = await Promise.all([
+      alice.submit([{ kind: 'update', collection: 'shapes', id: 'r1', changes: { x: 400, name: 'Weighing' } }]),
+      bob.submit([{ kind: 'update', collection: 'shapes', id: 'r1', changes: { y: 300, name: 'Dispensing' } }]),
+    ]);
+    await alice.waitFor(message => message.type === 'op' && message.version === 2);
+    await bob.waitFor(message => message.type === 'op' && message.version === 2);
+
+    const aliceState = replay(initial, alice.messages);
+    const bobState = replay(initial, bob.messages);
+    expect(aliceState).toEqual(bobState);
+
+    const r1 = aliceState.shapes.find((shape: any) => shape.id === 'r1');
+    expect(r1).toMatchObject({ x: 400, y: 300 });
+    expect(r1.name).toBe(aliceAck.version > bobAck.version ? 'Weighing' : 'Dispensing');
+
+    alice.close();
+    bob.close();
+  });
+
+  test('edits to a room deleted by another user are rejected and its doors removed', async () => {
+    const layoutId = `collab-test-${Date.now()}-delete`;
+    const initial = {
+      ...emptyState(),
+      shapes: [room('r1', 0), room('r2', 200)],
+      doorPlacements: [door('d1', 'r1', 'r2')],
+    };
+    const { client: alice } = await TestClient.join(layoutId, 'Alice', initial);
+    const { client: bob } = await TestClient.join(layoutId, 'Bob');
+
+    await alice.submit([{ kind: 'remove', collection: 'shapes', id: 'r2' }]);
+    const bobAck = await bob.submit([
+      { kind: 'update', collection: 'shapes', id: 'r2', changes: { x: 600 } },
+      { kind: 'add', collection: 'doorPlacements', value: door('d2', 'r1', 'r2') },
+    ]);
+
+    expect(bobAck.operations).toEqual([]);
+    const rejected = await bob.waitFor(message => message.type === 'rejected');
+    expect(rejected.operations.map((entry: any) => entry.reason)).toEqual(['not-found', 'missing-room']);
+
+    // A late joiner sees the delete with the door cascade and nothing of the rejected edits
+    const { client: carol, welcome } = await TestClient.join(layoutId, 'Carol');
+    expect(welcome.state.shapes.map((shape: any) => shape.id)).toEqual(['r1']);
+    expect(welcome.state.doorPlacements).toEqual([]);
+    expect(welcome.version).toBe(1);
+
+    alice.close();
+    bob.close();
+    carol.close();
+  });
+});